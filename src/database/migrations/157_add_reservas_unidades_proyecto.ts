@@ -0,0 +1,48 @@
+import { Knex } from 'knex';
+
+/**
+ * Migración 157: Reservas con vencimiento en unidades de proyecto
+ *
+ * Agrega a unidades_proyecto:
+ * - reserva_expira_at: fecha en que la reserva se libera automáticamente (cron)
+ * - reservado_por_usuario_id: asesor que tiene la unidad apartada
+ * - extensiones_reserva: cantidad de extensiones aplicadas a la reserva actual
+ *
+ * La duración se configura por proyecto en propiedades.disponibilidad_config.reservas
+ */
+export async function up(knex: Knex): Promise<void> {
+  const hasExpira = await knex.schema.hasColumn('unidades_proyecto', 'reserva_expira_at');
+  if (!hasExpira) {
+    await knex.schema.alterTable('unidades_proyecto', (table) => {
+      table.timestamp('reserva_expira_at').nullable();
+      table.uuid('reservado_por_usuario_id').nullable().references('id').inTable('usuarios').onDelete('SET NULL');
+      table.integer('extensiones_reserva').notNullable().defaultTo(0);
+    });
+    console.log('✓ Columnas de reserva agregadas a unidades_proyecto');
+
+    await knex.raw(`
+      CREATE INDEX IF NOT EXISTS idx_unidades_reserva_expira
+      ON unidades_proyecto (reserva_expira_at)
+      WHERE estado = 'reservada'
+    `);
+    console.log('✓ Índice de reservas por vencer creado');
+  }
+
+  console.log('✅ Migración 157 completada: Reservas con vencimiento en unidades');
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.raw('DROP INDEX IF EXISTS idx_unidades_reserva_expira');
+
+  const hasExpira = await knex.schema.hasColumn('unidades_proyecto', 'reserva_expira_at');
+  if (hasExpira) {
+    await knex.schema.alterTable('unidades_proyecto', (table) => {
+      table.dropColumn('reserva_expira_at');
+      table.dropColumn('reservado_por_usuario_id');
+      table.dropColumn('extensiones_reserva');
+    });
+    console.log('✓ Columnas de reserva eliminadas de unidades_proyecto');
+  }
+
+  console.log('✅ Rollback de migración 157 completado');
+}
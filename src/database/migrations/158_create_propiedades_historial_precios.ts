@@ -0,0 +1,47 @@
+import type { Knex } from 'knex';
+
+/**
+ * Migración 158: Crear tabla propiedades_historial_precios
+ *
+ * Guarda cada cambio de precio de una propiedad (quién, cuándo, anterior/nuevo, moneda).
+ * propiedades.precio_anterior se sigue usando para el badge del sitio, pero
+ * se sobreescribe en cada edición; esta tabla conserva la evolución completa.
+ * notificado_at marca las bajadas ya avisadas a los contactos interesados (cron).
+ */
+
+export async function up(knex: Knex): Promise<void> {
+  console.log('⬆️  Ejecutando migración 158: create_propiedades_historial_precios');
+
+  await knex.schema.createTable('propiedades_historial_precios', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('tenant_id').notNullable().references('id').inTable('tenants').onDelete('CASCADE');
+    table.uuid('propiedad_id').notNullable().references('id').inTable('propiedades').onDelete('CASCADE');
+    table.string('campo', 30).notNullable().defaultTo('precio'); // precio, precio_venta, precio_alquiler
+    table.decimal('precio_anterior', 15, 2).nullable(); // NULL = precio inicial
+    table.decimal('precio_nuevo', 15, 2).nullable();
+    table.string('moneda_anterior', 10).nullable();
+    table.string('moneda_nueva', 10).nullable();
+    table.decimal('variacion_porcentaje', 8, 2).nullable();
+    table.uuid('usuario_id').nullable().references('id').inTable('usuarios').onDelete('SET NULL');
+    table.timestamp('notificado_at').nullable();
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+  });
+
+  await knex.raw(`CREATE INDEX idx_historial_precios_propiedad ON propiedades_historial_precios(propiedad_id, created_at DESC)`);
+  await knex.raw(`CREATE INDEX idx_historial_precios_tenant ON propiedades_historial_precios(tenant_id)`);
+  await knex.raw(`
+    CREATE INDEX idx_historial_precios_pendientes
+    ON propiedades_historial_precios(created_at)
+    WHERE notificado_at IS NULL AND precio_nuevo < precio_anterior
+  `);
+
+  console.log('✅ Migración 158 completada');
+}
+
+export async function down(knex: Knex): Promise<void> {
+  console.log('⬇️  Revirtiendo migración 158: create_propiedades_historial_precios');
+
+  await knex.schema.dropTableIfExists('propiedades_historial_precios');
+
+  console.log('✅ Migración 158 revertida');
+}
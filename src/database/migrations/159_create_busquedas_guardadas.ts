@@ -0,0 +1,62 @@
+import type { Knex } from 'knex';
+
+/**
+ * Migración 159: Crear tabla busquedas_guardadas
+ *
+ * Búsquedas de propiedades guardadas desde el sitio web (URL del listado con sus tags).
+ * Pueden pertenecer a un contacto del CRM o a un visitante anónimo que dejó su email.
+ * Un cron envía por email las propiedades nuevas o con cambio de precio que coinciden:
+ * - frecuencia 'instantanea': en cada ejecución del cron
+ * - frecuencia 'diaria': como máximo una vez cada 24 horas
+ * ultimo_revisado_at es la marca de agua: solo se avisan cambios posteriores.
+ * token identifica la búsqueda en el enlace de baja (sin autenticación).
+ */
+
+export async function up(knex: Knex): Promise<void> {
+  console.log('⬆️  Ejecutando migración 159: create_busquedas_guardadas');
+
+  await knex.schema.createTable('busquedas_guardadas', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('tenant_id').notNullable().references('id').inTable('tenants').onDelete('CASCADE');
+    table.uuid('contacto_id').nullable().references('id').inTable('contactos').onDelete('SET NULL');
+    table.string('email', 255).notNullable();
+    table.string('nombre', 255).nullable(); // Nombre del visitante (si no es contacto)
+    table.string('titulo', 255).nullable(); // Título del listado (ej: "Apartamentos - Naco")
+    table.string('url', 500).notNullable(); // Path del listado, con prefijo de idioma si aplica
+    table.string('sitio_url', 255).nullable(); // Origen del sitio donde se guardó (para enlaces)
+    table.string('idioma', 5).notNullable().defaultTo('es');
+    table.jsonb('filtros').defaultTo('[]'); // Slugs de tags reconocidos en la URL
+    table.string('frecuencia', 20).notNullable().defaultTo('diaria'); // instantanea, diaria
+    table.string('token', 64).notNullable().unique();
+    table.boolean('activo').notNullable().defaultTo(true);
+    table.timestamp('ultimo_revisado_at').defaultTo(knex.fn.now());
+    table.timestamp('ultimo_envio_at').nullable();
+    table.integer('total_envios').notNullable().defaultTo(0);
+    table.timestamp('baja_at').nullable();
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+  });
+
+  await knex.raw(`CREATE INDEX idx_busquedas_guardadas_tenant ON busquedas_guardadas(tenant_id)`);
+  await knex.raw(`CREATE INDEX idx_busquedas_guardadas_contacto ON busquedas_guardadas(contacto_id)`);
+  await knex.raw(`
+    CREATE UNIQUE INDEX idx_busquedas_guardadas_unica
+    ON busquedas_guardadas(tenant_id, LOWER(email), url)
+    WHERE activo = true
+  `);
+  await knex.raw(`
+    CREATE INDEX idx_busquedas_guardadas_pendientes
+    ON busquedas_guardadas(ultimo_revisado_at)
+    WHERE activo = true
+  `);
+
+  console.log('✅ Migración 159 completada');
+}
+
+export async function down(knex: Knex): Promise<void> {
+  console.log('⬇️  Revirtiendo migración 159: create_busquedas_guardadas');
+
+  await knex.schema.dropTableIfExists('busquedas_guardadas');
+
+  console.log('✅ Migración 159 revertida');
+}
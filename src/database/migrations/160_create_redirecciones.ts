@@ -0,0 +1,59 @@
+import type { Knex } from 'knex';
+
+/**
+ * Migración 160: Crear tabla redirecciones
+ *
+ * Redirecciones 301/302 del sitio web de cada tenant, consultadas por routeResolver
+ * antes de resolver la ruta:
+ * - automáticas: se crean al cambiar el slug (o la categoría) de una propiedad, artículo,
+ *   video, testimonio o asesor, una por idioma cuya URL cambió
+ * - manuales: creadas desde el CRM
+ *
+ * origen y destino son paths con prefijo de idioma (ej: /en/old-house).
+ * Con es_comodin, origen termina en "/*" y coincide con todo lo que cuelga del prefijo;
+ * un "*" en destino se reemplaza por el resto del path.
+ */
+
+export async function up(knex: Knex): Promise<void> {
+  console.log('⬆️  Ejecutando migración 160: create_redirecciones');
+
+  await knex.schema.createTable('redirecciones', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('tenant_id').notNullable().references('id').inTable('tenants').onDelete('CASCADE');
+    table.string('origen', 500).notNullable();
+    table.string('destino', 1000).notNullable(); // Path o URL absoluta
+    table.integer('codigo_estado').notNullable().defaultTo(301); // 301, 302
+    table.boolean('es_comodin').notNullable().defaultTo(false);
+    table.boolean('automatica').notNullable().defaultTo(false);
+    table.string('tipo_entidad', 30).nullable(); // propiedad, articulo, video, testimonio, asesor
+    table.uuid('entidad_id').nullable();
+    table.string('idioma', 5).nullable();
+    table.text('notas').nullable();
+    table.boolean('activo').notNullable().defaultTo(true);
+    table.integer('hits').notNullable().defaultTo(0);
+    table.timestamp('ultimo_hit_at').nullable();
+    table.uuid('created_by').nullable().references('id').inTable('usuarios').onDelete('SET NULL');
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+
+    table.unique(['tenant_id', 'origen']);
+  });
+
+  await knex.raw(`CREATE INDEX idx_redirecciones_destino ON redirecciones(tenant_id, destino)`);
+  await knex.raw(`CREATE INDEX idx_redirecciones_entidad ON redirecciones(tipo_entidad, entidad_id)`);
+  await knex.raw(`
+    CREATE INDEX idx_redirecciones_comodines
+    ON redirecciones(tenant_id)
+    WHERE es_comodin = true AND activo = true
+  `);
+
+  console.log('✅ Migración 160 completada');
+}
+
+export async function down(knex: Knex): Promise<void> {
+  console.log('⬇️  Revirtiendo migración 160: create_redirecciones');
+
+  await knex.schema.dropTableIfExists('redirecciones');
+
+  console.log('✅ Migración 160 revertida');
+}
@@ -0,0 +1,85 @@
+import type { Knex } from 'knex';
+
+/**
+ * Migración 161: Crear tablas paginas_borradores y paginas_revisiones
+ *
+ * Flujo borrador/publicación de las páginas del sitio web:
+ * - paginas_borradores: copia editable de los componentes de una página (a lo sumo una
+ *   por página). Las ediciones del CRM van aquí; componentes_web sigue siendo lo publicado.
+ *   publicar_en programa la publicación (la ejecuta el cron).
+ * - paginas_revisiones: foto de los componentes publicados en cada publicación, con el
+ *   diff respecto a la anterior, para historial y rollback.
+ *
+ * La página se identifica como en componentes_web: tipo_pagina_id (estándar),
+ * tenant_rutas_config_custom_id (custom) o ninguno de los dos (header/footer globales).
+ * componentes es un array de { id, componente_catalogo_id, nombre, datos, orden, activo }.
+ */
+
+export async function up(knex: Knex): Promise<void> {
+  console.log('⬆️  Ejecutando migración 161: create_paginas_borradores_revisiones');
+
+  await knex.schema.createTable('paginas_borradores', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('tenant_id').notNullable().references('id').inTable('tenants').onDelete('CASCADE');
+    table.uuid('tipo_pagina_id').nullable().references('id').inTable('tipos_pagina').onDelete('CASCADE');
+    table.uuid('tenant_rutas_config_custom_id').nullable()
+      .references('id').inTable('tenants_rutas_config_custom').onDelete('CASCADE');
+    table.jsonb('componentes').notNullable().defaultTo('[]');
+    table.timestamp('publicar_en').nullable();
+    table.uuid('created_by').nullable().references('id').inTable('usuarios').onDelete('SET NULL');
+    table.uuid('updated_by').nullable().references('id').inTable('usuarios').onDelete('SET NULL');
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+  });
+
+  // Un borrador por página (los NULL cuentan como valor para el header/footer global)
+  await knex.raw(`
+    CREATE UNIQUE INDEX idx_paginas_borradores_pagina
+    ON paginas_borradores (
+      tenant_id,
+      COALESCE(tipo_pagina_id, '00000000-0000-0000-0000-000000000000'::uuid),
+      COALESCE(tenant_rutas_config_custom_id, '00000000-0000-0000-0000-000000000000'::uuid)
+    )
+  `);
+  await knex.raw(`
+    CREATE INDEX idx_paginas_borradores_programados
+    ON paginas_borradores(publicar_en)
+    WHERE publicar_en IS NOT NULL
+  `);
+
+  await knex.schema.createTable('paginas_revisiones', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('tenant_id').notNullable().references('id').inTable('tenants').onDelete('CASCADE');
+    table.uuid('tipo_pagina_id').nullable().references('id').inTable('tipos_pagina').onDelete('CASCADE');
+    table.uuid('tenant_rutas_config_custom_id').nullable()
+      .references('id').inTable('tenants_rutas_config_custom').onDelete('CASCADE');
+    table.integer('numero').notNullable();
+    table.jsonb('componentes').notNullable().defaultTo('[]');
+    table.jsonb('cambios').nullable(); // { agregados, eliminados, modificados, reordenados }
+    table.string('origen', 20).notNullable(); // inicial, publicacion, programada, rollback
+    table.text('mensaje').nullable();
+    table.uuid('created_by').nullable().references('id').inTable('usuarios').onDelete('SET NULL');
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+  });
+
+  await knex.raw(`
+    CREATE UNIQUE INDEX idx_paginas_revisiones_numero
+    ON paginas_revisiones (
+      tenant_id,
+      COALESCE(tipo_pagina_id, '00000000-0000-0000-0000-000000000000'::uuid),
+      COALESCE(tenant_rutas_config_custom_id, '00000000-0000-0000-0000-000000000000'::uuid),
+      numero
+    )
+  `);
+
+  console.log('✅ Migración 161 completada');
+}
+
+export async function down(knex: Knex): Promise<void> {
+  console.log('⬇️  Revirtiendo migración 161: create_paginas_borradores_revisiones');
+
+  await knex.schema.dropTableIfExists('paginas_revisiones');
+  await knex.schema.dropTableIfExists('paginas_borradores');
+
+  console.log('✅ Migración 161 revertida');
+}
@@ -0,0 +1,78 @@
+import type { Knex } from 'knex';
+
+/**
+ * Migración 162: Crear tablas de experimentos A/B de páginas
+ *
+ * - experimentos_paginas: experimento sobre un tipo de página del tenant. variantes es un
+ *   array de { clave, nombre, peso, componentes }; la variante "control" tiene
+ *   componentes null (sirve lo publicado), las demás una foto de componentes como
+ *   las de paginas_revisiones. Solo un experimento activo por tipo de página.
+ * - experimentos_paginas_visitantes: asignación fija visitante → variante (la primera
+ *   asignación se conserva aunque cambien los pesos) y conteo de impresiones
+ * - experimentos_paginas_conversiones: conversiones por visitante y tipo
+ *   (formulario, whatsapp, propuesta), una por tipo
+ */
+
+export async function up(knex: Knex): Promise<void> {
+  console.log('⬆️  Ejecutando migración 162: create_experimentos_paginas');
+
+  await knex.schema.createTable('experimentos_paginas', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('tenant_id').notNullable().references('id').inTable('tenants').onDelete('CASCADE');
+    table.uuid('tipo_pagina_id').notNullable().references('id').inTable('tipos_pagina').onDelete('CASCADE');
+    table.string('nombre', 200).notNullable();
+    table.text('descripcion').nullable();
+    table.string('objetivo', 20).nullable(); // formulario, whatsapp, propuesta (null = cualquiera)
+    table.string('estado', 20).notNullable().defaultTo('borrador'); // borrador, activo, pausado, finalizado
+    table.jsonb('variantes').notNullable().defaultTo('[]');
+    table.string('variante_ganadora', 20).nullable();
+    table.timestamp('iniciado_at').nullable();
+    table.timestamp('finalizado_at').nullable();
+    table.uuid('created_by').nullable().references('id').inTable('usuarios').onDelete('SET NULL');
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+
+    table.index(['tenant_id', 'estado']);
+  });
+
+  await knex.raw(`
+    CREATE UNIQUE INDEX idx_experimentos_paginas_activo
+    ON experimentos_paginas(tenant_id, tipo_pagina_id)
+    WHERE estado = 'activo'
+  `);
+
+  await knex.schema.createTable('experimentos_paginas_visitantes', (table) => {
+    table.uuid('experimento_id').notNullable().references('id').inTable('experimentos_paginas').onDelete('CASCADE');
+    table.string('visitante_id', 64).notNullable();
+    table.string('variante', 20).notNullable();
+    table.integer('impresiones').notNullable().defaultTo(1);
+    table.timestamp('primera_impresion_at').defaultTo(knex.fn.now());
+    table.timestamp('ultima_impresion_at').defaultTo(knex.fn.now());
+
+    table.primary(['experimento_id', 'visitante_id']);
+    table.index('visitante_id');
+  });
+
+  await knex.schema.createTable('experimentos_paginas_conversiones', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('experimento_id').notNullable().references('id').inTable('experimentos_paginas').onDelete('CASCADE');
+    table.string('visitante_id', 64).notNullable();
+    table.string('variante', 20).notNullable();
+    table.string('tipo', 20).notNullable();
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+
+    table.unique(['experimento_id', 'visitante_id', 'tipo']);
+  });
+
+  console.log('✅ Migración 162 completada');
+}
+
+export async function down(knex: Knex): Promise<void> {
+  console.log('⬇️  Revirtiendo migración 162: create_experimentos_paginas');
+
+  await knex.schema.dropTableIfExists('experimentos_paginas_conversiones');
+  await knex.schema.dropTableIfExists('experimentos_paginas_visitantes');
+  await knex.schema.dropTableIfExists('experimentos_paginas');
+
+  console.log('✅ Migración 162 revertida');
+}
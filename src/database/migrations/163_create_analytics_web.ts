@@ -0,0 +1,61 @@
+import type { Knex } from 'knex';
+
+/**
+ * Migración 163: Crear tablas de analítica propia del sitio web
+ *
+ * - analytics_web_eventos: eventos crudos del beacon del sitio (vista de página, de
+ *   propiedad o de listado) y leads atribuidos al visitante. Guarda la fuente
+ *   (utm_source / dominio del referrer / directo), los tags de la búsqueda y el
+ *   usuario referidor (?ref=). Se purgan pasados los días de retención.
+ * - analytics_web_diario: agregados diarios por dimensión (pagina, propiedad, busqueda,
+ *   fuente, referidor) que recalcula el cron; los reportes leen de aquí.
+ */
+
+export async function up(knex: Knex): Promise<void> {
+  console.log('⬆️  Ejecutando migración 163: create_analytics_web');
+
+  await knex.schema.createTable('analytics_web_eventos', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('tenant_id').notNullable().references('id').inTable('tenants').onDelete('CASCADE');
+    table.string('tipo', 20).notNullable(); // pagina, propiedad, listado, lead
+    table.string('visitante_id', 64).notNullable();
+    table.string('pathname', 500).notNullable();
+    table.string('idioma', 5).nullable();
+    table.uuid('propiedad_id').nullable().references('id').inTable('propiedades').onDelete('SET NULL');
+    table.string('busqueda', 500).nullable(); // slugs de tags del listado ordenados, separados por "/"
+    table.string('fuente', 100).notNullable().defaultTo('directo');
+    table.string('medio', 100).nullable();
+    table.string('campana', 200).nullable();
+    table.string('referrer_dominio', 200).nullable();
+    table.uuid('usuario_referidor_id').nullable().references('id').inTable('usuarios').onDelete('SET NULL');
+    table.uuid('solicitud_id').nullable().references('id').inTable('solicitudes').onDelete('SET NULL');
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+
+    table.index(['tenant_id', 'created_at']);
+    table.index(['tenant_id', 'visitante_id']);
+  });
+
+  await knex.schema.createTable('analytics_web_diario', (table) => {
+    table.uuid('tenant_id').notNullable().references('id').inTable('tenants').onDelete('CASCADE');
+    table.date('fecha').notNullable();
+    table.string('dimension', 20).notNullable(); // pagina, propiedad, busqueda, fuente, referidor
+    table.string('clave', 500).notNullable();
+    table.integer('vistas').notNullable().defaultTo(0);
+    table.integer('visitantes').notNullable().defaultTo(0);
+    table.integer('leads').notNullable().defaultTo(0);
+
+    table.primary(['tenant_id', 'fecha', 'dimension', 'clave']);
+    table.index(['tenant_id', 'dimension', 'fecha']);
+  });
+
+  console.log('✅ Migración 163 completada');
+}
+
+export async function down(knex: Knex): Promise<void> {
+  console.log('⬇️  Revirtiendo migración 163: create_analytics_web');
+
+  await knex.schema.dropTableIfExists('analytics_web_diario');
+  await knex.schema.dropTableIfExists('analytics_web_eventos');
+
+  console.log('✅ Migración 163 revertida');
+}
@@ -0,0 +1,71 @@
+import type { Knex } from 'knex';
+
+/**
+ * Migración 164: Crear tabla tenants_dominios
+ *
+ * Dominios personalizados de cada tenant: uno principal, alias (redirigen al principal)
+ * y dominios por idioma. Cada dominio se verifica con un registro TXT
+ * (_clic-verificacion.<dominio>) y guarda el estado de su certificado TLS.
+ *
+ * tenants.dominio_personalizado se conserva como espejo del dominio principal verificado
+ * (lo leen sitemap, SEO y feeds). Los dominios que ya tenían los tenants se migran como
+ * principales verificados.
+ */
+
+export async function up(knex: Knex): Promise<void> {
+  console.log('⬆️  Ejecutando migración 164: create_tenants_dominios');
+
+  await knex.schema.createTable('tenants_dominios', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('tenant_id').notNullable().references('id').inTable('tenants').onDelete('CASCADE');
+    table.string('dominio', 253).notNullable().unique();
+    table.string('tipo', 20).notNullable().defaultTo('alias'); // principal, alias, idioma
+    table.string('idioma', 5).nullable(); // solo tipo idioma
+    table.string('estado', 20).notNullable().defaultTo('pendiente'); // pendiente, verificado, fallido
+    table.string('token_verificacion', 100).notNullable();
+    table.integer('intentos_verificacion').notNullable().defaultTo(0);
+    table.timestamp('ultimo_intento_at').nullable();
+    table.text('ultimo_error').nullable();
+    table.timestamp('verificado_at').nullable();
+    table.string('certificado_estado', 20).nullable(); // pendiente, emitido, por_vencer, error
+    table.timestamp('certificado_expira_at').nullable();
+    table.text('certificado_error').nullable();
+    table.timestamp('certificado_revisado_at').nullable();
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+
+    table.index(['tenant_id']);
+    table.index(['estado']);
+  });
+
+  await knex.raw(`
+    CREATE UNIQUE INDEX idx_tenants_dominios_principal
+    ON tenants_dominios(tenant_id)
+    WHERE tipo = 'principal'
+  `);
+  await knex.raw(`
+    CREATE UNIQUE INDEX idx_tenants_dominios_idioma
+    ON tenants_dominios(tenant_id, idioma)
+    WHERE tipo = 'idioma'
+  `);
+
+  // Dominios cargados a mano hasta ahora: ya estaban en uso, se dan por verificados
+  await knex.raw(`
+    INSERT INTO tenants_dominios (tenant_id, dominio, tipo, estado, token_verificacion, verificado_at, certificado_estado)
+    SELECT id, LOWER(TRIM(dominio_personalizado)), 'principal', 'verificado',
+           md5(random()::text || id::text), NOW(), 'pendiente'
+    FROM tenants
+    WHERE dominio_personalizado IS NOT NULL AND TRIM(dominio_personalizado) <> ''
+    ON CONFLICT (dominio) DO NOTHING
+  `);
+
+  console.log('✅ Migración 164 completada');
+}
+
+export async function down(knex: Knex): Promise<void> {
+  console.log('⬇️  Revirtiendo migración 164: create_tenants_dominios');
+
+  await knex.schema.dropTableIfExists('tenants_dominios');
+
+  console.log('✅ Migración 164 revertida');
+}
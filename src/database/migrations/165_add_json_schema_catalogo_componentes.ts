@@ -0,0 +1,32 @@
+import type { Knex } from 'knex';
+
+/**
+ * Migración 165: Agregar json_schema a catalogo_componentes
+ *
+ * JSON Schema explícito de los datos de cada componente/variante
+ * ({ static_data, toggles, styles, dynamic_data }). Si es NULL el schema se deriva
+ * de campos_config (ver componentesSchemaService).
+ *
+ * Los datos guardados que no cumplen su schema se listan con:
+ *   npx tsx src/scripts/reporte-schemas-componentes.ts
+ */
+
+export async function up(knex: Knex): Promise<void> {
+  console.log('⬆️  Ejecutando migración 165: add_json_schema_catalogo_componentes');
+
+  await knex.schema.alterTable('catalogo_componentes', (table) => {
+    table.jsonb('json_schema').nullable();
+  });
+
+  console.log('✅ Migración 165 completada');
+}
+
+export async function down(knex: Knex): Promise<void> {
+  console.log('⬇️  Revirtiendo migración 165: add_json_schema_catalogo_componentes');
+
+  await knex.schema.alterTable('catalogo_componentes', (table) => {
+    table.dropColumn('json_schema');
+  });
+
+  console.log('✅ Migración 165 revertida');
+}
@@ -0,0 +1,45 @@
+import type { Knex } from 'knex';
+
+/**
+ * Migración 166: Crear tabla imagenes_renditions
+ *
+ * Manifiesto de cada imagen subida (propiedades y contenido): dimensiones, placeholder
+ * blurhash, punto focal editable y las renditions generadas en R2 (thumbnail, card,
+ * hero, og...). Se identifica por la URL de la imagen tal como queda guardada en los
+ * arrays imagenes / imagen_principal; el cron de backfill genera las que faltan.
+ */
+
+export async function up(knex: Knex): Promise<void> {
+  console.log('⬆️  Ejecutando migración 166: create_imagenes_renditions');
+
+  await knex.schema.createTable('imagenes_renditions', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('tenant_id').notNullable().references('id').inTable('tenants').onDelete('CASCADE');
+    table.text('url').notNullable();
+    table.integer('ancho').nullable();
+    table.integer('alto').nullable();
+    table.string('blurhash', 100).nullable();
+    table.decimal('foco_x', 4, 3).notNullable().defaultTo(0.5); // 0 = izquierda, 1 = derecha
+    table.decimal('foco_y', 4, 3).notNullable().defaultTo(0.5); // 0 = arriba, 1 = abajo
+    table.boolean('marca_agua').notNullable().defaultTo(false);
+    table.jsonb('renditions').notNullable().defaultTo('{}'); // { nombre: { url, key, ancho, alto } }
+    table.string('estado', 20).notNullable().defaultTo('pendiente'); // pendiente, listo, error
+    table.text('error').nullable();
+    table.integer('intentos').notNullable().defaultTo(0);
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+
+    table.unique(['tenant_id', 'url']);
+    table.index(['estado']);
+  });
+
+  console.log('✅ Migración 166 completada');
+}
+
+export async function down(knex: Knex): Promise<void> {
+  console.log('⬇️  Revirtiendo migración 166: create_imagenes_renditions');
+
+  await knex.schema.dropTableIfExists('imagenes_renditions');
+
+  console.log('✅ Migración 166 revertida');
+}
@@ -0,0 +1,45 @@
+import type { Knex } from 'knex';
+
+/**
+ * Migración 167: Crear tabla contactos_identidades
+ *
+ * Identidades de mensajería de cada contacto (teléfono E.164, email, PSID de
+ * Facebook, IGSID de Instagram, sesión del webchat). El resolver de contactos las
+ * usa para vincular las conversaciones entrantes al mismo contacto aunque escriba
+ * desde distintos canales. Una identidad pertenece a un solo contacto por tenant.
+ */
+
+export async function up(knex: Knex): Promise<void> {
+  console.log('⬆️  Ejecutando migración 167: create_contactos_identidades');
+
+  await knex.schema.createTable('contactos_identidades', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('tenant_id').notNullable().references('id').inTable('tenants').onDelete('CASCADE');
+    table.uuid('contacto_id').notNullable().references('id').inTable('contactos').onDelete('CASCADE');
+    table.string('tipo', 30).notNullable(); // telefono, email, facebook_psid, instagram_igsid, webchat_sesion
+    table.string('valor', 255).notNullable(); // normalizado: +18095551234, minúsculas para email
+    table.string('canal', 30).nullable(); // canal donde se vio por primera vez
+    table.timestamp('ultimo_uso_at').defaultTo(knex.fn.now());
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+
+    table.unique(['tenant_id', 'tipo', 'valor']);
+    table.index(['contacto_id']);
+  });
+
+  await knex.raw(`
+    CREATE INDEX IF NOT EXISTS idx_conversaciones_contacto
+    ON conversaciones (tenant_id, contacto_id)
+    WHERE contacto_id IS NOT NULL
+  `);
+
+  console.log('✅ Migración 167 completada');
+}
+
+export async function down(knex: Knex): Promise<void> {
+  console.log('⬇️  Revirtiendo migración 167: create_contactos_identidades');
+
+  await knex.raw('DROP INDEX IF EXISTS idx_conversaciones_contacto');
+  await knex.schema.dropTableIfExists('contactos_identidades');
+
+  console.log('✅ Migración 167 revertida');
+}
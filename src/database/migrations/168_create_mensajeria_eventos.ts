@@ -0,0 +1,37 @@
+import type { Knex } from 'knex';
+
+/**
+ * Migración 168: Crear tabla mensajeria_eventos
+ *
+ * Log de eventos del inbox unificado (mensajes nuevos, cambios de estado,
+ * asignaciones, contadores de no leídos) que se empujan por SSE. El id secuencial
+ * es el id del evento SSE: al reconectar, el cliente manda Last-Event-ID y se le
+ * reenvía lo que se perdió. Se purga por cron (solo guarda las últimas horas).
+ */
+
+export async function up(knex: Knex): Promise<void> {
+  console.log('⬆️  Ejecutando migración 168: create_mensajeria_eventos');
+
+  await knex.schema.createTable('mensajeria_eventos', (table) => {
+    table.bigIncrements('id').primary();
+    table.uuid('tenant_id').notNullable().references('id').inTable('tenants').onDelete('CASCADE');
+    table.uuid('usuario_id').nullable(); // destinatario (asignado); null = conversación sin asignar
+    table.uuid('conversacion_id').nullable();
+    table.string('tipo', 50).notNullable(); // mensaje.nuevo, mensaje.estado, conversacion.asignada...
+    table.jsonb('payload').notNullable().defaultTo('{}');
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+
+    table.index(['tenant_id', 'id']);
+    table.index(['created_at']);
+  });
+
+  console.log('✅ Migración 168 completada');
+}
+
+export async function down(knex: Knex): Promise<void> {
+  console.log('⬇️  Revirtiendo migración 168: create_mensajeria_eventos');
+
+  await knex.schema.dropTableIfExists('mensajeria_eventos');
+
+  console.log('✅ Migración 168 revertida');
+}
@@ -0,0 +1,100 @@
+import type { Knex } from 'knex';
+
+/**
+ * Migración 169: Ruteo de conversaciones, SLA y tiempos de respuesta
+ *
+ * - mensajeria_reglas_ruteo: reglas por prioridad (canal, palabra clave, página/número,
+ *   propiedad mencionada, dueño del contacto) que asignan a un usuario o equipo
+ * - mensajeria_sla_config: objetivos de primera respuesta y resolución por tenant
+ *   (con overrides por canal) y qué hacer cuando se incumplen
+ * - mensajeria_tiempos_respuesta: una fila por respuesta/resolución medida, base de
+ *   los reportes por agente y por canal
+ * - conversaciones: equipo, regla aplicada y marcas del ciclo de atención actual
+ */
+
+export async function up(knex: Knex): Promise<void> {
+  console.log('⬆️  Ejecutando migración 169: create_mensajeria_ruteo_sla');
+
+  await knex.schema.createTable('mensajeria_reglas_ruteo', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('tenant_id').notNullable().references('id').inTable('tenants').onDelete('CASCADE');
+    table.string('nombre', 150).notNullable();
+    table.integer('prioridad').notNullable().defaultTo(100); // menor = se evalúa primero
+    table.boolean('activo').notNullable().defaultTo(true);
+    // { canales?, palabras_clave?, origenes?, menciona_propiedad?, contacto_con_duenio? }
+    table.jsonb('condiciones').notNullable().defaultTo('{}');
+    table.string('destino_tipo', 30).notNullable(); // usuario, equipo, duenio_contacto, asesor_propiedad
+    table.uuid('destino_id').nullable(); // usuario o equipo según destino_tipo
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+
+    table.index(['tenant_id', 'activo', 'prioridad']);
+  });
+
+  await knex.schema.createTable('mensajeria_sla_config', (table) => {
+    table.uuid('tenant_id').primary().references('id').inTable('tenants').onDelete('CASCADE');
+    table.boolean('activo').notNullable().defaultTo(false);
+    table.integer('primera_respuesta_min').notNullable().defaultTo(15);
+    table.integer('resolucion_min').notNullable().defaultTo(1440);
+    table.jsonb('objetivos_por_canal').notNullable().defaultTo('{}'); // { whatsapp: { primera_respuesta_min, resolucion_min } }
+    table.string('accion_escalamiento', 30).notNullable().defaultTo('reasignar'); // reasignar, lider_equipo, usuario
+    table.uuid('escalar_a_usuario_id').nullable().references('id').inTable('usuarios').onDelete('SET NULL');
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+  });
+
+  await knex.schema.createTable('mensajeria_tiempos_respuesta', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('tenant_id').notNullable().references('id').inTable('tenants').onDelete('CASCADE');
+    table.uuid('conversacion_id').notNullable().references('id').inTable('conversaciones').onDelete('CASCADE');
+    table.uuid('usuario_id').nullable().references('id').inTable('usuarios').onDelete('SET NULL');
+    table.string('canal', 30).notNullable();
+    table.string('tipo', 30).notNullable(); // primera_respuesta, respuesta, resolucion
+    table.integer('segundos').notNullable();
+    table.integer('objetivo_segundos').nullable();
+    table.boolean('cumplido').nullable(); // null = sin objetivo (SLA inactivo o respuesta no-primera)
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+
+    table.index(['tenant_id', 'created_at']);
+    table.index(['tenant_id', 'usuario_id']);
+  });
+
+  await knex.schema.alterTable('conversaciones', (table) => {
+    table.uuid('equipo_id').nullable().references('id').inTable('equipos').onDelete('SET NULL');
+    table.uuid('regla_ruteo_id').nullable().references('id').inTable('mensajeria_reglas_ruteo').onDelete('SET NULL');
+    table.timestamp('asignada_at').nullable();
+    table.timestamp('ciclo_iniciado_at').nullable(); // primer entrante del ciclo de atención actual
+    table.timestamp('esperando_respuesta_desde').nullable(); // primer entrante sin responder
+    table.timestamp('primera_respuesta_at').nullable();
+    table.timestamp('resuelta_at').nullable();
+    table.timestamp('sla_escalada_at').nullable();
+  });
+
+  await knex.raw(`
+    CREATE INDEX IF NOT EXISTS idx_conversaciones_sla_pendiente
+    ON conversaciones (tenant_id, ciclo_iniciado_at)
+    WHERE resuelta_at IS NULL AND sla_escalada_at IS NULL
+  `);
+
+  console.log('✅ Migración 169 completada');
+}
+
+export async function down(knex: Knex): Promise<void> {
+  console.log('⬇️  Revirtiendo migración 169: create_mensajeria_ruteo_sla');
+
+  await knex.raw('DROP INDEX IF EXISTS idx_conversaciones_sla_pendiente');
+  await knex.schema.alterTable('conversaciones', (table) => {
+    table.dropColumn('equipo_id');
+    table.dropColumn('regla_ruteo_id');
+    table.dropColumn('asignada_at');
+    table.dropColumn('ciclo_iniciado_at');
+    table.dropColumn('esperando_respuesta_desde');
+    table.dropColumn('primera_respuesta_at');
+    table.dropColumn('resuelta_at');
+    table.dropColumn('sla_escalada_at');
+  });
+  await knex.schema.dropTableIfExists('mensajeria_tiempos_respuesta');
+  await knex.schema.dropTableIfExists('mensajeria_sla_config');
+  await knex.schema.dropTableIfExists('mensajeria_reglas_ruteo');
+
+  console.log('✅ Migración 169 revertida');
+}
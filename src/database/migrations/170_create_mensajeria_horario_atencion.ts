@@ -0,0 +1,50 @@
+import type { Knex } from 'knex';
+
+/**
+ * Migración 170: Horario de atención y respuestas automáticas de mensajería
+ *
+ * - mensajeria_horario_atencion: calendario del tenant (horario semanal, feriados,
+ *   zona horaria) y textos de saludo / ausencia que se envían automáticamente
+ * - conversaciones.auto_respuesta_at: última respuesta automática enviada, para no
+ *   repetirla al mismo contacto dentro de la ventana configurada
+ */
+
+export async function up(knex: Knex): Promise<void> {
+  console.log('⬆️  Ejecutando migración 170: create_mensajeria_horario_atencion');
+
+  await knex.schema.createTable('mensajeria_horario_atencion', (table) => {
+    table.uuid('tenant_id').primary().references('id').inTable('tenants').onDelete('CASCADE');
+    table.boolean('activo').notNullable().defaultTo(false); // false = siempre abierto
+    table.string('zona_horaria', 50).notNullable();
+    // { lunes: [{ desde: '09:00', hasta: '18:00' }], ..., domingo: [] }
+    table.jsonb('horario_semanal').notNullable().defaultTo('{}');
+    // [{ fecha: '2026-12-25', nombre: 'Navidad', recurrente: true }]
+    table.jsonb('feriados').notNullable().defaultTo('[]');
+    table.boolean('ausencia_activa').notNullable().defaultTo(false);
+    table.text('mensaje_ausencia').nullable();
+    table.boolean('saludo_activo').notNullable().defaultTo(false);
+    table.text('mensaje_saludo').nullable();
+    table.jsonb('canales_auto_respuesta').notNullable().defaultTo(
+      JSON.stringify(['whatsapp', 'facebook_dm', 'instagram_dm', 'web_chat'])
+    );
+    table.integer('ventana_auto_respuesta_horas').notNullable().defaultTo(12);
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+  });
+
+  await knex.schema.alterTable('conversaciones', (table) => {
+    table.timestamp('auto_respuesta_at').nullable();
+  });
+
+  console.log('✅ Migración 170 completada');
+}
+
+export async function down(knex: Knex): Promise<void> {
+  console.log('⬇️  Revirtiendo migración 170: create_mensajeria_horario_atencion');
+
+  await knex.schema.alterTable('conversaciones', (table) => {
+    table.dropColumn('auto_respuesta_at');
+  });
+  await knex.schema.dropTableIfExists('mensajeria_horario_atencion');
+
+  console.log('✅ Migración 170 revertida');
+}
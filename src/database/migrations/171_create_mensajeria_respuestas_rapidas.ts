@@ -0,0 +1,57 @@
+import type { Knex } from 'knex';
+
+/**
+ * Migración 171: Respuestas rápidas de mensajería
+ *
+ * Biblioteca de respuestas con atajo (/precio), categoría y variables de merge
+ * ({{contacto_nombre}}, {{asesor_nombre}}, {{propiedad_link}}...), del tenant
+ * (usuario_id NULL) o personales. Opcionalmente vinculadas a una plantilla
+ * aprobada de WhatsApp para enviar fuera de la ventana de 24h.
+ */
+
+export async function up(knex: Knex): Promise<void> {
+  console.log('⬆️  Ejecutando migración 171: create_mensajeria_respuestas_rapidas');
+
+  await knex.schema.createTable('mensajeria_respuestas_rapidas', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('tenant_id').notNullable().references('id').inTable('tenants').onDelete('CASCADE');
+    table.uuid('usuario_id').nullable().references('id').inTable('usuarios').onDelete('CASCADE'); // NULL = del tenant
+    table.string('atajo', 50).nullable(); // sin "/", en minúsculas
+    table.string('titulo', 150).notNullable();
+    table.string('categoria', 80).nullable();
+    table.text('contenido').notNullable();
+    table.jsonb('canales').notNullable().defaultTo('[]'); // [] = todos los canales
+    table.string('wa_template_nombre', 512).nullable();
+    table.string('wa_template_idioma', 20).nullable();
+    table.jsonb('wa_template_parametros').notNullable().defaultTo('[]'); // textos con variables para {{1}}, {{2}}...
+    table.boolean('activo').notNullable().defaultTo(true);
+    table.integer('usos').notNullable().defaultTo(0);
+    table.timestamp('ultimo_uso_at').nullable();
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+
+    table.index(['tenant_id', 'usuario_id']);
+  });
+
+  // Un atajo no se repite dentro del tenant ni dentro de las respuestas de un usuario
+  await knex.raw(`
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_respuestas_rapidas_atajo_tenant
+    ON mensajeria_respuestas_rapidas (tenant_id, atajo)
+    WHERE usuario_id IS NULL AND atajo IS NOT NULL
+  `);
+  await knex.raw(`
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_respuestas_rapidas_atajo_usuario
+    ON mensajeria_respuestas_rapidas (tenant_id, usuario_id, atajo)
+    WHERE usuario_id IS NOT NULL AND atajo IS NOT NULL
+  `);
+
+  console.log('✅ Migración 171 completada');
+}
+
+export async function down(knex: Knex): Promise<void> {
+  console.log('⬇️  Revirtiendo migración 171: create_mensajeria_respuestas_rapidas');
+
+  await knex.schema.dropTableIfExists('mensajeria_respuestas_rapidas');
+
+  console.log('✅ Migración 171 revertida');
+}
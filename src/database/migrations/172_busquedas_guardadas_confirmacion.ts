@@ -0,0 +1,56 @@
+import type { Knex } from 'knex';
+
+/**
+ * Migración 172: Confirmación de búsquedas guardadas
+ *
+ * - confirmada_at: doble opt-in. El email recibe un enlace de confirmación y las
+ *   alertas solo se envían a búsquedas confirmadas
+ * - confirmacion_enviada_at: último envío del email de confirmación (evita reenvíos en ráfaga)
+ * - reclamada_hasta: el cron reclama las búsquedas que procesa sin mover la marca de agua;
+ *   ultimo_revisado_at solo avanza cuando la búsqueda se procesó bien
+ * - Se elimina sitio_url: venía de las cabeceras Origin/Referer de la petición. Los enlaces
+ *   de los emails se arman con el dominio verificado del tenant
+ */
+
+export async function up(knex: Knex): Promise<void> {
+  console.log('⬆️  Ejecutando migración 172: busquedas_guardadas_confirmacion');
+
+  await knex.schema.alterTable('busquedas_guardadas', (table) => {
+    table.timestamp('confirmada_at').nullable();
+    table.timestamp('confirmacion_enviada_at').nullable();
+    table.timestamp('reclamada_hasta').nullable();
+    table.dropColumn('sitio_url');
+  });
+
+  // Las búsquedas existentes ya recibían alertas (con enlace de baja): se dan por confirmadas
+  await knex.raw(`UPDATE busquedas_guardadas SET confirmada_at = created_at`);
+
+  await knex.raw(`DROP INDEX IF EXISTS idx_busquedas_guardadas_pendientes`);
+  await knex.raw(`
+    CREATE INDEX idx_busquedas_guardadas_pendientes
+    ON busquedas_guardadas(ultimo_revisado_at)
+    WHERE activo = true AND confirmada_at IS NOT NULL
+  `);
+
+  console.log('✅ Migración 172 completada');
+}
+
+export async function down(knex: Knex): Promise<void> {
+  console.log('⬇️  Revirtiendo migración 172: busquedas_guardadas_confirmacion');
+
+  await knex.raw(`DROP INDEX IF EXISTS idx_busquedas_guardadas_pendientes`);
+  await knex.raw(`
+    CREATE INDEX idx_busquedas_guardadas_pendientes
+    ON busquedas_guardadas(ultimo_revisado_at)
+    WHERE activo = true
+  `);
+
+  await knex.schema.alterTable('busquedas_guardadas', (table) => {
+    table.dropColumn('confirmada_at');
+    table.dropColumn('confirmacion_enviada_at');
+    table.dropColumn('reclamada_hasta');
+    table.string('sitio_url', 255).nullable();
+  });
+
+  console.log('✅ Migración 172 revertida');
+}
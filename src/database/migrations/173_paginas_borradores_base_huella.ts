@@ -0,0 +1,45 @@
+import type { Knex } from 'knex';
+
+/**
+ * Migración 173: Base publicada de los borradores de página
+ *
+ * - base_huella: md5 de los componentes publicados (componentes_web) cuando se creó el
+ *   borrador. Al publicar se compara con la huella actual: si lo publicado cambió desde
+ *   entonces (otra publicación, un rollback, una importación), la publicación se rechaza
+ *   en vez de borrar o pisar esos cambios
+ * - Los borradores existentes toman como base lo publicado ahora
+ */
+
+export async function up(knex: Knex): Promise<void> {
+  console.log('⬆️  Ejecutando migración 173: paginas_borradores_base_huella');
+
+  await knex.schema.alterTable('paginas_borradores', (table) => {
+    table.string('base_huella', 32).nullable();
+  });
+
+  await knex.raw(`
+    UPDATE paginas_borradores pb
+    SET base_huella = (
+      SELECT md5(COALESCE(string_agg(
+        md5(ROW(c.id, c.componente_catalogo_id, c.nombre, c.datos, c.orden, c.activo)::text),
+        ',' ORDER BY c.id
+      ), ''))
+      FROM componentes_web c
+      WHERE c.tenant_id = pb.tenant_id
+        AND c.tipo_pagina_id IS NOT DISTINCT FROM pb.tipo_pagina_id
+        AND c.tenant_rutas_config_custom_id IS NOT DISTINCT FROM pb.tenant_rutas_config_custom_id
+    )
+  `);
+
+  console.log('✅ Migración 173 completada');
+}
+
+export async function down(knex: Knex): Promise<void> {
+  console.log('⬇️  Revirtiendo migración 173: paginas_borradores_base_huella');
+
+  await knex.schema.alterTable('paginas_borradores', (table) => {
+    table.dropColumn('base_huella');
+  });
+
+  console.log('✅ Migración 173 revertida');
+}
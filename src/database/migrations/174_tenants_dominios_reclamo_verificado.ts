@@ -0,0 +1,55 @@
+import type { Knex } from 'knex';
+
+/**
+ * Migración 174: Un dominio solo queda reservado al verificarse
+ *
+ * Antes dominio era UNIQUE: el primer tenant que lo agregaba lo reservaba aunque nunca
+ * creara el TXT (pendiente o fallido para siempre). Ahora:
+ * - Varios tenants pueden tener el mismo dominio pendiente; gana el que verifica el TXT
+ *   (el token es distinto para cada uno) y los reclamos no verificados de los demás se borran
+ * - Solo puede haber un registro verificado por dominio
+ * - Un tenant no repite el mismo dominio
+ */
+
+export async function up(knex: Knex): Promise<void> {
+  console.log('⬆️  Ejecutando migración 174: tenants_dominios_reclamo_verificado');
+
+  await knex.schema.alterTable('tenants_dominios', (table) => {
+    table.dropUnique(['dominio']);
+    table.unique(['tenant_id', 'dominio']);
+    table.index(['dominio']);
+  });
+
+  await knex.raw(`
+    CREATE UNIQUE INDEX idx_tenants_dominios_verificado
+    ON tenants_dominios(dominio)
+    WHERE estado = 'verificado'
+  `);
+
+  console.log('✅ Migración 174 completada');
+}
+
+export async function down(knex: Knex): Promise<void> {
+  console.log('⬇️  Revirtiendo migración 174: tenants_dominios_reclamo_verificado');
+
+  await knex.raw(`DROP INDEX IF EXISTS idx_tenants_dominios_verificado`);
+
+  // Sin la reserva exclusiva, los reclamos no verificados duplicados no caben en el UNIQUE
+  await knex.raw(`
+    DELETE FROM tenants_dominios d
+    WHERE d.estado <> 'verificado'
+      AND EXISTS (
+        SELECT 1 FROM tenants_dominios o
+        WHERE o.dominio = d.dominio AND o.id <> d.id
+          AND (o.estado = 'verificado' OR o.created_at < d.created_at)
+      )
+  `);
+
+  await knex.schema.alterTable('tenants_dominios', (table) => {
+    table.dropIndex(['dominio']);
+    table.dropUnique(['tenant_id', 'dominio']);
+    table.unique(['dominio']);
+  });
+
+  console.log('✅ Migración 174 revertida');
+}
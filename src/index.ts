@@ -81,6 +81,10 @@ export const logger = {
 const app = express();
 const PORT = process.env.PORT || 3001;
 
+// Detrás del proxy del hosting: req.ip toma la IP del cliente de X-Forwarded-For
+// (la usan los rate limiters de los formularios públicos). TRUST_PROXY_HOPS = proxies delante
+app.set('trust proxy', parseInt(process.env.TRUST_PROXY_HOPS || '1', 10));
+
 // Log para debugging
 console.log('🔧 Puerto configurado para el servidor API:', PORT);
 console.log('🔧 DATABASE_URL configurada:', process.env.DATABASE_URL ? 'Sí' : 'No');
@@ -120,6 +124,9 @@ app.options('*', cors());
 // Meta Webhooks: mount BEFORE express.json() to preserve raw body for HMAC signature verification
 app.use('/api/webhooks/meta', express.raw({ type: 'application/json' }), metaWebhooksRouter);
 
+// Importación de sitio web: el bundle supera el límite por defecto de express.json()
+app.use('/api/tenants/:tenantId/sitio-web/importar', express.json({ limit: '20mb' }));
+
 app.use(express.json());
 
 // Health check
@@ -0,0 +1,66 @@
+/**
+ * Middleware de rate limiting en memoria
+ *
+ * Limita el número de peticiones por ventana de tiempo para endpoints públicos
+ * (formularios de sitios web, widgets). Los contadores viven en memoria del
+ * proceso, suficiente para frenar abusos básicos sin dependencias externas.
+ */
+
+import { Request, Response, NextFunction } from 'express';
+
+export interface RateLimitOptions {
+  windowMs: number;   // Duración de la ventana en milisegundos
+  max: number;        // Máximo de peticiones por ventana y clave
+  keyGenerator?: (req: Request) => string;
+  message?: string;
+}
+
+interface RateLimitEntry {
+  count: number;
+  resetAt: number;
+}
+
+/**
+ * Crea un middleware de rate limiting.
+ * Por defecto la clave es la IP del cliente; se puede combinar con el tenant
+ * mediante keyGenerator para que cada sitio tenga su propio presupuesto.
+ */
+export function createRateLimiter(options: RateLimitOptions) {
+  const { windowMs, max, keyGenerator, message } = options;
+  const entries = new Map<string, RateLimitEntry>();
+
+  // Limpieza periódica de entradas vencidas para no crecer indefinidamente
+  const cleanup = setInterval(() => {
+    const now = Date.now();
+    for (const [key, entry] of entries) {
+      if (entry.resetAt <= now) entries.delete(key);
+    }
+  }, windowMs);
+  cleanup.unref();
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const key = keyGenerator ? keyGenerator(req) : (req.ip || 'unknown');
+    const now = Date.now();
+
+    let entry = entries.get(key);
+    if (!entry || entry.resetAt <= now) {
+      entry = { count: 0, resetAt: now + windowMs };
+      entries.set(key, entry);
+    }
+
+    entry.count++;
+
+    res.setHeader('X-RateLimit-Limit', String(max));
+    res.setHeader('X-RateLimit-Remaining', String(Math.max(0, max - entry.count)));
+
+    if (entry.count > max) {
+      res.setHeader('Retry-After', String(Math.ceil((entry.resetAt - now) / 1000)));
+      return res.status(429).json({
+        error: 'Demasiadas solicitudes',
+        message: message || 'Has excedido el límite de solicitudes. Intenta de nuevo más tarde.',
+      });
+    }
+
+    next();
+  };
+}
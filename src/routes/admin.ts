@@ -35,6 +35,16 @@ import {
   PlantillaPaginaUpdate
 } from '../services/adminPlantillasPaginaService.js';
 import { requireAuth, requirePlatformAdmin } from '../middleware/clerkAuth.js';
+import { getEstadisticasCacheRender, invalidarCacheRender } from '../services/renderCacheService.js';
+import {
+  listarDominiosAdmin,
+  getDominioPorId,
+  verificarDominio,
+  revisarCertificado,
+  ESTADOS_DOMINIO,
+  EstadoDominio,
+} from '../services/dominiosService.js';
+import { getReporteSchemasComponentes } from '../services/componentesSchemaService.js';
 import {
   initializeMeilisearchTags,
   syncAllTags,
@@ -2110,6 +2120,130 @@ router.post('/roles/:roleId/copy-permisos', async (req, res) => {
   }
 });
 
+// ==================== CACHE DE RENDER ====================
+
+/**
+ * GET /api/admin/cache-render
+ *
+ * Estado de la cache de páginas del sitio web (adaptador, TTL, hits/misses)
+ */
+router.get('/cache-render', async (req, res) => {
+  try {
+    const estadisticas = await getEstadisticasCacheRender();
+    res.json(estadisticas);
+  } catch (error: any) {
+    console.error('Error en GET /admin/cache-render:', error);
+    res.status(500).json({
+      error: 'Error al obtener estado de la cache',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * POST /api/admin/tenants/:tenantId/cache-render/purgar
+ *
+ * Purga las páginas cacheadas de un tenant. Con body { path, idioma } purga solo esa página
+ * (path sin prefijo de idioma, ej: "/comprar/apartamento").
+ */
+router.post('/tenants/:tenantId/cache-render/purgar', async (req, res) => {
+  try {
+    const { tenantId } = req.params;
+    const { path, idioma } = req.body || {};
+
+    if (path !== undefined && (typeof path !== 'string' || !path.startsWith('/'))) {
+      return res.status(400).json({ error: 'path debe empezar con /' });
+    }
+
+    const eliminadas = await invalidarCacheRender(
+      tenantId,
+      'purga manual',
+      path ? { idioma: idioma || 'es', path } : undefined
+    );
+    res.json({ success: true, eliminadas });
+  } catch (error: any) {
+    console.error('Error en POST /admin/tenants/:tenantId/cache-render/purgar:', error);
+    res.status(500).json({
+      error: 'Error al purgar la cache',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * GET /api/admin/dominios
+ *
+ * Dominios personalizados de todos los tenants. Sin ?estado lista los que necesitan
+ * atención: pendientes, fallidos y con error o vencimiento próximo de certificado.
+ */
+router.get('/dominios', async (req, res) => {
+  try {
+    const estado = req.query.estado as string | undefined;
+
+    if (estado && !ESTADOS_DOMINIO.includes(estado as EstadoDominio)) {
+      return res.status(400).json({ error: `estado debe ser uno de: ${ESTADOS_DOMINIO.join(', ')}` });
+    }
+
+    const dominios = await listarDominiosAdmin(estado as EstadoDominio | undefined);
+    res.json(dominios);
+  } catch (error: any) {
+    console.error('Error en GET /admin/dominios:', error);
+    res.status(500).json({
+      error: 'Error al obtener dominios',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * POST /api/admin/dominios/:dominioId/verificar
+ *
+ * Fuerza la verificación TXT y la revisión del certificado de un dominio
+ */
+router.post('/dominios/:dominioId/verificar', async (req, res) => {
+  try {
+    const dominio = await getDominioPorId(req.params.dominioId);
+    if (!dominio) {
+      return res.status(404).json({ error: 'Dominio no encontrado' });
+    }
+
+    let actualizado = dominio.estado === 'verificado' ? dominio : await verificarDominio(dominio);
+    if (actualizado.estado === 'verificado') {
+      actualizado = await revisarCertificado(actualizado);
+    }
+    res.json(actualizado);
+  } catch (error: any) {
+    console.error('Error en POST /admin/dominios/:dominioId/verificar:', error);
+    res.status(500).json({
+      error: 'Error al verificar el dominio',
+      message: error.message
+    });
+  }
+});
+
+// ==================== SCHEMAS DE COMPONENTES ====================
+
+/**
+ * GET /api/admin/componentes/reporte-schema
+ *
+ * Componentes guardados (publicados y en borradores) que no cumplen el JSON Schema
+ * de su componente del catálogo. Query: tenant_id (opcional)
+ */
+router.get('/componentes/reporte-schema', async (req, res) => {
+  try {
+    const tenantId = req.query.tenant_id as string | undefined;
+
+    const reporte = await getReporteSchemasComponentes({ tenantId });
+    res.json(reporte);
+  } catch (error: any) {
+    console.error('Error en GET /admin/componentes/reporte-schema:', error);
+    res.status(500).json({
+      error: 'Error al generar el reporte de schemas',
+      message: error.message
+    });
+  }
+});
+
 // ==================== MEMBRESÍAS Y USO ====================
 // Rutas para gestión de tipos de membresía, precios y tracking de uso
 router.use('/memberships', membershipRouter);
@@ -17,6 +17,7 @@ import {
   getPermisosVersion,
   updateUsuarioPerfil,
   upsertPerfilAsesor,
+  SlugAsesorEnUsoError,
   getPerfilAsesor,
 } from '../services/usuariosService.js';
 
@@ -314,6 +315,7 @@ router.put('/profile', requireAuth, uploadAvatar.single('avatar'), async (req, r
       aniosExperiencia,
       licencia,
       redesSociales,
+      slugAsesor,
       tenantId,
     } = req.body;
 
@@ -380,7 +382,7 @@ router.put('/profile', requireAuth, uploadAvatar.single('avatar'), async (req, r
     // Si hay datos de asesor y tenantId, actualizar perfil de asesor
     const tieneDataAsesor = biografia !== undefined || especialidades !== undefined ||
                            aniosExperiencia !== undefined || licencia !== undefined ||
-                           redesSociales !== undefined;
+                           redesSociales !== undefined || slugAsesor !== undefined;
 
     if (tieneDataAsesor && tenantId) {
       try {
@@ -401,9 +403,17 @@ router.put('/profile', requireAuth, uploadAvatar.single('avatar'), async (req, r
           experienciaAnos: aniosExperiencia,
           licencia,
           redesSociales: redesSocialesObj,
+          slug: slugAsesor,
         });
         console.log(`✅ Perfil de asesor actualizado`);
       } catch (asesorError: any) {
+        // El slug en uso es un error del usuario: no se puede dar por guardado
+        if (asesorError instanceof SlugAsesorEnUsoError) {
+          return res.status(409).json({
+            error: 'Slug en uso',
+            message: asesorError.message,
+          });
+        }
         console.error('⚠️ Error al actualizar perfil de asesor:', asesorError.message);
         // No fallar la operación principal
       }
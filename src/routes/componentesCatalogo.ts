@@ -1,6 +1,7 @@
 import express from 'express';
 import { requireAuth } from '../middleware/clerkAuth.js';
 import * as componentesCatalogoService from '../services/componentesCatalogoService.js';
+import { getSchemaComponente } from '../services/componentesSchemaService.js';
 
 const router = express.Router();
 
@@ -111,6 +112,27 @@ router.post('/tenants/:tenantId/componentes/:codigo/validar', requireAuth, async
   }
 });
 
+/**
+ * GET /api/componentes-catalogo/:codigo/schema
+ * JSON Schema de los datos del componente/variante (por id, componente_key o tipo)
+ * para que el editor arme el formulario
+ */
+router.get('/:codigo/schema', requireAuth, async (req, res) => {
+  try {
+    const { codigo } = req.params;
+
+    const schema = await getSchemaComponente(codigo);
+    if (!schema) {
+      return res.status(404).json({ error: 'Componente no encontrado' });
+    }
+
+    res.json(schema);
+  } catch (error: any) {
+    console.error('Error al obtener schema del componente:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
 /**
  * POST /api/componentes-catalogo/:codigo/validar-config
  * Validar configuración de un componente según su schema
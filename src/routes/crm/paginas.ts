@@ -1,5 +1,6 @@
 import { Router, Request, Response } from 'express';
 import * as paginasService from '../../services/crm/paginasService.js';
+import * as paginasBorradoresService from '../../services/crm/paginasBorradoresService.js';
 
 const router = Router();
 
@@ -268,9 +269,10 @@ router.patch('/tenants/:tenantId/tipos-pagina/:tipoPaginaCodigo/componentes/:com
     });
   } catch (error: any) {
     console.error('Error actualizando componente por tipo:', error);
-    res.status(500).json({
+    res.status(error.statusCode || 500).json({
       success: false,
       error: error.message,
+      errores: error.errores,
     });
   }
 });
@@ -528,9 +530,10 @@ router.patch('/tenants/:tenantId/paginas/:paginaId/componentes/:relacionId', asy
     });
   } catch (error: any) {
     console.error('Error actualizando componente:', error);
-    res.status(500).json({
+    res.status(error.statusCode || 500).json({
       success: false,
       error: error.message,
+      errores: error.errores,
     });
   }
 });
@@ -699,4 +702,276 @@ router.get('/tenants/:tenantId/catalogo-componentes/tipo/:tipo/variantes', async
   }
 });
 
+// ========================================
+// 15. BORRADORES DE PÁGINA
+// Las ediciones de componentes quedan en el borrador hasta publicarlo
+// ========================================
+router.get('/tenants/:tenantId/borradores', async (req: Request, res: Response) => {
+  try {
+    const { tenantId } = req.params;
+    const borradores = await paginasBorradoresService.listarBorradores(tenantId);
+
+    res.json({
+      success: true,
+      data: borradores,
+    });
+  } catch (error: any) {
+    console.error('Error listando borradores:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+// Borrador con los cambios que publicaría respecto a lo publicado
+router.get('/tenants/:tenantId/borradores/:borradorId', async (req: Request, res: Response) => {
+  try {
+    const { tenantId, borradorId } = req.params;
+    const borrador = await paginasBorradoresService.getBorradorPorId(tenantId, borradorId);
+
+    if (!borrador) {
+      return res.status(404).json({
+        success: false,
+        error: 'Borrador no encontrado',
+      });
+    }
+
+    const cambios = await paginasBorradoresService.compararBorrador(tenantId, borrador);
+
+    res.json({
+      success: true,
+      data: { ...borrador, cambios },
+    });
+  } catch (error: any) {
+    console.error('Error obteniendo borrador:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+// 409 si lo publicado cambió desde que se creó el borrador; forzar: true lo sobrescribe
+router.post('/tenants/:tenantId/borradores/:borradorId/publicar', async (req: Request, res: Response) => {
+  try {
+    const { tenantId, borradorId } = req.params;
+    const { mensaje, forzar } = req.body;
+
+    const borrador = await paginasBorradoresService.getBorradorPorId(tenantId, borradorId);
+    if (!borrador) {
+      return res.status(404).json({
+        success: false,
+        error: 'Borrador no encontrado',
+      });
+    }
+
+    const revision = await paginasBorradoresService.publicarBorrador(tenantId, borrador, {
+      mensaje,
+      forzar: forzar === true,
+    });
+
+    res.json({
+      success: true,
+      data: revision,
+    });
+  } catch (error: any) {
+    console.error('Error publicando borrador:', error);
+    if (error instanceof paginasBorradoresService.ConflictoPublicacionError) {
+      return res.status(409).json({
+        success: false,
+        error: error.message,
+        conflicto: true,
+      });
+    }
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+// Programa la publicación (publicar_en = null la desprograma)
+router.post('/tenants/:tenantId/borradores/:borradorId/programar', async (req: Request, res: Response) => {
+  try {
+    const { tenantId, borradorId } = req.params;
+    const { publicar_en } = req.body;
+
+    const fecha = publicar_en ? new Date(publicar_en) : null;
+    if (fecha && (isNaN(fecha.getTime()) || fecha.getTime() <= Date.now())) {
+      return res.status(400).json({
+        success: false,
+        error: 'publicar_en debe ser una fecha futura válida',
+      });
+    }
+
+    const borrador = await paginasBorradoresService.getBorradorPorId(tenantId, borradorId);
+    if (!borrador) {
+      return res.status(404).json({
+        success: false,
+        error: 'Borrador no encontrado',
+      });
+    }
+
+    const actualizado = await paginasBorradoresService.programarPublicacion(tenantId, borrador, fecha);
+
+    res.json({
+      success: true,
+      data: actualizado,
+    });
+  } catch (error: any) {
+    console.error('Error programando publicación:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+router.delete('/tenants/:tenantId/borradores/:borradorId', async (req: Request, res: Response) => {
+  try {
+    const { tenantId, borradorId } = req.params;
+
+    const borrador = await paginasBorradoresService.getBorradorPorId(tenantId, borradorId);
+    if (!borrador) {
+      return res.status(404).json({
+        success: false,
+        error: 'Borrador no encontrado',
+      });
+    }
+
+    await paginasBorradoresService.descartarBorrador(tenantId, borrador);
+
+    res.json({
+      success: true,
+      message: 'Borrador descartado',
+    });
+  } catch (error: any) {
+    console.error('Error descartando borrador:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+// ========================================
+// 16. TOKEN DE PREVIEW
+// El sitio lo envía como ?preview=token a /resolve para renderizar los borradores
+// ========================================
+router.post('/tenants/:tenantId/preview-token', async (req: Request, res: Response) => {
+  try {
+    const { tenantId } = req.params;
+    const { ttl_segundos } = req.body;
+
+    const preview = paginasBorradoresService.generarTokenPreview(
+      tenantId,
+      ttl_segundos ? Math.min(parseInt(ttl_segundos), 60 * 60 * 24 * 7) : undefined
+    );
+
+    res.json({
+      success: true,
+      data: preview,
+    });
+  } catch (error: any) {
+    console.error('Error generando token de preview:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+// ========================================
+// 17. REVISIONES DE PÁGINA
+// Sin tipo_pagina_id ni tenant_rutas_config_custom_id = componentes globales
+// ========================================
+router.get('/tenants/:tenantId/revisiones', async (req: Request, res: Response) => {
+  try {
+    const { tenantId } = req.params;
+    const { tipo_pagina_id, tenant_rutas_config_custom_id, page, limit } = req.query;
+
+    const revisiones = await paginasBorradoresService.listarRevisiones(
+      tenantId,
+      {
+        tipo_pagina_id: (tipo_pagina_id as string) || null,
+        tenant_rutas_config_custom_id: (tenant_rutas_config_custom_id as string) || null,
+      },
+      {
+        page: page ? parseInt(page as string) : 1,
+        limit: limit ? parseInt(limit as string) : 20,
+      }
+    );
+
+    res.json({
+      success: true,
+      data: revisiones.data,
+      total: revisiones.total,
+    });
+  } catch (error: any) {
+    console.error('Error listando revisiones:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+// Revisión con sus componentes y el diff contra lo publicado (o contra ?contra=revisionId)
+router.get('/tenants/:tenantId/revisiones/:revisionId', async (req: Request, res: Response) => {
+  try {
+    const { tenantId, revisionId } = req.params;
+    const { contra } = req.query;
+
+    const revision = await paginasBorradoresService.getRevision(tenantId, revisionId);
+    if (!revision) {
+      return res.status(404).json({
+        success: false,
+        error: 'Revisión no encontrada',
+      });
+    }
+
+    const diff = await paginasBorradoresService.compararRevision(tenantId, revisionId, contra as string | undefined);
+
+    res.json({
+      success: true,
+      data: { ...revision, diff },
+    });
+  } catch (error: any) {
+    console.error('Error obteniendo revisión:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+// Rollback: publica de nuevo los componentes de la revisión
+router.post('/tenants/:tenantId/revisiones/:revisionId/restaurar', async (req: Request, res: Response) => {
+  try {
+    const { tenantId, revisionId } = req.params;
+
+    const revision = await paginasBorradoresService.getRevision(tenantId, revisionId);
+    if (!revision) {
+      return res.status(404).json({
+        success: false,
+        error: 'Revisión no encontrada',
+      });
+    }
+
+    const nueva = await paginasBorradoresService.restaurarRevision(tenantId, revisionId);
+
+    res.json({
+      success: true,
+      data: nueva,
+    });
+  } catch (error: any) {
+    console.error('Error restaurando revisión:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
 export default router;
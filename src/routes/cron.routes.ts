@@ -4,6 +4,13 @@
  * Protected endpoints called by external cron (Hetzner VPS).
  * Processes scheduled Instagram posts that are due for publishing.
  * Facebook uses native scheduling; Instagram requires this cron approach.
+ * Also syncs email inboxes, expires overdue proposals / payment plans,
+ * releases expired unit reservations, notifies price drops, sends
+ * saved-search alerts, publishes scheduled website page drafts,
+ * rolls up website analytics into daily aggregates, verifies custom
+ * domains (TXT record and TLS certificate), backfills responsive image
+ * renditions for existing property and article images, purges old
+ * real-time inbox events and escalates conversations that breached their SLA.
  */
 
 import express, { Request, Response } from 'express';
@@ -127,4 +134,245 @@ router.get('/sync-emails', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/cron/process-expirations
+ *
+ * Called every hour by Hetzner VPS crontab.
+ * Expires overdue proposals and payment plans, and creates a follow-up
+ * actividad for the owning asesor N days before expiry (per-tenant setting).
+ */
+router.get('/process-expirations', async (req: Request, res: Response) => {
+  const secret = req.headers['x-cron-secret'] as string;
+  if (!CRON_SECRET || secret !== CRON_SECRET) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const { procesarExpiraciones } = await import('../services/expiracionesService.js');
+    const result = await procesarExpiraciones();
+
+    res.json(result);
+  } catch (error: any) {
+    console.error('[Cron] Error processing expirations:', error.message);
+    res.status(500).json({ error: 'Internal error', message: error.message });
+  }
+});
+
+/**
+ * GET /api/cron/release-unit-holds
+ *
+ * Called every 15 minutes by Hetzner VPS crontab.
+ * Releases project unit reservations whose hold expired (back to 'disponible')
+ * and notifies the asesor who held them.
+ */
+router.get('/release-unit-holds', async (req: Request, res: Response) => {
+  const secret = req.headers['x-cron-secret'] as string;
+  if (!CRON_SECRET || secret !== CRON_SECRET) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const { liberarReservasVencidas } = await import('../services/unidadesProyectoService.js');
+    const liberadas = await liberarReservasVencidas();
+
+    res.json({ liberadas });
+  } catch (error: any) {
+    console.error('[Cron] Error releasing unit holds:', error.message);
+    res.status(500).json({ error: 'Internal error', message: error.message });
+  }
+});
+
+/**
+ * GET /api/cron/notify-price-drops
+ *
+ * Called every hour by Hetzner VPS crontab.
+ * Emails contacts whose open solicitudes match a property whose price just dropped
+ * (from their asesor's connected account), or creates a follow-up actividad instead.
+ */
+router.get('/notify-price-drops', async (req: Request, res: Response) => {
+  const secret = req.headers['x-cron-secret'] as string;
+  if (!CRON_SECRET || secret !== CRON_SECRET) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const { procesarBajadasPrecio } = await import('../services/historialPreciosService.js');
+    const result = await procesarBajadasPrecio();
+
+    res.json(result);
+  } catch (error: any) {
+    console.error('[Cron] Error notifying price drops:', error.message);
+    res.status(500).json({ error: 'Internal error', message: error.message });
+  }
+});
+
+/**
+ * GET /api/cron/send-saved-search-alerts
+ *
+ * Called every 15 minutes by Hetzner VPS crontab.
+ * Emails new or price-changed listings matching saved searches ('instantanea'
+ * on every run, 'diaria' at most once every 24 hours) from the tenant's SMTP.
+ */
+router.get('/send-saved-search-alerts', async (req: Request, res: Response) => {
+  const secret = req.headers['x-cron-secret'] as string;
+  if (!CRON_SECRET || secret !== CRON_SECRET) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const { procesarAlertasBusquedas } = await import('../services/busquedasGuardadasService.js');
+    const protocol = req.get('x-forwarded-proto') || req.protocol;
+    const apiUrl = `${protocol}://${req.get('host') || ''}`;
+    const result = await procesarAlertasBusquedas(apiUrl);
+
+    res.json(result);
+  } catch (error: any) {
+    console.error('[Cron] Error sending saved search alerts:', error.message);
+    res.status(500).json({ error: 'Internal error', message: error.message });
+  }
+});
+
+/**
+ * GET /api/cron/publish-scheduled-pages
+ *
+ * Called every 5 minutes by Hetzner VPS crontab.
+ * Publishes website page drafts whose publicar_en has passed and records
+ * a 'programada' revision for each one.
+ */
+router.get('/publish-scheduled-pages', async (req: Request, res: Response) => {
+  const secret = req.headers['x-cron-secret'] as string;
+  if (!CRON_SECRET || secret !== CRON_SECRET) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const { publicarBorradoresProgramados } = await import('../services/crm/paginasBorradoresService.js');
+    const result = await publicarBorradoresProgramados();
+
+    res.json(result);
+  } catch (error: any) {
+    console.error('[Cron] Error publishing scheduled pages:', error.message);
+    res.status(500).json({ error: 'Internal error', message: error.message });
+  }
+});
+
+/**
+ * GET /api/cron/rollup-web-analytics
+ *
+ * Called every hour by Hetzner VPS crontab.
+ * Recomputes today's and yesterday's website analytics aggregates from the
+ * raw beacon events and purges raw events past the retention window.
+ */
+router.get('/rollup-web-analytics', async (req: Request, res: Response) => {
+  const secret = req.headers['x-cron-secret'] as string;
+  if (!CRON_SECRET || secret !== CRON_SECRET) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const { consolidarAnalyticsWeb } = await import('../services/analyticsWebService.js');
+    const result = await consolidarAnalyticsWeb();
+
+    res.json(result);
+  } catch (error: any) {
+    console.error('[Cron] Error rolling up web analytics:', error.message);
+    res.status(500).json({ error: 'Internal error', message: error.message });
+  }
+});
+
+/**
+ * GET /api/cron/verify-domains
+ *
+ * Called every 15 minutes by Hetzner VPS crontab.
+ * Retries TXT verification of pending custom domains (failing them after the
+ * time limit) and checks the TLS certificate served by verified domains.
+ */
+router.get('/verify-domains', async (req: Request, res: Response) => {
+  const secret = req.headers['x-cron-secret'] as string;
+  if (!CRON_SECRET || secret !== CRON_SECRET) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const { procesarDominios } = await import('../services/dominiosService.js');
+    const result = await procesarDominios();
+
+    res.json(result);
+  } catch (error: any) {
+    console.error('[Cron] Error verifying custom domains:', error.message);
+    res.status(500).json({ error: 'Internal error', message: error.message });
+  }
+});
+
+/**
+ * GET /api/cron/backfill-image-renditions
+ *
+ * Called every 10 minutes by Hetzner VPS crontab.
+ * Generates renditions, blurhash and manifest for existing property and article
+ * images that don't have them yet (a small batch per run).
+ */
+router.get('/backfill-image-renditions', async (req: Request, res: Response) => {
+  const secret = req.headers['x-cron-secret'] as string;
+  if (!CRON_SECRET || secret !== CRON_SECRET) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const { procesarBackfillRenditions } = await import('../services/imagenesRenditionsService.js');
+    const result = await procesarBackfillRenditions();
+
+    res.json(result);
+  } catch (error: any) {
+    console.error('[Cron] Error backfilling image renditions:', error.message);
+    res.status(500).json({ error: 'Internal error', message: error.message });
+  }
+});
+
+/**
+ * GET /api/cron/purge-inbox-events
+ *
+ * Called every hour by Hetzner VPS crontab.
+ * Deletes real-time inbox events (SSE replay log) older than 24 hours.
+ */
+router.get('/purge-inbox-events', async (req: Request, res: Response) => {
+  const secret = req.headers['x-cron-secret'] as string;
+  if (!CRON_SECRET || secret !== CRON_SECRET) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const { purgarEventos } = await import('../services/mensajeriaEventosService.js');
+    const eliminados = await purgarEventos(24);
+
+    res.json({ eliminados });
+  } catch (error: any) {
+    console.error('[Cron] Error purging inbox events:', error.message);
+    res.status(500).json({ error: 'Internal error', message: error.message });
+  }
+});
+
+/**
+ * GET /api/cron/check-inbox-sla
+ *
+ * Called every 5 minutes by Hetzner VPS crontab.
+ * Escalates open conversations past their first-response or resolution SLA
+ * (reassign within the team, to the team leader or to a fixed user).
+ */
+router.get('/check-inbox-sla', async (req: Request, res: Response) => {
+  const secret = req.headers['x-cron-secret'] as string;
+  if (!CRON_SECRET || secret !== CRON_SECRET) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const { procesarEscalamientosSla } = await import('../services/mensajeriaRuteoService.js');
+    const result = await procesarEscalamientosSla();
+
+    res.json(result);
+  } catch (error: any) {
+    console.error('[Cron] Error checking inbox SLAs:', error.message);
+    res.status(500).json({ error: 'Internal error', message: error.message });
+  }
+});
+
 export default router;
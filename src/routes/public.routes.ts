@@ -14,9 +14,78 @@ import {
   createRegistrationRequest,
   checkDuplicateRequest,
 } from '../services/registrationRequestsService.js';
+import { procesarLeadWeb } from '../services/leadsWebService.js';
+import {
+  getPropuestaPublica,
+  responderPropuesta,
+  getPlanPagoPublico,
+  responderPlanPago,
+} from '../services/propuestasPublicasService.js';
+import {
+  crearBusquedaGuardada,
+  getBusquedaPorToken,
+  confirmarBusqueda,
+  darDeBajaBusqueda,
+  FRECUENCIAS_ALERTA,
+  FrecuenciaAlerta,
+} from '../services/busquedasGuardadasService.js';
+import { escapeHtml } from '../services/emailNotificacionesService.js';
+import { generarFeedPortal, FORMATOS_FEED, FormatoFeed } from '../services/feedsPortalesService.js';
+import {
+  generarSitemapIndex,
+  generarSitemap,
+  generarRobotsTxt,
+  getBaseUrlSitio,
+  parseNombreSitemap,
+  TIPOS_SITEMAP,
+} from '../services/sitemapService.js';
+import {
+  registrarConversion,
+  TIPOS_CONVERSION,
+  TipoConversion,
+} from '../services/experimentosPaginasService.js';
+import { registrarEventoWeb, registrarLeadAnalytics } from '../services/analyticsWebService.js';
+import { estaDominioAutorizado } from '../services/dominiosService.js';
+import { createRateLimiter } from '../middleware/rateLimit.js';
 
 const router = express.Router();
 
+// Máximo 5 formularios por IP y tenant cada 10 minutos
+const leadsRateLimiter = createRateLimiter({
+  windowMs: 10 * 60 * 1000,
+  max: 5,
+  keyGenerator: (req) => `${req.ip}:${req.params.slug}`,
+  message: 'Has enviado demasiados formularios. Intenta de nuevo en unos minutos.',
+});
+
+// Búsquedas guardadas: presupuesto propio para no consumir el de los formularios de contacto
+const busquedasRateLimiter = createRateLimiter({
+  windowMs: 10 * 60 * 1000,
+  max: 5,
+  keyGenerator: (req) => `${req.ip}:${req.params.slug}`,
+  message: 'Has guardado demasiadas búsquedas. Intenta de nuevo en unos minutos.',
+});
+
+// Conversiones de experimentos (clicks de WhatsApp, propuestas): máximo 30 por IP cada 10 minutos
+const conversionesRateLimiter = createRateLimiter({
+  windowMs: 10 * 60 * 1000,
+  max: 30,
+  keyGenerator: (req) => `${req.ip}:${req.params.slug}`,
+});
+
+// Beacon de analítica: una vista por navegación, máximo 120 por IP cada 5 minutos
+const analyticsRateLimiter = createRateLimiter({
+  windowMs: 5 * 60 * 1000,
+  max: 120,
+  keyGenerator: (req) => `${req.ip}:${req.params.slug}`,
+});
+
+// Respuestas a propuestas / planes: máximo 10 por IP cada 10 minutos
+const respuestasRateLimiter = createRateLimiter({
+  windowMs: 10 * 60 * 1000,
+  max: 10,
+});
+
 /**
  * GET /api/public/stats
  *
@@ -270,4 +339,736 @@ router.post('/tenants/:slug/join-request', async (req: Request, res: Response, n
   }
 });
 
+/**
+ * POST /api/public/tenants/:slug/leads
+ *
+ * Recibe formularios de contacto / agendar visita de los sitios web del tenant.
+ * Deduplica el contacto, crea la solicitud en 'nuevo_lead' y la asigna.
+ * No requiere autenticación. Rate limited por IP + tenant.
+ */
+router.post('/tenants/:slug/leads', leadsRateLimiter, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { slug } = req.params;
+    const {
+      nombre,
+      apellido,
+      email,
+      telefono,
+      mensaje,
+      tipo_formulario,
+      propiedad_id,
+      fecha_visita,
+      pagina_url,
+      idioma,
+      visitante_id, // cookie del sitio: atribuye la conversión a experimentos A/B y a la fuente de tráfico
+      website, // honeypot: los humanos no lo ven, los bots lo llenan
+    } = req.body;
+
+    console.log(`🌐 POST /api/public/tenants/${slug}/leads [tipo: ${tipo_formulario || 'contacto'}]`);
+
+    // Honeypot: responder éxito sin procesar para no dar pistas al bot
+    if (website) {
+      return res.status(201).json({ success: true });
+    }
+
+    // Los campos de texto llegan de un formulario público: otro tipo (número, objeto) es un 400
+    const camposTexto = { nombre, apellido, email, telefono, mensaje };
+    const noTexto = Object.entries(camposTexto).filter(([, valor]) => valor != null && typeof valor !== 'string');
+    if (noTexto.length > 0) {
+      return res.status(400).json({
+        error: 'Campos inválidos',
+        message: `${noTexto.map(([campo]) => campo).join(', ')} debe ser texto`,
+      });
+    }
+
+    if (!nombre || (!email && !telefono)) {
+      return res.status(400).json({
+        error: 'Campos requeridos faltantes',
+        message: 'Se requiere nombre y al menos un email o teléfono',
+      });
+    }
+
+    if (email) {
+      const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+      if (!emailRegex.test(email)) {
+        return res.status(400).json({
+          error: 'Email inválido',
+          message: 'El formato del email no es válido',
+        });
+      }
+    }
+
+    if (propiedad_id && !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(String(propiedad_id))) {
+      return res.status(400).json({
+        error: 'Propiedad inválida',
+        message: 'propiedad_id debe ser un UUID válido',
+      });
+    }
+
+    if (fecha_visita && (typeof fecha_visita !== 'string' || isNaN(Date.parse(fecha_visita)))) {
+      return res.status(400).json({
+        error: 'Fecha inválida',
+        message: 'fecha_visita debe ser una fecha válida (ISO 8601)',
+      });
+    }
+
+    const tenant = await getTenantBySlug(slug);
+
+    if (!tenant) {
+      return res.status(404).json({
+        error: 'Tenant no encontrado',
+        message: `No existe un tenant con el slug "${slug}"`,
+      });
+    }
+
+    const resultado = await procesarLeadWeb(tenant.id, {
+      nombre,
+      apellido,
+      email,
+      telefono,
+      mensaje,
+      tipo_formulario,
+      propiedad_id,
+      fecha_visita,
+      pagina_url: pagina_url || req.get('Referer') || undefined,
+      idioma,
+    });
+
+    if (visitante_id) {
+      await registrarConversion(tenant.id, String(visitante_id), 'formulario');
+      await registrarLeadAnalytics(tenant.id, String(visitante_id), {
+        solicitudId: resultado.solicitud.id,
+        paginaUrl: pagina_url || req.get('Referer') || undefined,
+        propiedadId: propiedad_id,
+      });
+    }
+
+    res.status(201).json({
+      success: true,
+      message: 'Gracias por tu mensaje. Un asesor te contactará pronto.',
+      solicitudId: resultado.solicitud.id,
+    });
+  } catch (error) {
+    console.error('❌ Error en POST /api/public/tenants/:slug/leads:', error);
+    next(error);
+  }
+});
+
+/**
+ * POST /api/public/tenants/:slug/experimentos/conversiones
+ *
+ * Beacon del sitio para conversiones que no pasan por la API (click en WhatsApp,
+ * solicitud de propuesta). Los formularios de lead se registran solos con visitante_id.
+ * Body: { visitante_id, tipo: 'whatsapp' | 'propuesta' | 'formulario' }
+ * No requiere autenticación. Rate limited por IP + tenant.
+ */
+router.post('/tenants/:slug/experimentos/conversiones', conversionesRateLimiter, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { slug } = req.params;
+    const { visitante_id, tipo } = req.body;
+
+    if (!visitante_id || !TIPOS_CONVERSION.includes(tipo)) {
+      return res.status(400).json({
+        error: 'Campos requeridos faltantes',
+        message: `Se requiere visitante_id y tipo (${TIPOS_CONVERSION.join(', ')})`,
+      });
+    }
+
+    const tenant = await getTenantBySlug(slug);
+
+    if (!tenant) {
+      return res.status(404).json({
+        error: 'Tenant no encontrado',
+        message: `No existe un tenant con el slug "${slug}"`,
+      });
+    }
+
+    const registradas = await registrarConversion(tenant.id, String(visitante_id), tipo as TipoConversion);
+
+    res.status(202).json({ success: true, registradas });
+  } catch (error) {
+    console.error('❌ Error en POST /api/public/tenants/:slug/experimentos/conversiones:', error);
+    next(error);
+  }
+});
+
+/**
+ * POST /api/public/tenants/:slug/analytics
+ *
+ * Beacon de analítica del sitio: una llamada por vista de página. Clasifica la vista
+ * (propiedad, listado con sus tags o página) y registra fuente, UTM y asesor referidor.
+ * Body: { visitante_id, url, referrer?, propiedad_id? }
+ * No requiere autenticación. Rate limited por IP + tenant.
+ */
+router.post('/tenants/:slug/analytics', analyticsRateLimiter, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { slug } = req.params;
+    const { visitante_id, url, referrer, propiedad_id } = req.body;
+
+    if (!visitante_id || !url || typeof url !== 'string') {
+      return res.status(400).json({
+        error: 'Campos requeridos faltantes',
+        message: 'Se requiere visitante_id y url',
+      });
+    }
+
+    const tenant = await getTenantBySlug(slug);
+
+    if (!tenant) {
+      return res.status(404).json({
+        error: 'Tenant no encontrado',
+        message: `No existe un tenant con el slug "${slug}"`,
+      });
+    }
+
+    const tipo = await registrarEventoWeb(tenant.id, {
+      visitante_id: String(visitante_id),
+      url,
+      referrer: typeof referrer === 'string' ? referrer : null,
+      propiedad_id: typeof propiedad_id === 'string' ? propiedad_id : null,
+      host: req.get('Origin') || null,
+    });
+
+    if (!tipo) {
+      return res.status(400).json({
+        error: 'visitante_id inválido',
+        message: 'visitante_id debe tener entre 8 y 64 caracteres alfanuméricos, guiones o guiones bajos',
+      });
+    }
+
+    res.status(202).json({ success: true, tipo });
+  } catch (error) {
+    console.error('❌ Error en POST /api/public/tenants/:slug/analytics:', error);
+    next(error);
+  }
+});
+
+/**
+ * GET /api/public/dominios/autorizar?domain=www.ejemplo.com
+ *
+ * Consulta del proxy TLS on-demand antes de emitir un certificado: 200 si el dominio
+ * está verificado por un tenant activo, 404 si no.
+ */
+router.get('/dominios/autorizar', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const domain = req.query.domain;
+
+    if (typeof domain !== 'string' || !(await estaDominioAutorizado(domain))) {
+      return res.status(404).json({ error: 'Dominio no autorizado' });
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('❌ Error en GET /api/public/dominios/autorizar:', error);
+    next(error);
+  }
+});
+
+// ============================================================================
+// BÚSQUEDAS GUARDADAS (alertas de propiedades para visitantes del sitio)
+// ============================================================================
+
+/**
+ * POST /api/public/tenants/:slug/busquedas-guardadas
+ *
+ * Guarda la búsqueda (URL del listado) de un visitante o contacto para recibir
+ * alertas por email de propiedades nuevas o con cambio de precio. Las alertas
+ * empiezan cuando el dueño del email confirma desde el enlace que se le envía.
+ * Body: { email, url, nombre?, frecuencia?: 'instantanea' | 'diaria' }
+ * No requiere autenticación. Rate limited por IP + tenant.
+ */
+router.post('/tenants/:slug/busquedas-guardadas', busquedasRateLimiter, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { slug } = req.params;
+    const { email, nombre, url, frecuencia, website } = req.body;
+
+    // Honeypot
+    if (website) {
+      return res.status(201).json({ success: true });
+    }
+
+    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+    if (!email || !emailRegex.test(email) || !url) {
+      return res.status(400).json({
+        error: 'Campos requeridos faltantes',
+        message: 'Se requiere un email válido y la URL de la búsqueda',
+      });
+    }
+
+    if (frecuencia && !FRECUENCIAS_ALERTA.includes(frecuencia)) {
+      return res.status(400).json({
+        error: 'Frecuencia inválida',
+        message: `La frecuencia debe ser una de: ${FRECUENCIAS_ALERTA.join(', ')}`,
+      });
+    }
+
+    const tenant = await getTenantBySlug(slug);
+
+    if (!tenant) {
+      return res.status(404).json({
+        error: 'Tenant no encontrado',
+        message: `No existe un tenant con el slug "${slug}"`,
+      });
+    }
+
+    const protocol = req.get('x-forwarded-proto') || req.protocol;
+    const resultado = await crearBusquedaGuardada(tenant.id, {
+      email,
+      nombre,
+      url,
+      frecuencia: frecuencia as FrecuenciaAlerta | undefined,
+    }, `${protocol}://${req.get('host') || ''}`);
+
+    if (!resultado) {
+      return res.status(400).json({
+        error: 'URL inválida',
+        message: 'La URL no corresponde a un listado de propiedades',
+      });
+    }
+
+    res.status(resultado.creada ? 201 : 200).json({
+      success: true,
+      message: resultado.busqueda.confirmada_at
+        ? 'Te avisaremos por email cuando haya propiedades nuevas en esta búsqueda.'
+        : 'Te enviamos un email para confirmar las alertas de esta búsqueda.',
+      busqueda: {
+        id: resultado.busqueda.id,
+        titulo: resultado.busqueda.titulo,
+        url: resultado.busqueda.url,
+        frecuencia: resultado.busqueda.frecuencia,
+        confirmada: !!resultado.busqueda.confirmada_at,
+      },
+    });
+  } catch (error) {
+    console.error('❌ Error en POST /api/public/tenants/:slug/busquedas-guardadas:', error);
+    next(error);
+  }
+});
+
+/**
+ * Página HTML mínima para los enlaces del email de búsquedas guardadas
+ */
+function paginaBusquedaGuardada(tituloPagina: string, contenido: string): string {
+  return `
+      <!DOCTYPE html>
+      <html lang="es">
+      <head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1"><title>${tituloPagina}</title></head>
+      <body style="font-family:Arial,sans-serif;max-width:480px;margin:48px auto;color:#1f2937;">
+        ${contenido}
+      </body>
+      </html>
+    `;
+}
+
+/**
+ * GET /api/public/busquedas-guardadas/:token/confirmar
+ *
+ * Enlace del email de confirmación (doble opt-in). Devuelve una página HTML con el botón
+ * que confirma: los escáneres de enlaces de los clientes de correo abren los GET y no
+ * deben confirmar por el visitante.
+ */
+router.get('/busquedas-guardadas/:token/confirmar', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const busqueda = await getBusquedaPorToken(req.params.token);
+
+    if (!busqueda || !busqueda.activo) {
+      return res.status(404).send('<p>Este enlace de confirmación no es válido.</p>');
+    }
+
+    const titulo = escapeHtml(busqueda.titulo || 'tu búsqueda guardada');
+    res.send(busqueda.confirmada_at
+      ? paginaBusquedaGuardada('Alertas confirmadas', `<p>Las alertas de <strong>${titulo}</strong> ya están confirmadas.</p>`)
+      : paginaBusquedaGuardada('Confirmar alertas', `
+        <p>¿Quieres recibir por email las novedades en <strong>${titulo}</strong>?</p>
+        <form method="post" action="confirmar"><button type="submit">Confirmar alertas</button></form>
+      `));
+  } catch (error) {
+    console.error('❌ Error en GET /api/public/busquedas-guardadas/:token/confirmar:', error);
+    next(error);
+  }
+});
+
+/**
+ * POST /api/public/busquedas-guardadas/:token/confirmar
+ *
+ * Botón de la página de confirmación. Devuelve una página HTML.
+ */
+router.post('/busquedas-guardadas/:token/confirmar', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const busqueda = await confirmarBusqueda(req.params.token);
+
+    if (!busqueda) {
+      return res.status(404).send('<p>Este enlace de confirmación no es válido.</p>');
+    }
+
+    const titulo = escapeHtml(busqueda.titulo || 'tu búsqueda guardada');
+    res.send(paginaBusquedaGuardada(
+      'Alertas confirmadas',
+      `<p>Listo: te avisaremos por email de las novedades en <strong>${titulo}</strong>.</p>`
+    ));
+  } catch (error) {
+    console.error('❌ Error en POST /api/public/busquedas-guardadas/:token/confirmar:', error);
+    next(error);
+  }
+});
+
+/**
+ * GET /api/public/busquedas-guardadas/:token/baja
+ *
+ * Enlace de baja del email de alertas. Devuelve una página HTML con los botones de baja
+ * (POST), para que un escáner de enlaces no dé de baja al abrirlo.
+ */
+router.get('/busquedas-guardadas/:token/baja', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const busqueda = await getBusquedaPorToken(req.params.token);
+
+    if (!busqueda) {
+      return res.status(404).send('<p>Este enlace de baja no es válido.</p>');
+    }
+
+    const titulo = escapeHtml(busqueda.titulo || 'tu búsqueda guardada');
+    res.send(paginaBusquedaGuardada('Darse de baja', `
+        ${busqueda.activo
+          ? `<p>¿Dejar de recibir alertas de <strong>${titulo}</strong>?</p>
+        <form method="post" action="baja"><button type="submit">Darme de baja</button></form>`
+          : `<p>Ya no recibes alertas de <strong>${titulo}</strong>.</p>`}
+        <form method="post" action="baja?todas=true">
+          <button type="submit">Darme de baja de todas mis búsquedas guardadas</button>
+        </form>
+      `));
+  } catch (error) {
+    console.error('❌ Error en GET /api/public/busquedas-guardadas/:token/baja:', error);
+    next(error);
+  }
+});
+
+/**
+ * POST /api/public/busquedas-guardadas/:token/baja
+ *
+ * Baja en un clic desde el cliente de correo (cabecera List-Unsubscribe-Post) o desde los
+ * botones de la página de baja (responde HTML al navegador).
+ * Query: todas=true para darse de baja de todas las búsquedas del email.
+ */
+router.post('/busquedas-guardadas/:token/baja', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const todas = req.query.todas === 'true';
+    const resultado = await darDeBajaBusqueda(req.params.token, todas);
+    const esNavegador = req.accepts(['json', 'html']) === 'html';
+
+    if (!resultado) {
+      return esNavegador
+        ? res.status(404).send('<p>Este enlace de baja no es válido.</p>')
+        : res.status(404).json({ error: 'Búsqueda no encontrada' });
+    }
+
+    if (!esNavegador) {
+      return res.json({ success: true });
+    }
+
+    const titulo = escapeHtml(resultado.busqueda.titulo || 'tu búsqueda guardada');
+    res.send(paginaBusquedaGuardada('Baja confirmada', todas
+      ? '<p>Ya no recibirás alertas de ninguna de tus búsquedas guardadas.</p>'
+      : `<p>Ya no recibirás alertas de <strong>${titulo}</strong>.</p>`));
+  } catch (error) {
+    console.error('❌ Error en POST /api/public/busquedas-guardadas/:token/baja:', error);
+    next(error);
+  }
+});
+
+// ============================================================================
+// FEEDS DE PORTALES (sindicación de propiedades)
+// ============================================================================
+
+/**
+ * GET /api/public/tenants/:slug/feeds/:portal/:formato
+ *
+ * Feed de las propiedades del tenant marcadas para el portal.
+ * Formatos: xml (genérico), kyero (Kyero v3), json.
+ * No requiere autenticación: lo consumen los portales periódicamente.
+ */
+router.get('/tenants/:slug/feeds/:portal/:formato', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { slug, portal, formato } = req.params;
+
+    if (!FORMATOS_FEED.includes(formato as FormatoFeed)) {
+      return res.status(400).json({
+        error: 'Formato inválido',
+        message: `El formato debe ser uno de: ${FORMATOS_FEED.join(', ')}`,
+      });
+    }
+
+    const tenant = await getTenantBySlug(slug);
+
+    if (!tenant) {
+      return res.status(404).json({
+        error: 'Tenant no encontrado',
+        message: `No existe un tenant con el slug "${slug}"`,
+      });
+    }
+
+    const feed = await generarFeedPortal(tenant.id, portal, formato as FormatoFeed);
+
+    if (!feed) {
+      return res.status(404).json({ error: 'Portal no encontrado o inactivo' });
+    }
+
+    res.set('Content-Type', feed.contentType);
+    res.set('Cache-Control', 'public, max-age=900');
+    res.set('X-Feed-Aceptadas', String(feed.reporte.aceptadas));
+    res.set('X-Feed-Rechazadas', String(feed.reporte.rechazadas.length));
+    res.send(feed.contenido);
+  } catch (error) {
+    console.error('❌ Error en GET /api/public/tenants/:slug/feeds/:portal/:formato:', error);
+    next(error);
+  }
+});
+
+// ============================================================================
+// SEO: SITEMAPS Y ROBOTS.TXT
+// ============================================================================
+
+/**
+ * GET /api/public/tenants/:slug/sitemap.xml
+ *
+ * Sitemap index del sitio del tenant. Enlaza /sitemap-{tipo}.xml de cada tipo con URLs
+ * (y /sitemap-{tipo}-2.xml... si un tipo supera el límite del protocolo).
+ * Las URLs usan el dominio verificado del tenant; sin dominio responde 404.
+ */
+router.get('/tenants/:slug/sitemap.xml', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const tenant = await getTenantBySlug(req.params.slug);
+
+    if (!tenant) {
+      return res.status(404).json({ error: 'Tenant no encontrado' });
+    }
+
+    const baseUrl = await getBaseUrlSitio(tenant.id);
+
+    if (!baseUrl) {
+      return res.status(404).json({ error: 'El sitio no tiene un dominio verificado' });
+    }
+
+    const xml = await generarSitemapIndex(tenant.id, baseUrl);
+
+    if (!xml) {
+      return res.status(404).json({ error: 'Tenant no encontrado' });
+    }
+
+    res.set('Content-Type', 'application/xml; charset=utf-8');
+    res.set('Cache-Control', 'public, max-age=3600');
+    res.send(xml);
+  } catch (error) {
+    console.error('❌ Error en GET /api/public/tenants/:slug/sitemap.xml:', error);
+    next(error);
+  }
+});
+
+/**
+ * GET /api/public/tenants/:slug/sitemap-:tipo.xml
+ *
+ * Sitemap de un tipo: paginas, propiedades, listados, articulos, videos, testimonios, asesores.
+ * Los tipos partidos siguen en sitemap-{tipo}-2.xml, sitemap-{tipo}-3.xml...
+ * Cada URL lleva lastmod y alternates hreflang por idioma del tenant.
+ */
+router.get('/tenants/:slug/sitemap-:tipo.xml', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { slug } = req.params;
+    const sitemap = parseNombreSitemap(req.params.tipo);
+
+    if (!sitemap) {
+      return res.status(404).json({
+        error: 'Sitemap no encontrado',
+        message: `El tipo debe ser uno de: ${TIPOS_SITEMAP.join(', ')}`,
+      });
+    }
+
+    const tenant = await getTenantBySlug(slug);
+
+    if (!tenant) {
+      return res.status(404).json({ error: 'Tenant no encontrado' });
+    }
+
+    const baseUrl = await getBaseUrlSitio(tenant.id);
+
+    if (!baseUrl) {
+      return res.status(404).json({ error: 'El sitio no tiene un dominio verificado' });
+    }
+
+    const xml = await generarSitemap(tenant.id, baseUrl, sitemap.tipo, sitemap.pagina);
+
+    if (!xml) {
+      return res.status(404).json({ error: 'Sitemap no encontrado' });
+    }
+
+    res.set('Content-Type', 'application/xml; charset=utf-8');
+    res.set('Cache-Control', 'public, max-age=3600');
+    res.send(xml);
+  } catch (error) {
+    console.error('❌ Error en GET /api/public/tenants/:slug/sitemap-:tipo.xml:', error);
+    next(error);
+  }
+});
+
+/**
+ * GET /api/public/tenants/:slug/robots.txt
+ *
+ * robots.txt según configuracion.robots del tenant, con el enlace al sitemap index.
+ */
+router.get('/tenants/:slug/robots.txt', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const tenant = await getTenantBySlug(req.params.slug);
+
+    if (!tenant) {
+      return res.status(404).json({ error: 'Tenant no encontrado' });
+    }
+
+    const robots = await generarRobotsTxt(tenant.id, await getBaseUrlSitio(tenant.id));
+
+    if (!robots) {
+      return res.status(404).json({ error: 'Tenant no encontrado' });
+    }
+
+    res.set('Content-Type', 'text/plain; charset=utf-8');
+    res.set('Cache-Control', 'public, max-age=3600');
+    res.send(robots);
+  } catch (error) {
+    console.error('❌ Error en GET /api/public/tenants/:slug/robots.txt:', error);
+    next(error);
+  }
+});
+
+// ============================================================================
+// PROPUESTAS Y PLANES DE PAGO (vista del cliente por URL pública)
+// ============================================================================
+
+/**
+ * GET /api/public/propuestas/:codigo
+ *
+ * Devuelve la propuesta lista para renderizar (propiedades, asesor, empresa)
+ * y registra la vista. No requiere autenticación.
+ */
+router.get('/propuestas/:codigo', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { codigo } = req.params;
+    const resultado = await getPropuestaPublica(codigo);
+
+    if (!resultado) {
+      return res.status(404).json({ error: 'Propuesta no encontrada' });
+    }
+
+    if (resultado.expirada) {
+      return res.status(410).json({
+        error: 'Propuesta expirada',
+        message: 'Esta propuesta ha expirado. Contacta a tu asesor para recibir una actualizada.',
+        asesor: resultado.asesor,
+        empresa: resultado.empresa,
+      });
+    }
+
+    res.json(resultado);
+  } catch (error) {
+    console.error('❌ Error en GET /api/public/propuestas/:codigo:', error);
+    next(error);
+  }
+});
+
+/**
+ * POST /api/public/propuestas/:codigo/respuesta
+ *
+ * El cliente acepta o rechaza la propuesta.
+ * Body: { respuesta: 'aceptada' | 'rechazada', comentario? }
+ */
+router.post('/propuestas/:codigo/respuesta', respuestasRateLimiter, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { codigo } = req.params;
+    const { respuesta, comentario } = req.body;
+
+    if (respuesta !== 'aceptada' && respuesta !== 'rechazada') {
+      return res.status(400).json({
+        error: 'Respuesta inválida',
+        message: 'La respuesta debe ser "aceptada" o "rechazada"',
+      });
+    }
+
+    const propuesta = await responderPropuesta(codigo, respuesta, comentario);
+
+    if (!propuesta) {
+      return res.status(409).json({
+        error: 'No se puede responder',
+        message: 'La propuesta no existe o ya no admite respuestas',
+      });
+    }
+
+    res.json({ success: true, estado: propuesta.estado });
+  } catch (error) {
+    console.error('❌ Error en POST /api/public/propuestas/:codigo/respuesta:', error);
+    next(error);
+  }
+});
+
+/**
+ * GET /api/public/planes-pago/:codigo
+ *
+ * Devuelve el plan de pago con sus montos calculados y registra la vista.
+ * No requiere autenticación.
+ */
+router.get('/planes-pago/:codigo', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { codigo } = req.params;
+    const resultado = await getPlanPagoPublico(codigo);
+
+    if (!resultado) {
+      return res.status(404).json({ error: 'Plan de pago no encontrado' });
+    }
+
+    if (resultado.expirado) {
+      return res.status(410).json({
+        error: 'Plan de pago expirado',
+        message: 'Este plan de pago ha expirado. Contacta a tu asesor para recibir uno actualizado.',
+        asesor: resultado.asesor,
+        empresa: resultado.empresa,
+      });
+    }
+
+    res.json(resultado);
+  } catch (error) {
+    console.error('❌ Error en GET /api/public/planes-pago/:codigo:', error);
+    next(error);
+  }
+});
+
+/**
+ * POST /api/public/planes-pago/:codigo/respuesta
+ *
+ * El cliente acepta o rechaza el plan de pago.
+ * Body: { respuesta: 'aceptado' | 'rechazado', comentario? }
+ */
+router.post('/planes-pago/:codigo/respuesta', respuestasRateLimiter, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { codigo } = req.params;
+    const { respuesta, comentario } = req.body;
+
+    if (respuesta !== 'aceptado' && respuesta !== 'rechazado') {
+      return res.status(400).json({
+        error: 'Respuesta inválida',
+        message: 'La respuesta debe ser "aceptado" o "rechazado"',
+      });
+    }
+
+    const plan = await responderPlanPago(codigo, respuesta, comentario);
+
+    if (!plan) {
+      return res.status(409).json({
+        error: 'No se puede responder',
+        message: 'El plan de pago no existe o ya no admite respuestas',
+      });
+    }
+
+    res.json({ success: true, estado: plan.estado });
+  } catch (error) {
+    console.error('❌ Error en POST /api/public/planes-pago/:codigo/respuesta:', error);
+    next(error);
+  }
+});
+
 export default router;
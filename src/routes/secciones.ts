@@ -105,7 +105,7 @@ router.post('/tenants/:tenantId/secciones', async (req: Request, res: Response)
     res.json(seccion);
   } catch (error: any) {
     console.error('Error al guardar sección:', error);
-    res.status(500).json({ error: error.message });
+    res.status(error.statusCode || 500).json({ error: error.message, errores: error.errores });
   }
 });
 
@@ -123,7 +123,7 @@ router.put('/tenants/:tenantId/secciones/:seccionId', async (req: Request, res:
     res.json(seccion);
   } catch (error: any) {
     console.error('Error al actualizar sección:', error);
-    res.status(500).json({ error: error.message });
+    res.status(error.statusCode || 500).json({ error: error.message, errores: error.errores });
   }
 });
 
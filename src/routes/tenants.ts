@@ -1,4 +1,5 @@
 import express from 'express';
+import { createHash } from 'crypto';
 import multer from 'multer';
 import {
   getComponentesByTenant,
@@ -10,6 +11,8 @@ import {
 import { uploadImage } from '../services/r2Service.js';
 import { getPaginaCompleta } from '../services/paginasService.js';
 import { resolveRoute } from '../services/routeResolver.js';
+import { getCacheControlPaginas } from '../services/renderCacheService.js';
+import { verificarTokenPreview } from '../services/crm/paginasBorradoresService.js';
 import {
   getContactos,
   getContactoById,
@@ -547,7 +550,20 @@ router.get('/:tenantSlugOrId/resolve', async (req, res) => {
     const tenantId = tenant.id;
     console.log(`   Tenant encontrado: ${tenant.slug} (ID: ${tenantId})`);
     
-    const paginaCompleta = await resolveRoute(tenantId, normalizedPath);
+    // Preview de borradores: ?preview=<token> generado desde el CRM para este tenant
+    const preview = req.query.preview as string | undefined;
+    const esPreview = !!preview && verificarTokenPreview(preview) === tenantId;
+    if (preview && !esPreview) {
+      return res.status(403).json({
+        error: 'Preview no autorizado',
+        message: 'El token de preview es inválido o expiró',
+      });
+    }
+    
+    // Visitante (cookie del sitio) para mantener la variante de los experimentos A/B
+    const visitanteId = (req.query.visitante as string) || req.get('x-visitante-id') || undefined;
+    
+    const paginaCompleta = await resolveRoute(tenantId, normalizedPath, { borrador: esPreview, visitanteId });
     
     if (!paginaCompleta) {
       console.log(`❌ No se encontró página para: ${normalizedPath}`);
@@ -557,8 +573,20 @@ router.get('/:tenantSlugOrId/resolve', async (req, res) => {
       });
     }
     
+    // Ruta redirigida (slug cambiado o regla manual): el frontend hace el 301/302
+    if (paginaCompleta.redirect) {
+      return res.json(paginaCompleta);
+    }
+
+    // ETag fuerte del contenido: con If-None-Match igual, Express responde 304 sin cuerpo
+    const cuerpo = JSON.stringify(paginaCompleta);
+    res.setHeader('ETag', `"${createHash('sha1').update(cuerpo).digest('hex')}"`);
+    // Preview y páginas con experimento dependen de quién las pide: no se cachean fuera
+    const porVisitante = esPreview || !!paginaCompleta.experimento;
+    res.setHeader('Cache-Control', porVisitante ? 'no-store' : getCacheControlPaginas());
+
     console.log(`✅ Ruta resuelta: ${normalizedPath} → ${paginaCompleta.page.titulo}`);
-    res.json(paginaCompleta);
+    res.type('application/json').send(cuerpo);
   } catch (error: any) {
     console.error('❌ Error en GET /resolve:', error);
     console.error('❌ Stack trace:', error.stack);
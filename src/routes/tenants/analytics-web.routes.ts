@@ -0,0 +1,171 @@
+/**
+ * MÓDULO DE ANALÍTICA WEB - Reportes
+ *
+ * Reportes de la analítica propia del sitio web a partir de los agregados diarios
+ * (los recalcula el cron cada hora): propiedades más vistas, búsquedas más usadas,
+ * tráfico por asesor referidor y conversión a lead por fuente.
+ * Está aislado para que errores aquí NO afecten otros módulos.
+ */
+
+import express from 'express'
+import {
+  getResumenAnalytics,
+  getPropiedadesMasVistas,
+  getBusquedasTop,
+  getPaginasMasVistas,
+  getTraficoReferidores,
+  getConversionPorFuente,
+  RangoFechas,
+} from '../../services/analyticsWebService.js';
+import { resolveUserScope } from '../../middleware/scopeResolver.js';
+
+// Tipos para params con mergeParams
+interface RouteParams { [key: string]: string | undefined;
+  tenantId: string;
+}
+
+const router = express.Router({ mergeParams: true });
+router.use(resolveUserScope);
+
+const FECHA_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Rango de fechas y límite desde el query (fecha_desde, fecha_hasta, limit).
+ * Retorna un mensaje de error si alguna fecha no es YYYY-MM-DD.
+ */
+function parseFiltros(q: any): { rango: Partial<RangoFechas>; limit?: number } | string {
+  const { fecha_desde, fecha_hasta, limit } = q;
+
+  for (const fecha of [fecha_desde, fecha_hasta]) {
+    if (fecha && !FECHA_REGEX.test(fecha as string)) {
+      return 'Las fechas deben tener formato YYYY-MM-DD';
+    }
+  }
+
+  return {
+    rango: { desde: fecha_desde as string | undefined, hasta: fecha_hasta as string | undefined },
+    limit: limit ? Math.min(parseInt(limit as string) || 20, 100) : undefined,
+  };
+}
+
+/**
+ * GET /api/tenants/:tenantId/analytics-web
+ * Totales del rango y serie diaria de vistas, visitantes y leads
+ * Query: fecha_desde, fecha_hasta (default últimos 30 días)
+ */
+router.get('/', async (req, res, next) => {
+  try {
+    const { tenantId } = req.params as RouteParams;
+    const filtros = parseFiltros(req.query);
+    if (typeof filtros === 'string') {
+      return res.status(400).json({ error: filtros });
+    }
+
+    const resumen = await getResumenAnalytics(tenantId, filtros.rango);
+    res.json(resumen);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/tenants/:tenantId/analytics-web/propiedades
+ * Propiedades más vistas
+ * Query: fecha_desde, fecha_hasta, limit (default 20)
+ */
+router.get('/propiedades', async (req, res, next) => {
+  try {
+    const { tenantId } = req.params as RouteParams;
+    const filtros = parseFiltros(req.query);
+    if (typeof filtros === 'string') {
+      return res.status(400).json({ error: filtros });
+    }
+
+    const propiedades = await getPropiedadesMasVistas(tenantId, filtros.rango, filtros.limit);
+    res.json(propiedades);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/tenants/:tenantId/analytics-web/busquedas
+ * Combinaciones de tags más buscadas en los listados
+ * Query: fecha_desde, fecha_hasta, limit (default 20)
+ */
+router.get('/busquedas', async (req, res, next) => {
+  try {
+    const { tenantId } = req.params as RouteParams;
+    const filtros = parseFiltros(req.query);
+    if (typeof filtros === 'string') {
+      return res.status(400).json({ error: filtros });
+    }
+
+    const busquedas = await getBusquedasTop(tenantId, filtros.rango, filtros.limit);
+    res.json(busquedas);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/tenants/:tenantId/analytics-web/paginas
+ * Páginas más vistas del sitio
+ * Query: fecha_desde, fecha_hasta, limit (default 20)
+ */
+router.get('/paginas', async (req, res, next) => {
+  try {
+    const { tenantId } = req.params as RouteParams;
+    const filtros = parseFiltros(req.query);
+    if (typeof filtros === 'string') {
+      return res.status(400).json({ error: filtros });
+    }
+
+    const paginas = await getPaginasMasVistas(tenantId, filtros.rango, filtros.limit);
+    res.json(paginas);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/tenants/:tenantId/analytics-web/referidores
+ * Tráfico y leads que trajo cada asesor con su link ?ref=
+ * Query: fecha_desde, fecha_hasta, limit (default 20)
+ */
+router.get('/referidores', async (req, res, next) => {
+  try {
+    const { tenantId } = req.params as RouteParams;
+    const filtros = parseFiltros(req.query);
+    if (typeof filtros === 'string') {
+      return res.status(400).json({ error: filtros });
+    }
+
+    const referidores = await getTraficoReferidores(tenantId, filtros.rango, filtros.limit);
+    res.json(referidores);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/tenants/:tenantId/analytics-web/fuentes
+ * Visitantes, leads y tasa de conversión por fuente de tráfico
+ * Query: fecha_desde, fecha_hasta, limit (default 20)
+ */
+router.get('/fuentes', async (req, res, next) => {
+  try {
+    const { tenantId } = req.params as RouteParams;
+    const filtros = parseFiltros(req.query);
+    if (typeof filtros === 'string') {
+      return res.status(400).json({ error: filtros });
+    }
+
+    const fuentes = await getConversionPorFuente(tenantId, filtros.rango, filtros.limit);
+    res.json(fuentes);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -15,6 +15,7 @@ import * as credentialsService from '../../services/tenantApiCredentialsService.
 import { createOAuthState } from '../oauth.routes.js';
 import * as googleAdsService from '../../services/googleAdsService.js';
 import * as gscService from '../../services/googleSearchConsoleService.js';
+import { getUrlSitemapSearchConsole } from '../../services/sitemapService.js';
 import * as metaAdsService from '../../services/metaAdsService.js';
 import * as metaSocialService from '../../services/metaSocialService.js';
 import * as socialCopyService from '../../services/socialCopyService.js';
@@ -230,6 +231,38 @@ router.get('/google-search-console/performance', async (req: Request<TenantParam
   }
 });
 
+/**
+ * POST /api/tenants/:tenantId/api-credentials/google-search-console/sitemap
+ * Submits the site's sitemap index to Search Console.
+ * Body (optional): { sitemapUrl } — defaults to {site}/sitemap.xml
+ */
+router.post('/google-search-console/sitemap', async (req: Request<TenantParams>, res: Response, next: NextFunction) => {
+  try {
+    const { tenantId } = req.params;
+
+    const refreshToken = await credentialsService.getGoogleSearchConsoleToken(tenantId);
+    if (!refreshToken) {
+      return res.status(400).json({ error: 'Google Search Console no está conectado' });
+    }
+
+    const credentials = await credentialsService.getTenantApiCredentials(tenantId);
+    if (!credentials || !credentials.googleSearchConsoleSiteUrl || credentials.googleSearchConsoleSiteUrl === 'PENDING') {
+      return res.status(400).json({ error: 'No se ha seleccionado un sitio en Search Console' });
+    }
+
+    const siteUrl = credentials.googleSearchConsoleSiteUrl;
+    const sitemapUrl = req.body?.sitemapUrl || getUrlSitemapSearchConsole(siteUrl);
+
+    await gscService.submitSitemap(refreshToken, siteUrl, sitemapUrl);
+    console.log(`[GSC] Sitemap submitted for ${siteUrl}: ${sitemapUrl}`);
+
+    res.json({ success: true, siteUrl, sitemapUrl });
+  } catch (error: any) {
+    console.error('[GSC] Error submitting sitemap:', error.message);
+    next(error);
+  }
+});
+
 // ==================== GOOGLE ADS ====================
 
 /**
@@ -15,8 +15,10 @@ import {
   updateTemaByTenant,
 } from '../../services/componentesService.js';
 import { uploadImage } from '../../services/r2Service.js';
+import { agregarRenditions } from '../../services/imagenesRenditionsService.js';
 import { getPaginaCompleta } from '../../services/paginasService.js';
 import { resolveRoute } from '../../services/routeResolver.js';
+import { verificarTokenPreview } from '../../services/crm/paginasBorradoresService.js';
 
 // Tipos para params con mergeParams
 interface RouteParams { [key: string]: string | undefined;
@@ -48,7 +50,8 @@ const uploadImageMiddleware = multer({
 
 /**
  * POST /api/tenants/:tenantId/upload/image
- * Sube una imagen a R2
+ * Sube una imagen a R2. Las de propiedades, articulos y contenido (o con
+ * renditions=true) generan renditions (campo responsive en la respuesta)
  */
 router.post('/upload/image', uploadImageMiddleware.single('image'), async (req, res, next) => {
   try {
@@ -72,7 +75,7 @@ router.post('/upload/image', uploadImageMiddleware.single('image'), async (req,
       format: 'webp',
     });
 
-    res.json(result);
+    res.json(await agregarRenditions(tenantId, req.body, file.buffer, result));
   } catch (error) {
     next(error);
   }
@@ -348,7 +351,20 @@ router.get('/resolve', async (req, res, next) => {
       tenantUUID = tenant.id;
     }
 
-    const paginaCompleta = await resolveRoute(tenantUUID, normalizedPath);
+    // Preview de borradores: ?preview=<token> generado desde el CRM para este tenant
+    const preview = req.query.preview as string | undefined;
+    const esPreview = !!preview && verificarTokenPreview(preview) === tenantUUID;
+    if (preview && !esPreview) {
+      return res.status(403).json({
+        error: 'Preview no autorizado',
+        message: 'El token de preview es inválido o expiró',
+      });
+    }
+
+    // Visitante (cookie del sitio) para mantener la variante de los experimentos A/B
+    const visitanteId = (req.query.visitante as string) || req.get('x-visitante-id') || undefined;
+
+    const paginaCompleta = await resolveRoute(tenantUUID, normalizedPath, { borrador: esPreview, visitanteId });
 
     if (!paginaCompleta) {
       return res.status(404).json({
@@ -357,6 +373,9 @@ router.get('/resolve', async (req, res, next) => {
       });
     }
 
+    if (esPreview || paginaCompleta.experimento) {
+      res.setHeader('Cache-Control', 'no-store');
+    }
     res.json(paginaCompleta);
   } catch (error) {
     next(error);
@@ -8,6 +8,7 @@
 import express from 'express'
 import { query } from '../../utils/db.js';
 import { getTasasCambio, updateTasasCambio } from '../../services/tasasCambioService.js';
+import { getConfigRobots, normalizarConfigRobots } from '../../services/sitemapService.js';
 import { resolveUserScope } from '../../middleware/scopeResolver.js';
 
 // Tipos para params con mergeParams
@@ -354,4 +355,59 @@ router.put('/permisos-contenido', async (req, res, next) => {
   }
 });
 
+// ==================== ROBOTS.TXT ====================
+
+/**
+ * GET /api/tenants/:tenantId/configuracion/robots
+ * Obtiene la configuración del robots.txt del sitio web
+ */
+router.get('/robots', async (req, res, next) => {
+  try {
+    const { tenantId } = req.params as RouteParams;
+    const config = await getConfigRobots(tenantId);
+
+    if (!config) {
+      return res.status(404).json({ error: 'Tenant no encontrado' });
+    }
+
+    res.json(config);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * PUT /api/tenants/:tenantId/configuracion/robots
+ * Actualiza la configuración del robots.txt (bloquear_indexacion, disallow, allow, reglas_extra)
+ */
+router.put('/robots', async (req, res, next) => {
+  try {
+    const { tenantId } = req.params as RouteParams;
+
+    let config;
+    try {
+      config = normalizarConfigRobots(req.body);
+    } catch (error: any) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    const result = await query(
+      `UPDATE tenants SET
+        configuracion = jsonb_set(COALESCE(configuracion, '{}'::jsonb), '{robots}', $2::jsonb),
+        updated_at = NOW()
+       WHERE id = $1
+       RETURNING configuracion->'robots' as robots`,
+      [tenantId, JSON.stringify(config)]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Tenant no encontrado' });
+    }
+
+    res.json(result.rows[0].robots);
+  } catch (error) {
+    next(error);
+  }
+});
+
 export default router;
@@ -18,6 +18,8 @@ import {
   deleteRelacionContacto,
 } from '../../services/contactosService.js';
 import { getActividadesByContacto } from '../../services/actividadesService.js';
+import { getBusquedasContacto, desactivarBusqueda } from '../../services/busquedasGuardadasService.js';
+import { getHistorialMensajeriaContacto } from '../../services/contactosIdentidadesService.js';
 import { resolveUserScope, getOwnFilter, canEdit } from '../../middleware/scopeResolver.js';
 import { query } from '../../utils/db.js';
 
@@ -32,6 +34,7 @@ interface TenantParams {
   contactoId?: string;
   relacionId?: string;
   extensionId?: string;
+  busquedaId?: string;
 }
 
 /**
@@ -247,6 +250,66 @@ router.get('/:contactoId/actividades', async (req, res, next) => {
   }
 });
 
+/**
+ * GET /api/tenants/:tenantId/contactos/:contactoId/mensajeria
+ * Historial de mensajería del contacto en todos los canales (identidades,
+ * conversaciones y línea de tiempo de mensajes paginada)
+ */
+router.get('/:contactoId/mensajeria', async (req, res, next) => {
+  try {
+    const { tenantId, contactoId } = req.params as TenantParams;
+    const { page, limit } = req.query;
+
+    const contacto = await getContactoById(tenantId, contactoId);
+    if (!contacto) {
+      return res.status(404).json({ error: 'Contacto no encontrado' });
+    }
+
+    const historial = await getHistorialMensajeriaContacto(
+      tenantId,
+      contactoId,
+      page ? parseInt(page as string) : 1,
+      limit ? parseInt(limit as string) : 50
+    );
+    res.json(historial);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/tenants/:tenantId/contactos/:contactoId/busquedas-guardadas
+ * Obtiene las búsquedas guardadas del contacto en el sitio web (alertas de propiedades)
+ */
+router.get('/:contactoId/busquedas-guardadas', async (req, res, next) => {
+  try {
+    const { tenantId, contactoId } = req.params as TenantParams;
+    const busquedas = await getBusquedasContacto(tenantId, contactoId);
+    res.json(busquedas);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/tenants/:tenantId/contactos/:contactoId/busquedas-guardadas/:busquedaId
+ * Desactiva las alertas de una búsqueda guardada del contacto
+ */
+router.delete('/:contactoId/busquedas-guardadas/:busquedaId', async (req, res, next) => {
+  try {
+    const { tenantId, contactoId, busquedaId } = req.params as TenantParams;
+    const busqueda = await desactivarBusqueda(tenantId, contactoId, busquedaId);
+
+    if (!busqueda) {
+      return res.status(404).json({ error: 'Búsqueda guardada no encontrada' });
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    next(error);
+  }
+});
+
 /**
  * GET /api/tenants/:tenantId/contactos/:contactoId/extensiones
  * Obtiene las extensiones asignadas a un contacto específico
@@ -28,10 +28,26 @@ import {
   FAQPrompt,
   SeoStatPrompt
 } from '../../services/aiContentService.js';
+import { getRutasEntidad, getRutasCategoria, TipoEntidadWeb } from '../../services/sitemapService.js';
+import { registrarCambiosRuta, registrarCambiosRutaCategoria } from '../../services/redireccionesService.js';
+import { invalidarCacheRender } from '../../services/renderCacheService.js';
 
 const router = express.Router({ mergeParams: true });
 router.use(resolveUserScope);
 
+// Toda escritura exitosa de contenido purga las páginas cacheadas del tenant
+router.use((req, res, next) => {
+  if (req.method !== 'GET') {
+    const { tenantId } = req.params;
+    res.on('finish', () => {
+      if (res.statusCode < 400) {
+        invalidarCacheRender(tenantId, `contenido ${req.method} ${req.originalUrl}`);
+      }
+    });
+  }
+  next();
+});
+
 // Tipos para request con tenantId del parent router
 interface TenantParams { tenantId: string }
 interface ArticuloParams extends TenantParams { articuloId: string }
@@ -40,6 +56,23 @@ interface TestimonioParams extends TenantParams { testimonioId: string }
 interface FaqParams extends TenantParams { faqId: string }
 interface VideoParams extends TenantParams { videoId: string }
 
+/**
+ * Redirige las URLs anteriores de un contenido editado (slug o categoría).
+ * Un fallo aquí no debe hacer fallar la edición.
+ */
+async function redirigirRutasAnteriores(
+  tenantId: string,
+  tipo: TipoEntidadWeb,
+  entidadId: string,
+  rutasAnteriores: Record<string, string>
+): Promise<void> {
+  try {
+    await registrarCambiosRuta(tenantId, tipo, entidadId, rutasAnteriores);
+  } catch (error) {
+    console.error(`⚠️ Error registrando redirecciones de ${tipo} ${entidadId}:`, error);
+  }
+}
+
 // ==================== RUTAS: ARTÍCULOS ====================
 
 /**
@@ -200,6 +233,8 @@ router.put('/articulos/:articuloId', requirePermission('contenido', 'editar'), a
     const idioma = body.idioma;
     const traducciones = body.traducciones;
 
+    const rutasAnteriores = await getRutasEntidad(tenantId, 'articulo', articuloId);
+
     const sql = `
       UPDATE articulos SET
         slug = COALESCE($3, slug),
@@ -234,6 +269,7 @@ router.put('/articulos/:articuloId', requirePermission('contenido', 'editar'), a
     if (result.rows.length === 0) {
       return res.status(404).json({ error: 'Artículo no encontrado' });
     }
+    await redirigirRutasAnteriores(tenantId, 'articulo', articuloId, rutasAnteriores);
     res.json(result.rows[0]);
   } catch (error) {
     next(error);
@@ -444,6 +480,8 @@ router.put('/videos/:videoId', requirePermission('contenido', 'editar'), async (
     // Slug traducciones
     const slug_traducciones = body.slug_traducciones || body.slugTraducciones || null;
 
+    const rutasAnteriores = await getRutasEntidad(tenantId, 'video', videoId);
+
     const sql = `
       UPDATE videos SET
         slug = COALESCE($3, slug),
@@ -477,6 +515,7 @@ router.put('/videos/:videoId', requirePermission('contenido', 'editar'), async (
     if (result.rows.length === 0) {
       return res.status(404).json({ error: 'Video no encontrado' });
     }
+    await redirigirRutasAnteriores(tenantId, 'video', videoId, rutasAnteriores);
     res.json(result.rows[0]);
   } catch (error) {
     next(error);
@@ -769,6 +808,8 @@ router.put('/testimonios/:testimonioId', requirePermission('contenido', 'editar'
     // Helper para convertir string vacío a null (UUIDs no aceptan string vacío)
     const emptyToNull = (val: any) => (val === '' || val === undefined) ? null : val;
 
+    const rutasAnteriores = await getRutasEntidad(tenantId, 'testimonio', testimonioId);
+
     const sql = `
       UPDATE testimonios SET
         slug = COALESCE($3, slug),
@@ -820,6 +861,7 @@ router.put('/testimonios/:testimonioId', requirePermission('contenido', 'editar'
     if (result.rows.length === 0) {
       return res.status(404).json({ error: 'Testimonio no encontrado' });
     }
+    await redirigirRutasAnteriores(tenantId, 'testimonio', testimonioId, rutasAnteriores);
     res.json(result.rows[0]);
   } catch (error) {
     next(error);
@@ -919,6 +961,8 @@ router.put('/categorias/:categoriaId', requirePermission('contenido', 'editar'),
     const { tenantId, categoriaId } = req.params;
     const { nombre, slug, tipo, descripcion, color, icono, orden, traducciones, slug_traducciones } = req.body;
 
+    const rutasAnteriores = await getRutasCategoria(tenantId, categoriaId);
+
     const sql = `
       UPDATE categorias_contenido SET
         nombre = COALESCE($3, nombre),
@@ -942,6 +986,11 @@ router.put('/categorias/:categoriaId', requirePermission('contenido', 'editar'),
     if (result.rows.length === 0) {
       return res.status(404).json({ error: 'Categoría no encontrada' });
     }
+    try {
+      await registrarCambiosRutaCategoria(tenantId, categoriaId, rutasAnteriores);
+    } catch (redireccionError) {
+      console.error(`⚠️ Error registrando redirecciones de categoría ${categoriaId}:`, redireccionError);
+    }
     res.json(result.rows[0]);
   } catch (error) {
     next(error);
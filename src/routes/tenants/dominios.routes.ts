@@ -0,0 +1,151 @@
+/**
+ * MÓDULO DE DOMINIOS - Rutas CRUD
+ *
+ * Dominios personalizados del sitio web del tenant: principal, alias y por idioma.
+ * Cada dominio se verifica con un registro TXT antes de servir el sitio.
+ * Está aislado para que errores aquí NO afecten otros módulos.
+ */
+
+import express from 'express'
+import {
+  listarDominios,
+  getDominio,
+  validarDominioNuevo,
+  getTenantDelDominio,
+  crearDominio,
+  convertirEnPrincipal,
+  eliminarDominio,
+  verificarDominio,
+  revisarCertificado,
+  normalizarDominio,
+  getInstruccionesVerificacion,
+  TipoDominio,
+} from '../../services/dominiosService.js';
+import { resolveUserScope, requirePermission } from '../../middleware/scopeResolver.js';
+
+// Tipos para params con mergeParams
+interface RouteParams { [key: string]: string | undefined;
+  tenantId: string;
+  dominioId?: string;
+}
+
+const router = express.Router({ mergeParams: true });
+router.use(resolveUserScope);
+
+/**
+ * GET /api/tenants/:tenantId/dominios
+ * Lista los dominios del tenant con las instrucciones de verificación
+ */
+router.get('/', async (req, res, next) => {
+  try {
+    const { tenantId } = req.params as RouteParams;
+
+    const dominios = await listarDominios(tenantId);
+    res.json(dominios.map((d) => ({ ...d, verificacion: getInstruccionesVerificacion(d) })));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/tenants/:tenantId/dominios
+ * Agrega un dominio pendiente de verificación (el primero del tenant es el principal)
+ * Body: { dominio, tipo?: 'alias' | 'idioma', idioma? }
+ */
+router.post('/', requirePermission('configuracion', 'crear'), async (req, res, next) => {
+  try {
+    const { tenantId } = req.params as RouteParams;
+    const { tipo, idioma } = req.body;
+    const dominio = normalizarDominio(req.body.dominio);
+
+    const error = await validarDominioNuevo(tenantId, { dominio, tipo, idioma });
+    if (error) {
+      return res.status(400).json({ error });
+    }
+
+    const tenantExistente = await getTenantDelDominio(dominio!, tenantId);
+    if (tenantExistente) {
+      return res.status(409).json({
+        error: tenantExistente === tenantId
+          ? `El dominio ${dominio} ya está agregado`
+          : `El dominio ${dominio} ya está en uso`,
+      });
+    }
+
+    const creado = await crearDominio(tenantId, { dominio: dominio!, tipo: tipo as TipoDominio | undefined, idioma });
+    res.status(201).json({ ...creado, verificacion: getInstruccionesVerificacion(creado) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/tenants/:tenantId/dominios/:dominioId/verificar
+ * Consulta el registro TXT ahora (también reintenta un dominio fallido)
+ */
+router.post('/:dominioId/verificar', requirePermission('configuracion', 'editar'), async (req, res, next) => {
+  try {
+    const { tenantId, dominioId } = req.params as RouteParams;
+
+    const dominio = await getDominio(tenantId, dominioId!);
+    if (!dominio) {
+      return res.status(404).json({ error: 'Dominio no encontrado' });
+    }
+
+    let actualizado = dominio.estado === 'verificado' ? dominio : await verificarDominio(dominio);
+    if (actualizado.estado === 'verificado') {
+      actualizado = await revisarCertificado(actualizado);
+    }
+
+    res.json({ ...actualizado, verificacion: getInstruccionesVerificacion(actualizado) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/tenants/:tenantId/dominios/:dominioId/principal
+ * Hace principal a un dominio verificado; el principal anterior pasa a alias y redirige
+ */
+router.post('/:dominioId/principal', requirePermission('configuracion', 'editar'), async (req, res, next) => {
+  try {
+    const { tenantId, dominioId } = req.params as RouteParams;
+
+    const dominio = await getDominio(tenantId, dominioId!);
+    if (!dominio) {
+      return res.status(404).json({ error: 'Dominio no encontrado' });
+    }
+    if (dominio.estado !== 'verificado') {
+      return res.status(409).json({ error: 'Solo un dominio verificado puede ser el principal' });
+    }
+    if (dominio.tipo === 'principal') {
+      return res.json(dominio);
+    }
+
+    const actualizado = await convertirEnPrincipal(tenantId, dominio);
+    res.json(actualizado);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/tenants/:tenantId/dominios/:dominioId
+ */
+router.delete('/:dominioId', requirePermission('configuracion', 'eliminar'), async (req, res, next) => {
+  try {
+    const { tenantId, dominioId } = req.params as RouteParams;
+
+    const dominio = await getDominio(tenantId, dominioId!);
+    if (!dominio) {
+      return res.status(404).json({ error: 'Dominio no encontrado' });
+    }
+
+    await eliminarDominio(tenantId, dominio);
+    res.json({ success: true, message: 'Dominio eliminado' });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,264 @@
+/**
+ * MÓDULO DE EXPERIMENTOS A/B - Rutas CRUD
+ *
+ * Experimentos que reparten el tráfico de un tipo de página entre la versión
+ * publicada (control) y variantes copiadas del borrador o de una revisión.
+ * Incluye resultados con significancia y promoción de la variante ganadora.
+ * Está aislado para que errores aquí NO afecten otros módulos.
+ */
+
+import express from 'express'
+import {
+  listarExperimentos,
+  getExperimento,
+  crearExperimento,
+  actualizarExperimento,
+  eliminarExperimento,
+  getExperimentoActivoPagina,
+  cambiarEstadoExperimento,
+  finalizarExperimento,
+  getResultadosExperimento,
+  getComponentesControl,
+  validarExperimento,
+  TIPOS_CONVERSION,
+  TipoConversion,
+  EstadoExperimento,
+} from '../../services/experimentosPaginasService.js';
+import { calcularCambios } from '../../services/crm/paginasBorradoresService.js';
+import { resolveUserScope, requirePermission } from '../../middleware/scopeResolver.js';
+
+// Tipos para params con mergeParams
+interface RouteParams { [key: string]: string | undefined;
+  tenantId: string;
+  experimentoId?: string;
+}
+
+const router = express.Router({ mergeParams: true });
+router.use(resolveUserScope);
+
+/**
+ * GET /api/tenants/:tenantId/experimentos
+ * Lista experimentos con filtros (estado, tipo_pagina_id)
+ */
+router.get('/', async (req, res, next) => {
+  try {
+    const { tenantId } = req.params as RouteParams;
+    const { estado, tipo_pagina_id } = req.query;
+
+    const experimentos = await listarExperimentos(tenantId, {
+      estado: estado as EstadoExperimento | undefined,
+      tipo_pagina_id: tipo_pagina_id as string | undefined,
+    });
+    res.json(experimentos);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/tenants/:tenantId/experimentos/:experimentoId
+ * Experimento con resultados por variante y cambios de cada variante respecto a control.
+ * Query: tipo (formulario, whatsapp, propuesta) para ver otra conversión que el objetivo
+ */
+router.get('/:experimentoId', async (req, res, next) => {
+  try {
+    const { tenantId, experimentoId } = req.params as RouteParams;
+    const { tipo } = req.query;
+
+    if (tipo && !TIPOS_CONVERSION.includes(tipo as TipoConversion)) {
+      return res.status(400).json({ error: `tipo debe ser uno de: ${TIPOS_CONVERSION.join(', ')}` });
+    }
+
+    const experimento = await getExperimento(tenantId, experimentoId!);
+    if (!experimento) {
+      return res.status(404).json({ error: 'Experimento no encontrado' });
+    }
+
+    const [resultados, control] = await Promise.all([
+      getResultadosExperimento(experimento, tipo as TipoConversion | undefined),
+      getComponentesControl(tenantId, experimento),
+    ]);
+
+    res.json({
+      ...experimento,
+      variantes: experimento.variantes.map(v => ({
+        ...v,
+        cambios: v.componentes ? calcularCambios(control, v.componentes) : null,
+      })),
+      resultados,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/tenants/:tenantId/experimentos
+ * Crea un experimento en estado borrador.
+ * Body: { tipo_pagina_id, nombre, descripcion?, objetivo?, peso_control?,
+ *         variantes: [{ nombre, peso?, origen: 'borrador' | 'revision', revision_id? }] }
+ */
+router.post('/', requirePermission('contenido', 'crear'), async (req, res, next) => {
+  try {
+    const { tenantId } = req.params as RouteParams;
+    const { tipo_pagina_id, nombre, descripcion, objetivo, peso_control, variantes } = req.body;
+
+    if (!tipo_pagina_id) {
+      return res.status(400).json({ error: 'tipo_pagina_id es requerido' });
+    }
+
+    const error = validarExperimento({ nombre, objetivo, peso_control, variantes });
+    if (error) {
+      return res.status(400).json({ error });
+    }
+
+    try {
+      const experimento = await crearExperimento(
+        tenantId,
+        { tipo_pagina_id, nombre, descripcion, objetivo, peso_control, variantes },
+        req.scope?.dbUserId
+      );
+      res.status(201).json(experimento);
+    } catch (creacionError: any) {
+      // Borrador o revisión de origen inexistente
+      return res.status(400).json({ error: creacionError.message });
+    }
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * PUT /api/tenants/:tenantId/experimentos/:experimentoId
+ * Body: { nombre?, descripcion?, objetivo?, pesos?: { [clave]: peso } }
+ */
+router.put('/:experimentoId', requirePermission('contenido', 'editar'), async (req, res, next) => {
+  try {
+    const { tenantId, experimentoId } = req.params as RouteParams;
+    const { nombre, descripcion, objetivo, pesos } = req.body;
+
+    const experimento = await getExperimento(tenantId, experimentoId!);
+    if (!experimento) {
+      return res.status(404).json({ error: 'Experimento no encontrado' });
+    }
+    if (experimento.estado === 'finalizado') {
+      return res.status(409).json({ error: 'El experimento ya finalizó' });
+    }
+    if (objetivo && !TIPOS_CONVERSION.includes(objetivo)) {
+      return res.status(400).json({ error: `objetivo debe ser uno de: ${TIPOS_CONVERSION.join(', ')}` });
+    }
+    if (pesos && Object.values(pesos).some((peso: any) => !(Number(peso) > 0))) {
+      return res.status(400).json({ error: 'Los pesos deben ser mayores a 0' });
+    }
+
+    const actualizado = await actualizarExperimento(tenantId, experimento, { nombre, descripcion, objetivo, pesos });
+    res.json(actualizado);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/tenants/:tenantId/experimentos/:experimentoId/iniciar
+ * Activa (o reanuda) el experimento. Solo uno activo por tipo de página.
+ */
+router.post('/:experimentoId/iniciar', requirePermission('contenido', 'editar'), async (req, res, next) => {
+  try {
+    const { tenantId, experimentoId } = req.params as RouteParams;
+
+    const experimento = await getExperimento(tenantId, experimentoId!);
+    if (!experimento) {
+      return res.status(404).json({ error: 'Experimento no encontrado' });
+    }
+    if (experimento.estado === 'finalizado') {
+      return res.status(409).json({ error: 'El experimento ya finalizó' });
+    }
+
+    const activo = await getExperimentoActivoPagina(tenantId, experimento.tipo_pagina_id);
+    if (activo && activo.id !== experimento.id) {
+      return res.status(409).json({
+        error: `Ya hay un experimento activo en esta página: "${activo.nombre}"`,
+      });
+    }
+
+    const actualizado = await cambiarEstadoExperimento(tenantId, experimento.id, 'activo');
+    res.json(actualizado);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/tenants/:tenantId/experimentos/:experimentoId/pausar
+ * Mientras está pausado todos los visitantes ven la versión publicada
+ */
+router.post('/:experimentoId/pausar', requirePermission('contenido', 'editar'), async (req, res, next) => {
+  try {
+    const { tenantId, experimentoId } = req.params as RouteParams;
+
+    const experimento = await getExperimento(tenantId, experimentoId!);
+    if (!experimento) {
+      return res.status(404).json({ error: 'Experimento no encontrado' });
+    }
+    if (experimento.estado !== 'activo') {
+      return res.status(409).json({ error: 'Solo se puede pausar un experimento activo' });
+    }
+
+    const actualizado = await cambiarEstadoExperimento(tenantId, experimento.id, 'pausado');
+    res.json(actualizado);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/tenants/:tenantId/experimentos/:experimentoId/finalizar
+ * Body: { ganadora?: clave } — si es una variante distinta de control se publica en la página
+ */
+router.post('/:experimentoId/finalizar', requirePermission('contenido', 'editar'), async (req, res, next) => {
+  try {
+    const { tenantId, experimentoId } = req.params as RouteParams;
+    const { ganadora } = req.body;
+
+    const experimento = await getExperimento(tenantId, experimentoId!);
+    if (!experimento) {
+      return res.status(404).json({ error: 'Experimento no encontrado' });
+    }
+    if (experimento.estado === 'finalizado') {
+      return res.status(409).json({ error: 'El experimento ya finalizó' });
+    }
+    if (ganadora && !experimento.variantes.some(v => v.clave === ganadora)) {
+      return res.status(400).json({ error: `Variante "${ganadora}" no existe en el experimento` });
+    }
+
+    const resultado = await finalizarExperimento(tenantId, experimento, ganadora || null, req.scope?.dbUserId);
+    res.json(resultado);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/tenants/:tenantId/experimentos/:experimentoId
+ * Elimina un experimento que no esté activo (con sus asignaciones y conversiones)
+ */
+router.delete('/:experimentoId', requirePermission('contenido', 'eliminar'), async (req, res, next) => {
+  try {
+    const { tenantId, experimentoId } = req.params as RouteParams;
+
+    const experimento = await getExperimento(tenantId, experimentoId!);
+    if (!experimento) {
+      return res.status(404).json({ error: 'Experimento no encontrado' });
+    }
+    if (experimento.estado === 'activo') {
+      return res.status(409).json({ error: 'Pausa o finaliza el experimento antes de eliminarlo' });
+    }
+
+    await eliminarExperimento(tenantId, experimento.id);
+    res.json({ success: true, message: 'Experimento eliminado' });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
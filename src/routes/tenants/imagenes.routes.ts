@@ -0,0 +1,84 @@
+/**
+ * MÓDULO DE IMÁGENES - Renditions responsive
+ *
+ * Manifiesto de renditions de una imagen (dimensiones, blurhash, punto focal) y
+ * edición del punto focal / marca de agua, que regenera las renditions.
+ * Está aislado para que errores aquí NO afecten otros módulos.
+ */
+
+import express from 'express'
+import {
+  getManifiesto,
+  generarRenditions,
+  toImagenResponsive,
+} from '../../services/imagenesRenditionsService.js';
+import { resolveUserScope } from '../../middleware/scopeResolver.js';
+
+// Tipos para params con mergeParams
+interface RouteParams { [key: string]: string | undefined;
+  tenantId: string;
+}
+
+const router = express.Router({ mergeParams: true });
+router.use(resolveUserScope);
+
+/**
+ * GET /api/tenants/:tenantId/imagenes/manifiesto?url=
+ * Manifiesto de la imagen y sus datos para srcset
+ */
+router.get('/manifiesto', async (req, res, next) => {
+  try {
+    const { tenantId } = req.params as RouteParams;
+    const url = req.query.url as string | undefined;
+
+    if (!url) {
+      return res.status(400).json({ error: 'url es requerido' });
+    }
+
+    const manifiesto = await getManifiesto(tenantId, url);
+    if (!manifiesto) {
+      return res.status(404).json({ error: 'La imagen no tiene renditions' });
+    }
+
+    res.json({ ...manifiesto, responsive: toImagenResponsive(url, manifiesto.estado === 'listo' ? manifiesto : null) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * PUT /api/tenants/:tenantId/imagenes/foco
+ * Cambia el punto focal (y opcionalmente la marca de agua) y regenera las renditions
+ * Body: { url, x, y, marca_agua? } con x, y entre 0 y 1
+ */
+router.put('/foco', async (req, res, next) => {
+  try {
+    const { tenantId } = req.params as RouteParams;
+    const { url, x, y, marca_agua } = req.body;
+
+    if (!url) {
+      return res.status(400).json({ error: 'url es requerido' });
+    }
+    for (const valor of [x, y]) {
+      if (typeof valor !== 'number' || valor < 0 || valor > 1) {
+        return res.status(400).json({ error: 'x e y deben ser números entre 0 y 1' });
+      }
+    }
+
+    // Solo imágenes ya registradas (subidas o del backfill), no URLs arbitrarias
+    if (!(await getManifiesto(tenantId, url))) {
+      return res.status(404).json({ error: 'La imagen no tiene renditions' });
+    }
+
+    const manifiesto = await generarRenditions(tenantId, { url }, {
+      foco: { x, y },
+      marcaAgua: typeof marca_agua === 'boolean' ? marca_agua : undefined,
+    });
+
+    res.json({ ...manifiesto, responsive: toImagenResponsive(url, manifiesto) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -35,6 +35,12 @@ import productividadRouter from './productividad.routes.js';
 // Importar sub-routers modulares - Contenido y Páginas
 import contenidoRouter from './contenido.routes.js';
 import paginasRouter from './paginas.routes.js';
+import redireccionesRouter from './redirecciones.routes.js';
+import experimentosRouter from './experimentos.routes.js';
+import analyticsWebRouter from './analytics-web.routes.js';
+import dominiosRouter from './dominios.routes.js';
+import sitioWebRouter from './sitio-web.routes.js';
+import imagenesRouter from './imagenes.routes.js';
 import uploadRouter from './upload.routes.js';
 
 // Importar sub-routers modulares - Organización
@@ -71,6 +77,8 @@ import mensajeriaRouter from './mensajeria.routes.js';
 import mensajeriaEmailRouter from './mensajeria-email.routes.js';
 import mensajeriaWhatsappRouter from './mensajeria-whatsapp.routes.js';
 import mensajeriaWebchatRouter from './mensajeria-webchat.routes.js';
+import mensajeriaRuteoRouter from './mensajeria-ruteo.routes.js';
+import mensajeriaHorariosRouter from './mensajeria-horarios.routes.js';
 
 // Importar sub-routers modulares - Documentos
 import bibliotecaRouter from './biblioteca.routes.js';
@@ -109,6 +117,24 @@ router.use('/:tenantId/contenido', contenidoRouter);
 // Páginas Module
 router.use('/:tenantId/paginas', paginasRouter);
 
+// Redirecciones Module (301/302 del sitio web: slugs cambiados y reglas manuales)
+router.use('/:tenantId/redirecciones', redireccionesRouter);
+
+// Experimentos A/B Module (variantes de páginas, conversiones y ganador)
+router.use('/:tenantId/experimentos', experimentosRouter);
+
+// Analítica Web Module (vistas, búsquedas, referidores y conversión por fuente)
+router.use('/:tenantId/analytics-web', analyticsWebRouter);
+
+// Dominios Module (dominios personalizados, verificación TXT y certificados)
+router.use('/:tenantId/dominios', dominiosRouter);
+
+// Sitio Web Module (exportar/importar la definición del sitio como bundle)
+router.use('/:tenantId/sitio-web', sitioWebRouter);
+
+// Imágenes Module (renditions responsive, punto focal y marca de agua)
+router.use('/:tenantId/imagenes', imagenesRouter);
+
 // Upload Module
 router.use('/:tenantId/upload', uploadRouter);
 
@@ -175,6 +201,12 @@ router.use('/:tenantId/mensajeria-whatsapp', mensajeriaWhatsappRouter);
 // Mensajería Web Chat Module (config, agents, availability, visitor messages)
 router.use('/:tenantId/mensajeria-webchat', mensajeriaWebchatRouter);
 
+// Mensajería Ruteo Module (routing rules, SLA targets, response-time metrics)
+router.use('/:tenantId/mensajeria-ruteo', mensajeriaRuteoRouter);
+
+// Mensajería Horarios Module (business hours, away/greeting auto-replies)
+router.use('/:tenantId/mensajeria-horarios', mensajeriaHorariosRouter);
+
 // Biblioteca Module (documentos compartidos, categorías, versiones, confirmaciones)
 router.use('/:tenantId/biblioteca', bibliotecaRouter);
 
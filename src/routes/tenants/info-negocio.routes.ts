@@ -7,6 +7,7 @@
 
 import express, { Request, Response, NextFunction } from 'express';
 import { query } from '../../utils/db.js';
+import { invalidarCacheRender } from '../../services/renderCacheService.js';
 
 const router = express.Router({ mergeParams: true });
 
@@ -138,6 +139,9 @@ router.patch('/', async (req: Request<TenantParams>, res: Response, next: NextFu
       updated_at: tenant.updated_at,
     };
 
+    // Nombre, logo y contacto salen en los metadatos SEO de las páginas
+    await invalidarCacheRender(tenantId, 'info del negocio actualizada');
+
     res.json({ infoNegocio: response });
   } catch (error) {
     next(error);
@@ -176,6 +180,9 @@ router.put('/', async (req: Request<TenantParams>, res: Response, next: NextFunc
       updated_at: tenant.updated_at,
     };
 
+    // Nombre, logo y contacto salen en los metadatos SEO de las páginas
+    await invalidarCacheRender(tenantId, 'info del negocio actualizada');
+
     res.json({ infoNegocio: response });
   } catch (error) {
     next(error);
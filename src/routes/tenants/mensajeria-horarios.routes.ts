@@ -0,0 +1,80 @@
+/**
+ * MÓDULO DE MENSAJERÍA HORARIOS - Rutas REST
+ *
+ * Tenant business hours (weekly schedule, holidays, time zone) and the
+ * automatic away/greeting replies sent on WhatsApp, Messenger, Instagram and web chat.
+ *
+ * Endpoints:
+ *   Config: GET /, PUT /
+ *   Estado: GET /estado (open/closed right now, next opening)
+ */
+
+import express, { Request, Response, NextFunction } from 'express';
+import { resolveUserScope, requirePermission } from '../../middleware/scopeResolver.js';
+import * as horariosService from '../../services/mensajeriaHorariosService.js';
+
+const router = express.Router({ mergeParams: true });
+router.use(resolveUserScope);
+
+interface TenantParams { tenantId: string }
+
+// ==================== CONFIG ====================
+
+/**
+ * GET /api/tenants/:tenantId/mensajeria-horarios
+ * Business hours and auto-reply config (defaults if never configured).
+ */
+router.get('/', requirePermission('mensajeria', 'ver'), async (req: Request<TenantParams>, res: Response, next: NextFunction) => {
+  try {
+    const { tenantId } = req.params;
+    const horario = await horariosService.getHorarioAtencion(tenantId);
+    res.json(horario);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * PUT /api/tenants/:tenantId/mensajeria-horarios
+ * Body: { activo?, zona_horaria?, horario_semanal?, feriados?,
+ *         ausencia_activa?, mensaje_ausencia?, saludo_activo?, mensaje_saludo?,
+ *         canales_auto_respuesta?, ventana_auto_respuesta_horas? }
+ * Reply texts accept {nombre} and {proxima_apertura}.
+ */
+router.put('/', requirePermission('mensajeria', 'editar'), async (req: Request<TenantParams>, res: Response, next: NextFunction) => {
+  try {
+    const { tenantId } = req.params;
+    const {
+      activo, zona_horaria, horario_semanal, feriados,
+      ausencia_activa, mensaje_ausencia, saludo_activo, mensaje_saludo,
+      canales_auto_respuesta, ventana_auto_respuesta_horas,
+    } = req.body;
+
+    const horario = await horariosService.updateHorarioAtencion(tenantId, {
+      activo, zona_horaria, horario_semanal, feriados,
+      ausencia_activa, mensaje_ausencia, saludo_activo, mensaje_saludo,
+      canales_auto_respuesta, ventana_auto_respuesta_horas,
+    });
+    res.json(horario);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// ==================== ESTADO ====================
+
+/**
+ * GET /api/tenants/:tenantId/mensajeria-horarios/estado
+ * Whether the tenant is within business hours right now.
+ */
+router.get('/estado', requirePermission('mensajeria', 'ver'), async (req: Request<TenantParams>, res: Response, next: NextFunction) => {
+  try {
+    const { tenantId } = req.params;
+    const estado = await horariosService.getEstadoHorario(tenantId);
+    res.json(estado);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
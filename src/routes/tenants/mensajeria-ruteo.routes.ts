@@ -0,0 +1,160 @@
+/**
+ * MÓDULO DE MENSAJERÍA RUTEO - Rutas REST
+ *
+ * Routing rules, SLA targets and response-time metrics for the unified inbox.
+ *
+ * Endpoints:
+ *   Reglas:   GET /reglas, POST /reglas, PUT /reglas/:reglaId, DELETE /reglas/:reglaId
+ *   Ruteo:    POST /conversaciones/:conversacionId/rutear (re-run rules)
+ *   SLA:      GET /sla, PUT /sla
+ *   Métricas: GET /metricas
+ */
+
+import express, { Request, Response, NextFunction } from 'express';
+import { resolveUserScope, requirePermission } from '../../middleware/scopeResolver.js';
+import * as ruteoService from '../../services/mensajeriaRuteoService.js';
+import * as slaService from '../../services/mensajeriaSlaService.js';
+
+const router = express.Router({ mergeParams: true });
+router.use(resolveUserScope);
+
+interface TenantParams { tenantId: string }
+interface ReglaParams extends TenantParams { reglaId: string }
+interface ConversacionParams extends TenantParams { conversacionId: string }
+
+// ==================== REGLAS ====================
+
+/**
+ * GET /api/tenants/:tenantId/mensajeria-ruteo/reglas
+ * List routing rules in evaluation order.
+ */
+router.get('/reglas', requirePermission('mensajeria', 'ver'), async (req: Request<TenantParams>, res: Response, next: NextFunction) => {
+  try {
+    const { tenantId } = req.params;
+    const reglas = await ruteoService.getReglas(tenantId);
+    res.json(reglas);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/tenants/:tenantId/mensajeria-ruteo/reglas
+ * Body: { nombre, prioridad?, activo?, condiciones, destino_tipo, destino_id? }
+ */
+router.post('/reglas', requirePermission('mensajeria', 'editar'), async (req: Request<TenantParams>, res: Response, next: NextFunction) => {
+  try {
+    const { tenantId } = req.params;
+    const regla = await ruteoService.createRegla(tenantId, req.body);
+    res.status(201).json(regla);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * PUT /api/tenants/:tenantId/mensajeria-ruteo/reglas/:reglaId
+ */
+router.put('/reglas/:reglaId', requirePermission('mensajeria', 'editar'), async (req: Request<ReglaParams>, res: Response, next: NextFunction) => {
+  try {
+    const { tenantId, reglaId } = req.params;
+    const regla = await ruteoService.updateRegla(tenantId, reglaId, req.body);
+    if (!regla) {
+      return res.status(404).json({ error: 'Regla no encontrada' });
+    }
+    res.json(regla);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/tenants/:tenantId/mensajeria-ruteo/reglas/:reglaId
+ */
+router.delete('/reglas/:reglaId', requirePermission('mensajeria', 'editar'), async (req: Request<ReglaParams>, res: Response, next: NextFunction) => {
+  try {
+    const { tenantId, reglaId } = req.params;
+    const deleted = await ruteoService.deleteRegla(tenantId, reglaId);
+    if (!deleted) {
+      return res.status(404).json({ error: 'Regla no encontrada' });
+    }
+    res.json({ ok: true });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/tenants/:tenantId/mensajeria-ruteo/conversaciones/:conversacionId/rutear
+ * Re-run the rules on a conversation using its last inbound message.
+ * Body: { forzar? } — forzar=true also re-routes already assigned conversations.
+ */
+router.post('/conversaciones/:conversacionId/rutear', requirePermission('mensajeria', 'editar'), async (req: Request<ConversacionParams>, res: Response, next: NextFunction) => {
+  try {
+    const { tenantId, conversacionId } = req.params;
+    const result = await ruteoService.reRutearConversacion(tenantId, conversacionId, req.body?.forzar === true);
+    if (!result) {
+      return res.status(404).json({ error: 'Conversación no encontrada' });
+    }
+    res.json(result);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// ==================== SLA ====================
+
+/**
+ * GET /api/tenants/:tenantId/mensajeria-ruteo/sla
+ * SLA targets (defaults if never configured).
+ */
+router.get('/sla', requirePermission('mensajeria', 'ver'), async (req: Request<TenantParams>, res: Response, next: NextFunction) => {
+  try {
+    const { tenantId } = req.params;
+    const config = await slaService.getSlaConfig(tenantId);
+    res.json(config);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * PUT /api/tenants/:tenantId/mensajeria-ruteo/sla
+ * Body: { activo?, primera_respuesta_min?, resolucion_min?, objetivos_por_canal?,
+ *         accion_escalamiento?, escalar_a_usuario_id? }
+ */
+router.put('/sla', requirePermission('mensajeria', 'editar'), async (req: Request<TenantParams>, res: Response, next: NextFunction) => {
+  try {
+    const { tenantId } = req.params;
+    const config = await slaService.updateSlaConfig(tenantId, req.body);
+    res.json(config);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// ==================== MÉTRICAS ====================
+
+/**
+ * GET /api/tenants/:tenantId/mensajeria-ruteo/metricas
+ * First-response, response and resolution times per agent and per channel.
+ * Query params: desde, hasta (ISO dates; default last 30 days), canal, usuario_id
+ */
+router.get('/metricas', requirePermission('mensajeria', 'ver'), async (req: Request<TenantParams>, res: Response, next: NextFunction) => {
+  try {
+    const { tenantId } = req.params;
+    const { desde, hasta, canal, usuario_id } = req.query;
+
+    const metricas = await slaService.getMetricasRespuesta(tenantId, {
+      desde: desde as string | undefined,
+      hasta: hasta as string | undefined,
+      canal: canal as any,
+      usuario_id: usuario_id as string | undefined,
+    });
+    res.json(metricas);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -14,6 +14,13 @@ import express, { Request, Response, NextFunction } from 'express';
 import { resolveUserScope } from '../../middleware/scopeResolver.js';
 import * as webchatService from '../../services/webchatService.js';
 import * as mensajeriaService from '../../services/mensajeriaService.js';
+import { vincularConversacionEntrante } from '../../services/contactosIdentidadesService.js';
+import { rutearConversacion } from '../../services/mensajeriaRuteoService.js';
+import {
+  procesarRespuestaAutomatica,
+  validarHorarioSemanal,
+  HorarioAtencionInvalidoError,
+} from '../../services/mensajeriaHorariosService.js';
 
 const router = express.Router({ mergeParams: true });
 router.use(resolveUserScope);
@@ -49,6 +56,14 @@ router.put('/config', async (req: Request<TenantParams>, res: Response, next: Ne
       widget_subtitle, business_hours,
     } = req.body;
 
+    if (business_hours) {
+      const errores: string[] = [];
+      validarHorarioSemanal(business_hours, 'business_hours', errores);
+      if (errores.length > 0) {
+        throw new HorarioAtencionInvalidoError(errores);
+      }
+    }
+
     const updated = await webchatService.updateConfig(tenantId, {
       enabled, widget_color, greeting_text, position,
       distribution_mode, offline_message, widget_title,
@@ -162,20 +177,20 @@ router.put('/agents/:usuarioId/availability', async (req: Request<TenantParams &
  * POST /api/tenants/:tenantId/mensajeria-webchat/visitor-message
  * Create a message from a web chat visitor.
  * Called by the WebSocket server when a visitor sends a message.
- * Body: { session_id, visitor_name, contenido }
+ * Body: { session_id, visitor_name, visitor_email?, visitor_phone?, contenido }
+ * The email/phone the visitor typed is unverified: it creates a new lead, or, when it
+ * matches an existing contact, only suggests the link (metadata.contacto_sugerido_id).
+ * Outside business hours the response includes the away reply for the widget to show.
  */
 router.post('/visitor-message', async (req: Request<TenantParams>, res: Response, next: NextFunction) => {
   try {
     const { tenantId } = req.params;
-    const { session_id, visitor_name, contenido } = req.body;
+    const { session_id, visitor_name, visitor_email, visitor_phone, contenido } = req.body;
 
     if (!session_id || !contenido) {
       return res.status(400).json({ error: 'session_id y contenido son requeridos' });
     }
 
-    // Select agent if not yet assigned
-    const agentId = await webchatService.selectAgent(tenantId);
-
     // Find or create conversation
     const conversacion = await mensajeriaService.findOrCreateConversacion(
       tenantId,
@@ -184,14 +199,32 @@ router.post('/visitor-message', async (req: Request<TenantParams>, res: Response
       {
         external_participant_id: session_id,
         contacto_nombre: visitor_name || 'Visitante',
-        usuario_asignado_id: agentId || undefined,
         metadata: { source: 'webchat_widget' },
       }
     );
 
-    // If we assigned a new agent, increment their chat count
-    if (agentId && conversacion.usuario_asignado_id === agentId) {
-      await webchatService.adjustChatCount(tenantId, agentId, 1);
+    // Link to a CRM contact by session (anonymous sessions stay unlinked)
+    const contactoId = await vincularConversacionEntrante(tenantId, conversacion, {
+      canal: 'web_chat',
+      externalId: session_id,
+      nombre: visitor_name || undefined,
+      email: visitor_email || null,
+      telefono: visitor_phone || null,
+      usuarioAsignadoId: conversacion.usuario_asignado_id,
+    });
+
+    // Assign if not yet assigned: routing rules first, then the widget's distribution mode
+    if (!conversacion.usuario_asignado_id) {
+      let agentId = await rutearConversacion(tenantId, { ...conversacion, contacto_id: contactoId }, { texto: contenido });
+      if (!agentId) {
+        agentId = await webchatService.selectAgent(tenantId);
+        if (agentId) {
+          await mensajeriaService.assignConversacion(tenantId, conversacion.id, agentId);
+        }
+      }
+      if (agentId) {
+        await webchatService.adjustChatCount(tenantId, agentId, 1);
+      }
     }
 
     // Create the message
@@ -206,7 +239,19 @@ router.post('/visitor-message', async (req: Request<TenantParams>, res: Response
       metadata: { session_id },
     });
 
-    res.status(201).json({ conversacion_id: conversacion.id, mensaje_id: mensaje.id });
+    // Away reply (widget schedule / offline_message override the tenant calendar)
+    const config = await webchatService.getConfig(tenantId);
+    const respuestaAutomatica = await procesarRespuestaAutomatica(tenantId, { ...conversacion, contacto_id: contactoId }, {
+      canal: 'web_chat',
+      horarioSemanal: config.business_hours,
+      mensajeAusencia: config.offline_message,
+    });
+
+    res.status(201).json({
+      conversacion_id: conversacion.id,
+      mensaje_id: mensaje.id,
+      respuesta_automatica: respuestaAutomatica,
+    });
   } catch (error) {
     next(error);
   }
@@ -235,13 +280,13 @@ router.get('/visitor-messages/:sessionId', async (req: Request<TenantParams & {
 
 /**
  * GET /api/tenants/:tenantId/mensajeria-webchat/availability
- * Check if any agents are available (used by widget).
+ * Check business hours and agent availability (used by widget).
  */
 router.get('/availability', async (req: Request<TenantParams>, res: Response, next: NextFunction) => {
   try {
     const { tenantId } = req.params;
-    const available = await webchatService.hasAvailableAgents(tenantId);
-    res.json({ available });
+    const availability = await webchatService.getAvailability(tenantId);
+    res.json(availability);
   } catch (error) {
     next(error);
   }
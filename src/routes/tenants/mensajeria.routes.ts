@@ -5,14 +5,17 @@
  * Per-user scoped: each user sees their own assigned conversations.
  *
  * Endpoints:
- *   Conversaciones: GET list, GET :id, PUT :id, POST :id/read, POST :id/assign
+ *   Conversaciones: GET list, GET :id, PUT :id, POST :id/read, POST :id/assign, POST :id/contacto
  *   Mensajes:       GET :conversacionId/mensajes, POST :conversacionId/mensajes
  *   Etiquetas:      CRUD /etiquetas
  *   Firmas:         CRUD /firmas
+ *   Respuestas rápidas: CRUD /respuestas-rapidas, GET /respuestas-rapidas/selector,
+ *                   GET /respuestas-rapidas/variables, POST /respuestas-rapidas/:id/previsualizar
+ *   Tiempo real:    GET /stream (Server-Sent Events)
  */
 
 import express, { Request, Response, NextFunction } from 'express';
-import { resolveUserScope } from '../../middleware/scopeResolver.js';
+import { resolveUserScope, getOwnFilter, hasPermission } from '../../middleware/scopeResolver.js';
 
 import {
   getConversaciones,
@@ -41,6 +44,29 @@ import {
   deleteFirma,
 } from '../../services/mensajeriaFirmasService.js';
 
+import {
+  getRespuestasRapidas,
+  getRespuestaRapidaById,
+  createRespuestaRapida,
+  updateRespuestaRapida,
+  deleteRespuestaRapida,
+  getSelector,
+  previsualizarRespuestaRapida,
+  prepararMensaje,
+  VARIABLES_DISPONIBLES,
+  type RespuestaRapida,
+} from '../../services/mensajeriaRespuestasRapidasService.js';
+
+import { vincularConversacionAContacto } from '../../services/contactosIdentidadesService.js';
+
+import {
+  suscribir,
+  getEventosDesde,
+  getResumenNoLeidos,
+  type EventoMensajeria,
+  type FiltroSuscripcion,
+} from '../../services/mensajeriaEventosService.js';
+
 import * as metaMessagingService from '../../services/metaMessagingService.js';
 import * as instagramMessagingService from '../../services/instagramMessagingService.js';
 import * as whatsappCloudService from '../../services/whatsappCloudService.js';
@@ -48,12 +74,113 @@ import { getMetaCredentialsWithFallback, getWhatsAppCredentials } from '../../se
 import { query as dbQuery } from '../../utils/db.js';
 
 const router = express.Router({ mergeParams: true });
+
+// EventSource can't send headers: the stream accepts the Clerk token as ?token=
+router.use('/stream', (req: Request, _res: Response, next: NextFunction) => {
+  if (!req.headers.authorization && typeof req.query.token === 'string') {
+    req.headers.authorization = `Bearer ${req.query.token}`;
+  }
+  next();
+});
+
 router.use(resolveUserScope);
 
 interface TenantParams { tenantId: string }
 interface ConversacionParams extends TenantParams { conversacionId: string }
 interface EtiquetaParams extends TenantParams { etiquetaId: string }
 interface FirmaParams extends TenantParams { firmaId: string }
+interface RespuestaRapidaParams extends TenantParams { respuestaId: string }
+
+const HEARTBEAT_MS = 25000;
+
+// ==================== TIEMPO REAL (SSE) ====================
+
+/**
+ * GET /api/tenants/:tenantId/mensajeria/stream
+ * Server-Sent Events stream for the authenticated user's inbox.
+ * Events: mensaje.nuevo, mensaje.estado, conversacion.asignada, conversacion.actualizada,
+ * conversacion.leida, plus no_leidos.resumen on connect.
+ * Replay: Last-Event-ID header (or ?last_event_id=) resends the events missed while disconnected;
+ * if too many were missed, a single resync event tells the client to reload its conversations.
+ * Query params: token (when the Authorization header can't be set), todas=true (whole tenant, needs scope)
+ */
+router.get('/stream', async (req: Request<TenantParams>, res: Response, next: NextFunction) => {
+  try {
+    const { tenantId } = req.params;
+    if (!req.scope) {
+      return res.status(401).json({ error: 'No autenticado' });
+    }
+
+    // Users with 'own' scope only see their conversations (and unassigned ones)
+    const puedeVerTodas = getOwnFilter(req, 'mensajeria') === null;
+    const filtro: FiltroSuscripcion = {
+      usuarioId: req.scope.dbUserId,
+      todas: puedeVerTodas && req.query.todas === 'true',
+    };
+
+    const lastEventId = (req.headers['last-event-id'] as string | undefined) || (req.query.last_event_id as string | undefined);
+    if (lastEventId && !/^\d+$/.test(lastEventId)) {
+      return res.status(400).json({ error: 'last_event_id inválido' });
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+    res.write('retry: 3000\n\n');
+
+    let ultimoId = lastEventId ? BigInt(lastEventId) : 0n;
+    let replayCompleto = false;
+    const pendientes: EventoMensajeria[] = [];
+
+    const enviar = (evento: EventoMensajeria) => {
+      if (!replayCompleto) {
+        pendientes.push(evento);
+        return;
+      }
+      const id = BigInt(evento.id);
+      if (id <= ultimoId) return; // already sent during replay
+      ultimoId = id;
+      res.write(`id: ${evento.id}\nevent: ${evento.tipo}\ndata: ${JSON.stringify({
+        conversacion_id: evento.conversacion_id,
+        ...evento.payload,
+        created_at: evento.created_at,
+      })}\n\n`);
+    };
+
+    // Subscribe before replaying so nothing published in between is lost
+    const desuscribir = await suscribir(tenantId, filtro, enviar);
+    const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_MS);
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      desuscribir();
+    });
+
+    if (lastEventId) {
+      const replay = await getEventosDesde(tenantId, lastEventId, filtro);
+      replayCompleto = true;
+      if (replay.resync) {
+        ultimoId = BigInt(replay.resync);
+        res.write(`id: ${replay.resync}\nevent: resync\ndata: {}\n\n`);
+      }
+      replay.eventos.forEach(enviar);
+    } else {
+      replayCompleto = true;
+    }
+    pendientes.splice(0).forEach(enviar);
+
+    const resumen = await getResumenNoLeidos(tenantId, filtro);
+    res.write(`event: no_leidos.resumen\ndata: ${JSON.stringify(resumen)}\n\n`);
+  } catch (error) {
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    next(error);
+  }
+});
 
 // ==================== CONVERSACIONES ====================
 
@@ -125,6 +252,31 @@ router.put('/conversaciones/:conversacionId', async (req: Request<ConversacionPa
   }
 });
 
+/**
+ * POST /api/tenants/:tenantId/mensajeria/conversaciones/:conversacionId/contacto
+ * Link the conversation to a CRM contact. The participant identity moves to that
+ * contact and an auto-created contact previously linked is merged into it.
+ * Body: { contacto_id }
+ */
+router.post('/conversaciones/:conversacionId/contacto', async (req: Request<ConversacionParams>, res: Response, next: NextFunction) => {
+  try {
+    const { tenantId, conversacionId } = req.params;
+    const { contacto_id } = req.body;
+
+    if (!contacto_id) {
+      return res.status(400).json({ error: 'contacto_id es requerido' });
+    }
+
+    const result = await vincularConversacionAContacto(tenantId, conversacionId, contacto_id);
+    if (!result) {
+      return res.status(404).json({ error: 'Conversación o contacto no encontrado' });
+    }
+    res.json(result);
+  } catch (error) {
+    next(error);
+  }
+});
+
 /**
  * POST /api/tenants/:tenantId/mensajeria/conversaciones/:conversacionId/read
  * Mark conversation as read (reset unread counter).
@@ -190,6 +342,8 @@ router.get('/conversaciones/:conversacionId/mensajes', async (req: Request<Conve
  * POST /api/tenants/:tenantId/mensajeria/conversaciones/:conversacionId/mensajes
  * Create a new message in a conversation.
  * For outgoing messages, this will later dispatch to the appropriate channel service.
+ * Picker: { respuesta_rapida_id, propiedad_codigo?, variables?, contenido? } renders a quick reply;
+ * { plantilla_whatsapp: { nombre, idioma?, parametros? } } sends an approved WhatsApp template.
  */
 router.post('/conversaciones/:conversacionId/mensajes', async (req: Request<ConversacionParams>, res: Response, next: NextFunction) => {
   try {
@@ -201,13 +355,25 @@ router.post('/conversaciones/:conversacionId/mensajes', async (req: Request<Conv
       return res.status(404).json({ error: 'Conversación no encontrada' });
     }
 
+    const esEntrante = req.body.es_entrante ?? false;
+    const preparado = !esEntrante && (req.body.respuesta_rapida_id || req.body.plantilla_whatsapp)
+      ? await prepararMensaje(tenantId, conv, req.scope?.dbUserId || null, {
+          respuesta_rapida_id: req.body.respuesta_rapida_id,
+          plantilla_whatsapp: req.body.plantilla_whatsapp,
+          propiedad_codigo: req.body.propiedad_codigo,
+          variables: req.body.variables,
+          contenido: req.body.contenido,
+        })
+      : null;
+    const contenido: string | undefined = preparado ? preparado.contenido : req.body.contenido;
+
     const mensaje = await createMensaje(tenantId, conversacionId, {
-      es_entrante: req.body.es_entrante ?? false,
+      es_entrante: esEntrante,
       remitente_nombre: req.body.remitente_nombre,
       remitente_id: req.body.remitente_id,
       tipo: req.body.tipo,
-      contenido: req.body.contenido,
-      contenido_plain: req.body.contenido_plain,
+      contenido,
+      contenido_plain: preparado ? preparado.contenido : req.body.contenido_plain,
       email_asunto: req.body.email_asunto,
       email_de: req.body.email_de,
       email_para: req.body.email_para,
@@ -219,11 +385,10 @@ router.post('/conversaciones/:conversacionId/mensajes', async (req: Request<Conv
       adjuntos: req.body.adjuntos,
       external_message_id: req.body.external_message_id,
       estado: req.body.estado,
-      metadata: req.body.metadata,
+      metadata: preparado ? { ...(req.body.metadata || {}), ...preparado.metadata } : req.body.metadata,
     });
 
     // Dispatch outgoing messages to channel-specific services
-    const esEntrante = req.body.es_entrante ?? false;
     if (!esEntrante && conv.canal === 'facebook_dm' && conv.external_participant_id) {
       try {
         const userId = (req as any).scope?.dbUserId;
@@ -232,7 +397,7 @@ router.post('/conversaciones/:conversacionId/mensajes', async (req: Request<Conv
           const result = await metaMessagingService.sendTextMessage(
             creds.pageAccessToken,
             conv.external_participant_id,
-            req.body.contenido || ''
+            contenido || ''
           );
           await dbQuery(
             `UPDATE mensajes SET external_message_id = $1, estado = 'enviado' WHERE id = $2`,
@@ -262,7 +427,7 @@ router.post('/conversaciones/:conversacionId/mensajes', async (req: Request<Conv
             creds.pageAccessToken,
             creds.instagramAccountId,
             conv.external_participant_id,
-            req.body.contenido || ''
+            contenido || ''
           );
           await dbQuery(
             `UPDATE mensajes SET external_message_id = $1, estado = 'enviado' WHERE id = $2`,
@@ -287,12 +452,21 @@ router.post('/conversaciones/:conversacionId/mensajes', async (req: Request<Conv
       try {
         const waCreds = await getWhatsAppCredentials(tenantId);
         if (waCreds) {
-          const result = await whatsappCloudService.sendTextMessage(
-            waCreds.accessToken,
-            waCreds.phoneNumberId,
-            conv.external_participant_id,
-            req.body.contenido || ''
-          );
+          const result = preparado?.plantilla
+            ? await whatsappCloudService.sendTemplateMessage(
+                waCreds.accessToken,
+                waCreds.phoneNumberId,
+                conv.external_participant_id,
+                preparado.plantilla.nombre,
+                preparado.plantilla.idioma,
+                preparado.plantilla.componentes
+              )
+            : await whatsappCloudService.sendTextMessage(
+                waCreds.accessToken,
+                waCreds.phoneNumberId,
+                conv.external_participant_id,
+                contenido || ''
+              );
           const messageId = result.messages?.[0]?.id;
           if (messageId) {
             await dbQuery(
@@ -479,4 +653,196 @@ router.delete('/firmas/:firmaId', async (req: Request<FirmaParams>, res: Respons
   }
 });
 
+// ==================== RESPUESTAS RÁPIDAS ====================
+
+/**
+ * Shared quick replies need mensajeria 'editar'; personal ones only their owner.
+ */
+function puedeGestionarRespuesta(req: Request<any>, respuesta: RespuestaRapida): boolean {
+  return respuesta.usuario_id
+    ? respuesta.usuario_id === req.scope?.dbUserId
+    : hasPermission(req, 'mensajeria', 'editar');
+}
+
+/**
+ * GET /api/tenants/:tenantId/mensajeria/respuestas-rapidas
+ * Tenant quick replies plus the current user's own.
+ * Query params: q, categoria, canal, incluir_inactivas=true
+ */
+router.get('/respuestas-rapidas', async (req: Request<TenantParams>, res: Response, next: NextFunction) => {
+  try {
+    const { tenantId } = req.params;
+    if (!req.scope) {
+      return res.status(401).json({ error: 'No autenticado' });
+    }
+
+    const respuestas = await getRespuestasRapidas(tenantId, req.scope.dbUserId, {
+      q: req.query.q as string | undefined,
+      categoria: req.query.categoria as string | undefined,
+      canal: req.query.canal as any,
+      incluir_inactivas: req.query.incluir_inactivas === 'true',
+    });
+    res.json(respuestas);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/tenants/:tenantId/mensajeria/respuestas-rapidas/variables
+ * Merge variables available in quick replies.
+ */
+router.get('/respuestas-rapidas/variables', (_req: Request<TenantParams>, res: Response) => {
+  res.json(VARIABLES_DISPONIBLES);
+});
+
+/**
+ * GET /api/tenants/:tenantId/mensajeria/respuestas-rapidas/selector
+ * Composer picker: quick replies for the channel plus approved WhatsApp templates.
+ * Query params: conversacion_id or canal, q
+ */
+router.get('/respuestas-rapidas/selector', async (req: Request<TenantParams>, res: Response, next: NextFunction) => {
+  try {
+    const { tenantId } = req.params;
+    if (!req.scope) {
+      return res.status(401).json({ error: 'No autenticado' });
+    }
+
+    let canal = req.query.canal as any;
+    if (req.query.conversacion_id) {
+      const conv = await getConversacionById(tenantId, req.query.conversacion_id as string);
+      if (!conv) {
+        return res.status(404).json({ error: 'Conversación no encontrada' });
+      }
+      canal = conv.canal;
+    }
+
+    const items = await getSelector(tenantId, req.scope.dbUserId, { canal, q: req.query.q as string | undefined });
+    res.json(items);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/tenants/:tenantId/mensajeria/respuestas-rapidas
+ * Body: { titulo, contenido, atajo?, categoria?, canales?, compartida?,
+ *         wa_template_nombre?, wa_template_idioma?, wa_template_parametros? }
+ * compartida=true creates it for the whole tenant (requires mensajeria 'editar').
+ */
+router.post('/respuestas-rapidas', async (req: Request<TenantParams>, res: Response, next: NextFunction) => {
+  try {
+    const { tenantId } = req.params;
+    if (!req.scope) {
+      return res.status(401).json({ error: 'No autenticado' });
+    }
+
+    const compartida = req.body.compartida === true;
+    if (compartida && !hasPermission(req, 'mensajeria', 'editar')) {
+      return res.status(403).json({ error: 'No tienes permiso para crear respuestas compartidas' });
+    }
+
+    const {
+      titulo, contenido, atajo, categoria, canales,
+      wa_template_nombre, wa_template_idioma, wa_template_parametros,
+    } = req.body;
+
+    const respuesta = await createRespuestaRapida(tenantId, compartida ? null : req.scope.dbUserId, {
+      titulo, contenido, atajo, categoria, canales,
+      wa_template_nombre, wa_template_idioma, wa_template_parametros,
+    });
+    res.status(201).json(respuesta);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * PUT /api/tenants/:tenantId/mensajeria/respuestas-rapidas/:respuestaId
+ */
+router.put('/respuestas-rapidas/:respuestaId', async (req: Request<RespuestaRapidaParams>, res: Response, next: NextFunction) => {
+  try {
+    const { tenantId, respuestaId } = req.params;
+
+    const existente = await getRespuestaRapidaById(tenantId, respuestaId);
+    if (!existente || (existente.usuario_id && existente.usuario_id !== req.scope?.dbUserId)) {
+      return res.status(404).json({ error: 'Respuesta rápida no encontrada' });
+    }
+    if (!puedeGestionarRespuesta(req, existente)) {
+      return res.status(403).json({ error: 'No tienes permiso para editar respuestas compartidas' });
+    }
+
+    const {
+      titulo, contenido, atajo, categoria, canales, activo,
+      wa_template_nombre, wa_template_idioma, wa_template_parametros,
+    } = req.body;
+
+    const updated = await updateRespuestaRapida(tenantId, respuestaId, {
+      titulo, contenido, atajo, categoria, canales, activo,
+      wa_template_nombre, wa_template_idioma, wa_template_parametros,
+    });
+    res.json(updated);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/tenants/:tenantId/mensajeria/respuestas-rapidas/:respuestaId
+ */
+router.delete('/respuestas-rapidas/:respuestaId', async (req: Request<RespuestaRapidaParams>, res: Response, next: NextFunction) => {
+  try {
+    const { tenantId, respuestaId } = req.params;
+
+    const existente = await getRespuestaRapidaById(tenantId, respuestaId);
+    if (!existente || (existente.usuario_id && existente.usuario_id !== req.scope?.dbUserId)) {
+      return res.status(404).json({ error: 'Respuesta rápida no encontrada' });
+    }
+    if (!puedeGestionarRespuesta(req, existente)) {
+      return res.status(403).json({ error: 'No tienes permiso para eliminar respuestas compartidas' });
+    }
+
+    await deleteRespuestaRapida(tenantId, respuestaId);
+    res.json({ ok: true });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/tenants/:tenantId/mensajeria/respuestas-rapidas/:respuestaId/previsualizar
+ * Render a quick reply for a conversation without sending it.
+ * Body: { conversacion_id, propiedad_codigo?, variables? }
+ */
+router.post('/respuestas-rapidas/:respuestaId/previsualizar', async (req: Request<RespuestaRapidaParams>, res: Response, next: NextFunction) => {
+  try {
+    const { tenantId, respuestaId } = req.params;
+    if (!req.scope) {
+      return res.status(401).json({ error: 'No autenticado' });
+    }
+
+    const { conversacion_id, propiedad_codigo, variables } = req.body;
+    if (!conversacion_id) {
+      return res.status(400).json({ error: 'conversacion_id es requerido' });
+    }
+
+    const respuesta = await getRespuestaRapidaById(tenantId, respuestaId);
+    if (!respuesta || (respuesta.usuario_id && respuesta.usuario_id !== req.scope.dbUserId)) {
+      return res.status(404).json({ error: 'Respuesta rápida no encontrada' });
+    }
+    const conv = await getConversacionById(tenantId, conversacion_id);
+    if (!conv) {
+      return res.status(404).json({ error: 'Conversación no encontrada' });
+    }
+
+    const preview = await previsualizarRespuestaRapida(tenantId, respuesta, conv, req.scope.dbUserId, {
+      propiedad_codigo,
+      variables,
+    });
+    res.json(preview);
+  } catch (error) {
+    next(error);
+  }
+});
+
 export default router;
@@ -20,6 +20,10 @@ import {
   getTagsForProperty,
   getTagsStats,
 } from '../../services/tagsSyncService.js';
+import { getHistorialPrecios, CAMPOS_PRECIO, CampoPrecio } from '../../services/historialPreciosService.js';
+import { getInteresadosPropiedad } from '../../services/matchingService.js';
+import { getVistasPropiedad } from '../../services/analyticsWebService.js';
+import { getReporteFeedPortal, FORMATOS_FEED, FormatoFeed } from '../../services/feedsPortalesService.js';
 import unidadesRouter from './unidades.routes.js';
 import {
   resolveUserScope,
@@ -36,6 +40,7 @@ import {
 interface RouteParams { [key: string]: string | undefined;
   tenantId: string;
   propiedadId?: string;
+  portal?: string;
 }
 
 const router = express.Router({ mergeParams: true });
@@ -125,6 +130,35 @@ router.get('/stats', async (req, res, next) => {
   }
 });
 
+/**
+ * GET /api/tenants/:tenantId/propiedades/feeds/:portal/validacion
+ * Reporte del feed de un portal: propiedades marcadas, aceptadas y rechazadas
+ * por campos faltantes. Query: formato (xml | kyero | json, default xml)
+ */
+router.get('/feeds/:portal/validacion', async (req, res, next) => {
+  try {
+    const { tenantId, portal } = req.params as RouteParams;
+    const formato = (req.query.formato as string) || 'xml';
+
+    if (!FORMATOS_FEED.includes(formato as FormatoFeed)) {
+      return res.status(400).json({
+        error: 'Formato inválido',
+        message: `El formato debe ser uno de: ${FORMATOS_FEED.join(', ')}`,
+      });
+    }
+
+    const reporte = await getReporteFeedPortal(tenantId, portal as string, formato as FormatoFeed);
+
+    if (!reporte) {
+      return res.status(404).json({ error: 'Portal no encontrado o inactivo' });
+    }
+
+    res.json(reporte);
+  } catch (error) {
+    next(error);
+  }
+});
+
 /**
  * GET /api/tenants/:tenantId/propiedades/:propiedadId
  * Obtiene una propiedad específica
@@ -166,7 +200,7 @@ router.post('/', async (req, res, next) => {
       return res.status(403).json({ error: 'No tienes permiso para crear propiedades' });
     }
 
-    const propiedad = await createPropiedad(tenantId, req.body);
+    const propiedad = await createPropiedad(tenantId, req.body, (req as any).scope?.dbUserId);
     res.status(201).json(propiedad);
   } catch (error) {
     next(error);
@@ -191,7 +225,7 @@ router.put('/:propiedadId', async (req, res, next) => {
       return res.status(403).json({ error: 'No tienes permiso para editar esta propiedad' });
     }
 
-    const propiedad = await updatePropiedad(tenantId, propiedadId, req.body);
+    const propiedad = await updatePropiedad(tenantId, propiedadId, req.body, (req as any).scope?.dbUserId);
     res.json(propiedad);
   } catch (error) {
     next(error);
@@ -228,6 +262,101 @@ router.delete('/:propiedadId', async (req, res, next) => {
   }
 });
 
+/**
+ * GET /api/tenants/:tenantId/propiedades/:propiedadId/historial-precios
+ * Obtiene la evolución de precios de una propiedad
+ * Query: campo (precio | precio_venta | precio_alquiler)
+ */
+router.get('/:propiedadId/historial-precios', async (req, res, next) => {
+  try {
+    const { tenantId, propiedadId } = req.params as RouteParams;
+    const campo = req.query.campo as string | undefined;
+
+    if (campo && !CAMPOS_PRECIO.includes(campo as CampoPrecio)) {
+      return res.status(400).json({ error: `Campo inválido. Valores permitidos: ${CAMPOS_PRECIO.join(', ')}` });
+    }
+
+    const existing = await getPropiedadById(tenantId, propiedadId);
+    if (!existing) {
+      return res.status(404).json({ error: 'Propiedad no encontrada' });
+    }
+
+    const ownUserId = getOwnFilter(req, 'propiedades');
+    if (ownUserId && existing.agente_id !== ownUserId && existing.captador_id !== ownUserId) {
+      return res.status(403).json({ error: 'No tienes permiso para ver esta propiedad' });
+    }
+
+    const historial = await getHistorialPrecios(tenantId, propiedadId, campo as CampoPrecio | undefined);
+    res.json(historial);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/tenants/:tenantId/propiedades/:propiedadId/vistas
+ * Vistas y leads del sitio web por día (base del reporte al propietario)
+ * Query: fecha_desde, fecha_hasta (YYYY-MM-DD, default últimos 30 días)
+ */
+router.get('/:propiedadId/vistas', async (req, res, next) => {
+  try {
+    const { tenantId, propiedadId } = req.params as RouteParams;
+    const { fecha_desde, fecha_hasta } = req.query;
+
+    const existing = await getPropiedadById(tenantId, propiedadId);
+    if (!existing) {
+      return res.status(404).json({ error: 'Propiedad no encontrada' });
+    }
+
+    const ownUserId = getOwnFilter(req, 'propiedades');
+    if (ownUserId && existing.agente_id !== ownUserId && existing.captador_id !== ownUserId) {
+      return res.status(403).json({ error: 'No tienes permiso para ver esta propiedad' });
+    }
+
+    const vistas = await getVistasPropiedad(tenantId, propiedadId!, {
+      desde: fecha_desde as string | undefined,
+      hasta: fecha_hasta as string | undefined,
+    });
+    res.json(vistas);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/tenants/:tenantId/propiedades/:propiedadId/interesados
+ * Obtiene las solicitudes abiertas que coinciden con la propiedad (matching inverso)
+ * Query: limit (default 20), min_score (default 50)
+ */
+router.get('/:propiedadId/interesados', async (req, res, next) => {
+  try {
+    const { tenantId, propiedadId } = req.params as RouteParams;
+    const { limit, min_score } = req.query;
+
+    const minScore = min_score !== undefined ? Number(min_score) : undefined;
+    if (minScore !== undefined && !(minScore >= 0 && minScore <= 100)) {
+      return res.status(400).json({ error: 'min_score debe ser un número entre 0 y 100' });
+    }
+
+    const interesados = await getInteresadosPropiedad(tenantId, propiedadId, {
+      limit: limit ? parseInt(limit as string) : undefined,
+      minScore,
+    });
+
+    if (!interesados) {
+      return res.status(404).json({ error: 'Propiedad no encontrada' });
+    }
+
+    // Con alcance 'own' en pipeline, solo se ven las solicitudes propias
+    const ownUserId = getOwnFilter(req, 'pipeline');
+    res.json(ownUserId
+      ? interesados.filter((i) => i.solicitud.usuario_asignado_id === ownUserId)
+      : interesados);
+  } catch (error) {
+    next(error);
+  }
+});
+
 // ==================== SINCRONIZACIÓN DE TAGS ====================
 
 /**
@@ -0,0 +1,162 @@
+/**
+ * MÓDULO DE REDIRECCIONES - Rutas CRUD
+ *
+ * Redirecciones 301/302 del sitio web del tenant.
+ * Las automáticas se crean al cambiar slugs; aquí se gestionan las manuales
+ * (exactas o con comodín) y se colapsan cadenas.
+ * Está aislado para que errores aquí NO afecten otros módulos.
+ */
+
+import express from 'express'
+import {
+  getRedirecciones,
+  getRedireccionById,
+  crearRedireccion,
+  updateRedireccion,
+  deleteRedireccion,
+  colapsarCadenas,
+  validarRedireccion,
+} from '../../services/redireccionesService.js';
+import { resolveUserScope, requirePermission } from '../../middleware/scopeResolver.js';
+
+// Tipos para params con mergeParams
+interface RouteParams { [key: string]: string | undefined;
+  tenantId: string;
+  redireccionId?: string;
+}
+
+const router = express.Router({ mergeParams: true });
+router.use(resolveUserScope);
+
+/**
+ * GET /api/tenants/:tenantId/redirecciones
+ * Lista redirecciones con filtros (busqueda, automatica, tipo_entidad) y paginación
+ */
+router.get('/', async (req, res, next) => {
+  try {
+    const { tenantId } = req.params as RouteParams;
+    const { busqueda, automatica, tipo_entidad, page, limit } = req.query;
+
+    const resultado = await getRedirecciones(tenantId, {
+      busqueda: busqueda as string | undefined,
+      automatica: automatica === 'true' ? true : automatica === 'false' ? false : undefined,
+      tipo_entidad: tipo_entidad as string | undefined,
+      page: page ? parseInt(page as string) : 1,
+      limit: limit ? parseInt(limit as string) : 50,
+    });
+    res.json(resultado);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/tenants/:tenantId/redirecciones/colapsar-cadenas
+ * Colapsa cadenas existentes (A→B→C en A→C) y desactiva ciclos
+ */
+router.post('/colapsar-cadenas', requirePermission('contenido', 'editar'), async (req, res, next) => {
+  try {
+    const { tenantId } = req.params as RouteParams;
+    const resultado = await colapsarCadenas(tenantId);
+    res.json(resultado);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/tenants/:tenantId/redirecciones/:redireccionId
+ */
+router.get('/:redireccionId', async (req, res, next) => {
+  try {
+    const { tenantId, redireccionId } = req.params as RouteParams;
+    const redireccion = await getRedireccionById(tenantId, redireccionId!);
+
+    if (!redireccion) {
+      return res.status(404).json({ error: 'Redirección no encontrada' });
+    }
+
+    res.json(redireccion);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/tenants/:tenantId/redirecciones
+ * Crea una redirección manual. origen "/blog/*" crea un comodín;
+ * un "*" en destino recibe el resto del path.
+ */
+router.post('/', requirePermission('contenido', 'crear'), async (req, res, next) => {
+  try {
+    const { tenantId } = req.params as RouteParams;
+    const { origen, destino, codigo_estado, notas, activo } = req.body;
+
+    if (!origen || !destino) {
+      return res.status(400).json({ error: 'origen y destino son requeridos' });
+    }
+
+    const error = validarRedireccion({ origen, destino, codigo_estado });
+    if (error) {
+      return res.status(400).json({ error });
+    }
+
+    const redireccion = await crearRedireccion(
+      tenantId,
+      { origen, destino, codigo_estado, notas, activo },
+      req.scope?.dbUserId
+    );
+    res.status(201).json(redireccion);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * PUT /api/tenants/:tenantId/redirecciones/:redireccionId
+ */
+router.put('/:redireccionId', requirePermission('contenido', 'editar'), async (req, res, next) => {
+  try {
+    const { tenantId, redireccionId } = req.params as RouteParams;
+    const { origen, destino, codigo_estado, notas, activo } = req.body;
+
+    const actual = await getRedireccionById(tenantId, redireccionId!);
+    if (!actual) {
+      return res.status(404).json({ error: 'Redirección no encontrada' });
+    }
+
+    const error = validarRedireccion({
+      origen: origen ?? actual.origen,
+      destino: destino ?? actual.destino,
+      codigo_estado,
+    });
+    if (error) {
+      return res.status(400).json({ error });
+    }
+
+    const redireccion = await updateRedireccion(tenantId, redireccionId!, { origen, destino, codigo_estado, notas, activo });
+    res.json(redireccion);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/tenants/:tenantId/redirecciones/:redireccionId
+ */
+router.delete('/:redireccionId', requirePermission('contenido', 'eliminar'), async (req, res, next) => {
+  try {
+    const { tenantId, redireccionId } = req.params as RouteParams;
+    const eliminada = await deleteRedireccion(tenantId, redireccionId!);
+
+    if (!eliminada) {
+      return res.status(404).json({ error: 'Redirección no encontrada' });
+    }
+
+    res.json({ success: true, message: 'Redirección eliminada' });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,87 @@
+/**
+ * MÓDULO DE SITIO WEB - Exportar / Importar
+ *
+ * Exporta la definición del sitio web del tenant (tema, páginas, componentes globales,
+ * rutas custom y categorías de contenido) como bundle JSON versionado, y la importa
+ * desde el bundle de otro tenant con vista previa de conflictos.
+ * Está aislado para que errores aquí NO afecten otros módulos.
+ */
+
+import express from 'express'
+import {
+  exportarSitioWeb,
+  importarSitioWeb,
+  validarBundle,
+  EstrategiaConflictos,
+} from '../../services/sitioWebBundleService.js';
+import { resolveUserScope, requirePermission } from '../../middleware/scopeResolver.js';
+
+// Tipos para params con mergeParams
+interface RouteParams { [key: string]: string | undefined;
+  tenantId: string;
+}
+
+const router = express.Router({ mergeParams: true });
+router.use(resolveUserScope);
+
+const ESTRATEGIAS: EstrategiaConflictos[] = ['omitir', 'reemplazar'];
+
+/**
+ * GET /api/tenants/:tenantId/sitio-web/exportar
+ * Descarga el bundle del sitio web
+ */
+router.get('/exportar', requirePermission('configuracion', 'ver'), async (req, res, next) => {
+  try {
+    const { tenantId } = req.params as RouteParams;
+
+    const bundle = await exportarSitioWeb(tenantId);
+    if (!bundle) {
+      return res.status(404).json({ error: 'Tenant no encontrado' });
+    }
+
+    const fecha = bundle.exportado_at.slice(0, 10);
+    res.setHeader('Content-Disposition', `attachment; filename="sitio-web-${bundle.origen.slug}-${fecha}.json"`);
+    res.json(bundle);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/tenants/:tenantId/sitio-web/importar
+ * Importa un bundle en este tenant. Por defecto es dry-run: retorna la vista previa
+ * (qué se crea, conflictos y referencias que no existen) sin escribir.
+ * Body: { bundle, dry_run?: boolean (default true), conflictos?: 'omitir' | 'reemplazar' }
+ */
+router.post('/importar', requirePermission('configuracion', 'editar'), async (req, res, next) => {
+  try {
+    const { tenantId } = req.params as RouteParams;
+    const { bundle, dry_run, conflictos } = req.body;
+
+    const error = validarBundle(bundle);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+    if (conflictos && !ESTRATEGIAS.includes(conflictos)) {
+      return res.status(400).json({ error: `conflictos debe ser uno de: ${ESTRATEGIAS.join(', ')}` });
+    }
+    if (bundle.origen?.tenant_id === tenantId) {
+      return res.status(400).json({ error: 'El bundle es de este mismo tenant' });
+    }
+
+    const resultado = await importarSitioWeb(tenantId, bundle, {
+      dryRun: dry_run !== false,
+      estrategia: conflictos,
+    });
+
+    if (resultado.errores.length > 0 && !resultado.dry_run) {
+      return res.status(400).json({ error: 'El bundle referencia elementos que no existen', ...resultado });
+    }
+
+    res.json(resultado);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
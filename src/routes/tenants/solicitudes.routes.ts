@@ -15,6 +15,7 @@ import {
   cambiarEtapaSolicitud,
 } from '../../services/solicitudesService.js';
 import { getActividadesBySolicitud } from '../../services/actividadesService.js';
+import { getMatchesSolicitud, crearPropuestaDesdeMatches } from '../../services/matchingService.js';
 import { resolveUserScope, getOwnFilter } from '../../middleware/scopeResolver.js';
 
 // Tipos para params con mergeParams
@@ -180,4 +181,74 @@ router.get('/:solicitudId/actividades', async (req, res, next) => {
   }
 });
 
+/**
+ * GET /api/tenants/:tenantId/solicitudes/:solicitudId/matches
+ * Obtiene las propiedades que coinciden con la solicitud, ordenadas por score
+ * Query: limit (default 20), min_score (default 50)
+ */
+router.get('/:solicitudId/matches', async (req, res, next) => {
+  try {
+    const { tenantId, solicitudId } = req.params as RouteParams;
+    const { limit, min_score } = req.query;
+
+    const minScore = min_score !== undefined ? Number(min_score) : undefined;
+    if (minScore !== undefined && !(minScore >= 0 && minScore <= 100)) {
+      return res.status(400).json({ error: 'min_score debe ser un número entre 0 y 100' });
+    }
+
+    const matches = await getMatchesSolicitud(tenantId, solicitudId, {
+      limit: limit ? parseInt(limit as string) : undefined,
+      minScore,
+    });
+
+    if (!matches) {
+      return res.status(404).json({ error: 'Solicitud no encontrada' });
+    }
+
+    res.json(matches);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/tenants/:tenantId/solicitudes/:solicitudId/matches/propuesta
+ * Crea una propuesta en borrador con las mejores coincidencias
+ * Body: { limit?: number (default 5), min_score?: number, propiedad_ids?: string[], titulo?: string }
+ */
+router.post('/:solicitudId/matches/propuesta', async (req, res, next) => {
+  try {
+    const { tenantId, solicitudId } = req.params as RouteParams;
+    const { limit, min_score, propiedad_ids, titulo } = req.body;
+
+    if (propiedad_ids !== undefined && !Array.isArray(propiedad_ids)) {
+      return res.status(400).json({ error: 'propiedad_ids debe ser un array' });
+    }
+
+    const minScore = min_score !== undefined ? Number(min_score) : undefined;
+    if (minScore !== undefined && !(minScore >= 0 && minScore <= 100)) {
+      return res.status(400).json({ error: 'min_score debe ser un número entre 0 y 100' });
+    }
+
+    const resultado = await crearPropuestaDesdeMatches(tenantId, solicitudId, req.scope?.dbUserId || null, {
+      limit: limit ? parseInt(limit) : undefined,
+      minScore,
+      propiedadIds: propiedad_ids,
+      titulo,
+    });
+
+    if (!resultado) {
+      return res.status(404).json({ error: 'Solicitud no encontrada' });
+    }
+
+    if (resultado.matches.length === 0) {
+      return res.status(201).json({ ...resultado, advertencia: 'No se encontraron propiedades que coincidan' });
+    }
+
+    res.status(201).json(resultado);
+  } catch (error) {
+    next(error);
+  }
+});
+
 export default router;
@@ -27,10 +27,48 @@ import {
   exportarUnidades,
   getDisponibilidadConfig,
   updateDisponibilidadConfig,
+  reservarUnidad,
+  extenderReserva,
+  liberarReserva,
+  ResultadoReserva,
+  CAMPOS_ESTADO_UNIDAD,
 } from '../../services/unidadesProyectoService.js';
+import { canEdit } from '../../middleware/scopeResolver.js';
 
 const router = express.Router({ mergeParams: true });
 
+/**
+ * Responde con el error correspondiente de una operación de reserva.
+ * Retorna true si ya se envió la respuesta.
+ */
+function responderErrorReserva(res: Response, resultado: ResultadoReserva): boolean {
+  if (!resultado.unidad) {
+    res.status(404).json({ error: 'Unidad no encontrada' });
+    return true;
+  }
+
+  if (resultado.error === 'conflicto') {
+    res.status(409).json({
+      error: 'La unidad no está disponible para reservar',
+      estado: resultado.unidad.estado,
+      reserva_expira_at: resultado.unidad.reserva_expira_at || null,
+    });
+    return true;
+  }
+
+  if (resultado.error === 'no_reservada') {
+    res.status(409).json({ error: 'La unidad no tiene una reserva vigente' });
+    return true;
+  }
+
+  if (resultado.error === 'limite_extensiones') {
+    res.status(409).json({ error: 'La reserva alcanzó el máximo de extensiones permitidas' });
+    return true;
+  }
+
+  return false;
+}
+
 // ============ Configuración de Disponibilidad ============
 
 /**
@@ -54,6 +92,18 @@ router.get('/disponibilidad/config', async (req, res, next) => {
 router.put('/disponibilidad/config', async (req, res, next) => {
   try {
     const { tenantId, propiedadId } = req.params as UnidadParams;
+    const { reservas } = req.body || {};
+
+    if (reservas) {
+      const invalido = ['duracion_horas', 'horas_extension'].some(
+        (campo) => reservas[campo] !== undefined && (!Number.isInteger(reservas[campo]) || reservas[campo] <= 0)
+      ) || (reservas.max_extensiones !== undefined && (!Number.isInteger(reservas.max_extensiones) || reservas.max_extensiones < 0));
+
+      if (invalido) {
+        return res.status(400).json({ error: 'Configuración de reservas inválida: use horas y extensiones enteras positivas' });
+      }
+    }
+
     const config = await updateDisponibilidadConfig(tenantId, propiedadId, req.body);
     res.json(config);
   } catch (error) {
@@ -132,7 +182,7 @@ router.post('/unidades/estado-masivo', async (req, res, next) => {
       return res.status(400).json({ error: 'Estado inválido' });
     }
 
-    const actualizadas = await cambiarEstadoMasivo(tenantId, unidadIds, nuevoEstado);
+    const actualizadas = await cambiarEstadoMasivo(tenantId, unidadIds, nuevoEstado, (req as any).scope?.dbUserId);
     res.json({ success: true, actualizadas });
   } catch (error) {
     next(error);
@@ -213,11 +263,20 @@ router.post('/unidades', async (req, res, next) => {
 
 /**
  * PUT /api/tenants/:tenantId/propiedades/:propiedadId/unidades/:unidadId
- * Actualiza una unidad existente
+ * Actualiza una unidad existente (400 si trae estado, fecha_reserva o reservado_por)
  */
 router.put('/unidades/:unidadId', async (req, res, next) => {
   try {
     const { tenantId, unidadId } = req.params as UnidadParams;
+
+    // El estado y la reserva no se editan aquí: se cambian con sus propias verificaciones
+    const camposEstado = CAMPOS_ESTADO_UNIDAD.filter((campo) => req.body[campo] !== undefined);
+    if (camposEstado.length > 0) {
+      return res.status(400).json({
+        error: `${camposEstado.join(', ')} no se puede modificar con PUT; usar PATCH /unidades/${unidadId}/estado o POST /unidades/${unidadId}/reservar`,
+      });
+    }
+
     const unidad = await updateUnidad(tenantId, unidadId, req.body);
 
     if (!unidad) {
@@ -246,6 +305,13 @@ router.patch('/unidades/:unidadId/estado', async (req, res, next) => {
       return res.status(400).json({ error: 'Estado inválido' });
     }
 
+    // Las reservas pasan por la verificación de conflicto y llevan vencimiento
+    if (estado === 'reservada') {
+      const resultado = await reservarUnidad(tenantId, unidadId, contactoId, (req as any).scope?.dbUserId);
+      if (responderErrorReserva(res, resultado)) return;
+      return res.json(resultado.unidad);
+    }
+
     const unidad = await cambiarEstadoUnidad(tenantId, unidadId, estado, contactoId);
 
     if (!unidad) {
@@ -258,6 +324,85 @@ router.patch('/unidades/:unidadId/estado', async (req, res, next) => {
   }
 });
 
+// ============ Reservas ============
+
+/**
+ * POST /api/tenants/:tenantId/propiedades/:propiedadId/unidades/:unidadId/reservar
+ * Reserva una unidad por la duración configurada en el proyecto
+ * Responde 409 si otro asesor ya la tiene reservada
+ */
+router.post('/unidades/:unidadId/reservar', async (req, res, next) => {
+  try {
+    const { tenantId, unidadId } = req.params as UnidadParams;
+    const { contactoId } = req.body;
+
+    const resultado = await reservarUnidad(tenantId, unidadId, contactoId, (req as any).scope?.dbUserId);
+    if (responderErrorReserva(res, resultado)) return;
+
+    res.json(resultado.unidad);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/tenants/:tenantId/propiedades/:propiedadId/unidades/:unidadId/reserva/extender
+ * Extiende una reserva vigente (hasta max_extensiones del proyecto)
+ *
+ * Restricciones:
+ * - Solo el asesor que reservó o quien pueda editar todas las propiedades
+ */
+router.post('/unidades/:unidadId/reserva/extender', async (req, res, next) => {
+  try {
+    const { tenantId, unidadId } = req.params as UnidadParams;
+
+    const actual = await getUnidadById(tenantId, unidadId);
+    if (!actual) {
+      return res.status(404).json({ error: 'Unidad no encontrada' });
+    }
+
+    if (!canEdit(req, 'propiedades', actual.reservado_por_usuario_id || null)) {
+      return res.status(403).json({ error: 'Solo el asesor que reservó puede extender la reserva' });
+    }
+
+    const resultado = await extenderReserva(tenantId, unidadId);
+    if (responderErrorReserva(res, resultado)) return;
+
+    res.json(resultado.unidad);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/tenants/:tenantId/propiedades/:propiedadId/unidades/:unidadId/reserva/liberar
+ * Libera una reserva antes de su vencimiento
+ *
+ * Restricciones:
+ * - Solo el asesor que reservó o quien pueda editar todas las propiedades
+ */
+router.post('/unidades/:unidadId/reserva/liberar', async (req, res, next) => {
+  try {
+    const { tenantId, unidadId } = req.params as UnidadParams;
+
+    const actual = await getUnidadById(tenantId, unidadId);
+    if (!actual) {
+      return res.status(404).json({ error: 'Unidad no encontrada' });
+    }
+
+    if (!canEdit(req, 'propiedades', actual.reservado_por_usuario_id || null)) {
+      return res.status(403).json({ error: 'Solo el asesor que reservó puede liberar la reserva' });
+    }
+
+    const resultado = await liberarReserva(tenantId, unidadId);
+    if (responderErrorReserva(res, resultado)) return;
+
+    res.json(resultado.unidad);
+  } catch (error) {
+    next(error);
+  }
+});
+
 /**
  * DELETE /api/tenants/:tenantId/propiedades/:propiedadId/unidades/:unidadId
  * Elimina una unidad
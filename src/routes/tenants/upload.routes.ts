@@ -9,6 +9,7 @@
 import express, { Request, Response, NextFunction } from 'express';
 import multer from 'multer';
 import { uploadImage, uploadDocument } from '../../services/r2Service.js';
+import { agregarRenditions } from '../../services/imagenesRenditionsService.js';
 
 const router = express.Router({ mergeParams: true });
 
@@ -51,6 +52,8 @@ const uploadFileMiddleware = multer({
  * Body (multipart/form-data):
  * - images: Archivos a subir (múltiples, max 10)
  * - folder: Carpeta destino (opcional, default: 'general')
+ * - renditions, marca_agua, foco_x, foco_y: opcionales; las imágenes de propiedades,
+ *   articulos y contenido generan renditions (campo responsive en la respuesta)
  */
 router.post('/images', uploadFileMiddleware.array('images', 10), async (req: Request<TenantParams>, res: Response, next: NextFunction) => {
   try {
@@ -80,6 +83,7 @@ router.post('/images', uploadFileMiddleware.array('images', 10), async (req: Req
           quality: 85,
           format: 'webp',
         });
+        result = await agregarRenditions(tenantId, req.body, file.buffer, result);
       } else {
         // Si es PDF u otro documento, usar uploadDocument
         result = await uploadDocument(file.buffer, file.originalname, {
@@ -108,6 +112,8 @@ router.post('/images', uploadFileMiddleware.array('images', 10), async (req: Req
  * Body (multipart/form-data):
  * - image: Archivo de imagen
  * - folder: Carpeta destino (opcional, default: 'general')
+ * - renditions, marca_agua, foco_x, foco_y: opcionales; las imágenes de propiedades,
+ *   articulos y contenido generan renditions (campo responsive en la respuesta)
  */
 router.post('/image', uploadImageMiddleware.single('image'), async (req: Request<TenantParams>, res: Response, next: NextFunction) => {
   try {
@@ -132,7 +138,7 @@ router.post('/image', uploadImageMiddleware.single('image'), async (req: Request
       format: 'webp',
     });
 
-    res.json(result);
+    res.json(await agregarRenditions(tenantId, req.body, file.buffer, result));
   } catch (error) {
     next(error);
   }
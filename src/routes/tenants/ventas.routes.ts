@@ -19,6 +19,7 @@ import { calcularYCrearComisiones, modificarDistribucion, getMisComisiones } fro
 import * as ventasCobrosService from '../../services/ventasCobrosService.js';
 import * as ventasHistorialService from '../../services/ventasHistorialService.js';
 import * as pagosComisionesService from '../../services/pagosComisionesService.js';
+import { completarVenta } from '../../services/ventasCierreService.js';
 import { resolveUserScope, getOwnFilter, requirePermission, canEdit, hasPermission } from '../../middleware/scopeResolver.js';
 
 const router = express.Router({ mergeParams: true });
@@ -946,10 +947,12 @@ router.post('/:ventaId/recalcular-habilitados', async (req: Request<VentaParams>
 
 /**
  * POST /api/tenants/:tenantId/ventas/:ventaId/completar
- * Marca una venta como completada
+ * Marca una venta como completada y propaga el cierre
+ * (propiedad, unidad, solicitud, sistema de fases, metas e historial)
  *
  * Restricciones:
  * - Solo admin o creador de la venta puede marcar como completada
+ * - No se puede completar una venta cancelada o ya completada
  */
 router.post('/:ventaId/completar', requirePermission('finanzas-ventas', 'editar'), async (req: Request<VentaParams>, res: Response, next: NextFunction) => {
   try {
@@ -957,7 +960,7 @@ router.post('/:ventaId/completar', requirePermission('finanzas-ventas', 'editar'
 
     // 1. Obtener la venta para validar permisos
     const ventaResult = await query(
-      `SELECT id, usuario_cerrador_id FROM ventas WHERE tenant_id = $1 AND id = $2 AND activo = true`,
+      `SELECT id, usuario_cerrador_id, completada, cancelada FROM ventas WHERE tenant_id = $1 AND id = $2 AND activo = true`,
       [tenantId, ventaId]
     );
 
@@ -975,16 +978,24 @@ router.post('/:ventaId/completar', requirePermission('finanzas-ventas', 'editar'
       });
     }
 
-    const sql = `
-      UPDATE ventas SET
-        completada = true,
-        fecha_cierre = COALESCE(fecha_cierre, NOW()),
-        updated_at = NOW()
-      WHERE tenant_id = $1 AND id = $2
-      RETURNING *
-    `;
-    const result = await query(sql, [tenantId, ventaId]);
-    res.json(result.rows[0]);
+    if (venta.cancelada) {
+      return res.status(400).json({ error: 'No se puede completar una venta cancelada' });
+    }
+
+    if (venta.completada) {
+      return res.status(409).json({ error: 'La venta ya está completada' });
+    }
+
+    // 3. Completar y propagar el cierre
+    const resultado = await completarVenta(tenantId, ventaId, (req as any).scope?.dbUserId);
+    if (!resultado) {
+      return res.status(409).json({ error: 'La venta ya no puede completarse' });
+    }
+
+    res.json({
+      ...resultado.venta,
+      cascada: resultado.cascada,
+    });
   } catch (error) {
     next(error);
   }
@@ -0,0 +1,29 @@
+import 'dotenv/config';
+import { getReporteSchemasComponentes } from '../services/componentesSchemaService.js';
+
+/**
+ * Reporte de componentes guardados (publicados y en borradores) que no cumplen
+ * el JSON Schema de su componente del catálogo.
+ *
+ * Uso: npx tsx src/scripts/reporte-schemas-componentes.ts [tenantId]
+ */
+async function main() {
+  const tenantId = process.argv[2];
+  console.log(`Revisando datos de componentes${tenantId ? ` del tenant ${tenantId}` : ''}...\n`);
+
+  const reporte = await getReporteSchemasComponentes({ tenantId });
+
+  for (const v of reporte.violaciones) {
+    console.log(`❌ [${v.origen}] ${v.tenant_nombre} · ${v.componente_key || v.tipo} · ${v.nombre || v.componente_id}`);
+    v.errores.forEach((e) => console.log(`     - ${e}`));
+  }
+
+  console.log(`\nRevisados: ${reporte.revisados}`);
+  console.log(`Con errores: ${reporte.invalidos}`);
+  process.exit(0);
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -79,6 +79,12 @@ export async function getPortalCatalogoById(id: string): Promise<PortalCatalogo
   return result.rows[0] || null;
 }
 
+/** Obtener portal activo por código (key del JSON portales de propiedades) */
+export async function getPortalCatalogoByCodigo(codigo: string): Promise<PortalCatalogo | null> {
+  const result = await query('SELECT * FROM portales_catalogo WHERE codigo = $1 AND activo = true', [codigo]);
+  return result.rows[0] || null;
+}
+
 /** Crear portal */
 export async function createPortalCatalogo(data: CreatePortalCatalogoData): Promise<PortalCatalogo> {
   const existing = await query('SELECT id FROM portales_catalogo WHERE codigo = $1', [data.codigo]);
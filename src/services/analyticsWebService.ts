@@ -0,0 +1,483 @@
+/**
+ * Servicio de analítica propia del sitio web (first-party)
+ *
+ * - Ingesta: el sitio envía un beacon por cada vista con la URL completa (incluye
+ *   ?ref= y utm_*) y el referrer. Se clasifica como vista de propiedad, de listado
+ *   (con sus tags) o de página, y se deriva la fuente del tráfico
+ * - Leads: un formulario con visitante_id se atribuye a la última fuente no directa
+ *   del visitante (si no hay, "directo")
+ * - Agregados: el cron recalcula analytics_web_diario a partir de los eventos de los
+ *   últimos días y purga los eventos más viejos que la retención
+ * - Reportes: leen solo de los agregados diarios, por rango de fechas
+ *
+ * Las vistas por propiedad alimentan el ranking de matching/propuestas y el reporte
+ * de la propiedad para el propietario.
+ */
+
+import { query, transaction } from '../utils/db.js';
+import { parseUrlWithTracking, parseListingUrl, resolveTrackingData, IDIOMAS_SOPORTADOS } from './routeResolver.js';
+import { toRelativeUrl } from './leadsWebService.js';
+
+// ==================== TIPOS ====================
+
+export type TipoEventoWeb = 'pagina' | 'propiedad' | 'listado' | 'lead';
+
+export const DIMENSIONES_ANALYTICS = ['pagina', 'propiedad', 'busqueda', 'fuente', 'referidor'] as const;
+export type DimensionAnalytics = typeof DIMENSIONES_ANALYTICS[number];
+
+export interface EventoWebEntrada {
+  visitante_id: string;
+  url: string;               // URL de la página vista (absoluta o path + query)
+  referrer?: string | null;  // document.referrer
+  propiedad_id?: string | null;
+  host?: string | null;      // host del sitio (Origin) para descartar referrers internos
+}
+
+export interface RangoFechas {
+  desde: string; // YYYY-MM-DD
+  hasta: string; // YYYY-MM-DD (inclusive)
+}
+
+export interface FilaReporte {
+  clave: string;
+  vistas: number;
+  visitantes: number;
+  leads: number;
+}
+
+export interface ResultadoConsolidacion {
+  desde: string;
+  hasta: string;
+  filas: number;
+  eventos_purgados: number;
+}
+
+const VISITANTE_REGEX = /^[A-Za-z0-9_-]{8,64}$/;
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Días de eventos crudos que se conservan (los agregados diarios no se purgan)
+const RETENCION_EVENTOS_DIAS = 90;
+// Días que recalcula cada corrida del cron (hoy y ayer, por eventos tardíos)
+const DIAS_CONSOLIDACION = 2;
+const RANGO_DEFAULT_DIAS = 30;
+const LIMIT_DEFAULT = 20;
+
+// IDs de click de anuncios → fuente y medio cuando no hay utm_source
+const CLICK_IDS: Record<string, { fuente: string; medio: string }> = {
+  gclid: { fuente: 'google', medio: 'cpc' },
+  dclid: { fuente: 'google', medio: 'display' },
+  msclkid: { fuente: 'bing', medio: 'cpc' },
+  fbclid: { fuente: 'facebook', medio: 'social' },
+};
+
+const BUSCADORES = ['google', 'bing', 'yahoo', 'duckduckgo', 'yandex', 'ecosia'];
+
+// ==================== HELPERS ====================
+
+export function esVisitanteIdValido(visitanteId: unknown): visitanteId is string {
+  return typeof visitanteId === 'string' && VISITANTE_REGEX.test(visitanteId);
+}
+
+function dominioDe(url: string | null | undefined): string | null {
+  if (!url) return null;
+  try {
+    return new URL(/^https?:\/\//i.test(url) ? url : `https://${url}`).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return null;
+  }
+}
+
+function recortar(valor: string | undefined | null, max: number): string | null {
+  return valor ? valor.trim().toLowerCase().slice(0, max) || null : null;
+}
+
+/**
+ * Fuente, medio y campaña del tráfico: utm_* > ID de click de anuncios > dominio del
+ * referrer externo > "directo"
+ */
+function derivarFuente(
+  tracking: Record<string, string | undefined>,
+  referrerDominio: string | null
+): { fuente: string; medio: string | null; campana: string | null } {
+  const campana = recortar(tracking.utm_campaign || tracking.campaign, 200);
+  const utmSource = recortar(tracking.utm_source || tracking.source, 100);
+
+  if (utmSource) {
+    return { fuente: utmSource, medio: recortar(tracking.utm_medium || tracking.medium, 100), campana };
+  }
+
+  for (const [param, origen] of Object.entries(CLICK_IDS)) {
+    if (tracking[param]) return { ...origen, campana };
+  }
+
+  if (referrerDominio) {
+    const buscador = BUSCADORES.find((b) => referrerDominio.split('.').includes(b));
+    return buscador
+      ? { fuente: buscador, medio: 'organic', campana }
+      : { fuente: referrerDominio.slice(0, 100), medio: 'referral', campana };
+  }
+
+  return { fuente: 'directo', medio: null, campana };
+}
+
+function normalizarRango(rango?: Partial<RangoFechas>): RangoFechas {
+  const hoy = new Date();
+  const desdeDefault = new Date(hoy.getTime() - (RANGO_DEFAULT_DIAS - 1) * 86400000);
+  const fecha = (valor: string | undefined, defecto: Date) =>
+    valor && /^\d{4}-\d{2}-\d{2}$/.test(valor) ? valor : defecto.toISOString().slice(0, 10);
+
+  return { desde: fecha(rango?.desde, desdeDefault), hasta: fecha(rango?.hasta, hoy) };
+}
+
+function mapFila(row: any): FilaReporte {
+  return {
+    clave: row.clave,
+    vistas: Number(row.vistas),
+    visitantes: Number(row.visitantes),
+    leads: Number(row.leads),
+  };
+}
+
+/**
+ * Top de claves de una dimensión en el rango, ordenado por vistas
+ */
+async function getTopDimension(
+  tenantId: string,
+  dimension: DimensionAnalytics,
+  rango: RangoFechas,
+  limit: number,
+  orden: 'vistas' | 'leads' = 'vistas'
+): Promise<FilaReporte[]> {
+  const result = await query(
+    `SELECT clave, SUM(vistas) as vistas, SUM(visitantes) as visitantes, SUM(leads) as leads
+     FROM analytics_web_diario
+     WHERE tenant_id = $1 AND dimension = $2 AND fecha BETWEEN $3::date AND $4::date
+     GROUP BY clave
+     ORDER BY SUM(${orden}) DESC, clave ASC
+     LIMIT $5`,
+    [tenantId, dimension, rango.desde, rango.hasta, limit]
+  );
+  return result.rows.map(mapFila);
+}
+
+// ==================== INGESTA ====================
+
+/**
+ * Registra una vista enviada por el beacon del sitio.
+ * Retorna el tipo de evento registrado, o null si el visitante no es válido.
+ */
+export async function registrarEventoWeb(
+  tenantId: string,
+  evento: EventoWebEntrada
+): Promise<TipoEventoWeb | null> {
+  if (!esVisitanteIdValido(evento.visitante_id)) return null;
+
+  const { pathname, tracking } = parseUrlWithTracking(toRelativeUrl(evento.url));
+  const idiomaMatch = pathname.match(/^\/([a-z]{2})(\/|$)/);
+  const idioma = idiomaMatch && IDIOMAS_SOPORTADOS.includes(idiomaMatch[1]) ? idiomaMatch[1] : 'es';
+
+  // Referrer del mismo sitio = navegación interna, no es una fuente
+  const hostSitio = dominioDe(evento.host) || dominioDe(/^https?:\/\//i.test(evento.url) ? evento.url : null);
+  let referrerDominio = dominioDe(evento.referrer);
+  if (referrerDominio && referrerDominio === hostSitio) referrerDominio = null;
+
+  let tipo: TipoEventoWeb = 'pagina';
+  let propiedadId: string | null = null;
+  let busqueda: string | null = null;
+
+  if (evento.propiedad_id && UUID_REGEX.test(evento.propiedad_id)) {
+    const propiedad = await query(
+      `SELECT id FROM propiedades WHERE id = $1 AND tenant_id = $2`,
+      [evento.propiedad_id, tenantId]
+    );
+    if (propiedad.rows.length > 0) {
+      tipo = 'propiedad';
+      propiedadId = propiedad.rows[0].id;
+    }
+  }
+
+  if (tipo === 'pagina') {
+    const listado = await parseListingUrl(tenantId, pathname);
+    if (listado && listado.tags.length > 0) {
+      tipo = 'listado';
+      busqueda = listado.tags.map((t) => t.slug).sort().join('/').slice(0, 500);
+    }
+  }
+
+  const { usuarioReferidor } = await resolveTrackingData(tenantId, tracking as Record<string, string>);
+  const { fuente, medio, campana } = derivarFuente(tracking, referrerDominio);
+
+  await query(
+    `INSERT INTO analytics_web_eventos (
+       tenant_id, tipo, visitante_id, pathname, idioma, propiedad_id, busqueda,
+       fuente, medio, campana, referrer_dominio, usuario_referidor_id
+     ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)`,
+    [
+      tenantId, tipo, evento.visitante_id, pathname.slice(0, 500), idioma, propiedadId, busqueda,
+      fuente, medio, campana, referrerDominio?.slice(0, 200) || null, usuarioReferidor?.usuario_id || null,
+    ]
+  );
+
+  return tipo;
+}
+
+/**
+ * Registra un lead del sitio atribuido a la última fuente no directa del visitante.
+ * Nunca lanza: un fallo aquí no debe afectar al formulario.
+ */
+export async function registrarLeadAnalytics(
+  tenantId: string,
+  visitanteId: string,
+  lead: { solicitudId: string; paginaUrl?: string; propiedadId?: string | null }
+): Promise<void> {
+  if (!esVisitanteIdValido(visitanteId)) return;
+
+  try {
+    const { pathname } = parseUrlWithTracking(toRelativeUrl(lead.paginaUrl));
+
+    await query(
+      `INSERT INTO analytics_web_eventos (
+         tenant_id, tipo, visitante_id, pathname, idioma, propiedad_id, busqueda,
+         fuente, medio, campana, referrer_dominio, usuario_referidor_id, solicitud_id
+       )
+       SELECT $1, 'lead', $2, $3, origen.idioma, $4, NULL,
+              COALESCE(origen.fuente, 'directo'), origen.medio, origen.campana,
+              origen.referrer_dominio, origen.usuario_referidor_id, $5
+       FROM (SELECT 1) base
+       LEFT JOIN LATERAL (
+         SELECT idioma, fuente, medio, campana, referrer_dominio, usuario_referidor_id
+         FROM analytics_web_eventos
+         WHERE tenant_id = $1 AND visitante_id = $2 AND tipo <> 'lead'
+         ORDER BY (fuente <> 'directo') DESC, created_at DESC
+         LIMIT 1
+       ) origen ON true`,
+      [
+        tenantId,
+        visitanteId,
+        pathname.slice(0, 500),
+        lead.propiedadId && UUID_REGEX.test(lead.propiedadId) ? lead.propiedadId : null,
+        lead.solicitudId,
+      ]
+    );
+  } catch (error: any) {
+    console.error(`❌ Error registrando lead en analytics (tenant ${tenantId}):`, error.message);
+  }
+}
+
+// ==================== CONSOLIDACIÓN (CRON) ====================
+
+/**
+ * Recalcula los agregados diarios de los últimos días (todos los tenants) y purga
+ * los eventos crudos fuera de la retención.
+ */
+export async function consolidarAnalyticsWeb(dias: number = DIAS_CONSOLIDACION): Promise<ResultadoConsolidacion> {
+  const hoy = new Date();
+  const desde = new Date(hoy.getTime() - (dias - 1) * 86400000).toISOString().slice(0, 10);
+  const hasta = hoy.toISOString().slice(0, 10);
+
+  const filas = await transaction(async (client) => {
+    await client.query(
+      `DELETE FROM analytics_web_diario WHERE fecha BETWEEN $1::date AND $2::date`,
+      [desde, hasta]
+    );
+
+    // Cada evento cuenta en todas las dimensiones en las que tiene valor
+    const result = await client.query(
+      `INSERT INTO analytics_web_diario (tenant_id, fecha, dimension, clave, vistas, visitantes, leads)
+       SELECT
+         e.tenant_id,
+         e.created_at::date,
+         d.dimension,
+         d.clave,
+         COUNT(*) FILTER (WHERE e.tipo <> 'lead'),
+         COUNT(DISTINCT e.visitante_id) FILTER (WHERE e.tipo <> 'lead'),
+         COUNT(*) FILTER (WHERE e.tipo = 'lead')
+       FROM analytics_web_eventos e
+       CROSS JOIN LATERAL (VALUES
+         ('pagina', e.pathname),
+         ('propiedad', e.propiedad_id::text),
+         ('busqueda', e.busqueda),
+         ('fuente', e.fuente),
+         ('referidor', e.usuario_referidor_id::text)
+       ) AS d(dimension, clave)
+       WHERE d.clave IS NOT NULL
+         AND e.created_at >= $1::date
+         AND e.created_at < $2::date + 1
+       GROUP BY e.tenant_id, e.created_at::date, d.dimension, d.clave`,
+      [desde, hasta]
+    );
+    return result.rowCount || 0;
+  });
+
+  const purga = await query(
+    `DELETE FROM analytics_web_eventos WHERE created_at < NOW() - ($1 || ' days')::interval`,
+    [String(RETENCION_EVENTOS_DIAS)]
+  );
+
+  const resultado = { desde, hasta, filas, eventos_purgados: purga.rowCount || 0 };
+  console.log(`📊 Analytics web consolidado: ${filas} filas (${desde} → ${hasta}), ${resultado.eventos_purgados} eventos purgados`);
+  return resultado;
+}
+
+// ==================== REPORTES ====================
+
+/**
+ * Totales del rango y serie diaria (la dimensión "fuente" cubre todos los eventos)
+ */
+export async function getResumenAnalytics(tenantId: string, rangoEntrada?: Partial<RangoFechas>) {
+  const rango = normalizarRango(rangoEntrada);
+
+  const result = await query(
+    `SELECT fecha::text as fecha, SUM(vistas) as vistas, SUM(visitantes) as visitantes, SUM(leads) as leads
+     FROM analytics_web_diario
+     WHERE tenant_id = $1 AND dimension = 'fuente' AND fecha BETWEEN $2::date AND $3::date
+     GROUP BY fecha
+     ORDER BY fecha ASC`,
+    [tenantId, rango.desde, rango.hasta]
+  );
+
+  const porDia = result.rows.map((row: any) => ({
+    fecha: row.fecha,
+    vistas: Number(row.vistas),
+    visitantes: Number(row.visitantes),
+    leads: Number(row.leads),
+  }));
+
+  return {
+    ...rango,
+    totales: porDia.reduce(
+      (acc, dia) => ({ vistas: acc.vistas + dia.vistas, visitantes: acc.visitantes + dia.visitantes, leads: acc.leads + dia.leads }),
+      { vistas: 0, visitantes: 0, leads: 0 }
+    ),
+    por_dia: porDia,
+  };
+}
+
+/**
+ * Propiedades más vistas del rango
+ */
+export async function getPropiedadesMasVistas(tenantId: string, rangoEntrada?: Partial<RangoFechas>, limit = LIMIT_DEFAULT) {
+  const rango = normalizarRango(rangoEntrada);
+  const filas = await getTopDimension(tenantId, 'propiedad', rango, limit);
+  if (filas.length === 0) return [];
+
+  const propiedades = await query(
+    `SELECT id, titulo, codigo, slug, imagen_principal, estado_propiedad
+     FROM propiedades
+     WHERE tenant_id = $1 AND id = ANY($2::uuid[])`,
+    [tenantId, filas.map((f) => f.clave)]
+  );
+  const porId = new Map(propiedades.rows.map((p: any) => [p.id, p]));
+
+  // Las propiedades eliminadas se omiten
+  return filas
+    .filter((f) => porId.has(f.clave))
+    .map(({ clave, ...metricas }) => ({ propiedad: porId.get(clave), ...metricas }));
+}
+
+/**
+ * Combinaciones de tags más buscadas en los listados
+ */
+export async function getBusquedasTop(tenantId: string, rangoEntrada?: Partial<RangoFechas>, limit = LIMIT_DEFAULT) {
+  const rango = normalizarRango(rangoEntrada);
+  const filas = await getTopDimension(tenantId, 'busqueda', rango, limit);
+  return filas.map(({ clave, ...metricas }) => ({ busqueda: clave, tags: clave.split('/'), ...metricas }));
+}
+
+/**
+ * Páginas más vistas (paths del sitio)
+ */
+export async function getPaginasMasVistas(tenantId: string, rangoEntrada?: Partial<RangoFechas>, limit = LIMIT_DEFAULT) {
+  const rango = normalizarRango(rangoEntrada);
+  const filas = await getTopDimension(tenantId, 'pagina', rango, limit);
+  return filas.map(({ clave, ...metricas }) => ({ pathname: clave, ...metricas }));
+}
+
+/**
+ * Tráfico y leads que trajo cada usuario con su link ?ref=
+ */
+export async function getTraficoReferidores(tenantId: string, rangoEntrada?: Partial<RangoFechas>, limit = LIMIT_DEFAULT) {
+  const rango = normalizarRango(rangoEntrada);
+  const filas = await getTopDimension(tenantId, 'referidor', rango, limit);
+  if (filas.length === 0) return [];
+
+  const usuarios = await query(
+    `SELECT id, nombre, apellido, email FROM usuarios WHERE id = ANY($1::uuid[])`,
+    [filas.map((f) => f.clave)]
+  );
+  const porId = new Map(usuarios.rows.map((u: any) => [u.id, u]));
+
+  return filas.map(({ clave, ...metricas }) => ({
+    usuario: porId.get(clave) || { id: clave, nombre: null, apellido: null, email: null },
+    ...metricas,
+  }));
+}
+
+/**
+ * Conversión a lead por fuente de tráfico (leads / visitantes)
+ */
+export async function getConversionPorFuente(tenantId: string, rangoEntrada?: Partial<RangoFechas>, limit = LIMIT_DEFAULT) {
+  const rango = normalizarRango(rangoEntrada);
+  const filas = await getTopDimension(tenantId, 'fuente', rango, limit);
+
+  return filas.map(({ clave, ...metricas }) => ({
+    fuente: clave,
+    ...metricas,
+    tasa_conversion: metricas.visitantes > 0 ? Math.round((metricas.leads / metricas.visitantes) * 10000) / 100 : null,
+  }));
+}
+
+/**
+ * Vistas y leads de una propiedad por día (reporte para el propietario)
+ */
+export async function getVistasPropiedad(tenantId: string, propiedadId: string, rangoEntrada?: Partial<RangoFechas>) {
+  const rango = normalizarRango(rangoEntrada);
+
+  const result = await query(
+    `SELECT fecha::text as fecha, vistas, visitantes, leads
+     FROM analytics_web_diario
+     WHERE tenant_id = $1 AND dimension = 'propiedad' AND clave = $2 AND fecha BETWEEN $3::date AND $4::date
+     ORDER BY fecha ASC`,
+    [tenantId, propiedadId, rango.desde, rango.hasta]
+  );
+
+  const porDia = result.rows.map((row: any) => ({
+    fecha: row.fecha,
+    vistas: Number(row.vistas),
+    visitantes: Number(row.visitantes),
+    leads: Number(row.leads),
+  }));
+
+  return {
+    ...rango,
+    vistas: porDia.reduce((total, dia) => total + dia.vistas, 0),
+    leads: porDia.reduce((total, dia) => total + dia.leads, 0),
+    por_dia: porDia,
+  };
+}
+
+/**
+ * Vistas de los últimos días por propiedad (para ordenar matches y propuestas)
+ */
+export async function getVistasPropiedades(
+  tenantId: string,
+  propiedadIds: string[],
+  dias: number = RANGO_DEFAULT_DIAS
+): Promise<Map<string, number>> {
+  const vistas = new Map<string, number>();
+  if (propiedadIds.length === 0) return vistas;
+
+  const result = await query(
+    `SELECT clave, SUM(vistas) as vistas
+     FROM analytics_web_diario
+     WHERE tenant_id = $1 AND dimension = 'propiedad' AND clave = ANY($2::text[])
+       AND fecha > CURRENT_DATE - $3::int
+     GROUP BY clave`,
+    [tenantId, propiedadIds, dias]
+  );
+
+  for (const row of result.rows) {
+    vistas.set(row.clave, Number(row.vistas));
+  }
+  return vistas;
+}
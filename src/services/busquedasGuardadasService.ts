@@ -0,0 +1,552 @@
+/**
+ * Servicio de búsquedas guardadas y alertas de propiedades
+ *
+ * - Los visitantes del sitio (contactos o anónimos con email) guardan la URL de un listado
+ * - La URL se descompone en tags con el mismo resolver del sitio (routeResolver)
+ * - Doble opt-in: la búsqueda recibe alertas solo después de confirmar el email
+ * - Un cron envía por email las propiedades nuevas o con cambio de precio que coinciden,
+ *   desde el SMTP del tenant y con su marca, con enlace para darse de baja
+ * - Los enlaces a propiedades usan el dominio verificado del tenant (dominiosService)
+ */
+
+import { randomBytes } from 'crypto';
+import { query } from '../utils/db.js';
+import { parseListingUrl, queryPropiedadesByTags, buildListingTitle } from './routeResolver.js';
+import { findContactoExistente } from './leadsWebService.js';
+import { getUrlSitioTenant } from './dominiosService.js';
+import {
+  enviarEmailComoTenant,
+  getMarcaTenant,
+  aplicarMarcaEmail,
+  escapeHtml,
+  formatearPrecio,
+  MarcaTenant,
+} from './emailNotificacionesService.js';
+
+// ==================== TIPOS ====================
+
+export const FRECUENCIAS_ALERTA = ['instantanea', 'diaria'] as const;
+export type FrecuenciaAlerta = typeof FRECUENCIAS_ALERTA[number];
+
+export interface BusquedaGuardada {
+  id: string;
+  tenant_id: string;
+  contacto_id: string | null;
+  email: string;
+  nombre: string | null;
+  titulo: string | null;
+  url: string;
+  idioma: string;
+  filtros: string[];
+  frecuencia: FrecuenciaAlerta;
+  token: string;
+  activo: boolean;
+  confirmada_at: string | null;
+  confirmacion_enviada_at: string | null;
+  ultimo_revisado_at: string;
+  ultimo_envio_at: string | null;
+  total_envios: number;
+  baja_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface BusquedaGuardadaData {
+  email: string;
+  nombre?: string;
+  url: string;
+  frecuencia?: FrecuenciaAlerta;
+}
+
+export interface ResultadoAlertasBusquedas {
+  busquedas: number;
+  emailsEnviados: number;
+  sinCambios: number;
+  fallidos: number;
+}
+
+interface PropiedadAlerta {
+  propiedad: any;
+  es_nueva: boolean;
+  precio_anterior: number | null;
+}
+
+// Máximo de búsquedas por ejecución del cron y de propiedades por email
+const MAX_BUSQUEDAS_POR_EJECUCION = 200;
+const MAX_PROPIEDADES_EMAIL = 10;
+
+// Minutos que una ejecución del cron retiene las búsquedas que reclamó
+const MINUTOS_RECLAMO = 15;
+
+// Horas mínimas entre reenvíos del email de confirmación de una misma búsqueda
+const HORAS_REENVIO_CONFIRMACION = 1;
+
+// ==================== HELPERS ====================
+
+function generarToken(): string {
+  return randomBytes(24).toString('hex');
+}
+
+function mapBusqueda(row: any): BusquedaGuardada {
+  return {
+    ...row,
+    filtros: typeof row.filtros === 'string' ? JSON.parse(row.filtros) : (row.filtros || []),
+  };
+}
+
+// ==================== CONFIRMACIÓN ====================
+
+function construirEmailConfirmacion(busqueda: BusquedaGuardada, marca: MarcaTenant, urlConfirmar: string) {
+  const titulo = busqueda.titulo || 'tu búsqueda';
+  const contenido = `
+    <p>Hola${busqueda.nombre ? ` ${escapeHtml(busqueda.nombre)}` : ''},</p>
+    <p>Recibimos una solicitud para enviarte alertas de propiedades de la búsqueda
+      <strong>${escapeHtml(titulo)}</strong> a este correo.</p>
+    <p><a href="${escapeHtml(urlConfirmar)}" style="display:inline-block;padding:10px 20px;background:${escapeHtml(marca.color_primario)};color:#ffffff;text-decoration:none;border-radius:4px;">Confirmar alertas</a></p>
+  `;
+  const pie = `<br><br>Si no fuiste tú, ignora este correo: no recibirás alertas sin confirmar.`;
+
+  return {
+    subject: `Confirma tus alertas de "${titulo}"`,
+    html: aplicarMarcaEmail(marca, contenido, pie),
+  };
+}
+
+/**
+ * Envía el email de confirmación (doble opt-in) desde el SMTP del tenant
+ */
+async function enviarConfirmacion(busqueda: BusquedaGuardada, apiUrl: string): Promise<boolean> {
+  const marca = await getMarcaTenant(busqueda.tenant_id);
+  if (!marca) return false;
+
+  const urlConfirmar = `${apiUrl}/api/public/busquedas-guardadas/${busqueda.token}/confirmar`;
+  const email = construirEmailConfirmacion(busqueda, marca, urlConfirmar);
+  const enviado = await enviarEmailComoTenant(busqueda.tenant_id, { to: busqueda.email, ...email });
+
+  if (enviado) {
+    await query(
+      `UPDATE busquedas_guardadas SET confirmacion_enviada_at = NOW() WHERE id = $1`,
+      [busqueda.id]
+    );
+  }
+  return enviado;
+}
+
+// ==================== CRUD ====================
+
+/**
+ * Guarda una búsqueda a partir de la URL de un listado del sitio y envía el email
+ * de confirmación (doble opt-in). Si el email ya tiene la misma búsqueda activa,
+ * actualiza la frecuencia y, si sigue sin confirmar, reenvía la confirmación.
+ * Retorna null si la URL no corresponde a un listado de propiedades.
+ *
+ * @param apiUrl - URL base de esta API, para el enlace de confirmación
+ */
+export async function crearBusquedaGuardada(
+  tenantId: string,
+  data: BusquedaGuardadaData,
+  apiUrl: string
+): Promise<{ busqueda: BusquedaGuardada; creada: boolean } | null> {
+  const listado = await parseListingUrl(tenantId, data.url);
+  if (!listado) return null;
+
+  const email = data.email.trim().toLowerCase();
+  const frecuencia = data.frecuencia || 'diaria';
+
+  const existente = await query(
+    `UPDATE busquedas_guardadas
+     SET frecuencia = $4, updated_at = NOW()
+     WHERE tenant_id = $1 AND LOWER(email) = $2 AND url = $3 AND activo = true
+     RETURNING *`,
+    [tenantId, email, listado.pathname, frecuencia]
+  );
+  if (existente.rows[0]) {
+    const busqueda = mapBusqueda(existente.rows[0]);
+    const reenviar = !busqueda.confirmada_at && (
+      !busqueda.confirmacion_enviada_at
+      || Date.now() - new Date(busqueda.confirmacion_enviada_at).getTime() > HORAS_REENVIO_CONFIRMACION * 3600000
+    );
+    if (reenviar) {
+      await enviarConfirmacion(busqueda, apiUrl);
+    }
+    return { busqueda, creada: false };
+  }
+
+  // El contacto se vincula al confirmar: hasta entonces nadie probó ser dueño del email
+  const result = await query(
+    `INSERT INTO busquedas_guardadas (
+      tenant_id, email, nombre, titulo, url,
+      idioma, filtros, frecuencia, token
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+    RETURNING *`,
+    [
+      tenantId,
+      email,
+      data.nombre?.trim() || null,
+      buildListingTitle(listado.tags, listado.idioma),
+      listado.pathname,
+      listado.idioma,
+      JSON.stringify(listado.tags.map(t => t.slug)),
+      frecuencia,
+      generarToken(),
+    ]
+  );
+  const busqueda = mapBusqueda(result.rows[0]);
+  await enviarConfirmacion(busqueda, apiUrl);
+
+  return { busqueda, creada: true };
+}
+
+/**
+ * Obtiene una búsqueda por su token, sin modificarla (páginas de los enlaces del email)
+ */
+export async function getBusquedaPorToken(token: string): Promise<BusquedaGuardada | null> {
+  const result = await query(`SELECT * FROM busquedas_guardadas WHERE token = $1`, [token]);
+  return result.rows[0] ? mapBusqueda(result.rows[0]) : null;
+}
+
+/**
+ * Confirma una búsqueda por su token (enlace del email de confirmación) y la vincula
+ * al contacto del CRM con ese email. Las alertas cubren novedades desde la confirmación.
+ * Retorna null si el token no existe o la búsqueda fue dada de baja.
+ */
+export async function confirmarBusqueda(token: string): Promise<BusquedaGuardada | null> {
+  const actual = await query(
+    `SELECT * FROM busquedas_guardadas WHERE token = $1 AND activo = true`,
+    [token]
+  );
+  if (actual.rows.length === 0) return null;
+  const busqueda = mapBusqueda(actual.rows[0]);
+  if (busqueda.confirmada_at) return busqueda;
+
+  const contacto = busqueda.contacto_id ? null : await findContactoExistente(busqueda.tenant_id, busqueda.email, null);
+
+  const result = await query(
+    `UPDATE busquedas_guardadas
+     SET confirmada_at = NOW(),
+         ultimo_revisado_at = NOW(),
+         contacto_id = COALESCE(contacto_id, $2),
+         updated_at = NOW()
+     WHERE id = $1 AND confirmada_at IS NULL
+     RETURNING *`,
+    [busqueda.id, contacto?.id || null]
+  );
+  // Si otro clic la confirmó en paralelo, se devuelve tal como quedó
+  if (result.rows.length === 0) {
+    const confirmada = await query(`SELECT * FROM busquedas_guardadas WHERE id = $1`, [busqueda.id]);
+    return mapBusqueda(confirmada.rows[0]);
+  }
+  return mapBusqueda(result.rows[0]);
+}
+
+/**
+ * Obtiene las búsquedas guardadas de un contacto (activas primero)
+ */
+export async function getBusquedasContacto(
+  tenantId: string,
+  contactoId: string
+): Promise<BusquedaGuardada[]> {
+  const result = await query(
+    `SELECT * FROM busquedas_guardadas
+     WHERE tenant_id = $1 AND contacto_id = $2
+     ORDER BY activo DESC, created_at DESC`,
+    [tenantId, contactoId]
+  );
+  return result.rows.map(mapBusqueda);
+}
+
+/**
+ * Desactiva una búsqueda guardada de un contacto desde el CRM
+ */
+export async function desactivarBusqueda(
+  tenantId: string,
+  contactoId: string,
+  busquedaId: string
+): Promise<BusquedaGuardada | null> {
+  const result = await query(
+    `UPDATE busquedas_guardadas
+     SET activo = false, baja_at = NOW(), updated_at = NOW()
+     WHERE id = $1 AND tenant_id = $2 AND contacto_id = $3 AND activo = true
+     RETURNING *`,
+    [busquedaId, tenantId, contactoId]
+  );
+  return result.rows[0] ? mapBusqueda(result.rows[0]) : null;
+}
+
+/**
+ * Da de baja una búsqueda por su token (enlace del email).
+ * Con todas = true da de baja todas las búsquedas de ese email en el tenant.
+ * Retorna null si el token no existe.
+ */
+export async function darDeBajaBusqueda(
+  token: string,
+  todas = false
+): Promise<{ busqueda: BusquedaGuardada; desactivadas: number } | null> {
+  const result = await query(`SELECT * FROM busquedas_guardadas WHERE token = $1`, [token]);
+  if (result.rows.length === 0) return null;
+  const busqueda = mapBusqueda(result.rows[0]);
+
+  const update = todas
+    ? await query(
+        `UPDATE busquedas_guardadas
+         SET activo = false, baja_at = NOW(), updated_at = NOW()
+         WHERE tenant_id = $1 AND LOWER(email) = LOWER($2) AND activo = true`,
+        [busqueda.tenant_id, busqueda.email]
+      )
+    : await query(
+        `UPDATE busquedas_guardadas
+         SET activo = false, baja_at = NOW(), updated_at = NOW()
+         WHERE id = $1 AND activo = true`,
+        [busqueda.id]
+      );
+
+  return { busqueda, desactivadas: update.rowCount ?? 0 };
+}
+
+// ==================== ALERTAS ====================
+
+/**
+ * Reclama las búsquedas confirmadas que toca revisar por MINUTOS_RECLAMO, para que
+ * otra ejecución del cron no las procese a la vez. La marca de agua no se mueve aquí:
+ * se guarda por búsqueda al terminar de procesarla (marcarRevisada).
+ */
+async function reclamarBusquedasPendientes(): Promise<BusquedaGuardada[]> {
+  const sql = `
+    WITH pendientes AS (
+      SELECT id
+      FROM busquedas_guardadas
+      WHERE activo = true
+        AND confirmada_at IS NOT NULL
+        AND (reclamada_hasta IS NULL OR reclamada_hasta < NOW())
+        AND (frecuencia = 'instantanea' OR ultimo_revisado_at <= NOW() - INTERVAL '24 hours')
+      ORDER BY ultimo_revisado_at ASC
+      LIMIT $1
+      FOR UPDATE SKIP LOCKED
+    )
+    UPDATE busquedas_guardadas b
+    SET reclamada_hasta = NOW() + make_interval(mins => $2)
+    FROM pendientes
+    WHERE b.id = pendientes.id
+    RETURNING b.*
+  `;
+  const result = await query(sql, [MAX_BUSQUEDAS_POR_EJECUCION, MINUTOS_RECLAMO]);
+  return result.rows.map(mapBusqueda);
+}
+
+/**
+ * Libera una búsqueda reclamada. Con `revisadoHasta` avanza su marca de agua
+ * (se procesó); sin él la deja igual para reintentar las mismas novedades.
+ */
+async function liberarBusqueda(busquedaId: string, revisadoHasta?: Date): Promise<void> {
+  await query(
+    `UPDATE busquedas_guardadas
+     SET reclamada_hasta = NULL,
+         ultimo_revisado_at = COALESCE($2, ultimo_revisado_at),
+         updated_at = NOW()
+     WHERE id = $1`,
+    [busquedaId, revisadoHasta || null]
+  );
+}
+
+/**
+ * Propiedades disponibles del tenant publicadas o con cambio de precio desde una fecha.
+ * "Publicada" = creada o con evento de publicación (historial_uso) posterior a la fecha.
+ */
+async function getNovedadesPropiedades(
+  tenantId: string,
+  desde: string
+): Promise<Map<string, { es_nueva: boolean; precio_anterior: number | null }>> {
+  const sql = `
+    SELECT
+      p.id,
+      (p.created_at > $2 OR EXISTS (
+        SELECT 1 FROM historial_uso hu
+        WHERE hu.tenant_id = p.tenant_id AND hu.recurso_id = p.id
+          AND hu.tipo_evento = 'propiedad_publicada' AND hu.created_at > $2
+      )) AS es_nueva,
+      -- Si el precio volvió al valor original, no es un cambio
+      CASE WHEN hp.precio_anterior <> p.precio THEN hp.precio_anterior END AS precio_anterior
+    FROM propiedades p
+    LEFT JOIN LATERAL (
+      SELECT h.precio_anterior
+      FROM propiedades_historial_precios h
+      WHERE h.propiedad_id = p.id AND h.campo = 'precio'
+        AND h.precio_anterior IS NOT NULL AND h.created_at > $2
+      ORDER BY h.created_at ASC
+      LIMIT 1
+    ) hp ON true
+    WHERE p.tenant_id = $1 AND p.activo = true AND p.estado_propiedad = 'disponible'
+  `;
+  const result = await query(
+    `SELECT * FROM (${sql}) novedades WHERE es_nueva OR precio_anterior IS NOT NULL`,
+    [tenantId, desde]
+  );
+
+  const novedades = new Map<string, { es_nueva: boolean; precio_anterior: number | null }>();
+  for (const row of result.rows) {
+    novedades.set(row.id, {
+      es_nueva: row.es_nueva,
+      precio_anterior: row.precio_anterior !== null ? Number(row.precio_anterior) : null,
+    });
+  }
+  return novedades;
+}
+
+function urlPropiedad(busqueda: BusquedaGuardada, propiedad: any, sitioUrl: string | null): string | null {
+  if (!sitioUrl) return null;
+  const traducciones = typeof propiedad.slug_traducciones === 'string'
+    ? JSON.parse(propiedad.slug_traducciones)
+    : (propiedad.slug_traducciones || {});
+  const slug = (busqueda.idioma !== 'es' && traducciones[busqueda.idioma]) || propiedad.slug || propiedad.id;
+  return `${sitioUrl}${busqueda.url}/${slug}`;
+}
+
+function construirEmailAlerta(
+  busqueda: BusquedaGuardada,
+  alertas: PropiedadAlerta[],
+  marca: MarcaTenant,
+  sitioUrl: string | null,
+  urlBaja: string
+) {
+  const titulo = busqueda.titulo || 'tu búsqueda';
+  const subject = alertas.length === 1
+    ? `Novedad en "${titulo}": ${alertas[0].propiedad.titulo}`
+    : `${alertas.length} novedades en "${titulo}"`;
+
+  const items = alertas.map(({ propiedad, es_nueva, precio_anterior }) => {
+    const url = urlPropiedad(busqueda, propiedad, sitioUrl);
+    const ubicacion = [propiedad.sector, propiedad.ciudad].filter(Boolean).join(', ');
+    const etiqueta = es_nueva ? 'Nueva' : 'Cambio de precio';
+    const precio = precio_anterior !== null && !es_nueva
+      ? `<s>${formatearPrecio(precio_anterior, propiedad.moneda)}</s> → <strong>${formatearPrecio(propiedad.precio, propiedad.moneda)}</strong>`
+      : `<strong>${formatearPrecio(propiedad.precio, propiedad.moneda)}</strong>`;
+    const nombre = url
+      ? `<a href="${escapeHtml(url)}" style="color:${escapeHtml(marca.color_primario)};">${escapeHtml(propiedad.titulo)}</a>`
+      : escapeHtml(propiedad.titulo);
+
+    return `
+      <tr>
+        <td style="padding:12px 0;border-bottom:1px solid #e5e7eb;vertical-align:top;width:140px;">
+          ${propiedad.imagen_principal ? `<img src="${escapeHtml(propiedad.imagen_principal)}" alt="" width="128" style="border-radius:4px;">` : ''}
+        </td>
+        <td style="padding:12px 0 12px 12px;border-bottom:1px solid #e5e7eb;vertical-align:top;">
+          <span style="font-size:11px;text-transform:uppercase;color:#6b7280;">${etiqueta}</span><br>
+          ${nombre}${ubicacion ? `<br><span style="color:#6b7280;">${escapeHtml(ubicacion)}</span>` : ''}<br>
+          ${precio}
+        </td>
+      </tr>
+    `;
+  }).join('');
+
+  const urlListado = sitioUrl ? `${sitioUrl}${busqueda.url}` : null;
+  const contenido = `
+    <p>Hola${busqueda.nombre ? ` ${escapeHtml(busqueda.nombre)}` : ''},</p>
+    <p>Hay novedades en tu búsqueda guardada <strong>${escapeHtml(titulo)}</strong>:</p>
+    <table style="width:100%;border-collapse:collapse;">${items}</table>
+    ${urlListado ? `<p><a href="${escapeHtml(urlListado)}">Ver todas las propiedades de esta búsqueda</a></p>` : ''}
+  `;
+  const pie = `<br><br>Recibes este correo porque guardaste esta búsqueda.
+    <a href="${escapeHtml(urlBaja)}">Dejar de recibir estas alertas</a>.`;
+
+  return {
+    subject,
+    html: aplicarMarcaEmail(marca, contenido, pie),
+    headers: {
+      'List-Unsubscribe': `<${urlBaja}>`,
+      'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+    },
+  };
+}
+
+/**
+ * Revisa las búsquedas guardadas pendientes y envía un email por búsqueda con
+ * las propiedades nuevas o con cambio de precio desde la última revisión.
+ * La marca de agua de cada búsqueda avanza al terminar de procesarla; si el envío
+ * falla (ej: el tenant no tiene SMTP) o hay un error, se conserva para reintentar
+ * las mismas novedades en la próxima ejecución.
+ *
+ * @param apiUrl - URL base de esta API, para el enlace de baja
+ */
+export async function procesarAlertasBusquedas(apiUrl: string): Promise<ResultadoAlertasBusquedas> {
+  // Corte con el reloj de la base: lo que cambie después se avisa en la próxima ejecución
+  const corteResult = await query(`SELECT NOW() AS corte`);
+  const corte: Date = corteResult.rows[0].corte;
+
+  const busquedas = await reclamarBusquedasPendientes();
+  const resultado: ResultadoAlertasBusquedas = {
+    busquedas: busquedas.length,
+    emailsEnviados: 0,
+    sinCambios: 0,
+    fallidos: 0,
+  };
+  const marcas = new Map<string, MarcaTenant | null>();
+  const sitios = new Map<string, string | null>();
+
+  for (const busqueda of busquedas) {
+    let revisada = false;
+    try {
+      const listado = await parseListingUrl(busqueda.tenant_id, busqueda.url);
+      const novedades = listado ? await getNovedadesPropiedades(busqueda.tenant_id, busqueda.ultimo_revisado_at) : null;
+
+      if (!listado || !novedades || novedades.size === 0) {
+        resultado.sinCambios++;
+        revisada = true;
+        continue;
+      }
+
+      const propiedades = await queryPropiedadesByTags(busqueda.tenant_id, listado.tags, {
+        ids: [...novedades.keys()],
+        limit: MAX_PROPIEDADES_EMAIL,
+      });
+      if (propiedades.length === 0) {
+        resultado.sinCambios++;
+        revisada = true;
+        continue;
+      }
+
+      if (!marcas.has(busqueda.tenant_id)) {
+        marcas.set(busqueda.tenant_id, await getMarcaTenant(busqueda.tenant_id));
+        sitios.set(busqueda.tenant_id, await getUrlSitioTenant(busqueda.tenant_id));
+      }
+      const marca = marcas.get(busqueda.tenant_id);
+      if (!marca) {
+        resultado.fallidos++;
+        continue;
+      }
+
+      const alertas: PropiedadAlerta[] = propiedades.map(propiedad => ({
+        propiedad,
+        es_nueva: novedades.get(propiedad.id)?.es_nueva || false,
+        precio_anterior: novedades.get(propiedad.id)?.precio_anterior ?? null,
+      }));
+      const urlBaja = `${apiUrl}/api/public/busquedas-guardadas/${busqueda.token}/baja`;
+      const email = construirEmailAlerta(busqueda, alertas, marca, sitios.get(busqueda.tenant_id) ?? null, urlBaja);
+
+      const enviado = await enviarEmailComoTenant(busqueda.tenant_id, { to: busqueda.email, ...email });
+
+      if (enviado) {
+        revisada = true;
+        await query(
+          `UPDATE busquedas_guardadas
+           SET ultimo_envio_at = NOW(), total_envios = total_envios + 1
+           WHERE id = $1`,
+          [busqueda.id]
+        );
+        resultado.emailsEnviados++;
+      } else {
+        resultado.fallidos++;
+      }
+    } catch (error: any) {
+      console.error(`⚠️ Error procesando búsqueda guardada ${busqueda.id}:`, error.message);
+      resultado.fallidos++;
+    } finally {
+      try {
+        await liberarBusqueda(busqueda.id, revisada ? corte : undefined);
+      } catch (error: any) {
+        console.error(`⚠️ Error guardando la revisión de la búsqueda ${busqueda.id}:`, error.message);
+      }
+    }
+  }
+
+  return resultado;
+}
@@ -1,4 +1,5 @@
 import { query } from '../utils/db.js';
+import { getSchemaComponente, validarDatosComponente } from './componentesSchemaService.js';
 
 /**
  * Servicio para gestionar el catálogo de componentes del sistema
@@ -239,61 +240,19 @@ export async function tenantPuedeUsarComponente(
 }
 
 /**
- * Validar configuración de un componente según su schema
+ * Validar configuración de un componente según su JSON Schema
+ * (el explícito del catálogo o el derivado de campos_config)
  */
 export async function validarConfiguracionComponente(
   componenteCodigo: string,
   configuracion: any
 ): Promise<{ valido: boolean; errores: string[] }> {
-  const componente = await getComponenteCatalogoByCodigo(componenteCodigo);
-  if (!componente) {
+  const schema = await getSchemaComponente(componenteCodigo);
+  if (!schema) {
     return { valido: false, errores: ['Componente no existe'] };
   }
 
-  const errores: string[] = [];
-  const schema = componente.schema_config;
-
-  if (!schema || !schema.campos) {
-    // Sin schema definido, aceptar cualquier config
-    return { valido: true, errores: [] };
-  }
-
-  // Validar campos requeridos
-  for (const campo of schema.campos) {
-    if (campo.requerido && (configuracion[campo.nombre] === undefined || configuracion[campo.nombre] === null)) {
-      errores.push(`Campo requerido faltante: ${campo.nombre}`);
-    }
-
-    // Validar tipo si el campo está presente
-    if (configuracion[campo.nombre] !== undefined) {
-      const valor = configuracion[campo.nombre];
-      const tipo = campo.tipo;
-
-      switch (tipo) {
-        case 'boolean':
-          if (typeof valor !== 'boolean') {
-            errores.push(`Campo ${campo.nombre} debe ser boolean`);
-          }
-          break;
-        case 'number':
-          if (typeof valor !== 'number') {
-            errores.push(`Campo ${campo.nombre} debe ser number`);
-          }
-          break;
-        case 'text':
-          if (typeof valor !== 'string') {
-            errores.push(`Campo ${campo.nombre} debe ser string`);
-          }
-          break;
-        case 'select':
-          if (campo.opciones && !campo.opciones.includes(valor)) {
-            errores.push(`Campo ${campo.nombre} debe ser una de: ${campo.opciones.join(', ')}`);
-          }
-          break;
-      }
-    }
-  }
-
+  const errores = validarDatosComponente(schema.schema, configuracion);
   return { valido: errores.length === 0, errores };
 }
 
@@ -0,0 +1,359 @@
+/**
+ * componentesSchemaService.ts
+ *
+ * JSON Schema de los datos de cada componente/variante del catálogo (catalogo_componentes).
+ * Cada fila puede declarar su schema en la columna json_schema; si no lo tiene, se deriva
+ * de campos_config (los mismos campos que usa el editor dinámico del CRM).
+ *
+ * El schema describe el objeto estructurado { static_data, toggles, styles, dynamic_data }
+ * y se valida al guardar componentes (componentesService, seccionesService y el borrador
+ * de páginas del CRM).
+ */
+
+import { query } from '../utils/db.js';
+import { validarJsonSchema, JsonSchema } from '../validators/jsonSchema.js';
+
+export interface SchemaComponente {
+  componente_catalogo_id: string;
+  tipo: string;
+  componente_key: string | null;
+  nombre: string;
+  origen: 'explicito' | 'derivado';
+  schema: JsonSchema;
+}
+
+export interface ViolacionSchema {
+  origen: 'publicado' | 'borrador';
+  componente_id: string;
+  tenant_id: string;
+  tenant_nombre: string;
+  componente_key: string | null;
+  tipo: string;
+  nombre: string | null;
+  errores: string[];
+}
+
+/**
+ * Error de validación de datos de un componente (se responde como 400)
+ */
+export class DatosComponenteInvalidosError extends Error {
+  statusCode = 400;
+  errores: string[];
+
+  constructor(componente: string, errores: string[]) {
+    super(`Datos inválidos para el componente "${componente}": ${errores.slice(0, 5).join('; ')}`);
+    this.name = 'DatosComponenteInvalidosError';
+    this.errores = errores;
+  }
+}
+
+// ==================== DERIVACIÓN DESDE campos_config ====================
+
+const TIPOS_TEXTO = ['text', 'textarea', 'image', 'color', 'email', 'url', 'icon', 'richtext', 'video'];
+
+// Números: el editor a veces los envía como string ("12" o "" cuando el campo queda vacío)
+const SCHEMA_NUMERO: JsonSchema = { type: ['number', 'string'], pattern: '^-?\\d*([.,]\\d+)?$' };
+
+interface CampoNormalizado {
+  key: string;
+  tipo: string;
+  label?: string;
+  requerido: boolean;
+  default?: any;
+  opciones?: any[];
+  schema?: any;
+  esToggle: boolean;
+}
+
+function normalizarCampo(campo: any, esToggle = false): CampoNormalizado | null {
+  const key = campo?.key || campo?.name || campo?.nombre;
+  if (!key) return null;
+
+  const tipo = campo.type || campo.tipo || 'text';
+  return {
+    key,
+    tipo,
+    label: campo.label,
+    requerido: Boolean(campo.required ?? campo.requerido),
+    default: campo.default,
+    opciones: campo.options || campo.opciones,
+    schema: campo.schema,
+    esToggle: esToggle || tipo === 'toggle' || campo.grupo === 'toggles',
+  };
+}
+
+/**
+ * campos_config viene en dos formatos: una lista de campos (con grupo 'toggles' o tipo
+ * 'toggle') o un objeto { campos, toggles } (migración 093)
+ */
+function normalizarCamposConfig(camposConfig: any): CampoNormalizado[] {
+  let config = camposConfig;
+  if (typeof config === 'string') {
+    try {
+      config = JSON.parse(config);
+    } catch {
+      return [];
+    }
+  }
+
+  if (Array.isArray(config)) {
+    return config.map((c) => normalizarCampo(c)).filter(Boolean) as CampoNormalizado[];
+  }
+
+  if (config && typeof config === 'object') {
+    return [
+      ...(Array.isArray(config.campos) ? config.campos.map((c: any) => normalizarCampo(c)) : []),
+      ...(Array.isArray(config.toggles) ? config.toggles.map((c: any) => normalizarCampo(c, true)) : []),
+    ].filter(Boolean) as CampoNormalizado[];
+  }
+
+  return [];
+}
+
+function schemaDeCampo(campo: CampoNormalizado): JsonSchema {
+  const meta: JsonSchema = {};
+  if (campo.label) meta.title = campo.label;
+  if (campo.default !== undefined) meta.default = campo.default;
+
+  if (campo.esToggle || campo.tipo === 'boolean') {
+    return { ...meta, type: 'boolean' };
+  }
+
+  if (campo.tipo === 'number' || campo.tipo === 'decimal') {
+    return { ...meta, ...SCHEMA_NUMERO };
+  }
+
+  if (campo.tipo === 'select') {
+    const valores = (campo.opciones || []).map((o: any) => (o && typeof o === 'object' ? o.value : o));
+    if (valores.length === 0) return { ...meta, type: 'string' };
+    return { ...meta, enum: campo.requerido ? valores : [...valores, ''] };
+  }
+
+  if (campo.tipo === 'array') {
+    const items = schemaDeSubcampos(campo.schema);
+    return items ? { ...meta, type: 'array', items } : { ...meta, type: 'array' };
+  }
+
+  if (campo.tipo === 'json') {
+    return { ...meta, type: ['array', 'object'] };
+  }
+
+  if (TIPOS_TEXTO.includes(campo.tipo)) {
+    return { ...meta, type: 'string' };
+  }
+
+  // Tipo desconocido para el editor: no se restringe
+  return meta;
+}
+
+/**
+ * schema de los elementos de un campo array: { texto: { type: 'text', label }, ... }
+ */
+function schemaDeSubcampos(subcampos: any): JsonSchema | null {
+  if (!subcampos || typeof subcampos !== 'object' || Array.isArray(subcampos)) return null;
+
+  const properties: Record<string, JsonSchema> = {};
+  for (const [key, def] of Object.entries<any>(subcampos)) {
+    const campo = normalizarCampo({ key, ...(def || {}) });
+    if (campo) properties[key] = schemaDeCampo(campo);
+  }
+
+  return { type: 'object', properties };
+}
+
+/**
+ * Deriva el JSON Schema de un componente a partir de su campos_config.
+ * Es permisivo con los campos no declarados: muchos componentes guardan datos extra
+ * que el editor no expone.
+ */
+export function derivarSchemaDeCampos(camposConfig: any): JsonSchema {
+  const campos = normalizarCamposConfig(camposConfig);
+
+  const staticProps: Record<string, JsonSchema> = {};
+  const staticRequeridos: string[] = [];
+  const toggleProps: Record<string, JsonSchema> = {};
+
+  for (const campo of campos) {
+    if (campo.esToggle) {
+      toggleProps[campo.key] = schemaDeCampo(campo);
+      continue;
+    }
+    staticProps[campo.key] = schemaDeCampo(campo);
+    if (campo.requerido) staticRequeridos.push(campo.key);
+  }
+
+  const staticData: JsonSchema = { type: 'object', properties: staticProps };
+  if (staticRequeridos.length > 0) staticData.required = staticRequeridos;
+
+  return {
+    type: 'object',
+    properties: {
+      static_data: staticData,
+      toggles: { type: 'object', properties: toggleProps, additionalProperties: { type: 'boolean' } },
+      styles: { type: 'object' },
+      dynamic_data: { type: 'object' },
+    },
+  };
+}
+
+// ==================== CONSULTA DE SCHEMAS ====================
+
+function mapearSchema(row: any): SchemaComponente {
+  const explicito = row.json_schema && typeof row.json_schema === 'object';
+  return {
+    componente_catalogo_id: row.id,
+    tipo: row.tipo,
+    componente_key: row.componente_key,
+    nombre: row.nombre,
+    origen: explicito ? 'explicito' : 'derivado',
+    schema: explicito ? row.json_schema : derivarSchemaDeCampos(row.campos_config),
+  };
+}
+
+const COLUMNAS_SCHEMA = 'id, tipo, componente_key, nombre, campos_config, json_schema';
+
+/**
+ * Schema de un componente del catálogo por id, componente_key (ej: "hero-default") o tipo
+ */
+export async function getSchemaComponente(idOCodigo: string): Promise<SchemaComponente | null> {
+  const esUuid = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(idOCodigo);
+
+  const result = await query(
+    esUuid
+      ? `SELECT ${COLUMNAS_SCHEMA} FROM catalogo_componentes WHERE id = $1`
+      : `SELECT ${COLUMNAS_SCHEMA} FROM catalogo_componentes
+         WHERE componente_key = $1 OR tipo = $1
+         ORDER BY (componente_key = $1) DESC NULLS LAST
+         LIMIT 1`,
+    [idOCodigo]
+  );
+
+  return result.rows[0] ? mapearSchema(result.rows[0]) : null;
+}
+
+/**
+ * Schema de la variante de un componente (componente_key = "tipo-variante", con el tipo
+ * en guiones). Solo si esa variante no tiene fila propia se usa la base del tipo
+ * ("tipo-default" o, si no existe, la primera variante del tipo por componente_key).
+ */
+export async function getSchemaVariante(tipo: string, variante?: string | null): Promise<SchemaComponente | null> {
+  const tipoKey = tipo.replace(/_/g, '-');
+
+  const exacta = await query(
+    `SELECT ${COLUMNAS_SCHEMA} FROM catalogo_componentes WHERE componente_key = $1`,
+    [`${tipoKey}-${variante || 'default'}`]
+  );
+  if (exacta.rows[0]) return mapearSchema(exacta.rows[0]);
+
+  const base = await query(
+    `SELECT ${COLUMNAS_SCHEMA} FROM catalogo_componentes
+     WHERE tipo = $1
+     ORDER BY (componente_key = $2) DESC, componente_key ASC
+     LIMIT 1`,
+    [tipo, `${tipoKey}-default`]
+  );
+  return base.rows[0] ? mapearSchema(base.rows[0]) : null;
+}
+
+/**
+ * Schemas de todo el catálogo indexados por id (para validar varios componentes
+ * dentro de una misma transacción)
+ */
+export async function getSchemasCatalogo(): Promise<Map<string, SchemaComponente>> {
+  const result = await query(`SELECT ${COLUMNAS_SCHEMA} FROM catalogo_componentes`);
+  return new Map(result.rows.map((row: any) => [row.id, mapearSchema(row)]));
+}
+
+// ==================== VALIDACIÓN ====================
+
+const CLAVES_ESTRUCTURADAS = ['static_data', 'toggles', 'styles', 'dynamic_data'];
+
+/**
+ * Valida los datos de un componente contra su schema. Los datos en formato plano
+ * (legacy) se validan como static_data.
+ */
+export function validarDatosComponente(schema: JsonSchema, datos: any): string[] {
+  if (!datos || typeof datos !== 'object' || Array.isArray(datos)) {
+    return ['Los datos del componente deben ser un objeto'];
+  }
+
+  const estructurado = Object.keys(datos).some((k) => CLAVES_ESTRUCTURADAS.includes(k));
+  return validarJsonSchema(schema, estructurado ? datos : { static_data: datos });
+}
+
+/**
+ * Igual que validarDatosComponente pero lanza DatosComponenteInvalidosError si hay errores
+ */
+export function asegurarDatosComponente(schema: SchemaComponente, datos: any): void {
+  const errores = validarDatosComponente(schema.schema, datos);
+  if (errores.length > 0) {
+    throw new DatosComponenteInvalidosError(schema.componente_key || schema.tipo, errores);
+  }
+}
+
+// ==================== REPORTE ====================
+
+/**
+ * Componentes guardados que no cumplen el schema de su componente del catálogo:
+ * los publicados (componentes_web) y los de borradores de páginas.
+ * Sirve para revisar los datos existentes antes de endurecer un schema.
+ */
+export async function getReporteSchemasComponentes(filtros: { tenantId?: string } = {}): Promise<{
+  revisados: number;
+  invalidos: number;
+  violaciones: ViolacionSchema[];
+}> {
+  const schemas = await getSchemasCatalogo();
+  const params = filtros.tenantId ? [filtros.tenantId] : [];
+  const filtroTenant = filtros.tenantId ? 'WHERE t.id = $1' : '';
+
+  const publicados = await query(
+    `SELECT cw.id, cw.tenant_id, t.nombre as tenant_nombre, cw.componente_catalogo_id, cw.nombre, cw.datos
+     FROM componentes_web cw
+     JOIN tenants t ON t.id = cw.tenant_id
+     ${filtroTenant}
+     ORDER BY t.nombre, cw.created_at`,
+    params
+  );
+
+  const borradores = await query(
+    `SELECT c->>'id' as id, pb.tenant_id, t.nombre as tenant_nombre,
+            c->>'componente_catalogo_id' as componente_catalogo_id, c->>'nombre' as nombre, c->'datos' as datos
+     FROM paginas_borradores pb
+     JOIN tenants t ON t.id = pb.tenant_id
+     CROSS JOIN LATERAL jsonb_array_elements(pb.componentes) c
+     ${filtroTenant}
+     ORDER BY t.nombre`,
+    params
+  );
+
+  const violaciones: ViolacionSchema[] = [];
+  let revisados = 0;
+
+  const revisar = (rows: any[], origen: ViolacionSchema['origen']) => {
+    for (const row of rows) {
+      const schema = schemas.get(row.componente_catalogo_id);
+      if (!schema) continue;
+      revisados++;
+
+      const errores = validarDatosComponente(schema.schema, row.datos || {});
+      if (errores.length === 0) continue;
+
+      violaciones.push({
+        origen,
+        componente_id: row.id,
+        tenant_id: row.tenant_id,
+        tenant_nombre: row.tenant_nombre,
+        componente_key: schema.componente_key,
+        tipo: schema.tipo,
+        nombre: row.nombre,
+        errores,
+      });
+    }
+  };
+
+  revisar(publicados.rows, 'publicado');
+  revisar(borradores.rows, 'borrador');
+
+  return { revisados, invalidos: violaciones.length, violaciones };
+}
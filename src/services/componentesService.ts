@@ -8,6 +8,12 @@
 import { query } from '../utils/db.js';
 import type { ComponenteDataEstructurado } from '../types/componentes.js';
 import { validateAndNormalizeComponentData } from '../validators/componentSchema.js';
+import { invalidarCacheRender } from './renderCacheService.js';
+import {
+  getSchemaVariante,
+  asegurarDatosComponente,
+  DatosComponenteInvalidosError,
+} from './componentesSchemaService.js';
 
 export interface ComponenteWebResponse {
   id: string;
@@ -331,6 +337,12 @@ export async function saveComponente(
       throw new Error(`Tipo de componente "${componente.tipo}" no encontrado en el catálogo`);
     }
 
+    // Validar contra el JSON Schema de la variante (o del tipo)
+    const schema = await getSchemaVariante(componente.tipo, componente.variante);
+    if (schema) {
+      asegurarDatosComponente(schema, datosValidados);
+    }
+
     // Convertir tipo_pagina (string como "homepage") a tipo_pagina_id (UUID)
     // Header y Footer son globales (no tienen tipo_pagina)
     let tipoPaginaId: string | null = null;
@@ -418,6 +430,7 @@ export async function saveComponente(
 
       const row = selectResult.rows[0];
       console.log(`✅ Componente actualizado - ID: ${row.id}`);
+      await invalidarCacheRender(tenantId, 'componente actualizado');
 
       return {
         id: row.id,
@@ -500,9 +513,11 @@ export async function saveComponente(
       };
 
       console.log(`📤 Retornando componente guardado:`, saved);
+      await invalidarCacheRender(tenantId, 'componente creado');
       return saved;
     }
   } catch (error: any) {
+    if (error instanceof DatosComponenteInvalidosError) throw error;
     console.error('Error al guardar componente:', error);
     throw new Error(`Error al guardar componente: ${error.message}`);
   }
@@ -526,6 +541,8 @@ export async function deleteComponente(
     if (result.rowCount === 0) {
       throw new Error('Componente no encontrado o no pertenece al tenant');
     }
+
+    await invalidarCacheRender(tenantId, 'componente eliminado');
   } catch (error: any) {
     console.error('Error al eliminar componente:', error);
     throw new Error(`Error al eliminar componente: ${error.message}`);
@@ -561,6 +578,8 @@ export async function updateTemaByTenant(
         RETURNING colores
       `;
       const result = await query(updateSql, [coloresJson, tenantId]);
+      // El tema va en todas las páginas resueltas
+      await invalidarCacheRender(tenantId, 'tema actualizado');
       return typeof result.rows[0].colores === 'string' 
         ? JSON.parse(result.rows[0].colores) 
         : result.rows[0].colores;
@@ -572,6 +591,7 @@ export async function updateTemaByTenant(
         RETURNING colores
       `;
       const result = await query(insertSql, [tenantId, coloresJson]);
+      await invalidarCacheRender(tenantId, 'tema actualizado');
       return typeof result.rows[0].colores === 'string' 
         ? JSON.parse(result.rows[0].colores) 
         : result.rows[0].colores;
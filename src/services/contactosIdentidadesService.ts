@@ -0,0 +1,541 @@
+/**
+ * Servicio de identidades de contacto para la mensajería
+ *
+ * Resuelve quién escribe en cada conversación entrante (WhatsApp, Messenger,
+ * Instagram, email, webchat) y la vincula a un contacto del CRM:
+ * - Busca por identidades ya registradas (teléfono E.164, email, PSID/IGSID, sesión webchat)
+ * - Si no hay, compara teléfono (telefono, whatsapp, telefono_secundario) y email contra contactos
+ * - Si tampoco hay, crea un contacto tipo lead (marcado con datos_extra.auto_creado_desde)
+ * - Si la misma persona quedó repartida en varios contactos auto-creados, los fusiona
+ * - El teléfono / email que escribe el visitante del webchat no está verificado: nunca
+ *   vincula la conversación a un contacto existente ni toca sus identidades o su ficha;
+ *   si coincide con uno queda como sugerencia (metadata.contacto_sugerido_id) para el agente
+ *
+ * La fusión solo mueve lo propio de la mensajería (conversaciones e identidades) y
+ * completa los datos vacíos del contacto principal; el secundario queda desactivado.
+ */
+
+import { query, transaction } from '../utils/db.js';
+import { createContacto, getContactoById, Contacto } from './contactosService.js';
+import type { CanalType, Conversacion, Mensaje, PaginatedResult } from './mensajeriaService.js';
+
+// ==================== TIPOS ====================
+
+export type TipoIdentidad = 'telefono' | 'email' | 'facebook_psid' | 'instagram_igsid' | 'webchat_sesion';
+
+export interface ContactoIdentidad {
+  id: string;
+  tenant_id: string;
+  contacto_id: string;
+  tipo: TipoIdentidad;
+  valor: string;
+  canal: CanalType | null;
+  ultimo_uso_at: string;
+  created_at: string;
+}
+
+export interface RemitenteEntrante {
+  canal: CanalType;
+  externalId: string;           // wa_id, PSID, IGSID, email o session_id según el canal
+  nombre?: string;
+  telefono?: string | null;     // datos declarados, sin verificar (ej: formulario del webchat)
+  email?: string | null;
+  usuarioAsignadoId?: string | null;
+  crearSiNoExiste?: boolean;    // default: true salvo webchat anónimo
+}
+
+export interface ResolucionContacto {
+  contacto: Contacto | null;           // null: solo hay sugerencia
+  creado: boolean;
+  fusionados: string[];
+  contactoSugeridoId: string | null;   // coincidencia por datos declarados, para vincular a mano
+}
+
+interface IdentidadNormalizada {
+  tipo: TipoIdentidad;
+  valor: string;
+}
+
+const ORIGEN_POR_CANAL: Record<CanalType, string> = {
+  whatsapp: 'whatsapp',
+  facebook_dm: 'facebook',
+  instagram_dm: 'instagram',
+  web_chat: 'chat_web',
+  email: 'email',
+};
+
+// Prefijos internacionales para números nacionales de 10 dígitos (sin código de país)
+const PREFIJOS_PAIS: Record<string, string> = {
+  DO: '1', US: '1', CA: '1', PR: '1',
+  MX: '52', CO: '57', AR: '54', PE: '51', CL: '56', VE: '58', EC: '593',
+  ES: '34', PA: '507', CR: '506', GT: '502',
+};
+
+// Remitentes automáticos que no deben generar contactos
+const EMAIL_NO_PERSONA = /^(no-?reply|do-?not-?reply|mailer-daemon|postmaster|bounces?|notifications?)([+.-][^@]*)?@/i;
+
+// ==================== NORMALIZACIÓN ====================
+
+/**
+ * Normaliza un teléfono a E.164 (ej: "(809) 555-1234" con país DO → "+18095551234").
+ * Los números nacionales de 10 dígitos usan el prefijo del país del tenant.
+ */
+export function normalizarTelefonoE164(
+  telefono: string | null | undefined,
+  codigoPais?: string | null
+): string | null {
+  if (!telefono) return null;
+  const texto = telefono.trim();
+  let digitos = texto.replace(/\D/g, '');
+
+  if (texto.startsWith('00')) digitos = digitos.slice(2);
+  if (digitos.length < 7 || digitos.length > 15) return null;
+
+  if (!texto.startsWith('+') && !texto.startsWith('00') && digitos.length <= 10) {
+    // Un número local corto no identifica a nadie sin código de área
+    if (digitos.length < 10) return null;
+    const prefijo = codigoPais ? PREFIJOS_PAIS[codigoPais.toUpperCase()] : undefined;
+    if (prefijo) {
+      digitos = `${prefijo}${digitos}`;
+    }
+  }
+
+  return `+${digitos}`;
+}
+
+export function normalizarEmail(email: string | null | undefined): string | null {
+  if (!email) return null;
+  const valor = email.trim().toLowerCase();
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(valor) ? valor : null;
+}
+
+async function getCodigoPaisTenant(tenantId: string): Promise<string | null> {
+  const result = await query('SELECT codigo_pais FROM tenants WHERE id = $1', [tenantId]);
+  return result.rows[0]?.codigo_pais || null;
+}
+
+/**
+ * Identidades que aporta un remitente según su canal (verificadas por el canal) y,
+ * con incluirDeclaradas, los datos extra que escribió (sin verificar)
+ */
+function identidadesDeRemitente(
+  remitente: RemitenteEntrante,
+  codigoPais: string | null,
+  incluirDeclaradas = true
+): IdentidadNormalizada[] {
+  const identidades: IdentidadNormalizada[] = [];
+  const agregar = (tipo: TipoIdentidad, valor: string | null) => {
+    if (valor && !identidades.some(i => i.tipo === tipo && i.valor === valor)) {
+      identidades.push({ tipo, valor });
+    }
+  };
+
+  switch (remitente.canal) {
+    case 'whatsapp':
+      // wa_id siempre viene con código de país, sin "+"
+      agregar('telefono', normalizarTelefonoE164(`+${remitente.externalId.replace(/\D/g, '')}`));
+      break;
+    case 'facebook_dm':
+      agregar('facebook_psid', remitente.externalId);
+      break;
+    case 'instagram_dm':
+      agregar('instagram_igsid', remitente.externalId);
+      break;
+    case 'web_chat':
+      agregar('webchat_sesion', remitente.externalId);
+      break;
+    case 'email':
+      agregar('email', normalizarEmail(remitente.externalId));
+      break;
+  }
+
+  if (incluirDeclaradas) {
+    agregar('telefono', normalizarTelefonoE164(remitente.telefono, codigoPais));
+    agregar('email', normalizarEmail(remitente.email));
+  }
+
+  return identidades;
+}
+
+// ==================== BÚSQUEDA ====================
+
+/**
+ * Contactos activos candidatos: por identidad registrada o por coincidencia de
+ * teléfono (últimos 10 dígitos) / email en la ficha del contacto.
+ */
+async function buscarCandidatos(
+  tenantId: string,
+  identidades: IdentidadNormalizada[]
+): Promise<Array<Contacto & { auto_creado: boolean }>> {
+  if (identidades.length === 0) return [];
+
+  const params: any[] = [tenantId];
+  const porIdentidad: string[] = [];
+  const porFicha: string[] = [];
+
+  for (const identidad of identidades) {
+    params.push(identidad.tipo, identidad.valor);
+    porIdentidad.push(`(ci.tipo = $${params.length - 1} AND ci.valor = $${params.length})`);
+
+    if (identidad.tipo === 'email') {
+      porFicha.push(`LOWER(c.email) = $${params.length}`);
+    } else if (identidad.tipo === 'telefono') {
+      params.push(identidad.valor.replace(/\D/g, '').slice(-10));
+      const idx = params.length;
+      porFicha.push(`RIGHT(regexp_replace(COALESCE(c.telefono, ''), '\\D', '', 'g'), 10) = $${idx}`);
+      porFicha.push(`RIGHT(regexp_replace(COALESCE(c.whatsapp, ''), '\\D', '', 'g'), 10) = $${idx}`);
+      porFicha.push(`RIGHT(regexp_replace(COALESCE(c.telefono_secundario, ''), '\\D', '', 'g'), 10) = $${idx}`);
+    }
+  }
+
+  const condiciones = [
+    `c.id IN (SELECT ci.contacto_id FROM contactos_identidades ci WHERE ci.tenant_id = $1 AND (${porIdentidad.join(' OR ')}))`,
+    ...porFicha,
+  ];
+
+  const sql = `
+    SELECT c.*, (c.datos_extra ? 'auto_creado_desde') AS auto_creado
+    FROM contactos c
+    WHERE c.tenant_id = $1 AND c.activo = true
+      AND (${condiciones.join(' OR ')})
+    ORDER BY c.created_at ASC
+    LIMIT 10
+  `;
+  const result = await query(sql, params);
+  return result.rows;
+}
+
+/**
+ * Registra (o reasigna) identidades para el contacto
+ */
+async function registrarIdentidades(
+  tenantId: string,
+  contactoId: string,
+  identidades: IdentidadNormalizada[],
+  canal: CanalType | null
+): Promise<void> {
+  for (const identidad of identidades) {
+    await query(
+      `INSERT INTO contactos_identidades (tenant_id, contacto_id, tipo, valor, canal)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (tenant_id, tipo, valor)
+       DO UPDATE SET contacto_id = EXCLUDED.contacto_id, ultimo_uso_at = NOW()`,
+      [tenantId, contactoId, identidad.tipo, identidad.valor, canal]
+    );
+  }
+}
+
+/**
+ * Completa email / whatsapp del contacto si los tiene vacíos
+ */
+async function completarFichaContacto(
+  tenantId: string,
+  contactoId: string,
+  identidades: IdentidadNormalizada[],
+  canal: CanalType
+): Promise<void> {
+  const email = identidades.find(i => i.tipo === 'email')?.valor || null;
+  const telefono = identidades.find(i => i.tipo === 'telefono')?.valor || null;
+
+  await query(
+    `UPDATE contactos SET
+       email = COALESCE(NULLIF(email, ''), $3),
+       whatsapp = COALESCE(NULLIF(whatsapp, ''), $4),
+       updated_at = NOW()
+     WHERE id = $1 AND tenant_id = $2
+       AND (($3::text IS NOT NULL AND COALESCE(email, '') = '')
+         OR ($4::text IS NOT NULL AND COALESCE(whatsapp, '') = ''))`,
+    [contactoId, tenantId, email, canal === 'whatsapp' ? telefono : null]
+  );
+}
+
+// ==================== FUSIÓN ====================
+
+/**
+ * Fusiona el contacto secundario en el principal: mueve conversaciones e
+ * identidades, completa los datos vacíos del principal y desactiva el secundario.
+ */
+export async function fusionarContactos(
+  tenantId: string,
+  principalId: string,
+  secundarioId: string
+): Promise<void> {
+  if (principalId === secundarioId) return;
+
+  await transaction(async (client) => {
+    await client.query(
+      `UPDATE conversaciones SET contacto_id = $1, updated_at = NOW()
+       WHERE tenant_id = $2 AND contacto_id = $3`,
+      [principalId, tenantId, secundarioId]
+    );
+
+    await client.query(
+      `UPDATE contactos_identidades SET contacto_id = $1
+       WHERE tenant_id = $2 AND contacto_id = $3`,
+      [principalId, tenantId, secundarioId]
+    );
+
+    await client.query(
+      `UPDATE contactos p SET
+         email = COALESCE(NULLIF(p.email, ''), s.email),
+         telefono = COALESCE(NULLIF(p.telefono, ''), s.telefono),
+         telefono_secundario = COALESCE(NULLIF(p.telefono_secundario, ''), s.telefono_secundario),
+         whatsapp = COALESCE(NULLIF(p.whatsapp, ''), s.whatsapp),
+         updated_at = NOW()
+       FROM contactos s
+       WHERE p.id = $1 AND s.id = $3 AND p.tenant_id = $2 AND s.tenant_id = $2`,
+      [principalId, tenantId, secundarioId]
+    );
+
+    await client.query(
+      `UPDATE contactos SET
+         activo = false,
+         datos_extra = COALESCE(datos_extra, '{}'::jsonb) || jsonb_build_object('fusionado_en', $1::text),
+         updated_at = NOW()
+       WHERE id = $3 AND tenant_id = $2`,
+      [principalId, tenantId, secundarioId]
+    );
+  });
+
+  console.log(`🔗 Contacto ${secundarioId} fusionado en ${principalId}`);
+}
+
+// ==================== RESOLUCIÓN ====================
+
+/**
+ * Resuelve el contacto de un remitente entrante: lo busca, lo crea si hace falta
+ * y fusiona los contactos auto-creados que resulten ser la misma persona.
+ * Solo las identidades verificadas por el canal vinculan a un contacto existente;
+ * los datos declarados que coinciden con otro contacto quedan como sugerencia.
+ * Devuelve null si no hay identidad utilizable o no se permite crear.
+ */
+export async function resolverContactoRemitente(
+  tenantId: string,
+  remitente: RemitenteEntrante
+): Promise<ResolucionContacto | null> {
+  const codigoPais = await getCodigoPaisTenant(tenantId);
+  const verificadas = identidadesDeRemitente(remitente, codigoPais, false);
+  const identidades = identidadesDeRemitente(remitente, codigoPais);
+  if (identidades.length === 0) return null;
+
+  const candidatos = await buscarCandidatos(tenantId, verificadas);
+  const fusionados: string[] = [];
+
+  if (candidatos.length > 0) {
+    // Preferir un contacto cargado en el CRM sobre uno auto-creado (ambos por antigüedad)
+    const principal = candidatos.find(c => !c.auto_creado) || candidatos[0];
+
+    for (const candidato of candidatos) {
+      if (candidato.id !== principal.id && candidato.auto_creado) {
+        await fusionarContactos(tenantId, principal.id, candidato.id);
+        fusionados.push(candidato.id);
+      }
+    }
+
+    await registrarIdentidades(tenantId, principal.id, verificadas, remitente.canal);
+    await completarFichaContacto(tenantId, principal.id, verificadas, remitente.canal);
+
+    const contacto = await getContactoById(tenantId, principal.id);
+    if (!contacto) return null;
+    return { contacto, creado: false, fusionados, contactoSugeridoId: null };
+  }
+
+  const email = identidades.find(i => i.tipo === 'email')?.valor;
+  const telefono = identidades.find(i => i.tipo === 'telefono')?.valor;
+
+  // Los datos declarados de un contacto existente no lo vinculan: cualquiera puede escribirlos
+  const declaradas = identidades.filter(i => !verificadas.some(v => v.tipo === i.tipo && v.valor === i.valor));
+  const coincidencias = await buscarCandidatos(tenantId, declaradas);
+  if (coincidencias.length > 0) {
+    const sugerido = coincidencias.find(c => !c.auto_creado) || coincidencias[0];
+    return { contacto: null, creado: false, fusionados, contactoSugeridoId: sugerido.id };
+  }
+
+  // Un visitante anónimo del webchat (solo sesión) no genera contacto
+  const crearPorDefecto = remitente.canal !== 'web_chat' || !!(email || telefono);
+  const crear = remitente.crearSiNoExiste ?? crearPorDefecto;
+  if (!crear || (email && EMAIL_NO_PERSONA.test(email))) return null;
+
+  const creado = await createContacto(tenantId, {
+    nombre: remitente.nombre?.trim() || email || telefono || 'Contacto sin nombre',
+    email,
+    telefono,
+    whatsapp: remitente.canal === 'whatsapp' ? telefono : undefined,
+    tipo: 'lead',
+    origen: ORIGEN_POR_CANAL[remitente.canal],
+    usuario_asignado_id: remitente.usuarioAsignadoId || undefined,
+    datos_extra: { auto_creado_desde: remitente.canal },
+  });
+
+  // Solo las identidades verificadas se registran: las declaradas quedan en la ficha
+  await registrarIdentidades(tenantId, creado.id, verificadas, remitente.canal);
+
+  const contacto = await getContactoById(tenantId, creado.id);
+  if (!contacto) return null;
+  return { contacto, creado: true, fusionados, contactoSugeridoId: null };
+}
+
+/**
+ * Vincula una conversación entrante a su contacto (si aún no lo tiene).
+ * Pensado para los handlers de webhooks: nunca lanza, registra el error y sigue.
+ */
+export async function vincularConversacionEntrante(
+  tenantId: string,
+  conversacion: Pick<Conversacion, 'id' | 'contacto_id'>,
+  remitente: RemitenteEntrante
+): Promise<string | null> {
+  if (conversacion.contacto_id) return conversacion.contacto_id;
+
+  try {
+    const resolucion = await resolverContactoRemitente(tenantId, remitente);
+    if (!resolucion) return null;
+
+    if (!resolucion.contacto) {
+      await query(
+        `UPDATE conversaciones
+         SET metadata = COALESCE(metadata, '{}'::jsonb) || jsonb_build_object('contacto_sugerido_id', $1::text),
+             updated_at = NOW()
+         WHERE id = $2 AND tenant_id = $3`,
+        [resolucion.contactoSugeridoId, conversacion.id, tenantId]
+      );
+      return null;
+    }
+
+    await query(
+      `UPDATE conversaciones SET contacto_id = $1, updated_at = NOW()
+       WHERE id = $2 AND tenant_id = $3`,
+      [resolucion.contacto.id, conversacion.id, tenantId]
+    );
+    return resolucion.contacto.id;
+  } catch (error: any) {
+    console.error(`[ContactosIdentidades] Error resolviendo contacto de ${remitente.canal}:${remitente.externalId}:`, error.message);
+    return null;
+  }
+}
+
+/**
+ * Vincula manualmente una conversación a un contacto del CRM.
+ * La identidad del participante pasa al contacto elegido y, si la conversación
+ * estaba en un contacto auto-creado, ese contacto se fusiona en el elegido.
+ */
+export async function vincularConversacionAContacto(
+  tenantId: string,
+  conversacionId: string,
+  contactoId: string
+): Promise<{ conversacion: Conversacion; fusionado: string | null } | null> {
+  const convResult = await query(
+    'SELECT * FROM conversaciones WHERE id = $1 AND tenant_id = $2',
+    [conversacionId, tenantId]
+  );
+  const conversacion: Conversacion | undefined = convResult.rows[0];
+  if (!conversacion) return null;
+
+  const contacto = await getContactoById(tenantId, contactoId);
+  if (!contacto || !contacto.activo) return null;
+
+  let fusionado: string | null = null;
+  const anteriorId = conversacion.contacto_id;
+  if (anteriorId && anteriorId !== contactoId) {
+    const anterior = await getContactoById(tenantId, anteriorId);
+    if (anterior?.datos_extra?.auto_creado_desde) {
+      await fusionarContactos(tenantId, contactoId, anteriorId);
+      fusionado = anteriorId;
+    }
+  }
+
+  if (conversacion.external_participant_id) {
+    const codigoPais = await getCodigoPaisTenant(tenantId);
+    const identidades = identidadesDeRemitente(
+      { canal: conversacion.canal, externalId: conversacion.external_participant_id },
+      codigoPais
+    );
+    await registrarIdentidades(tenantId, contactoId, identidades, conversacion.canal);
+  }
+
+  const result = await query(
+    `UPDATE conversaciones SET
+       contacto_id = $1,
+       metadata = COALESCE(metadata, '{}'::jsonb) - 'contacto_sugerido_id',
+       updated_at = NOW()
+     WHERE id = $2 AND tenant_id = $3
+     RETURNING *`,
+    [contactoId, conversacionId, tenantId]
+  );
+
+  return { conversacion: result.rows[0], fusionado };
+}
+
+// ==================== HISTORIAL ====================
+
+/**
+ * Identidades registradas de un contacto
+ */
+export async function getIdentidadesContacto(
+  tenantId: string,
+  contactoId: string
+): Promise<ContactoIdentidad[]> {
+  const result = await query(
+    `SELECT * FROM contactos_identidades
+     WHERE tenant_id = $1 AND contacto_id = $2
+     ORDER BY tipo, created_at`,
+    [tenantId, contactoId]
+  );
+  return result.rows;
+}
+
+/**
+ * Historial de mensajería del contacto en todos los canales:
+ * sus conversaciones y la línea de tiempo unificada de mensajes (más recientes primero).
+ */
+export async function getHistorialMensajeriaContacto(
+  tenantId: string,
+  contactoId: string,
+  page: number = 1,
+  limit: number = 50
+): Promise<{
+  identidades: ContactoIdentidad[];
+  conversaciones: Conversacion[];
+  mensajes: PaginatedResult<Mensaje & { canal: CanalType }>;
+}> {
+  const offset = (page - 1) * limit;
+
+  const [identidades, conversacionesResult, countResult, mensajesResult] = await Promise.all([
+    getIdentidadesContacto(tenantId, contactoId),
+    query(
+      `SELECT * FROM conversaciones
+       WHERE tenant_id = $1 AND contacto_id = $2 AND estado <> 'eliminada'
+       ORDER BY ultimo_mensaje_at DESC NULLS LAST, created_at DESC`,
+      [tenantId, contactoId]
+    ),
+    query(
+      `SELECT COUNT(*) as total
+       FROM mensajes m
+       INNER JOIN conversaciones c ON c.id = m.conversacion_id
+       WHERE c.tenant_id = $1 AND c.contacto_id = $2 AND c.estado <> 'eliminada'`,
+      [tenantId, contactoId]
+    ),
+    query(
+      `SELECT m.*, c.canal
+       FROM mensajes m
+       INNER JOIN conversaciones c ON c.id = m.conversacion_id
+       WHERE c.tenant_id = $1 AND c.contacto_id = $2 AND c.estado <> 'eliminada'
+       ORDER BY m.created_at DESC
+       LIMIT $3 OFFSET $4`,
+      [tenantId, contactoId, limit, offset]
+    ),
+  ]);
+
+  const total = parseInt(countResult.rows[0].total);
+
+  return {
+    identidades,
+    conversaciones: conversacionesResult.rows,
+    mensajes: {
+      data: mensajesResult.rows,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    },
+  };
+}
@@ -0,0 +1,782 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { query, transaction } from '../../utils/db.js';
+import { invalidarCacheRender } from '../renderCacheService.js';
+
+/**
+ * Servicio de borradores y revisiones de páginas del sitio web
+ *
+ * - Las ediciones de componentes desde el CRM (paginasService) se guardan en
+ *   paginas_borradores; componentes_web solo cambia al publicar
+ * - Publicar (ahora, programado o rollback) reemplaza los componentes de la página
+ *   en componentes_web y registra una revisión con el diff respecto a la anterior
+ * - Un borrador recuerda la huella de lo publicado cuando se creó: si lo publicado
+ *   cambió después, publicarlo se rechaza (ConflictoPublicacionError) salvo que se fuerce
+ * - El sitio puede renderizar el borrador con un token de preview firmado
+ *   (resolveRoute con { borrador: true })
+ *
+ * Una "página" es un tipo de página estándar, una página custom o, con ambos
+ * ids en null, los componentes globales (header/footer).
+ */
+
+// ========================================
+// TIPOS
+// ========================================
+
+export interface PaginaRef {
+  tipo_pagina_id: string | null;
+  tenant_rutas_config_custom_id: string | null;
+}
+
+export interface ComponenteSnapshot {
+  id: string;
+  componente_catalogo_id: string;
+  nombre: string;
+  datos: any;
+  orden: number;
+  activo: boolean;
+}
+
+export interface BorradorPagina extends PaginaRef {
+  id: string;
+  tenant_id: string;
+  componentes: ComponenteSnapshot[];
+  publicar_en: string | null;
+  base_huella: string | null; // huella de lo publicado cuando se creó el borrador
+  created_by: string | null;
+  updated_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type OrigenRevision = 'inicial' | 'publicacion' | 'programada' | 'rollback' | 'experimento';
+
+export interface CambiosRevision {
+  agregados: Array<{ id: string; nombre: string }>;
+  eliminados: Array<{ id: string; nombre: string }>;
+  modificados: Array<{ id: string; nombre: string; campos: string[] }>;
+  reordenados: boolean;
+}
+
+export interface RevisionPagina extends PaginaRef {
+  id: string;
+  tenant_id: string;
+  numero: number;
+  componentes?: ComponenteSnapshot[];
+  cambios: CambiosRevision | null;
+  origen: OrigenRevision;
+  mensaje: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface ResultadoPublicacionProgramada {
+  borradores: number;
+  publicados: number;
+  fallidos: number;
+}
+
+/**
+ * Lo publicado cambió desde que se creó el borrador: publicarlo borraría o pisaría
+ * esos cambios (se responde como 409)
+ */
+export class ConflictoPublicacionError extends Error {
+  statusCode = 409;
+
+  constructor() {
+    super('Los componentes publicados cambiaron desde que se creó el borrador. Revisa los cambios o publica forzando la sobrescritura');
+    this.name = 'ConflictoPublicacionError';
+  }
+}
+
+const PREVIEW_SECRET = process.env.PREVIEW_SECRET || process.env.JWT_SECRET || 'default-dev-key-change-in-production';
+const PREVIEW_TTL_SEGUNDOS = 60 * 60 * 24;
+
+// Filtro por página que también acepta los NULL de los componentes globales
+function filtroPagina(desde: number, alias = ''): string {
+  const p = alias ? `${alias}.` : '';
+  return `${p}tipo_pagina_id IS NOT DISTINCT FROM $${desde}::uuid
+    AND ${p}tenant_rutas_config_custom_id IS NOT DISTINCT FROM $${desde + 1}::uuid`;
+}
+
+function paramsPagina(pagina: PaginaRef): [string | null, string | null] {
+  return [pagina.tipo_pagina_id || null, pagina.tenant_rutas_config_custom_id || null];
+}
+
+function ejecutor(client?: any): { query: (text: string, params?: any[]) => Promise<any> } {
+  return client ?? { query };
+}
+
+// ========================================
+// 1. LECTURA
+// ========================================
+
+/**
+ * Componentes publicados (componentes_web) de una página, en el formato de snapshot
+ */
+export async function getComponentesPublicados(
+  tenantId: string,
+  pagina: PaginaRef,
+  client?: any
+): Promise<ComponenteSnapshot[]> {
+  const result = await ejecutor(client).query(
+    `SELECT id, componente_catalogo_id, nombre, datos, orden, activo
+     FROM componentes_web
+     WHERE tenant_id = $1 AND ${filtroPagina(2)}
+     ORDER BY orden ASC`,
+    [tenantId, ...paramsPagina(pagina)]
+  );
+  return result.rows.map((row: any) => ({
+    ...row,
+    datos: typeof row.datos === 'string' ? JSON.parse(row.datos) : row.datos,
+  }));
+}
+
+/**
+ * Huella de los componentes publicados de la página: cambia si se agrega, elimina o
+ * modifica cualquiera de ellos
+ */
+export async function getHuellaPublicada(tenantId: string, pagina: PaginaRef, client?: any): Promise<string> {
+  const result = await ejecutor(client).query(
+    `SELECT md5(COALESCE(string_agg(
+       md5(ROW(id, componente_catalogo_id, nombre, datos, orden, activo)::text),
+       ',' ORDER BY id
+     ), '')) as huella
+     FROM componentes_web
+     WHERE tenant_id = $1 AND ${filtroPagina(2)}`,
+    [tenantId, ...paramsPagina(pagina)]
+  );
+  return result.rows[0].huella;
+}
+
+export async function getBorrador(tenantId: string, pagina: PaginaRef, client?: any): Promise<BorradorPagina | null> {
+  const result = await ejecutor(client).query(
+    `SELECT * FROM paginas_borradores
+     WHERE tenant_id = $1 AND ${filtroPagina(2)}
+     ${client ? 'FOR UPDATE' : ''}`,
+    [tenantId, ...paramsPagina(pagina)]
+  );
+  return result.rows[0] || null;
+}
+
+export async function getBorradorPorId(tenantId: string, borradorId: string): Promise<BorradorPagina | null> {
+  const result = await query(
+    `SELECT * FROM paginas_borradores WHERE id = $1 AND tenant_id = $2`,
+    [borradorId, tenantId]
+  );
+  return result.rows[0] || null;
+}
+
+/**
+ * Borradores pendientes del tenant con el nombre de su página
+ */
+export async function listarBorradores(tenantId: string): Promise<any[]> {
+  const result = await query(
+    `SELECT
+       pb.id, pb.tipo_pagina_id, pb.tenant_rutas_config_custom_id,
+       COALESCE(tp.nombre, trc.titulo, 'Componentes globales') as pagina,
+       COALESCE(tp.codigo, trc.slug) as pagina_codigo,
+       jsonb_array_length(pb.componentes) as total_componentes,
+       pb.publicar_en, pb.created_by, pb.updated_by, pb.created_at, pb.updated_at
+     FROM paginas_borradores pb
+     LEFT JOIN tipos_pagina tp ON tp.id = pb.tipo_pagina_id
+     LEFT JOIN tenants_rutas_config_custom trc ON trc.id = pb.tenant_rutas_config_custom_id
+     WHERE pb.tenant_id = $1
+     ORDER BY pb.updated_at DESC`,
+    [tenantId]
+  );
+  return result.rows;
+}
+
+/**
+ * Borrador de la página; si no existe se crea como copia de lo publicado
+ */
+export async function obtenerOCrearBorrador(
+  tenantId: string,
+  pagina: PaginaRef,
+  usuarioId?: string | null,
+  client?: any
+): Promise<BorradorPagina> {
+  const existente = await getBorrador(tenantId, pagina, client);
+  if (existente) return existente;
+
+  const publicados = await getComponentesPublicados(tenantId, pagina, client);
+  const huella = await getHuellaPublicada(tenantId, pagina, client);
+  const result = await ejecutor(client).query(
+    `INSERT INTO paginas_borradores (
+       tenant_id, tipo_pagina_id, tenant_rutas_config_custom_id, componentes, base_huella, created_by, updated_by
+     ) VALUES ($1, $2, $3, $4, $5, $6, $6)
+     RETURNING *`,
+    [tenantId, ...paramsPagina(pagina), JSON.stringify(publicados), huella, usuarioId || null]
+  );
+  return result.rows[0];
+}
+
+/**
+ * Página a la que pertenece un componente: primero los borradores (un componente
+ * recién agregado aún no existe en componentes_web), después lo publicado
+ */
+export async function getPaginaDeComponente(tenantId: string, componenteId: string): Promise<PaginaRef | null> {
+  const enBorrador = await query(
+    `SELECT tipo_pagina_id, tenant_rutas_config_custom_id
+     FROM paginas_borradores
+     WHERE tenant_id = $1 AND componentes @> $2::jsonb
+     LIMIT 1`,
+    [tenantId, JSON.stringify([{ id: componenteId }])]
+  );
+  if (enBorrador.rows.length > 0) return enBorrador.rows[0];
+
+  const publicado = await query(
+    `SELECT tipo_pagina_id, tenant_rutas_config_custom_id
+     FROM componentes_web
+     WHERE id = $1 AND tenant_id = $2`,
+    [componenteId, tenantId]
+  );
+  return publicado.rows[0] || null;
+}
+
+/**
+ * Componentes activos del borrador con tipo y variantes del catálogo, con las mismas
+ * columnas que usa getSeccionesResueltas. null si la página no tiene borrador.
+ * Con rutaCustomId se busca el borrador de esa página custom; si no, el del tipo de
+ * página (tipoPaginaCodigo null = componentes globales).
+ */
+export async function getSeccionesBorrador(
+  tenantId: string,
+  tipoPaginaCodigo: string | null,
+  rutaCustomId?: string | null
+): Promise<any[] | null> {
+  let borrador;
+  if (rutaCustomId) {
+    borrador = await query(
+      `SELECT pb.id FROM paginas_borradores pb
+       WHERE pb.tenant_id = $1 AND pb.tenant_rutas_config_custom_id = $2`,
+      [tenantId, rutaCustomId]
+    );
+  } else {
+    borrador = await query(
+      tipoPaginaCodigo
+        ? `SELECT pb.id FROM paginas_borradores pb
+           INNER JOIN tipos_pagina tp ON tp.id = pb.tipo_pagina_id
+           WHERE pb.tenant_id = $1 AND tp.codigo = $2 AND pb.tenant_rutas_config_custom_id IS NULL`
+        : `SELECT pb.id FROM paginas_borradores pb
+           WHERE pb.tenant_id = $1 AND pb.tipo_pagina_id IS NULL AND pb.tenant_rutas_config_custom_id IS NULL`,
+      tipoPaginaCodigo ? [tenantId, tipoPaginaCodigo] : [tenantId]
+    );
+  }
+  if (borrador.rows.length === 0) return null;
+
+  const result = await query(
+    `SELECT
+       c.id,
+       pb.tenant_id as "tenantId",
+       cc.tipo,
+       cc.variantes,
+       c.nombre,
+       c.datos,
+       c.activo,
+       c.orden
+     FROM paginas_borradores pb
+     CROSS JOIN LATERAL jsonb_to_recordset(pb.componentes)
+       AS c(id uuid, componente_catalogo_id uuid, nombre text, datos jsonb, orden integer, activo boolean)
+     INNER JOIN catalogo_componentes cc ON cc.id = c.componente_catalogo_id
+     WHERE pb.id = $1 AND c.activo = true
+     ORDER BY c.orden ASC`,
+    [borrador.rows[0].id]
+  );
+  return result.rows;
+}
+
+// ========================================
+// 2. EDICIÓN DEL BORRADOR
+// ========================================
+
+/**
+ * Aplica una modificación a los componentes del borrador de la página (creándolo si
+ * no existe). La fila se bloquea para que dos ediciones simultáneas no se pisen.
+ */
+export async function modificarBorrador(
+  tenantId: string,
+  pagina: PaginaRef,
+  mutar: (componentes: ComponenteSnapshot[]) => ComponenteSnapshot[],
+  usuarioId?: string | null
+): Promise<BorradorPagina> {
+  return transaction(async (client) => {
+    const borrador = await obtenerOCrearBorrador(tenantId, pagina, usuarioId, client);
+    const componentes = mutar(structuredClone(borrador.componentes || []));
+
+    const result = await client.query(
+      `UPDATE paginas_borradores
+       SET componentes = $2, updated_by = COALESCE($3, updated_by), updated_at = NOW()
+       WHERE id = $1
+       RETURNING *`,
+      [borrador.id, JSON.stringify(componentes), usuarioId || null]
+    );
+    return result.rows[0];
+  });
+}
+
+/**
+ * Modifica un componente del borrador de su página y lo devuelve
+ */
+export async function modificarComponenteBorrador(
+  tenantId: string,
+  componenteId: string,
+  mutar: (componente: ComponenteSnapshot) => void,
+  usuarioId?: string | null
+): Promise<ComponenteSnapshot & PaginaRef> {
+  const pagina = await getPaginaDeComponente(tenantId, componenteId);
+  if (!pagina) {
+    throw new Error('Componente no encontrado');
+  }
+
+  let modificado: ComponenteSnapshot | null = null;
+  await modificarBorrador(tenantId, pagina, (componentes) => {
+    modificado = componentes.find(c => c.id === componenteId) || null;
+    if (!modificado) {
+      throw new Error('Componente no encontrado');
+    }
+    mutar(modificado);
+    return componentes;
+  }, usuarioId);
+
+  return { ...modificado!, ...pagina };
+}
+
+export async function descartarBorrador(tenantId: string, pagina: PaginaRef): Promise<boolean> {
+  const result = await query(
+    `DELETE FROM paginas_borradores WHERE tenant_id = $1 AND ${filtroPagina(2)}`,
+    [tenantId, ...paramsPagina(pagina)]
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+/**
+ * Programa (o con null desprograma) la publicación del borrador
+ */
+export async function programarPublicacion(
+  tenantId: string,
+  pagina: PaginaRef,
+  publicarEn: Date | null
+): Promise<BorradorPagina> {
+  const result = await query(
+    `UPDATE paginas_borradores
+     SET publicar_en = $4, updated_at = NOW()
+     WHERE tenant_id = $1 AND ${filtroPagina(2)}
+     RETURNING *`,
+    [tenantId, ...paramsPagina(pagina), publicarEn]
+  );
+  if (result.rows.length === 0) {
+    throw new Error('La página no tiene borrador');
+  }
+  return result.rows[0];
+}
+
+// ========================================
+// 3. PUBLICACIÓN Y REVISIONES
+// ========================================
+
+/**
+ * Reemplaza los componentes publicados de la página: borra los que ya no están,
+ * actualiza los existentes e inserta los nuevos (conservando sus ids)
+ */
+async function aplicarComponentes(
+  client: any,
+  tenantId: string,
+  pagina: PaginaRef,
+  componentes: ComponenteSnapshot[]
+): Promise<void> {
+  const catalogo = await client.query(
+    `SELECT id FROM catalogo_componentes WHERE id = ANY($1::uuid[])`,
+    [[...new Set(componentes.map(c => c.componente_catalogo_id))]]
+  );
+  const existentes = new Set(catalogo.rows.map((r: any) => r.id));
+  const faltantes = componentes.filter(c => !existentes.has(c.componente_catalogo_id));
+  if (faltantes.length > 0) {
+    throw new Error(`Componentes que ya no existen en el catálogo: ${faltantes.map(c => c.nombre).join(', ')}`);
+  }
+
+  await client.query(
+    `DELETE FROM componentes_web
+     WHERE tenant_id = $1 AND ${filtroPagina(2)} AND NOT (id = ANY($4::uuid[]))`,
+    [tenantId, ...paramsPagina(pagina), componentes.map(c => c.id)]
+  );
+
+  for (const c of componentes) {
+    await client.query(
+      `INSERT INTO componentes_web (
+         id, tenant_id, componente_catalogo_id, tipo_pagina_id, tenant_rutas_config_custom_id,
+         nombre, datos, orden, activo, created_at, updated_at
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, NOW(), NOW())
+       ON CONFLICT (id) DO UPDATE SET
+         componente_catalogo_id = EXCLUDED.componente_catalogo_id,
+         nombre = EXCLUDED.nombre,
+         datos = EXCLUDED.datos,
+         orden = EXCLUDED.orden,
+         activo = EXCLUDED.activo,
+         updated_at = NOW()
+       WHERE componentes_web.tenant_id = EXCLUDED.tenant_id`,
+      [
+        c.id,
+        tenantId,
+        c.componente_catalogo_id,
+        ...paramsPagina(pagina),
+        c.nombre,
+        JSON.stringify(c.datos ?? {}),
+        c.orden,
+        c.activo !== false,
+      ]
+    );
+  }
+}
+
+async function registrarRevision(
+  client: any,
+  tenantId: string,
+  pagina: PaginaRef,
+  datos: {
+    componentes: ComponenteSnapshot[];
+    cambios: CambiosRevision | null;
+    origen: OrigenRevision;
+    mensaje?: string | null;
+    usuarioId?: string | null;
+  }
+): Promise<RevisionPagina> {
+  const ultimo = await client.query(
+    `SELECT COALESCE(MAX(numero), 0) as numero FROM paginas_revisiones
+     WHERE tenant_id = $1 AND ${filtroPagina(2)}`,
+    [tenantId, ...paramsPagina(pagina)]
+  );
+
+  const result = await client.query(
+    `INSERT INTO paginas_revisiones (
+       tenant_id, tipo_pagina_id, tenant_rutas_config_custom_id, numero,
+       componentes, cambios, origen, mensaje, created_by
+     ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+     RETURNING *`,
+    [
+      tenantId,
+      ...paramsPagina(pagina),
+      Number(ultimo.rows[0].numero) + 1,
+      JSON.stringify(datos.componentes),
+      datos.cambios ? JSON.stringify(datos.cambios) : null,
+      datos.origen,
+      datos.mensaje || null,
+      datos.usuarioId || null,
+    ]
+  );
+  return result.rows[0];
+}
+
+/**
+ * Publica componentes en la página y registra la revisión. La primera vez guarda
+ * además lo que estaba publicado como revisión "inicial", para poder volver a ello.
+ */
+async function publicarComponentes(
+  client: any,
+  tenantId: string,
+  pagina: PaginaRef,
+  componentes: ComponenteSnapshot[],
+  datos: { origen: OrigenRevision; mensaje?: string | null; usuarioId?: string | null }
+): Promise<RevisionPagina> {
+  const publicados = await getComponentesPublicados(tenantId, pagina, client);
+
+  const revisiones = await client.query(
+    `SELECT 1 FROM paginas_revisiones WHERE tenant_id = $1 AND ${filtroPagina(2)} LIMIT 1`,
+    [tenantId, ...paramsPagina(pagina)]
+  );
+  if (revisiones.rows.length === 0 && publicados.length > 0) {
+    await registrarRevision(client, tenantId, pagina, {
+      componentes: publicados,
+      cambios: null,
+      origen: 'inicial',
+      mensaje: 'Estado publicado antes del primer borrador',
+    });
+  }
+
+  await aplicarComponentes(client, tenantId, pagina, componentes);
+
+  return registrarRevision(client, tenantId, pagina, {
+    componentes,
+    cambios: calcularCambios(publicados, componentes),
+    ...datos,
+  });
+}
+
+/**
+ * Publica el borrador de la página y lo elimina. Si lo publicado cambió desde que se
+ * creó el borrador lanza ConflictoPublicacionError, salvo con forzar: true.
+ */
+export async function publicarBorrador(
+  tenantId: string,
+  pagina: PaginaRef,
+  opciones: { usuarioId?: string | null; mensaje?: string | null; origen?: OrigenRevision; forzar?: boolean } = {}
+): Promise<RevisionPagina> {
+  const revision = await transaction(async (client) => {
+    const borrador = await getBorrador(tenantId, pagina, client);
+    if (!borrador) {
+      throw new Error('La página no tiene borrador');
+    }
+
+    if (borrador.base_huella && !opciones.forzar) {
+      const huellaActual = await getHuellaPublicada(tenantId, pagina, client);
+      if (huellaActual !== borrador.base_huella) {
+        throw new ConflictoPublicacionError();
+      }
+    }
+
+    const nueva = await publicarComponentes(client, tenantId, pagina, borrador.componentes || [], {
+      origen: opciones.origen || 'publicacion',
+      mensaje: opciones.mensaje,
+      usuarioId: opciones.usuarioId ?? borrador.updated_by,
+    });
+
+    await client.query(`DELETE FROM paginas_borradores WHERE id = $1`, [borrador.id]);
+    return nueva;
+  });
+
+  console.log(`✅ Página publicada (revisión #${revision.numero}, ${revision.origen})`);
+  await invalidarCacheRender(tenantId, 'página publicada');
+  return revision;
+}
+
+/**
+ * Rollback: vuelve a publicar los componentes de una revisión anterior como una
+ * revisión nueva. El borrador pendiente de la página, si existe, no se toca.
+ */
+export async function restaurarRevision(
+  tenantId: string,
+  revisionId: string,
+  usuarioId?: string | null
+): Promise<RevisionPagina> {
+  const anterior = await getRevision(tenantId, revisionId);
+  if (!anterior) {
+    throw new Error('Revisión no encontrada');
+  }
+
+  const pagina: PaginaRef = {
+    tipo_pagina_id: anterior.tipo_pagina_id,
+    tenant_rutas_config_custom_id: anterior.tenant_rutas_config_custom_id,
+  };
+
+  const revision = await transaction(async (client) =>
+    publicarComponentes(client, tenantId, pagina, anterior.componentes || [], {
+      origen: 'rollback',
+      mensaje: `Restaurada la revisión #${anterior.numero}`,
+      usuarioId,
+    })
+  );
+
+  await invalidarCacheRender(tenantId, 'revisión restaurada');
+  return revision;
+}
+
+/**
+ * Publica una foto de componentes que no viene de un borrador (ej: la variante
+ * ganadora de un experimento A/B)
+ */
+export async function publicarSnapshot(
+  tenantId: string,
+  pagina: PaginaRef,
+  componentes: ComponenteSnapshot[],
+  datos: { origen: OrigenRevision; mensaje?: string | null; usuarioId?: string | null }
+): Promise<RevisionPagina> {
+  const revision = await transaction(async (client) =>
+    publicarComponentes(client, tenantId, pagina, componentes, datos)
+  );
+
+  await invalidarCacheRender(tenantId, `página publicada (${datos.origen})`);
+  return revision;
+}
+
+export async function listarRevisiones(
+  tenantId: string,
+  pagina: PaginaRef,
+  opciones: { page?: number; limit?: number } = {}
+): Promise<{ data: Array<RevisionPagina & { autor: string | null }>; total: number }> {
+  const limit = Math.min(opciones.limit || 20, 100);
+  const offset = ((opciones.page || 1) - 1) * limit;
+  const params = [tenantId, ...paramsPagina(pagina)];
+
+  const [result, total] = await Promise.all([
+    query(
+      `SELECT r.id, r.tenant_id, r.tipo_pagina_id, r.tenant_rutas_config_custom_id, r.numero,
+              r.cambios, r.origen, r.mensaje, r.created_by, r.created_at,
+              NULLIF(TRIM(CONCAT(u.nombre, ' ', u.apellido)), '') as autor
+       FROM paginas_revisiones r
+       LEFT JOIN usuarios u ON u.id = r.created_by
+       WHERE r.tenant_id = $1 AND ${filtroPagina(2, 'r')}
+       ORDER BY r.numero DESC
+       LIMIT ${limit} OFFSET ${offset}`,
+      params
+    ),
+    query(
+      `SELECT COUNT(*) as total FROM paginas_revisiones WHERE tenant_id = $1 AND ${filtroPagina(2)}`,
+      params
+    ),
+  ]);
+
+  return { data: result.rows, total: parseInt(total.rows[0].total, 10) };
+}
+
+export async function getRevision(tenantId: string, revisionId: string): Promise<RevisionPagina | null> {
+  const result = await query(
+    `SELECT * FROM paginas_revisiones WHERE id = $1 AND tenant_id = $2`,
+    [revisionId, tenantId]
+  );
+  return result.rows[0] || null;
+}
+
+/**
+ * Cambios que publicaría el borrador respecto a lo publicado ahora
+ */
+export async function compararBorrador(tenantId: string, borrador: BorradorPagina): Promise<CambiosRevision> {
+  const publicados = await getComponentesPublicados(tenantId, borrador);
+  return calcularCambios(publicados, borrador.componentes || []);
+}
+
+/**
+ * Diff entre una revisión y otra de la misma página, o lo publicado ahora si no se indica
+ */
+export async function compararRevision(
+  tenantId: string,
+  revisionId: string,
+  contraRevisionId?: string
+): Promise<{ desde: number; hasta: number | 'publicado'; cambios: CambiosRevision } | null> {
+  const revision = await getRevision(tenantId, revisionId);
+  if (!revision) return null;
+
+  if (contraRevisionId) {
+    const contra = await getRevision(tenantId, contraRevisionId);
+    if (!contra) return null;
+    return {
+      desde: revision.numero,
+      hasta: contra.numero,
+      cambios: calcularCambios(revision.componentes || [], contra.componentes || []),
+    };
+  }
+
+  const publicados = await getComponentesPublicados(tenantId, revision);
+  return {
+    desde: revision.numero,
+    hasta: 'publicado',
+    cambios: calcularCambios(revision.componentes || [], publicados),
+  };
+}
+
+/**
+ * Diferencias entre dos snapshots de componentes. En modificados, campos son las
+ * rutas que cambiaron (nombre, variante, activo o datos.static_data.titulo...)
+ */
+export function calcularCambios(antes: ComponenteSnapshot[], despues: ComponenteSnapshot[]): CambiosRevision {
+  const porIdAntes = new Map(antes.map(c => [c.id, c]));
+  const porIdDespues = new Map(despues.map(c => [c.id, c]));
+
+  const cambios: CambiosRevision = { agregados: [], eliminados: [], modificados: [], reordenados: false };
+
+  for (const c of despues) {
+    if (!porIdAntes.has(c.id)) cambios.agregados.push({ id: c.id, nombre: c.nombre });
+  }
+  for (const c of antes) {
+    if (!porIdDespues.has(c.id)) cambios.eliminados.push({ id: c.id, nombre: c.nombre });
+  }
+
+  for (const nuevo of despues) {
+    const viejo = porIdAntes.get(nuevo.id);
+    if (!viejo) continue;
+
+    const campos: string[] = [];
+    if (viejo.componente_catalogo_id !== nuevo.componente_catalogo_id) campos.push('variante');
+    if (viejo.nombre !== nuevo.nombre) campos.push('nombre');
+    if ((viejo.activo !== false) !== (nuevo.activo !== false)) campos.push('activo');
+    campos.push(...rutasModificadas(viejo.datos, nuevo.datos, 'datos'));
+
+    if (campos.length > 0) {
+      cambios.modificados.push({ id: nuevo.id, nombre: nuevo.nombre, campos });
+    }
+  }
+
+  const ordenComun = (lista: ComponenteSnapshot[], otros: Map<string, ComponenteSnapshot>) =>
+    [...lista].sort((a, b) => a.orden - b.orden).filter(c => otros.has(c.id)).map(c => c.id);
+  cambios.reordenados = ordenComun(antes, porIdDespues).join() !== ordenComun(despues, porIdAntes).join();
+
+  return cambios;
+}
+
+function rutasModificadas(antes: any, despues: any, ruta: string): string[] {
+  const esObjeto = (v: any) => v !== null && typeof v === 'object' && !Array.isArray(v);
+  if (!esObjeto(antes) || !esObjeto(despues)) {
+    return JSON.stringify(antes ?? null) === JSON.stringify(despues ?? null) ? [] : [ruta];
+  }
+
+  const claves = new Set([...Object.keys(antes), ...Object.keys(despues)]);
+  return [...claves].flatMap(clave => rutasModificadas(antes[clave], despues[clave], `${ruta}.${clave}`));
+}
+
+// ========================================
+// 4. PUBLICACIÓN PROGRAMADA (cron)
+// ========================================
+
+export async function publicarBorradoresProgramados(): Promise<ResultadoPublicacionProgramada> {
+  const pendientes = await query(
+    `SELECT id, tenant_id, tipo_pagina_id, tenant_rutas_config_custom_id
+     FROM paginas_borradores
+     WHERE publicar_en IS NOT NULL AND publicar_en <= NOW()
+     ORDER BY publicar_en ASC`
+  );
+
+  const resultado: ResultadoPublicacionProgramada = { borradores: pendientes.rows.length, publicados: 0, fallidos: 0 };
+
+  for (const borrador of pendientes.rows) {
+    try {
+      await publicarBorrador(borrador.tenant_id, borrador, { origen: 'programada', mensaje: 'Publicación programada' });
+      resultado.publicados++;
+    } catch (error: any) {
+      console.error(`❌ Error publicando borrador programado ${borrador.id}:`, error.message);
+      resultado.fallidos++;
+
+      // Un conflicto no se resuelve solo: se desprograma para que alguien lo revise
+      if (error instanceof ConflictoPublicacionError) {
+        await query(`UPDATE paginas_borradores SET publicar_en = NULL, updated_at = NOW() WHERE id = $1`, [borrador.id]);
+      }
+    }
+  }
+
+  return resultado;
+}
+
+// ========================================
+// 5. TOKENS DE PREVIEW
+// ========================================
+
+function firmarPreview(tenantId: string, expira: number): string {
+  return createHmac('sha256', PREVIEW_SECRET).update(`${tenantId}.${expira}`).digest('base64url');
+}
+
+/**
+ * Token para ver los borradores del tenant en el sitio (?preview=token)
+ */
+export function generarTokenPreview(
+  tenantId: string,
+  ttlSegundos: number = PREVIEW_TTL_SEGUNDOS
+): { token: string; expira_at: string } {
+  const expira = Math.floor(Date.now() / 1000) + ttlSegundos;
+  return {
+    token: `${tenantId}.${expira}.${firmarPreview(tenantId, expira)}`,
+    expira_at: new Date(expira * 1000).toISOString(),
+  };
+}
+
+/**
+ * tenantId del token si la firma es válida y no expiró; null en otro caso
+ */
+export function verificarTokenPreview(token: string): string | null {
+  const [tenantId, expiraTexto, firma] = (token || '').split('.');
+  const expira = parseInt(expiraTexto, 10);
+  if (!tenantId || !firma || !expira || expira < Date.now() / 1000) return null;
+
+  const esperada = Buffer.from(firmarPreview(tenantId, expira));
+  const recibida = Buffer.from(firma);
+  if (esperada.length !== recibida.length || !timingSafeEqual(esperada, recibida)) return null;
+
+  return tenantId;
+}
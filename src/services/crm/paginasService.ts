@@ -1,5 +1,14 @@
 import { query } from '../../utils/db.js';
 import { v4 as uuidv4 } from 'uuid';
+import {
+  PaginaRef,
+  ComponenteSnapshot,
+  getBorrador,
+  getPaginaDeComponente,
+  modificarBorrador,
+  modificarComponenteBorrador,
+} from './paginasBorradoresService.js';
+import { getSchemasCatalogo, asegurarDatosComponente } from '../componentesSchemaService.js';
 
 /**
  * Servicio de gestión de páginas del CRM
@@ -12,6 +21,10 @@ import { v4 as uuidv4 } from 'uuid';
  *   - tipo_pagina_id (para páginas estándar)
  *   - tenant_rutas_config_custom_id (para páginas custom)
  *
+ * BORRADORES: agregar, editar, eliminar, reordenar y cambiar variante de componentes
+ * modifican el borrador de la página (paginas_borradores), no componentes_web.
+ * Los cambios llegan al sitio al publicar (ver paginasBorradoresService).
+ *
  * TABLAS OBSOLETAS (NO USAR - planificadas para eliminación):
  * - paginas_web: DEPRECADA
  * - paginas_componentes: DEPRECADA
@@ -140,7 +153,30 @@ export async function obtenerPaginaEditorService(
   const tipoPagina = tipoPaginaResult.rows[0];
 
   // 2. Obtener componentes del tenant para este tipo de página
-  const componentesResult = await query(
+  // Si la página tiene borrador, el editor trabaja sobre él en lugar de lo publicado
+  const borrador = await getBorrador(tenantId, refPagina(tipoPaginaId));
+  const componentesResult = borrador ? await query(
+    `
+    SELECT
+      c.id as componente_id,
+      c.id as relacion_id,
+      c.nombre as variante,
+      c.datos as default_data,
+      c.orden,
+      c.activo,
+      cc.id as catalogo_id,
+      cc.tipo,
+      cc.nombre as catalogo_nombre,
+      cc.campos_config
+    FROM paginas_borradores pb
+    CROSS JOIN LATERAL jsonb_to_recordset(pb.componentes)
+      AS c(id uuid, componente_catalogo_id uuid, nombre text, datos jsonb, orden integer, activo boolean)
+    JOIN catalogo_componentes cc ON cc.id = c.componente_catalogo_id
+    WHERE pb.id = $1
+    ORDER BY c.orden ASC
+    `,
+    [borrador.id]
+  ) : await query(
     `
     SELECT
       cw.id as componente_id,
@@ -217,7 +253,12 @@ export async function obtenerPaginaEditorService(
   return {
     pagina: tipoPagina,
     componentes_asignados: componentesConDatos,
-    componentes_disponibles: componentesDisponibles.rows
+    componentes_disponibles: componentesDisponibles.rows,
+    borrador: borrador ? {
+      id: borrador.id,
+      publicar_en: borrador.publicar_en,
+      updated_at: borrador.updated_at
+    } : null
   };
 }
 
@@ -355,7 +396,7 @@ export async function eliminarPaginaService(
 }
 
 // ========================================
-// 9. AGREGAR COMPONENTE A PÁGINA
+// 9. AGREGAR COMPONENTE A PÁGINA (en el borrador)
 // ========================================
 export async function agregarComponenteService(
   tenantId: string,
@@ -368,6 +409,7 @@ export async function agregarComponenteService(
 ) {
   // Determinar si es página estándar o custom
   const esPaginaCustom = data.es_pagina_custom || false;
+  const pagina = refPagina(tipoPaginaIdOrCustomId, esPaginaCustom);
 
   // Buscar el componente en el catálogo
   const catalogoComponente = await query(
@@ -382,49 +424,30 @@ export async function agregarComponenteService(
 
   const catalogo = catalogoComponente.rows[0];
 
-  // Obtener el último orden si no se especificó
-  let orden = data.orden;
-  if (orden === undefined) {
-    const maxOrdenResult = await query(
-      esPaginaCustom
-        ? `SELECT COALESCE(MAX(orden), 0) as max_orden FROM componentes_web WHERE tenant_id = $1 AND tenant_rutas_config_custom_id = $2`
-        : `SELECT COALESCE(MAX(orden), 0) as max_orden FROM componentes_web WHERE tenant_id = $1 AND tipo_pagina_id = $2`,
-      [tenantId, tipoPaginaIdOrCustomId]
-    );
-    orden = maxOrdenResult.rows[0].max_orden + 1;
-  }
+  // Crear el componente en el borrador (sin orden especificado, va al final)
+  const componente: ComponenteSnapshot = {
+    id: uuidv4(),
+    componente_catalogo_id: catalogo.id,
+    nombre: catalogo.nombre,
+    datos: catalogo.campos_config || {},
+    orden: data.orden ?? 0,
+    activo: true
+  };
 
-  // Crear el componente en componentes_web
-  const componenteId = uuidv4();
-  const insertQuery = esPaginaCustom
-    ? `INSERT INTO componentes_web (
-        id, tenant_id, componente_catalogo_id, tenant_rutas_config_custom_id,
-        nombre, datos, orden, activo, created_at, updated_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, true, NOW(), NOW())
-      RETURNING *`
-    : `INSERT INTO componentes_web (
-        id, tenant_id, componente_catalogo_id, tipo_pagina_id,
-        nombre, datos, orden, activo, created_at, updated_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, true, NOW(), NOW())
-      RETURNING *`;
-
-  const result = await query(insertQuery, [
-    componenteId,
-    tenantId,
-    catalogo.id,
-    tipoPaginaIdOrCustomId,
-    catalogo.nombre,
-    JSON.stringify(catalogo.campos_config || {}),
-    orden
-  ]);
+  await modificarBorrador(tenantId, pagina, (componentes) => {
+    if (data.orden === undefined) {
+      componente.orden = componentes.reduce((max, c) => Math.max(max, c.orden), 0) + 1;
+    }
+    return [...componentes, componente];
+  });
 
-  console.log(`✅ Componente ${catalogo.tipo} agregado a ${esPaginaCustom ? 'página custom' : 'tipo de página'}`);
+  console.log(`✅ Componente ${catalogo.tipo} agregado al borrador de ${esPaginaCustom ? 'página custom' : 'tipo de página'}`);
 
-  return result.rows[0];
+  return { ...componente, tenant_id: tenantId, ...pagina };
 }
 
 // ========================================
-// 10. ACTUALIZAR COMPONENTE
+// 10. ACTUALIZAR COMPONENTE (en el borrador)
 // ========================================
 export async function actualizarComponenteService(
   tenantId: string,
@@ -435,54 +458,47 @@ export async function actualizarComponenteService(
     nombre?: string;
   }
 ) {
-  const result = await query(
-    `
-    UPDATE componentes_web
-    SET
-      datos = COALESCE($3, datos),
-      activo = COALESCE($4, activo),
-      nombre = COALESCE($5, nombre),
-      updated_at = NOW()
-    WHERE id = $1 AND tenant_id = $2
-    RETURNING *
-    `,
-    [
-      componenteId,
-      tenantId,
-      data.datos ? JSON.stringify(data.datos) : null,
-      data.activo,
-      data.nombre
-    ]
-  );
-
-  if (result.rows.length === 0) {
-    throw new Error('Componente no encontrado');
-  }
+  const schemas = data.datos ? await getSchemasCatalogo() : null;
+
+  const componente = await modificarComponenteBorrador(tenantId, componenteId, (c) => {
+    if (data.datos) {
+      // Validar contra el JSON Schema del componente del catálogo (revierte el cambio si falla)
+      const schema = schemas?.get(c.componente_catalogo_id);
+      if (schema) asegurarDatosComponente(schema, data.datos);
+      c.datos = data.datos;
+    }
+    if (typeof data.activo === 'boolean') c.activo = data.activo;
+    if (data.nombre) c.nombre = data.nombre;
+  });
 
-  return result.rows[0];
+  return { ...componente, tenant_id: tenantId };
 }
 
 // ========================================
-// 11. ELIMINAR COMPONENTE
+// 11. ELIMINAR COMPONENTE (del borrador)
 // ========================================
 export async function eliminarComponenteService(
   tenantId: string,
   componenteId: string
 ) {
-  const result = await query(
-    `DELETE FROM componentes_web WHERE id = $1 AND tenant_id = $2 RETURNING id`,
-    [componenteId, tenantId]
-  );
+  const pagina = await getPaginaDeComponente(tenantId, componenteId);
 
-  if (result.rows.length === 0) {
+  if (!pagina) {
     throw new Error('Componente no encontrado');
   }
 
+  await modificarBorrador(tenantId, pagina, (componentes) => {
+    if (!componentes.some(c => c.id === componenteId)) {
+      throw new Error('Componente no encontrado');
+    }
+    return componentes.filter(c => c.id !== componenteId);
+  });
+
   return { success: true };
 }
 
 // ========================================
-// 12. REORDENAR COMPONENTES
+// 12. REORDENAR COMPONENTES (en el borrador)
 // ========================================
 export async function reordenarComponentesService(
   tenantId: string,
@@ -506,14 +522,20 @@ export async function reordenarComponentesService(
     return true;
   });
 
-  for (const item of ordenValido) {
-    await query(
-      `UPDATE componentes_web SET orden = $1, updated_at = NOW() WHERE id = $2 AND tenant_id = $3`,
-      [item.orden, item.id, tenantId]
-    );
-  }
+  const nuevoOrden = new Map(ordenValido.map(item => [item.id, item.orden]));
+  let actualizados = 0;
 
-  return { success: true, actualizados: ordenValido.length };
+  await modificarBorrador(
+    tenantId,
+    refPagina(tipoPaginaIdOrCustomId, data.es_pagina_custom),
+    (componentes) => componentes.map(c => {
+      if (!nuevoOrden.has(c.id)) return c;
+      actualizados++;
+      return { ...c, orden: nuevoOrden.get(c.id)! };
+    })
+  );
+
+  return { success: true, actualizados };
 }
 
 // Alias para compatibilidad
@@ -529,7 +551,7 @@ export async function reordenarComponentesTipoPaginaService(
 }
 
 // ========================================
-// 13. CAMBIAR VARIANTE DE COMPONENTE
+// 13. CAMBIAR VARIANTE DE COMPONENTE (en el borrador)
 // ========================================
 export async function cambiarVarianteComponenteService(
   tenantId: string,
@@ -551,32 +573,14 @@ export async function cambiarVarianteComponenteService(
 
   const catalogo = nuevoCatalogo.rows[0];
 
-  // Actualizar el componente con la nueva variante
-  const result = await query(
-    `
-    UPDATE componentes_web
-    SET
-      componente_catalogo_id = $3,
-      nombre = $4,
-      datos = $5,
-      updated_at = NOW()
-    WHERE id = $1 AND tenant_id = $2
-    RETURNING *
-    `,
-    [
-      componenteId,
-      tenantId,
-      catalogo.id,
-      catalogo.nombre,
-      JSON.stringify(catalogo.campos_config || {})
-    ]
-  );
-
-  if (result.rows.length === 0) {
-    throw new Error('Componente no encontrado');
-  }
+  // Cambiar la variante en el borrador (los datos vuelven a los de la nueva variante)
+  const componente = await modificarComponenteBorrador(tenantId, componenteId, (c) => {
+    c.componente_catalogo_id = catalogo.id;
+    c.nombre = catalogo.nombre;
+    c.datos = catalogo.campos_config || {};
+  });
 
-  return result.rows[0];
+  return { ...componente, tenant_id: tenantId };
 }
 
 // ========================================
@@ -635,6 +639,13 @@ export async function obtenerVariantesTipoService(
   return result.rows;
 }
 
+// Identifica la página de un tipo estándar o de una ruta custom
+function refPagina(tipoPaginaIdOrCustomId: string, esPaginaCustom = false): PaginaRef {
+  return esPaginaCustom
+    ? { tipo_pagina_id: null, tenant_rutas_config_custom_id: tipoPaginaIdOrCustomId }
+    : { tipo_pagina_id: tipoPaginaIdOrCustomId, tenant_rutas_config_custom_id: null };
+}
+
 // ========================================
 // NOTAS DE ARQUITECTURA
 // ========================================
@@ -644,6 +655,7 @@ export async function obtenerVariantesTipoService(
  * - tipos_pagina: catálogo estándar de páginas/rutas
  * - tenants_rutas_config_custom: rutas personalizadas por tenant
  * - componentes_web: instancias de componentes con FK a tipo_pagina_id o tenant_rutas_config_custom_id
+ * - paginas_borradores / paginas_revisiones: borrador editable y revisiones publicadas por página
  *
  * TABLAS OBSOLETAS (planificadas para eliminación):
  * - paginas_web: DEPRECADA - no usar
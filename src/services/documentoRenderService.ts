@@ -262,7 +262,7 @@ function getDateData(): Partial<DatosMerge> {
 export async function obtenerDatosMerge(
   tenantId: string,
   usuarioId: string,
-  input: GenerarDocumentoInput
+  input: Pick<GenerarDocumentoInput, 'contacto_id' | 'propiedad_id' | 'datos_adicionales'>
 ): Promise<DatosMerge> {
   const [tenantData, usuarioData, contactoData, propiedadData] = await Promise.all([
     getTenantData(tenantId),
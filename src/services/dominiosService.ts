@@ -0,0 +1,618 @@
+/**
+ * Servicio de dominios personalizados de los tenants
+ *
+ * - Cada tenant puede tener un dominio principal, alias (redirigen al principal) y un
+ *   dominio por idioma
+ * - Verificación: el tenant crea un registro TXT _clic-verificacion.<dominio> con el
+ *   valor indicado; el cron (o el botón "verificar") lo consulta. Sin éxito en
+ *   HORAS_LIMITE_VERIFICACION el dominio pasa a fallido (se puede reintentar a mano)
+ * - Un dominio sin verificar no queda reservado: otro tenant puede agregarlo también y
+ *   se lo queda el primero que lo verifica (los reclamos pendientes de los demás se borran)
+ * - Certificado: una vez verificado, el proxy TLS (on-demand) lo emite; el cron revisa
+ *   el certificado servido y guarda su vencimiento o el error
+ * - tenants.dominio_personalizado se sincroniza con el dominio principal verificado
+ *   (lo siguen leyendo sitemap, SEO y feeds)
+ *
+ * Las consultas DNS y TLS pasan por un VerificadorDominios. Con
+ * DOMINIOS_VERIFICADOR=memoria se usa uno en memoria que da por creado el TXT de cada
+ * dominio agregado (desarrollo local).
+ */
+
+import { promises as dns } from 'dns';
+import tls from 'tls';
+import { randomBytes } from 'crypto';
+import { query, transaction } from '../utils/db.js';
+import { invalidarCacheRender } from './renderCacheService.js';
+import { IDIOMAS_SOPORTADOS } from './routeResolver.js';
+
+// ==================== TIPOS ====================
+
+export const TIPOS_DOMINIO = ['principal', 'alias', 'idioma'] as const;
+export type TipoDominio = typeof TIPOS_DOMINIO[number];
+
+export const ESTADOS_DOMINIO = ['pendiente', 'verificado', 'fallido'] as const;
+export type EstadoDominio = typeof ESTADOS_DOMINIO[number];
+
+export type EstadoCertificado = 'pendiente' | 'emitido' | 'por_vencer' | 'error';
+
+export interface DominioTenant {
+  id: string;
+  tenant_id: string;
+  dominio: string;
+  tipo: TipoDominio;
+  idioma: string | null;
+  estado: EstadoDominio;
+  token_verificacion: string;
+  intentos_verificacion: number;
+  ultimo_intento_at: Date | null;
+  ultimo_error: string | null;
+  verificado_at: Date | null;
+  certificado_estado: EstadoCertificado | null;
+  certificado_expira_at: Date | null;
+  certificado_error: string | null;
+  certificado_revisado_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface InstruccionesVerificacion {
+  tipo: 'TXT';
+  nombre: string;
+  valor: string;
+  destino: string | null; // CNAME/A al que debe apuntar el dominio para servir el sitio
+}
+
+export interface CertificadoDominio {
+  valido_hasta: Date;
+  emisor: string | null;
+}
+
+/**
+ * Consultas externas de la verificación (DNS y TLS), reemplazables para desarrollo
+ */
+export interface VerificadorDominios {
+  nombre: string;
+  resolveTxt(nombre: string): Promise<string[]>;
+  getCertificado(dominio: string): Promise<CertificadoDominio>; // lanza si no hay TLS válido
+  registrarTxt?(nombre: string, valor: string): void;          // solo verificadores locales
+}
+
+export interface DominioResuelto {
+  tenant_id: string;
+  dominio: string;
+  tipo: TipoDominio;
+  idioma: string | null;
+  redirigir_a: string | null; // dominio principal, solo para alias
+}
+
+export interface ResultadoProcesoDominios {
+  verificados: number;
+  fallidos: number;
+  pendientes: number;
+  certificados_revisados: number;
+  certificados_con_error: number;
+  errores: number; // dominios cuya verificación o revisión lanzó una excepción
+}
+
+const PREFIJO_TXT = '_clic-verificacion';
+const HORAS_LIMITE_VERIFICACION = 72;
+const DIAS_AVISO_CERTIFICADO = 14;
+const HORAS_REVISION_CERTIFICADO = 12;
+const TIMEOUT_TLS_MS = 10000;
+
+const DOMINIO_REGEX = /^(?=.{4,253}$)(?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/;
+
+// ==================== VERIFICADORES ====================
+
+/**
+ * DNS del sistema y handshake TLS real contra el puerto 443
+ */
+export function crearVerificadorSistema(): VerificadorDominios {
+  return {
+    nombre: 'sistema',
+
+    async resolveTxt(nombre) {
+      try {
+        const registros = await dns.resolveTxt(nombre);
+        return registros.map((partes) => partes.join(''));
+      } catch (error: any) {
+        if (error.code === 'ENOTFOUND' || error.code === 'ENODATA') return [];
+        throw error;
+      }
+    },
+
+    getCertificado(dominio) {
+      return new Promise((resolve, reject) => {
+        const socket = tls.connect({ host: dominio, port: 443, servername: dominio, timeout: TIMEOUT_TLS_MS }, () => {
+          const certificado = socket.getPeerCertificate();
+          const autorizado = socket.authorized;
+          const errorAutorizacion = socket.authorizationError;
+          socket.end();
+
+          if (!autorizado) {
+            return reject(new Error(`Certificado inválido: ${errorAutorizacion}`));
+          }
+          resolve({
+            valido_hasta: new Date(certificado.valid_to),
+            emisor: (certificado.issuer as any)?.O || (certificado.issuer as any)?.CN || null,
+          });
+        });
+
+        socket.on('timeout', () => {
+          socket.destroy();
+          reject(new Error('Tiempo de espera agotado al conectar por TLS'));
+        });
+        socket.on('error', reject);
+      });
+    },
+  };
+}
+
+/**
+ * Registros en memoria. Un dominio con su TXT registrado "tiene" certificado de 90 días.
+ */
+export function crearVerificadorMemoria(): VerificadorDominios {
+  const registros = new Map<string, string[]>();
+
+  return {
+    nombre: 'memoria',
+
+    async resolveTxt(nombre) {
+      return registros.get(nombre) || [];
+    },
+
+    async getCertificado(dominio) {
+      if (!registros.has(`${PREFIJO_TXT}.${dominio}`)) {
+        throw new Error('Sin certificado');
+      }
+      return { valido_hasta: new Date(Date.now() + 90 * 86400000), emisor: 'Local' };
+    },
+
+    registrarTxt(nombre, valor) {
+      registros.set(nombre, [...(registros.get(nombre) || []), valor]);
+    },
+  };
+}
+
+// ==================== ESTADO ====================
+
+let verificador: VerificadorDominios = process.env.DOMINIOS_VERIFICADOR === 'memoria'
+  ? crearVerificadorMemoria()
+  : crearVerificadorSistema();
+
+/**
+ * Reemplaza el verificador (ej: uno en memoria para desarrollo o scripts)
+ */
+export function configurarVerificadorDominios(nuevo: VerificadorDominios): void {
+  verificador = nuevo;
+  console.log(`🌐 Verificación de dominios usando: ${nuevo.nombre}`);
+}
+
+// ==================== HELPERS ====================
+
+/**
+ * Normaliza lo que escribe el usuario ("https://WWW.Ejemplo.com/", "ejemplo.com:443")
+ * a un hostname en minúsculas. Retorna null si no es un dominio válido.
+ */
+export function normalizarDominio(entrada: string | null | undefined): string | null {
+  if (!entrada || typeof entrada !== 'string') return null;
+
+  const dominio = entrada
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z]+:\/\//, '')
+    .replace(/[/?#].*$/, '')
+    .replace(/:\d+$/, '')
+    .replace(/\.$/, '');
+
+  return DOMINIO_REGEX.test(dominio) ? dominio : null;
+}
+
+export function getInstruccionesVerificacion(dominio: DominioTenant): InstruccionesVerificacion {
+  return {
+    tipo: 'TXT',
+    nombre: `${PREFIJO_TXT}.${dominio.dominio}`,
+    valor: `clic-verificacion=${dominio.token_verificacion}`,
+    destino: process.env.DOMINIOS_DESTINO_DNS || null,
+  };
+}
+
+/**
+ * Copia el dominio principal verificado a tenants.dominio_personalizado
+ */
+async function sincronizarDominioPrincipal(tenantId: string): Promise<void> {
+  await query(
+    `UPDATE tenants SET
+       dominio_personalizado = (
+         SELECT dominio FROM tenants_dominios
+         WHERE tenant_id = $1 AND tipo = 'principal' AND estado = 'verificado'
+       ),
+       updated_at = NOW()
+     WHERE id = $1`,
+    [tenantId]
+  );
+  // Las URLs canónicas y Open Graph de las páginas cacheadas usan el dominio
+  await invalidarCacheRender(tenantId, 'dominio principal');
+}
+
+// ==================== CRUD ====================
+
+export async function listarDominios(tenantId: string): Promise<DominioTenant[]> {
+  const result = await query(
+    `SELECT * FROM tenants_dominios
+     WHERE tenant_id = $1
+     ORDER BY CASE tipo WHEN 'principal' THEN 0 WHEN 'idioma' THEN 1 ELSE 2 END, dominio ASC`,
+    [tenantId]
+  );
+  return result.rows;
+}
+
+export async function getDominio(tenantId: string, dominioId: string): Promise<DominioTenant | null> {
+  const result = await query(
+    `SELECT * FROM tenants_dominios WHERE id = $1 AND tenant_id = $2`,
+    [dominioId, tenantId]
+  );
+  return result.rows[0] || null;
+}
+
+/**
+ * Valida un dominio nuevo del tenant. Retorna el mensaje de error o null.
+ * El conflicto 409 (dominio en uso) lo resuelve la ruta con getTenantDelDominio.
+ */
+export async function validarDominioNuevo(
+  tenantId: string,
+  datos: { dominio: string | null; tipo?: string; idioma?: string | null }
+): Promise<string | null> {
+  if (!datos.dominio) return 'dominio inválido (ej: www.inmobiliaria.com)';
+
+  const tipo = datos.tipo || 'alias';
+  if (!TIPOS_DOMINIO.includes(tipo as TipoDominio)) {
+    return `tipo debe ser uno de: ${TIPOS_DOMINIO.join(', ')}`;
+  }
+
+  if (tipo === 'idioma') {
+    if (!datos.idioma || !IDIOMAS_SOPORTADOS.includes(datos.idioma)) {
+      return `idioma debe ser uno de: ${IDIOMAS_SOPORTADOS.join(', ')}`;
+    }
+    const existente = await query(
+      `SELECT dominio FROM tenants_dominios WHERE tenant_id = $1 AND tipo = 'idioma' AND idioma = $2`,
+      [tenantId, datos.idioma]
+    );
+    if (existente.rows.length > 0) {
+      return `El idioma "${datos.idioma}" ya tiene el dominio ${existente.rows[0].dominio}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Tenant que impide agregar el dominio, o null: el mismo tenant si ya lo tiene agregado,
+ * u otro que lo tiene verificado (o en el campo legacy). Los reclamos sin verificar de
+ * otros tenants no lo reservan.
+ */
+export async function getTenantDelDominio(dominio: string, tenantId: string): Promise<string | null> {
+  const result = await query(
+    `SELECT tenant_id FROM tenants_dominios
+     WHERE dominio = $1 AND (tenant_id = $2 OR estado = 'verificado')
+     UNION ALL
+     SELECT id FROM tenants WHERE LOWER(dominio_personalizado) = $1
+     LIMIT 1`,
+    [dominio, tenantId]
+  );
+  return result.rows[0]?.tenant_id || null;
+}
+
+/**
+ * Agrega un dominio en estado pendiente. Si es el primero del tenant, es el principal.
+ */
+export async function crearDominio(
+  tenantId: string,
+  datos: { dominio: string; tipo?: TipoDominio; idioma?: string | null }
+): Promise<DominioTenant> {
+  let tipo: TipoDominio = datos.tipo || 'alias';
+
+  if (tipo !== 'idioma') {
+    const principal = await query(
+      `SELECT id FROM tenants_dominios WHERE tenant_id = $1 AND tipo = 'principal'`,
+      [tenantId]
+    );
+    if (principal.rows.length === 0) {
+      tipo = 'principal';
+    } else if (tipo === 'principal') {
+      // El principal se cambia con convertirEnPrincipal, una vez verificado el nuevo
+      tipo = 'alias';
+    }
+  }
+
+  const result = await query(
+    `INSERT INTO tenants_dominios (tenant_id, dominio, tipo, idioma, token_verificacion)
+     VALUES ($1, $2, $3, $4, $5)
+     RETURNING *`,
+    [tenantId, datos.dominio, tipo, tipo === 'idioma' ? datos.idioma : null, randomBytes(16).toString('hex')]
+  );
+  const dominio: DominioTenant = result.rows[0];
+
+  if (verificador.registrarTxt) {
+    const instrucciones = getInstruccionesVerificacion(dominio);
+    verificador.registrarTxt(instrucciones.nombre, instrucciones.valor);
+  }
+
+  return dominio;
+}
+
+/**
+ * Hace principal a un dominio verificado; el principal anterior pasa a alias
+ */
+export async function convertirEnPrincipal(tenantId: string, dominio: DominioTenant): Promise<DominioTenant> {
+  const actualizado = await transaction(async (client) => {
+    await client.query(
+      `UPDATE tenants_dominios SET tipo = 'alias', updated_at = NOW()
+       WHERE tenant_id = $1 AND tipo = 'principal'`,
+      [tenantId]
+    );
+    const result = await client.query(
+      `UPDATE tenants_dominios SET tipo = 'principal', idioma = NULL, updated_at = NOW()
+       WHERE id = $1 AND tenant_id = $2
+       RETURNING *`,
+      [dominio.id, tenantId]
+    );
+    return result.rows[0];
+  });
+
+  await sincronizarDominioPrincipal(tenantId);
+  return actualizado;
+}
+
+export async function eliminarDominio(tenantId: string, dominio: DominioTenant): Promise<void> {
+  await query(`DELETE FROM tenants_dominios WHERE id = $1 AND tenant_id = $2`, [dominio.id, tenantId]);
+
+  if (dominio.tipo === 'principal') {
+    await sincronizarDominioPrincipal(tenantId);
+  }
+}
+
+// ==================== VERIFICACIÓN Y CERTIFICADO ====================
+
+/**
+ * Consulta el TXT del dominio y actualiza su estado. Un pendiente que supera el
+ * límite de horas pasa a fallido; un fallido se puede volver a verificar a mano.
+ * Al verificarse se borran los reclamos sin verificar del mismo dominio de otros tenants;
+ * si otro tenant lo verificó antes, queda fallido.
+ */
+export async function verificarDominio(dominio: DominioTenant): Promise<DominioTenant> {
+  const { nombre, valor } = getInstruccionesVerificacion(dominio);
+
+  let verificado = false;
+  let error: string | null = null;
+  try {
+    const registros = await verificador.resolveTxt(nombre);
+    verificado = registros.some((r) => r.trim() === valor);
+    if (!verificado) {
+      error = registros.length > 0
+        ? `El registro TXT ${nombre} no contiene el valor esperado`
+        : `No se encontró el registro TXT ${nombre}`;
+    }
+  } catch (e: any) {
+    error = `Error consultando DNS: ${e.code || e.message}`;
+  }
+
+  // Otro tenant lo verificó antes (el índice único de verificados cubre la carrera)
+  const tomado = verificado && (await query(
+    `SELECT 1 FROM tenants_dominios WHERE dominio = $1 AND estado = 'verificado' AND id <> $2`,
+    [dominio.dominio, dominio.id]
+  )).rows.length > 0;
+  if (tomado) {
+    verificado = false;
+    error = 'El dominio ya fue verificado por otra cuenta';
+  }
+
+  const vencido = Date.now() - new Date(dominio.created_at).getTime() > HORAS_LIMITE_VERIFICACION * 3600000;
+  const estado: EstadoDominio = verificado ? 'verificado' : vencido || tomado ? 'fallido' : 'pendiente';
+
+  const actualizado: DominioTenant = await transaction(async (client) => {
+    const result = await client.query(
+      `UPDATE tenants_dominios SET
+         estado = $2,
+         intentos_verificacion = intentos_verificacion + 1,
+         ultimo_intento_at = NOW(),
+         ultimo_error = $3,
+         verificado_at = CASE WHEN $4 THEN NOW() ELSE verificado_at END,
+         certificado_estado = CASE WHEN $4 THEN 'pendiente' ELSE certificado_estado END,
+         certificado_revisado_at = CASE WHEN $4 THEN NULL ELSE certificado_revisado_at END,
+         updated_at = NOW()
+       WHERE id = $1
+       RETURNING *`,
+      [dominio.id, estado, error, verificado]
+    );
+
+    if (verificado) {
+      // El dominio ya tiene dueño: los reclamos sin verificar de otros tenants se descartan
+      await client.query(
+        `DELETE FROM tenants_dominios WHERE dominio = $1 AND id <> $2 AND estado <> 'verificado'`,
+        [dominio.dominio, dominio.id]
+      );
+    }
+    return result.rows[0];
+  });
+
+  if (verificado) {
+    console.log(`✅ Dominio verificado: ${dominio.dominio} (tenant ${dominio.tenant_id})`);
+    if (dominio.tipo === 'principal') {
+      await sincronizarDominioPrincipal(dominio.tenant_id);
+    }
+  }
+
+  return actualizado;
+}
+
+/**
+ * Revisa el certificado que sirve el dominio (emitido, por vencer o error)
+ */
+export async function revisarCertificado(dominio: DominioTenant): Promise<DominioTenant> {
+  let estado: EstadoCertificado;
+  let expiraAt: Date | null = dominio.certificado_expira_at;
+  let error: string | null = null;
+
+  try {
+    const certificado = await verificador.getCertificado(dominio.dominio);
+    expiraAt = certificado.valido_hasta;
+    estado = expiraAt.getTime() - Date.now() < DIAS_AVISO_CERTIFICADO * 86400000 ? 'por_vencer' : 'emitido';
+  } catch (e: any) {
+    // Recién verificado el proxy puede no haberlo emitido todavía
+    estado = dominio.certificado_estado === 'pendiente' && !dominio.certificado_revisado_at ? 'pendiente' : 'error';
+    error = e.message;
+  }
+
+  const result = await query(
+    `UPDATE tenants_dominios SET
+       certificado_estado = $2,
+       certificado_expira_at = $3,
+       certificado_error = $4,
+       certificado_revisado_at = NOW(),
+       updated_at = NOW()
+     WHERE id = $1
+     RETURNING *`,
+    [dominio.id, estado, expiraAt, error]
+  );
+  return result.rows[0];
+}
+
+/**
+ * Cron: reintenta los dominios pendientes y revisa los certificados de los verificados.
+ * Un dominio que falla se registra en errores y no corta el resto del lote
+ */
+export async function procesarDominios(): Promise<ResultadoProcesoDominios> {
+  const resultado: ResultadoProcesoDominios = {
+    verificados: 0,
+    fallidos: 0,
+    pendientes: 0,
+    certificados_revisados: 0,
+    certificados_con_error: 0,
+    errores: 0,
+  };
+
+  const pendientes = await query(
+    `SELECT * FROM tenants_dominios WHERE estado = 'pendiente' ORDER BY created_at ASC LIMIT 100`
+  );
+  for (const dominio of pendientes.rows as DominioTenant[]) {
+    try {
+      const actualizado = await verificarDominio(dominio);
+      if (actualizado.estado === 'verificado') resultado.verificados++;
+      else if (actualizado.estado === 'fallido') resultado.fallidos++;
+      else resultado.pendientes++;
+    } catch (error: any) {
+      console.error(`❌ Error verificando dominio ${dominio.dominio}:`, error.message);
+      resultado.errores++;
+    }
+  }
+
+  const certificados = await query(
+    `SELECT * FROM tenants_dominios
+     WHERE estado = 'verificado'
+       AND (certificado_revisado_at IS NULL OR certificado_revisado_at < NOW() - ($1 || ' hours')::interval)
+     ORDER BY certificado_revisado_at ASC NULLS FIRST
+     LIMIT 100`,
+    [String(HORAS_REVISION_CERTIFICADO)]
+  );
+  for (const dominio of certificados.rows as DominioTenant[]) {
+    try {
+      const actualizado = await revisarCertificado(dominio);
+      resultado.certificados_revisados++;
+      if (actualizado.certificado_estado === 'error') resultado.certificados_con_error++;
+    } catch (error: any) {
+      console.error(`❌ Error revisando certificado de ${dominio.dominio}:`, error.message);
+      resultado.errores++;
+    }
+  }
+
+  return resultado;
+}
+
+// ==================== RESOLUCIÓN DE HOST ====================
+
+/**
+ * Dominio verificado que corresponde al host. Los alias indican el principal al que redirigir.
+ */
+export async function resolverDominio(hostname: string): Promise<DominioResuelto | null> {
+  const dominio = normalizarDominio(hostname);
+  if (!dominio) return null;
+
+  const result = await query(
+    `SELECT d.tenant_id, d.dominio, d.tipo, d.idioma, p.dominio as principal
+     FROM tenants_dominios d
+     LEFT JOIN tenants_dominios p
+       ON p.tenant_id = d.tenant_id AND p.tipo = 'principal' AND p.estado = 'verificado'
+     WHERE d.dominio = $1 AND d.estado = 'verificado'`,
+    [dominio]
+  );
+  if (result.rows.length === 0) return null;
+
+  const row = result.rows[0];
+  return {
+    tenant_id: row.tenant_id,
+    dominio: row.dominio,
+    tipo: row.tipo,
+    idioma: row.idioma,
+    redirigir_a: row.tipo === 'alias' && row.principal ? row.principal : null,
+  };
+}
+
+/**
+ * URL pública del sitio del tenant ("https://www.inmobiliaria.com") según su dominio
+ * principal (tenants.dominio_personalizado). Null si no tiene dominio propio.
+ * Para armar enlaces en emails y sitemaps sin depender de cabeceras de la petición.
+ */
+export async function getUrlSitioTenant(tenantId: string): Promise<string | null> {
+  const result = await query(`SELECT dominio_personalizado FROM tenants WHERE id = $1`, [tenantId]);
+  const dominio = normalizarDominio(result.rows[0]?.dominio_personalizado);
+  return dominio ? `https://${dominio}` : null;
+}
+
+/**
+ * Para el proxy TLS on-demand: solo se emiten certificados de dominios verificados
+ */
+export async function estaDominioAutorizado(hostname: string): Promise<boolean> {
+  const dominio = normalizarDominio(hostname);
+  if (!dominio) return false;
+
+  const result = await query(
+    `SELECT 1 FROM tenants_dominios d
+     INNER JOIN tenants t ON t.id = d.tenant_id AND t.activo = true
+     WHERE d.dominio = $1 AND d.estado = 'verificado'`,
+    [dominio]
+  );
+  return result.rows.length > 0;
+}
+
+// ==================== ADMIN ====================
+
+/**
+ * Dominios de todos los tenants para el panel de la plataforma. Sin estado:
+ * pendientes, fallidos y verificados con error de certificado.
+ */
+export async function listarDominiosAdmin(estado?: EstadoDominio): Promise<any[]> {
+  const params: any[] = [];
+  let filtro = `(d.estado IN ('pendiente', 'fallido') OR d.certificado_estado IN ('error', 'por_vencer'))`;
+
+  if (estado) {
+    params.push(estado);
+    filtro = `d.estado = $1`;
+  }
+
+  const result = await query(
+    `SELECT d.*, t.nombre as tenant_nombre, t.slug as tenant_slug
+     FROM tenants_dominios d
+     INNER JOIN tenants t ON t.id = d.tenant_id
+     WHERE ${filtro}
+     ORDER BY d.updated_at DESC
+     LIMIT 500`,
+    params
+  );
+  return result.rows;
+}
+
+export async function getDominioPorId(dominioId: string): Promise<DominioTenant | null> {
+  const result = await query(`SELECT * FROM tenants_dominios WHERE id = $1`, [dominioId]);
+  return result.rows[0] || null;
+}
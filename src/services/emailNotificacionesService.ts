@@ -0,0 +1,152 @@
+/**
+ * Servicio de notificaciones por email a contactos
+ *
+ * Envía emails automáticos (alertas, avisos de precio) desde la cuenta SMTP
+ * conectada del asesor, para que el cliente reciba y responda a su asesor.
+ * Si el asesor no tiene cuenta conectada, el envío se omite y el llamador
+ * decide el respaldo (normalmente una actividad para contactar manualmente).
+ *
+ * Los envíos sin asesor (ej: alertas a visitantes del sitio) salen por el SMTP
+ * configurado del tenant, con su marca (logo, color, nombre).
+ */
+
+import { query } from '../utils/db.js';
+import { getDecryptedCredentials } from './userEmailCredentialsService.js';
+import { getEmailCredentials } from './tenantApiCredentialsService.js';
+import { sendEmail } from './emailSmtpService.js';
+
+export interface EmailNotificacion {
+  to: string;
+  subject: string;
+  html: string;
+  text?: string;
+  headers?: Record<string, string>;
+}
+
+export interface MarcaTenant {
+  nombre: string;
+  logo_url: string | null;
+  color_primario: string;
+  telefono: string | null;
+  email: string | null;
+}
+
+const COLOR_PRIMARIO_DEFAULT = '#1f2937';
+
+/**
+ * Envía un email desde la cuenta del usuario.
+ * Retorna false si el usuario no tiene SMTP conectado o el envío falla.
+ */
+export async function enviarEmailComoUsuario(
+  tenantId: string,
+  usuarioId: string,
+  email: EmailNotificacion
+): Promise<boolean> {
+  const creds = await getDecryptedCredentials(tenantId, usuarioId);
+  if (!creds || !creds.is_connected || !creds.smtp.host) return false;
+
+  try {
+    await sendEmail(creds.smtp, {
+      from: creds.email_address,
+      fromName: creds.display_name || undefined,
+      to: email.to,
+      subject: email.subject,
+      html: email.html,
+      text: email.text,
+      headers: email.headers,
+    });
+    return true;
+  } catch (error: any) {
+    console.error(`⚠️ Error enviando email de notificación a ${email.to}:`, error.message);
+    return false;
+  }
+}
+
+/**
+ * Envía un email desde el SMTP configurado del tenant (Integraciones > Email).
+ * Retorna false si el tenant no usa SMTP propio o el envío falla.
+ */
+export async function enviarEmailComoTenant(
+  tenantId: string,
+  email: EmailNotificacion
+): Promise<boolean> {
+  const creds = await getEmailCredentials(tenantId);
+  if (!creds || !creds.smtp || !creds.smtp.host || !creds.senderEmail) return false;
+
+  try {
+    await sendEmail(creds.smtp, {
+      from: creds.senderEmail,
+      fromName: creds.senderName || undefined,
+      to: email.to,
+      subject: email.subject,
+      html: email.html,
+      text: email.text,
+      headers: email.headers,
+    });
+    return true;
+  } catch (error: any) {
+    console.error(`⚠️ Error enviando email del tenant a ${email.to}:`, error.message);
+    return false;
+  }
+}
+
+/**
+ * Obtiene la marca del tenant (info_negocio) para los emails
+ */
+export async function getMarcaTenant(tenantId: string): Promise<MarcaTenant | null> {
+  const result = await query(`SELECT nombre, info_negocio FROM tenants WHERE id = $1`, [tenantId]);
+  if (result.rows.length === 0) return null;
+
+  const { nombre, info_negocio } = result.rows[0];
+  const info = typeof info_negocio === 'string' ? JSON.parse(info_negocio) : (info_negocio || {});
+
+  return {
+    nombre: info.nombre || nombre,
+    logo_url: info.logo_url || null,
+    color_primario: info.color_primario || COLOR_PRIMARIO_DEFAULT,
+    telefono: info.telefono_principal || null,
+    email: info.email_principal || null,
+  };
+}
+
+/**
+ * Envuelve el contenido en la plantilla con la marca del tenant (cabecera y pie)
+ */
+export function aplicarMarcaEmail(marca: MarcaTenant, contenidoHtml: string, pieHtml = ''): string {
+  const cabecera = marca.logo_url
+    ? `<img src="${escapeHtml(marca.logo_url)}" alt="${escapeHtml(marca.nombre)}" style="max-height:48px;">`
+    : `<strong style="font-size:18px;color:#ffffff;">${escapeHtml(marca.nombre)}</strong>`;
+  const contacto = [marca.telefono, marca.email].filter(Boolean).map(escapeHtml).join(' · ');
+
+  return `
+    <div style="max-width:600px;margin:0 auto;font-family:Arial,sans-serif;color:#1f2937;">
+      <div style="background:${escapeHtml(marca.color_primario)};padding:16px 24px;">${cabecera}</div>
+      <div style="padding:24px;">${contenidoHtml}</div>
+      <div style="padding:16px 24px;border-top:1px solid #e5e7eb;font-size:12px;color:#6b7280;">
+        ${escapeHtml(marca.nombre)}${contacto ? `<br>${contacto}` : ''}
+        ${pieHtml}
+      </div>
+    </div>
+  `;
+}
+
+/**
+ * Escapa texto para interpolarlo en el HTML del email
+ */
+export function escapeHtml(texto: string | null | undefined): string {
+  return (texto || '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Formatea un monto con su moneda (ej: "US$ 150,000")
+ */
+export function formatearPrecio(monto: number | string | null | undefined, moneda?: string | null): string {
+  const valor = Number(monto) || 0;
+  const codigo = (moneda || 'USD').toUpperCase();
+  const simbolo = codigo === 'USD' ? 'US$' : codigo === 'DOP' ? 'RD$' : codigo === 'EUR' ? '€' : codigo;
+  return `${simbolo} ${valor.toLocaleString('en-US', { maximumFractionDigits: 0 })}`;
+}
@@ -26,6 +26,7 @@ export interface SendEmailOptions {
   text?: string;
   inReplyTo?: string;
   references?: string;
+  headers?: Record<string, string>;
   attachments?: Array<{
     filename: string;
     content: Buffer | string;
@@ -97,6 +98,7 @@ export async function sendEmail(
       text: options.text || undefined,
       inReplyTo: options.inReplyTo || undefined,
       references: options.references || undefined,
+      headers: options.headers,
       envelope: {
         from: cleanFrom,
         to: cleanTo.split(',').map(e => e.trim()),
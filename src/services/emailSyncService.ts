@@ -7,6 +7,7 @@
  *   2. Fetches new emails (incremental by UID)
  *   3. Groups by thread (email_message_id / in_reply_to)
  *   4. Creates conversaciones + mensajes in the unified inbox
+ *   5. Links each sender to a CRM contact by email
  *
  * Called by cron every 2-3 minutes for all connected users.
  */
@@ -24,6 +25,7 @@ import {
 } from './mensajeriaService.js';
 import { query } from '../utils/db.js';
 import { uploadDocument } from './r2Service.js';
+import { vincularConversacionEntrante } from './contactosIdentidadesService.js';
 
 /**
  * Sync inbox for a single user.
@@ -125,6 +127,16 @@ async function processIncomingEmail(
     }
   );
 
+  // Link the sender to a CRM contact (skip our own copies)
+  if (email.from.toLowerCase() !== userEmail.toLowerCase()) {
+    await vincularConversacionEntrante(tenantId, conversacion, {
+      canal: 'email',
+      externalId: email.from,
+      nombre: email.fromName || undefined,
+      usuarioAsignadoId: usuarioId,
+    });
+  }
+
   // Generate plain text from HTML
   const plainText = email.text || (email.html
     ? htmlToText(email.html, { wordwrap: false })
@@ -0,0 +1,595 @@
+/**
+ * Servicio de experimentos A/B de páginas del sitio web
+ *
+ * - Un experimento reparte el tráfico de un tipo de página entre variantes según su peso.
+ *   "control" sirve lo publicado; las demás son fotos de componentes (copiadas del
+ *   borrador de la página o de una revisión), con el mismo formato que paginas_revisiones
+ * - La asignación es fija por visitante: la primera vez se elige por hash del visitante
+ *   y se guarda en experimentos_paginas_visitantes (que también cuenta impresiones)
+ * - Conversiones: formularios de lead, clicks de WhatsApp y solicitudes de propuesta,
+ *   atribuidas a la variante que vio el visitante
+ * - Resultados: tasa de conversión por variante y test z de dos proporciones contra control
+ * - Al finalizar se puede promover una variante: se publica como revisión de la página
+ *
+ * Reemplaza a paginasVariantesService, cuya tabla (paginas_variantes_config) se eliminó
+ * en la migración 076. routeResolver llama a asignarVarianteExperimento() al resolver
+ * las secciones de cada página.
+ */
+
+import { createHash, randomUUID } from 'crypto';
+import { query } from '../utils/db.js';
+import { invalidarCacheRender } from './renderCacheService.js';
+import {
+  ComponenteSnapshot,
+  getBorrador,
+  getComponentesPublicados,
+  getRevision,
+  publicarSnapshot,
+  RevisionPagina,
+} from './crm/paginasBorradoresService.js';
+
+// ==================== TIPOS ====================
+
+export const TIPOS_CONVERSION = ['formulario', 'whatsapp', 'propuesta'] as const;
+export type TipoConversion = typeof TIPOS_CONVERSION[number];
+
+export type EstadoExperimento = 'borrador' | 'activo' | 'pausado' | 'finalizado';
+
+export const VARIANTE_CONTROL = 'control';
+
+export interface VarianteExperimento {
+  clave: string;
+  nombre: string;
+  peso: number;
+  componentes: ComponenteSnapshot[] | null; // null = lo publicado (control)
+}
+
+export interface ExperimentoPagina {
+  id: string;
+  tenant_id: string;
+  tipo_pagina_id: string;
+  nombre: string;
+  descripcion: string | null;
+  objetivo: TipoConversion | null;
+  estado: EstadoExperimento;
+  variantes: VarianteExperimento[];
+  variante_ganadora: string | null;
+  iniciado_at: string | null;
+  finalizado_at: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AsignacionExperimento {
+  id: string;
+  variante: string;
+  visitante_id: string;
+}
+
+export interface EstadisticasVariante {
+  clave: string;
+  nombre: string;
+  peso: number;
+  visitantes: number;
+  impresiones: number;
+  conversiones: number;
+  tasa_conversion: number;
+  mejora_vs_control: number | null; // relativa: 0.25 = +25%
+  p_valor: number | null;
+  significativo: boolean;
+}
+
+export interface ResultadosExperimento {
+  experimento_id: string;
+  objetivo: TipoConversion | null;
+  nivel_confianza: number;
+  variantes: EstadisticasVariante[];
+  ganador_sugerido: string | null;
+}
+
+/**
+ * Variante nueva al crear el experimento: copia el borrador actual de la página
+ * o los componentes de una revisión
+ */
+export interface VarianteNueva {
+  nombre: string;
+  peso?: number;
+  origen: 'borrador' | 'revision';
+  revision_id?: string;
+}
+
+const NIVEL_CONFIANZA = 0.95;
+// Por debajo de este tamaño de muestra no se declara significancia (evita ganadores por ruido)
+const MIN_VISITANTES_SIGNIFICANCIA = 100;
+
+// ==================== VALIDACIÓN ====================
+
+/**
+ * Devuelve el error de validación o null
+ */
+export function validarExperimento(data: {
+  nombre?: string;
+  objetivo?: string | null;
+  peso_control?: number;
+  variantes?: VarianteNueva[];
+}): string | null {
+  if (!data.nombre?.trim()) return 'nombre es requerido';
+  if (data.objetivo && !TIPOS_CONVERSION.includes(data.objetivo as TipoConversion)) {
+    return `objetivo debe ser uno de: ${TIPOS_CONVERSION.join(', ')}`;
+  }
+  if (!Array.isArray(data.variantes) || data.variantes.length === 0) {
+    return 'Se requiere al menos una variante además de control';
+  }
+  if (data.variantes.length > 4) return 'Máximo 4 variantes además de control';
+
+  for (const variante of data.variantes) {
+    if (!variante.nombre?.trim()) return 'Cada variante requiere nombre';
+    if (variante.origen !== 'borrador' && variante.origen !== 'revision') {
+      return "origen de la variante debe ser 'borrador' o 'revision'";
+    }
+    if (variante.origen === 'revision' && !variante.revision_id) return 'revision_id es requerido para origen revision';
+    if (variante.peso !== undefined && !(Number(variante.peso) > 0)) return 'peso debe ser mayor a 0';
+  }
+  if (data.peso_control !== undefined && !(Number(data.peso_control) > 0)) return 'peso_control debe ser mayor a 0';
+
+  return null;
+}
+
+// ==================== CRUD ====================
+
+export async function listarExperimentos(
+  tenantId: string,
+  filtros: { estado?: EstadoExperimento; tipo_pagina_id?: string } = {}
+): Promise<any[]> {
+  const params: any[] = [tenantId];
+  let where = 'e.tenant_id = $1';
+
+  if (filtros.estado) {
+    params.push(filtros.estado);
+    where += ` AND e.estado = $${params.length}`;
+  }
+  if (filtros.tipo_pagina_id) {
+    params.push(filtros.tipo_pagina_id);
+    where += ` AND e.tipo_pagina_id = $${params.length}`;
+  }
+
+  const result = await query(
+    `SELECT
+       e.id, e.tipo_pagina_id, tp.codigo as tipo_pagina, tp.nombre as pagina,
+       e.nombre, e.objetivo, e.estado, e.variante_ganadora,
+       (SELECT jsonb_agg(jsonb_build_object('clave', v->>'clave', 'nombre', v->>'nombre', 'peso', v->'peso'))
+        FROM jsonb_array_elements(e.variantes) v) as variantes,
+       (SELECT COUNT(*) FROM experimentos_paginas_visitantes ev WHERE ev.experimento_id = e.id) as visitantes,
+       e.iniciado_at, e.finalizado_at, e.created_at, e.updated_at
+     FROM experimentos_paginas e
+     INNER JOIN tipos_pagina tp ON tp.id = e.tipo_pagina_id
+     WHERE ${where}
+     ORDER BY e.created_at DESC`,
+    params
+  );
+  return result.rows;
+}
+
+export async function getExperimento(tenantId: string, experimentoId: string): Promise<ExperimentoPagina | null> {
+  const result = await query(
+    `SELECT * FROM experimentos_paginas WHERE id = $1 AND tenant_id = $2`,
+    [experimentoId, tenantId]
+  );
+  return result.rows[0] || null;
+}
+
+/**
+ * Crea el experimento en estado borrador. Las variantes copian sus componentes al
+ * crearse, así que editar después el borrador de la página no las cambia.
+ */
+export async function crearExperimento(
+  tenantId: string,
+  data: {
+    tipo_pagina_id: string;
+    nombre: string;
+    descripcion?: string;
+    objetivo?: TipoConversion | null;
+    peso_control?: number;
+    variantes: VarianteNueva[];
+  },
+  usuarioId?: string | null
+): Promise<ExperimentoPagina> {
+  const pagina = { tipo_pagina_id: data.tipo_pagina_id, tenant_rutas_config_custom_id: null };
+  const variantes: VarianteExperimento[] = [
+    { clave: VARIANTE_CONTROL, nombre: 'Control (publicada)', peso: Number(data.peso_control ?? 1), componentes: null },
+  ];
+
+  for (const [i, nueva] of data.variantes.entries()) {
+    let componentes: ComponenteSnapshot[];
+
+    if (nueva.origen === 'borrador') {
+      const borrador = await getBorrador(tenantId, pagina);
+      if (!borrador) {
+        throw new Error('La página no tiene borrador para crear la variante');
+      }
+      componentes = borrador.componentes || [];
+    } else {
+      const revision = await getRevision(tenantId, nueva.revision_id!);
+      if (!revision || revision.tipo_pagina_id !== data.tipo_pagina_id) {
+        throw new Error('Revisión no encontrada para esta página');
+      }
+      componentes = revision.componentes || [];
+    }
+
+    variantes.push({
+      clave: String.fromCharCode(98 + i), // b, c, d, e
+      nombre: nueva.nombre.trim(),
+      peso: Number(nueva.peso ?? 1),
+      componentes,
+    });
+  }
+
+  const result = await query(
+    `INSERT INTO experimentos_paginas (
+       tenant_id, tipo_pagina_id, nombre, descripcion, objetivo, variantes, created_by
+     ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+     RETURNING *`,
+    [
+      tenantId,
+      data.tipo_pagina_id,
+      data.nombre.trim(),
+      data.descripcion || null,
+      data.objetivo || null,
+      JSON.stringify(variantes),
+      usuarioId || null,
+    ]
+  );
+  return result.rows[0];
+}
+
+/**
+ * Actualiza nombre, descripción, objetivo y pesos ({ clave: peso }).
+ * Cambiar pesos de un experimento activo solo afecta a visitantes nuevos.
+ */
+export async function actualizarExperimento(
+  tenantId: string,
+  experimento: ExperimentoPagina,
+  data: { nombre?: string; descripcion?: string; objetivo?: TipoConversion | null; pesos?: Record<string, number> }
+): Promise<ExperimentoPagina> {
+  const variantes = experimento.variantes.map(v => ({
+    ...v,
+    peso: data.pesos?.[v.clave] !== undefined ? Number(data.pesos[v.clave]) : v.peso,
+  }));
+
+  const result = await query(
+    `UPDATE experimentos_paginas
+     SET nombre = COALESCE($3, nombre),
+         descripcion = COALESCE($4, descripcion),
+         objetivo = CASE WHEN $5::boolean THEN $6 ELSE objetivo END,
+         variantes = $7,
+         updated_at = NOW()
+     WHERE id = $1 AND tenant_id = $2
+     RETURNING *`,
+    [
+      experimento.id,
+      tenantId,
+      data.nombre?.trim() || null,
+      data.descripcion ?? null,
+      data.objetivo !== undefined,
+      data.objetivo || null,
+      JSON.stringify(variantes),
+    ]
+  );
+
+  if (experimento.estado === 'activo') {
+    await invalidarCacheRender(tenantId, 'experimento actualizado');
+  }
+  return result.rows[0];
+}
+
+export async function eliminarExperimento(tenantId: string, experimentoId: string): Promise<boolean> {
+  const result = await query(
+    `DELETE FROM experimentos_paginas WHERE id = $1 AND tenant_id = $2 AND estado <> 'activo'`,
+    [experimentoId, tenantId]
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+/**
+ * Experimento activo del mismo tipo de página (solo puede haber uno)
+ */
+export async function getExperimentoActivoPagina(
+  tenantId: string,
+  tipoPaginaId: string
+): Promise<ExperimentoPagina | null> {
+  const result = await query(
+    `SELECT * FROM experimentos_paginas
+     WHERE tenant_id = $1 AND tipo_pagina_id = $2 AND estado = 'activo'`,
+    [tenantId, tipoPaginaId]
+  );
+  return result.rows[0] || null;
+}
+
+// ==================== CICLO DE VIDA ====================
+
+export async function cambiarEstadoExperimento(
+  tenantId: string,
+  experimentoId: string,
+  estado: 'activo' | 'pausado'
+): Promise<ExperimentoPagina> {
+  const result = await query(
+    `UPDATE experimentos_paginas
+     SET estado = $3,
+         iniciado_at = CASE WHEN $3 = 'activo' THEN COALESCE(iniciado_at, NOW()) ELSE iniciado_at END,
+         updated_at = NOW()
+     WHERE id = $1 AND tenant_id = $2
+     RETURNING *`,
+    [experimentoId, tenantId, estado]
+  );
+
+  // Las páginas del experimento no se cachean mientras está activo; las ya cacheadas se purgan
+  await invalidarCacheRender(tenantId, estado === 'activo' ? 'experimento iniciado' : 'experimento pausado');
+  return result.rows[0];
+}
+
+/**
+ * Finaliza el experimento. Si se indica una variante ganadora distinta de control,
+ * sus componentes se publican en la página como una revisión nueva.
+ */
+export async function finalizarExperimento(
+  tenantId: string,
+  experimento: ExperimentoPagina,
+  ganadora: string | null,
+  usuarioId?: string | null
+): Promise<{ experimento: ExperimentoPagina; revision: RevisionPagina | null }> {
+  let revision: RevisionPagina | null = null;
+  const variante = ganadora ? experimento.variantes.find(v => v.clave === ganadora) : null;
+
+  if (variante?.componentes) {
+    revision = await publicarSnapshot(
+      tenantId,
+      { tipo_pagina_id: experimento.tipo_pagina_id, tenant_rutas_config_custom_id: null },
+      variante.componentes,
+      {
+        origen: 'experimento',
+        mensaje: `Variante "${variante.nombre}" del experimento "${experimento.nombre}"`,
+        usuarioId,
+      }
+    );
+  }
+
+  const result = await query(
+    `UPDATE experimentos_paginas
+     SET estado = 'finalizado', variante_ganadora = $3, finalizado_at = NOW(), updated_at = NOW()
+     WHERE id = $1 AND tenant_id = $2
+     RETURNING *`,
+    [experimento.id, tenantId, variante?.clave || null]
+  );
+
+  await invalidarCacheRender(tenantId, 'experimento finalizado');
+  return { experimento: result.rows[0], revision };
+}
+
+// ==================== ASIGNACIÓN (render) ====================
+
+function normalizarVisitanteId(visitanteId?: string | null): string {
+  return visitanteId && /^[A-Za-z0-9_-]{8,64}$/.test(visitanteId) ? visitanteId : randomUUID();
+}
+
+/**
+ * Variante por peso a partir de un hash estable de experimento + visitante
+ */
+function elegirVariante(experimentoId: string, visitanteId: string, variantes: VarianteExperimento[]): string {
+  const hash = createHash('sha1').update(`${experimentoId}:${visitanteId}`).digest();
+  const punto = hash.readUInt32BE(0) / 0x100000000;
+  // Number(): experimentos guardados antes de normalizar los pesos pueden tenerlos como texto
+  const total = variantes.reduce((suma, v) => suma + Number(v.peso), 0);
+
+  let acumulado = 0;
+  for (const variante of variantes) {
+    acumulado += Number(variante.peso) / total;
+    if (punto < acumulado) return variante.clave;
+  }
+  return variantes[variantes.length - 1].clave;
+}
+
+/**
+ * Si el tipo de página tiene un experimento activo, asigna (o recupera) la variante del
+ * visitante y registra la impresión. Devuelve las secciones de la variante con las
+ * columnas de getSeccionesResueltas, o secciones null para control.
+ * Sin visitanteId se genera uno nuevo, que el sitio debe guardar (cookie) y reenviar.
+ */
+export async function asignarVarianteExperimento(
+  tenantId: string,
+  tipoPaginaCodigo: string,
+  visitanteId?: string | null
+): Promise<{ asignacion: AsignacionExperimento; secciones: any[] | null } | null> {
+  const activo = await query(
+    `SELECT e.id, e.variantes
+     FROM experimentos_paginas e
+     INNER JOIN tipos_pagina tp ON tp.id = e.tipo_pagina_id
+     WHERE e.tenant_id = $1 AND tp.codigo = $2 AND e.estado = 'activo'`,
+    [tenantId, tipoPaginaCodigo]
+  );
+  if (activo.rows.length === 0) return null;
+
+  const experimento = activo.rows[0];
+  const variantes: VarianteExperimento[] = experimento.variantes;
+  const visitante = normalizarVisitanteId(visitanteId);
+
+  // El ON CONFLICT conserva la variante asignada en la primera visita
+  const asignada = await query(
+    `INSERT INTO experimentos_paginas_visitantes (experimento_id, visitante_id, variante)
+     VALUES ($1, $2, $3)
+     ON CONFLICT (experimento_id, visitante_id) DO UPDATE
+       SET impresiones = experimentos_paginas_visitantes.impresiones + 1,
+           ultima_impresion_at = NOW()
+     RETURNING variante`,
+    [experimento.id, visitante, elegirVariante(experimento.id, visitante, variantes)]
+  );
+
+  const variante = variantes.find(v => v.clave === asignada.rows[0].variante)
+    || variantes.find(v => v.clave === VARIANTE_CONTROL)!;
+  const asignacion = { id: experimento.id, variante: variante.clave, visitante_id: visitante };
+
+  if (!variante.componentes) {
+    return { asignacion, secciones: null };
+  }
+
+  const secciones = await query(
+    `SELECT
+       c.id,
+       $2::uuid as "tenantId",
+       cc.tipo,
+       cc.variantes,
+       c.nombre,
+       c.datos,
+       c.activo,
+       c.orden
+     FROM jsonb_to_recordset($1::jsonb)
+       AS c(id uuid, componente_catalogo_id uuid, nombre text, datos jsonb, orden integer, activo boolean)
+     INNER JOIN catalogo_componentes cc ON cc.id = c.componente_catalogo_id
+     WHERE c.activo = true
+     ORDER BY c.orden ASC`,
+    [JSON.stringify(variante.componentes), tenantId]
+  );
+
+  return { asignacion, secciones: secciones.rows };
+}
+
+// ==================== CONVERSIONES ====================
+
+/**
+ * Registra una conversión del visitante en cada experimento activo del tenant en el
+ * que tiene variante asignada. Devuelve cuántas se registraron.
+ * Nunca lanza: un fallo aquí no debe afectar al formulario o acción del visitante.
+ */
+export async function registrarConversion(
+  tenantId: string,
+  visitanteId: string,
+  tipo: TipoConversion
+): Promise<number> {
+  try {
+    const result = await query(
+      `INSERT INTO experimentos_paginas_conversiones (experimento_id, visitante_id, variante, tipo)
+       SELECT v.experimento_id, v.visitante_id, v.variante, $3
+       FROM experimentos_paginas_visitantes v
+       INNER JOIN experimentos_paginas e ON e.id = v.experimento_id
+       WHERE e.tenant_id = $1 AND e.estado = 'activo' AND v.visitante_id = $2
+       ON CONFLICT (experimento_id, visitante_id, tipo) DO NOTHING`,
+      [tenantId, visitanteId, tipo]
+    );
+    return result.rowCount ?? 0;
+  } catch (error) {
+    console.error('⚠️ Error registrando conversión de experimento:', error);
+    return 0;
+  }
+}
+
+// ==================== RESULTADOS ====================
+
+/**
+ * Función de distribución normal estándar (aproximación de Abramowitz-Stegun 7.1.26)
+ */
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * p-valor bilateral del test z de dos proporciones (conversiones / visitantes)
+ */
+export function pValorDosProporciones(conversionesA: number, visitantesA: number, conversionesB: number, visitantesB: number): number | null {
+  if (visitantesA === 0 || visitantesB === 0) return null;
+
+  const agrupada = (conversionesA + conversionesB) / (visitantesA + visitantesB);
+  const error = Math.sqrt(agrupada * (1 - agrupada) * (1 / visitantesA + 1 / visitantesB));
+  if (error === 0) return null;
+
+  const z = (conversionesB / visitantesB - conversionesA / visitantesA) / error;
+  return 2 * (1 - normalCdf(Math.abs(z)));
+}
+
+/**
+ * Visitantes, impresiones y conversiones por variante, y significancia de cada
+ * variante contra control. tipo restringe las conversiones (por defecto el objetivo).
+ */
+export async function getResultadosExperimento(
+  experimento: ExperimentoPagina,
+  tipo?: TipoConversion | null
+): Promise<ResultadosExperimento> {
+  const objetivo = tipo !== undefined ? tipo : experimento.objetivo;
+
+  const [visitantes, conversiones] = await Promise.all([
+    query(
+      `SELECT variante, COUNT(*) as visitantes, COALESCE(SUM(impresiones), 0) as impresiones
+       FROM experimentos_paginas_visitantes
+       WHERE experimento_id = $1
+       GROUP BY variante`,
+      [experimento.id]
+    ),
+    query(
+      `SELECT variante, COUNT(DISTINCT visitante_id) as conversiones
+       FROM experimentos_paginas_conversiones
+       WHERE experimento_id = $1 AND ($2::text IS NULL OR tipo = $2)
+       GROUP BY variante`,
+      [experimento.id, objetivo || null]
+    ),
+  ]);
+
+  const porVariante = new Map<string, { visitantes: number; impresiones: number; conversiones: number }>();
+  for (const row of visitantes.rows) {
+    porVariante.set(row.variante, {
+      visitantes: parseInt(row.visitantes, 10),
+      impresiones: parseInt(row.impresiones, 10),
+      conversiones: 0,
+    });
+  }
+  for (const row of conversiones.rows) {
+    const datos = porVariante.get(row.variante);
+    if (datos) datos.conversiones = parseInt(row.conversiones, 10);
+  }
+
+  const control = porVariante.get(VARIANTE_CONTROL) || { visitantes: 0, impresiones: 0, conversiones: 0 };
+  const tasaControl = control.visitantes > 0 ? control.conversiones / control.visitantes : 0;
+
+  const estadisticas: EstadisticasVariante[] = experimento.variantes.map(variante => {
+    const datos = porVariante.get(variante.clave) || { visitantes: 0, impresiones: 0, conversiones: 0 };
+    const tasa = datos.visitantes > 0 ? datos.conversiones / datos.visitantes : 0;
+    const esControl = variante.clave === VARIANTE_CONTROL;
+    const pValor = esControl
+      ? null
+      : pValorDosProporciones(control.conversiones, control.visitantes, datos.conversiones, datos.visitantes);
+
+    return {
+      clave: variante.clave,
+      nombre: variante.nombre,
+      peso: variante.peso,
+      ...datos,
+      tasa_conversion: tasa,
+      mejora_vs_control: esControl || tasaControl === 0 ? null : (tasa - tasaControl) / tasaControl,
+      p_valor: pValor,
+      significativo: pValor !== null
+        && pValor < 1 - NIVEL_CONFIANZA
+        && datos.visitantes >= MIN_VISITANTES_SIGNIFICANCIA
+        && control.visitantes >= MIN_VISITANTES_SIGNIFICANCIA,
+    };
+  });
+
+  const ganador = estadisticas
+    .filter(e => e.significativo && e.tasa_conversion > tasaControl)
+    .sort((a, b) => b.tasa_conversion - a.tasa_conversion)[0];
+
+  return {
+    experimento_id: experimento.id,
+    objetivo: objetivo || null,
+    nivel_confianza: NIVEL_CONFIANZA,
+    variantes: estadisticas,
+    ganador_sugerido: ganador?.clave || null,
+  };
+}
+
+/**
+ * Componentes actuales de la variante control (lo publicado), para comparar en el CRM
+ */
+export async function getComponentesControl(tenantId: string, experimento: ExperimentoPagina): Promise<ComponenteSnapshot[]> {
+  return getComponentesPublicados(tenantId, { tipo_pagina_id: experimento.tipo_pagina_id, tenant_rutas_config_custom_id: null });
+}
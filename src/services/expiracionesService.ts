@@ -0,0 +1,177 @@
+/**
+ * Servicio de expiración de propuestas y planes de pago
+ *
+ * Ejecutado por cron (ver routes/cron.routes.ts):
+ * - Pasa a 'expirada' / 'expirado' los documentos enviados cuya fecha_expiracion ya pasó
+ * - Crea una actividad de seguimiento para el asesor dueño N días antes de expirar
+ *
+ * Los días de aviso se configuran por tenant en
+ * tenants.configuracion.propuestas_dias_aviso_expiracion (default: 3).
+ */
+
+import { query } from '../utils/db.js';
+import { createActividad } from './actividadesService.js';
+
+export const DIAS_AVISO_EXPIRACION_DEFAULT = 3;
+
+export interface ResultadoExpiraciones {
+  propuestasExpiradas: number;
+  planesExpirados: number;
+  avisosPropuestas: number;
+  avisosPlanes: number;
+}
+
+/**
+ * Expira las propuestas enviadas/vistas con fecha_expiracion vencida
+ */
+async function expirarPropuestas(): Promise<number> {
+  const sql = `
+    UPDATE propuestas
+    SET estado = 'expirada',
+        datos_extra = COALESCE(datos_extra, '{}'::jsonb) || jsonb_build_object('fecha_expirada', NOW()),
+        updated_at = NOW()
+    WHERE activo = true
+      AND estado IN ('enviada', 'vista')
+      AND fecha_expiracion IS NOT NULL
+      AND fecha_expiracion <= NOW()
+    RETURNING id
+  `;
+  const result = await query(sql);
+  return result.rowCount ?? 0;
+}
+
+/**
+ * Expira los planes de pago enviados/vistos con fecha_expiracion vencida
+ */
+async function expirarPlanesPago(): Promise<number> {
+  const sql = `
+    UPDATE planes_pago
+    SET estado = 'expirado',
+        datos_extra = COALESCE(datos_extra, '{}'::jsonb) || jsonb_build_object('fecha_expirado', NOW()),
+        updated_at = NOW()
+    WHERE activo = true
+      AND estado IN ('enviado', 'visto')
+      AND fecha_expiracion IS NOT NULL
+      AND fecha_expiracion <= NOW()
+    RETURNING id
+  `;
+  const result = await query(sql);
+  return result.rowCount ?? 0;
+}
+
+/**
+ * Marca como avisados (atómicamente) los documentos próximos a expirar
+ * y devuelve los que se acaban de marcar, para crear una sola actividad por documento.
+ */
+async function reclamarPorExpirar(tabla: 'propuestas' | 'planes_pago'): Promise<any[]> {
+  const estados = tabla === 'propuestas' ? `('enviada', 'vista')` : `('enviado', 'visto')`;
+
+  const sql = `
+    UPDATE ${tabla} d
+    SET datos_extra = COALESCE(d.datos_extra, '{}'::jsonb) || jsonb_build_object('aviso_expiracion_enviado', NOW()),
+        updated_at = NOW()
+    FROM tenants t
+    WHERE d.tenant_id = t.id
+      AND d.activo = true
+      AND d.estado IN ${estados}
+      AND d.fecha_expiracion IS NOT NULL
+      AND d.fecha_expiracion > NOW()
+      AND d.fecha_expiracion <= NOW() + make_interval(days => COALESCE(
+        (t.configuracion->>'propuestas_dias_aviso_expiracion')::int, $1
+      ))
+      AND (d.datos_extra->>'aviso_expiracion_enviado') IS NULL
+    RETURNING d.id, d.tenant_id, d.titulo, d.usuario_creador_id, d.contacto_id,
+              d.solicitud_id, d.fecha_expiracion
+  `;
+  const result = await query(sql, [DIAS_AVISO_EXPIRACION_DEFAULT]);
+  return result.rows;
+}
+
+/**
+ * Quita la marca de aviso de un documento cuya actividad no se pudo crear,
+ * para que el próximo cron lo vuelva a intentar
+ */
+async function liberarAviso(tabla: 'propuestas' | 'planes_pago', id: string): Promise<void> {
+  try {
+    await query(
+      `UPDATE ${tabla} SET datos_extra = datos_extra - 'aviso_expiracion_enviado' WHERE id = $1`,
+      [id]
+    );
+  } catch (error: any) {
+    console.error(`❌ Error liberando el aviso de expiración de ${tabla} ${id}:`, error.message);
+  }
+}
+
+/**
+ * Crea las actividades de aviso para propuestas próximas a expirar
+ */
+async function avisarPropuestasPorExpirar(): Promise<number> {
+  const propuestas = await reclamarPorExpirar('propuestas');
+  let avisadas = 0;
+
+  for (const p of propuestas) {
+    try {
+      await createActividad(p.tenant_id, {
+        tipo: 'seguimiento',
+        titulo: `La propuesta "${p.titulo}" expira pronto`,
+        descripcion: 'Contacta al cliente antes de que expire o actualiza la fecha de expiración con precios vigentes.',
+        usuario_id: p.usuario_creador_id || undefined,
+        contacto_id: p.contacto_id || undefined,
+        solicitud_id: p.solicitud_id || undefined,
+        propuesta_id: p.id,
+        fecha_programada: new Date().toISOString(),
+        prioridad: 'alta',
+        metadata: { origen: 'cron_expiraciones', evento: 'propuesta_por_expirar', fecha_expiracion: p.fecha_expiracion },
+      });
+      avisadas++;
+    } catch (error: any) {
+      console.error(`❌ Error creando aviso de expiración de la propuesta ${p.id}:`, error.message);
+      await liberarAviso('propuestas', p.id);
+    }
+  }
+
+  return avisadas;
+}
+
+/**
+ * Crea las actividades de aviso para planes de pago próximos a expirar
+ */
+async function avisarPlanesPorExpirar(): Promise<number> {
+  const planes = await reclamarPorExpirar('planes_pago');
+  let avisados = 0;
+
+  for (const p of planes) {
+    try {
+      await createActividad(p.tenant_id, {
+        tipo: 'seguimiento',
+        titulo: `El plan de pago "${p.titulo}" expira pronto`,
+        descripcion: 'Contacta al cliente antes de que expire o actualiza la fecha de expiración con precios vigentes.',
+        usuario_id: p.usuario_creador_id || undefined,
+        contacto_id: p.contacto_id || undefined,
+        solicitud_id: p.solicitud_id || undefined,
+        fecha_programada: new Date().toISOString(),
+        prioridad: 'alta',
+        metadata: { origen: 'cron_expiraciones', evento: 'plan_pago_por_expirar', plan_pago_id: p.id, fecha_expiracion: p.fecha_expiracion },
+      });
+      avisados++;
+    } catch (error: any) {
+      console.error(`❌ Error creando aviso de expiración del plan de pago ${p.id}:`, error.message);
+      await liberarAviso('planes_pago', p.id);
+    }
+  }
+
+  return avisados;
+}
+
+/**
+ * Procesa expiraciones y avisos de todos los tenants
+ */
+export async function procesarExpiraciones(): Promise<ResultadoExpiraciones> {
+  const avisosPropuestas = await avisarPropuestasPorExpirar();
+  const avisosPlanes = await avisarPlanesPorExpirar();
+
+  const propuestasExpiradas = await expirarPropuestas();
+  const planesExpirados = await expirarPlanesPago();
+
+  return { propuestasExpiradas, planesExpirados, avisosPropuestas, avisosPlanes };
+}
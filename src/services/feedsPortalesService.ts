@@ -0,0 +1,428 @@
+/**
+ * Servicio de feeds de sindicación para portales inmobiliarios
+ *
+ * Exporta las propiedades marcadas para un portal (propiedades.portales[codigo])
+ * en formatos estándar que los portales importan periódicamente:
+ * - xml: feed XML genérico de listados
+ * - kyero: XML Kyero v3
+ * - json: feed JSON
+ *
+ * Cada feed se acompaña de un reporte de validación con las propiedades
+ * rechazadas por campos faltantes, para que el tenant las corrija.
+ */
+
+import { query } from '../utils/db.js';
+import { getPortalCatalogoByCodigo, PortalCatalogo } from './adminPortalesCatalogoService.js';
+import { getAmenidades, getNombreAmenidadTraducido, Amenidad } from './catalogosService.js';
+
+// ==================== TIPOS ====================
+
+export const FORMATOS_FEED = ['xml', 'kyero', 'json'] as const;
+export type FormatoFeed = typeof FORMATOS_FEED[number];
+
+export interface PropiedadRechazada {
+  id: string;
+  codigo: string | null;
+  titulo: string;
+  campos_faltantes: string[];
+}
+
+export interface ReporteFeed {
+  portal: { codigo: string; nombre: string };
+  formato: FormatoFeed;
+  generado_at: string;
+  total_marcadas: number;
+  aceptadas: number;
+  rechazadas: PropiedadRechazada[];
+}
+
+export interface FeedPortal {
+  contenido: string;
+  contentType: string;
+  reporte: ReporteFeed;
+}
+
+interface ContextoFeed {
+  portal: PortalCatalogo;
+  tenant: { id: string; slug: string; nombre: string; dominio_personalizado: string | null };
+  amenidades: Map<string, Amenidad>;
+}
+
+// Tipos del CRM → tipos Kyero (texto libre en inglés)
+const TIPOS_KYERO: Record<string, string> = {
+  apartamento: 'apartment',
+  departamento: 'apartment',
+  penthouse: 'penthouse',
+  casa: 'house',
+  villa: 'villa',
+  townhouse: 'townhouse',
+  terreno: 'plot',
+  solar: 'plot',
+  finca: 'finca',
+  oficina: 'office',
+  local: 'commercial',
+  bodega: 'warehouse',
+  nave_industrial: 'warehouse',
+};
+
+// Operaciones aceptadas por Kyero y su frecuencia de precio
+const PRECIO_FREQ_KYERO: Record<string, string> = {
+  venta: 'sale',
+  renta: 'month',
+  alquiler: 'month',
+};
+
+// Idiomas que Kyero acepta en desc / url
+const IDIOMAS_KYERO = ['en', 'es', 'de', 'fr', 'nl', 'it', 'pt', 'ru', 'sv', 'da', 'fi', 'no', 'pl'];
+
+// ==================== HELPERS ====================
+
+function parseJson(valor: any, fallback: any) {
+  if (valor === null || valor === undefined) return fallback;
+  if (typeof valor === 'string') {
+    try {
+      return JSON.parse(valor);
+    } catch {
+      return fallback;
+    }
+  }
+  return valor;
+}
+
+function escapeXml(valor: any): string {
+  return String(valor ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Nodo XML con contenido escapado; se omite si el valor está vacío
+ */
+function nodo(tag: string, valor: any, atributos = ''): string {
+  if (valor === null || valor === undefined || valor === '') return '';
+  return `<${tag}${atributos}>${escapeXml(valor)}</${tag}>`;
+}
+
+/**
+ * Un portal está marcado en la propiedad como `{ codigo: true }` o `{ codigo: { activo: true } }`
+ */
+function estaMarcadaParaPortal(portales: Record<string, any>, codigo: string): boolean {
+  const valor = portales[codigo];
+  return valor === true || (typeof valor === 'object' && valor !== null && valor.activo === true);
+}
+
+function getImagenes(propiedad: any): string[] {
+  const imagenes: any[] = parseJson(propiedad.imagenes, []);
+  const urls = [propiedad.imagen_principal, ...imagenes.map(img => (typeof img === 'string' ? img : img?.url))];
+  return [...new Set(urls.filter((url): url is string => typeof url === 'string' && url.length > 0))];
+}
+
+function getTextosTraducidos(propiedad: any): Record<string, { titulo?: string; descripcion?: string }> {
+  const traducciones: Record<string, any> = parseJson(propiedad.traducciones, {});
+  const textos: Record<string, { titulo?: string; descripcion?: string }> = {
+    es: { titulo: propiedad.titulo, descripcion: propiedad.descripcion || undefined },
+  };
+  for (const [idioma, valores] of Object.entries(traducciones)) {
+    if (idioma === 'es' || !valores) continue;
+    textos[idioma] = { titulo: valores.titulo, descripcion: valores.descripcion };
+  }
+  return textos;
+}
+
+function getUrlPropiedad(ctx: ContextoFeed, propiedad: any, idioma = 'es'): string | null {
+  if (!ctx.tenant.dominio_personalizado) return null;
+  const slugs: Record<string, string> = parseJson(propiedad.slug_traducciones, {});
+  const slug = idioma === 'es' ? propiedad.slug : (slugs[idioma] || propiedad.slug);
+  if (!slug) return null;
+  return `https://${ctx.tenant.dominio_personalizado}${idioma === 'es' ? '' : `/${idioma}`}/${slug}`;
+}
+
+function getAmenidadesPropiedad(ctx: ContextoFeed, propiedad: any, idioma = 'es'): Array<{ codigo: string; nombre: string }> {
+  const codigos: any[] = parseJson(propiedad.amenidades, []);
+  return codigos
+    .filter(codigo => typeof codigo === 'string' && codigo)
+    .map(codigo => {
+      const amenidad = ctx.amenidades.get(codigo);
+      return { codigo, nombre: amenidad ? getNombreAmenidadTraducido(amenidad, idioma) : codigo };
+    });
+}
+
+/**
+ * Quita las líneas vacías que dejan los nodos opcionales omitidos
+ */
+function compactarXml(xml: string): string {
+  return xml.replace(/^\s*\n/gm, '');
+}
+
+// ==================== VALIDACIÓN ====================
+
+/**
+ * Devuelve los campos que faltan para publicar la propiedad en el formato
+ */
+export function validarPropiedadFeed(propiedad: any, formato: FormatoFeed): string[] {
+  const faltantes: string[] = [];
+
+  if (!propiedad.titulo) faltantes.push('titulo');
+  if (!propiedad.tipo) faltantes.push('tipo');
+  if (!propiedad.operacion) faltantes.push('operacion');
+  if (!(Number(propiedad.precio) > 0)) faltantes.push('precio');
+  if (!propiedad.moneda) faltantes.push('moneda');
+  if (!propiedad.ciudad) faltantes.push('ciudad');
+  if (getImagenes(propiedad).length === 0) faltantes.push('imagenes');
+
+  if (formato === 'kyero') {
+    if (!propiedad.provincia) faltantes.push('provincia');
+    if (!propiedad.descripcion) faltantes.push('descripcion');
+    if (propiedad.operacion && !PRECIO_FREQ_KYERO[propiedad.operacion]) faltantes.push('operacion (venta o renta)');
+    if (propiedad.tipo && !TIPOS_KYERO[propiedad.tipo]) faltantes.push('tipo (no soportado por Kyero)');
+  }
+
+  return faltantes;
+}
+
+// ==================== GENERADORES ====================
+
+function generarXml(ctx: ContextoFeed, propiedades: any[], generadoAt: string): string {
+  const listings = propiedades.map(p => {
+    const textos = getTextosTraducidos(p);
+    const titulos = Object.entries(textos).map(([idioma, t]) => nodo('title', t.titulo, ` lang="${escapeXml(idioma)}"`)).join('');
+    const descripciones = Object.entries(textos).map(([idioma, t]) => nodo('description', t.descripcion, ` lang="${escapeXml(idioma)}"`)).join('');
+    const imagenes = getImagenes(p).map((url, i) => nodo('image', url, ` position="${i + 1}"`)).join('');
+    const amenidades = getAmenidadesPropiedad(ctx, p).map(a => nodo('amenity', a.nombre, ` code="${escapeXml(a.codigo)}"`)).join('');
+    const exacta = p.mostrar_ubicacion_exacta !== false;
+
+    return `
+  <listing>
+    ${nodo('id', p.id)}
+    ${nodo('reference', p.codigo_publico || p.codigo)}
+    ${nodo('url', getUrlPropiedad(ctx, p))}
+    ${titulos}
+    ${descripciones}
+    ${nodo('type', p.tipo)}
+    ${nodo('operation', p.operacion)}
+    ${nodo('price', Number(p.precio), ` currency="${escapeXml(p.moneda)}"`)}
+    ${nodo('bedrooms', p.habitaciones)}
+    ${nodo('bathrooms', p.banos)}
+    ${nodo('half_bathrooms', p.medios_banos)}
+    ${nodo('parking', p.estacionamientos)}
+    ${nodo('built_area', p.m2_construccion, ' unit="m2"')}
+    ${nodo('plot_area', p.m2_terreno, ' unit="m2"')}
+    <location>
+      ${nodo('country', p.pais)}
+      ${nodo('province', p.provincia)}
+      ${nodo('city', p.ciudad)}
+      ${nodo('sector', p.sector)}
+      ${exacta ? nodo('address', p.direccion) : ''}
+      ${exacta ? nodo('latitude', p.latitud) : ''}
+      ${exacta ? nodo('longitude', p.longitud) : ''}
+    </location>
+    <images>${imagenes}</images>
+    <amenities>${amenidades}</amenities>
+    ${nodo('updated_at', new Date(p.updated_at).toISOString())}
+  </listing>`;
+  }).join('');
+
+  return compactarXml(`<?xml version="1.0" encoding="UTF-8"?>
+<listings generated="${generadoAt}" publisher="${escapeXml(ctx.tenant.nombre)}" portal="${escapeXml(ctx.portal.codigo)}">${listings}
+</listings>
+`);
+}
+
+function generarKyero(ctx: ContextoFeed, propiedades: any[]): string {
+  const formatearFecha = (fecha: any) => new Date(fecha).toISOString().replace('T', ' ').slice(0, 19);
+
+  const items = propiedades.map(p => {
+    const textos = getTextosTraducidos(p);
+    const idiomas = Object.keys(textos).filter(idioma => IDIOMAS_KYERO.includes(idioma));
+    const descripciones = idiomas.map(idioma => nodo(idioma, textos[idioma].descripcion)).join('');
+    const urls = idiomas.map(idioma => nodo(idioma, getUrlPropiedad(ctx, p, idioma))).join('');
+    const features = getAmenidadesPropiedad(ctx, p, 'en').map(a => nodo('feature', a.nombre)).join('');
+    const imagenes = getImagenes(p).slice(0, 50)
+      .map((url, i) => `<image id="${i + 1}">${nodo('url', url)}</image>`).join('');
+    const tienePiscina = getAmenidadesPropiedad(ctx, p).some(a => a.codigo.includes('piscina'));
+    const exacta = p.mostrar_ubicacion_exacta !== false && p.latitud && p.longitud;
+
+    return `
+  <property>
+    ${nodo('id', p.id)}
+    ${nodo('date', formatearFecha(p.updated_at))}
+    ${nodo('ref', p.codigo_publico || p.codigo || p.id)}
+    ${nodo('price', Math.round(Number(p.precio)))}
+    ${nodo('currency', p.moneda)}
+    ${nodo('price_freq', PRECIO_FREQ_KYERO[p.operacion])}
+    <new_build>${p.is_project ? 1 : 0}</new_build>
+    ${nodo('type', TIPOS_KYERO[p.tipo])}
+    ${nodo('town', p.ciudad)}
+    ${nodo('province', p.provincia)}
+    ${nodo('country', p.pais)}
+    ${exacta ? `<location>${nodo('latitude', p.latitud)}${nodo('longitude', p.longitud)}</location>` : ''}
+    ${nodo('beds', p.habitaciones || 0)}
+    ${nodo('baths', p.banos || 0)}
+    <pool>${tienePiscina ? 1 : 0}</pool>
+    <surface_area>${nodo('built', p.m2_construccion ? Math.round(Number(p.m2_construccion)) : '')}${nodo('plot', p.m2_terreno ? Math.round(Number(p.m2_terreno)) : '')}</surface_area>
+    ${urls ? `<url>${urls}</url>` : ''}
+    <desc>${descripciones}</desc>
+    <features>${features}</features>
+    <images>${imagenes}</images>
+  </property>`;
+  }).join('');
+
+  return compactarXml(`<?xml version="1.0" encoding="UTF-8"?>
+<root>
+  <kyero><feed_version>3</feed_version></kyero>${items}
+</root>
+`);
+}
+
+function generarJson(ctx: ContextoFeed, propiedades: any[], generadoAt: string): string {
+  const items = propiedades.map(p => {
+    const exacta = p.mostrar_ubicacion_exacta !== false;
+    return {
+      id: p.id,
+      referencia: p.codigo_publico || p.codigo || null,
+      url: getUrlPropiedad(ctx, p),
+      tipo: p.tipo,
+      operacion: p.operacion,
+      precio: Number(p.precio),
+      moneda: p.moneda,
+      textos: getTextosTraducidos(p),
+      habitaciones: p.habitaciones ?? null,
+      banos: p.banos ?? null,
+      medios_banos: p.medios_banos ?? null,
+      estacionamientos: p.estacionamientos ?? null,
+      m2_construccion: p.m2_construccion !== null ? Number(p.m2_construccion) : null,
+      m2_terreno: p.m2_terreno !== null ? Number(p.m2_terreno) : null,
+      ubicacion: {
+        pais: p.pais || null,
+        provincia: p.provincia || null,
+        ciudad: p.ciudad || null,
+        sector: p.sector || null,
+        direccion: exacta ? p.direccion || null : null,
+        latitud: exacta && p.latitud !== null ? Number(p.latitud) : null,
+        longitud: exacta && p.longitud !== null ? Number(p.longitud) : null,
+      },
+      imagenes: getImagenes(p),
+      amenidades: getAmenidadesPropiedad(ctx, p),
+      proyecto: !!p.is_project,
+      updated_at: p.updated_at,
+    };
+  });
+
+  return JSON.stringify({
+    generado_at: generadoAt,
+    publicador: ctx.tenant.nombre,
+    portal: ctx.portal.codigo,
+    total: items.length,
+    propiedades: items,
+  });
+}
+
+// ==================== API ====================
+
+/**
+ * Carga el portal, el tenant y las propiedades disponibles marcadas para el portal,
+ * separando las que pasan la validación del formato de las rechazadas.
+ */
+async function prepararFeed(tenantId: string, portalCodigo: string, formato: FormatoFeed) {
+  const portal = await getPortalCatalogoByCodigo(portalCodigo);
+  if (!portal) return null;
+
+  const tenantResult = await query(
+    `SELECT id, slug, nombre, dominio_personalizado FROM tenants WHERE id = $1 AND activo = true`,
+    [tenantId]
+  );
+  const tenant = tenantResult.rows[0];
+  if (!tenant) return null;
+
+  const amenidadesLista = await getAmenidades(true, tenantId);
+  const ctx: ContextoFeed = {
+    portal,
+    tenant,
+    amenidades: new Map(amenidadesLista.map(a => [a.codigo, a])),
+  };
+
+  const result = await query(
+    `SELECT id, codigo, codigo_publico, titulo, descripcion, tipo, operacion, precio, moneda,
+            pais, provincia, ciudad, sector, direccion, latitud, longitud, mostrar_ubicacion_exacta,
+            habitaciones, banos, medios_banos, estacionamientos, m2_construccion, m2_terreno,
+            amenidades, imagen_principal, imagenes, slug, slug_traducciones, traducciones,
+            portales, is_project, updated_at
+     FROM propiedades
+     WHERE tenant_id = $1 AND activo = true AND estado_propiedad = 'disponible'
+       AND portales ? $2
+     ORDER BY updated_at DESC`,
+    [tenantId, portalCodigo]
+  );
+
+  const marcadas = result.rows.filter((p: any) => estaMarcadaParaPortal(parseJson(p.portales, {}), portalCodigo));
+  const aceptadas: any[] = [];
+  const rechazadas: PropiedadRechazada[] = [];
+
+  for (const propiedad of marcadas) {
+    const faltantes = validarPropiedadFeed(propiedad, formato);
+    if (faltantes.length === 0) {
+      aceptadas.push(propiedad);
+    } else {
+      rechazadas.push({
+        id: propiedad.id,
+        codigo: propiedad.codigo_publico ? String(propiedad.codigo_publico) : (propiedad.codigo || null),
+        titulo: propiedad.titulo,
+        campos_faltantes: faltantes,
+      });
+    }
+  }
+
+  const reporte: ReporteFeed = {
+    portal: { codigo: portal.codigo, nombre: portal.nombre },
+    formato,
+    generado_at: new Date().toISOString(),
+    total_marcadas: marcadas.length,
+    aceptadas: aceptadas.length,
+    rechazadas,
+  };
+
+  return { ctx, aceptadas, reporte };
+}
+
+/**
+ * Genera el feed de un tenant para un portal en el formato indicado.
+ * Retorna null si el portal no existe / está inactivo o el tenant no está activo.
+ */
+export async function generarFeedPortal(
+  tenantId: string,
+  portalCodigo: string,
+  formato: FormatoFeed
+): Promise<FeedPortal | null> {
+  const preparado = await prepararFeed(tenantId, portalCodigo, formato);
+  if (!preparado) return null;
+
+  const { ctx, aceptadas, reporte } = preparado;
+
+  if (reporte.rechazadas.length > 0) {
+    console.log(`📤 Feed ${portalCodigo}/${formato} (tenant ${tenantId}): ${reporte.rechazadas.length} propiedades rechazadas`);
+  }
+
+  switch (formato) {
+    case 'kyero':
+      return { contenido: generarKyero(ctx, aceptadas), contentType: 'application/xml; charset=utf-8', reporte };
+    case 'json':
+      return { contenido: generarJson(ctx, aceptadas, reporte.generado_at), contentType: 'application/json; charset=utf-8', reporte };
+    default:
+      return { contenido: generarXml(ctx, aceptadas, reporte.generado_at), contentType: 'application/xml; charset=utf-8', reporte };
+  }
+}
+
+/**
+ * Reporte de validación del feed (sin generar el contenido), para el CRM
+ */
+export async function getReporteFeedPortal(
+  tenantId: string,
+  portalCodigo: string,
+  formato: FormatoFeed
+): Promise<ReporteFeed | null> {
+  const preparado = await prepararFeed(tenantId, portalCodigo, formato);
+  return preparado ? preparado.reporte : null;
+}
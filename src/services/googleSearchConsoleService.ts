@@ -5,6 +5,7 @@
  * - Token refresh (exchange refresh_token for access_token)
  * - List verified sites
  * - Get search analytics (clicks, impressions, CTR, position)
+ * - Submit sitemaps
  */
 
 const GOOGLE_CLIENT_ID = process.env.GOOGLE_OAUTH_CLIENT_ID || '';
@@ -72,6 +73,35 @@ export async function listSites(refreshToken: string): Promise<SearchConsoleSite
   }));
 }
 
+// ==================== SITEMAPS ====================
+
+/**
+ * Submits (or resubmits) a sitemap for a verified site.
+ * Google re-crawls the sitemap asynchronously; the API returns no body on success.
+ */
+export async function submitSitemap(
+  refreshToken: string,
+  siteUrl: string,
+  sitemapUrl: string
+): Promise<void> {
+  const accessToken = await getAccessToken(refreshToken);
+
+  const response = await fetch(
+    `${GSC_API_BASE}/sites/${encodeURIComponent(siteUrl)}/sitemaps/${encodeURIComponent(sitemapUrl)}`,
+    {
+      method: 'PUT',
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+      },
+    }
+  );
+
+  if (!response.ok) {
+    const err: any = await response.json().catch(() => ({}));
+    throw new Error(`Failed to submit sitemap: ${err.error?.message || response.statusText}`);
+  }
+}
+
 // ==================== SEARCH ANALYTICS ====================
 
 export interface SearchAnalyticsRow {
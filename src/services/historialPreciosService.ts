@@ -0,0 +1,305 @@
+/**
+ * Servicio de historial de precios de propiedades
+ *
+ * - Registra cada cambio de precio (quién, cuándo, anterior/nuevo, moneda)
+ * - Expone la evolución de precio de una propiedad al CRM
+ * - Avisa a los contactos con solicitudes abiertas compatibles (matchingService)
+ *   cuando el precio baja (ejecutado por cron, ver routes/cron.routes.ts)
+ */
+
+import { query } from '../utils/db.js';
+import { createActividad } from './actividadesService.js';
+import { enviarEmailComoUsuario, escapeHtml, formatearPrecio } from './emailNotificacionesService.js';
+import { getInteresadosPropiedad, SolicitudInteresada } from './matchingService.js';
+
+// ==================== TIPOS ====================
+
+export const CAMPOS_PRECIO = ['precio', 'precio_venta', 'precio_alquiler'] as const;
+export type CampoPrecio = typeof CAMPOS_PRECIO[number];
+
+export interface CambioPrecio {
+  id: string;
+  tenant_id: string;
+  propiedad_id: string;
+  campo: CampoPrecio;
+  precio_anterior: number | null;
+  precio_nuevo: number | null;
+  moneda_anterior: string | null;
+  moneda_nueva: string | null;
+  variacion_porcentaje: number | null;
+  usuario_id: string | null;
+  usuario_nombre?: string | null;
+  notificado_at: string | null;
+  created_at: string;
+}
+
+export interface ResultadoBajadasPrecio {
+  propiedades: number;
+  emailsEnviados: number;
+  actividadesCreadas: number;
+}
+
+// Solo se avisan bajadas recientes (evita notificar historial viejo tras un despliegue)
+const DIAS_VENTANA_AVISO = 7;
+
+// Score mínimo del matching para avisar a un contacto
+const MIN_SCORE_AVISO = 60;
+
+// ==================== HELPERS ====================
+
+function toNumberOrNull(valor: any): number | null {
+  if (valor === null || valor === undefined || valor === '') return null;
+  const n = Number(valor);
+  return Number.isFinite(n) ? n : null;
+}
+
+function calcularVariacion(anterior: number | null, nuevo: number | null): number | null {
+  if (!anterior || nuevo === null) return null;
+  return Math.round(((nuevo - anterior) / anterior) * 10000) / 100;
+}
+
+function mapCambio(row: any): CambioPrecio {
+  return {
+    ...row,
+    precio_anterior: toNumberOrNull(row.precio_anterior),
+    precio_nuevo: toNumberOrNull(row.precio_nuevo),
+    variacion_porcentaje: toNumberOrNull(row.variacion_porcentaje),
+  };
+}
+
+// ==================== REGISTRO ====================
+
+/**
+ * Compara los precios antes/después de guardar una propiedad y registra los cambios.
+ * Con anterior = null se registra el precio inicial (creación).
+ */
+export async function registrarCambiosPrecio(
+  tenantId: string,
+  propiedadId: string,
+  anterior: Record<string, any> | null,
+  nuevo: Record<string, any>,
+  usuarioId?: string
+): Promise<number> {
+  const monedaAnterior = anterior ? (anterior.moneda || null) : null;
+  const monedaNueva = nuevo.moneda || null;
+  let registrados = 0;
+
+  for (const campo of CAMPOS_PRECIO) {
+    const precioAnterior = anterior ? toNumberOrNull(anterior[campo]) : null;
+    const precioNuevo = toNumberOrNull(nuevo[campo]);
+
+    const sinCambio = precioAnterior === precioNuevo && monedaAnterior === monedaNueva;
+    if (anterior && sinCambio) continue;
+    if (!anterior && precioNuevo === null) continue;
+
+    // Cambio de moneda sin precio: no aporta a la evolución
+    if (precioAnterior === null && precioNuevo === null) continue;
+
+    const variacion = monedaAnterior === monedaNueva ? calcularVariacion(precioAnterior, precioNuevo) : null;
+
+    await query(
+      `INSERT INTO propiedades_historial_precios (
+        tenant_id, propiedad_id, campo, precio_anterior, precio_nuevo,
+        moneda_anterior, moneda_nueva, variacion_porcentaje, usuario_id
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+      [tenantId, propiedadId, campo, precioAnterior, precioNuevo, monedaAnterior, monedaNueva, variacion, usuarioId || null]
+    );
+    registrados++;
+  }
+
+  return registrados;
+}
+
+/**
+ * Obtiene la evolución de precios de una propiedad (más reciente primero)
+ */
+export async function getHistorialPrecios(
+  tenantId: string,
+  propiedadId: string,
+  campo?: CampoPrecio
+): Promise<CambioPrecio[]> {
+  const params: any[] = [tenantId, propiedadId];
+  let campoFilter = '';
+  if (campo) {
+    params.push(campo);
+    campoFilter = ` AND h.campo = $3`;
+  }
+
+  const sql = `
+    SELECT h.*, NULLIF(TRIM(CONCAT(u.nombre, ' ', u.apellido)), '') AS usuario_nombre
+    FROM propiedades_historial_precios h
+    LEFT JOIN usuarios u ON u.id = h.usuario_id
+    WHERE h.tenant_id = $1 AND h.propiedad_id = $2${campoFilter}
+    ORDER BY h.created_at DESC
+  `;
+  const result = await query(sql, params);
+  return result.rows.map(mapCambio);
+}
+
+// ==================== AVISOS DE BAJADA ====================
+
+/**
+ * Reclama (marca notificado_at) las bajadas de precio pendientes de avisar.
+ * Se queda con la bajada más reciente por propiedad.
+ */
+async function reclamarBajadasPendientes(): Promise<CambioPrecio[]> {
+  const sql = `
+    UPDATE propiedades_historial_precios
+    SET notificado_at = NOW()
+    WHERE notificado_at IS NULL
+      AND campo = 'precio'
+      AND precio_anterior IS NOT NULL
+      AND precio_nuevo < precio_anterior
+      AND moneda_anterior IS NOT DISTINCT FROM moneda_nueva
+      AND created_at >= NOW() - make_interval(days => $1)
+    RETURNING *
+  `;
+  const result = await query(sql, [DIAS_VENTANA_AVISO]);
+
+  const porPropiedad = new Map<string, CambioPrecio>();
+  for (const row of result.rows.map(mapCambio)) {
+    const actual = porPropiedad.get(row.propiedad_id);
+    if (!actual || new Date(row.created_at) > new Date(actual.created_at)) {
+      porPropiedad.set(row.propiedad_id, row);
+    }
+  }
+  return [...porPropiedad.values()];
+}
+
+/**
+ * Solicitudes abiertas vinculadas directamente a la propiedad (s.propiedad_id):
+ * son los contactos más interesados aunque sus criterios no den el score mínimo.
+ */
+async function getSolicitudesVinculadas(tenantId: string, propiedadId: string): Promise<Pick<SolicitudInteresada, 'solicitud' | 'contacto'>[]> {
+  const sql = `
+    SELECT s.id, s.titulo, s.etapa, s.presupuesto, s.moneda, s.usuario_asignado_id,
+      c.id AS contacto_id, c.nombre AS contacto_nombre, c.email AS contacto_email
+    FROM solicitudes s
+    INNER JOIN contactos c ON c.id = s.contacto_id AND c.activo = true
+    WHERE s.tenant_id = $1
+      AND s.propiedad_id = $2
+      AND s.activo = true
+      AND s.etapa NOT IN ('ganado', 'perdido')
+    ORDER BY s.updated_at DESC
+  `;
+  const result = await query(sql, [tenantId, propiedadId]);
+  return result.rows.map((s: any) => ({
+    solicitud: {
+      id: s.id,
+      titulo: s.titulo,
+      etapa: s.etapa,
+      presupuesto: toNumberOrNull(s.presupuesto),
+      moneda: s.moneda || 'USD',
+      usuario_asignado_id: s.usuario_asignado_id || undefined,
+    },
+    contacto: {
+      id: s.contacto_id,
+      nombre: s.contacto_nombre,
+      email: s.contacto_email || undefined,
+    },
+  }));
+}
+
+function construirEmailBajada(propiedad: any, cambio: CambioPrecio, contactoNombre: string) {
+  const porcentaje = Math.abs(cambio.variacion_porcentaje || 0);
+  const ubicacion = [propiedad.sector, propiedad.ciudad].filter(Boolean).join(', ');
+
+  const subject = `Bajó de precio: ${propiedad.titulo} (-${porcentaje}%)`;
+  const html = `
+    <p>Hola ${escapeHtml(contactoNombre)},</p>
+    <p>Una propiedad que coincide con lo que buscas acaba de bajar de precio:</p>
+    <p>
+      <strong>${escapeHtml(propiedad.titulo)}</strong>${ubicacion ? `<br>${escapeHtml(ubicacion)}` : ''}<br>
+      <s>${formatearPrecio(cambio.precio_anterior, cambio.moneda_nueva)}</s>
+      → <strong>${formatearPrecio(cambio.precio_nuevo, cambio.moneda_nueva)}</strong> (-${porcentaje}%)
+    </p>
+    <p>Responde a este correo si quieres más información o agendar una visita.</p>
+  `;
+
+  return { subject, html };
+}
+
+/**
+ * Procesa las bajadas de precio pendientes de todos los tenants:
+ * envía un email al contacto desde la cuenta de su asesor o, si no es posible,
+ * crea una actividad para que el asesor lo avise manualmente.
+ */
+export async function procesarBajadasPrecio(): Promise<ResultadoBajadasPrecio> {
+  const bajadas = await reclamarBajadasPendientes();
+  const resultado: ResultadoBajadasPrecio = { propiedades: 0, emailsEnviados: 0, actividadesCreadas: 0 };
+
+  for (const cambio of bajadas) {
+    const propResult = await query(
+      `SELECT id, tenant_id, titulo, codigo, tipo, operacion, precio, moneda,
+              habitaciones, banos, ciudad, sector, captador_id, agente_id
+       FROM propiedades
+       WHERE id = $1 AND activo = true AND estado_propiedad = 'disponible'`,
+      [cambio.propiedad_id]
+    );
+    const propiedad = propResult.rows[0];
+    if (!propiedad) continue;
+
+    // Si el precio volvió a cambiar después de la bajada, el aviso ya no aplica
+    if (toNumberOrNull(propiedad.precio) !== cambio.precio_nuevo) continue;
+
+    resultado.propiedades++;
+    const [vinculadas, compatibles] = await Promise.all([
+      getSolicitudesVinculadas(propiedad.tenant_id, propiedad.id),
+      getInteresadosPropiedad(propiedad.tenant_id, propiedad.id, {
+        limit: 100,
+        minScore: MIN_SCORE_AVISO,
+      }),
+    ]);
+    // Las vinculadas van primero: si el contacto aparece en ambas, se usa esa solicitud
+    const interesados = [...vinculadas, ...(compatibles || [])];
+
+    // Un aviso por contacto aunque tenga varias solicitudes compatibles
+    const contactosAvisados = new Set<string>();
+
+    for (const { solicitud, contacto } of interesados) {
+      if (!contacto || contactosAvisados.has(contacto.id)) continue;
+      contactosAvisados.add(contacto.id);
+
+      const usuarioId = solicitud.usuario_asignado_id || propiedad.captador_id || propiedad.agente_id;
+      if (!usuarioId) continue;
+
+      let enviado = false;
+      if (contacto.email) {
+        const email = construirEmailBajada(propiedad, cambio, contacto.nombre);
+        enviado = await enviarEmailComoUsuario(propiedad.tenant_id, usuarioId, {
+          to: contacto.email,
+          ...email,
+        });
+      }
+
+      if (enviado) {
+        resultado.emailsEnviados++;
+        continue;
+      }
+
+      try {
+        await createActividad(propiedad.tenant_id, {
+          tipo: 'seguimiento',
+          titulo: `Avisar bajada de precio: ${propiedad.titulo}`,
+          descripcion: `El precio bajó de ${formatearPrecio(cambio.precio_anterior, cambio.moneda_nueva)} a ${formatearPrecio(cambio.precio_nuevo, cambio.moneda_nueva)} y coincide con la búsqueda de ${contacto.nombre}.`,
+          usuario_id: usuarioId,
+          contacto_id: contacto.id,
+          solicitud_id: solicitud.id,
+          fecha_programada: new Date().toISOString(),
+          prioridad: 'alta',
+          metadata: {
+            origen: 'cron_bajadas_precio',
+            propiedad_id: propiedad.id,
+            historial_precio_id: cambio.id,
+            variacion_porcentaje: cambio.variacion_porcentaje,
+          },
+        });
+        resultado.actividadesCreadas++;
+      } catch (error: any) {
+        console.error(`⚠️ Error creando actividad de bajada de precio (propiedad ${propiedad.id}):`, error.message);
+      }
+    }
+  }
+
+  return resultado;
+}
@@ -0,0 +1,470 @@
+/**
+ * imagenesRenditionsService.ts
+ *
+ * Pipeline de imágenes responsive para propiedades y contenido.
+ *
+ * - Cada imagen subida genera un set de renditions WebP recortadas alrededor de su
+ *   punto focal (thumbnail/card 4:3, hero 16:9, og 1200x630) y opcionalmente la marca
+ *   de agua con el logo del tenant
+ * - El manifiesto (imagenes_renditions) guarda dimensiones, blurhash y punto focal;
+ *   se identifica por la URL guardada en imagenes / imagen_principal
+ * - Los resolvers públicos piden los manifiestos en bloque y exponen datos listos
+ *   para srcset (ImagenResponsive)
+ * - Cambiar el punto focal regenera las renditions con claves nuevas (las URLs
+ *   son inmutables en la CDN)
+ * - El cron de backfill procesa las imágenes existentes que aún no tienen manifiesto
+ * - Solo se descargan imágenes por https del bucket de R2 o de IMAGENES_HOSTS_PERMITIDOS
+ */
+
+import sharp from 'sharp';
+import { createHash } from 'crypto';
+import { query } from '../utils/db.js';
+import { codificarBlurhash } from '../utils/blurhash.js';
+import { uploadBuffer, deleteFile, getPublicUrl } from './r2Service.js';
+import type { ImagenResponsive, RenditionImagen } from './resolvers/base/types.js';
+
+export interface DefinicionRendition {
+  nombre: string;
+  ancho: number;
+  alto: number;
+  marcaAgua: boolean;
+}
+
+export const RENDITIONS: DefinicionRendition[] = [
+  { nombre: 'thumbnail', ancho: 400, alto: 300, marcaAgua: false },
+  { nombre: 'card', ancho: 800, alto: 600, marcaAgua: true },
+  { nombre: 'hero_md', ancho: 960, alto: 540, marcaAgua: true },
+  { nombre: 'hero', ancho: 1920, alto: 1080, marcaAgua: true },
+  { nombre: 'og', ancho: 1200, alto: 630, marcaAgua: true },
+];
+
+// Renditions con la misma proporción: se ofrecen juntas en un srcset
+const FAMILIAS_SRCSET: Record<'card' | 'hero', string[]> = {
+  card: ['thumbnail', 'card'],
+  hero: ['hero_md', 'hero'],
+};
+
+const MAX_INTENTOS = 3;
+// Las subidas admiten hasta 20MB; algo más grande no es una imagen nuestra
+const MAX_BYTES_DESCARGA = 25 * 1024 * 1024;
+
+export interface ManifiestoImagen {
+  id: string;
+  tenant_id: string;
+  url: string;
+  ancho: number | null;
+  alto: number | null;
+  blurhash: string | null;
+  foco_x: number;
+  foco_y: number;
+  marca_agua: boolean;
+  renditions: Record<string, RenditionImagen & { key: string }>;
+  estado: 'pendiente' | 'listo' | 'error';
+  error: string | null;
+  updated_at: string;
+}
+
+function mapearManifiesto(row: any): ManifiestoImagen {
+  return {
+    ...row,
+    foco_x: Number(row.foco_x),
+    foco_y: Number(row.foco_y),
+    renditions: row.renditions || {},
+  };
+}
+
+// ==================== PROCESAMIENTO ====================
+
+/**
+ * Hosts de los que se descargan imágenes: el bucket público de R2 y los de
+ * IMAGENES_HOSTS_PERMITIDOS (separados por coma, ej: CDNs de portales importados).
+ * Cualquier otra URL (red interna, metadata del proveedor...) se rechaza.
+ */
+function getHostsPermitidos(): Set<string> {
+  const hosts = (process.env.IMAGENES_HOSTS_PERMITIDOS || '')
+    .split(',')
+    .map((h) => h.trim().toLowerCase())
+    .filter(Boolean);
+  hosts.push(new URL(getPublicUrl('x')).hostname.toLowerCase());
+  return new Set(hosts);
+}
+
+function esUrlDescargable(url: string): boolean {
+  let destino: URL;
+  try {
+    destino = new URL(url);
+  } catch {
+    return false;
+  }
+  return destino.protocol === 'https:' && !destino.port && getHostsPermitidos().has(destino.hostname.toLowerCase());
+}
+
+async function descargarImagen(url: string): Promise<Buffer> {
+  if (!esUrlDescargable(url)) {
+    throw new Error(`Host de imagen no permitido: ${url}`);
+  }
+  // Sin seguir redirecciones: un host permitido no puede desviar la descarga a otro
+  const response = await fetch(url, { signal: AbortSignal.timeout(20000), redirect: 'error' });
+  if (!response.ok) {
+    throw new Error(`No se pudo descargar la imagen (${response.status})`);
+  }
+  if (Number(response.headers.get('content-length')) > MAX_BYTES_DESCARGA) {
+    await response.body?.cancel();
+    throw new Error(`Imagen demasiado grande: ${response.headers.get('content-length')} bytes`);
+  }
+  if (!response.body) return Buffer.alloc(0);
+
+  // content-length puede faltar o mentir: se corta al pasar el máximo en vez de cargarla entera
+  const partes: Uint8Array[] = [];
+  let total = 0;
+  const reader = response.body.getReader();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.byteLength;
+    if (total > MAX_BYTES_DESCARGA) {
+      await reader.cancel();
+      throw new Error(`Imagen demasiado grande: más de ${MAX_BYTES_DESCARGA} bytes`);
+    }
+    partes.push(value);
+  }
+  return Buffer.concat(partes, total);
+}
+
+/**
+ * Logo del tenant (info_negocio) preparado para componer como marca de agua
+ */
+async function getLogoTenant(tenantId: string): Promise<Buffer | null> {
+  const result = await query(`SELECT info_negocio FROM tenants WHERE id = $1`, [tenantId]);
+  const info = result.rows[0]?.info_negocio || {};
+  const logoUrl = info.logo || info.logo_url;
+  if (!logoUrl) return null;
+
+  try {
+    return await descargarImagen(logoUrl);
+  } catch (error: any) {
+    console.warn(`⚠️ No se pudo descargar el logo del tenant ${tenantId}: ${error.message}`);
+    return null;
+  }
+}
+
+/**
+ * Recorta la imagen a ancho x alto centrando el punto focal (sin agrandar: si la
+ * original es más chica, la rendition sale más chica con la misma proporción)
+ */
+async function recortarConFoco(
+  original: Buffer,
+  meta: { ancho: number; alto: number },
+  def: DefinicionRendition,
+  foco: { x: number; y: number },
+  logo: Buffer | null
+): Promise<{ buffer: Buffer; ancho: number; alto: number }> {
+  let escala = Math.max(def.ancho / meta.ancho, def.alto / meta.alto);
+  let ancho = def.ancho;
+  let alto = def.alto;
+  if (escala > 1) {
+    ancho = Math.floor(def.ancho / escala);
+    alto = Math.floor(def.alto / escala);
+    escala = 1;
+  }
+
+  const anchoEscalado = Math.max(ancho, Math.round(meta.ancho * escala));
+  const altoEscalado = Math.max(alto, Math.round(meta.alto * escala));
+  const left = Math.min(Math.max(Math.round(foco.x * anchoEscalado - ancho / 2), 0), anchoEscalado - ancho);
+  const top = Math.min(Math.max(Math.round(foco.y * altoEscalado - alto / 2), 0), altoEscalado - alto);
+
+  let imagen = sharp(original)
+    .rotate()
+    .resize(anchoEscalado, altoEscalado, { fit: 'fill' })
+    .extract({ left, top, width: ancho, height: alto });
+
+  if (logo && def.marcaAgua) {
+    const margen = Math.round(ancho * 0.03);
+    const marca = await sharp(logo)
+      .resize({ width: Math.round(ancho * 0.18), height: Math.round(alto * 0.18), fit: 'inside' })
+      .extend({ right: margen, bottom: margen, background: { r: 0, g: 0, b: 0, alpha: 0 } })
+      .png()
+      .toBuffer();
+    imagen = sharp(await imagen.toBuffer()).composite([{ input: marca, gravity: 'southeast' }]);
+  }
+
+  return { buffer: await imagen.webp({ quality: 80 }).toBuffer(), ancho, alto };
+}
+
+async function calcularBlurhash(original: Buffer): Promise<string> {
+  const { data, info } = await sharp(original)
+    .rotate()
+    .resize(32, 32, { fit: 'inside' })
+    .removeAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return codificarBlurhash(data, info.width, info.height, info.channels);
+}
+
+/**
+ * Genera (o regenera) las renditions y el manifiesto de una imagen.
+ * Si no se pasa el buffer, descarga la imagen desde su URL.
+ */
+export async function generarRenditions(
+  tenantId: string,
+  imagen: { url: string; buffer?: Buffer },
+  opciones: { foco?: { x: number; y: number }; marcaAgua?: boolean } = {}
+): Promise<ManifiestoImagen> {
+  const anterior = await getManifiesto(tenantId, imagen.url);
+  const foco = opciones.foco ?? { x: anterior?.foco_x ?? 0.5, y: anterior?.foco_y ?? 0.5 };
+  const marcaAgua = opciones.marcaAgua ?? anterior?.marca_agua ?? false;
+
+  try {
+    const original = imagen.buffer ?? (await descargarImagen(imagen.url));
+    const meta = await sharp(original).rotate().metadata();
+    // rotate() sin argumentos aplica la orientación EXIF; las dimensiones vienen sin rotar
+    const rotada = (meta.orientation ?? 1) >= 5;
+    const ancho = (rotada ? meta.height : meta.width) || 0;
+    const alto = (rotada ? meta.width : meta.height) || 0;
+    if (!ancho || !alto) {
+      throw new Error('No se pudieron leer las dimensiones de la imagen');
+    }
+
+    const logo = marcaAgua ? await getLogoTenant(tenantId) : null;
+    const base = createHash('sha1').update(imagen.url).digest('hex').slice(0, 16);
+    const version = Date.now().toString(36);
+
+    const renditions: ManifiestoImagen['renditions'] = {};
+    for (const def of RENDITIONS) {
+      const resultado = await recortarConFoco(original, { ancho, alto }, def, foco, logo);
+      const key = `${tenantId}/renditions/${base}/${def.nombre}-${version}.webp`;
+      const url = await uploadBuffer(resultado.buffer, key, 'image/webp');
+      renditions[def.nombre] = { url, key, width: resultado.ancho, height: resultado.alto };
+    }
+
+    const blurhash = await calcularBlurhash(original);
+
+    const result = await query(
+      `INSERT INTO imagenes_renditions
+         (tenant_id, url, ancho, alto, blurhash, foco_x, foco_y, marca_agua, renditions, estado, error, intentos)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, 'listo', NULL, 0)
+       ON CONFLICT (tenant_id, url) DO UPDATE SET
+         ancho = EXCLUDED.ancho,
+         alto = EXCLUDED.alto,
+         blurhash = EXCLUDED.blurhash,
+         foco_x = EXCLUDED.foco_x,
+         foco_y = EXCLUDED.foco_y,
+         marca_agua = EXCLUDED.marca_agua,
+         renditions = EXCLUDED.renditions,
+         estado = 'listo',
+         error = NULL,
+         intentos = 0,
+         updated_at = NOW()
+       RETURNING *`,
+      [tenantId, imagen.url, ancho, alto, blurhash, foco.x, foco.y, marcaAgua, JSON.stringify(renditions)]
+    );
+
+    // Las renditions anteriores ya no las referencia nadie
+    for (const rendition of Object.values(anterior?.renditions || {})) {
+      deleteFile(rendition.key).catch((error) =>
+        console.warn(`⚠️ No se pudo eliminar la rendition ${rendition.key}: ${error.message}`)
+      );
+    }
+
+    return mapearManifiesto(result.rows[0]);
+  } catch (error: any) {
+    await query(
+      `INSERT INTO imagenes_renditions (tenant_id, url, foco_x, foco_y, marca_agua, estado, error, intentos)
+       VALUES ($1, $2, $3, $4, $5, 'error', $6, 1)
+       ON CONFLICT (tenant_id, url) DO UPDATE SET
+         estado = CASE WHEN imagenes_renditions.estado = 'listo' THEN 'listo' ELSE 'error' END,
+         error = EXCLUDED.error,
+         intentos = imagenes_renditions.intentos + 1,
+         updated_at = NOW()`,
+      [tenantId, imagen.url, foco.x, foco.y, marcaAgua, error.message]
+    );
+    throw new Error(`Error al generar renditions: ${error.message}`);
+  }
+}
+
+// Carpetas cuyas imágenes se publican en el sitio y llevan renditions responsive
+const FOLDERS_CON_RENDITIONS = ['propiedades', 'articulos', 'contenido'];
+
+/**
+ * Genera las renditions de una imagen recién subida si corresponde (carpeta pública
+ * o renditions=true en el body de la subida). Un error aquí no invalida la subida:
+ * el backfill lo reintenta.
+ */
+export async function agregarRenditions<T extends { url: string }>(
+  tenantId: string,
+  body: any,
+  buffer: Buffer,
+  result: T
+): Promise<T & { responsive?: ImagenResponsive }> {
+  const folder = body.folder || 'general';
+  if (!FOLDERS_CON_RENDITIONS.includes(folder) && body.renditions !== 'true') {
+    return result;
+  }
+
+  try {
+    const x = Number(body.foco_x);
+    const y = Number(body.foco_y);
+    const foco = Number.isFinite(x) && Number.isFinite(y) && body.foco_x !== undefined && body.foco_y !== undefined
+      ? { x: Math.min(Math.max(x, 0), 1), y: Math.min(Math.max(y, 0), 1) }
+      : undefined;
+    const manifiesto = await generarRenditions(tenantId, { url: result.url, buffer }, {
+      foco,
+      marcaAgua: body.marca_agua === 'true',
+    });
+    return { ...result, responsive: toImagenResponsive(result.url, manifiesto) };
+  } catch (error: any) {
+    console.error(`❌ Error generando renditions de ${result.url}:`, error.message);
+    return result;
+  }
+}
+
+// ==================== CONSULTA ====================
+
+export async function getManifiesto(tenantId: string, url: string): Promise<ManifiestoImagen | null> {
+  const result = await query(
+    `SELECT * FROM imagenes_renditions WHERE tenant_id = $1 AND url = $2`,
+    [tenantId, url]
+  );
+  return result.rows[0] ? mapearManifiesto(result.rows[0]) : null;
+}
+
+/**
+ * Manifiestos listos de varias imágenes (una sola consulta para un listado)
+ */
+export async function getManifiestosPorUrl(tenantId: string, urls: string[]): Promise<Map<string, ManifiestoImagen>> {
+  const unicas = Array.from(new Set(urls.filter(Boolean)));
+  if (unicas.length === 0) return new Map();
+
+  const result = await query(
+    `SELECT * FROM imagenes_renditions
+     WHERE tenant_id = $1 AND url = ANY($2::text[]) AND estado = 'listo'`,
+    [tenantId, unicas]
+  );
+  return new Map(result.rows.map((row: any) => [row.url, mapearManifiesto(row)]));
+}
+
+/**
+ * Datos para <img srcset> de una imagen (solo src si no tiene manifiesto)
+ */
+export function toImagenResponsive(url: string, manifiesto?: ManifiestoImagen | null): ImagenResponsive {
+  if (!manifiesto) return { src: url };
+
+  const renditions: Record<string, RenditionImagen> = {};
+  for (const [nombre, r] of Object.entries(manifiesto.renditions)) {
+    renditions[nombre] = { url: r.url, width: r.width, height: r.height };
+  }
+
+  const srcset = (nombres: string[]) =>
+    nombres
+      .filter((n) => renditions[n])
+      .map((n) => `${renditions[n].url} ${renditions[n].width}w`)
+      .join(', ') || undefined;
+
+  return {
+    src: url,
+    width: manifiesto.ancho ?? undefined,
+    height: manifiesto.alto ?? undefined,
+    blurhash: manifiesto.blurhash,
+    foco: { x: manifiesto.foco_x, y: manifiesto.foco_y },
+    renditions,
+    srcset: { card: srcset(FAMILIAS_SRCSET.card), hero: srcset(FAMILIAS_SRCSET.hero) },
+    og: renditions.og?.url ?? null,
+  };
+}
+
+/**
+ * Las imágenes se guardan como URL o como { url, ... }
+ */
+export function urlDeImagen(imagen: any): string | null {
+  if (typeof imagen === 'string') return imagen || null;
+  return imagen?.url || null;
+}
+
+/**
+ * Agrega imagen_principal_responsive e imagenes_responsive a entidades con
+ * imagen_principal / imagenes (propiedades, artículos)
+ */
+export async function adjuntarImagenesResponsive<
+  T extends { imagen_principal?: string | null; imagenes?: any[] }
+>(tenantId: string, entidades: T[]): Promise<T[]> {
+  const urls = entidades.flatMap((e) => [e.imagen_principal, ...(e.imagenes || []).map(urlDeImagen)]);
+
+  let manifiestos = new Map<string, ManifiestoImagen>();
+  try {
+    manifiestos = await getManifiestosPorUrl(tenantId, urls.filter(Boolean) as string[]);
+  } catch (error: any) {
+    // Sin manifiestos el sitio sigue funcionando con las URLs originales
+    console.error('❌ Error obteniendo manifiestos de imágenes:', error.message);
+  }
+
+  for (const entidad of entidades as any[]) {
+    entidad.imagen_principal_responsive = entidad.imagen_principal
+      ? toImagenResponsive(entidad.imagen_principal, manifiestos.get(entidad.imagen_principal))
+      : null;
+    entidad.imagenes_responsive = (entidad.imagenes || [])
+      .map(urlDeImagen)
+      .filter(Boolean)
+      .map((url: string) => toImagenResponsive(url, manifiestos.get(url)));
+  }
+
+  return entidades;
+}
+
+// ==================== BACKFILL ====================
+
+/**
+ * Genera renditions de imágenes existentes (propiedades activas y artículos) que aún
+ * no tienen manifiesto o fallaron menos de MAX_INTENTOS veces. Procesa de a `limite`
+ * por ejecución para no saturar el proceso. Las URLs de hosts no permitidos fallan
+ * sin descargarse y dejan de intentarse tras MAX_INTENTOS.
+ */
+export async function procesarBackfillRenditions(limite = 25): Promise<{
+  procesadas: number;
+  generadas: number;
+  errores: number;
+}> {
+  const pendientes = await query(
+    `WITH urls AS (
+       SELECT p.tenant_id, u.url
+       FROM propiedades p
+       CROSS JOIN LATERAL (
+         SELECT p.imagen_principal as url
+         UNION
+         SELECT COALESCE(e->>'url', e #>> '{}')
+         FROM jsonb_array_elements(CASE WHEN jsonb_typeof(p.imagenes) = 'array' THEN p.imagenes ELSE '[]'::jsonb END) e
+       ) u
+       WHERE p.activo = true
+       UNION
+       SELECT a.tenant_id, u.url
+       FROM articulos a
+       CROSS JOIN LATERAL (
+         SELECT a.imagen_principal as url
+         UNION
+         SELECT COALESCE(e->>'url', e #>> '{}')
+         FROM jsonb_array_elements(CASE WHEN jsonb_typeof(a.imagenes) = 'array' THEN a.imagenes ELSE '[]'::jsonb END) e
+       ) u
+     )
+     SELECT urls.tenant_id, urls.url
+     FROM urls
+     LEFT JOIN imagenes_renditions ir ON ir.tenant_id = urls.tenant_id AND ir.url = urls.url
+     WHERE urls.url ~* '^https://'
+       AND (ir.id IS NULL OR (ir.estado <> 'listo' AND ir.intentos < $2))
+     LIMIT $1`,
+    [limite, MAX_INTENTOS]
+  );
+
+  let generadas = 0;
+  let errores = 0;
+
+  for (const { tenant_id, url } of pendientes.rows) {
+    try {
+      await generarRenditions(tenant_id, { url });
+      generadas++;
+    } catch (error: any) {
+      errores++;
+      console.error(`❌ Renditions de ${url}: ${error.message}`);
+    }
+  }
+
+  return { procesadas: pendientes.rows.length, generadas, errores };
+}
@@ -0,0 +1,300 @@
+/**
+ * Servicio de captura de leads desde los sitios web de los tenants
+ *
+ * Procesa los formularios públicos ("contactar al asesor", "agendar visita", etc.):
+ * - Deduplica contra contactos existentes por email o teléfono
+ * - Crea una solicitud en etapa 'nuevo_lead' vinculada a la propiedad
+ * - Guarda los datos de tracking (ref, UTM) extraídos de la URL de origen
+ * - Asigna el lead: usuario referidor (ref) → pool del sistema de fases → asesor default
+ */
+
+import { query } from '../utils/db.js';
+import { createContacto, Contacto } from './contactosService.js';
+import { createSolicitud, Solicitud } from './solicitudesService.js';
+import { createActividad } from './actividadesService.js';
+import {
+  getConfig as getConfigSistemaFases,
+  seleccionarAsesorParaLead,
+  marcarComoLeadPool,
+  asignarLead,
+} from './sistemaFasesService.js';
+import { parseUrlWithTracking, resolveTrackingData } from './routeResolver.js';
+
+// ==================== TIPOS ====================
+
+export type TipoFormularioWeb = 'contacto' | 'agendar_visita' | 'informacion_propiedad' | 'tasacion' | 'otro';
+
+export interface LeadWebData {
+  nombre: string;
+  apellido?: string;
+  email?: string;
+  telefono?: string;
+  mensaje?: string;
+  tipo_formulario?: TipoFormularioWeb;
+  propiedad_id?: string;
+  fecha_visita?: string;
+  pagina_url?: string;    // URL completa desde donde se envió (incluye ?ref=&utm_*)
+  idioma?: string;
+}
+
+export type MetodoAsignacion = 'referidor' | 'pool_fases' | 'asesor_default' | 'contacto_existente' | 'sin_asignar';
+
+export interface LeadWebResultado {
+  contacto: Contacto;
+  contactoNuevo: boolean;
+  solicitud: Solicitud;
+  usuarioAsignadoId: string | null;
+  metodoAsignacion: MetodoAsignacion;
+}
+
+const TITULOS_FORMULARIO: Record<TipoFormularioWeb, string> = {
+  contacto: 'Contacto desde sitio web',
+  agendar_visita: 'Solicitud de visita',
+  informacion_propiedad: 'Solicitud de información',
+  tasacion: 'Solicitud de tasación',
+  otro: 'Lead desde sitio web',
+};
+
+// ==================== HELPERS ====================
+
+/**
+ * Normaliza un teléfono a solo dígitos para comparar entre formatos
+ * (ej: "+1 (809) 555-1234" → "18095551234")
+ */
+export function normalizarTelefono(telefono: string | null | undefined): string | null {
+  if (!telefono) return null;
+  const digits = telefono.replace(/\D/g, '');
+  return digits.length >= 7 ? digits : null;
+}
+
+/**
+ * Convierte una URL absoluta (ej: header Referer) en path + query string
+ */
+export function toRelativeUrl(url: string | undefined): string {
+  if (!url) return '/';
+  if (!/^https?:\/\//i.test(url)) return url;
+  try {
+    const parsed = new URL(url);
+    return `${parsed.pathname}${parsed.search}`;
+  } catch {
+    return '/';
+  }
+}
+
+/**
+ * Busca un contacto existente del tenant por email o teléfono.
+ * Compara el teléfono por sus últimos 10 dígitos para tolerar prefijos de país.
+ */
+export async function findContactoExistente(
+  tenantId: string,
+  email: string | null,
+  telefono: string | null
+): Promise<Contacto | null> {
+  if (!email && !telefono) return null;
+
+  const conditions: string[] = [];
+  const params: any[] = [tenantId];
+
+  if (email) {
+    params.push(email.toLowerCase());
+    conditions.push(`LOWER(email) = $${params.length}`);
+  }
+
+  if (telefono) {
+    params.push(telefono.slice(-10));
+    const idx = params.length;
+    conditions.push(`RIGHT(regexp_replace(COALESCE(telefono, ''), '\\D', '', 'g'), 10) = $${idx}`);
+    conditions.push(`RIGHT(regexp_replace(COALESCE(whatsapp, ''), '\\D', '', 'g'), 10) = $${idx}`);
+    conditions.push(`RIGHT(regexp_replace(COALESCE(telefono_secundario, ''), '\\D', '', 'g'), 10) = $${idx}`);
+  }
+
+  const sql = `
+    SELECT *
+    FROM contactos
+    WHERE tenant_id = $1 AND activo = true
+      AND (${conditions.join(' OR ')})
+    ORDER BY created_at ASC
+    LIMIT 1
+  `;
+  const result = await query(sql, params);
+  return result.rows[0] || null;
+}
+
+/**
+ * Obtiene el usuario_id del asesor default configurado en el tenant
+ */
+async function getUsuarioAsesorDefault(tenantId: string): Promise<string | null> {
+  const sql = `
+    SELECT pa.usuario_id
+    FROM tenants t
+    INNER JOIN perfiles_asesor pa ON t.asesor_default_id = pa.id
+    WHERE t.id = $1 AND pa.activo = true
+    LIMIT 1
+  `;
+  const result = await query(sql, [tenantId]);
+  return result.rows[0]?.usuario_id || null;
+}
+
+/**
+ * Verifica que la propiedad pertenece al tenant y devuelve datos mínimos
+ */
+async function getPropiedadLead(
+  tenantId: string,
+  propiedadId: string
+): Promise<{ id: string; titulo: string; codigo: string | null; moneda: string | null; operacion: string | null; tipo: string | null; precio: number | null } | null> {
+  const sql = `
+    SELECT id, titulo, codigo, moneda, operacion, tipo, precio
+    FROM propiedades
+    WHERE id = $1 AND tenant_id = $2 AND activo = true
+  `;
+  const result = await query(sql, [propiedadId, tenantId]);
+  return result.rows[0] || null;
+}
+
+// ==================== PROCESAMIENTO ====================
+
+/**
+ * Determina a qué usuario se asigna el lead.
+ *
+ * Prioridad:
+ * 1. Usuario referidor (?ref= en la URL de origen)
+ * 2. Asesor ya asignado al contacto existente
+ * 3. Pool del sistema de fases (si está activo para el tenant)
+ * 4. Asesor default del tenant
+ */
+async function resolverAsignacion(
+  tenantId: string,
+  contacto: Contacto,
+  contactoNuevo: boolean,
+  usuarioReferidor: any | null
+): Promise<{ usuarioId: string | null; metodo: MetodoAsignacion }> {
+  if (usuarioReferidor?.usuario_id) {
+    return { usuarioId: usuarioReferidor.usuario_id, metodo: 'referidor' };
+  }
+
+  if (!contactoNuevo && contacto.usuario_asignado_id) {
+    return { usuarioId: contacto.usuario_asignado_id, metodo: 'contacto_existente' };
+  }
+
+  const configFases = await getConfigSistemaFases(tenantId);
+  if (configFases?.activo) {
+    const asesorPool = await seleccionarAsesorParaLead(tenantId);
+    if (asesorPool) {
+      await marcarComoLeadPool(tenantId, contacto.id, 'sitio_web');
+      await asignarLead(tenantId, contacto.id, asesorPool);
+      return { usuarioId: asesorPool, metodo: 'pool_fases' };
+    }
+  }
+
+  const asesorDefault = await getUsuarioAsesorDefault(tenantId);
+  if (asesorDefault) {
+    return { usuarioId: asesorDefault, metodo: 'asesor_default' };
+  }
+
+  return { usuarioId: null, metodo: 'sin_asignar' };
+}
+
+/**
+ * Procesa un formulario enviado desde el sitio web del tenant
+ */
+export async function procesarLeadWeb(
+  tenantId: string,
+  data: LeadWebData
+): Promise<LeadWebResultado> {
+  const email = data.email?.trim() || null;
+  const telefono = normalizarTelefono(data.telefono);
+  const tipoFormulario: TipoFormularioWeb = data.tipo_formulario && TITULOS_FORMULARIO[data.tipo_formulario]
+    ? data.tipo_formulario
+    : 'contacto';
+
+  // Tracking desde la URL de origen (misma lógica que el resolver de páginas)
+  const { pathname, tracking } = parseUrlWithTracking(toRelativeUrl(data.pagina_url));
+  const { usuarioReferidor } = await resolveTrackingData(tenantId, tracking as Record<string, string>);
+
+  // Propiedad de interés (opcional)
+  const propiedad = data.propiedad_id ? await getPropiedadLead(tenantId, data.propiedad_id) : null;
+
+  // 1. Deduplicar contacto
+  let contacto = await findContactoExistente(tenantId, email, telefono);
+  const contactoNuevo = !contacto;
+
+  if (!contacto) {
+    contacto = await createContacto(tenantId, {
+      nombre: data.nombre.trim(),
+      apellido: data.apellido?.trim() || undefined,
+      email: email || undefined,
+      telefono: data.telefono?.trim() || undefined,
+      tipo: 'lead',
+      origen: 'sitio_web',
+      datos_extra: {
+        tracking,
+        primera_pagina: pathname,
+      },
+    });
+  }
+
+  // 2. Resolver asignación
+  const { usuarioId, metodo } = await resolverAsignacion(tenantId, contacto, contactoNuevo, usuarioReferidor);
+
+  if (contactoNuevo && usuarioId) {
+    await query(
+      `UPDATE contactos SET usuario_asignado_id = $1, updated_at = NOW() WHERE id = $2 AND tenant_id = $3`,
+      [usuarioId, contacto.id, tenantId]
+    );
+    contacto.usuario_asignado_id = usuarioId;
+  }
+
+  // 3. Crear solicitud en nuevo_lead
+  const nombreCompleto = `${data.nombre.trim()} ${data.apellido?.trim() || ''}`.trim();
+  const titulo = propiedad
+    ? `${TITULOS_FORMULARIO[tipoFormulario]}: ${propiedad.titulo}`
+    : `${TITULOS_FORMULARIO[tipoFormulario]} - ${nombreCompleto}`;
+
+  const solicitud = await createSolicitud(tenantId, {
+    titulo,
+    descripcion: data.mensaje?.trim() || undefined,
+    etapa: 'nuevo_lead',
+    contacto_id: contacto.id,
+    propiedad_id: propiedad?.id,
+    usuario_asignado_id: usuarioId || undefined,
+    moneda: propiedad?.moneda || undefined,
+    tipo_operacion: propiedad?.operacion || undefined,
+    tipo_propiedad: propiedad?.tipo || undefined,
+    fecha_contacto: new Date().toISOString(),
+    datos_extra: {
+      origen: 'sitio_web',
+      tipo_formulario: tipoFormulario,
+      pagina_url: pathname,
+      idioma: data.idioma || null,
+      fecha_visita: data.fecha_visita || null,
+      tracking,
+      usuario_referidor_id: usuarioReferidor?.usuario_id || null,
+      metodo_asignacion: metodo,
+    },
+  });
+
+  // 4. Actividad de seguimiento para el asesor asignado
+  if (usuarioId) {
+    await createActividad(tenantId, {
+      tipo: tipoFormulario === 'agendar_visita' ? 'visita' : 'seguimiento',
+      titulo: `Nuevo lead web: ${nombreCompleto}`,
+      descripcion: data.mensaje?.trim() || undefined,
+      contacto_id: contacto.id,
+      solicitud_id: solicitud.id,
+      usuario_id: usuarioId,
+      fecha_programada: data.fecha_visita || undefined,
+      prioridad: 'alta',
+      metadata: { origen: 'sitio_web', tipo_formulario: tipoFormulario, propiedad_id: propiedad?.id || null },
+    });
+  }
+
+  console.log(`✅ Lead web procesado: contacto ${contacto.id} (${contactoNuevo ? 'nuevo' : 'existente'}), solicitud ${solicitud.id}, asignación: ${metodo}`);
+
+  return {
+    contacto,
+    contactoNuevo,
+    solicitud,
+    usuarioAsignadoId: usuarioId,
+    metodoAsignacion: metodo,
+  };
+}
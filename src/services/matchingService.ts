@@ -0,0 +1,497 @@
+/**
+ * Servicio de matching comprador ↔ propiedad
+ *
+ * Compara los criterios de una solicitud (presupuesto, operación, tipo, zona,
+ * habitaciones, baños, amenidades) contra el inventario y asigna un score 0-100.
+ *
+ * - Operación y tipo de propiedad son filtros obligatorios (si la solicitud los indica)
+ * - El precio se compara en USD usando las tasas de cambio del tenant
+ * - La zona se resuelve contra el árbol de ubicaciones (la propiedad coincide si
+ *   la zona buscada es su ubicación o cualquiera de sus ancestros)
+ * - Las amenidades deseadas se leen de solicitud.datos_extra.amenidades
+ *
+ * Solo los criterios que la solicitud especifica cuentan para el score.
+ * A igual score, las propiedades con más vistas en el sitio (últimos 30 días) van primero.
+ */
+
+import { query } from '../utils/db.js';
+import { getTasasCambio, TasasCambio } from './tasasCambioService.js';
+import { createPropuesta, Propuesta } from './propuestasService.js';
+import { getVistasPropiedades } from './analyticsWebService.js';
+
+// ==================== TIPOS ====================
+
+export interface DesgloseMatch {
+  precio?: number;
+  ubicacion?: number;
+  habitaciones?: number;
+  banos?: number;
+  amenidades?: number;
+}
+
+export interface PropiedadMatch {
+  propiedad: {
+    id: string;
+    titulo: string;
+    codigo?: string;
+    slug?: string;
+    tipo: string;
+    operacion: string;
+    precio: number | null;
+    moneda: string;
+    ciudad?: string;
+    sector?: string;
+    habitaciones?: number;
+    banos?: number;
+    imagen_principal?: string;
+  };
+  score: number;
+  desglose: DesgloseMatch;
+  vistas: number; // vistas en el sitio web (últimos 30 días)
+}
+
+export interface SolicitudInteresada {
+  solicitud: {
+    id: string;
+    titulo: string;
+    etapa: string;
+    presupuesto: number | null;
+    moneda: string;
+    usuario_asignado_id?: string;
+  };
+  contacto: {
+    id: string;
+    nombre: string;
+    apellido?: string;
+    email?: string;
+    telefono?: string;
+  } | null;
+  score: number;
+  desglose: DesgloseMatch;
+}
+
+export interface OpcionesMatching {
+  limit?: number;
+  minScore?: number;
+}
+
+// Pesos de cada criterio (se normalizan sobre los criterios presentes)
+const PESOS: Required<DesgloseMatch> = {
+  precio: 35,
+  ubicacion: 30,
+  habitaciones: 15,
+  banos: 10,
+  amenidades: 10,
+};
+
+// Tolerancia sobre el presupuesto antes de descartar (15%)
+const TOLERANCIA_PRESUPUESTO = 0.15;
+const MIN_SCORE_DEFAULT = 50;
+const LIMIT_DEFAULT = 20;
+const MAX_CANDIDATOS = 500;
+
+const OPERACIONES_EQUIVALENTES: Record<string, string[]> = {
+  venta: ['venta'],
+  renta: ['renta', 'alquiler'],
+  alquiler: ['renta', 'alquiler'],
+  traspaso: ['traspaso'],
+};
+
+// ==================== HELPERS ====================
+
+/**
+ * Score mínimo efectivo: un valor no numérico (NaN) desactivaría el filtro,
+ * así que se usa el default.
+ */
+function scoreMinimo(minScore?: number): number {
+  return typeof minScore === 'number' && Number.isFinite(minScore) ? minScore : MIN_SCORE_DEFAULT;
+}
+
+function normalizarTexto(texto: string | null | undefined): string {
+  return (texto || '')
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9\s-]/g, '')
+    .replace(/[\s-]+/g, ' ')
+    .trim();
+}
+
+function parseArray(valor: any): any[] {
+  if (!valor) return [];
+  if (Array.isArray(valor)) return valor;
+  if (typeof valor === 'string') {
+    try {
+      const parsed = JSON.parse(valor);
+      return Array.isArray(parsed) ? parsed : [];
+    } catch {
+      return [];
+    }
+  }
+  return [];
+}
+
+function operacionesCompatibles(operacion: string | null | undefined): string[] | null {
+  if (!operacion) return null;
+  const clave = operacion.toLowerCase();
+  return OPERACIONES_EQUIVALENTES[clave] || [clave];
+}
+
+function aUSD(monto: number, moneda: string | null | undefined, tasas: TasasCambio): number {
+  const codigo = (moneda || 'USD').toUpperCase();
+  if (codigo === 'USD') return monto;
+  const tasa = tasas[codigo];
+  return tasa && tasa > 0 ? monto / tasa : monto;
+}
+
+/**
+ * Términos de zona de la solicitud: zona_interes separada por comas,
+ * más ubicacion_ids explícitos en datos_extra
+ */
+function getZonasSolicitud(solicitud: any): { terminos: string[]; ubicacionIds: string[] } {
+  const terminos = (solicitud.zona_interes || '')
+    .split(/[,;/]/)
+    .map(normalizarTexto)
+    .filter(Boolean);
+  const datosExtra = typeof solicitud.datos_extra === 'string' ? JSON.parse(solicitud.datos_extra) : (solicitud.datos_extra || {});
+  const ubicacionIds = parseArray(datosExtra.ubicacion_ids).filter((id) => typeof id === 'string');
+  return { terminos, ubicacionIds };
+}
+
+function getAmenidadesSolicitud(solicitud: any): string[] {
+  const datosExtra = typeof solicitud.datos_extra === 'string' ? JSON.parse(solicitud.datos_extra) : (solicitud.datos_extra || {});
+  return parseArray(datosExtra.amenidades).map((a) => normalizarTexto(typeof a === 'string' ? a : a?.nombre)).filter(Boolean);
+}
+
+interface CadenaUbicacion {
+  ids: Set<string>;
+  nombres: Set<string>;
+}
+
+/**
+ * Obtiene, para cada ubicación, la cadena de ancestros (ella misma incluida)
+ */
+async function getCadenasUbicacion(ubicacionIds: string[]): Promise<Map<string, CadenaUbicacion>> {
+  const cadenas = new Map<string, CadenaUbicacion>();
+  const unicos = [...new Set(ubicacionIds.filter(Boolean))];
+  if (unicos.length === 0) return cadenas;
+
+  const sql = `
+    WITH RECURSIVE cadena AS (
+      SELECT id AS origen_id, id, parent_id, nombre, slug
+      FROM ubicaciones
+      WHERE id = ANY($1::uuid[])
+      UNION ALL
+      SELECT c.origen_id, u.id, u.parent_id, u.nombre, u.slug
+      FROM ubicaciones u
+      INNER JOIN cadena c ON u.id = c.parent_id
+    )
+    SELECT origen_id, id, nombre, slug FROM cadena
+  `;
+  const result = await query(sql, [unicos]);
+
+  for (const row of result.rows) {
+    let cadena = cadenas.get(row.origen_id);
+    if (!cadena) {
+      cadena = { ids: new Set(), nombres: new Set() };
+      cadenas.set(row.origen_id, cadena);
+    }
+    cadena.ids.add(row.id);
+    cadena.nombres.add(normalizarTexto(row.nombre));
+    cadena.nombres.add(normalizarTexto(row.slug));
+  }
+
+  return cadenas;
+}
+
+// ==================== SCORING ====================
+
+/**
+ * Calcula el score de una propiedad para una solicitud.
+ * Retorna null si la propiedad queda descartada por precio.
+ */
+function calcularScore(
+  solicitud: any,
+  propiedad: any,
+  cadena: CadenaUbicacion | undefined,
+  tasas: TasasCambio
+): { score: number; desglose: DesgloseMatch } | null {
+  const desglose: DesgloseMatch = {};
+
+  // Precio (en USD)
+  const presupuesto = Number(solicitud.presupuesto) || 0;
+  const precio = Number(propiedad.precio) || 0;
+  if (presupuesto > 0 && precio > 0) {
+    const presupuestoUSD = aUSD(presupuesto, solicitud.moneda, tasas);
+    const precioUSD = aUSD(precio, propiedad.moneda, tasas);
+    const ratio = precioUSD / presupuestoUSD;
+
+    if (ratio > 1 + TOLERANCIA_PRESUPUESTO) return null;
+
+    if (ratio > 1) {
+      desglose.precio = 1 - (ratio - 1) / TOLERANCIA_PRESUPUESTO * 0.7;
+    } else if (ratio < 0.5) {
+      // Muy por debajo del presupuesto: probablemente no es lo que busca
+      desglose.precio = 0.6;
+    } else {
+      desglose.precio = 1;
+    }
+  } else if (presupuesto > 0) {
+    desglose.precio = 0.5; // Propiedad sin precio publicado
+  }
+
+  // Ubicación
+  const { terminos, ubicacionIds } = getZonasSolicitud(solicitud);
+  if (terminos.length > 0 || ubicacionIds.length > 0) {
+    const enArbol = !!cadena && (
+      ubicacionIds.some((id) => cadena.ids.has(id)) ||
+      terminos.some((t) => cadena.nombres.has(t))
+    );
+    const textoPropiedad = [propiedad.sector, propiedad.ciudad, propiedad.provincia].map(normalizarTexto);
+    const enTexto = terminos.some((t) => textoPropiedad.some((campo) => campo && (campo === t || campo.includes(t))));
+
+    desglose.ubicacion = enArbol ? 1 : enTexto ? 0.8 : 0;
+  }
+
+  // Habitaciones
+  const recamarasMin = Number(solicitud.recamaras_min) || 0;
+  if (recamarasMin > 0) {
+    const habitaciones = Number(propiedad.habitaciones) || 0;
+    desglose.habitaciones = habitaciones >= recamarasMin ? 1 : habitaciones === recamarasMin - 1 ? 0.5 : 0;
+  }
+
+  // Baños
+  const banosMin = Number(solicitud.banos_min) || 0;
+  if (banosMin > 0) {
+    const banos = Number(propiedad.banos) || 0;
+    desglose.banos = banos >= banosMin ? 1 : banos >= banosMin - 1 ? 0.5 : 0;
+  }
+
+  // Amenidades
+  const amenidadesDeseadas = getAmenidadesSolicitud(solicitud);
+  if (amenidadesDeseadas.length > 0) {
+    const amenidadesPropiedad = new Set(
+      parseArray(propiedad.amenidades).map((a) => normalizarTexto(typeof a === 'string' ? a : a?.nombre))
+    );
+    const presentes = amenidadesDeseadas.filter((a) => amenidadesPropiedad.has(a)).length;
+    desglose.amenidades = presentes / amenidadesDeseadas.length;
+  }
+
+  // Normalizar sobre los criterios presentes
+  let puntos = 0;
+  let pesoTotal = 0;
+  for (const [criterio, valor] of Object.entries(desglose) as [keyof DesgloseMatch, number][]) {
+    puntos += valor * PESOS[criterio];
+    pesoTotal += PESOS[criterio];
+    desglose[criterio] = Math.round(valor * 100);
+  }
+
+  // Sin criterios comparables: coincide solo por operación/tipo
+  const score = pesoTotal > 0 ? Math.round((puntos / pesoTotal) * 100) : MIN_SCORE_DEFAULT;
+  return { score, desglose };
+}
+
+async function getSolicitudMatching(tenantId: string, solicitudId: string): Promise<any | null> {
+  const result = await query(
+    `SELECT * FROM solicitudes WHERE id = $1 AND tenant_id = $2 AND activo = true`,
+    [solicitudId, tenantId]
+  );
+  return result.rows[0] || null;
+}
+
+const SELECT_PROPIEDAD_MATCHING = `
+  p.id, p.titulo, p.codigo, p.slug, p.tipo, p.operacion, p.precio, p.moneda,
+  p.provincia, p.ciudad, p.sector, p.ubicacion_id, p.habitaciones, p.banos,
+  p.amenidades, p.imagen_principal
+`;
+
+// ==================== MATCHING ====================
+
+/**
+ * Obtiene las propiedades disponibles que coinciden con una solicitud, ordenadas por score.
+ * Retorna null si la solicitud no existe.
+ */
+export async function getMatchesSolicitud(
+  tenantId: string,
+  solicitudId: string,
+  opciones: OpcionesMatching = {}
+): Promise<PropiedadMatch[] | null> {
+  const solicitud = await getSolicitudMatching(tenantId, solicitudId);
+  if (!solicitud) return null;
+
+  const limit = opciones.limit || LIMIT_DEFAULT;
+  const minScore = scoreMinimo(opciones.minScore);
+
+  const params: any[] = [tenantId];
+  let sql = `
+    SELECT ${SELECT_PROPIEDAD_MATCHING}
+    FROM propiedades p
+    WHERE p.tenant_id = $1 AND p.activo = true AND p.estado_propiedad = 'disponible'
+  `;
+
+  const operaciones = operacionesCompatibles(solicitud.tipo_operacion);
+  if (operaciones) {
+    params.push(operaciones);
+    sql += ` AND LOWER(p.operacion) = ANY($${params.length}::text[])`;
+  }
+
+  if (solicitud.tipo_propiedad) {
+    params.push(solicitud.tipo_propiedad);
+    sql += ` AND LOWER(p.tipo) = LOWER($${params.length})`;
+  }
+
+  params.push(MAX_CANDIDATOS);
+  sql += ` ORDER BY p.updated_at DESC LIMIT $${params.length}`;
+
+  const [candidatos, tasas] = await Promise.all([query(sql, params), getTasasCambio(tenantId)]);
+  const cadenas = await getCadenasUbicacion(candidatos.rows.map((p: any) => p.ubicacion_id));
+
+  const matches: PropiedadMatch[] = [];
+  for (const p of candidatos.rows) {
+    const resultado = calcularScore(solicitud, p, cadenas.get(p.ubicacion_id), tasas);
+    if (!resultado || resultado.score < minScore) continue;
+
+    matches.push({
+      propiedad: {
+        id: p.id,
+        titulo: p.titulo,
+        codigo: p.codigo,
+        slug: p.slug,
+        tipo: p.tipo,
+        operacion: p.operacion,
+        precio: p.precio !== null ? Number(p.precio) : null,
+        moneda: p.moneda || 'USD',
+        ciudad: p.ciudad,
+        sector: p.sector,
+        habitaciones: p.habitaciones,
+        banos: p.banos,
+        imagen_principal: p.imagen_principal,
+      },
+      score: resultado.score,
+      desglose: resultado.desglose,
+      vistas: 0,
+    });
+  }
+
+  const vistas = await getVistasPropiedades(tenantId, matches.map((m) => m.propiedad.id));
+  for (const match of matches) {
+    match.vistas = vistas.get(match.propiedad.id) || 0;
+  }
+
+  return matches.sort((a, b) => b.score - a.score || b.vistas - a.vistas).slice(0, limit);
+}
+
+/**
+ * Obtiene las solicitudes abiertas interesadas en una propiedad (matching inverso).
+ * Retorna null si la propiedad no existe.
+ */
+export async function getInteresadosPropiedad(
+  tenantId: string,
+  propiedadId: string,
+  opciones: OpcionesMatching = {}
+): Promise<SolicitudInteresada[] | null> {
+  const propResult = await query(
+    `SELECT ${SELECT_PROPIEDAD_MATCHING} FROM propiedades p WHERE p.id = $1 AND p.tenant_id = $2 AND p.activo = true`,
+    [propiedadId, tenantId]
+  );
+  const propiedad = propResult.rows[0];
+  if (!propiedad) return null;
+
+  const limit = opciones.limit || LIMIT_DEFAULT;
+  const minScore = scoreMinimo(opciones.minScore);
+
+  const sql = `
+    SELECT s.*,
+      c.nombre AS contacto_nombre, c.apellido AS contacto_apellido,
+      c.email AS contacto_email, c.telefono AS contacto_telefono
+    FROM solicitudes s
+    LEFT JOIN contactos c ON c.id = s.contacto_id AND c.activo = true
+    WHERE s.tenant_id = $1
+      AND s.activo = true
+      AND s.etapa NOT IN ('ganado', 'perdido')
+      AND (s.tipo_operacion IS NULL OR LOWER(s.tipo_operacion) = ANY($2::text[]))
+      AND (s.tipo_propiedad IS NULL OR LOWER(s.tipo_propiedad) = LOWER($3))
+      AND (s.tipo_operacion IS NOT NULL OR s.tipo_propiedad IS NOT NULL OR s.presupuesto IS NOT NULL OR s.zona_interes IS NOT NULL)
+    ORDER BY s.updated_at DESC
+    LIMIT $4
+  `;
+  const operaciones = operacionesCompatibles(propiedad.operacion) || [];
+
+  const [solicitudes, tasas, cadenas] = await Promise.all([
+    query(sql, [tenantId, operaciones, propiedad.tipo || '', MAX_CANDIDATOS]),
+    getTasasCambio(tenantId),
+    getCadenasUbicacion([propiedad.ubicacion_id]),
+  ]);
+  const cadena = cadenas.get(propiedad.ubicacion_id);
+
+  const interesados: SolicitudInteresada[] = [];
+  for (const s of solicitudes.rows) {
+    const resultado = calcularScore(s, propiedad, cadena, tasas);
+    if (!resultado || resultado.score < minScore) continue;
+
+    interesados.push({
+      solicitud: {
+        id: s.id,
+        titulo: s.titulo,
+        etapa: s.etapa,
+        presupuesto: s.presupuesto !== null ? Number(s.presupuesto) : null,
+        moneda: s.moneda || 'USD',
+        usuario_asignado_id: s.usuario_asignado_id || undefined,
+      },
+      contacto: s.contacto_id && s.contacto_nombre ? {
+        id: s.contacto_id,
+        nombre: s.contacto_nombre,
+        apellido: s.contacto_apellido || undefined,
+        email: s.contacto_email || undefined,
+        telefono: s.contacto_telefono || undefined,
+      } : null,
+      score: resultado.score,
+      desglose: resultado.desglose,
+    });
+  }
+
+  return interesados.sort((a, b) => b.score - a.score).slice(0, limit);
+}
+
+/**
+ * Crea una propuesta en borrador con las mejores coincidencias de la solicitud.
+ * Si se indican propiedadIds, se usan esas (en ese orden) en lugar del top N.
+ * Retorna null si la solicitud no existe; la propuesta queda sin propiedades si no hay matches.
+ */
+export async function crearPropuestaDesdeMatches(
+  tenantId: string,
+  solicitudId: string,
+  usuarioId: string | null,
+  opciones: { limit?: number; minScore?: number; propiedadIds?: string[]; titulo?: string } = {}
+): Promise<{ propuesta: Propuesta; matches: PropiedadMatch[] } | null> {
+  const solicitud = await getSolicitudMatching(tenantId, solicitudId);
+  if (!solicitud) return null;
+
+  const todos = await getMatchesSolicitud(tenantId, solicitudId, {
+    limit: MAX_CANDIDATOS,
+    // Las propiedades elegidas a mano se aceptan aunque su score sea bajo
+    minScore: opciones.propiedadIds?.length ? 0 : opciones.minScore,
+  }) || [];
+
+  const matches = opciones.propiedadIds && opciones.propiedadIds.length > 0
+    ? opciones.propiedadIds
+        .map((id) => todos.find((m) => m.propiedad.id === id))
+        .filter((m): m is PropiedadMatch => !!m)
+    : todos.slice(0, opciones.limit || 5);
+
+  const propuesta = await createPropuesta(tenantId, {
+    titulo: opciones.titulo || `Propiedades sugeridas: ${solicitud.titulo}`,
+    estado: 'borrador',
+    solicitud_id: solicitud.id,
+    contacto_id: solicitud.contacto_id || undefined,
+    usuario_creador_id: usuarioId || solicitud.usuario_asignado_id || undefined,
+    moneda: solicitud.moneda || 'USD',
+    propiedad_ids: matches.map((m) => m.propiedad.id),
+    datos_extra: {
+      origen: 'matching',
+      scores: Object.fromEntries(matches.map((m) => [m.propiedad.id, m.score])),
+    },
+  });
+
+  return { propuesta, matches };
+}
@@ -0,0 +1,307 @@
+/**
+ * Mensajeria Eventos Service - Real-time inbox events (SSE)
+ *
+ * Every inbox change (new message, delivery/read status, assignment, unread
+ * counter) is written to `mensajeria_eventos` and announced with pg NOTIFY, so
+ * any API instance can push it to the agents connected to it:
+ *
+ *   publicarEvento → INSERT + pg_notify → LISTEN client (1 per process) → suscriptores
+ *
+ * The bigserial id is the SSE event id: a reconnecting client sends Last-Event-ID
+ * and gets the events it missed from the table (kept for a few hours, see cron).
+ *
+ * Visibility: an event addressed to a user (usuario_id) goes to that user; events
+ * without usuario_id (unassigned conversations) go to everyone in the tenant.
+ * Users with 'all'/'team' scope on mensajeria can subscribe to the whole tenant.
+ */
+
+import { query, getClient } from '../utils/db.js';
+import type { Mensaje, EstadoMensaje } from './mensajeriaService.js';
+
+// ==================== TYPES ====================
+
+export type TipoEventoMensajeria =
+  | 'mensaje.nuevo'
+  | 'mensaje.estado'
+  | 'conversacion.actualizada'
+  | 'conversacion.asignada'
+  | 'conversacion.leida'
+  | 'conversacion.sla_incumplido';
+
+export interface EventoMensajeria {
+  id: string;
+  tenant_id: string;
+  usuario_id: string | null;
+  conversacion_id: string | null;
+  tipo: TipoEventoMensajeria;
+  payload: Record<string, any>;
+  created_at: string;
+}
+
+export interface FiltroSuscripcion {
+  usuarioId: string;
+  todas: boolean; // receive events addressed to any user of the tenant
+}
+
+interface Suscriptor {
+  filtro: FiltroSuscripcion;
+  enviar: (evento: EventoMensajeria) => void;
+}
+
+const CANAL_NOTIFY = 'mensajeria_eventos';
+const MAX_REPLAY = 500;
+
+// tenantId → active SSE connections in this process
+const suscriptores = new Map<string, Set<Suscriptor>>();
+let listenerActivo = false;
+let listenerIniciando: Promise<void> | null = null;
+
+// ==================== PUBLISH ====================
+
+/**
+ * Persist an event and notify all instances.
+ * Never throws: a failed push must not break webhooks or message sending.
+ */
+export async function publicarEvento(
+  tenantId: string,
+  tipo: TipoEventoMensajeria,
+  data: {
+    usuarioId?: string | null;
+    conversacionId?: string | null;
+    payload?: Record<string, any>;
+  } = {}
+): Promise<void> {
+  try {
+    await query(
+      `WITH ev AS (
+         INSERT INTO mensajeria_eventos (tenant_id, usuario_id, conversacion_id, tipo, payload)
+         VALUES ($1, $2, $3, $4, $5)
+         RETURNING id, tenant_id
+       )
+       SELECT pg_notify($6, json_build_object('id', ev.id, 'tenant_id', ev.tenant_id)::text) FROM ev`,
+      [
+        tenantId,
+        data.usuarioId || null,
+        data.conversacionId || null,
+        tipo,
+        JSON.stringify(data.payload || {}),
+        CANAL_NOTIFY,
+      ]
+    );
+  } catch (error: any) {
+    console.error(`[MensajeriaEventos] Error publishing ${tipo}:`, error.message);
+  }
+}
+
+/**
+ * New message: includes the message and the conversation's updated counters.
+ */
+export async function emitirMensajeNuevo(tenantId: string, mensaje: Mensaje): Promise<void> {
+  const conv = await query(
+    `SELECT id, canal, estado, usuario_asignado_id, contacto_id, contacto_nombre, contacto_avatar_url,
+            no_leidos, ultimo_mensaje_texto, ultimo_mensaje_at, ultimo_mensaje_es_entrante
+     FROM conversaciones WHERE id = $1 AND tenant_id = $2`,
+    [mensaje.conversacion_id, tenantId]
+  ).catch(() => null);
+  const conversacion = conv?.rows[0];
+  if (!conversacion) return;
+
+  await publicarEvento(tenantId, 'mensaje.nuevo', {
+    usuarioId: conversacion.usuario_asignado_id,
+    conversacionId: conversacion.id,
+    payload: { mensaje, conversacion },
+  });
+}
+
+/**
+ * Delivery/read/failed status changes. Accepts the rows returned by
+ * `UPDATE mensajes ... RETURNING id, conversacion_id, estado`.
+ */
+export async function emitirEstadoMensajes(
+  tenantId: string,
+  filas: Array<{ id: string; conversacion_id: string; estado: EstadoMensaje; error_mensaje?: string | null }>
+): Promise<void> {
+  if (filas.length === 0) return;
+
+  const porConversacion = new Map<string, typeof filas>();
+  for (const fila of filas) {
+    const lista = porConversacion.get(fila.conversacion_id) || [];
+    lista.push(fila);
+    porConversacion.set(fila.conversacion_id, lista);
+  }
+
+  const conv = await query(
+    `SELECT id, usuario_asignado_id FROM conversaciones WHERE tenant_id = $1 AND id = ANY($2::uuid[])`,
+    [tenantId, Array.from(porConversacion.keys())]
+  ).catch(() => null);
+  const asignados = new Map<string, string | null>(
+    (conv?.rows || []).map((r: any) => [r.id, r.usuario_asignado_id])
+  );
+
+  for (const [conversacionId, lista] of porConversacion) {
+    await publicarEvento(tenantId, 'mensaje.estado', {
+      usuarioId: asignados.get(conversacionId) ?? null,
+      conversacionId,
+      payload: {
+        mensajes: lista.map(f => ({ id: f.id, estado: f.estado, error_mensaje: f.error_mensaje ?? null })),
+      },
+    });
+  }
+}
+
+// ==================== SUBSCRIBE ====================
+
+function puedeVer(filtro: FiltroSuscripcion, evento: Pick<EventoMensajeria, 'usuario_id'>): boolean {
+  return filtro.todas || !evento.usuario_id || evento.usuario_id === filtro.usuarioId;
+}
+
+async function despacharEvento(tenantId: string, eventoId: string): Promise<void> {
+  const set = suscriptores.get(tenantId);
+  if (!set || set.size === 0) return;
+
+  const result = await query('SELECT * FROM mensajeria_eventos WHERE id = $1', [eventoId]);
+  const evento: EventoMensajeria | undefined = result.rows[0];
+  if (!evento) return;
+
+  for (const suscriptor of set) {
+    if (puedeVer(suscriptor.filtro, evento)) {
+      suscriptor.enviar(evento);
+    }
+  }
+}
+
+/**
+ * Start the process-wide LISTEN connection (lazy, reconnects on error).
+ */
+async function iniciarListener(): Promise<void> {
+  if (listenerActivo) return;
+  if (listenerIniciando) return listenerIniciando;
+
+  listenerIniciando = (async () => {
+    const client = await getClient();
+    let liberado = false;
+    const reconectar = (motivo: string) => {
+      if (liberado) return;
+      liberado = true;
+      listenerActivo = false;
+      console.error(`[MensajeriaEventos] LISTEN connection lost (${motivo}), reconnecting in 5s`);
+      client.release(true);
+      setTimeout(() => {
+        if (suscriptores.size > 0) iniciarListener().catch(() => {});
+      }, 5000);
+    };
+
+    client.on('notification', (msg) => {
+      if (msg.channel !== CANAL_NOTIFY || !msg.payload) return;
+      try {
+        const { id, tenant_id } = JSON.parse(msg.payload);
+        despacharEvento(tenant_id, String(id)).catch((err) =>
+          console.error('[MensajeriaEventos] Error dispatching event:', err.message)
+        );
+      } catch {
+        // Ignore malformed payloads
+      }
+    });
+    client.on('error', (err) => reconectar(err.message));
+    client.on('end', () => reconectar('end'));
+
+    await client.query(`LISTEN ${CANAL_NOTIFY}`);
+    listenerActivo = true;
+  })();
+
+  try {
+    await listenerIniciando;
+  } finally {
+    listenerIniciando = null;
+  }
+}
+
+/**
+ * Register an SSE connection. Returns the unsubscribe function.
+ */
+export async function suscribir(
+  tenantId: string,
+  filtro: FiltroSuscripcion,
+  enviar: (evento: EventoMensajeria) => void
+): Promise<() => void> {
+  await iniciarListener();
+
+  const suscriptor: Suscriptor = { filtro, enviar };
+  if (!suscriptores.has(tenantId)) suscriptores.set(tenantId, new Set());
+  suscriptores.get(tenantId)!.add(suscriptor);
+
+  return () => {
+    const set = suscriptores.get(tenantId);
+    if (!set) return;
+    set.delete(suscriptor);
+    if (set.size === 0) suscriptores.delete(tenantId);
+  };
+}
+
+/**
+ * Events after `desdeId` visible to the subscriber (replay on reconnect).
+ * Past MAX_REPLAY missed events nothing is replayed: `resync` is the newest event
+ * id, the client reloads its conversations and the stream resumes from there.
+ */
+export async function getEventosDesde(
+  tenantId: string,
+  desdeId: string,
+  filtro: FiltroSuscripcion
+): Promise<{ eventos: EventoMensajeria[]; resync: string | null }> {
+  const result = await query(
+    `SELECT * FROM mensajeria_eventos
+     WHERE tenant_id = $1 AND id > $2
+       AND ($3 OR usuario_id IS NULL OR usuario_id = $4)
+     ORDER BY id ASC
+     LIMIT $5`,
+    [tenantId, desdeId, filtro.todas, filtro.usuarioId, MAX_REPLAY + 1]
+  );
+  if (result.rows.length <= MAX_REPLAY) {
+    return { eventos: result.rows, resync: null };
+  }
+
+  const ultimo = await query(
+    `SELECT MAX(id)::text AS id FROM mensajeria_eventos WHERE tenant_id = $1`,
+    [tenantId]
+  );
+  return { eventos: [], resync: ultimo.rows[0].id };
+}
+
+/**
+ * Unread counters for the subscriber (sent on connect).
+ */
+export async function getResumenNoLeidos(
+  tenantId: string,
+  filtro: FiltroSuscripcion
+): Promise<{ total: number; conversaciones: number; por_canal: Record<string, number> }> {
+  const result = await query(
+    `SELECT canal, COALESCE(SUM(no_leidos), 0)::int AS no_leidos, COUNT(*)::int AS conversaciones
+     FROM conversaciones
+     WHERE tenant_id = $1 AND no_leidos > 0
+       AND estado NOT IN ('eliminada', 'spam')
+       AND ($2 OR usuario_asignado_id IS NULL OR usuario_asignado_id = $3)
+     GROUP BY canal`,
+    [tenantId, filtro.todas, filtro.usuarioId]
+  );
+
+  const por_canal: Record<string, number> = {};
+  let total = 0;
+  let conversaciones = 0;
+  for (const row of result.rows) {
+    por_canal[row.canal] = row.no_leidos;
+    total += row.no_leidos;
+    conversaciones += row.conversaciones;
+  }
+  return { total, conversaciones, por_canal };
+}
+
+/**
+ * Delete events older than the replay window. Called by cron.
+ */
+export async function purgarEventos(horas: number = 24): Promise<number> {
+  const result = await query(
+    `DELETE FROM mensajeria_eventos WHERE created_at < NOW() - ($1 || ' hours')::interval`,
+    [String(horas)]
+  );
+  return result.rowCount || 0;
+}
@@ -0,0 +1,548 @@
+/**
+ * Mensajeria Horarios Service - Business hours and automatic replies
+ *
+ * One calendar per tenant (weekly schedule, holidays, IANA time zone) answers
+ * "are we open right now?" for every messaging channel:
+ * - Web chat availability (optionally overridden by webchat_config.business_hours)
+ * - WhatsApp / Messenger / Instagram handlers, which send an away reply when closed
+ *   or a greeting when open (whatsappCloudService / metaMessagingService)
+ *
+ * Rate limiting: conversaciones.auto_respuesta_at is claimed atomically, so a contact
+ * gets at most one automatic reply per window (across all of its conversations),
+ * and none if an agent already answered within that window.
+ */
+
+import { query } from '../utils/db.js';
+import * as mensajeriaService from './mensajeriaService.js';
+import * as whatsappCloudService from './whatsappCloudService.js';
+import * as metaMessagingService from './metaMessagingService.js';
+import * as instagramMessagingService from './instagramMessagingService.js';
+import type { CanalType, Conversacion } from './mensajeriaService.js';
+
+// ==================== TYPES ====================
+
+export type DiaSemana = 'domingo' | 'lunes' | 'martes' | 'miercoles' | 'jueves' | 'viernes' | 'sabado';
+export type TipoRespuestaAutomatica = 'ausencia' | 'saludo';
+
+export interface TramoHorario {
+  desde: string; // HH:MM
+  hasta: string; // HH:MM (24:00 = end of day)
+}
+
+export type HorarioSemanal = Partial<Record<DiaSemana, TramoHorario[]>>;
+
+export interface Feriado {
+  fecha: string; // YYYY-MM-DD
+  nombre?: string;
+  recurrente?: boolean; // same day every year
+}
+
+export interface HorarioAtencion {
+  tenant_id: string;
+  activo: boolean;
+  zona_horaria: string;
+  horario_semanal: HorarioSemanal;
+  feriados: Feriado[];
+  ausencia_activa: boolean;
+  mensaje_ausencia: string | null;
+  saludo_activo: boolean;
+  mensaje_saludo: string | null;
+  canales_auto_respuesta: CanalType[];
+  ventana_auto_respuesta_horas: number;
+  updated_at: string | null;
+}
+
+export interface EstadoHorario {
+  abierto: boolean;
+  motivo: 'sin_horario' | 'en_horario' | 'fuera_de_horario' | 'feriado';
+  feriado: Feriado | null;
+  hora_local: { fecha: string; dia: DiaSemana; hora: string };
+  proxima_apertura: { fecha: string; dia: DiaSemana; hora: string } | null;
+}
+
+/**
+ * Where to send an automatic reply. Credentials come from the webhook lookup;
+ * web chat has no push API (the widget reads the stored message) but can
+ * override the schedule and away text with its own config.
+ */
+export type DestinoRespuesta =
+  | { canal: 'whatsapp'; accessToken: string; phoneNumberId: string }
+  | { canal: 'facebook_dm'; pageAccessToken: string }
+  | { canal: 'instagram_dm'; pageAccessToken: string; instagramAccountId?: string }
+  | { canal: 'web_chat'; horarioSemanal?: HorarioSemanal | null; mensajeAusencia?: string | null };
+
+export class HorarioAtencionInvalidoError extends Error {
+  statusCode = 400;
+  errores: string[];
+
+  constructor(errores: string[]) {
+    super(`Horario de atención inválido: ${errores.join('; ')}`);
+    this.name = 'HorarioAtencionInvalidoError';
+    this.errores = errores;
+  }
+}
+
+const DIAS: DiaSemana[] = ['domingo', 'lunes', 'martes', 'miercoles', 'jueves', 'viernes', 'sabado'];
+const NOMBRE_DIA: Record<DiaSemana, string> = {
+  domingo: 'domingo',
+  lunes: 'lunes',
+  martes: 'martes',
+  miercoles: 'miércoles',
+  jueves: 'jueves',
+  viernes: 'viernes',
+  sabado: 'sábado',
+};
+const CANALES_AUTO: CanalType[] = ['whatsapp', 'facebook_dm', 'instagram_dm', 'web_chat'];
+const ZONA_HORARIA_DEFAULT = 'America/Mexico_City';
+const REGEX_HORA = /^(([01]\d|2[0-3]):[0-5]\d|24:00)$/;
+const REGEX_FECHA = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_VENTANA_HORAS = 168;
+const DIAS_BUSQUEDA_APERTURA = 14;
+
+// ==================== CONFIG ====================
+
+async function getZonaHorariaTenant(tenantId: string): Promise<string> {
+  const result = await query(
+    `SELECT p.zona_horaria
+     FROM tenants t
+     JOIN paises p ON p.codigo = t.codigo_pais
+     WHERE t.id = $1`,
+    [tenantId]
+  );
+  return result.rows[0]?.zona_horaria || ZONA_HORARIA_DEFAULT;
+}
+
+/**
+ * Get the tenant's calendar. Defaults (inactive = always open) use the
+ * time zone of the tenant's country.
+ */
+export async function getHorarioAtencion(tenantId: string): Promise<HorarioAtencion> {
+  const result = await query('SELECT * FROM mensajeria_horario_atencion WHERE tenant_id = $1', [tenantId]);
+  if (result.rows[0]) return result.rows[0];
+
+  return {
+    tenant_id: tenantId,
+    activo: false,
+    zona_horaria: await getZonaHorariaTenant(tenantId),
+    horario_semanal: {},
+    feriados: [],
+    ausencia_activa: false,
+    mensaje_ausencia: null,
+    saludo_activo: false,
+    mensaje_saludo: null,
+    canales_auto_respuesta: [...CANALES_AUTO],
+    ventana_auto_respuesta_horas: 12,
+    updated_at: null,
+  };
+}
+
+function esZonaHorariaValida(zona: any): boolean {
+  if (typeof zona !== 'string' || !zona) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: zona });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validate a weekly schedule. Exported for webchat_config.business_hours,
+ * which uses the same shape.
+ */
+export function validarHorarioSemanal(valor: any, campo: string, errores: string[]): void {
+  if (typeof valor !== 'object' || valor === null || Array.isArray(valor)) {
+    errores.push(`${campo} debe ser un objeto con los días de la semana`);
+    return;
+  }
+
+  for (const [dia, tramos] of Object.entries(valor)) {
+    if (!DIAS.includes(dia as DiaSemana)) {
+      errores.push(`${campo}: día desconocido "${dia}" (usar: ${DIAS.join(', ')})`);
+      continue;
+    }
+    if (!Array.isArray(tramos)) {
+      errores.push(`${campo}.${dia} debe ser una lista de tramos { desde, hasta }`);
+      continue;
+    }
+    for (const tramo of tramos as any[]) {
+      if (!REGEX_HORA.test(tramo?.desde) || !REGEX_HORA.test(tramo?.hasta)) {
+        errores.push(`${campo}.${dia}: las horas deben tener formato HH:MM`);
+      } else if (tramo.desde >= tramo.hasta) {
+        errores.push(`${campo}.${dia}: "desde" (${tramo.desde}) debe ser anterior a "hasta" (${tramo.hasta})`);
+      }
+    }
+  }
+}
+
+function validarFeriados(valor: any, errores: string[]): void {
+  if (!Array.isArray(valor)) {
+    errores.push('feriados debe ser una lista');
+    return;
+  }
+  for (const feriado of valor) {
+    const fecha = feriado?.fecha;
+    if (typeof fecha !== 'string' || !REGEX_FECHA.test(fecha) || isNaN(Date.parse(`${fecha}T00:00:00Z`))) {
+      errores.push(`Feriado con fecha inválida: ${JSON.stringify(fecha)} (formato YYYY-MM-DD)`);
+    }
+  }
+}
+
+/**
+ * Create or update the tenant's calendar and automatic replies.
+ */
+export async function updateHorarioAtencion(
+  tenantId: string,
+  data: Partial<Omit<HorarioAtencion, 'tenant_id' | 'updated_at'>>
+): Promise<HorarioAtencion> {
+  const errores: string[] = [];
+
+  if (data.zona_horaria !== undefined && !esZonaHorariaValida(data.zona_horaria)) {
+    errores.push(`zona_horaria inválida: ${data.zona_horaria} (usar un nombre IANA, ej. America/Santo_Domingo)`);
+  }
+  if (data.horario_semanal !== undefined) {
+    validarHorarioSemanal(data.horario_semanal, 'horario_semanal', errores);
+  }
+  if (data.feriados !== undefined) {
+    validarFeriados(data.feriados, errores);
+  }
+  if (data.canales_auto_respuesta !== undefined) {
+    if (!Array.isArray(data.canales_auto_respuesta)) {
+      errores.push('canales_auto_respuesta debe ser una lista');
+    } else {
+      const invalidos = data.canales_auto_respuesta.filter(c => !CANALES_AUTO.includes(c));
+      if (invalidos.length > 0) {
+        errores.push(`Canales sin respuesta automática: ${invalidos.join(', ')} (usar: ${CANALES_AUTO.join(', ')})`);
+      }
+    }
+  }
+  if (
+    data.ventana_auto_respuesta_horas !== undefined &&
+    (!Number.isInteger(data.ventana_auto_respuesta_horas) ||
+      data.ventana_auto_respuesta_horas < 1 ||
+      data.ventana_auto_respuesta_horas > MAX_VENTANA_HORAS)
+  ) {
+    errores.push(`ventana_auto_respuesta_horas debe ser un entero entre 1 y ${MAX_VENTANA_HORAS}`);
+  }
+
+  const actual = await getHorarioAtencion(tenantId);
+  const nuevo = { ...actual, ...data };
+
+  if (nuevo.ausencia_activa && !nuevo.mensaje_ausencia?.trim()) {
+    errores.push('mensaje_ausencia es requerido cuando ausencia_activa es true');
+  }
+  if (nuevo.saludo_activo && !nuevo.mensaje_saludo?.trim()) {
+    errores.push('mensaje_saludo es requerido cuando saludo_activo es true');
+  }
+  if (errores.length > 0) {
+    throw new HorarioAtencionInvalidoError(errores);
+  }
+
+  const result = await query(
+    `INSERT INTO mensajeria_horario_atencion (
+       tenant_id, activo, zona_horaria, horario_semanal, feriados,
+       ausencia_activa, mensaje_ausencia, saludo_activo, mensaje_saludo,
+       canales_auto_respuesta, ventana_auto_respuesta_horas, updated_at
+     ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, NOW())
+     ON CONFLICT (tenant_id) DO UPDATE SET
+       activo = EXCLUDED.activo,
+       zona_horaria = EXCLUDED.zona_horaria,
+       horario_semanal = EXCLUDED.horario_semanal,
+       feriados = EXCLUDED.feriados,
+       ausencia_activa = EXCLUDED.ausencia_activa,
+       mensaje_ausencia = EXCLUDED.mensaje_ausencia,
+       saludo_activo = EXCLUDED.saludo_activo,
+       mensaje_saludo = EXCLUDED.mensaje_saludo,
+       canales_auto_respuesta = EXCLUDED.canales_auto_respuesta,
+       ventana_auto_respuesta_horas = EXCLUDED.ventana_auto_respuesta_horas,
+       updated_at = NOW()
+     RETURNING *`,
+    [
+      tenantId,
+      nuevo.activo,
+      nuevo.zona_horaria,
+      JSON.stringify(nuevo.horario_semanal || {}),
+      JSON.stringify(nuevo.feriados || []),
+      nuevo.ausencia_activa,
+      nuevo.mensaje_ausencia || null,
+      nuevo.saludo_activo,
+      nuevo.mensaje_saludo || null,
+      JSON.stringify(nuevo.canales_auto_respuesta || CANALES_AUTO),
+      nuevo.ventana_auto_respuesta_horas,
+    ]
+  );
+  return result.rows[0];
+}
+
+// ==================== EVALUATION ====================
+
+function aMinutos(hora: string): number {
+  const [h, m] = hora.split(':').map(Number);
+  return h * 60 + m;
+}
+
+/**
+ * Date, weekday and minutes since midnight in the given time zone.
+ */
+function getHoraLocal(fecha: Date, zona: string): { fecha: string; dia: DiaSemana; minutos: number; hora: string } {
+  const partes = new Intl.DateTimeFormat('en-US', {
+    timeZone: zona,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(fecha);
+  const get = (tipo: string) => partes.find(p => p.type === tipo)?.value || '00';
+
+  const fechaLocal = `${get('year')}-${get('month')}-${get('day')}`;
+  return {
+    fecha: fechaLocal,
+    dia: DIAS[new Date(`${fechaLocal}T00:00:00Z`).getUTCDay()],
+    minutos: Number(get('hour')) * 60 + Number(get('minute')),
+    hora: `${get('hour')}:${get('minute')}`,
+  };
+}
+
+function buscarFeriado(feriados: Feriado[], fecha: string): Feriado | null {
+  return (feriados || []).find(f =>
+    f.fecha === fecha || (f.recurrente && f.fecha?.slice(5) === fecha.slice(5))
+  ) || null;
+}
+
+function tramosOrdenados(semanal: HorarioSemanal, dia: DiaSemana): TramoHorario[] {
+  return [...(semanal[dia] || [])].sort((a, b) => aMinutos(a.desde) - aMinutos(b.desde));
+}
+
+/**
+ * Is the calendar open at `fecha`? `semanal` overrides the weekly schedule
+ * (web chat widgets can have their own hours; holidays still apply).
+ */
+export function evaluarHorario(
+  horario: HorarioAtencion,
+  fecha: Date = new Date(),
+  semanal: HorarioSemanal = horario.horario_semanal
+): EstadoHorario {
+  const local = getHoraLocal(fecha, horario.zona_horaria);
+  const hora_local = { fecha: local.fecha, dia: local.dia, hora: local.hora };
+
+  if (!horario.activo) {
+    return { abierto: true, motivo: 'sin_horario', feriado: null, hora_local, proxima_apertura: null };
+  }
+
+  const feriado = buscarFeriado(horario.feriados, local.fecha);
+  const enTramo = !feriado && tramosOrdenados(semanal, local.dia).some(t =>
+    local.minutos >= aMinutos(t.desde) && local.minutos < aMinutos(t.hasta)
+  );
+  if (enTramo) {
+    return { abierto: true, motivo: 'en_horario', feriado: null, hora_local, proxima_apertura: null };
+  }
+
+  // Next opening: first slot start after now, skipping holidays
+  let proxima_apertura: EstadoHorario['proxima_apertura'] = null;
+  const base = Date.parse(`${local.fecha}T00:00:00Z`);
+  for (let i = 0; i < DIAS_BUSQUEDA_APERTURA && !proxima_apertura; i++) {
+    const dia = new Date(base + i * 86400000);
+    const fechaDia = dia.toISOString().slice(0, 10);
+    if (buscarFeriado(horario.feriados, fechaDia)) continue;
+
+    const nombreDia = DIAS[dia.getUTCDay()];
+    const tramo = tramosOrdenados(semanal, nombreDia).find(t => i > 0 || aMinutos(t.desde) > local.minutos);
+    if (tramo) {
+      proxima_apertura = { fecha: fechaDia, dia: nombreDia, hora: tramo.desde };
+    }
+  }
+
+  return {
+    abierto: false,
+    motivo: feriado ? 'feriado' : 'fuera_de_horario',
+    feriado,
+    hora_local,
+    proxima_apertura,
+  };
+}
+
+/**
+ * The override applies only if it defines at least one day; anything else
+ * (null, {}, legacy widget data) falls back to the tenant's schedule.
+ */
+function horarioSemanalEfectivo(horario: HorarioAtencion, semanal?: HorarioSemanal | null): HorarioSemanal {
+  const valido = !!semanal && typeof semanal === 'object' && DIAS.some(d => Array.isArray(semanal[d]));
+  return valido ? semanal! : horario.horario_semanal;
+}
+
+/**
+ * Current open/closed state of the tenant's calendar.
+ */
+export async function getEstadoHorario(tenantId: string, semanal?: HorarioSemanal | null): Promise<EstadoHorario> {
+  const horario = await getHorarioAtencion(tenantId);
+  return evaluarHorario(horario, new Date(), horarioSemanalEfectivo(horario, semanal));
+}
+
+// ==================== AUTOMATIC REPLIES ====================
+
+/**
+ * Fill {nombre} and {proxima_apertura} in a reply text.
+ */
+function renderizarMensaje(texto: string, conversacion: Conversacion, estado: EstadoHorario): string {
+  const nombre = conversacion.contacto_nombre && conversacion.contacto_nombre !== conversacion.external_participant_id
+    ? conversacion.contacto_nombre.split(' ')[0]
+    : '';
+  const apertura = estado.proxima_apertura
+    ? `${NOMBRE_DIA[estado.proxima_apertura.dia]} ${estado.proxima_apertura.hora}`
+    : '';
+
+  return texto
+    .replace(/\{nombre\}/g, nombre)
+    .replace(/\{proxima_apertura\}/g, apertura)
+    .replace(/[ \t]+([,.!?])/g, '$1')
+    .replace(/[ \t]{2,}/g, ' ')
+    .trim();
+}
+
+/**
+ * Claim the reply slot. Fails if this conversation (or another conversation of
+ * the same contact) got an automatic reply within the window, or an agent
+ * already answered within it.
+ */
+async function reservarRespuestaAutomatica(
+  tenantId: string,
+  conversacionId: string,
+  ventanaHoras: number
+): Promise<boolean> {
+  const result = await query(
+    `UPDATE conversaciones c
+     SET auto_respuesta_at = NOW()
+     WHERE c.id = $1 AND c.tenant_id = $2
+       AND (c.auto_respuesta_at IS NULL OR c.auto_respuesta_at < NOW() - make_interval(hours => $3))
+       AND NOT EXISTS (
+         SELECT 1 FROM conversaciones o
+         WHERE c.contacto_id IS NOT NULL
+           AND o.tenant_id = c.tenant_id
+           AND o.contacto_id = c.contacto_id
+           AND o.id <> c.id
+           AND o.auto_respuesta_at >= NOW() - make_interval(hours => $3)
+       )
+       AND NOT EXISTS (
+         SELECT 1 FROM mensajes m
+         WHERE m.conversacion_id = c.id
+           AND m.es_entrante = false
+           AND m.created_at >= NOW() - make_interval(hours => $3)
+           AND COALESCE(m.metadata->>'automatico', 'false') <> 'true'
+       )
+     RETURNING c.id`,
+    [conversacionId, tenantId, ventanaHoras]
+  );
+  return result.rows.length > 0;
+}
+
+async function enviarPorCanal(
+  destino: DestinoRespuesta,
+  destinatario: string,
+  texto: string
+): Promise<string | null> {
+  switch (destino.canal) {
+    case 'whatsapp': {
+      const result = await whatsappCloudService.sendTextMessage(
+        destino.accessToken,
+        destino.phoneNumberId,
+        destinatario,
+        texto
+      );
+      return result.messages?.[0]?.id || null;
+    }
+    case 'facebook_dm': {
+      const result = await metaMessagingService.sendTextMessage(destino.pageAccessToken, destinatario, texto);
+      return result.message_id;
+    }
+    case 'instagram_dm': {
+      if (!destino.instagramAccountId) {
+        throw new Error('No hay credenciales Instagram configuradas');
+      }
+      const result = await instagramMessagingService.sendTextMessage(
+        destino.pageAccessToken,
+        destino.instagramAccountId,
+        destinatario,
+        texto
+      );
+      return result.message_id;
+    }
+    case 'web_chat':
+      return null; // The widget reads it from the conversation
+  }
+}
+
+/**
+ * Send the away (closed) or greeting (open) reply for an inbound message, if
+ * configured and not rate limited. Call after storing the inbound message.
+ * Never throws: an auto-reply problem must not break the webhook.
+ */
+export async function procesarRespuestaAutomatica(
+  tenantId: string,
+  conversacion: Conversacion,
+  destino: DestinoRespuesta
+): Promise<{ tipo: TipoRespuestaAutomatica; contenido: string; mensaje_id: string } | null> {
+  try {
+    const horario = await getHorarioAtencion(tenantId);
+    if (!horario.activo || !horario.canales_auto_respuesta?.includes(conversacion.canal)) {
+      return null;
+    }
+
+    const override = destino.canal === 'web_chat' ? destino : null;
+    const estado = evaluarHorario(horario, new Date(), horarioSemanalEfectivo(horario, override?.horarioSemanal));
+
+    let tipo: TipoRespuestaAutomatica;
+    let texto: string | null;
+    if (!estado.abierto) {
+      if (!horario.ausencia_activa) return null;
+      tipo = 'ausencia';
+      texto = override?.mensajeAusencia || horario.mensaje_ausencia;
+    } else {
+      // The web chat widget shows its own greeting_text
+      if (!horario.saludo_activo || destino.canal === 'web_chat') return null;
+      tipo = 'saludo';
+      texto = horario.mensaje_saludo;
+    }
+    if (!texto?.trim() || !conversacion.external_participant_id) return null;
+
+    const reservado = await reservarRespuestaAutomatica(
+      tenantId,
+      conversacion.id,
+      horario.ventana_auto_respuesta_horas
+    );
+    if (!reservado) return null;
+
+    const contenido = renderizarMensaje(texto, conversacion, estado);
+    const mensaje = await mensajeriaService.createMensaje(tenantId, conversacion.id, {
+      es_entrante: false,
+      remitente_nombre: 'Respuesta automática',
+      tipo: 'text',
+      contenido,
+      contenido_plain: contenido,
+      estado: destino.canal === 'web_chat' ? 'enviado' : undefined,
+      metadata: { automatico: true, auto_respuesta: tipo, motivo: estado.motivo },
+    });
+
+    try {
+      const externalId = await enviarPorCanal(destino, conversacion.external_participant_id, contenido);
+      if (externalId) {
+        await query(
+          `UPDATE mensajes SET external_message_id = $1, estado = 'enviado' WHERE id = $2`,
+          [externalId, mensaje.id]
+        );
+      }
+    } catch (sendError: any) {
+      console.error(`[MensajeriaHorarios] Error sending ${tipo} reply for msg ${mensaje.id}:`, sendError.message);
+      await query(
+        `UPDATE mensajes SET estado = 'fallido', error_mensaje = $1 WHERE id = $2`,
+        [sendError.message, mensaje.id]
+      );
+    }
+
+    return { tipo, contenido, mensaje_id: mensaje.id };
+  } catch (error: any) {
+    console.error(`[MensajeriaHorarios] Error processing auto-reply for conversation ${conversacion.id}:`, error.message);
+    return null;
+  }
+}
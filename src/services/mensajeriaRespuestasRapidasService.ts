@@ -0,0 +1,607 @@
+/**
+ * Mensajeria Respuestas Rápidas Service - Quick replies and WhatsApp templates
+ *
+ * Library of canned answers per tenant (usuario_id NULL) and per user, with a
+ * shortcut (/precio), category and merge variables rendered with Handlebars
+ * using the same data as document templates (documentoRenderService):
+ *   {{contacto_nombre}}, {{asesor_nombre}}, {{asesor_telefono}}, {{empresa_nombre}},
+ *   {{propiedad_titulo}}, {{propiedad_precio}}, {{propiedad_link}} (from a property code)...
+ *
+ * The inbox picker lists quick replies plus, on WhatsApp conversations, the
+ * approved templates of the WABA (whatsappCloudService.getMessageTemplates).
+ * A quick reply linked to a template is sent as that template when the 24h
+ * customer-service window is closed.
+ */
+
+import Handlebars from 'handlebars';
+import { query } from '../utils/db.js';
+import { obtenerDatosMerge, extraerVariables, type DatosMerge } from './documentoRenderService.js';
+import { getWhatsAppCredentials } from './tenantApiCredentialsService.js';
+import * as whatsappCloudService from './whatsappCloudService.js';
+import type { CanalType, Conversacion } from './mensajeriaService.js';
+import type { WAMessageTemplate } from './whatsappCloudService.js';
+
+// ==================== TYPES ====================
+
+export interface RespuestaRapida {
+  id: string;
+  tenant_id: string;
+  usuario_id: string | null;
+  atajo: string | null;
+  titulo: string;
+  categoria: string | null;
+  contenido: string;
+  canales: CanalType[];
+  wa_template_nombre: string | null;
+  wa_template_idioma: string | null;
+  wa_template_parametros: string[];
+  activo: boolean;
+  usos: number;
+  ultimo_uso_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type RespuestaRapidaInput = Partial<Pick<RespuestaRapida,
+  'atajo' | 'titulo' | 'categoria' | 'contenido' | 'canales' |
+  'wa_template_nombre' | 'wa_template_idioma' | 'wa_template_parametros' | 'activo'
+>>;
+
+/**
+ * Picker entry: a quick reply or an approved WhatsApp template, same shape.
+ */
+export interface ItemSelector {
+  tipo: 'respuesta_rapida' | 'plantilla_whatsapp';
+  id: string; // quick reply id, or "nombre:idioma" for templates
+  atajo: string | null;
+  titulo: string;
+  categoria: string | null;
+  contenido: string;
+  alcance: 'personal' | 'tenant' | 'whatsapp';
+  variables: string[]; // merge variables, or "1", "2"... for template parameters
+  plantilla: { nombre: string; idioma: string; parametros: number } | null;
+}
+
+export interface OpcionesMerge {
+  propiedad_codigo?: string;
+  variables?: Record<string, string>;
+}
+
+export interface PlantillaWhatsAppInput {
+  nombre: string;
+  idioma?: string;
+  parametros?: string[]; // may contain merge variables
+}
+
+export interface MensajePreparado {
+  contenido: string;
+  plantilla: {
+    nombre: string;
+    idioma: string;
+    componentes: Array<{ type: 'body'; parameters: Array<{ type: string; text: string }> }>;
+  } | null;
+  metadata: Record<string, any>;
+}
+
+export class RespuestaRapidaInvalidaError extends Error {
+  statusCode = 400;
+  errores: string[];
+
+  constructor(errores: string[]) {
+    super(`Respuesta rápida inválida: ${errores.join('; ')}`);
+    this.name = 'RespuestaRapidaInvalidaError';
+    this.errores = errores;
+  }
+}
+
+const CANALES: CanalType[] = ['whatsapp', 'instagram_dm', 'facebook_dm', 'web_chat', 'email'];
+const REGEX_ATAJO = /^[a-z0-9_-]{1,50}$/;
+const VENTANA_WHATSAPP_HORAS = 24;
+
+/**
+ * Variables offered by the editor. Any other key can be sent in `variables`.
+ */
+export const VARIABLES_DISPONIBLES: Array<{ variable: string; descripcion: string }> = [
+  { variable: 'contacto_nombre', descripcion: 'Nombre del contacto' },
+  { variable: 'contacto_nombre_completo', descripcion: 'Nombre y apellido del contacto' },
+  { variable: 'asesor_nombre', descripcion: 'Nombre del asesor que responde' },
+  { variable: 'asesor_telefono', descripcion: 'Teléfono del asesor' },
+  { variable: 'asesor_email', descripcion: 'Email del asesor' },
+  { variable: 'empresa_nombre', descripcion: 'Nombre de la inmobiliaria' },
+  { variable: 'propiedad_titulo', descripcion: 'Título de la propiedad (requiere código)' },
+  { variable: 'propiedad_codigo', descripcion: 'Código de la propiedad' },
+  { variable: 'propiedad_precio', descripcion: 'Precio formateado de la propiedad' },
+  { variable: 'propiedad_link', descripcion: 'Enlace a la propiedad en el sitio web' },
+  { variable: 'propiedad_sector', descripcion: 'Sector de la propiedad' },
+  { variable: 'propiedad_ciudad', descripcion: 'Ciudad de la propiedad' },
+  { variable: 'fecha', descripcion: 'Fecha de hoy' },
+];
+
+// ==================== CRUD ====================
+
+function normalizarAtajo(atajo: any): string | null {
+  if (atajo === null || atajo === undefined || atajo === '') return null;
+  return String(atajo).trim().replace(/^\//, '').toLowerCase();
+}
+
+function validarPlantillaTexto(texto: string, campo: string, errores: string[]): void {
+  try {
+    Handlebars.parse(texto);
+  } catch (error: any) {
+    errores.push(`${campo} tiene variables mal formadas: ${error.message.split('\n')[0]}`);
+  }
+}
+
+function noEsTexto(valor: unknown): boolean {
+  return valor !== undefined && valor !== null && typeof valor !== 'string';
+}
+
+function validarRespuesta(data: RespuestaRapidaInput, esNueva: boolean): string[] {
+  const errores: string[] = [];
+
+  if (esNueva || data.titulo !== undefined) {
+    if (noEsTexto(data.titulo)) errores.push('titulo debe ser texto');
+    else if (!data.titulo?.trim()) errores.push('titulo es requerido');
+  }
+  if (esNueva || data.contenido !== undefined) {
+    if (noEsTexto(data.contenido)) errores.push('contenido debe ser texto');
+    else if (!data.contenido?.trim()) errores.push('contenido es requerido');
+    else validarPlantillaTexto(data.contenido, 'contenido', errores);
+  }
+  if (noEsTexto(data.categoria)) errores.push('categoria debe ser texto');
+  if (data.atajo !== undefined && data.atajo !== null && !REGEX_ATAJO.test(normalizarAtajo(data.atajo) || '')) {
+    errores.push('atajo solo admite letras, números, "-" y "_" (máx. 50)');
+  }
+  if (data.canales !== undefined) {
+    if (!Array.isArray(data.canales)) {
+      errores.push('canales debe ser una lista');
+    } else {
+      const invalidos = data.canales.filter(c => !CANALES.includes(c));
+      if (invalidos.length > 0) errores.push(`Canales desconocidos: ${invalidos.join(', ')}`);
+    }
+  }
+  if (data.wa_template_parametros !== undefined) {
+    if (!Array.isArray(data.wa_template_parametros) || data.wa_template_parametros.some(p => typeof p !== 'string')) {
+      errores.push('wa_template_parametros debe ser una lista de textos');
+    } else {
+      data.wa_template_parametros.forEach((p, i) => validarPlantillaTexto(p, `wa_template_parametros[${i}]`, errores));
+    }
+  }
+  return errores;
+}
+
+function traducirErrorUnico(error: any, atajo: string | null): never {
+  if (error?.code === '23505') {
+    throw new RespuestaRapidaInvalidaError([`El atajo /${atajo} ya existe`]);
+  }
+  throw error;
+}
+
+/**
+ * Quick replies visible to a user: the tenant's plus their own.
+ */
+export async function getRespuestasRapidas(
+  tenantId: string,
+  usuarioId: string,
+  filtros: { q?: string; categoria?: string; canal?: CanalType; incluir_inactivas?: boolean } = {}
+): Promise<RespuestaRapida[]> {
+  const conditions = ['tenant_id = $1', '(usuario_id IS NULL OR usuario_id = $2)'];
+  const params: any[] = [tenantId, usuarioId];
+  let paramIndex = 3;
+
+  if (!filtros.incluir_inactivas) {
+    conditions.push('activo = true');
+  }
+  if (filtros.categoria) {
+    conditions.push(`categoria = $${paramIndex++}`);
+    params.push(filtros.categoria);
+  }
+  if (filtros.canal) {
+    conditions.push(`(canales = '[]'::jsonb OR canales ? $${paramIndex++})`);
+    params.push(filtros.canal);
+  }
+  if (filtros.q) {
+    const q = filtros.q.trim().replace(/^\//, '');
+    conditions.push(`(atajo ILIKE $${paramIndex} OR titulo ILIKE $${paramIndex} OR contenido ILIKE $${paramIndex})`);
+    params.push(`%${q}%`);
+    paramIndex++;
+  }
+
+  const result = await query(
+    `SELECT * FROM mensajeria_respuestas_rapidas
+     WHERE ${conditions.join(' AND ')}
+     ORDER BY (usuario_id IS NOT NULL) DESC, usos DESC, titulo ASC`,
+    params
+  );
+  return result.rows;
+}
+
+export async function getRespuestaRapidaById(tenantId: string, id: string): Promise<RespuestaRapida | null> {
+  const result = await query(
+    'SELECT * FROM mensajeria_respuestas_rapidas WHERE id = $1 AND tenant_id = $2',
+    [id, tenantId]
+  );
+  return result.rows[0] || null;
+}
+
+/**
+ * Create a quick reply. usuarioId NULL = shared with the whole tenant.
+ */
+export async function createRespuestaRapida(
+  tenantId: string,
+  usuarioId: string | null,
+  data: RespuestaRapidaInput
+): Promise<RespuestaRapida> {
+  const errores = validarRespuesta(data, true);
+  if (errores.length > 0) throw new RespuestaRapidaInvalidaError(errores);
+
+  const atajo = normalizarAtajo(data.atajo);
+  try {
+    const result = await query(
+      `INSERT INTO mensajeria_respuestas_rapidas (
+         tenant_id, usuario_id, atajo, titulo, categoria, contenido, canales,
+         wa_template_nombre, wa_template_idioma, wa_template_parametros, activo
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+       RETURNING *`,
+      [
+        tenantId,
+        usuarioId,
+        atajo,
+        data.titulo!.trim(),
+        data.categoria?.trim() || null,
+        data.contenido,
+        JSON.stringify(data.canales || []),
+        data.wa_template_nombre || null,
+        data.wa_template_nombre ? (data.wa_template_idioma || 'es') : null,
+        JSON.stringify(data.wa_template_parametros || []),
+        data.activo ?? true,
+      ]
+    );
+    return result.rows[0];
+  } catch (error) {
+    traducirErrorUnico(error, atajo);
+  }
+}
+
+export async function updateRespuestaRapida(
+  tenantId: string,
+  id: string,
+  data: RespuestaRapidaInput
+): Promise<RespuestaRapida | null> {
+  const errores = validarRespuesta(data, false);
+  if (errores.length > 0) throw new RespuestaRapidaInvalidaError(errores);
+
+  const setClauses: string[] = [];
+  const params: any[] = [];
+  let paramIndex = 1;
+
+  for (const [key, value] of Object.entries(data)) {
+    if (value === undefined) continue;
+    setClauses.push(`${key} = $${paramIndex++}`);
+    if (key === 'atajo') params.push(normalizarAtajo(value));
+    else if (key === 'canales' || key === 'wa_template_parametros') params.push(JSON.stringify(value));
+    else params.push(value);
+  }
+
+  if (setClauses.length === 0) return getRespuestaRapidaById(tenantId, id);
+  setClauses.push('updated_at = NOW()');
+  params.push(id, tenantId);
+
+  try {
+    const result = await query(
+      `UPDATE mensajeria_respuestas_rapidas
+       SET ${setClauses.join(', ')}
+       WHERE id = $${paramIndex} AND tenant_id = $${paramIndex + 1}
+       RETURNING *`,
+      params
+    );
+    return result.rows[0] || null;
+  } catch (error) {
+    traducirErrorUnico(error, normalizarAtajo(data.atajo));
+  }
+}
+
+export async function deleteRespuestaRapida(tenantId: string, id: string): Promise<boolean> {
+  const result = await query(
+    'DELETE FROM mensajeria_respuestas_rapidas WHERE id = $1 AND tenant_id = $2',
+    [id, tenantId]
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+// ==================== WHATSAPP TEMPLATES ====================
+
+function getCuerpoPlantilla(plantilla: WAMessageTemplate): string {
+  return plantilla.components?.find(c => c.type === 'BODY')?.text || '';
+}
+
+function contarParametros(texto: string): number {
+  return new Set(texto.match(/\{\{\d+\}\}/g) || []).size;
+}
+
+function rellenarPlantilla(cuerpo: string, parametros: string[]): string {
+  return cuerpo.replace(/\{\{(\d+)\}\}/g, (_, n) => parametros[Number(n) - 1] ?? '');
+}
+
+/**
+ * Approved templates of the tenant's WABA. Empty if WhatsApp isn't connected
+ * or the Graph API fails (the picker must still show quick replies).
+ */
+export async function getPlantillasWhatsAppAprobadas(tenantId: string): Promise<WAMessageTemplate[]> {
+  const creds = await getWhatsAppCredentials(tenantId);
+  if (!creds?.wabaId) return [];
+
+  try {
+    const result = await whatsappCloudService.getMessageTemplates(creds.accessToken, creds.wabaId, 100);
+    return (result.data || []).filter(t => t.status === 'APPROVED');
+  } catch (error: any) {
+    console.error(`[RespuestasRapidas] Error loading WhatsApp templates for tenant ${tenantId}:`, error.message);
+    return [];
+  }
+}
+
+// ==================== PICKER ====================
+
+/**
+ * Picker for the inbox composer: quick replies for the channel and, on
+ * WhatsApp, approved templates mapped to the same shape.
+ */
+export async function getSelector(
+  tenantId: string,
+  usuarioId: string,
+  opciones: { canal?: CanalType; q?: string } = {}
+): Promise<ItemSelector[]> {
+  const [respuestas, plantillas] = await Promise.all([
+    getRespuestasRapidas(tenantId, usuarioId, { canal: opciones.canal, q: opciones.q }),
+    opciones.canal === 'whatsapp' ? getPlantillasWhatsAppAprobadas(tenantId) : Promise.resolve([]),
+  ]);
+
+  const items: ItemSelector[] = respuestas.map(r => ({
+    tipo: 'respuesta_rapida',
+    id: r.id,
+    atajo: r.atajo,
+    titulo: r.titulo,
+    categoria: r.categoria,
+    contenido: r.contenido,
+    alcance: r.usuario_id ? 'personal' : 'tenant',
+    variables: extraerVariables(r.contenido),
+    plantilla: r.wa_template_nombre
+      ? {
+          nombre: r.wa_template_nombre,
+          idioma: r.wa_template_idioma || 'es',
+          parametros: (r.wa_template_parametros || []).length,
+        }
+      : null,
+  }));
+
+  const q = opciones.q?.trim().toLowerCase();
+  for (const plantilla of plantillas) {
+    const cuerpo = getCuerpoPlantilla(plantilla);
+    if (q && !plantilla.name.toLowerCase().includes(q) && !cuerpo.toLowerCase().includes(q)) continue;
+
+    const parametros = contarParametros(cuerpo);
+    items.push({
+      tipo: 'plantilla_whatsapp',
+      id: `${plantilla.name}:${plantilla.language}`,
+      atajo: null,
+      titulo: plantilla.name,
+      categoria: plantilla.category || null,
+      contenido: cuerpo,
+      alcance: 'whatsapp',
+      variables: Array.from({ length: parametros }, (_, i) => String(i + 1)),
+      plantilla: { nombre: plantilla.name, idioma: plantilla.language, parametros },
+    });
+  }
+
+  return items;
+}
+
+// ==================== RENDERING ====================
+
+/**
+ * Merge data for a conversation: its CRM contact, the replying agent, the
+ * tenant and (optionally) a property resolved by code.
+ */
+export async function getDatosMergeConversacion(
+  tenantId: string,
+  conversacion: Conversacion,
+  usuarioId: string | null,
+  opciones: OpcionesMerge = {}
+): Promise<DatosMerge> {
+  let propiedadId: string | undefined;
+  let propiedadLink = '';
+
+  if (opciones.propiedad_codigo) {
+    const propiedad = await query(
+      `SELECT p.id, p.slug, t.dominio_personalizado
+       FROM propiedades p
+       JOIN tenants t ON t.id = p.tenant_id
+       WHERE p.tenant_id = $1 AND LOWER(p.codigo) = LOWER($2)
+       LIMIT 1`,
+      [tenantId, opciones.propiedad_codigo.trim()]
+    );
+    const row = propiedad.rows[0];
+    if (!row) {
+      throw new RespuestaRapidaInvalidaError([`No existe una propiedad con código ${opciones.propiedad_codigo}`]);
+    }
+    propiedadId = row.id;
+    if (row.dominio_personalizado && row.slug) {
+      propiedadLink = `https://${row.dominio_personalizado}/${row.slug}`;
+    }
+  }
+
+  const datos = await obtenerDatosMerge(tenantId, usuarioId || conversacion.usuario_asignado_id || '', {
+    contacto_id: conversacion.contacto_id || undefined,
+    propiedad_id: propiedadId,
+    datos_adicionales: {
+      ...(propiedadId ? { propiedad_link: propiedadLink } : {}),
+      ...(opciones.variables || {}),
+    },
+  });
+
+  // Conversations without a CRM contact still have the channel's display name
+  if (!datos.contacto_nombre && conversacion.contacto_nombre !== conversacion.external_participant_id) {
+    datos.contacto_nombre = conversacion.contacto_nombre || undefined;
+  }
+  return datos;
+}
+
+/**
+ * Render a text with merge variables (plain text, no HTML escaping).
+ */
+export function renderizarTexto(texto: string, datos: DatosMerge): string {
+  try {
+    return Handlebars.compile(texto, { noEscape: true })(datos).trim();
+  } catch (error: any) {
+    throw new RespuestaRapidaInvalidaError([`No se pudo renderizar: ${error.message.split('\n')[0]}`]);
+  }
+}
+
+function getVariablesFaltantes(texto: string, datos: DatosMerge): string[] {
+  return extraerVariables(texto).filter(v => datos[v] === undefined || datos[v] === null || datos[v] === '');
+}
+
+/**
+ * Render a quick reply for a conversation without sending it (composer preview).
+ */
+export async function previsualizarRespuestaRapida(
+  tenantId: string,
+  respuesta: RespuestaRapida,
+  conversacion: Conversacion,
+  usuarioId: string,
+  opciones: OpcionesMerge = {}
+): Promise<{ contenido: string; variables_faltantes: string[] }> {
+  const datos = await getDatosMergeConversacion(tenantId, conversacion, usuarioId, opciones);
+  return {
+    contenido: renderizarTexto(respuesta.contenido, datos),
+    variables_faltantes: getVariablesFaltantes(respuesta.contenido, datos),
+  };
+}
+
+async function ventanaWhatsAppAbierta(conversacionId: string): Promise<boolean> {
+  const result = await query(
+    `SELECT EXISTS (
+       SELECT 1 FROM mensajes
+       WHERE conversacion_id = $1 AND es_entrante = true
+         AND created_at >= NOW() - make_interval(hours => $2)
+     ) AS abierta`,
+    [conversacionId, VENTANA_WHATSAPP_HORAS]
+  );
+  return result.rows[0]?.abierta === true;
+}
+
+function armarPlantilla(
+  nombre: string,
+  idioma: string,
+  parametros: string[]
+): NonNullable<MensajePreparado['plantilla']> {
+  return {
+    nombre,
+    idioma,
+    componentes: parametros.length > 0
+      ? [{ type: 'body', parameters: parametros.map(text => ({ type: 'text', text })) }]
+      : [],
+  };
+}
+
+/**
+ * Resolve what POST /conversaciones/:id/mensajes must send when the agent used
+ * the picker: rendered quick reply text and/or a WhatsApp template with its
+ * parameters. `contenido` (the agent's edited preview) wins over the rendered text.
+ */
+export async function prepararMensaje(
+  tenantId: string,
+  conversacion: Conversacion,
+  usuarioId: string | null,
+  data: OpcionesMerge & {
+    respuesta_rapida_id?: string;
+    plantilla_whatsapp?: PlantillaWhatsAppInput;
+    contenido?: string;
+  }
+): Promise<MensajePreparado> {
+  const noTexto = (['contenido', 'propiedad_codigo'] as const).filter(campo => noEsTexto(data[campo]));
+  if (noTexto.length > 0) {
+    throw new RespuestaRapidaInvalidaError(noTexto.map(campo => `${campo} debe ser texto`));
+  }
+  if (data.plantilla_whatsapp && conversacion.canal !== 'whatsapp') {
+    throw new RespuestaRapidaInvalidaError(['Las plantillas de WhatsApp solo se pueden enviar en conversaciones de WhatsApp']);
+  }
+
+  const datos = await getDatosMergeConversacion(tenantId, conversacion, usuarioId, data);
+
+  // Approved template picked directly
+  if (data.plantilla_whatsapp) {
+    const { nombre, idioma = 'es' } = data.plantilla_whatsapp;
+    const plantillas = await getPlantillasWhatsAppAprobadas(tenantId);
+    const plantilla = plantillas.find(p => p.name === nombre && p.language === idioma);
+    if (!plantilla) {
+      throw new RespuestaRapidaInvalidaError([`La plantilla ${nombre} (${idioma}) no existe o no está aprobada`]);
+    }
+
+    const cuerpo = getCuerpoPlantilla(plantilla);
+    const esperados = contarParametros(cuerpo);
+    const parametros = (data.plantilla_whatsapp.parametros || []).map(p => renderizarTexto(p, datos));
+    if (parametros.length !== esperados) {
+      throw new RespuestaRapidaInvalidaError([`La plantilla ${nombre} requiere ${esperados} parámetros (recibidos ${parametros.length})`]);
+    }
+
+    return {
+      contenido: rellenarPlantilla(cuerpo, parametros),
+      plantilla: armarPlantilla(nombre, idioma, parametros),
+      metadata: { plantilla_whatsapp: { nombre, idioma } },
+    };
+  }
+
+  const respuesta = data.respuesta_rapida_id
+    ? await getRespuestaRapidaById(tenantId, data.respuesta_rapida_id)
+    : null;
+  if (!respuesta || !respuesta.activo || (respuesta.usuario_id && respuesta.usuario_id !== usuarioId)) {
+    throw new RespuestaRapidaInvalidaError(['Respuesta rápida no encontrada']);
+  }
+  if (respuesta.canales?.length > 0 && !respuesta.canales.includes(conversacion.canal)) {
+    throw new RespuestaRapidaInvalidaError([`La respuesta rápida no está habilitada para ${conversacion.canal}`]);
+  }
+
+  let contenido = data.contenido?.trim() ? data.contenido : renderizarTexto(respuesta.contenido, datos);
+
+  // Outside WhatsApp's 24h window free text is rejected: use the linked template.
+  // The stored message is then what the contact receives: the template body, not the reply text
+  let plantilla: MensajePreparado['plantilla'] = null;
+  if (
+    conversacion.canal === 'whatsapp' &&
+    respuesta.wa_template_nombre &&
+    !(await ventanaWhatsAppAbierta(conversacion.id))
+  ) {
+    const nombre = respuesta.wa_template_nombre;
+    const idioma = respuesta.wa_template_idioma || 'es';
+    const plantillas = await getPlantillasWhatsAppAprobadas(tenantId);
+    const aprobada = plantillas.find(p => p.name === nombre && p.language === idioma);
+    if (!aprobada) {
+      throw new RespuestaRapidaInvalidaError([`La plantilla ${nombre} (${idioma}) no existe o no está aprobada`]);
+    }
+
+    const cuerpo = getCuerpoPlantilla(aprobada);
+    const esperados = contarParametros(cuerpo);
+    const parametros = (respuesta.wa_template_parametros || []).map(p => renderizarTexto(p, datos));
+    if (parametros.length !== esperados) {
+      throw new RespuestaRapidaInvalidaError([`La plantilla ${nombre} requiere ${esperados} parámetros (la respuesta rápida tiene ${parametros.length})`]);
+    }
+
+    contenido = rellenarPlantilla(cuerpo, parametros);
+    plantilla = armarPlantilla(nombre, idioma, parametros);
+  }
+
+  await query(
+    `UPDATE mensajeria_respuestas_rapidas SET usos = usos + 1, ultimo_uso_at = NOW() WHERE id = $1`,
+    [respuesta.id]
+  );
+
+  return {
+    contenido,
+    plantilla,
+    metadata: {
+      respuesta_rapida_id: respuesta.id,
+      ...(plantilla ? { plantilla_whatsapp: { nombre: plantilla.nombre, idioma: plantilla.idioma } } : {}),
+    },
+  };
+}
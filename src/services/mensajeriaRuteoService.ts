@@ -0,0 +1,519 @@
+/**
+ * Mensajeria Ruteo Service - Routing rules and SLA escalation
+ *
+ * Routing: unassigned conversations (any channel) are matched against the
+ * tenant's rules in priority order. A rule matches when ALL of its conditions hold:
+ *   - canales: conversation channel is in the list
+ *   - palabras_clave: the message contains any keyword (case/accent-insensitive)
+ *   - origenes: the page / IG account / WhatsApp number / mailbox is in the list
+ *   - menciona_propiedad: the message mentions a property (code or URL slug)
+ *   - contacto_con_duenio: the linked contact already has an owner
+ * and assigns to its destination: a user, a team (least busy member), the
+ * contact's owner or the mentioned property's agent. If the destination can't be
+ * resolved, evaluation continues with the next rule.
+ *
+ * Escalation: the cron checks open cycles past their SLA target and reassigns
+ * them (another team member, the team leader or a fixed user).
+ */
+
+import { query } from '../utils/db.js';
+import { updateConversacion, type CanalType, type Conversacion } from './mensajeriaService.js';
+import { getSlaConfig, type SlaConfig } from './mensajeriaSlaService.js';
+import { publicarEvento } from './mensajeriaEventosService.js';
+
+// ==================== TYPES ====================
+
+export type DestinoRuteo = 'usuario' | 'equipo' | 'duenio_contacto' | 'asesor_propiedad';
+
+export interface CondicionesRuteo {
+  canales?: CanalType[];
+  palabras_clave?: string[];
+  origenes?: string[];
+  menciona_propiedad?: boolean;
+  contacto_con_duenio?: boolean;
+}
+
+export interface ReglaRuteo {
+  id: string;
+  tenant_id: string;
+  nombre: string;
+  prioridad: number;
+  activo: boolean;
+  condiciones: CondicionesRuteo;
+  destino_tipo: DestinoRuteo;
+  destino_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ContextoRuteo {
+  texto?: string | null;
+}
+
+export interface ResultadoRuteo {
+  regla: ReglaRuteo;
+  usuarioId: string;
+  equipoId: string | null;
+  propiedadId: string | null;
+}
+
+export class ReglaRuteoInvalidaError extends Error {
+  statusCode = 400;
+  errores: string[];
+
+  constructor(errores: string[]) {
+    super(`Regla de ruteo inválida: ${errores.join('; ')}`);
+    this.name = 'ReglaRuteoInvalidaError';
+    this.errores = errores;
+  }
+}
+
+const CANALES: CanalType[] = ['whatsapp', 'instagram_dm', 'facebook_dm', 'web_chat', 'email'];
+const DESTINOS: DestinoRuteo[] = ['usuario', 'equipo', 'duenio_contacto', 'asesor_propiedad'];
+
+// ==================== RULES CRUD ====================
+
+export async function getReglas(tenantId: string): Promise<ReglaRuteo[]> {
+  const result = await query(
+    `SELECT * FROM mensajeria_reglas_ruteo WHERE tenant_id = $1 ORDER BY prioridad ASC, created_at ASC`,
+    [tenantId]
+  );
+  return result.rows;
+}
+
+export async function getReglaById(tenantId: string, reglaId: string): Promise<ReglaRuteo | null> {
+  const result = await query(
+    'SELECT * FROM mensajeria_reglas_ruteo WHERE id = $1 AND tenant_id = $2',
+    [reglaId, tenantId]
+  );
+  return result.rows[0] || null;
+}
+
+async function validarRegla(tenantId: string, regla: Partial<ReglaRuteo>): Promise<void> {
+  const errores: string[] = [];
+  const condiciones = regla.condiciones || {};
+
+  if (!regla.nombre?.trim()) errores.push('nombre es requerido');
+  if (regla.prioridad !== undefined && !Number.isInteger(regla.prioridad)) {
+    errores.push('prioridad debe ser un entero');
+  }
+  if (!regla.destino_tipo || !DESTINOS.includes(regla.destino_tipo)) {
+    errores.push(`destino_tipo debe ser: ${DESTINOS.join(', ')}`);
+  }
+
+  if (typeof condiciones !== 'object' || Array.isArray(condiciones)) {
+    errores.push('condiciones debe ser un objeto');
+  } else {
+    for (const campo of ['canales', 'palabras_clave', 'origenes'] as const) {
+      const valor = condiciones[campo];
+      if (valor !== undefined && (!Array.isArray(valor) || valor.some(v => typeof v !== 'string' || !v.trim()))) {
+        errores.push(`condiciones.${campo} debe ser una lista de textos`);
+      }
+    }
+    for (const canal of condiciones.canales || []) {
+      if (!CANALES.includes(canal)) errores.push(`Canal desconocido: ${canal}`);
+    }
+  }
+
+  if (regla.destino_tipo === 'usuario') {
+    if (!regla.destino_id) {
+      errores.push('destino_id (usuario) es requerido');
+    } else {
+      const usuario = await query(
+        `SELECT 1 FROM usuarios_tenants WHERE usuario_id = $1 AND tenant_id = $2 AND activo = true`,
+        [regla.destino_id, tenantId]
+      );
+      if (usuario.rows.length === 0) errores.push('El usuario destino no pertenece al tenant');
+    }
+  } else if (regla.destino_tipo === 'equipo') {
+    if (!regla.destino_id) {
+      errores.push('destino_id (equipo) es requerido');
+    } else {
+      const equipo = await query(
+        'SELECT 1 FROM equipos WHERE id = $1 AND tenant_id = $2 AND activo = true',
+        [regla.destino_id, tenantId]
+      );
+      if (equipo.rows.length === 0) errores.push('El equipo destino no existe o está inactivo');
+    }
+  }
+
+  if (errores.length > 0) {
+    throw new ReglaRuteoInvalidaError(errores);
+  }
+}
+
+export async function createRegla(
+  tenantId: string,
+  data: Partial<Omit<ReglaRuteo, 'id' | 'tenant_id' | 'created_at' | 'updated_at'>>
+): Promise<ReglaRuteo> {
+  await validarRegla(tenantId, data);
+
+  const result = await query(
+    `INSERT INTO mensajeria_reglas_ruteo (
+       tenant_id, nombre, prioridad, activo, condiciones, destino_tipo, destino_id
+     ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+     RETURNING *`,
+    [
+      tenantId,
+      data.nombre!.trim(),
+      data.prioridad ?? 100,
+      data.activo ?? true,
+      JSON.stringify(data.condiciones || {}),
+      data.destino_tipo,
+      ['usuario', 'equipo'].includes(data.destino_tipo!) ? data.destino_id : null,
+    ]
+  );
+  return result.rows[0];
+}
+
+export async function updateRegla(
+  tenantId: string,
+  reglaId: string,
+  data: Partial<Omit<ReglaRuteo, 'id' | 'tenant_id' | 'created_at' | 'updated_at'>>
+): Promise<ReglaRuteo | null> {
+  const actual = await getReglaById(tenantId, reglaId);
+  if (!actual) return null;
+
+  const nueva = { ...actual, ...data };
+  await validarRegla(tenantId, nueva);
+
+  const result = await query(
+    `UPDATE mensajeria_reglas_ruteo SET
+       nombre = $1, prioridad = $2, activo = $3, condiciones = $4,
+       destino_tipo = $5, destino_id = $6, updated_at = NOW()
+     WHERE id = $7 AND tenant_id = $8
+     RETURNING *`,
+    [
+      nueva.nombre.trim(),
+      nueva.prioridad,
+      nueva.activo,
+      JSON.stringify(nueva.condiciones || {}),
+      nueva.destino_tipo,
+      ['usuario', 'equipo'].includes(nueva.destino_tipo) ? nueva.destino_id : null,
+      reglaId,
+      tenantId,
+    ]
+  );
+  return result.rows[0] || null;
+}
+
+export async function deleteRegla(tenantId: string, reglaId: string): Promise<boolean> {
+  const result = await query(
+    'DELETE FROM mensajeria_reglas_ruteo WHERE id = $1 AND tenant_id = $2',
+    [reglaId, tenantId]
+  );
+  return (result.rowCount || 0) > 0;
+}
+
+// ==================== MATCHING ====================
+
+function normalizarTexto(texto: string): string {
+  return texto.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+}
+
+/**
+ * Channel-specific origin IDs stored in the conversation metadata
+ * (FB page, IG account, WhatsApp phone number, user mailbox).
+ */
+function getOrigenesConversacion(conversacion: Pick<Conversacion, 'metadata'>): string[] {
+  const metadata = conversacion.metadata || {};
+  return [metadata.pageId, metadata.instagramAccountId, metadata.phoneNumberId, metadata.user_email]
+    .filter((v): v is string => typeof v === 'string' && v.length > 0)
+    .map(v => v.toLowerCase());
+}
+
+/**
+ * Property mentioned in the message: a word equal to its internal code
+ * (ej: "REF-1234") or to its URL slug (ej: a pasted listing link).
+ */
+async function buscarPropiedadMencionada(
+  tenantId: string,
+  texto: string
+): Promise<{ id: string; agente_id: string | null } | null> {
+  const palabras = Array.from(new Set(
+    (texto.toLowerCase().match(/[a-z0-9][a-z0-9_-]*[a-z0-9]/g) || []).filter(p => p.length >= 3)
+  ));
+  if (palabras.length === 0) return null;
+
+  const result = await query(
+    `SELECT id, agente_id
+     FROM propiedades
+     WHERE tenant_id = $1 AND activo = true
+       AND (LOWER(codigo) = ANY($2) OR LOWER(slug) = ANY($2))
+     ORDER BY updated_at DESC
+     LIMIT 1`,
+    [tenantId, palabras]
+  );
+  return result.rows[0] || null;
+}
+
+/**
+ * Team member with the fewest open conversations (ties: least recently assigned).
+ */
+export async function seleccionarMiembroEquipo(
+  tenantId: string,
+  equipoId: string,
+  excluirUsuarioId?: string | null
+): Promise<string | null> {
+  const result = await query(
+    `SELECT pa.usuario_id
+     FROM perfiles_asesor pa
+     INNER JOIN usuarios u ON u.id = pa.usuario_id AND u.activo = true
+     LEFT JOIN conversaciones c
+       ON c.usuario_asignado_id = pa.usuario_id AND c.tenant_id = pa.tenant_id AND c.estado = 'abierta'
+     WHERE pa.tenant_id = $1 AND pa.equipo_id = $2 AND pa.activo = true
+       AND ($3::uuid IS NULL OR pa.usuario_id <> $3)
+     GROUP BY pa.usuario_id
+     ORDER BY COUNT(c.id) ASC, MAX(c.asignada_at) ASC NULLS FIRST
+     LIMIT 1`,
+    [tenantId, equipoId, excluirUsuarioId || null]
+  );
+  return result.rows[0]?.usuario_id || null;
+}
+
+/**
+ * Evaluate the tenant's active rules for a conversation. Returns the first rule
+ * whose conditions match and whose destination resolves to a user.
+ */
+export async function evaluarReglas(
+  tenantId: string,
+  conversacion: Pick<Conversacion, 'canal' | 'metadata' | 'contacto_id'>,
+  contexto: ContextoRuteo = {}
+): Promise<ResultadoRuteo | null> {
+  const reglas = (await getReglas(tenantId)).filter(r => r.activo);
+  if (reglas.length === 0) return null;
+
+  const texto = normalizarTexto(contexto.texto || '');
+  const origenes = getOrigenesConversacion(conversacion);
+
+  // Lazy lookups shared by all rules
+  let propiedad: { id: string; agente_id: string | null } | null | undefined;
+  const getPropiedad = async () => {
+    if (propiedad === undefined) propiedad = await buscarPropiedadMencionada(tenantId, contexto.texto || '');
+    return propiedad;
+  };
+  let duenioContacto: string | null | undefined;
+  const getDuenioContacto = async () => {
+    if (duenioContacto === undefined) {
+      duenioContacto = null;
+      if (conversacion.contacto_id) {
+        const result = await query(
+          'SELECT usuario_asignado_id FROM contactos WHERE id = $1 AND tenant_id = $2 AND activo = true',
+          [conversacion.contacto_id, tenantId]
+        );
+        duenioContacto = result.rows[0]?.usuario_asignado_id || null;
+      }
+    }
+    return duenioContacto;
+  };
+
+  for (const regla of reglas) {
+    const c = regla.condiciones || {};
+
+    if (c.canales?.length && !c.canales.includes(conversacion.canal)) continue;
+    if (c.palabras_clave?.length && !c.palabras_clave.some(p => texto.includes(normalizarTexto(p)))) continue;
+    if (c.origenes?.length && !c.origenes.some(o => origenes.includes(o.toLowerCase()))) continue;
+    if (c.menciona_propiedad && !(await getPropiedad())) continue;
+    if (c.contacto_con_duenio && !(await getDuenioContacto())) continue;
+
+    let usuarioId: string | null = null;
+    let equipoId: string | null = null;
+    let propiedadId: string | null = null;
+
+    switch (regla.destino_tipo) {
+      case 'usuario':
+        usuarioId = regla.destino_id;
+        break;
+      case 'equipo':
+        equipoId = regla.destino_id;
+        usuarioId = equipoId ? await seleccionarMiembroEquipo(tenantId, equipoId) : null;
+        break;
+      case 'duenio_contacto':
+        usuarioId = await getDuenioContacto();
+        break;
+      case 'asesor_propiedad': {
+        const prop = await getPropiedad();
+        usuarioId = prop?.agente_id || null;
+        propiedadId = prop?.id || null;
+        break;
+      }
+    }
+
+    if (usuarioId) {
+      return { regla, usuarioId, equipoId, propiedadId };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Route an unassigned conversation with the tenant's rules.
+ * Returns the assigned user, or null if it was already assigned or no rule matched.
+ * Never throws: routing failures must not drop inbound messages.
+ */
+export async function rutearConversacion(
+  tenantId: string,
+  conversacion: Pick<Conversacion, 'id' | 'canal' | 'metadata' | 'contacto_id' | 'usuario_asignado_id'>,
+  contexto: ContextoRuteo = {}
+): Promise<string | null> {
+  if (conversacion.usuario_asignado_id) return null;
+
+  try {
+    const resultado = await evaluarReglas(tenantId, conversacion, contexto);
+    if (!resultado) return null;
+
+    await query(
+      `UPDATE conversaciones SET equipo_id = $1, regla_ruteo_id = $2
+       WHERE id = $3 AND tenant_id = $4`,
+      [resultado.equipoId, resultado.regla.id, conversacion.id, tenantId]
+    );
+    await updateConversacion(tenantId, conversacion.id, { usuario_asignado_id: resultado.usuarioId });
+
+    console.log(`[MensajeriaRuteo] Conversation ${conversacion.id} → user ${resultado.usuarioId} (rule "${resultado.regla.nombre}")`);
+    return resultado.usuarioId;
+  } catch (error: any) {
+    console.error(`[MensajeriaRuteo] Error routing conversation ${conversacion.id}:`, error.message);
+    return null;
+  }
+}
+
+/**
+ * Re-run the rules on an existing conversation using its last inbound message.
+ * With forzar=true, already assigned conversations are routed again.
+ */
+export async function reRutearConversacion(
+  tenantId: string,
+  conversacionId: string,
+  forzar: boolean = false
+): Promise<{ conversacion: Conversacion; asignado: boolean } | null> {
+  const convResult = await query(
+    'SELECT * FROM conversaciones WHERE id = $1 AND tenant_id = $2',
+    [conversacionId, tenantId]
+  );
+  const conversacion: Conversacion | undefined = convResult.rows[0];
+  if (!conversacion) return null;
+
+  const ultimo = await query(
+    `SELECT COALESCE(contenido_plain, contenido) AS texto
+     FROM mensajes
+     WHERE conversacion_id = $1 AND tenant_id = $2 AND es_entrante = true
+     ORDER BY created_at DESC
+     LIMIT 1`,
+    [conversacionId, tenantId]
+  );
+
+  const usuarioId = await rutearConversacion(
+    tenantId,
+    forzar ? { ...conversacion, usuario_asignado_id: null } : conversacion,
+    { texto: ultimo.rows[0]?.texto || null }
+  );
+
+  const actualizada = await query('SELECT * FROM conversaciones WHERE id = $1', [conversacionId]);
+  return { conversacion: actualizada.rows[0], asignado: !!usuarioId };
+}
+
+// ==================== SLA ESCALATION ====================
+
+/**
+ * Who takes over a breached conversation, according to the tenant's SLA config.
+ */
+async function resolverDestinoEscalamiento(
+  tenantId: string,
+  config: SlaConfig,
+  conversacion: { equipo_id: string | null; usuario_asignado_id: string | null }
+): Promise<string | null> {
+  // Team of the conversation, or of the current agent
+  let equipoId = conversacion.equipo_id;
+  if (!equipoId && conversacion.usuario_asignado_id) {
+    const perfil = await query(
+      'SELECT equipo_id FROM perfiles_asesor WHERE tenant_id = $1 AND usuario_id = $2 AND activo = true LIMIT 1',
+      [tenantId, conversacion.usuario_asignado_id]
+    );
+    equipoId = perfil.rows[0]?.equipo_id || null;
+  }
+
+  let destino: string | null = null;
+  if (config.accion_escalamiento === 'reasignar' && equipoId) {
+    destino = await seleccionarMiembroEquipo(tenantId, equipoId, conversacion.usuario_asignado_id);
+  } else if (config.accion_escalamiento === 'lider_equipo' && equipoId) {
+    const equipo = await query('SELECT lider_id FROM equipos WHERE id = $1 AND tenant_id = $2', [equipoId, tenantId]);
+    destino = equipo.rows[0]?.lider_id || null;
+  }
+
+  return destino || config.escalar_a_usuario_id || null;
+}
+
+/**
+ * Escalate open cycles that missed their first-response or resolution target.
+ * Each cycle is escalated once (sla_escalada_at). Called by cron.
+ */
+export async function procesarEscalamientosSla(limite: number = 200): Promise<{
+  revisadas: number;
+  escaladas: number;
+  sin_destino: number;
+}> {
+  const result = await query(
+    `SELECT c.id, c.tenant_id, c.canal, c.equipo_id, c.usuario_asignado_id,
+            (c.primera_respuesta_at IS NULL AND c.esperando_respuesta_desde IS NOT NULL
+              AND c.esperando_respuesta_desde < NOW() - make_interval(mins =>
+                COALESCE((cfg.objetivos_por_canal -> c.canal::text ->> 'primera_respuesta_min')::int, cfg.primera_respuesta_min)
+              )) AS incumple_primera_respuesta
+     FROM conversaciones c
+     INNER JOIN mensajeria_sla_config cfg ON cfg.tenant_id = c.tenant_id AND cfg.activo = true
+     WHERE c.estado = 'abierta'
+       AND c.resuelta_at IS NULL
+       AND c.sla_escalada_at IS NULL
+       AND c.ciclo_iniciado_at IS NOT NULL
+       AND (
+         (c.primera_respuesta_at IS NULL AND c.esperando_respuesta_desde IS NOT NULL
+           AND c.esperando_respuesta_desde < NOW() - make_interval(mins =>
+             COALESCE((cfg.objetivos_por_canal -> c.canal::text ->> 'primera_respuesta_min')::int, cfg.primera_respuesta_min)))
+         OR c.ciclo_iniciado_at < NOW() - make_interval(mins =>
+             COALESCE((cfg.objetivos_por_canal -> c.canal::text ->> 'resolucion_min')::int, cfg.resolucion_min))
+       )
+     ORDER BY c.ciclo_iniciado_at ASC
+     LIMIT $1`,
+    [limite]
+  );
+
+  const configs = new Map<string, SlaConfig>();
+  let escaladas = 0;
+  let sinDestino = 0;
+
+  for (const conv of result.rows) {
+    try {
+      if (!configs.has(conv.tenant_id)) configs.set(conv.tenant_id, await getSlaConfig(conv.tenant_id));
+      const config = configs.get(conv.tenant_id)!;
+      const motivo = conv.incumple_primera_respuesta ? 'primera_respuesta' : 'resolucion';
+
+      const destino = await resolverDestinoEscalamiento(conv.tenant_id, config, conv);
+
+      await query('UPDATE conversaciones SET sla_escalada_at = NOW() WHERE id = $1', [conv.id]);
+      if (destino && destino !== conv.usuario_asignado_id) {
+        await updateConversacion(conv.tenant_id, conv.id, { usuario_asignado_id: destino });
+        escaladas++;
+      } else {
+        sinDestino++;
+      }
+
+      const payload = { motivo, anterior_usuario_id: conv.usuario_asignado_id, nuevo_usuario_id: destino };
+      await publicarEvento(conv.tenant_id, 'conversacion.sla_incumplido', {
+        usuarioId: destino || conv.usuario_asignado_id,
+        conversacionId: conv.id,
+        payload,
+      });
+      if (destino && conv.usuario_asignado_id && destino !== conv.usuario_asignado_id) {
+        await publicarEvento(conv.tenant_id, 'conversacion.sla_incumplido', {
+          usuarioId: conv.usuario_asignado_id,
+          conversacionId: conv.id,
+          payload,
+        });
+      }
+    } catch (error: any) {
+      console.error(`[MensajeriaRuteo] Error escalating conversation ${conv.id}:`, error.message);
+    }
+  }
+
+  return { revisadas: result.rows.length, escaladas, sin_destino: sinDestino };
+}
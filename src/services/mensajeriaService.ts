@@ -4,9 +4,13 @@
  * Handles the unified inbox: conversations from all channels
  * (WhatsApp, Instagram DM, Facebook DM, Web Chat, Email).
  * Per-user scoped: each user sees only their own conversations.
+ * Changes are pushed to connected agents via mensajeriaEventosService (SSE)
+ * and response times are tracked by mensajeriaSlaService.
  */
 
 import { query } from '../utils/db.js';
+import { publicarEvento, emitirMensajeNuevo } from './mensajeriaEventosService.js';
+import { registrarTiemposMensaje, registrarResolucion } from './mensajeriaSlaService.js';
 
 // ========== TYPES ==========
 
@@ -273,6 +277,19 @@ export async function updateConversacion(
 
   if (setClauses.length === 0) return getConversacionById(tenantId, conversacionId);
 
+  // Previous owner, to notify them when the conversation is reassigned
+  let anteriorUsuarioId: string | null = null;
+  if (updates.usuario_asignado_id !== undefined) {
+    const anterior = await query(
+      'SELECT usuario_asignado_id FROM conversaciones WHERE id = $1 AND tenant_id = $2',
+      [conversacionId, tenantId]
+    );
+    anteriorUsuarioId = anterior.rows[0]?.usuario_asignado_id || null;
+  }
+
+  if (updates.usuario_asignado_id !== undefined) {
+    setClauses.push('asignada_at = NOW()');
+  }
   setClauses.push('updated_at = NOW()');
 
   const sql = `
@@ -284,7 +301,34 @@ export async function updateConversacion(
   params.push(conversacionId, tenantId);
 
   const result = await query(sql, params);
-  return result.rows[0] || null;
+  const conversacion: Conversacion | null = result.rows[0] || null;
+
+  if (conversacion && updates.estado === 'cerrada') {
+    await registrarResolucion(tenantId, conversacionId)
+      .catch((err) => console.error('[Mensajeria] Error tracking resolution time:', err.message));
+  }
+
+  if (conversacion) {
+    if (updates.usuario_asignado_id !== undefined && anteriorUsuarioId !== conversacion.usuario_asignado_id) {
+      const payload = { conversacion, anterior_usuario_id: anteriorUsuarioId };
+      await publicarEvento(tenantId, 'conversacion.asignada', {
+        usuarioId: conversacion.usuario_asignado_id,
+        conversacionId,
+        payload,
+      });
+      if (anteriorUsuarioId) {
+        await publicarEvento(tenantId, 'conversacion.asignada', { usuarioId: anteriorUsuarioId, conversacionId, payload });
+      }
+    } else if (updates.estado !== undefined || updates.etiqueta_id !== undefined || updates.contacto_id !== undefined) {
+      await publicarEvento(tenantId, 'conversacion.actualizada', {
+        usuarioId: conversacion.usuario_asignado_id,
+        conversacionId,
+        payload: { conversacion },
+      });
+    }
+  }
+
+  return conversacion;
 }
 
 /**
@@ -298,8 +342,16 @@ export async function markAsRead(
     UPDATE conversaciones
     SET no_leidos = 0, updated_at = NOW()
     WHERE id = $1 AND tenant_id = $2
+    RETURNING usuario_asignado_id
   `;
-  await query(sql, [conversacionId, tenantId]);
+  const result = await query(sql, [conversacionId, tenantId]);
+  if (result.rows[0]) {
+    await publicarEvento(tenantId, 'conversacion.leida', {
+      usuarioId: result.rows[0].usuario_asignado_id,
+      conversacionId,
+      payload: { no_leidos: 0 },
+    });
+  }
 }
 
 // ========== MENSAJES ==========
@@ -431,6 +483,14 @@ export async function createMensaje(
     tenantId,
   ]);
 
+  // Response-time tracking must never fail the message itself
+  await registrarTiemposMensaje(tenantId, conversacionId, {
+    es_entrante: data.es_entrante,
+    automatico: data.metadata?.automatico === true,
+  }).catch((err) => console.error('[Mensajeria] Error tracking response time:', err.message));
+
+  await emitirMensajeNuevo(tenantId, mensaje);
+
   return mensaje;
 }
 
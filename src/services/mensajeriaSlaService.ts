@@ -0,0 +1,363 @@
+/**
+ * Mensajeria SLA Service - Response times, SLA targets and metrics
+ *
+ * Each conversation goes through attention cycles: the first inbound message
+ * after a resolution starts a cycle (ciclo_iniciado_at). Within a cycle:
+ * - esperando_respuesta_desde marks the oldest unanswered inbound message
+ * - the first agent reply records a 'primera_respuesta' sample (checked against SLA),
+ *   later replies record 'respuesta' samples
+ * - closing the conversation records a 'resolucion' sample and ends the cycle
+ *
+ * Samples live in mensajeria_tiempos_respuesta and feed the per-agent and
+ * per-channel reports. Escalation of breached SLAs is in mensajeriaRuteoService.
+ */
+
+import { query } from '../utils/db.js';
+import type { CanalType } from './mensajeriaService.js';
+
+// ==================== TYPES ====================
+
+export type AccionEscalamiento = 'reasignar' | 'lider_equipo' | 'usuario';
+export type TipoTiempoRespuesta = 'primera_respuesta' | 'respuesta' | 'resolucion';
+
+export interface ObjetivosSla {
+  primera_respuesta_min: number;
+  resolucion_min: number;
+}
+
+export interface SlaConfig extends ObjetivosSla {
+  tenant_id: string;
+  activo: boolean;
+  objetivos_por_canal: Partial<Record<CanalType, Partial<ObjetivosSla>>>;
+  accion_escalamiento: AccionEscalamiento;
+  escalar_a_usuario_id: string | null;
+  updated_at: string | null;
+}
+
+export interface MetricasFiltros {
+  desde?: string;
+  hasta?: string;
+  canal?: CanalType;
+  usuario_id?: string;
+}
+
+export class SlaConfigInvalidaError extends Error {
+  statusCode = 400;
+  errores: string[];
+
+  constructor(errores: string[]) {
+    super(`Configuración de SLA inválida: ${errores.join('; ')}`);
+    this.name = 'SlaConfigInvalidaError';
+    this.errores = errores;
+  }
+}
+
+const CANALES: CanalType[] = ['whatsapp', 'instagram_dm', 'facebook_dm', 'web_chat', 'email'];
+const ACCIONES: AccionEscalamiento[] = ['reasignar', 'lider_equipo', 'usuario'];
+
+const SLA_DEFAULT: Omit<SlaConfig, 'tenant_id'> = {
+  activo: false,
+  primera_respuesta_min: 15,
+  resolucion_min: 1440,
+  objetivos_por_canal: {},
+  accion_escalamiento: 'reasignar',
+  escalar_a_usuario_id: null,
+  updated_at: null,
+};
+
+// ==================== CONFIG ====================
+
+/**
+ * Get the tenant's SLA config (defaults if never configured).
+ */
+export async function getSlaConfig(tenantId: string): Promise<SlaConfig> {
+  const result = await query('SELECT * FROM mensajeria_sla_config WHERE tenant_id = $1', [tenantId]);
+  return result.rows[0] || { tenant_id: tenantId, ...SLA_DEFAULT };
+}
+
+/**
+ * Targets (in minutes) that apply to a channel.
+ */
+export function getObjetivosCanal(config: SlaConfig, canal: CanalType): ObjetivosSla {
+  const override = config.objetivos_por_canal?.[canal] || {};
+  return {
+    primera_respuesta_min: override.primera_respuesta_min ?? config.primera_respuesta_min,
+    resolucion_min: override.resolucion_min ?? config.resolucion_min,
+  };
+}
+
+function validarMinutos(valor: any, campo: string, errores: string[]): void {
+  if (valor !== undefined && (!Number.isInteger(valor) || valor < 1)) {
+    errores.push(`${campo} debe ser un entero mayor a 0`);
+  }
+}
+
+/**
+ * Create or update the tenant's SLA config.
+ */
+export async function updateSlaConfig(
+  tenantId: string,
+  data: Partial<Omit<SlaConfig, 'tenant_id' | 'updated_at'>>
+): Promise<SlaConfig> {
+  const errores: string[] = [];
+  validarMinutos(data.primera_respuesta_min, 'primera_respuesta_min', errores);
+  validarMinutos(data.resolucion_min, 'resolucion_min', errores);
+
+  if (data.objetivos_por_canal !== undefined) {
+    if (typeof data.objetivos_por_canal !== 'object' || data.objetivos_por_canal === null) {
+      errores.push('objetivos_por_canal debe ser un objeto');
+    } else {
+      for (const [canal, objetivos] of Object.entries(data.objetivos_por_canal)) {
+        if (!CANALES.includes(canal as CanalType)) {
+          errores.push(`Canal desconocido en objetivos_por_canal: ${canal}`);
+          continue;
+        }
+        validarMinutos(objetivos?.primera_respuesta_min, `${canal}.primera_respuesta_min`, errores);
+        validarMinutos(objetivos?.resolucion_min, `${canal}.resolucion_min`, errores);
+      }
+    }
+  }
+
+  if (data.accion_escalamiento !== undefined && !ACCIONES.includes(data.accion_escalamiento)) {
+    errores.push(`accion_escalamiento debe ser: ${ACCIONES.join(', ')}`);
+  }
+
+  const actual = await getSlaConfig(tenantId);
+  const nueva = { ...actual, ...data };
+
+  if (nueva.accion_escalamiento === 'usuario' && !nueva.escalar_a_usuario_id) {
+    errores.push('escalar_a_usuario_id es requerido cuando accion_escalamiento es "usuario"');
+  }
+  if (errores.length > 0) {
+    throw new SlaConfigInvalidaError(errores);
+  }
+
+  const result = await query(
+    `INSERT INTO mensajeria_sla_config (
+       tenant_id, activo, primera_respuesta_min, resolucion_min, objetivos_por_canal,
+       accion_escalamiento, escalar_a_usuario_id, updated_at
+     ) VALUES ($1, $2, $3, $4, $5, $6, $7, NOW())
+     ON CONFLICT (tenant_id) DO UPDATE SET
+       activo = EXCLUDED.activo,
+       primera_respuesta_min = EXCLUDED.primera_respuesta_min,
+       resolucion_min = EXCLUDED.resolucion_min,
+       objetivos_por_canal = EXCLUDED.objetivos_por_canal,
+       accion_escalamiento = EXCLUDED.accion_escalamiento,
+       escalar_a_usuario_id = EXCLUDED.escalar_a_usuario_id,
+       updated_at = NOW()
+     RETURNING *`,
+    [
+      tenantId,
+      nueva.activo,
+      nueva.primera_respuesta_min,
+      nueva.resolucion_min,
+      JSON.stringify(nueva.objetivos_por_canal || {}),
+      nueva.accion_escalamiento,
+      nueva.escalar_a_usuario_id || null,
+    ]
+  );
+  return result.rows[0];
+}
+
+// ==================== TRACKING ====================
+
+async function registrarTiempo(
+  tenantId: string,
+  conversacionId: string,
+  data: {
+    usuarioId: string | null;
+    canal: CanalType;
+    tipo: TipoTiempoRespuesta;
+    segundos: number;
+    objetivoMin: number | null;
+  }
+): Promise<void> {
+  const objetivoSegundos = data.objetivoMin !== null ? data.objetivoMin * 60 : null;
+  await query(
+    `INSERT INTO mensajeria_tiempos_respuesta (
+       tenant_id, conversacion_id, usuario_id, canal, tipo, segundos, objetivo_segundos, cumplido
+     ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+    [
+      tenantId,
+      conversacionId,
+      data.usuarioId,
+      data.canal,
+      data.tipo,
+      Math.max(0, Math.round(data.segundos)),
+      objetivoSegundos,
+      objetivoSegundos !== null ? data.segundos <= objetivoSegundos : null,
+    ]
+  );
+}
+
+/**
+ * Update the attention cycle after a message is stored.
+ * Inbound messages open the cycle / start the wait; agent replies close the wait
+ * and record the response time. Automatic messages (away replies, bots) don't count.
+ */
+export async function registrarTiemposMensaje(
+  tenantId: string,
+  conversacionId: string,
+  data: { es_entrante: boolean; automatico?: boolean; usuarioId?: string | null }
+): Promise<void> {
+  if (data.es_entrante) {
+    // A message after a resolution starts a new cycle
+    await query(
+      `UPDATE conversaciones SET
+         ciclo_iniciado_at = CASE WHEN ciclo_iniciado_at IS NULL OR resuelta_at IS NOT NULL THEN NOW() ELSE ciclo_iniciado_at END,
+         primera_respuesta_at = CASE WHEN resuelta_at IS NOT NULL THEN NULL ELSE primera_respuesta_at END,
+         sla_escalada_at = CASE WHEN resuelta_at IS NOT NULL THEN NULL ELSE sla_escalada_at END,
+         esperando_respuesta_desde = CASE WHEN resuelta_at IS NOT NULL THEN NOW() ELSE COALESCE(esperando_respuesta_desde, NOW()) END,
+         resuelta_at = NULL
+       WHERE id = $1 AND tenant_id = $2`,
+      [conversacionId, tenantId]
+    );
+    return;
+  }
+
+  if (data.automatico) return;
+
+  const result = await query(
+    `WITH antes AS (
+       SELECT id, canal, usuario_asignado_id, esperando_respuesta_desde, primera_respuesta_at
+       FROM conversaciones
+       WHERE id = $1 AND tenant_id = $2 AND esperando_respuesta_desde IS NOT NULL
+       FOR UPDATE
+     )
+     UPDATE conversaciones c SET
+       esperando_respuesta_desde = NULL,
+       primera_respuesta_at = COALESCE(c.primera_respuesta_at, NOW())
+     FROM antes
+     WHERE c.id = antes.id
+     RETURNING antes.canal, antes.usuario_asignado_id, antes.primera_respuesta_at AS primera_respuesta_previa,
+               EXTRACT(EPOCH FROM (NOW() - antes.esperando_respuesta_desde)) AS segundos`,
+    [conversacionId, tenantId]
+  );
+  const fila = result.rows[0];
+  if (!fila) return;
+
+  const esPrimera = !fila.primera_respuesta_previa;
+  const config = await getSlaConfig(tenantId);
+
+  await registrarTiempo(tenantId, conversacionId, {
+    usuarioId: data.usuarioId || fila.usuario_asignado_id || null,
+    canal: fila.canal,
+    tipo: esPrimera ? 'primera_respuesta' : 'respuesta',
+    segundos: parseFloat(fila.segundos),
+    objetivoMin: esPrimera && config.activo ? getObjetivosCanal(config, fila.canal).primera_respuesta_min : null,
+  });
+}
+
+/**
+ * Close the current cycle when the conversation is resolved (estado → cerrada).
+ */
+export async function registrarResolucion(
+  tenantId: string,
+  conversacionId: string,
+  usuarioId?: string | null
+): Promise<void> {
+  const result = await query(
+    `WITH antes AS (
+       SELECT id, canal, usuario_asignado_id, ciclo_iniciado_at
+       FROM conversaciones
+       WHERE id = $1 AND tenant_id = $2 AND ciclo_iniciado_at IS NOT NULL AND resuelta_at IS NULL
+       FOR UPDATE
+     )
+     UPDATE conversaciones c SET resuelta_at = NOW(), esperando_respuesta_desde = NULL
+     FROM antes
+     WHERE c.id = antes.id
+     RETURNING antes.canal, antes.usuario_asignado_id,
+               EXTRACT(EPOCH FROM (NOW() - antes.ciclo_iniciado_at)) AS segundos`,
+    [conversacionId, tenantId]
+  );
+  const fila = result.rows[0];
+  if (!fila) return;
+
+  const config = await getSlaConfig(tenantId);
+  await registrarTiempo(tenantId, conversacionId, {
+    usuarioId: usuarioId || fila.usuario_asignado_id || null,
+    canal: fila.canal,
+    tipo: 'resolucion',
+    segundos: parseFloat(fila.segundos),
+    objetivoMin: config.activo ? getObjetivosCanal(config, fila.canal).resolucion_min : null,
+  });
+}
+
+// ==================== METRICS ====================
+
+const SELECT_METRICAS = `
+  COUNT(*) FILTER (WHERE t.tipo = 'primera_respuesta')::int AS primeras_respuestas,
+  ROUND(AVG(t.segundos) FILTER (WHERE t.tipo = 'primera_respuesta'))::int AS primera_respuesta_promedio_seg,
+  ROUND(percentile_cont(0.5) WITHIN GROUP (ORDER BY t.segundos) FILTER (WHERE t.tipo = 'primera_respuesta'))::int AS primera_respuesta_mediana_seg,
+  COUNT(*) FILTER (WHERE t.tipo = 'respuesta')::int AS respuestas,
+  ROUND(AVG(t.segundos) FILTER (WHERE t.tipo = 'respuesta'))::int AS respuesta_promedio_seg,
+  COUNT(*) FILTER (WHERE t.tipo = 'resolucion')::int AS resoluciones,
+  ROUND(AVG(t.segundos) FILTER (WHERE t.tipo = 'resolucion'))::int AS resolucion_promedio_seg,
+  COUNT(*) FILTER (WHERE t.cumplido IS NOT NULL)::int AS medidas_sla,
+  COUNT(*) FILTER (WHERE t.cumplido = false)::int AS incumplimientos_sla,
+  ROUND(100.0 * COUNT(*) FILTER (WHERE t.cumplido = true) / NULLIF(COUNT(*) FILTER (WHERE t.cumplido IS NOT NULL), 0), 1)::float AS cumplimiento_sla_pct
+`;
+
+/**
+ * Response metrics per agent and per channel for a date range (default: last 30 days).
+ */
+export async function getMetricasRespuesta(tenantId: string, filtros: MetricasFiltros = {}) {
+  const params: any[] = [tenantId];
+  let where = 't.tenant_id = $1';
+
+  params.push(filtros.desde || new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString());
+  where += ` AND t.created_at >= $${params.length}`;
+
+  if (filtros.hasta) {
+    params.push(filtros.hasta);
+    where += ` AND t.created_at < $${params.length}`;
+  }
+  if (filtros.canal) {
+    params.push(filtros.canal);
+    where += ` AND t.canal = $${params.length}`;
+  }
+  if (filtros.usuario_id) {
+    params.push(filtros.usuario_id);
+    where += ` AND t.usuario_id = $${params.length}`;
+  }
+
+  const [totales, porAgente, porCanal, pendientes] = await Promise.all([
+    query(`SELECT ${SELECT_METRICAS} FROM mensajeria_tiempos_respuesta t WHERE ${where}`, params),
+    query(
+      `SELECT t.usuario_id, u.nombre, u.apellido, u.email, ${SELECT_METRICAS}
+       FROM mensajeria_tiempos_respuesta t
+       LEFT JOIN usuarios u ON u.id = t.usuario_id
+       WHERE ${where}
+       GROUP BY t.usuario_id, u.nombre, u.apellido, u.email
+       ORDER BY primera_respuesta_promedio_seg ASC NULLS LAST`,
+      params
+    ),
+    query(
+      `SELECT t.canal, ${SELECT_METRICAS}
+       FROM mensajeria_tiempos_respuesta t
+       WHERE ${where}
+       GROUP BY t.canal
+       ORDER BY t.canal`,
+      params
+    ),
+    query(
+      `SELECT
+         COUNT(*) FILTER (WHERE esperando_respuesta_desde IS NOT NULL)::int AS esperando_respuesta,
+         ROUND(MAX(EXTRACT(EPOCH FROM (NOW() - esperando_respuesta_desde))))::int AS espera_mas_larga_seg,
+         COUNT(*) FILTER (WHERE sla_escalada_at IS NOT NULL AND resuelta_at IS NULL)::int AS escaladas_abiertas
+       FROM conversaciones
+       WHERE tenant_id = $1 AND estado = 'abierta'
+         ${filtros.canal ? 'AND canal = $2' : ''}`,
+      filtros.canal ? [tenantId, filtros.canal] : [tenantId]
+    ),
+  ]);
+
+  return {
+    desde: params[1],
+    hasta: filtros.hasta || null,
+    totales: totales.rows[0],
+    por_agente: porAgente.rows,
+    por_canal: porCanal.rows,
+    pendientes: pendientes.rows[0],
+  };
+}
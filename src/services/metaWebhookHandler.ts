@@ -7,8 +7,10 @@
  * For each incoming message:
  * 1. Identify the tenant + user from the page/account ID
  * 2. Find or create a conversacion in our DB
- * 3. Create a mensaje record
- * 4. (Future) Notify via WebSocket/SSE
+ * 3. Link it to a CRM contact (contactosIdentidadesService) and route it if unassigned
+ * 4. Create a mensaje record
+ * 5. Push to connected agents via SSE (mensajeriaEventosService)
+ * 6. Send the away/greeting reply per the tenant's business hours (mensajeriaHorariosService)
  *
  * Supported object types:
  * - page: Facebook Messenger (entry.messaging[])
@@ -22,6 +24,10 @@ import * as mensajeriaService from './mensajeriaService.js';
 import * as metaMessagingService from './metaMessagingService.js';
 import * as instagramMessagingService from './instagramMessagingService.js';
 import * as whatsappCloudService from './whatsappCloudService.js';
+import { vincularConversacionEntrante } from './contactosIdentidadesService.js';
+import { emitirEstadoMensajes } from './mensajeriaEventosService.js';
+import { rutearConversacion } from './mensajeriaRuteoService.js';
+import { procesarRespuestaAutomatica } from './mensajeriaHorariosService.js';
 import type { WAWebhookValue, WAIncomingMessage, WAStatusUpdate } from './whatsappCloudService.js';
 
 // ==================== TYPES ====================
@@ -185,6 +191,17 @@ async function handleIncomingMessage(
     });
   }
 
+  // Link to a CRM contact (by PSID/IGSID identity, or a new lead)
+  const contactoId = await vincularConversacionEntrante(lookup.tenantId, conversacion, {
+    canal,
+    externalId: senderId,
+    nombre: senderName !== senderId ? senderName : undefined,
+    usuarioAsignadoId: conversacion.usuario_asignado_id,
+  });
+
+  // Tenant-level pages have no owner: apply the routing rules
+  await rutearConversacion(lookup.tenantId, { ...conversacion, contacto_id: contactoId }, { texto: message.text });
+
   // Determine message type and content
   let tipo: 'text' | 'image' | 'video' | 'audio' | 'document' = 'text';
   let contenido = message.text || '';
@@ -229,6 +246,15 @@ async function handleIncomingMessage(
     },
   });
 
+  // Away / greeting reply (rate limited per contact)
+  await procesarRespuestaAutomatica(
+    lookup.tenantId,
+    { ...conversacion, contacto_id: contactoId },
+    canal === 'instagram_dm'
+      ? { canal, pageAccessToken: lookup.pageAccessToken, instagramAccountId: lookup.instagramAccountId }
+      : { canal, pageAccessToken: lookup.pageAccessToken }
+  );
+
   // Mark as seen (FB only — Instagram doesn't support sender actions the same way)
   if (canal === 'facebook_dm') {
     try {
@@ -302,12 +328,16 @@ async function handleDelivery(
   const delivery = event.delivery!;
   if (!delivery.mids || delivery.mids.length === 0) return;
 
+  const actualizados: any[] = [];
   for (const mid of delivery.mids) {
-    await query(
-      `UPDATE mensajes SET estado = 'entregado' WHERE tenant_id = $1 AND external_message_id = $2 AND estado = 'enviado'`,
+    const result = await query(
+      `UPDATE mensajes SET estado = 'entregado' WHERE tenant_id = $1 AND external_message_id = $2 AND estado = 'enviado'
+       RETURNING id, conversacion_id, estado`,
       [lookup.tenantId, mid]
     );
+    actualizados.push(...result.rows);
   }
+  await emitirEstadoMensajes(lookup.tenantId, actualizados);
 }
 
 /**
@@ -330,11 +360,13 @@ async function handleRead(
   if (!convResult.rows[0]) return;
 
   // Mark all outgoing messages in this conversation as read
-  await query(
+  const result = await query(
     `UPDATE mensajes SET estado = 'leido'
-     WHERE tenant_id = $1 AND conversacion_id = $2 AND es_entrante = false AND estado IN ('enviado', 'entregado')`,
+     WHERE tenant_id = $1 AND conversacion_id = $2 AND es_entrante = false AND estado IN ('enviado', 'entregado')
+     RETURNING id, conversacion_id, estado`,
     [lookup.tenantId, convResult.rows[0].id]
   );
+  await emitirEstadoMensajes(lookup.tenantId, result.rows);
 }
 
 // ==================== PAGE LOOKUP ====================
@@ -538,6 +570,19 @@ async function handleWhatsAppIncomingMessage(
     });
   }
 
+  // Link to a CRM contact by phone (E.164), or create a new lead
+  const contactoId = await vincularConversacionEntrante(lookup.tenantId, conversacion, {
+    canal: 'whatsapp',
+    externalId: senderWaId,
+    nombre: contactName !== senderWaId ? contactName : undefined,
+    usuarioAsignadoId: conversacion.usuario_asignado_id,
+  });
+
+  // WhatsApp numbers are tenant-level: apply the routing rules
+  await rutearConversacion(lookup.tenantId, { ...conversacion, contacto_id: contactoId }, {
+    texto: msg.text?.body || msg.image?.caption || msg.video?.caption || null,
+  });
+
   // Determine message type and content
   let tipo: 'text' | 'image' | 'video' | 'audio' | 'document' = 'text';
   let contenido = '';
@@ -605,6 +650,13 @@ async function handleWhatsAppIncomingMessage(
     },
   });
 
+  // Away / greeting reply (rate limited per contact)
+  await procesarRespuestaAutomatica(lookup.tenantId, { ...conversacion, contacto_id: contactoId }, {
+    canal: 'whatsapp',
+    accessToken: lookup.accessToken,
+    phoneNumberId: lookup.phoneNumberId,
+  });
+
   // Mark as read on WhatsApp
   try {
     await whatsappCloudService.markMessageAsRead(
@@ -634,10 +686,13 @@ async function handleWhatsAppStatus(
   const newEstado = estadoMap[status.status];
   if (!newEstado) return;
 
+  const returning = 'RETURNING id, conversacion_id, estado, error_mensaje';
+  let result;
+
   if (status.status === 'failed') {
     const errorMsg = status.errors?.map(e => `${e.code}: ${e.title}`).join('; ') || 'Unknown error';
-    await query(
-      `UPDATE mensajes SET estado = 'fallido', error_mensaje = $1 WHERE tenant_id = $2 AND external_message_id = $3`,
+    result = await query(
+      `UPDATE mensajes SET estado = 'fallido', error_mensaje = $1 WHERE tenant_id = $2 AND external_message_id = $3 ${returning}`,
       [errorMsg, lookup.tenantId, status.id]
     );
   } else {
@@ -648,18 +703,20 @@ async function handleWhatsAppStatus(
 
     if (lowerStatuses.length > 0) {
       const placeholders = lowerStatuses.map((_, i) => `$${i + 4}`).join(', ');
-      await query(
-        `UPDATE mensajes SET estado = $1 WHERE tenant_id = $2 AND external_message_id = $3 AND estado IN (${placeholders})`,
+      result = await query(
+        `UPDATE mensajes SET estado = $1 WHERE tenant_id = $2 AND external_message_id = $3 AND estado IN (${placeholders}) ${returning}`,
         [newEstado, lookup.tenantId, status.id, ...lowerStatuses]
       );
     } else {
       // 'enviado' is the first status — just set it
-      await query(
-        `UPDATE mensajes SET estado = $1 WHERE tenant_id = $2 AND external_message_id = $3`,
+      result = await query(
+        `UPDATE mensajes SET estado = $1 WHERE tenant_id = $2 AND external_message_id = $3 ${returning}`,
         [newEstado, lookup.tenantId, status.id]
       );
     }
   }
+
+  await emitirEstadoMensajes(lookup.tenantId, result.rows);
 }
 
 // ==================== WHATSAPP LOOKUP ====================
@@ -525,6 +525,46 @@ export async function actualizarProgresoMeta(
   return result.rows[0] || null;
 }
 
+/**
+ * Recalcula y persiste el progreso de las metas activas de ventas/cierres
+ * del usuario y de la empresa (ej: al completar una venta)
+ */
+export async function recalcularMetasVentas(
+  tenantId: string,
+  usuarioId?: string | null
+): Promise<Meta[]> {
+  const sql = `
+    SELECT id, usuario_id, tipo_meta, metrica, valor_actual, fecha_inicio, fecha_fin
+    FROM metas
+    WHERE tenant_id = $1
+      AND activo = true
+      AND estado = 'activa'
+      AND tipo_meta IN ('ventas', 'cierres')
+      AND fecha_inicio <= CURRENT_DATE AND fecha_fin >= CURRENT_DATE
+      AND (usuario_id IS NULL${usuarioId ? ' OR usuario_id = $2' : ''})
+  `;
+  const result = await query(sql, usuarioId ? [tenantId, usuarioId] : [tenantId]);
+
+  const actualizadas: Meta[] = [];
+  for (const meta of result.rows) {
+    const valor = await calcularProgresoAutomatico(
+      tenantId,
+      meta.tipo_meta,
+      meta.metrica,
+      meta.fecha_inicio,
+      meta.fecha_fin,
+      meta.usuario_id
+    );
+
+    if (valor === parseFloat(meta.valor_actual || 0)) continue;
+
+    const actualizada = await actualizarProgresoMeta(tenantId, meta.id, valor, 'Recalculado al completar venta');
+    if (actualizada) actualizadas.push(actualizada);
+  }
+
+  return actualizadas;
+}
+
 /**
  * Elimina una meta (soft delete)
  */
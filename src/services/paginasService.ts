@@ -5,6 +5,8 @@
 import { query } from '../utils/db.js';
 import { getComponentesByTenant, getTemaByTenant } from './componentesService.js';
 import type { ComponenteWebResponse } from './componentesService.js';
+import type { RedireccionResuelta } from './redireccionesService.js';
+import type { AsignacionExperimento } from './experimentosPaginasService.js';
 import { resolveDynamicData } from './dynamicDataResolver.js';
 import { getSeccionesResueltas } from './seccionesService.js';
 
@@ -261,6 +263,14 @@ export interface PaginaCompletaResponse {
   page: PaginaWebResponse;
   theme: Record<string, string>;
   components: ComponenteWebResponse[];
+  // Segmentos del path que no se reconocieron (listado de propiedades sin coincidencia exacta)
+  unknownSegments?: string[];
+  // Slug de un single de contenido que no existe (se muestra la plantilla vacía)
+  singleNotFound?: string;
+  // Ruta redirigida (slug cambiado o regla manual): el frontend hace el 301/302
+  redirect?: RedireccionResuelta;
+  // Variante del experimento A/B asignada al visitante (la respuesta no se cachea)
+  experimento?: AsignacionExperimento;
 }
 
 /**
@@ -2,6 +2,10 @@ import { query } from '../utils/db.js';
 
 /**
  * Servicio para gestionar configuraciones de variantes de páginas con herencia
+ *
+ * OBSOLETO: la tabla paginas_variantes_config se eliminó en la migración 076.
+ * Las variantes de página que se sirven a visitantes (tests A/B) están en
+ * experimentosPaginasService.
  */
 
 export interface ConfiguracionVariante {
@@ -11,7 +11,8 @@ export type EstadoPlanPago =
   | 'enviado'
   | 'visto'
   | 'aceptado'
-  | 'rechazado';
+  | 'rechazado'
+  | 'expirado';
 
 export interface PlanDetalle {
   reserva?: { tipo: 'porcentaje' | 'valor'; valor: number; descripcion?: string };
@@ -394,25 +395,88 @@ export async function getPlanPagoById(
  * Auto-incrementa veces_vista y actualiza fecha_vista
  */
 export async function getPlanPagoByUrl(urlPublica: string): Promise<PlanPago | null> {
-  // Primero incrementar vistas
+  const resultado = await registrarVistaPlanPago(urlPublica);
+  return resultado ? resultado.plan : null;
+}
+
+/**
+ * Registra una vista del plan de pago público de forma atómica.
+ * Mueve 'enviado' → 'visto' y retorna si fue la primera vez que se abrió.
+ * Los planes en borrador o expirados se devuelven sin contar la vista.
+ */
+export async function registrarVistaPlanPago(
+  urlPublica: string
+): Promise<{ plan: PlanPago; primeraVista: boolean } | null> {
   const updateSql = `
-    UPDATE planes_pago
+    WITH previa AS (
+      SELECT id, veces_vista
+      FROM planes_pago
+      WHERE url_publica = $1 AND activo = true
+      FOR UPDATE
+    )
+    UPDATE planes_pago pp
     SET
-      veces_vista = veces_vista + 1,
-      fecha_vista = COALESCE(fecha_vista, NOW()),
-      estado = CASE WHEN estado = 'enviado' THEN 'visto' ELSE estado END,
+      veces_vista = pp.veces_vista + 1,
+      fecha_vista = COALESCE(pp.fecha_vista, NOW()),
+      estado = CASE WHEN pp.estado = 'enviado' THEN 'visto' ELSE pp.estado END,
       updated_at = NOW()
-    WHERE url_publica = $1 AND activo = true
-    RETURNING id, tenant_id
+    FROM previa
+    WHERE pp.id = previa.id
+      AND pp.estado NOT IN ('borrador', 'expirado')
+      AND (pp.fecha_expiracion IS NULL OR pp.fecha_expiracion > NOW())
+    RETURNING pp.id, pp.tenant_id, previa.veces_vista as veces_vista_anterior
   `;
 
   const updateResult = await query(updateSql, [urlPublica]);
 
   if (updateResult.rows.length === 0) {
+    // Puede existir pero estar en borrador o expirado: devolverlo sin contar la vista
+    const expirado = await query(
+      `SELECT id, tenant_id FROM planes_pago WHERE url_publica = $1 AND activo = true`,
+      [urlPublica]
+    );
+    if (expirado.rows.length === 0) return null;
+
+    const plan = await getPlanPagoById(expirado.rows[0].tenant_id, expirado.rows[0].id);
+    return plan ? { plan, primeraVista: false } : null;
+  }
+
+  const { id, tenant_id, veces_vista_anterior } = updateResult.rows[0];
+  const plan = await getPlanPagoById(tenant_id, id);
+  if (!plan) return null;
+
+  return { plan, primeraVista: (veces_vista_anterior || 0) === 0 };
+}
+
+/**
+ * Registra la respuesta del cliente desde la vista pública.
+ * Solo se puede responder un plan en estado 'enviado' o 'visto'.
+ */
+export async function responderPlanPagoPublico(
+  urlPublica: string,
+  respuesta: 'aceptado' | 'rechazado',
+  comentario?: string
+): Promise<PlanPago | null> {
+  const sql = `
+    UPDATE planes_pago
+    SET estado = $2,
+        fecha_respuesta = NOW(),
+        datos_extra = COALESCE(datos_extra, '{}'::jsonb) || jsonb_build_object(
+          'respuesta_cliente', jsonb_build_object('respuesta', $2::text, 'comentario', $3::text, 'fecha', NOW())
+        ),
+        updated_at = NOW()
+    WHERE url_publica = $1 AND activo = true AND estado IN ('enviado', 'visto')
+      AND (fecha_expiracion IS NULL OR fecha_expiracion > NOW())
+    RETURNING id, tenant_id
+  `;
+
+  const result = await query(sql, [urlPublica, respuesta, comentario || null]);
+
+  if (result.rows.length === 0) {
     return null;
   }
 
-  const { id, tenant_id } = updateResult.rows[0];
+  const { id, tenant_id } = result.rows[0];
   return getPlanPagoById(tenant_id, id);
 }
 
@@ -550,17 +614,29 @@ export async function updatePlanPago(
     paramIndex++;
   }
 
+  let fechaExpiracionParam: number | null = null;
   if (data.fecha_expiracion !== undefined) {
     fields.push(`fecha_expiracion = $${paramIndex}`);
     values.push(data.fecha_expiracion);
+    fechaExpiracionParam = paramIndex;
     paramIndex++;
   }
 
+  // Si cambia la fecha de expiración, el aviso previo del cron debe volver a enviarse
+  let datosExtraExpr: string | null = null;
   if (data.datos_extra !== undefined) {
-    fields.push(`datos_extra = $${paramIndex}`);
+    datosExtraExpr = `$${paramIndex}::jsonb`;
     values.push(JSON.stringify(data.datos_extra));
     paramIndex++;
   }
+  if (fechaExpiracionParam !== null) {
+    const base = datosExtraExpr || `COALESCE(datos_extra, '{}'::jsonb)`;
+    datosExtraExpr = `CASE WHEN fecha_expiracion IS DISTINCT FROM $${fechaExpiracionParam}::timestamptz
+      THEN ${base} - 'aviso_expiracion_enviado' ELSE ${base} END`;
+  }
+  if (datosExtraExpr) {
+    fields.push(`datos_extra = ${datosExtraExpr}`);
+  }
 
   if (fields.length === 0) {
     return getPlanPagoById(tenantId, planId);
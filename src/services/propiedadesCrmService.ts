@@ -5,6 +5,10 @@
 import { query } from '../utils/db.js';
 import { generateMultiLanguageSlugs, translatePropertyContent, generateShortDescription } from './translationService.js';
 import { syncTagsForProperty } from './tagsSyncService.js';
+import { registrarCambiosPrecio, CAMPOS_PRECIO } from './historialPreciosService.js';
+import { getRutasEntidad } from './sitemapService.js';
+import { registrarCambiosRuta } from './redireccionesService.js';
+import { invalidarCacheRender } from './renderCacheService.js';
 import {
   registrarPropiedadCreada,
   registrarPropiedadEliminada,
@@ -458,7 +462,8 @@ export async function createPropiedad(
     traducciones?: Record<string, any>;
     perfil_asesor_id?: string;
     featured_until?: string;
-  }
+  },
+  usuarioId?: string
 ): Promise<Propiedad> {
   // Sincronizar agente_id y perfil_asesor_id basándose en captador_id
   const captadorId = data.captador_id || null;
@@ -703,6 +708,15 @@ export async function createPropiedad(
     // No fallar la operación por error de tracking
   }
 
+  // Precio inicial en el historial de precios
+  try {
+    await registrarCambiosPrecio(tenantId, parsed.id, null, row, usuarioId);
+  } catch (historialError) {
+    console.error('⚠️ Error registrando historial de precios:', historialError);
+  }
+
+  await invalidarCacheRender(tenantId, 'propiedad creada');
+
   return parsed;
 }
 
@@ -712,7 +726,8 @@ export async function createPropiedad(
 export async function updatePropiedad(
   tenantId: string,
   propiedadId: string,
-  data: Partial<Propiedad>
+  data: Partial<Propiedad>,
+  usuarioId?: string
 ): Promise<Propiedad | null> {
   // Obtener estado actual para tracking de cambios de publicación
   let estadoAnterior: string | null = null;
@@ -728,6 +743,22 @@ export async function updatePropiedad(
     }
   }
 
+  // Obtener precios actuales para el historial de precios
+  let preciosAnteriores: Record<string, any> | null = null;
+  if ([...CAMPOS_PRECIO, 'moneda'].some((campo) => (data as any)[campo] !== undefined)) {
+    const preciosResult = await query(
+      `SELECT precio, precio_venta, precio_alquiler, moneda FROM propiedades WHERE id = $1 AND tenant_id = $2`,
+      [propiedadId, tenantId]
+    );
+    preciosAnteriores = preciosResult.rows[0] || null;
+  }
+
+  // Obtener URLs actuales para redirigirlas si cambia el slug
+  let rutasAnteriores: Record<string, string> | null = null;
+  if (data.slug !== undefined || (data as any).slug_traducciones !== undefined) {
+    rutasAnteriores = await getRutasEntidad(tenantId, 'propiedad', propiedadId);
+  }
+
   // Si se actualiza captador_id, sincronizar agente_id y perfil_asesor_id
   if (data.captador_id !== undefined) {
     data.agente_id = data.captador_id; // Deprecado: mantener sincronizado
@@ -845,6 +876,24 @@ export async function updatePropiedad(
     console.error(`⚠️ Error sincronizando tags para propiedad ${propiedadId}:`, err);
   });
 
+  // Registrar cambios de precio en el historial
+  if (preciosAnteriores) {
+    try {
+      await registrarCambiosPrecio(tenantId, propiedadId, preciosAnteriores, row, usuarioId);
+    } catch (historialError) {
+      console.error('⚠️ Error registrando historial de precios:', historialError);
+    }
+  }
+
+  // Redirigir las URLs anteriores si cambió el slug
+  if (rutasAnteriores) {
+    try {
+      await registrarCambiosRuta(tenantId, 'propiedad', propiedadId, rutasAnteriores);
+    } catch (redireccionError) {
+      console.error('⚠️ Error registrando redirecciones de slug:', redireccionError);
+    }
+  }
+
   // Registrar eventos de tracking para cambios de publicación
   if (data.estado_propiedad !== undefined && estadoAnterior !== null) {
     try {
@@ -865,6 +914,8 @@ export async function updatePropiedad(
     }
   }
 
+  await invalidarCacheRender(tenantId, 'propiedad actualizada');
+
   return parsed;
 }
 
@@ -907,6 +958,10 @@ export async function deletePropiedad(
     }
   }
 
+  if (eliminada) {
+    await invalidarCacheRender(tenantId, 'propiedad eliminada');
+  }
+
   return eliminada;
 }
 
@@ -1004,6 +1059,7 @@ export async function getPropiedadesStats(
 /**
  * Regenera los slugs de una propiedad existente
  * ADVERTENCIA: Esto puede afectar el SEO si la propiedad ya está indexada
+ * (las URLs anteriores quedan redirigidas con 301)
  */
 export async function regeneratePropiedadSlugs(
   tenantId: string,
@@ -1052,6 +1108,9 @@ export async function regeneratePropiedadSlugs(
     console.error('Error regenerando traducciones:', error);
   }
 
+  // URLs actuales, para redirigirlas a las nuevas
+  const rutasAnteriores = await getRutasEntidad(tenantId, 'propiedad', propiedadId);
+
   // Actualizar en base de datos
   const sql = `
     UPDATE propiedades
@@ -1070,6 +1129,14 @@ export async function regeneratePropiedadSlugs(
 
   console.log('✅ Slugs regenerados:', { slug, slug_traducciones });
 
+  try {
+    await registrarCambiosRuta(tenantId, 'propiedad', propiedadId, rutasAnteriores);
+  } catch (redireccionError) {
+    console.error('⚠️ Error registrando redirecciones de slug:', redireccionError);
+  }
+
+  await invalidarCacheRender(tenantId, 'slugs de propiedad regenerados');
+
   return {
     success: true,
     slug,
@@ -0,0 +1,298 @@
+/**
+ * Servicio de vistas públicas de propuestas y planes de pago
+ *
+ * Expone al cliente final (sin autenticación, por token de URL pública):
+ * - La propuesta con sus propiedades y los datos de contacto del captador/asesor
+ * - El plan de pago con sus montos calculados
+ * - La respuesta del cliente (aceptar / rechazar con comentario)
+ *
+ * Cada apertura se registra de forma atómica y el asesor recibe una actividad
+ * cuando el cliente abre el enlace por primera vez o responde.
+ * Los enlaces expirados no muestran precios ni admiten respuestas.
+ */
+
+import { query } from '../utils/db.js';
+import {
+  Propuesta,
+  PropuestaPropiedadResumen,
+  registrarVistaPropuesta,
+  responderPropuestaPublica,
+  getPropiedadesDePropuesta,
+} from './propuestasService.js';
+import {
+  PlanPago,
+  registrarVistaPlanPago,
+  responderPlanPagoPublico,
+  calcularValoresPlan,
+} from './planesPagoService.js';
+import { createActividad } from './actividadesService.js';
+
+// ==================== TIPOS ====================
+
+export interface AsesorPublico {
+  id: string;
+  nombre: string;
+  apellido?: string;
+  email?: string;
+  telefono?: string;
+  avatar_url?: string;
+}
+
+export interface EmpresaPublica {
+  nombre: string;
+  logo_url?: string;
+  telefono_principal?: string;
+  whatsapp?: string;
+  email_principal?: string;
+  color_primario?: string;
+}
+
+export interface PropuestaPublica {
+  propuesta: Omit<Propuesta, 'notas_internas' | 'comision_porcentaje' | 'comision_monto'>;
+  propiedades: Array<Omit<PropuestaPropiedadResumen, 'comision' | 'comision_nota' | 'red_global_comision' | 'tenant_info_negocio'>>;
+  asesor: AsesorPublico | null;
+  empresa: EmpresaPublica | null;
+  puede_responder: boolean;
+  expirada: boolean;
+}
+
+export interface PlanPagoPublico {
+  plan: Omit<PlanPago, 'notas_internas'>;
+  asesor: AsesorPublico | null;
+  empresa: EmpresaPublica | null;
+  puede_responder: boolean;
+  expirado: boolean;
+}
+
+// ==================== HELPERS ====================
+
+/**
+ * Obtiene los datos públicos del usuario que creó la propuesta / plan
+ */
+async function getAsesorPublico(usuarioId?: string): Promise<AsesorPublico | null> {
+  if (!usuarioId) return null;
+
+  const result = await query(
+    `SELECT id, nombre, apellido, email, telefono, avatar_url FROM usuarios WHERE id = $1`,
+    [usuarioId]
+  );
+  return result.rows[0] || null;
+}
+
+/**
+ * Obtiene los datos de marca del tenant desde info_negocio
+ */
+async function getEmpresaPublica(tenantId: string): Promise<EmpresaPublica | null> {
+  const result = await query(`SELECT nombre, info_negocio FROM tenants WHERE id = $1`, [tenantId]);
+  if (result.rows.length === 0) return null;
+
+  const { nombre, info_negocio } = result.rows[0];
+  const info = typeof info_negocio === 'string' ? JSON.parse(info_negocio) : (info_negocio || {});
+
+  return {
+    nombre: info.nombre || nombre,
+    logo_url: info.logo_url || undefined,
+    telefono_principal: info.telefono_principal || undefined,
+    whatsapp: info.whatsapp || undefined,
+    email_principal: info.email_principal || undefined,
+    color_primario: info.color_primario || undefined,
+  };
+}
+
+/**
+ * Registra una actividad para el asesor dueño del documento.
+ * Un fallo aquí no debe impedir que el cliente vea su propuesta.
+ */
+async function registrarActividadCliente(
+  tenantId: string,
+  data: {
+    titulo: string;
+    descripcion?: string;
+    usuarioId?: string;
+    contactoId?: string;
+    solicitudId?: string;
+    propuestaId?: string;
+    prioridad?: 'normal' | 'alta';
+    metadata: Record<string, any>;
+  }
+): Promise<void> {
+  try {
+    await createActividad(tenantId, {
+      tipo: 'seguimiento',
+      titulo: data.titulo,
+      descripcion: data.descripcion,
+      usuario_id: data.usuarioId,
+      contacto_id: data.contactoId,
+      solicitud_id: data.solicitudId,
+      propuesta_id: data.propuestaId,
+      prioridad: data.prioridad || 'normal',
+      metadata: { origen: 'vista_publica', ...data.metadata },
+    });
+  } catch (error: any) {
+    console.error('⚠️ Error registrando actividad de vista pública:', error.message);
+  }
+}
+
+/**
+ * Un documento está expirado si el cron ya lo marcó o si su fecha ya pasó
+ * (entre ejecuciones del cron)
+ */
+function estaExpirado(estado: string, fechaExpiracion?: string): boolean {
+  if (estado === 'expirada' || estado === 'expirado') return true;
+  return !!fechaExpiracion && new Date(fechaExpiracion).getTime() <= Date.now();
+}
+
+function sanitizarPropuesta(propuesta: Propuesta): PropuestaPublica['propuesta'] {
+  const { notas_internas, comision_porcentaje, comision_monto, ...publica } = propuesta;
+  return publica;
+}
+
+function sanitizarPropiedad(propiedad: PropuestaPropiedadResumen): PropuestaPublica['propiedades'][number] {
+  const { comision, comision_nota, red_global_comision, tenant_info_negocio, ...publica } = propiedad;
+  return publica;
+}
+
+// ==================== PROPUESTAS ====================
+
+/**
+ * Obtiene la propuesta pública y registra la vista
+ */
+export async function getPropuestaPublica(urlPublica: string): Promise<PropuestaPublica | null> {
+  const resultado = await registrarVistaPropuesta(urlPublica);
+  if (!resultado) return null;
+
+  const { propuesta, primeraVista } = resultado;
+
+  if (estaExpirado(propuesta.estado, propuesta.fecha_expiracion)) {
+    const [asesor, empresa] = await Promise.all([
+      getAsesorPublico(propuesta.usuario_creador_id),
+      getEmpresaPublica(propuesta.tenant_id),
+    ]);
+    return {
+      propuesta: sanitizarPropuesta(propuesta),
+      propiedades: [],
+      asesor,
+      empresa,
+      puede_responder: false,
+      expirada: true,
+    };
+  }
+
+  const [propiedades, asesor, empresa] = await Promise.all([
+    getPropiedadesDePropuesta(propuesta.id),
+    getAsesorPublico(propuesta.usuario_creador_id),
+    getEmpresaPublica(propuesta.tenant_id),
+  ]);
+
+  if (primeraVista) {
+    await registrarActividadCliente(propuesta.tenant_id, {
+      titulo: `El cliente abrió la propuesta "${propuesta.titulo}"`,
+      usuarioId: propuesta.usuario_creador_id,
+      contactoId: propuesta.contacto_id,
+      solicitudId: propuesta.solicitud_id,
+      propuestaId: propuesta.id,
+      metadata: { evento: 'propuesta_vista' },
+    });
+  }
+
+  return {
+    propuesta: sanitizarPropuesta(propuesta),
+    propiedades: propiedades.map(sanitizarPropiedad),
+    asesor,
+    empresa,
+    puede_responder: propuesta.estado === 'enviada' || propuesta.estado === 'vista',
+    expirada: false,
+  };
+}
+
+/**
+ * Registra la respuesta del cliente a una propuesta
+ */
+export async function responderPropuesta(
+  urlPublica: string,
+  respuesta: 'aceptada' | 'rechazada',
+  comentario?: string
+): Promise<Propuesta | null> {
+  const propuesta = await responderPropuestaPublica(urlPublica, respuesta, comentario);
+  if (!propuesta) return null;
+
+  await registrarActividadCliente(propuesta.tenant_id, {
+    titulo: `El cliente ${respuesta === 'aceptada' ? 'aceptó' : 'rechazó'} la propuesta "${propuesta.titulo}"`,
+    descripcion: comentario,
+    usuarioId: propuesta.usuario_creador_id,
+    contactoId: propuesta.contacto_id,
+    solicitudId: propuesta.solicitud_id,
+    propuestaId: propuesta.id,
+    prioridad: 'alta',
+    metadata: { evento: `propuesta_${respuesta}` },
+  });
+
+  return propuesta;
+}
+
+// ==================== PLANES DE PAGO ====================
+
+/**
+ * Obtiene el plan de pago público con sus montos calculados y registra la vista
+ */
+export async function getPlanPagoPublico(urlPublica: string): Promise<PlanPagoPublico | null> {
+  const resultado = await registrarVistaPlanPago(urlPublica);
+  if (!resultado) return null;
+
+  const { plan, primeraVista } = resultado;
+
+  const [asesor, empresa] = await Promise.all([
+    getAsesorPublico(plan.usuario_creador_id),
+    getEmpresaPublica(plan.tenant_id),
+  ]);
+
+  const expirado = estaExpirado(plan.estado, plan.fecha_expiracion);
+
+  if (primeraVista && !expirado) {
+    await registrarActividadCliente(plan.tenant_id, {
+      titulo: `El cliente abrió el plan de pago "${plan.titulo}"`,
+      usuarioId: plan.usuario_creador_id,
+      contactoId: plan.contacto_id,
+      solicitudId: plan.solicitud_id,
+      metadata: { evento: 'plan_pago_visto', plan_pago_id: plan.id },
+    });
+  }
+
+  const { notas_internas, ...planPublico } = plan;
+  planPublico.plan_detalle = {
+    ...plan.plan_detalle,
+    valores_calculados: calcularValoresPlan(plan.precio_total, plan.plan_detalle),
+  };
+
+  return {
+    plan: planPublico,
+    asesor,
+    empresa,
+    puede_responder: !expirado && (plan.estado === 'enviado' || plan.estado === 'visto'),
+    expirado,
+  };
+}
+
+/**
+ * Registra la respuesta del cliente a un plan de pago
+ */
+export async function responderPlanPago(
+  urlPublica: string,
+  respuesta: 'aceptado' | 'rechazado',
+  comentario?: string
+): Promise<PlanPago | null> {
+  const plan = await responderPlanPagoPublico(urlPublica, respuesta, comentario);
+  if (!plan) return null;
+
+  await registrarActividadCliente(plan.tenant_id, {
+    titulo: `El cliente ${respuesta === 'aceptado' ? 'aceptó' : 'rechazó'} el plan de pago "${plan.titulo}"`,
+    descripcion: comentario,
+    usuarioId: plan.usuario_creador_id,
+    contactoId: plan.contacto_id,
+    solicitudId: plan.solicitud_id,
+    prioridad: 'alta',
+    metadata: { evento: `plan_pago_${respuesta}`, plan_pago_id: plan.id },
+  });
+
+  return plan;
+}
@@ -306,7 +306,38 @@ export async function getPropuestaById(
 export async function getPropuestaByUrl(
   urlPublica: string
 ): Promise<Propuesta | null> {
+  const resultado = await registrarVistaPropuesta(urlPublica);
+  return resultado ? resultado.propuesta : null;
+}
+
+/**
+ * Registra una vista de la propuesta pública de forma atómica.
+ * Incrementa veces_vista, fija fecha_vista la primera vez y mueve 'enviada' → 'vista'.
+ * Las propuestas en borrador o expiradas se devuelven sin contar la vista.
+ * Retorna también si fue la primera vez que el cliente la abrió.
+ */
+export async function registrarVistaPropuesta(
+  urlPublica: string
+): Promise<{ propuesta: Propuesta; primeraVista: boolean } | null> {
   const sql = `
+    WITH previa AS (
+      SELECT id, estado, veces_vista
+      FROM propuestas
+      WHERE url_publica = $1 AND activo = true
+      FOR UPDATE
+    ),
+    actualizada AS (
+      UPDATE propuestas p
+      SET veces_vista = p.veces_vista + 1,
+          fecha_vista = COALESCE(p.fecha_vista, NOW()),
+          estado = CASE WHEN p.estado = 'enviada' THEN 'vista' ELSE p.estado END,
+          updated_at = NOW()
+      FROM previa
+      WHERE p.id = previa.id
+        AND previa.estado NOT IN ('borrador', 'expirada')
+        AND (p.fecha_expiracion IS NULL OR p.fecha_expiracion > NOW())
+      RETURNING p.id
+    )
     SELECT
       p.id, p.tenant_id, p.titulo, p.descripcion, p.estado,
       p.solicitud_id, p.contacto_id, p.propiedad_id, p.usuario_creador_id,
@@ -316,10 +347,13 @@ export async function getPropuestaByUrl(
       p.veces_vista, p.datos_extra,
       p.activo, p.created_at, p.updated_at,
       c.nombre as contacto_nombre, c.apellido as contacto_apellido,
-      c.email as contacto_email
-    FROM propuestas p
+      c.email as contacto_email,
+      previa.estado as estado_anterior,
+      previa.veces_vista as veces_vista_anterior,
+      (SELECT COUNT(*) FROM actualizada) > 0 as vista_registrada
+    FROM previa
+    JOIN propuestas p ON p.id = previa.id
     LEFT JOIN contactos c ON p.contacto_id = c.id
-    WHERE p.url_publica = $1 AND p.activo = true
   `;
 
   const result = await query(sql, [urlPublica]);
@@ -328,20 +362,50 @@ export async function getPropuestaByUrl(
     return null;
   }
 
-  // Actualizar contador de vistas si no está en estado borrador
-  const propuesta = result.rows[0];
-  if (propuesta.estado !== 'borrador') {
-    await query(`
-      UPDATE propuestas
-      SET veces_vista = veces_vista + 1,
-          fecha_vista = COALESCE(fecha_vista, NOW()),
-          estado = CASE WHEN estado = 'enviada' THEN 'vista' ELSE estado END,
-          updated_at = NOW()
-      WHERE id = $1
-    `, [propuesta.id]);
+  // El SELECT ve el snapshot previo al UPDATE del CTE: ajustar los valores devueltos
+  const row = result.rows[0];
+  if (row.vista_registrada) {
+    row.veces_vista = (row.veces_vista || 0) + 1;
+    row.fecha_vista = row.fecha_vista || new Date().toISOString();
+    if (row.estado === 'enviada') row.estado = 'vista';
+  }
+
+  return {
+    propuesta: formatPropuesta(row),
+    primeraVista: row.vista_registrada && (row.veces_vista_anterior || 0) === 0,
+  };
+}
+
+/**
+ * Registra la respuesta del cliente desde la vista pública.
+ * Solo se puede responder una propuesta en estado 'enviada' o 'vista'.
+ * El comentario del cliente se guarda en datos_extra.respuesta_cliente.
+ */
+export async function responderPropuestaPublica(
+  urlPublica: string,
+  respuesta: 'aceptada' | 'rechazada',
+  comentario?: string
+): Promise<Propuesta | null> {
+  const sql = `
+    UPDATE propuestas
+    SET estado = $2,
+        fecha_respuesta = NOW(),
+        datos_extra = COALESCE(datos_extra, '{}'::jsonb) || jsonb_build_object(
+          'respuesta_cliente', jsonb_build_object('respuesta', $2::text, 'comentario', $3::text, 'fecha', NOW())
+        ),
+        updated_at = NOW()
+    WHERE url_publica = $1 AND activo = true AND estado IN ('enviada', 'vista')
+      AND (fecha_expiracion IS NULL OR fecha_expiracion > NOW())
+    RETURNING *
+  `;
+
+  const result = await query(sql, [urlPublica, respuesta, comentario || null]);
+
+  if (result.rows.length === 0) {
+    return null;
   }
 
-  return formatPropuesta(propuesta);
+  return formatPropuesta(result.rows[0]);
 }
 
 /**
@@ -419,21 +483,34 @@ export async function updatePropuesta(
     'condiciones', 'notas_internas', 'fecha_expiracion', 'activo'
   ];
 
+  let fechaExpiracionParam: number | null = null;
   for (const campo of camposActualizables) {
     if (data[campo as keyof Propuesta] !== undefined) {
       updates.push(`${campo} = $${paramIndex}`);
       params.push(data[campo as keyof Propuesta]);
+      if (campo === 'fecha_expiracion') fechaExpiracionParam = paramIndex;
       paramIndex++;
     }
   }
 
   // Campos JSON
+  let datosExtraExpr: string | null = null;
   if (data.datos_extra !== undefined) {
-    updates.push(`datos_extra = $${paramIndex}`);
+    datosExtraExpr = `$${paramIndex}::jsonb`;
     params.push(JSON.stringify(data.datos_extra));
     paramIndex++;
   }
 
+  // Si cambia la fecha de expiración, el aviso previo del cron debe volver a enviarse
+  if (fechaExpiracionParam !== null) {
+    const base = datosExtraExpr || `COALESCE(datos_extra, '{}'::jsonb)`;
+    datosExtraExpr = `CASE WHEN fecha_expiracion IS DISTINCT FROM $${fechaExpiracionParam}::timestamptz
+      THEN ${base} - 'aviso_expiracion_enviado' ELSE ${base} END`;
+  }
+  if (datosExtraExpr) {
+    updates.push(`datos_extra = ${datosExtraExpr}`);
+  }
+
   updates.push(`updated_at = NOW()`);
 
   if (updates.length === 1 && !data.propiedad_ids) {
@@ -136,6 +136,39 @@ export async function uploadImage(
   }
 }
 
+/**
+ * URL pública de una clave en R2
+ */
+export function getPublicUrl(key: string): string {
+  return R2_PUBLIC_URL
+    ? `${R2_PUBLIC_URL}/${key}`
+    : `https://${R2_BUCKET_NAME}.r2.cloudflarestorage.com/${key}`;
+}
+
+/**
+ * Sube un buffer ya procesado a una clave fija (renditions de imágenes, manifiestos)
+ */
+export async function uploadBuffer(buffer: Buffer, key: string, contentType: string): Promise<string> {
+  if (!R2_ACCOUNT_ID || !R2_ACCESS_KEY_ID || !R2_SECRET_ACCESS_KEY || !R2_BUCKET_NAME) {
+    throw new Error('Configuración de R2 incompleta. Verifica las variables de entorno.');
+  }
+
+  try {
+    await s3Client.send(new PutObjectCommand({
+      Bucket: R2_BUCKET_NAME,
+      Key: key,
+      Body: buffer,
+      ContentType: contentType,
+      CacheControl: 'public, max-age=31536000, immutable',
+    }));
+
+    return getPublicUrl(key);
+  } catch (error: any) {
+    console.error('Error al subir archivo a R2:', error);
+    throw new Error(`Error al subir archivo: ${error.message}`);
+  }
+}
+
 /**
  * Verifica si un archivo ya existe en R2 (para evitar duplicados)
  */
@@ -0,0 +1,487 @@
+/**
+ * Servicio de redirecciones del sitio web
+ *
+ * - Automáticas: al cambiar el slug (o la categoría) de una propiedad, artículo, video,
+ *   testimonio o asesor se redirige cada URL anterior a la nueva, por idioma
+ * - Manuales: exactas o con comodín ("/blog/*" → "/articulos/*"), gestionadas desde el CRM
+ * - Las cadenas se colapsan al guardar (A→B + B→C = A→C) para que cada URL vieja
+ *   llegue en un solo salto; la URL que vuelve a estar en uso deja de redirigirse
+ *
+ * routeResolver consulta buscarRedireccion() antes de resolver la página.
+ */
+
+import { query } from '../utils/db.js';
+import { getRutasEntidad, getRutasCategoria, TipoEntidadWeb } from './sitemapService.js';
+import { invalidarCacheRender } from './renderCacheService.js';
+
+// ==================== TIPOS ====================
+
+export const CODIGOS_REDIRECCION = [301, 302] as const;
+export type CodigoRedireccion = typeof CODIGOS_REDIRECCION[number];
+
+export type TipoEntidadRedireccion = TipoEntidadWeb | 'categoria';
+
+export interface Redireccion {
+  id: string;
+  tenant_id: string;
+  origen: string;
+  destino: string;
+  codigo_estado: CodigoRedireccion;
+  es_comodin: boolean;
+  automatica: boolean;
+  tipo_entidad: TipoEntidadRedireccion | null;
+  entidad_id: string | null;
+  idioma: string | null;
+  notas: string | null;
+  activo: boolean;
+  hits: number;
+  ultimo_hit_at: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface RedireccionData {
+  origen: string;
+  destino: string;
+  codigo_estado?: CodigoRedireccion;
+  notas?: string | null;
+  activo?: boolean;
+}
+
+export interface RedireccionesFiltros {
+  busqueda?: string;
+  automatica?: boolean;
+  tipo_entidad?: string;
+  page?: number;
+  limit?: number;
+}
+
+export interface RedireccionResuelta {
+  destino: string;
+  codigo_estado: CodigoRedireccion;
+}
+
+// Saltos máximos al seguir una cadena (protege contra ciclos)
+const MAX_SALTOS_CADENA = 10;
+
+// ==================== HELPERS ====================
+
+/**
+ * Normaliza un path de origen: sin query string, con "/" inicial, sin barras dobles ni final.
+ * Conserva el "/*" final de los comodines.
+ */
+export function normalizarRutaRedireccion(ruta: string): string {
+  let normalizada = (ruta || '/').trim().split('?')[0].split('#')[0];
+  if (!normalizada.startsWith('/')) normalizada = '/' + normalizada;
+  normalizada = normalizada.replace(/\/+/g, '/');
+  if (normalizada.length > 1 && normalizada.endsWith('/')) {
+    normalizada = normalizada.slice(0, -1);
+  }
+  return normalizada.toLowerCase();
+}
+
+/**
+ * El destino puede ser un path del sitio o una URL absoluta (otro dominio)
+ */
+function normalizarDestino(destino: string): string {
+  const limpio = destino.trim();
+  if (/^https?:\/\//i.test(limpio)) return limpio;
+  return normalizarRutaRedireccion(limpio);
+}
+
+function esComodin(origen: string): boolean {
+  return origen.endsWith('/*');
+}
+
+/**
+ * Valida los datos de una redirección manual. Retorna el mensaje de error o null.
+ */
+export function validarRedireccion(data: Partial<RedireccionData>): string | null {
+  if (data.origen !== undefined) {
+    if (typeof data.origen !== 'string' || !data.origen.trim().startsWith('/')) {
+      return 'El origen debe ser un path que empiece con /';
+    }
+    if (data.origen.includes('*') && !esComodin(normalizarRutaRedireccion(data.origen))) {
+      return 'El comodín solo se admite al final del origen (ej: /blog/*)';
+    }
+  }
+
+  if (data.destino !== undefined) {
+    if (typeof data.destino !== 'string' || !data.destino.trim()) {
+      return 'El destino es requerido';
+    }
+    const destino = data.destino.trim();
+    if (!destino.startsWith('/') && !/^https?:\/\//i.test(destino)) {
+      return 'El destino debe ser un path que empiece con / o una URL http(s)';
+    }
+  }
+
+  if (data.codigo_estado !== undefined && !CODIGOS_REDIRECCION.includes(data.codigo_estado)) {
+    return `El código debe ser uno de: ${CODIGOS_REDIRECCION.join(', ')}`;
+  }
+
+  if (data.origen !== undefined && data.destino !== undefined &&
+      normalizarRutaRedireccion(data.origen) === normalizarDestino(data.destino)) {
+    return 'El origen y el destino no pueden ser iguales';
+  }
+
+  return null;
+}
+
+/**
+ * Guarda origen → destino colapsando cadenas:
+ * - lo que redirigía al origen pasa a redirigir al destino
+ * - si el destino tenía una redirección exacta propia, se elimina (vuelve a estar en uso)
+ */
+async function guardarRedireccion(
+  tenantId: string,
+  datos: {
+    origen: string;
+    destino: string;
+    codigo_estado: CodigoRedireccion;
+    automatica: boolean;
+    tipo_entidad?: TipoEntidadRedireccion | null;
+    entidad_id?: string | null;
+    idioma?: string | null;
+    notas?: string | null;
+    activo?: boolean;
+    created_by?: string | null;
+  }
+): Promise<Redireccion> {
+  const origen = normalizarRutaRedireccion(datos.origen);
+  const destino = normalizarDestino(datos.destino);
+
+  await query(
+    `DELETE FROM redirecciones WHERE tenant_id = $1 AND origen = $2`,
+    [tenantId, destino]
+  );
+
+  await query(
+    `UPDATE redirecciones SET destino = $3, updated_at = NOW()
+     WHERE tenant_id = $1 AND destino = $2 AND origen <> $3`,
+    [tenantId, origen, destino]
+  );
+
+  const result = await query(
+    `INSERT INTO redirecciones (
+      tenant_id, origen, destino, codigo_estado, es_comodin, automatica,
+      tipo_entidad, entidad_id, idioma, notas, activo, created_by
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+    ON CONFLICT (tenant_id, origen) DO UPDATE SET
+      destino = EXCLUDED.destino,
+      codigo_estado = EXCLUDED.codigo_estado,
+      es_comodin = EXCLUDED.es_comodin,
+      automatica = EXCLUDED.automatica,
+      tipo_entidad = EXCLUDED.tipo_entidad,
+      entidad_id = EXCLUDED.entidad_id,
+      idioma = EXCLUDED.idioma,
+      notas = COALESCE(EXCLUDED.notas, redirecciones.notas),
+      activo = EXCLUDED.activo,
+      updated_at = NOW()
+    RETURNING *`,
+    [
+      tenantId,
+      origen,
+      destino,
+      datos.codigo_estado,
+      esComodin(origen),
+      datos.automatica,
+      datos.tipo_entidad || null,
+      datos.entidad_id || null,
+      datos.idioma || null,
+      datos.notas || null,
+      datos.activo !== false,
+      datos.created_by || null,
+    ]
+  );
+
+  // Las páginas cacheadas del origen (y de los orígenes reapuntados) dejan de ser válidas
+  await invalidarCacheRender(tenantId, 'redirección guardada');
+
+  return result.rows[0];
+}
+
+// ==================== REDIRECCIONES AUTOMÁTICAS ====================
+
+/**
+ * Compara las rutas públicas de una entidad antes y después de editarla y crea
+ * una redirección 301 por cada idioma cuya URL cambió.
+ * Uso: `const rutas = await getRutasEntidad(...)` antes del UPDATE y esta función después.
+ */
+export async function registrarCambiosRuta(
+  tenantId: string,
+  tipo: TipoEntidadWeb,
+  entidadId: string,
+  rutasAnteriores: Record<string, string>
+): Promise<number> {
+  if (Object.keys(rutasAnteriores).length === 0) return 0;
+
+  const rutasNuevas = await getRutasEntidad(tenantId, tipo, entidadId);
+  let creadas = 0;
+
+  for (const [idioma, origen] of Object.entries(rutasAnteriores)) {
+    const destino = rutasNuevas[idioma];
+    if (!destino || destino === origen) continue;
+
+    await guardarRedireccion(tenantId, {
+      origen,
+      destino,
+      codigo_estado: 301,
+      automatica: true,
+      tipo_entidad: tipo,
+      entidad_id: entidadId,
+      idioma,
+    });
+    creadas++;
+  }
+
+  if (creadas > 0) {
+    console.log(`↪️ ${creadas} redirección(es) creada(s) por cambio de URL de ${tipo} ${entidadId}`);
+  }
+  return creadas;
+}
+
+/**
+ * Igual que registrarCambiosRuta para una categoría de contenido: además de la página
+ * de la categoría, redirige con comodín todos los singles que cuelgan de ella.
+ */
+export async function registrarCambiosRutaCategoria(
+  tenantId: string,
+  categoriaId: string,
+  rutasAnteriores: Record<string, string>
+): Promise<number> {
+  if (Object.keys(rutasAnteriores).length === 0) return 0;
+
+  const rutasNuevas = await getRutasCategoria(tenantId, categoriaId);
+  let creadas = 0;
+
+  for (const [idioma, origen] of Object.entries(rutasAnteriores)) {
+    const destino = rutasNuevas[idioma];
+    if (!destino || destino === origen) continue;
+
+    for (const [desde, hacia] of [[origen, destino], [`${origen}/*`, `${destino}/*`]]) {
+      await guardarRedireccion(tenantId, {
+        origen: desde,
+        destino: hacia,
+        codigo_estado: 301,
+        automatica: true,
+        tipo_entidad: 'categoria',
+        entidad_id: categoriaId,
+        idioma,
+      });
+    }
+    creadas++;
+  }
+
+  if (creadas > 0) {
+    console.log(`↪️ Categoría ${categoriaId}: redirecciones creadas en ${creadas} idioma(s)`);
+  }
+  return creadas;
+}
+
+// ==================== RESOLUCIÓN ====================
+
+/**
+ * Busca la redirección de un path del sitio: primero exacta, luego el comodín
+ * de prefijo más largo. Registra el hit sin bloquear la respuesta.
+ */
+export async function buscarRedireccion(tenantId: string, pathname: string): Promise<RedireccionResuelta | null> {
+  const ruta = normalizarRutaRedireccion(pathname);
+
+  const exacta = await query(
+    `SELECT id, destino, codigo_estado FROM redirecciones
+     WHERE tenant_id = $1 AND origen = $2 AND es_comodin = false AND activo = true`,
+    [tenantId, ruta]
+  );
+
+  let encontrada: { id: string; destino: string; codigo_estado: CodigoRedireccion } | null = exacta.rows[0] || null;
+
+  if (!encontrada) {
+    // "/blog/*" coincide con "/blog/x/y" (y con "/blog")
+    const comodines = await query(
+      `SELECT id, origen, destino, codigo_estado FROM redirecciones
+       WHERE tenant_id = $1 AND es_comodin = true AND activo = true
+         AND starts_with($2 || '/', LEFT(origen, -1))
+       ORDER BY LENGTH(origen) DESC
+       LIMIT 1`,
+      [tenantId, ruta]
+    );
+
+    const comodin = comodines.rows[0];
+    if (comodin) {
+      const prefijo = comodin.origen.slice(0, -2);
+      const resto = ruta.slice(prefijo.length).replace(/^\//, '');
+      const destino = comodin.destino.includes('*')
+        ? comodin.destino.replace('*', resto).replace(/\/+$/, '') || '/'
+        : comodin.destino;
+      encontrada = { id: comodin.id, destino, codigo_estado: comodin.codigo_estado };
+    }
+  }
+
+  if (!encontrada || encontrada.destino === ruta) return null;
+
+  query(
+    `UPDATE redirecciones SET hits = hits + 1, ultimo_hit_at = NOW() WHERE id = $1`,
+    [encontrada.id]
+  ).catch(err => console.error('⚠️ Error registrando hit de redirección:', err));
+
+  return { destino: encontrada.destino, codigo_estado: encontrada.codigo_estado };
+}
+
+// ==================== CRUD ====================
+
+export async function getRedirecciones(
+  tenantId: string,
+  filtros: RedireccionesFiltros = {}
+): Promise<{ data: Redireccion[]; total: number; page: number; limit: number }> {
+  const page = filtros.page || 1;
+  const limit = Math.min(filtros.limit || 50, 200);
+  const conditions: string[] = ['tenant_id = $1'];
+  const params: any[] = [tenantId];
+
+  if (filtros.busqueda) {
+    params.push(`%${filtros.busqueda.toLowerCase()}%`);
+    conditions.push(`(origen LIKE $${params.length} OR LOWER(destino) LIKE $${params.length})`);
+  }
+
+  if (filtros.automatica !== undefined) {
+    params.push(filtros.automatica);
+    conditions.push(`automatica = $${params.length}`);
+  }
+
+  if (filtros.tipo_entidad) {
+    params.push(filtros.tipo_entidad);
+    conditions.push(`tipo_entidad = $${params.length}`);
+  }
+
+  const where = conditions.join(' AND ');
+  const countResult = await query(`SELECT COUNT(*)::int as total FROM redirecciones WHERE ${where}`, params);
+
+  params.push(limit, (page - 1) * limit);
+  const result = await query(
+    `SELECT * FROM redirecciones WHERE ${where}
+     ORDER BY created_at DESC
+     LIMIT $${params.length - 1} OFFSET $${params.length}`,
+    params
+  );
+
+  return { data: result.rows, total: countResult.rows[0].total, page, limit };
+}
+
+export async function getRedireccionById(tenantId: string, redireccionId: string): Promise<Redireccion | null> {
+  const result = await query(
+    `SELECT * FROM redirecciones WHERE id = $1 AND tenant_id = $2`,
+    [redireccionId, tenantId]
+  );
+  return result.rows[0] || null;
+}
+
+export async function crearRedireccion(
+  tenantId: string,
+  data: RedireccionData,
+  usuarioId?: string
+): Promise<Redireccion> {
+  return guardarRedireccion(tenantId, {
+    origen: data.origen,
+    destino: data.destino,
+    codigo_estado: data.codigo_estado || 301,
+    automatica: false,
+    notas: data.notas,
+    activo: data.activo,
+    created_by: usuarioId,
+  });
+}
+
+/**
+ * Actualiza una redirección. Al editarla a mano deja de ser automática.
+ */
+export async function updateRedireccion(
+  tenantId: string,
+  redireccionId: string,
+  data: Partial<RedireccionData>
+): Promise<Redireccion | null> {
+  const actual = await getRedireccionById(tenantId, redireccionId);
+  if (!actual) return null;
+
+  const origen = data.origen !== undefined ? normalizarRutaRedireccion(data.origen) : actual.origen;
+  if (origen !== actual.origen) {
+    await query(`DELETE FROM redirecciones WHERE id = $1`, [redireccionId]);
+  }
+
+  return guardarRedireccion(tenantId, {
+    origen,
+    destino: data.destino ?? actual.destino,
+    codigo_estado: data.codigo_estado ?? actual.codigo_estado,
+    automatica: false,
+    tipo_entidad: actual.tipo_entidad,
+    entidad_id: actual.entidad_id,
+    idioma: actual.idioma,
+    notas: data.notas !== undefined ? data.notas : actual.notas,
+    activo: data.activo ?? actual.activo,
+    created_by: actual.created_by,
+  });
+}
+
+export async function deleteRedireccion(tenantId: string, redireccionId: string): Promise<boolean> {
+  const result = await query(
+    `DELETE FROM redirecciones WHERE id = $1 AND tenant_id = $2`,
+    [redireccionId, tenantId]
+  );
+  const eliminada = (result.rowCount ?? 0) > 0;
+  if (eliminada) {
+    await invalidarCacheRender(tenantId, 'redirección eliminada');
+  }
+  return eliminada;
+}
+
+/**
+ * Colapsa las cadenas existentes (A→B→C pasa a A→C) y desactiva las que forman ciclos.
+ * Las redirecciones nuevas ya se guardan colapsadas; esto repara las importadas
+ * o creadas antes de que existiera el destino final.
+ */
+export async function colapsarCadenas(tenantId: string): Promise<{ actualizadas: number; ciclos: string[] }> {
+  const result = await query(
+    `SELECT id, origen, destino FROM redirecciones
+     WHERE tenant_id = $1 AND activo = true AND es_comodin = false`,
+    [tenantId]
+  );
+
+  const destinos = new Map<string, string>(result.rows.map((r: any) => [r.origen, r.destino]));
+  let actualizadas = 0;
+  const ciclos: string[] = [];
+
+  for (const row of result.rows) {
+    let destino = row.destino;
+    const visitados = new Set<string>([row.origen]);
+    let ciclo = false;
+
+    for (let salto = 0; salto < MAX_SALTOS_CADENA && destinos.has(destino); salto++) {
+      if (visitados.has(destino)) {
+        ciclo = true;
+        break;
+      }
+      visitados.add(destino);
+      destino = destinos.get(destino)!;
+    }
+
+    if (ciclo) {
+      await query(`UPDATE redirecciones SET activo = false, updated_at = NOW() WHERE id = $1`, [row.id]);
+      destinos.delete(row.origen);
+      ciclos.push(row.origen);
+      continue;
+    }
+
+    if (destino !== row.destino) {
+      await query(`UPDATE redirecciones SET destino = $2, updated_at = NOW() WHERE id = $1`, [row.id, destino]);
+      destinos.set(row.origen, destino);
+      actualizadas++;
+    }
+  }
+
+  if (actualizadas > 0 || ciclos.length > 0) {
+    await invalidarCacheRender(tenantId, 'cadenas de redirecciones colapsadas');
+  }
+
+  return { actualizadas, ciclos };
+}
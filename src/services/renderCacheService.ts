@@ -0,0 +1,243 @@
+/**
+ * Cache de render de páginas del sitio web (resolveRoute)
+ *
+ * Guarda la respuesta completa de resolveRoute por tenant + idioma + path para no
+ * repetir en cada visita las consultas de rutas, tags, propiedades, componentes y tema.
+ *
+ * - Adaptador por defecto: LRU en memoria del proceso (por instancia)
+ * - Adaptador opcional: cualquier cliente compatible con Redis (compartido entre instancias)
+ * - Invalidación: los servicios que modifican contenido publicado llaman a
+ *   invalidarCacheRender(tenantId, motivo), que purga solo las páginas de ese tenant
+ *
+ * Configuración por entorno:
+ * - RENDER_CACHE_TTL_SEGUNDOS (default 300; 0 desactiva la cache)
+ * - RENDER_CACHE_MAX_ENTRADAS (default 1000, solo LRU en memoria)
+ */
+
+// ==================== TIPOS ====================
+
+export interface AdaptadorCacheRender {
+  nombre: string;
+  get(clave: string): Promise<string | null>;
+  set(clave: string, valor: string, ttlMs: number): Promise<void>;
+  delete(clave: string): Promise<boolean>;
+  deletePorPrefijo(prefijo: string): Promise<number>;
+  contar(): Promise<number | null>;
+}
+
+/**
+ * Subconjunto de la API de Redis que usa el adaptador (ioredis y compatibles)
+ */
+export interface ClienteRedisCompatible {
+  get(clave: string): Promise<string | null>;
+  set(clave: string, valor: string, modo: 'PX', ttlMs: number): Promise<unknown>;
+  del(...claves: string[]): Promise<number>;
+  scan(cursor: string, match: 'MATCH', patron: string, count: 'COUNT', cantidad: number): Promise<[string, string[]]>;
+}
+
+export interface EstadisticasCacheRender {
+  adaptador: string;
+  activa: boolean;
+  ttl_segundos: number;
+  entradas: number | null;
+  hits: number;
+  misses: number;
+  invalidaciones: number;
+}
+
+const TTL_SEGUNDOS = parseInt(process.env.RENDER_CACHE_TTL_SEGUNDOS || '300', 10);
+const MAX_ENTRADAS = parseInt(process.env.RENDER_CACHE_MAX_ENTRADAS || '1000', 10);
+
+// ==================== ADAPTADORES ====================
+
+/**
+ * LRU en memoria: Map conserva el orden de inserción, así que la primera clave
+ * es la menos usada (cada lectura la vuelve a insertar al final)
+ */
+export function crearCacheMemoriaLRU(maxEntradas: number = MAX_ENTRADAS): AdaptadorCacheRender {
+  const entradas = new Map<string, { valor: string; expiraAt: number }>();
+
+  return {
+    nombre: 'memoria',
+
+    async get(clave) {
+      const entrada = entradas.get(clave);
+      if (!entrada) return null;
+      entradas.delete(clave);
+      if (entrada.expiraAt <= Date.now()) return null;
+      entradas.set(clave, entrada);
+      return entrada.valor;
+    },
+
+    async set(clave, valor, ttlMs) {
+      entradas.delete(clave);
+      entradas.set(clave, { valor, expiraAt: Date.now() + ttlMs });
+      while (entradas.size > maxEntradas) {
+        const masAntigua = entradas.keys().next().value;
+        if (masAntigua === undefined) break;
+        entradas.delete(masAntigua);
+      }
+    },
+
+    async delete(clave) {
+      return entradas.delete(clave);
+    },
+
+    async deletePorPrefijo(prefijo) {
+      let eliminadas = 0;
+      for (const clave of [...entradas.keys()]) {
+        if (clave.startsWith(prefijo)) {
+          entradas.delete(clave);
+          eliminadas++;
+        }
+      }
+      return eliminadas;
+    },
+
+    async contar() {
+      return entradas.size;
+    },
+  };
+}
+
+/**
+ * Adaptador sobre un cliente Redis ya conectado. Las claves llevan `espacio` como prefijo.
+ */
+export function crearAdaptadorRedis(cliente: ClienteRedisCompatible, espacio = 'render:'): AdaptadorCacheRender {
+  return {
+    nombre: 'redis',
+
+    async get(clave) {
+      return cliente.get(`${espacio}${clave}`);
+    },
+
+    async set(clave, valor, ttlMs) {
+      await cliente.set(`${espacio}${clave}`, valor, 'PX', ttlMs);
+    },
+
+    async delete(clave) {
+      return (await cliente.del(`${espacio}${clave}`)) > 0;
+    },
+
+    // SCAN por lotes en vez de KEYS: KEYS recorre todo el keyspace y bloquea Redis mientras tanto
+    async deletePorPrefijo(prefijo) {
+      let cursor = '0';
+      let eliminadas = 0;
+      do {
+        const [siguiente, claves] = await cliente.scan(cursor, 'MATCH', `${espacio}${prefijo}*`, 'COUNT', 500);
+        if (claves.length > 0) eliminadas += await cliente.del(...claves);
+        cursor = siguiente;
+      } while (cursor !== '0');
+      return eliminadas;
+    },
+
+    async contar() {
+      return null;
+    },
+  };
+}
+
+// ==================== ESTADO ====================
+
+let adaptador: AdaptadorCacheRender = crearCacheMemoriaLRU();
+const contadores = { hits: 0, misses: 0, invalidaciones: 0 };
+
+/**
+ * Reemplaza el adaptador (ej: al arrancar con un cliente Redis)
+ */
+export function configurarAdaptadorCacheRender(nuevo: AdaptadorCacheRender): void {
+  adaptador = nuevo;
+  console.log(`🗄️ Cache de render usando adaptador: ${nuevo.nombre}`);
+}
+
+function cacheActiva(): boolean {
+  return TTL_SEGUNDOS > 0;
+}
+
+function claveCache(tenantId: string, idioma: string, ruta: string): string {
+  return `${tenantId}:${idioma}:${ruta}`;
+}
+
+// ==================== API ====================
+
+/**
+ * Página cacheada o null. Un error del adaptador se trata como miss.
+ */
+export async function getPaginaCacheada(tenantId: string, idioma: string, ruta: string): Promise<any | null> {
+  if (!cacheActiva()) return null;
+
+  try {
+    const valor = await adaptador.get(claveCache(tenantId, idioma, ruta));
+    if (valor === null) {
+      contadores.misses++;
+      return null;
+    }
+    contadores.hits++;
+    return JSON.parse(valor);
+  } catch (error) {
+    console.error('⚠️ Error leyendo cache de render:', error);
+    return null;
+  }
+}
+
+export async function guardarPaginaCacheada(tenantId: string, idioma: string, ruta: string, pagina: any): Promise<void> {
+  if (!cacheActiva() || !pagina) return;
+
+  try {
+    await adaptador.set(claveCache(tenantId, idioma, ruta), JSON.stringify(pagina), TTL_SEGUNDOS * 1000);
+  } catch (error) {
+    console.error('⚠️ Error guardando cache de render:', error);
+  }
+}
+
+/**
+ * Purga las páginas cacheadas de un tenant, o solo una ruta si se indica.
+ * Nunca lanza: una cache que no se puede purgar no debe hacer fallar la edición.
+ */
+export async function invalidarCacheRender(
+  tenantId: string,
+  motivo: string,
+  ruta?: { idioma: string; path: string }
+): Promise<number> {
+  if (!cacheActiva()) return 0;
+
+  try {
+    const eliminadas = ruta
+      ? (await adaptador.delete(claveCache(tenantId, ruta.idioma, ruta.path)) ? 1 : 0)
+      : await adaptador.deletePorPrefijo(`${tenantId}:`);
+    contadores.invalidaciones++;
+    if (eliminadas > 0) {
+      console.log(`🗄️ Cache de render invalidada (${motivo}): ${eliminadas} páginas del tenant ${tenantId}`);
+    }
+    return eliminadas;
+  } catch (error) {
+    console.error(`⚠️ Error invalidando cache de render (${motivo}):`, error);
+    return 0;
+  }
+}
+
+export async function getEstadisticasCacheRender(): Promise<EstadisticasCacheRender> {
+  let entradas: number | null = null;
+  try {
+    entradas = await adaptador.contar();
+  } catch {
+    entradas = null;
+  }
+
+  return {
+    adaptador: adaptador.nombre,
+    activa: cacheActiva(),
+    ttl_segundos: TTL_SEGUNDOS,
+    entradas,
+    ...contadores,
+  };
+}
+
+/**
+ * Cache-Control para respuestas de páginas públicas: el CDN/navegador revalida
+ * con ETag pasado el TTL y puede servir la versión anterior mientras tanto
+ */
+export function getCacheControlPaginas(): string {
+  if (!cacheActiva()) return 'no-cache';
+  return `public, max-age=${Math.min(TTL_SEGUNDOS, 60)}, stale-while-revalidate=${TTL_SEGUNDOS}`;
+}
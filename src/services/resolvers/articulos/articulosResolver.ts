@@ -26,6 +26,7 @@ import {
   normalizeLanguage,
   buildSlugSearchCondition,
 } from '../base/utils.js';
+import { adjuntarImagenesResponsive } from '../../imagenesRenditionsService.js';
 
 import type {
   BaseResolverParams,
@@ -176,6 +177,7 @@ export async function getArticulosList(params: ArticulosListParams): Promise<Art
     const result = await query(sql, queryParams);
 
     const articulos = result.rows.map((row: any) => mapRowToArticulo(row, normalizedIdioma));
+    await adjuntarImagenesResponsive(tenantId, articulos);
     logResolver('✅', 'ArticulosResolver', `Lista resuelta: ${articulos.length} artículos`);
 
     return articulos;
@@ -217,6 +219,7 @@ export async function getArticuloSingle(params: ArticuloSingleParams): Promise<A
     }
 
     const articulo = mapRowToArticulo(result.rows[0], normalizedIdioma);
+    await adjuntarImagenesResponsive(tenantId, [articulo]);
     logResolver('✅', 'ArticulosResolver', `Artículo encontrado: ${articulo.titulo}`);
 
     return articulo;
@@ -77,6 +77,32 @@ export interface PublishableEntity extends TranslatableEntity {
   orden?: number;
 }
 
+// ============================================================================
+// IMÁGENES
+// ============================================================================
+
+export interface RenditionImagen {
+  url: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * Imagen lista para <img srcset>: renditions por nombre (thumbnail, card, hero, og),
+ * srcset por familia de proporción, placeholder blurhash y punto focal (0-1).
+ * Sin manifiesto (imagen externa o aún sin procesar) solo trae src.
+ */
+export interface ImagenResponsive {
+  src: string;
+  width?: number;
+  height?: number;
+  blurhash?: string | null;
+  foco?: { x: number; y: number };
+  renditions?: Record<string, RenditionImagen>;
+  srcset?: { card?: string; hero?: string };
+  og?: string | null;
+}
+
 // ============================================================================
 // ASESORES
 // ============================================================================
@@ -210,6 +236,8 @@ export interface Articulo extends PublishableEntity {
   contenido?: string;
   imagen_principal?: string;
   imagenes?: string[];
+  imagen_principal_responsive?: ImagenResponsive | null;
+  imagenes_responsive?: ImagenResponsive[];
   autor_id?: string;
   autor_nombre?: string;
   autor_foto?: string;
@@ -245,6 +273,7 @@ export interface Propiedad extends PublishableEntity {
   precio: number;
   precio_anterior?: number;
   moneda?: string;
+  reduccion_precio?: ReduccionPrecio | null;
   // Ubicación
   pais?: string;
   provincia?: string;
@@ -268,6 +297,8 @@ export interface Propiedad extends PublishableEntity {
   // Imágenes
   imagen_principal?: string;
   imagenes?: string[];
+  imagen_principal_responsive?: ImagenResponsive | null;
+  imagenes_responsive?: ImagenResponsive[];
   video_url?: string;
   tour_virtual_url?: string;
   // Estado
@@ -280,6 +311,15 @@ export interface Propiedad extends PublishableEntity {
   url: string;
 }
 
+/**
+ * Última bajada de precio reciente (para el badge "bajó X%")
+ */
+export interface ReduccionPrecio {
+  precio_anterior: number;
+  porcentaje: number;
+  fecha: string;
+}
+
 export interface PropiedadConRelaciones extends Propiedad {
   asesor?: Asesor;
   similares?: Propiedad[];
@@ -26,6 +26,7 @@ import {
   buildUbicacionString,
   normalizeLanguage,
 } from '../base/utils.js';
+import { adjuntarImagenesResponsive } from '../../imagenesRenditionsService.js';
 
 import type {
   BaseResolverParams,
@@ -33,6 +34,7 @@ import type {
   Propiedad,
   PropiedadConRelaciones,
   Asesor,
+  ReduccionPrecio,
 } from '../base/types.js';
 
 // ============================================================================
@@ -68,6 +70,9 @@ export interface PropiedadSingleParams extends SingleParams {
 // QUERIES BASE
 // ============================================================================
 
+// Días durante los que se muestra "precio reducido" tras una bajada
+const DIAS_REDUCCION_PRECIO = 90;
+
 const BASE_SELECT = `
   p.id, p.slug, p.codigo, p.titulo, p.descripcion, p.descripcion_corta,
   p.tipo, p.operacion, p.precio, p.precio_anterior, p.moneda,
@@ -80,7 +85,20 @@ const BASE_SELECT = `
   p.estado_propiedad, p.destacada, p.exclusiva,
   p.agente_id, p.perfil_asesor_id, p.propietario_id,
   p.notas, p.traducciones,
-  p.created_at, p.updated_at
+  p.created_at, p.updated_at,
+  (
+    SELECT json_build_object(
+      'precio_anterior', h.precio_anterior,
+      'precio_nuevo', h.precio_nuevo,
+      'variacion_porcentaje', h.variacion_porcentaje,
+      'fecha', h.created_at
+    )
+    FROM propiedades_historial_precios h
+    WHERE h.propiedad_id = p.id AND h.campo = 'precio'
+      AND h.created_at >= NOW() - INTERVAL '${DIAS_REDUCCION_PRECIO} days'
+    ORDER BY h.created_at DESC
+    LIMIT 1
+  ) AS ultimo_cambio_precio
 `;
 
 const BASE_FROM = `FROM propiedades p`;
@@ -89,6 +107,24 @@ const BASE_FROM = `FROM propiedades p`;
 // FUNCIONES AUXILIARES
 // ============================================================================
 
+/**
+ * Devuelve la reducción de precio si el último cambio reciente fue una bajada
+ * y el precio actual sigue siendo el rebajado
+ */
+function mapReduccionPrecio(row: any): ReduccionPrecio | null {
+  const cambio = parseObjectField(row.ultimo_cambio_precio);
+  if (cambio.precio_anterior == null || cambio.variacion_porcentaje == null) return null;
+
+  const variacion = Number(cambio.variacion_porcentaje);
+  if (!(variacion < 0) || Number(cambio.precio_nuevo) !== Number(row.precio)) return null;
+
+  return {
+    precio_anterior: Number(cambio.precio_anterior),
+    porcentaje: Math.abs(variacion),
+    fecha: cambio.fecha,
+  };
+}
+
 /**
  * Mapea un row de la BD a un objeto Propiedad normalizado
  */
@@ -117,6 +153,7 @@ function mapRowToPropiedad(row: any, idioma: string = 'es'): Propiedad {
     precio: row.precio,
     precio_anterior: row.precio_anterior,
     moneda: row.moneda || 'USD',
+    reduccion_precio: mapReduccionPrecio(row),
     // Ubicación
     pais: row.pais,
     provincia: row.provincia,
@@ -268,6 +305,7 @@ export async function getPropiedadesList(params: PropiedadesListParams): Promise
     const result = await query(sql, queryParams);
 
     const propiedades = result.rows.map((row: any) => mapRowToPropiedad(row, normalizedIdioma));
+    await adjuntarImagenesResponsive(tenantId, propiedades);
     logResolver('✅', 'PropiedadesResolver', `Lista resuelta: ${propiedades.length} propiedades`);
 
     return propiedades;
@@ -307,6 +345,7 @@ export async function getPropiedadSingle(params: PropiedadSingleParams): Promise
     }
 
     const propiedad = mapRowToPropiedad(result.rows[0], normalizedIdioma);
+    await adjuntarImagenesResponsive(tenantId, [propiedad]);
     logResolver('✅', 'PropiedadesResolver', `Propiedad encontrada: ${propiedad.titulo}`);
 
     return propiedad;
@@ -17,10 +17,25 @@
 import { getPropiedadById } from './propertiesService.js';
 import type { PaginaCompletaResponse } from './paginasService.js';
 import { query } from '../utils/db.js';
+import { getPaginaCacheada, guardarPaginaCacheada } from './renderCacheService.js';
+import type { SeccionConfig } from './seccionesService.js';
+import type { AsignacionExperimento } from './experimentosPaginasService.js';
 import { CONTENT_PREFIX_MAPPING, STANDARD_PAGE_TYPES, validatePageType, normalizePageType } from '../utils/pageTypeMapping.js';
 
 // Idiomas soportados
-const IDIOMAS_SOPORTADOS = ['es', 'en', 'fr', 'pt'];
+export const IDIOMAS_SOPORTADOS = ['es', 'en', 'fr', 'pt'];
+
+/**
+ * Datos de la visita que acompañan la resolución: tracking y referidor, preview de
+ * borradores y visitante para experimentos A/B (experimento se completa al resolver)
+ */
+interface ContextoResolucion {
+  tracking: Record<string, string>;
+  usuarioReferidor: any | null;
+  borrador?: boolean;
+  visitanteId?: string;
+  experimento?: AsignacionExperimento | null;
+}
 
 // ============================================================================
 // FUNCIONES PARA PLANTILLAS
@@ -105,14 +120,14 @@ async function getTenantTheme(tenantId: string): Promise<Record<string, any> | n
 // INTERFACES
 // ============================================================================
 
-interface RutaConfig {
+export interface RutaConfig {
   prefijo: string;
   nivel_navegacion: number;
   alias_idiomas: Record<string, string>;
   habilitado: boolean;
 }
 
-interface TagPropiedad {
+export interface TagPropiedad {
   slug: string;
   tipo: string;
   valor: string;
@@ -135,7 +150,7 @@ interface RouteResolution {
 /**
  * Parámetros de tracking extraídos del query string
  */
-interface TrackingParams {
+export interface TrackingParams {
   ref?: string;
   utm_source?: string;
   utm_medium?: string;
@@ -148,7 +163,7 @@ interface TrackingParams {
 /**
  * Resultado de parsear la URL
  */
-interface ParsedUrl {
+export interface ParsedUrl {
   pathname: string;           // Path limpio sin query string
   tracking: TrackingParams;   // Parámetros de tracking
   queryParams: Record<string, string>; // Todos los query params originales
@@ -163,7 +178,7 @@ interface ParsedUrl {
  * @param fullUrl URL completa que puede incluir query string (ej: "/asesores/juan?ref=123&utm_source=google")
  * @returns Objeto con pathname limpio, tracking params y todos los query params
  */
-function parseUrlWithTracking(fullUrl: string): ParsedUrl {
+export function parseUrlWithTracking(fullUrl: string): ParsedUrl {
   // Parámetros conocidos de tracking
   const TRACKING_PARAMS = [
     'ref', 'referrer', 'referral',
@@ -221,11 +236,14 @@ function parseUrlWithTracking(fullUrl: string): ParsedUrl {
 // ============================================================================
 
 /**
- * Resuelve cualquier URL y devuelve la página completa lista para renderizar
+ * Resuelve cualquier URL y devuelve la página completa lista para renderizar.
+ * Con borrador=true (preview del CRM) usa los borradores de página y no pasa por la cache.
+ * visitanteId (cookie del sitio) fija la variante de los experimentos A/B.
  */
 export async function resolveRoute(
   tenantId: string,
-  pathname: string
+  pathname: string,
+  opciones: { borrador?: boolean; visitanteId?: string } = {}
 ): Promise<PaginaCompletaResponse | null> {
   try {
     console.log(`🔍 [RouteResolver] Resolviendo: ${pathname} para tenant ${tenantId}`);
@@ -241,7 +259,11 @@ export async function resolveRoute(
     }
 
     // 0.5. Resolver datos de tracking (incluye búsqueda de usuario referidor)
-    const trackingData = await resolveTrackingData(tenantId, tracking);
+    const trackingData: ContextoResolucion = {
+      ...(await resolveTrackingData(tenantId, tracking)),
+      borrador: opciones.borrador,
+      visitanteId: opciones.visitanteId,
+    };
 
     // 1. Extraer idioma del pathname limpio (sin query string)
     const { idioma, cleanPath } = extractIdioma(cleanPathname);
@@ -255,38 +277,33 @@ export async function resolveRoute(
       normalizedPath
     });
 
-    // 2. Si es homepage, resolver directamente
-    if (normalizedPath === '/') {
-      const result = await resolveHomepage(tenantId, idioma, trackingData);
-      return addTrackingToResponse(result, tracking, queryParams);
-    }
-
-    // 3. Parsear segmentos de la URL
-    const segmentos = normalizedPath.split('/').filter(Boolean);
-    if (segmentos.length === 0) {
-      const result = await resolveHomepage(tenantId, idioma, trackingData);
-      return addTrackingToResponse(result, tracking, queryParams);
+    // 1.2. Cache de render. Las visitas con ?ref no se cachean: el referidor cambia la respuesta.
+    // El preview de borradores tampoco.
+    // El resto de query params (utm, etc.) no afecta la resolución y se agrega después.
+    const usarCache = !tracking.ref && !opciones.borrador;
+    if (usarCache) {
+      const cacheada = await getPaginaCacheada(tenantId, idioma, normalizedPath);
+      if (cacheada) {
+        console.log(`   ⚡ Cache hit: ${idioma}:${normalizedPath}`);
+        return cacheada.redirect ? cacheada : addTrackingToResponse(cacheada, tracking, queryParams);
+      }
     }
 
-    const primerSegmento = segmentos[0];
+    const result = await resolverRutaNormalizada(tenantId, cleanPathname, normalizedPath, idioma, trackingData);
 
-    // 4. Obtener configuración de rutas del tenant
-    const rutasConfig = await getRutasConfigTenant(tenantId);
+    // Las páginas con experimento A/B activo dependen del visitante: no se cachean
+    if (usarCache && result && !trackingData.experimento) {
+      await guardarPaginaCacheada(tenantId, idioma, normalizedPath, result);
+    }
 
-    // 5. Buscar si el primer segmento es un prefijo conocido
-    const configPrefijo = findPrefijoConfig(primerSegmento, rutasConfig, idioma);
+    // Ruta redirigida: se devuelve tal cual, sin tracking
+    if (result?.redirect) return result;
 
-    if (configPrefijo) {
-      // Es contenido con prefijo conocido (testimonios, videos, etc.)
-      console.log(`   ✅ Prefijo encontrado: ${configPrefijo.prefijo} (nivel: ${configPrefijo.nivel_navegacion})`);
-      const result = await resolveContenidoPrefijo(tenantId, configPrefijo, segmentos, idioma, trackingData);
-      return addTrackingToResponse(result, tracking, queryParams);
+    const respuesta = addTrackingToResponse(result, tracking, queryParams);
+    if (respuesta && trackingData.experimento) {
+      respuesta.experimento = trackingData.experimento;
     }
-
-    // 6. No es prefijo conocido → Es búsqueda de propiedades
-    console.log(`   🏠 No es prefijo conocido, resolviendo como propiedades`);
-    const result = await resolvePropiedades(tenantId, segmentos, idioma, trackingData);
-    return addTrackingToResponse(result, tracking, queryParams);
+    return respuesta;
 
   } catch (error: any) {
     console.error('❌ [RouteResolver] Error:', error);
@@ -295,6 +312,77 @@ export async function resolveRoute(
   }
 }
 
+/**
+ * Resuelve un path ya normalizado (sin idioma ni query string): homepage, contenido
+ * con prefijo o propiedades y, si nada coincide, las redirecciones del tenant
+ */
+async function resolverRutaNormalizada(
+  tenantId: string,
+  cleanPathname: string,
+  normalizedPath: string,
+  idioma: string,
+  trackingData: ContextoResolucion
+): Promise<PaginaCompletaResponse | null> {
+  const resultado = await resolverPaginaNormalizada(tenantId, normalizedPath, idioma, trackingData);
+
+  // 7. Redirecciones del tenant (slugs cambiados y reglas manuales): solo antes de caer
+  // en 404, así una redirección vieja no tapa una página viva (ej: un slug reutilizado).
+  // Un listado con segmentos no reconocidos es el 404 de las rutas de propiedades, y un
+  // single inexistente el de las rutas de contenido (ej: artículo con el slug cambiado).
+  const sinCoincidencia = !resultado
+    || (resultado.unknownSegments?.length ?? 0) > 0
+    || !!resultado.singleNotFound;
+  if (normalizedPath !== '/' && sinCoincidencia) {
+    const { buscarRedireccion } = await import('./redireccionesService.js');
+    const redireccion = await buscarRedireccion(tenantId, cleanPathname);
+    if (redireccion) {
+      console.log(`   ↪️ Redirección ${redireccion.codigo_estado}: ${cleanPathname} → ${redireccion.destino}`);
+      return { page: null, theme: {}, components: [], redirect: redireccion };
+    }
+  }
+
+  return resultado;
+}
+
+/**
+ * Homepage, contenido con prefijo o propiedades de un path normalizado
+ */
+async function resolverPaginaNormalizada(
+  tenantId: string,
+  normalizedPath: string,
+  idioma: string,
+  trackingData: ContextoResolucion
+): Promise<PaginaCompletaResponse | null> {
+  // 2. Si es homepage, resolver directamente
+  if (normalizedPath === '/') {
+    return resolveHomepage(tenantId, idioma, trackingData);
+  }
+
+  // 3. Parsear segmentos de la URL
+  const segmentos = normalizedPath.split('/').filter(Boolean);
+  if (segmentos.length === 0) {
+    return resolveHomepage(tenantId, idioma, trackingData);
+  }
+
+  const primerSegmento = segmentos[0];
+
+  // 4. Obtener configuración de rutas del tenant
+  const rutasConfig = await getRutasConfigTenant(tenantId);
+
+  // 5. Buscar si el primer segmento es un prefijo conocido
+  const configPrefijo = findPrefijoConfig(primerSegmento, rutasConfig, idioma);
+
+  if (configPrefijo) {
+    // Es contenido con prefijo conocido (testimonios, videos, etc.)
+    console.log(`   ✅ Prefijo encontrado: ${configPrefijo.prefijo} (nivel: ${configPrefijo.nivel_navegacion})`);
+    return resolveContenidoPrefijo(tenantId, configPrefijo, segmentos, idioma, trackingData);
+  }
+
+  // 6. No es prefijo conocido → Es búsqueda de propiedades
+  console.log(`   🏠 No es prefijo conocido, resolviendo como propiedades`);
+  return resolvePropiedades(tenantId, segmentos, idioma, trackingData);
+}
+
 /**
  * Agrega tracking params y query params a la respuesta
  */
@@ -350,7 +438,7 @@ function normalizePath(path: string): string {
  * NOTA: tenants_rutas_config fue OBSOLETA y ELIMINADA - todas las rutas estándar
  * ahora vienen de tipos_pagina.alias_rutas
  */
-async function getRutasConfigTenant(tenantId: string): Promise<RutaConfig[]> {
+export async function getRutasConfigTenant(tenantId: string): Promise<RutaConfig[]> {
   const rutasMap = new Map<string, RutaConfig>();
 
   // 1. FUENTE DE VERDAD: tipos_pagina (rutas estándar del sistema)
@@ -542,7 +630,7 @@ async function findUsuarioByRef(
  * Resuelve la información de tracking incluyendo búsqueda del usuario referidor
  * Esta función centraliza toda la lógica de tracking para evitar duplicación
  */
-async function resolveTrackingData(
+export async function resolveTrackingData(
   tenantId: string,
   tracking: Record<string, string>
 ): Promise<{
@@ -596,6 +684,46 @@ function findPrefijoConfig(
   return null;
 }
 
+// ============================================================================
+// SECCIONES DE PÁGINA
+// ============================================================================
+
+/**
+ * Secciones de la página para esta visita: en preview las del borrador; si no, las de
+ * la variante del experimento A/B activo del tipo de página (queda en trackingData.experimento)
+ */
+async function getSeccionesPagina(
+  tenantId: string,
+  tipoPagina: string,
+  idioma: string,
+  trackingData: ContextoResolucion,
+  rutaCustomId: string | null = null
+): Promise<SeccionConfig[]> {
+  const { getSeccionesResueltas } = await import('./seccionesService.js');
+  let seccionesVariante: any[] | null = null;
+
+  if (!trackingData.borrador) {
+    try {
+      const { asignarVarianteExperimento } = await import('./experimentosPaginasService.js');
+      const resultado = await asignarVarianteExperimento(tenantId, tipoPagina, trackingData.visitanteId);
+      if (resultado) {
+        trackingData.experimento = resultado.asignacion;
+        seccionesVariante = resultado.secciones;
+      }
+    } catch (error) {
+      // Un experimento roto no debe tumbar la página: se sirve lo publicado
+      console.error(`   ⚠️ Error asignando variante de experimento para ${tipoPagina}:`, error);
+    }
+  }
+
+  // includeFallback=true para usar plantillas_pagina si no hay componentes en BD
+  return getSeccionesResueltas(tenantId, tipoPagina, undefined, true, idioma, {
+    borrador: trackingData.borrador,
+    seccionesVariante,
+    rutaCustomId,
+  });
+}
+
 // ============================================================================
 // RESOLUCIÓN DE HOMEPAGE
 // ============================================================================
@@ -603,13 +731,12 @@ function findPrefijoConfig(
 async function resolveHomepage(
   tenantId: string,
   idioma: string,
-  trackingData: { tracking: Record<string, string>; usuarioReferidor: any | null }
+  trackingData: ContextoResolucion
 ): Promise<PaginaCompletaResponse | null> {
   const { tracking, usuarioReferidor } = trackingData;
   console.log(`   🏠 Resolviendo homepage`);
 
   // FLUJO LIMPIO: Solo usar getSeccionesResueltas
-  const { getSeccionesResueltas } = await import('./seccionesService.js');
   const { resolveDynamicData } = await import('./dynamicDataResolver.js');
   const theme = await getTenantTheme(tenantId);
   const idiomasDisponibles = await getIdiomasDisponiblesTenant(tenantId);
@@ -621,7 +748,7 @@ async function resolveHomepage(
   // Ya NO se usa paginas_web (tabla obsoleta)
   // NUEVO: Pasamos el idioma para traducir componentes y datos dinámicos
   // includeFallback=true para usar plantillas_pagina si no hay componentes en BD
-  let secciones = await getSeccionesResueltas(tenantId, tipoPagina, undefined, true, idioma);
+  let secciones = await getSeccionesPagina(tenantId, tipoPagina, idioma, trackingData);
 
   // Resolver datos dinámicos para cada componente que tenga dynamic_data
   secciones = await Promise.all(
@@ -694,6 +821,11 @@ async function resolveHomepage(
         predeterminado: true,
       }];
 
+  const seo = await construirSeo(async () => {
+    const { buildSeoHomepage } = await import('./seoMetadataService.js');
+    return buildSeoHomepage(tenantId, idioma);
+  });
+
   return {
     page: {
       id: 'homepage',
@@ -709,6 +841,7 @@ async function resolveHomepage(
     components: componentsToReturn,
     idioma,
     idiomasDisponibles,
+    seo,
     dynamicPage: true,
   } as any;
 }
@@ -732,7 +865,7 @@ async function resolveContenidoPrefijo(
   config: RutaConfig,
   segmentos: string[],
   idioma: string,
-  trackingData: { tracking: Record<string, string>; usuarioReferidor: any | null }
+  trackingData: ContextoResolucion
 ): Promise<PaginaCompletaResponse | null> {
   const { tracking, usuarioReferidor } = trackingData;
   const nivel = config.nivel_navegacion;
@@ -803,7 +936,8 @@ async function resolveContenidoPrefijo(
     categoria,
     slug,
     idioma,
-    trackingData
+    trackingData,
+    config.alias_idiomas[idioma] || config.prefijo
   );
 
   // Si el single no existe, mantener el tipo single pero con datos vacíos
@@ -870,7 +1004,8 @@ async function resolveContenidoDinamico(
   categoria: string | null,
   slug: string | null,
   idioma: string,
-  trackingData: { tracking: Record<string, string>; usuarioReferidor: any | null }
+  trackingData: ContextoResolucion,
+  prefijoIdioma: string = prefijo
 ): Promise<PaginaCompletaResponse | null> {
   const { tracking, usuarioReferidor } = trackingData;
   // Mapeo de prefijo a tipos de página específicos
@@ -879,7 +1014,7 @@ async function resolveContenidoDinamico(
   const config = CONTENT_PREFIX_MAPPING[prefijo];
   if (!config) {
     // Es página estática (contacto, nosotros, etc.)
-    return await resolvePaginaEstatica(tenantId, prefijo, idioma);
+    return await resolvePaginaEstatica(tenantId, prefijo, idioma, trackingData);
   }
 
   // Determinar tipo de página específico según el tipo detectado
@@ -919,14 +1054,13 @@ async function resolveContenidoDinamico(
 
   // SIEMPRE usar getSeccionesResueltas con el TIPO DE PÁGINA (tipoPaginaCodigo)
   // getSeccionesResueltas busca componentes por tipo de página (ej: 'videos_directory', 'videos_single', 'asesores_directory')
-  const { getSeccionesResueltas } = await import('./seccionesService.js');
   const { resolveDynamicData } = await import('./dynamicDataResolver.js');
   const { assemblePageData, hasRecipeForPage } = await import('./pageDataAssembler.js');
 
   // Páginas dinámicas son sistema, usar tipoPaginaCodigo para buscar componentes
   // NUEVO: Pasamos el idioma para traducir componentes y datos dinámicos
   // includeFallback=true para usar plantillas_pagina si no hay componentes en BD
-  let secciones = await getSeccionesResueltas(tenantId, tipoPaginaCodigo, undefined, true, idioma);
+  let secciones = await getSeccionesPagina(tenantId, tipoPaginaCodigo, idioma, trackingData);
 
   // Para páginas single que tienen receta en el assembler, usar el assembler
   // para obtener datos completos (primario + secundarios como propiedades, artículos, etc.)
@@ -1102,6 +1236,22 @@ async function resolveContenidoDinamico(
         predeterminado: true,
       }];
 
+  // Metadatos SEO del single a partir de la entidad ensamblada (articulo, video, testimonio o asesor)
+  const tipoEntidad = TIPOS_ENTIDAD_PREFIJO[prefijo];
+  const entidad = tipoEntidad ? assembledData?.[tipoEntidad] : null;
+  const seo = tipoPagina === 'single' && tipoEntidad && entidad
+    ? await construirSeo(async () => {
+        const { buildSeoContenido } = await import('./seoMetadataService.js');
+        // Los href van sin prefijo de idioma (lo agrega el JSON-LD) pero con el prefijo traducido
+        const migas = [
+          { label: getEtiquetaInicio(idioma), href: '/' },
+          { label: etiquetaSegmento(prefijoIdioma), href: `/${prefijoIdioma}` },
+          ...(categoria ? [{ label: entidad.categoria_nombre || categoria, href: `/${prefijoIdioma}/${categoria}` }] : []),
+        ];
+        return buildSeoContenido(tenantId, tipoEntidad, entidad, idioma, migas, paginaSlug);
+      })
+    : null;
+
   return {
     page: {
       id: `dynamic-${prefijo}-${tipoPagina}`,
@@ -1117,6 +1267,7 @@ async function resolveContenidoDinamico(
     components: componentsToReturn,
     idioma,
     idiomasDisponibles,
+    seo,
     dynamicPage: true,
     // Metadata de debug
     _debug: {
@@ -1146,7 +1297,7 @@ async function resolvePropiedades(
   tenantId: string,
   segmentos: string[],
   idioma: string,
-  trackingData: { tracking: Record<string, string>; usuarioReferidor: any | null }
+  trackingData: ContextoResolucion
 ): Promise<PaginaCompletaResponse | null> {
   const { tracking, usuarioReferidor } = trackingData;
   console.log(`   🏠 Resolviendo propiedades: ${segmentos.join('/')}`);
@@ -1203,7 +1354,54 @@ async function resolvePropiedades(
   return await resolvePropertyListing(tenantId, tagsEncontrados, idioma, segmentosDesconocidos, trackingData);
 }
 
-async function getTagsPropiedades(tenantId: string, idioma: string): Promise<TagPropiedad[]> {
+export interface ListadoParseado {
+  idioma: string;
+  pathname: string;
+  tags: TagPropiedad[];
+  segmentosDesconocidos: string[];
+}
+
+/**
+ * Descompone la URL de un listado de propiedades en sus tags, sin resolver la página.
+ * Retorna null si la URL no es un listado (homepage, contenido con prefijo o single property).
+ * Usado para guardar búsquedas del sitio web (ver busquedasGuardadasService).
+ */
+export async function parseListingUrl(tenantId: string, url: string): Promise<ListadoParseado | null> {
+  const { pathname } = parseUrlWithTracking(url);
+  const { idioma, cleanPath } = extractIdioma(pathname);
+  const normalizedPath = normalizePath(cleanPath);
+  const segmentos = normalizedPath.split('/').filter(Boolean);
+
+  if (segmentos.length === 0) return null;
+
+  const rutasConfig = await getRutasConfigTenant(tenantId);
+  if (findPrefijoConfig(segmentos[0], rutasConfig, idioma)) return null;
+
+  const ultimoSegmento = segmentos[segmentos.length - 1];
+  if (await buscarPropiedadPorSlug(tenantId, ultimoSegmento, idioma)) return null;
+
+  const tagsDisponibles = await getTagsPropiedades(tenantId, idioma);
+  const tags: TagPropiedad[] = [];
+  const segmentosDesconocidos: string[] = [];
+
+  for (const segmento of segmentos) {
+    const tag = findTagBySlug(segmento, tagsDisponibles, idioma);
+    if (tag) {
+      tags.push(tag);
+    } else {
+      segmentosDesconocidos.push(segmento);
+    }
+  }
+
+  return {
+    idioma,
+    pathname: idioma === 'es' ? normalizedPath : `/${idioma}${normalizedPath}`,
+    tags,
+    segmentosDesconocidos,
+  };
+}
+
+export async function getTagsPropiedades(tenantId: string, idioma: string): Promise<TagPropiedad[]> {
   const sql = `
     SELECT slug, tipo, valor, campo_query, operador, alias_idiomas, nombre_idiomas
     FROM tags_propiedades
@@ -1285,7 +1483,7 @@ async function resolveSingleProperty(
   propiedad: any,
   tagsContexto: TagPropiedad[],
   idioma: string,
-  trackingData: { tracking: Record<string, string>; usuarioReferidor: any | null }
+  trackingData: ContextoResolucion
 ): Promise<PaginaCompletaResponse | null> {
   const { tracking, usuarioReferidor } = trackingData;
   console.log(`   🏠 Resolviendo single property: ${propiedad.titulo}`);
@@ -1296,11 +1494,10 @@ async function resolveSingleProperty(
   const breadcrumbs = buildBreadcrumbs(tagsContexto, idioma);
 
   // FLUJO LIMPIO: Usar getSeccionesResueltas (igual que resolveContenidoDinamico)
-  const { getSeccionesResueltas } = await import('./seccionesService.js');
   const { resolveDynamicData } = await import('./dynamicDataResolver.js');
   // Single property es página de sistema, no necesita paginaId
   // includeFallback=true para usar plantillas_pagina si no hay componentes en BD
-  let secciones = await getSeccionesResueltas(tenantId, tipoPaginaCodigo, undefined, true, idioma);
+  let secciones = await getSeccionesPagina(tenantId, tipoPaginaCodigo, idioma, trackingData);
 
   // Resolver datos dinámicos para cada componente
   secciones = await Promise.all(
@@ -1392,6 +1589,11 @@ async function resolveSingleProperty(
         predeterminado: true,
       }];
 
+  const seo = await construirSeo(async () => {
+    const { buildSeoPropiedad } = await import('./seoMetadataService.js');
+    return buildSeoPropiedad(tenantId, propiedad, idioma, breadcrumbs);
+  });
+
   return {
     page: {
       id: `dynamic-property-${propiedad.id}`,
@@ -1409,6 +1611,7 @@ async function resolveSingleProperty(
     idiomasDisponibles,
     breadcrumbs,
     filters: tagsContexto,
+    seo,
     dynamicPage: true,
   } as any;
 }
@@ -1418,7 +1621,7 @@ async function resolvePropertyListing(
   tags: TagPropiedad[],
   idioma: string,
   segmentosDesconocidos: string[] = [],
-  trackingData: { tracking: Record<string, string>; usuarioReferidor: any | null }
+  trackingData: ContextoResolucion
 ): Promise<PaginaCompletaResponse | null> {
   const { tracking, usuarioReferidor } = trackingData;
   console.log(`   📋 Resolviendo listado de propiedades con ${tags.length} filtros`);
@@ -1430,11 +1633,10 @@ async function resolvePropertyListing(
   const idiomasDisponibles = await getIdiomasDisponiblesTenant(tenantId);
 
   // FLUJO LIMPIO: Usar getSeccionesResueltas (igual que resolveContenidoDinamico)
-  const { getSeccionesResueltas } = await import('./seccionesService.js');
   const { resolveDynamicData } = await import('./dynamicDataResolver.js');
   // Property listing es página de sistema, no necesita paginaId
   // includeFallback=true para usar plantillas_pagina si no hay componentes en BD
-  let secciones = await getSeccionesResueltas(tenantId, tipoPaginaCodigo, undefined, true, idioma);
+  let secciones = await getSeccionesPagina(tenantId, tipoPaginaCodigo, idioma, trackingData);
 
   // Resolver datos dinámicos para cada componente
   secciones = await Promise.all(
@@ -1538,53 +1740,100 @@ async function resolvePropertyListing(
   } as any;
 }
 
-async function queryPropiedadesByTags(tenantId: string, tags: TagPropiedad[]): Promise<any[]> {
+/**
+ * Busca propiedades activas que cumplen todos los tags.
+ * Con `ids` se limita a ese conjunto (usado por las alertas de búsquedas guardadas).
+ */
+export async function queryPropiedadesByTags(
+  tenantId: string,
+  tags: TagPropiedad[],
+  opciones: { ids?: string[]; limit?: number } = {}
+): Promise<any[]> {
   let sql = `SELECT * FROM propiedades WHERE tenant_id = $1 AND activo = true`;
   const params: any[] = [tenantId];
-  let paramIndex = 2;
+
+  if (opciones.ids) {
+    params.push(opciones.ids);
+    sql += ` AND id = ANY($${params.length}::uuid[])`;
+  }
+
+  sql += buildTagsWhere(tags, params);
+
+  params.push(opciones.limit || 50);
+  sql += ` ORDER BY destacada DESC, created_at DESC LIMIT $${params.length}`;
+
+  const result = await query(sql, params);
+  return result.rows;
+}
+
+/**
+ * Para cada combinación de tags, cuántas propiedades disponibles la cumplen y la fecha
+ * de la más reciente, en una sola consulta. Usado por el sitemap para listar solo
+ * combinaciones de tags con resultados.
+ */
+export async function countPropiedadesByCombinaciones(
+  tenantId: string,
+  combinaciones: TagPropiedad[][]
+): Promise<Array<{ total: number; ultima_actualizacion: Date | null }>> {
+  if (combinaciones.length === 0) return [];
+
+  const params: any[] = [tenantId];
+  const columnas = combinaciones.map((tags, i) => {
+    const filtro = `true${buildTagsWhere(tags, params)}`;
+    return `COUNT(*) FILTER (WHERE ${filtro})::int as total_${i},
+      MAX(updated_at) FILTER (WHERE ${filtro}) as ultima_${i}`;
+  });
+  const sql = `
+    SELECT ${columnas.join(',\n      ')}
+    FROM propiedades
+    WHERE tenant_id = $1 AND activo = true AND estado_propiedad = 'disponible'
+  `;
+
+  const result = await query(sql, params);
+  const row = result.rows[0];
+  return combinaciones.map((_, i) => ({ total: row[`total_${i}`], ultima_actualizacion: row[`ultima_${i}`] }));
+}
+
+/**
+ * Construye las condiciones WHERE de los tags, agregando sus valores a `params`
+ */
+function buildTagsWhere(tags: TagPropiedad[], params: any[]): string {
+  let sql = '';
 
   for (const tag of tags) {
     if (!tag.campo_query) continue;
 
     switch (tag.operador) {
       case '=':
-        sql += ` AND ${tag.campo_query} = $${paramIndex}`;
         params.push(tag.valor);
-        paramIndex++;
+        sql += ` AND ${tag.campo_query} = $${params.length}`;
         break;
       case '>=':
-        sql += ` AND ${tag.campo_query} >= $${paramIndex}`;
         params.push(parseInt(tag.valor));
-        paramIndex++;
+        sql += ` AND ${tag.campo_query} >= $${params.length}`;
         break;
       case '<=':
-        sql += ` AND ${tag.campo_query} <= $${paramIndex}`;
         params.push(parseInt(tag.valor));
-        paramIndex++;
+        sql += ` AND ${tag.campo_query} <= $${params.length}`;
         break;
       case '@>':
         // Para arrays (amenidades)
-        sql += ` AND ${tag.campo_query} @> $${paramIndex}::jsonb`;
         params.push(JSON.stringify([tag.valor]));
-        paramIndex++;
+        sql += ` AND ${tag.campo_query} @> $${params.length}::jsonb`;
         break;
       case 'ILIKE':
-        sql += ` AND ${tag.campo_query} ILIKE $${paramIndex}`;
         params.push(`%${tag.valor}%`);
-        paramIndex++;
+        sql += ` AND ${tag.campo_query} ILIKE $${params.length}`;
         break;
     }
   }
 
-  sql += ` ORDER BY destacada DESC, created_at DESC LIMIT 50`;
-
-  const result = await query(sql, params);
-  return result.rows;
+  return sql;
 }
 
 function buildBreadcrumbs(tags: TagPropiedad[], idioma: string): Array<{ label: string; href: string }> {
   const breadcrumbs: Array<{ label: string; href: string }> = [
-    { label: 'Inicio', href: '/' },
+    { label: getEtiquetaInicio(idioma), href: '/' },
   ];
 
   let path = '';
@@ -1598,7 +1847,7 @@ function buildBreadcrumbs(tags: TagPropiedad[], idioma: string): Array<{ label:
   return breadcrumbs;
 }
 
-function buildListingTitle(tags: TagPropiedad[], idioma: string): string {
+export function buildListingTitle(tags: TagPropiedad[], idioma: string): string {
   if (tags.length === 0) return 'Propiedades';
 
   const partes: string[] = [];
@@ -1617,21 +1866,27 @@ function buildListingTitle(tags: TagPropiedad[], idioma: string): string {
 async function resolvePaginaEstatica(
   tenantId: string,
   slug: string,
-  idioma: string
+  idioma: string,
+  trackingData: ContextoResolucion
 ): Promise<PaginaCompletaResponse | null> {
   console.log(`   📄 Resolviendo página estática: ${slug}`);
 
   // FLUJO LIMPIO: Solo usar getSeccionesResueltas
-  const { getSeccionesResueltas } = await import('./seccionesService.js');
   const theme = await getTenantTheme(tenantId);
   const idiomasDisponibles = await getIdiomasDisponiblesTenant(tenantId);
 
   // Convertir slug a tipoPagina (reemplazar guiones con guiones bajos)
   // Ej: 'nosotros' -> 'nosotros', 'quienes-somos' -> 'quienes_somos'
   const tipoPagina = slug.replace(/-/g, '_');
-  // Páginas estáticas son del sistema, buscar componentes por tipo_pagina_id
+  // Páginas estáticas son del sistema, buscar componentes por tipo_pagina_id.
+  // Si el slug es una ruta custom del tenant, también los componentes propios de esa página
   // includeFallback=true para usar plantillas_pagina si no hay componentes en BD
-  const secciones = await getSeccionesResueltas(tenantId, tipoPagina, undefined, true, idioma);
+  const rutaCustom = await query(
+    `SELECT id FROM tenants_rutas_config_custom WHERE tenant_id = $1 AND prefijo = $2 AND habilitado = true`,
+    [tenantId, slug]
+  );
+  const rutaCustomId = rutaCustom.rows[0]?.id || null;
+  const secciones = await getSeccionesPagina(tenantId, tipoPagina, idioma, trackingData, rutaCustomId);
 
   return {
     page: {
@@ -1667,7 +1922,7 @@ async function resolvePaginaEstatica(
 // UTILIDADES
 // ============================================================================
 
-async function getIdiomasDisponiblesTenant(tenantId: string): Promise<string[]> {
+export async function getIdiomasDisponiblesTenant(tenantId: string): Promise<string[]> {
   const sql = `SELECT idiomas_disponibles FROM tenants WHERE id = $1`;
   const result = await query(sql, [tenantId]);
   if (result.rows.length === 0) return ['es'];
@@ -1694,3 +1949,48 @@ function parseJsonField(field: any): any {
   }
   return field;
 }
+
+// ============================================================================
+// METADATOS SEO
+// ============================================================================
+
+// Clave de la entidad principal en los datos de pageDataAssembler según el prefijo
+const TIPOS_ENTIDAD_PREFIJO: Record<string, 'articulo' | 'video' | 'testimonio' | 'asesor'> = {
+  'articulos': 'articulo',
+  'blog': 'articulo',
+  'videos': 'video',
+  'testimonios': 'testimonio',
+  'asesores': 'asesor',
+};
+
+// Etiqueta de la miga de inicio por idioma
+const ETIQUETAS_INICIO: Record<string, string> = {
+  es: 'Inicio',
+  en: 'Home',
+  fr: 'Accueil',
+  pt: 'Início',
+};
+
+function getEtiquetaInicio(idioma: string): string {
+  return ETIQUETAS_INICIO[idioma] || ETIQUETAS_INICIO.es;
+}
+
+/**
+ * Etiqueta legible de un segmento de URL (ej: 'nuestros-videos' → 'Nuestros videos')
+ */
+function etiquetaSegmento(segmento: string): string {
+  const texto = segmento.replace(/-/g, ' ');
+  return texto.charAt(0).toUpperCase() + texto.slice(1);
+}
+
+/**
+ * Construye los metadatos SEO sin romper la resolución de la página si fallan
+ */
+async function construirSeo(construir: () => Promise<any>): Promise<any | null> {
+  try {
+    return await construir();
+  } catch (error) {
+    console.error(`   ❌ Error construyendo metadatos SEO:`, error);
+    return null;
+  }
+}
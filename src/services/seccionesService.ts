@@ -19,6 +19,9 @@
  */
 
 import { query } from '../utils/db.js';
+import { invalidarCacheRender } from './renderCacheService.js';
+import { getSeccionesBorrador } from './crm/paginasBorradoresService.js';
+import { getSchemaVariante, asegurarDatosComponente } from './componentesSchemaService.js';
 
 // Helper function para validar UUIDs
 function isValidUUID(uuid: string): boolean {
@@ -81,6 +84,12 @@ export interface SeccionConfig {
   componente_key?: string;    // Key del componente para matching
 }
 
+export interface OpcionesSeccionesResueltas {
+  borrador?: boolean; // Preview: usar los borradores de página si existen
+  seccionesVariante?: any[] | null; // Componentes de la variante de un experimento A/B
+  rutaCustomId?: string | null; // Página custom (tenants_rutas_config_custom): sus componentes propios
+}
+
 /**
  * Obtiene el catálogo de componentes disponibles
  *
@@ -416,6 +425,12 @@ export async function saveSeccionTenant(
     configCompleta?: boolean;
   }
 ): Promise<SeccionConfig> {
+  // Validar contra el JSON Schema de la variante (o del tipo)
+  const schema = await getSchemaVariante(seccion.tipo, seccion.variante);
+  if (schema) {
+    asegurarDatosComponente(schema, seccion.datos || {});
+  }
+
   const datos = JSON.stringify(seccion.datos || {});
   const scope = seccion.scope || 'tenant';
   const activo = seccion.activo !== undefined ? seccion.activo : true;
@@ -467,6 +482,7 @@ export async function saveSeccionTenant(
     ]);
 
     const row = result.rows[0];
+    await invalidarCacheRender(tenantId, 'sección guardada');
     return {
       id: row.id,
       tenantId: row.tenantId,
@@ -526,6 +542,7 @@ export async function saveSeccionTenant(
     ]);
 
     const row = result.rows[0];
+    await invalidarCacheRender(tenantId, 'sección guardada');
     return {
       id: row.id,
       tenantId: row.tenantId,
@@ -566,6 +583,8 @@ export async function activarVariante(
     SET es_activo = true
     WHERE tenant_id = $1 AND tipo = $2 AND variante = $3 AND scope = $4
   `, [tenantId, tipo, variante, scope]);
+
+  await invalidarCacheRender(tenantId, 'variante activada');
 }
 
 /**
@@ -574,7 +593,11 @@ export async function activarVariante(
 export async function deleteSeccion(tenantId: string, seccionId: string): Promise<boolean> {
   const sql = `DELETE FROM componentes_web WHERE id = $1 AND tenant_id = $2`;
   const result = await query(sql, [seccionId, tenantId]);
-  return (result.rowCount ?? 0) > 0;
+  const eliminada = (result.rowCount ?? 0) > 0;
+  if (eliminada) {
+    await invalidarCacheRender(tenantId, 'sección eliminada');
+  }
+  return eliminada;
 }
 
 /**
@@ -590,7 +613,8 @@ export async function getSeccionesResueltas(
   tipoPagina: string,
   paginaId?: string,
   includeFallback: boolean = false,
-  idioma?: string
+  idioma?: string,
+  opciones: OpcionesSeccionesResueltas = {}
 ): Promise<SeccionConfig[]> {
   // =========================================================================
   // 1. Buscar header y footer globales del tenant (scope='tenant')
@@ -620,6 +644,14 @@ export async function getSeccionesResueltas(
 
   const resultGlobales = await query(sqlGlobales, [tenantId]);
 
+  // Preview: el borrador de los componentes globales reemplaza a los publicados
+  if (opciones.borrador) {
+    const globalesBorrador = await getSeccionesBorrador(tenantId, null);
+    if (globalesBorrador) {
+      resultGlobales.rows = globalesBorrador.filter((r: any) => r.tipo === 'header' || r.tipo === 'footer');
+    }
+  }
+
   // =========================================================================
   // 1.5 FALLBACK: Si no hay header/footer globales, buscar en homepage
   // Algunos tenants (como CLIC) tienen header/footer con tipo_pagina_id='homepage'
@@ -699,16 +731,56 @@ export async function getSeccionesResueltas(
 
   const resultPorTipo = await query(sqlPorTipo, [tenantId, tipoPagina]);
 
+  // Experimento A/B: la variante asignada al visitante reemplaza los componentes del tipo
+  if (opciones.seccionesVariante) {
+    resultPorTipo.rows = opciones.seccionesVariante.map((r: any) => ({ ...r, scope: 'page_type', tipoPagina, paginaId: null }));
+  }
+
+  // Preview: si el tipo de página tiene borrador, se muestran sus componentes
+  if (opciones.borrador) {
+    const porTipoBorrador = await getSeccionesBorrador(tenantId, tipoPagina);
+    if (porTipoBorrador) {
+      resultPorTipo.rows = porTipoBorrador.map((r: any) => ({ ...r, scope: 'page_type', tipoPagina, paginaId: null }));
+    }
+  }
+
   // =========================================================================
   // 3. Buscar componentes específicos de la página (scope='page')
-  // Estos son componentes con tenant_rutas_config_custom_id
-  // NOTA: La migración 086 eliminó pagina_id, así que esto ya no se usa
+  // Estos son componentes con tenant_rutas_config_custom_id (páginas custom)
+  // NOTA: La migración 086 eliminó pagina_id; la página custom llega en opciones.rutaCustomId
   // =========================================================================
-  // Solo ejecutar query de scope='page' si paginaId está presente
-  // Solo las páginas custom tienen componentes con scope='page'
   let resultPorPagina = { rows: [] };
-  // TODO: Implementar lógica para componentes custom si es necesario
-  // Por ahora, no hay soporte para componentes específicos de página
+  if (opciones.rutaCustomId) {
+    const sqlPorPagina = `
+      SELECT
+        c.id,
+        c.tenant_id as "tenantId",
+        cc.tipo,
+        cc.variantes,
+        c.nombre,
+        c.datos,
+        c.activo,
+        c.orden,
+        'page' as "scope",
+        NULL as "tipoPagina",
+        NULL as "paginaId"
+      FROM componentes_web c
+      INNER JOIN catalogo_componentes cc ON c.componente_catalogo_id = cc.id
+      WHERE c.tenant_id = $1
+        AND c.activo = true
+        AND c.tenant_rutas_config_custom_id = $2
+      ORDER BY c.orden ASC
+    `;
+    resultPorPagina = await query(sqlPorPagina, [tenantId, opciones.rutaCustomId]);
+
+    // Preview: el borrador de la página custom reemplaza a sus componentes publicados
+    if (opciones.borrador) {
+      const porPaginaBorrador = await getSeccionesBorrador(tenantId, null, opciones.rutaCustomId);
+      if (porPaginaBorrador) {
+        resultPorPagina.rows = porPaginaBorrador.map((r: any) => ({ ...r, scope: 'page', tipoPagina: null, paginaId: null }));
+      }
+    }
+  }
 
   console.log(`📦 [getSeccionesResueltas] Encontrados:
     - ${resultGlobales.rows.length} globales (tenant)
@@ -757,8 +829,8 @@ export async function getSeccionesResueltas(
   // =========================================================================
   // 4. Agregar componentes de la pagina (de BD o fallback)
   // =========================================================================
-  if (resultPorTipo.rows.length > 0) {
-    // HAY componentes en BD para este tipo de pagina - usarlos
+  if (resultPorTipo.rows.length > 0 || resultPorPagina.rows.length > 0) {
+    // HAY componentes en BD para este tipo de pagina (o la página custom) - usarlos
     console.log(`📦 [getSeccionesResueltas] Usando ${resultPorTipo.rows.length} componentes de BD para ${tipoPagina}`);
 
     // Mapeo de tipos de componente a su dataType por defecto
@@ -1168,6 +1240,17 @@ export async function getComponentesPagina(
   return result.rows.map((row: any) => mapComponenteRow(row));
 }
 
+/**
+ * Invalida la cache de render del tenant dueño de un componente
+ * (para las operaciones que solo reciben el id del componente)
+ */
+async function invalidarCacheComponente(componenteId: string, motivo: string): Promise<void> {
+  const result = await query(`SELECT tenant_id FROM componentes_web WHERE id = $1`, [componenteId]);
+  if (result.rows[0]?.tenant_id) {
+    await invalidarCacheRender(result.rows[0].tenant_id, motivo);
+  }
+}
+
 /**
  * Agrega un componente a una página asignando tipo_pagina_id
  *
@@ -1198,6 +1281,7 @@ export async function agregarComponenteAPagina(
   `;
 
   const result = await query(sql, [paginaId, orden, componenteId]);
+  await invalidarCacheComponente(componenteId, 'componente agregado a página');
   return { id: result.rows[0]?.id || componenteId };
 }
 
@@ -1212,6 +1296,7 @@ export async function removerComponenteDePagina(
     `UPDATE componentes_web SET tipo_pagina_id = NULL, updated_at = NOW() WHERE id = $1 AND tipo_pagina_id = $2`,
     [componenteId, paginaId]
   );
+  await invalidarCacheComponente(componenteId, 'componente removido de página');
 }
 
 /**
@@ -1227,6 +1312,10 @@ export async function reordenarComponentesPagina(
       [item.orden, item.componenteId, paginaId]
     );
   }
+
+  if (ordenComponentes.length > 0) {
+    await invalidarCacheComponente(ordenComponentes[0].componenteId, 'componentes reordenados');
+  }
 }
 
 /**
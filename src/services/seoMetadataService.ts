@@ -0,0 +1,507 @@
+/**
+ * Servicio de metadatos SEO para las páginas resueltas del sitio web
+ *
+ * routeResolver agrega a la respuesta un objeto `seo` listo para renderizar en el <head>:
+ * - titulo, descripcion y canonical
+ * - alternates hreflang (mismas URLs que el sitemap)
+ * - Open Graph y Twitter card
+ * - JSON-LD (schema.org): Organization, RealEstateListing + Offer, Article, VideoObject,
+ *   Review, RealEstateAgent y BreadcrumbList
+ *
+ * La marca sale de info_negocio del tenant. Las URLs son absolutas cuando el tenant
+ * tiene dominio_personalizado; si no, son paths y el frontend las completa con su origen.
+ */
+
+import { query } from '../utils/db.js';
+import { IDIOMAS_SOPORTADOS, getIdiomasDisponiblesTenant } from './routeResolver.js';
+import { getRutasEntidad, TipoEntidadWeb } from './sitemapService.js';
+import { getManifiestosPorUrl } from './imagenesRenditionsService.js';
+
+// ==================== TIPOS ====================
+
+export interface MetadatosSeo {
+  titulo: string;
+  descripcion: string | null;
+  canonical: string;
+  alternates: Array<{ hreflang: string; href: string }>;
+  openGraph: Record<string, string | string[]>;
+  twitter: Record<string, string>;
+  jsonLd: Record<string, any>[];
+}
+
+export interface MigaSeo {
+  label: string;
+  href: string;
+}
+
+interface ContextoSeo {
+  baseUrl: string;
+  idioma: string;
+  idiomas: string[];
+  nombre: string;
+  descripcion: string | null;
+  logo: string | null;
+  info: Record<string, any>;
+}
+
+// Locale de Open Graph por idioma del sitio
+const LOCALES_OG: Record<string, string> = {
+  es: 'es_ES',
+  en: 'en_US',
+  fr: 'fr_FR',
+  pt: 'pt_BR',
+};
+
+const REDES_INFO_NEGOCIO = ['facebook_url', 'instagram_url', 'twitter_url', 'linkedin_url', 'youtube_url', 'tiktok_url'];
+
+const MAX_DESCRIPCION = 160;
+
+// ==================== HELPERS ====================
+
+function parseJson(valor: any, fallback: any) {
+  if (valor === null || valor === undefined) return fallback;
+  if (typeof valor === 'string') {
+    try {
+      return JSON.parse(valor);
+    } catch {
+      return fallback;
+    }
+  }
+  return valor;
+}
+
+/**
+ * Texto plano para meta descripciones: sin HTML, espacios colapsados y recortado
+ */
+function textoPlano(valor: any, max = MAX_DESCRIPCION): string | null {
+  if (!valor || typeof valor !== 'string') return null;
+  const texto = valor.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+  if (!texto) return null;
+  return texto.length > max ? `${texto.slice(0, max - 1).trimEnd()}…` : texto;
+}
+
+function traducido(valor: any, traducciones: any, idioma: string): any {
+  if (idioma === 'es') return valor;
+  return parseJson(traducciones, {})[idioma] || valor;
+}
+
+/**
+ * URL de un path en un idioma (español sin prefijo, como en routeResolver)
+ */
+function urlPagina(ctx: ContextoSeo, idioma: string, path: string): string {
+  if (idioma === 'es') return `${ctx.baseUrl}${path}`;
+  return `${ctx.baseUrl}/${idioma}${path === '/' ? '' : path}`;
+}
+
+function urlAbsoluta(ctx: ContextoSeo, path: string): string {
+  return /^https?:\/\//.test(path) ? path : `${ctx.baseUrl}${path}`;
+}
+
+function limpiar<T extends Record<string, any>>(objeto: T): T {
+  for (const clave of Object.keys(objeto)) {
+    const valor = objeto[clave];
+    if (valor === null || valor === undefined || valor === '' || (Array.isArray(valor) && valor.length === 0)) {
+      delete objeto[clave];
+    }
+  }
+  return objeto;
+}
+
+async function getContextoSeo(tenantId: string, idioma: string): Promise<ContextoSeo | null> {
+  const result = await query(
+    `SELECT nombre, info_negocio, dominio_personalizado FROM tenants WHERE id = $1`,
+    [tenantId]
+  );
+  if (result.rows.length === 0) return null;
+
+  const { nombre, info_negocio, dominio_personalizado } = result.rows[0];
+  const info = parseJson(info_negocio, {});
+  const idiomasTenant = await getIdiomasDisponiblesTenant(tenantId);
+
+  return {
+    baseUrl: dominio_personalizado ? `https://${dominio_personalizado}` : '',
+    idioma,
+    idiomas: ['es', ...idiomasTenant.filter(i => i !== 'es' && IDIOMAS_SOPORTADOS.includes(i))],
+    nombre: traducido(info.nombre || nombre, info.nombre_traducciones, idioma),
+    descripcion: textoPlano(traducido(info.descripcion || info.slogan, info.descripcion_traducciones, idioma)),
+    logo: info.logo_url || null,
+    info,
+  };
+}
+
+function idOrganizacion(ctx: ContextoSeo): string {
+  return `${ctx.baseUrl}/#organizacion`;
+}
+
+function getImagenesPropiedad(propiedad: any): string[] {
+  const imagenes: any[] = parseJson(propiedad.imagenes, []);
+  const urls = [propiedad.imagen_principal, ...imagenes.map(img => (typeof img === 'string' ? img : img?.url))];
+  return [...new Set(urls.filter((url): url is string => typeof url === 'string' && url.length > 0))];
+}
+
+/**
+ * Rendition OG (1200x630) de la imagen si ya tiene renditions; si no, la original
+ */
+async function getImagenOg(tenantId: string, url: string | null | undefined): Promise<string | null> {
+  if (!url) return null;
+  try {
+    const manifiestos = await getManifiestosPorUrl(tenantId, [url]);
+    return manifiestos.get(url)?.renditions.og?.url || url;
+  } catch {
+    return url;
+  }
+}
+
+function getHandleTwitter(info: Record<string, any>): string | null {
+  const match = typeof info.twitter_url === 'string' ? info.twitter_url.match(/(?:twitter|x)\.com\/([A-Za-z0-9_]+)/) : null;
+  return match ? `@${match[1]}` : null;
+}
+
+// ==================== BLOQUES JSON-LD ====================
+
+function jsonLdOrganizacion(ctx: ContextoSeo): Record<string, any> {
+  const { info } = ctx;
+  const direccion = limpiar({
+    '@type': 'PostalAddress',
+    streetAddress: info.direccion,
+    addressLocality: info.ciudad,
+    addressRegion: info.estado_provincia,
+    postalCode: info.codigo_postal,
+    addressCountry: info.pais,
+  });
+
+  return limpiar({
+    '@context': 'https://schema.org',
+    '@type': 'Organization',
+    '@id': idOrganizacion(ctx),
+    name: ctx.nombre,
+    legalName: info.razon_social,
+    description: ctx.descripcion,
+    url: urlPagina(ctx, ctx.idioma, '/'),
+    logo: ctx.logo,
+    telephone: info.telefono_principal,
+    email: info.email_principal,
+    taxID: info.rnc,
+    address: Object.keys(direccion).length > 1 ? direccion : null,
+    sameAs: REDES_INFO_NEGOCIO.map(campo => info[campo]).filter(Boolean),
+  });
+}
+
+/**
+ * Referencia corta a la organización para publisher/worksFor/itemReviewed
+ */
+function refOrganizacion(ctx: ContextoSeo): Record<string, any> {
+  return limpiar({
+    '@type': 'Organization',
+    '@id': idOrganizacion(ctx),
+    name: ctx.nombre,
+    logo: ctx.logo ? { '@type': 'ImageObject', url: ctx.logo } : null,
+  });
+}
+
+/**
+ * BreadcrumbList a partir de las migas de routeResolver (hrefs sin prefijo de idioma)
+ * más la página actual, que ya viene con su URL canónica
+ */
+function jsonLdBreadcrumbs(ctx: ContextoSeo, migas: MigaSeo[], actual: { label: string; url: string }): Record<string, any> {
+  const items = [
+    ...migas.map(miga => ({ name: miga.label, item: urlPagina(ctx, ctx.idioma, miga.href) })),
+    { name: actual.label, item: actual.url },
+  ];
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'BreadcrumbList',
+    itemListElement: items.map((item, i) => ({ '@type': 'ListItem', position: i + 1, ...item })),
+  };
+}
+
+function jsonLdPropiedad(ctx: ContextoSeo, propiedad: any, url: string, titulo: string, descripcion: string | null, imagenes: string[]): Record<string, any> {
+  const exacta = propiedad.mostrar_ubicacion_exacta !== false;
+  const disponible = !propiedad.estado_propiedad || propiedad.estado_propiedad === 'disponible';
+  const precio = propiedad.precio !== null && propiedad.precio !== undefined ? Number(propiedad.precio) : null;
+
+  const direccion = limpiar({
+    '@type': 'PostalAddress',
+    streetAddress: exacta ? propiedad.direccion : null,
+    addressLocality: propiedad.ciudad,
+    addressRegion: propiedad.provincia,
+    addressCountry: propiedad.pais,
+  });
+
+  const inmueble = limpiar({
+    '@type': 'Accommodation',
+    numberOfRooms: propiedad.habitaciones,
+    numberOfBathroomsTotal: propiedad.banos,
+    floorSize: propiedad.m2_construccion
+      ? { '@type': 'QuantitativeValue', value: Number(propiedad.m2_construccion), unitCode: 'MTK' }
+      : null,
+    address: Object.keys(direccion).length > 1 ? direccion : null,
+    geo: exacta && propiedad.latitud && propiedad.longitud
+      ? { '@type': 'GeoCoordinates', latitude: Number(propiedad.latitud), longitude: Number(propiedad.longitud) }
+      : null,
+  });
+
+  return limpiar({
+    '@context': 'https://schema.org',
+    '@type': 'RealEstateListing',
+    name: titulo,
+    description: descripcion,
+    url,
+    image: imagenes,
+    datePosted: propiedad.created_at ? new Date(propiedad.created_at).toISOString() : null,
+    dateModified: propiedad.updated_at ? new Date(propiedad.updated_at).toISOString() : null,
+    about: Object.keys(inmueble).length > 1 ? inmueble : null,
+    offers: precio !== null && !isNaN(precio)
+      ? limpiar({
+          '@type': 'Offer',
+          price: precio,
+          priceCurrency: propiedad.moneda,
+          businessFunction: propiedad.operacion === 'renta'
+            ? 'http://purl.org/goodrelations/v1#LeaseOut'
+            : 'http://purl.org/goodrelations/v1#Sell',
+          availability: disponible ? 'https://schema.org/InStock' : 'https://schema.org/SoldOut',
+          url,
+          seller: refOrganizacion(ctx),
+        })
+      : null,
+  });
+}
+
+function jsonLdContenido(ctx: ContextoSeo, tipo: Exclude<TipoEntidadWeb, 'propiedad'>, entidad: any, url: string): Record<string, any> {
+  const base = { '@context': 'https://schema.org' };
+
+  if (tipo === 'articulo') {
+    return limpiar({
+      ...base,
+      '@type': 'Article',
+      headline: entidad.titulo,
+      description: textoPlano(entidad.meta_descripcion || entidad.extracto || entidad.contenido),
+      image: entidad.imagen_principal,
+      datePublished: entidad.fecha_publicacion || entidad.created_at,
+      dateModified: entidad.updated_at,
+      author: entidad.autor_nombre ? { '@type': 'Person', name: entidad.autor_nombre } : refOrganizacion(ctx),
+      publisher: refOrganizacion(ctx),
+      mainEntityOfPage: url,
+      inLanguage: ctx.idioma,
+    });
+  }
+
+  if (tipo === 'video') {
+    return limpiar({
+      ...base,
+      '@type': 'VideoObject',
+      name: entidad.titulo,
+      description: textoPlano(entidad.descripcion) || entidad.titulo,
+      thumbnailUrl: entidad.thumbnail,
+      uploadDate: entidad.fecha_publicacion || entidad.created_at,
+      duration: entidad.duracion_segundos ? `PT${Math.round(entidad.duracion_segundos)}S` : null,
+      contentUrl: entidad.video_url,
+      url,
+      publisher: refOrganizacion(ctx),
+    });
+  }
+
+  if (tipo === 'testimonio') {
+    return limpiar({
+      ...base,
+      '@type': 'Review',
+      name: entidad.titulo,
+      reviewBody: textoPlano(entidad.contenido, 5000),
+      datePublished: entidad.fecha || entidad.created_at,
+      author: { '@type': 'Person', name: entidad.cliente_nombre },
+      reviewRating: entidad.rating
+        ? { '@type': 'Rating', ratingValue: Number(entidad.rating), bestRating: 5, worstRating: 1 }
+        : null,
+      itemReviewed: refOrganizacion(ctx),
+      url,
+    });
+  }
+
+  return limpiar({
+    ...base,
+    '@type': 'RealEstateAgent',
+    name: entidad.nombre_completo || [entidad.nombre, entidad.apellido].filter(Boolean).join(' '),
+    jobTitle: entidad.cargo,
+    description: textoPlano(entidad.biografia),
+    image: entidad.foto_url,
+    telephone: entidad.telefono,
+    email: entidad.email,
+    url,
+    worksFor: refOrganizacion(ctx),
+    sameAs: Object.values(entidad.redes_sociales || {}).filter(Boolean),
+  });
+}
+
+// ==================== ENSAMBLADO ====================
+
+/**
+ * Arma el objeto final: canonical en el idioma actual, alternates de cada idioma
+ * (x-default = español) y Open Graph / Twitter a partir de los mismos textos
+ */
+function armarMetadatos(
+  ctx: ContextoSeo,
+  datos: {
+    titulo: string;
+    descripcion: string | null;
+    rutas: Record<string, string>;
+    tipoOg: string;
+    imagen: string | null;
+    jsonLd: Array<Record<string, any> | null>;
+  }
+): MetadatosSeo {
+  const canonical = urlAbsoluta(ctx, datos.rutas[ctx.idioma] || datos.rutas.es || urlPagina(ctx, ctx.idioma, '/'));
+  const idiomas = Object.keys(datos.rutas);
+  const alternates = idiomas.length > 1
+    ? [
+        ...idiomas.map(idioma => ({ hreflang: idioma, href: urlAbsoluta(ctx, datos.rutas[idioma]) })),
+        { hreflang: 'x-default', href: urlAbsoluta(ctx, datos.rutas.es || datos.rutas[idiomas[0]]) },
+      ]
+    : [];
+  const imagen = datos.imagen || ctx.logo;
+  const handle = getHandleTwitter(ctx.info);
+
+  const openGraph = limpiar<Record<string, string | string[]>>({
+    'og:type': datos.tipoOg,
+    'og:title': datos.titulo,
+    'og:description': datos.descripcion || '',
+    'og:url': canonical,
+    'og:image': imagen || '',
+    'og:site_name': ctx.nombre,
+    'og:locale': LOCALES_OG[ctx.idioma] || ctx.idioma,
+    'og:locale:alternate': idiomas.filter(i => i !== ctx.idioma).map(i => LOCALES_OG[i] || i),
+  });
+
+  const twitter = limpiar<Record<string, string>>({
+    'twitter:card': imagen ? 'summary_large_image' : 'summary',
+    'twitter:title': datos.titulo,
+    'twitter:description': datos.descripcion || '',
+    'twitter:image': imagen || '',
+    'twitter:site': handle || '',
+  });
+
+  return {
+    titulo: datos.titulo,
+    descripcion: datos.descripcion,
+    canonical,
+    alternates,
+    openGraph,
+    twitter,
+    jsonLd: datos.jsonLd.filter((bloque): bloque is Record<string, any> => bloque !== null),
+  };
+}
+
+// ==================== API ====================
+
+/**
+ * Metadatos de la homepage: Organization con los datos de info_negocio
+ */
+export async function buildSeoHomepage(tenantId: string, idioma: string): Promise<MetadatosSeo | null> {
+  const ctx = await getContextoSeo(tenantId, idioma);
+  if (!ctx) return null;
+
+  const slogan = traducido(ctx.info.slogan, ctx.info.slogan_traducciones, idioma);
+  const rutas: Record<string, string> = {};
+  for (const i of ctx.idiomas) rutas[i] = urlPagina(ctx, i, '/');
+
+  return armarMetadatos(ctx, {
+    titulo: slogan ? `${ctx.nombre} | ${slogan}` : ctx.nombre,
+    descripcion: ctx.descripcion,
+    rutas,
+    tipoOg: 'website',
+    imagen: null,
+    jsonLd: [jsonLdOrganizacion(ctx)],
+  });
+}
+
+/**
+ * Metadatos del single de una propiedad: RealEstateListing + Offer y BreadcrumbList.
+ * El canonical es la URL corta de la propiedad aunque se haya llegado por una ruta con tags.
+ */
+export async function buildSeoPropiedad(
+  tenantId: string,
+  propiedad: any,
+  idioma: string,
+  breadcrumbs: MigaSeo[]
+): Promise<MetadatosSeo | null> {
+  const ctx = await getContextoSeo(tenantId, idioma);
+  if (!ctx) return null;
+
+  const traduccion = idioma === 'es' ? {} : (parseJson(propiedad.traducciones, {})[idioma] || {});
+  const nombre = traduccion.titulo || propiedad.titulo;
+  const titulo = traduccion.meta_title || (idioma === 'es' && propiedad.meta_title) || nombre;
+  const descripcion = textoPlano(
+    traduccion.meta_description || traduccion.descripcion ||
+    propiedad.meta_description || propiedad.short_description || propiedad.descripcion
+  );
+  const imagenes = getImagenesPropiedad(propiedad);
+  const rutas = await getRutasEntidad(tenantId, 'propiedad', propiedad.id);
+  const canonical = urlAbsoluta(ctx, rutas[idioma] || urlPagina(ctx, idioma, `/${propiedad.slug || propiedad.id}`));
+
+  return armarMetadatos(ctx, {
+    titulo,
+    descripcion,
+    rutas,
+    tipoOg: 'website',
+    imagen: await getImagenOg(tenantId, imagenes[0]),
+    jsonLd: [
+      jsonLdPropiedad(ctx, propiedad, canonical, nombre, descripcion, imagenes),
+      jsonLdBreadcrumbs(ctx, breadcrumbs, { label: nombre, url: canonical }),
+    ],
+  });
+}
+
+/**
+ * Metadatos del single de un artículo, video, testimonio o asesor.
+ * `entidad` es el registro ya traducido que devuelve pageDataAssembler; `rutaActual`
+ * (sin prefijo de idioma) es el canonical de respaldo si la entidad no tiene ruta propia.
+ */
+export async function buildSeoContenido(
+  tenantId: string,
+  tipo: Exclude<TipoEntidadWeb, 'propiedad'>,
+  entidad: any,
+  idioma: string,
+  breadcrumbs: MigaSeo[],
+  rutaActual: string
+): Promise<MetadatosSeo | null> {
+  const ctx = await getContextoSeo(tenantId, idioma);
+  if (!ctx || !entidad?.id) return null;
+
+  const rutas = await getRutasEntidad(tenantId, tipo, entidad.id);
+  const canonical = urlAbsoluta(ctx, rutas[idioma] || urlPagina(ctx, idioma, rutaActual));
+
+  const titulo = tipo === 'asesor'
+    ? (entidad.nombre_completo || [entidad.nombre, entidad.apellido].filter(Boolean).join(' '))
+    : tipo === 'testimonio'
+      ? (entidad.titulo || entidad.cliente_nombre)
+      : (entidad.meta_titulo || entidad.titulo);
+
+  const descripcion = tipo === 'articulo'
+    ? textoPlano(entidad.meta_descripcion || entidad.extracto || entidad.contenido)
+    : tipo === 'video'
+      ? textoPlano(entidad.descripcion)
+      : tipo === 'testimonio'
+        ? textoPlano(entidad.contenido)
+        : textoPlano(entidad.biografia);
+
+  const imagen = tipo === 'articulo'
+    ? entidad.imagen_principal
+    : tipo === 'video'
+      ? entidad.thumbnail
+      : tipo === 'testimonio'
+        ? entidad.cliente_foto
+        : entidad.foto_url;
+
+  const tiposOg: Record<string, string> = { articulo: 'article', video: 'video.other', testimonio: 'article', asesor: 'profile' };
+
+  return armarMetadatos(ctx, {
+    titulo: `${titulo} | ${ctx.nombre}`,
+    descripcion,
+    rutas,
+    tipoOg: tiposOg[tipo],
+    imagen: tipo === 'articulo' ? await getImagenOg(tenantId, imagen) : imagen || null,
+    jsonLd: [
+      jsonLdContenido(ctx, tipo, entidad, canonical),
+      jsonLdBreadcrumbs(ctx, breadcrumbs, { label: titulo, url: canonical }),
+    ],
+  });
+}
@@ -0,0 +1,660 @@
+/**
+ * Servicio de sitemaps y robots.txt para los sitios web de los tenants
+ *
+ * Genera un sitemap index con un sitemap por tipo de URL pública:
+ * - paginas: homepage y directorios de los prefijos configurados
+ * - propiedades: single de cada propiedad disponible (vendidas y rentadas no se indexan)
+ * - listados: tags de propiedades (y operación + tipo) que tienen resultados
+ * - articulos, videos, testimonios: singles y categorías publicadas
+ * - asesores: perfiles visibles en la web
+ *
+ * Cada URL incluye `lastmod` cuando se conoce y alternates `xhtml:link` hreflang
+ * para cada idioma disponible del tenant, con las mismas reglas de URL que
+ * routeResolver (español sin prefijo, slugs y prefijos traducidos).
+ *
+ * Un tipo que supera MAX_URLS_SITEMAP entradas (contando una por idioma) se parte en
+ * sitemap-{tipo}.xml, sitemap-{tipo}-2.xml... Los XML generados se guardan en la cache
+ * de render (renderCacheService), que se purga cuando cambia el contenido del tenant.
+ */
+
+import { query } from '../utils/db.js';
+import {
+  IDIOMAS_SOPORTADOS,
+  RutaConfig,
+  TagPropiedad,
+  getRutasConfigTenant,
+  getTagsPropiedades,
+  getIdiomasDisponiblesTenant,
+  countPropiedadesByCombinaciones,
+} from './routeResolver.js';
+import { getUrlSitioTenant } from './dominiosService.js';
+import { getPaginaCacheada, guardarPaginaCacheada } from './renderCacheService.js';
+
+// ==================== TIPOS ====================
+
+export const TIPOS_SITEMAP = [
+  'paginas',
+  'propiedades',
+  'listados',
+  'articulos',
+  'videos',
+  'testimonios',
+  'asesores',
+] as const;
+export type TipoSitemap = typeof TIPOS_SITEMAP[number];
+
+// Entidades con URL pública propia (single)
+export type TipoEntidadWeb = 'propiedad' | 'articulo' | 'video' | 'testimonio' | 'asesor';
+
+export interface ConfigRobots {
+  bloquear_indexacion: boolean; // Disallow: / para todo el sitio (ej: sitio en construcción)
+  disallow: string[];
+  allow: string[];
+  reglas_extra: string; // Texto libre agregado al final (otros user-agents, crawl-delay...)
+}
+
+export const CONFIG_ROBOTS_DEFAULT: ConfigRobots = {
+  bloquear_indexacion: false,
+  disallow: [],
+  allow: [],
+  reglas_extra: '',
+};
+
+interface UrlSitemap {
+  rutas: Record<string, string>; // idioma → path localizado (sin prefijo de idioma)
+  lastmod: Date | string | null;
+}
+
+interface ContextoSitemap {
+  tenantId: string;
+  baseUrl: string;
+  idiomas: string[];
+  rutasConfig: RutaConfig[];
+  permisos: Record<string, boolean>;
+}
+
+// Límite de URLs por sitemap según el protocolo
+const MAX_URLS_SITEMAP = 50000;
+
+// "Idioma" con el que los sitemaps se guardan en la cache de render
+const IDIOMA_CACHE_SITEMAP = 'sitemap';
+
+// Tipo de contenido → tabla, prefijo por defecto y permiso de contenido que lo habilita
+const CONTENIDOS_SITEMAP: Record<string, { tabla: string; prefijos: string[]; permiso: string }> = {
+  articulos: { tabla: 'articulos', prefijos: ['articulos', 'blog'], permiso: 'articulos' },
+  videos: { tabla: 'videos', prefijos: ['videos'], permiso: 'videos' },
+  testimonios: { tabla: 'testimonios', prefijos: ['testimonios'], permiso: 'testimonios' },
+};
+
+// ==================== HELPERS ====================
+
+function parseJson(valor: any, fallback: any) {
+  if (valor === null || valor === undefined) return fallback;
+  if (typeof valor === 'string') {
+    try {
+      return JSON.parse(valor);
+    } catch {
+      return fallback;
+    }
+  }
+  return valor;
+}
+
+function escapeXml(valor: any): string {
+  return String(valor ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function formatLastmod(fecha: Date | string | null): string | null {
+  if (!fecha) return null;
+  const date = new Date(fecha);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+/**
+ * URL absoluta de un path en un idioma (español sin prefijo, como en routeResolver)
+ */
+function urlAbsoluta(ctx: ContextoSitemap, idioma: string, path: string): string {
+  if (idioma === 'es') return `${ctx.baseUrl}${path}`;
+  return `${ctx.baseUrl}/${idioma}${path === '/' ? '' : path}`;
+}
+
+function traducirSlug(slug: string, traducciones: Record<string, string>, idioma: string): string {
+  return idioma === 'es' ? slug : (traducciones[idioma] || slug);
+}
+
+function prefijoLocalizado(config: RutaConfig, idioma: string): string {
+  return traducirSlug(config.prefijo, config.alias_idiomas || {}, idioma);
+}
+
+/**
+ * Construye las rutas localizadas de una URL aplicando `construir` en cada idioma del tenant
+ */
+function rutasPorIdioma(ctx: ContextoSitemap, construir: (idioma: string) => string): Record<string, string> {
+  const rutas: Record<string, string> = {};
+  for (const idioma of ctx.idiomas) {
+    rutas[idioma] = construir(idioma);
+  }
+  return rutas;
+}
+
+function findRutaConfig(ctx: ContextoSitemap, prefijos: string[]): RutaConfig | null {
+  for (const prefijo of prefijos) {
+    const config = ctx.rutasConfig.find(r => r.prefijo === prefijo);
+    if (config) return config;
+  }
+  return null;
+}
+
+/**
+ * Cada versión de idioma es un <url> propio con el juego completo de alternates.
+ * x-default apunta a la versión en español (la que no lleva prefijo).
+ */
+function renderUrlset(ctx: ContextoSitemap, urls: UrlSitemap[]): string {
+  const entradas: string[] = [];
+
+  for (const url of urls) {
+    const idiomas = Object.keys(url.rutas);
+    const lastmod = formatLastmod(url.lastmod);
+    const alternates = idiomas.length > 1
+      ? [
+          ...idiomas.map(idioma =>
+            `<xhtml:link rel="alternate" hreflang="${idioma}" href="${escapeXml(urlAbsoluta(ctx, idioma, url.rutas[idioma]))}"/>`
+          ),
+          `<xhtml:link rel="alternate" hreflang="x-default" href="${escapeXml(urlAbsoluta(ctx, idiomas[0], url.rutas[idiomas[0]]))}"/>`,
+        ].join('')
+      : '';
+
+    for (const idioma of idiomas) {
+      entradas.push(
+        `<url><loc>${escapeXml(urlAbsoluta(ctx, idioma, url.rutas[idioma]))}</loc>` +
+        (lastmod ? `<lastmod>${lastmod}</lastmod>` : '') +
+        alternates +
+        `</url>`
+      );
+    }
+  }
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:xhtml="http://www.w3.org/1999/xhtml">
+${entradas.join('\n')}
+</urlset>`;
+}
+
+/**
+ * Parte las URLs en sitemaps de como máximo MAX_URLS_SITEMAP entradas <url>.
+ * Cada URL genera una entrada por idioma, así que el corte se hace después de esa expansión.
+ */
+function paginarUrls(ctx: ContextoSitemap, urls: UrlSitemap[]): UrlSitemap[][] {
+  const porPagina = Math.max(1, Math.floor(MAX_URLS_SITEMAP / Math.max(1, ctx.idiomas.length)));
+  const paginas: UrlSitemap[][] = [];
+  for (let i = 0; i < urls.length; i += porPagina) {
+    paginas.push(urls.slice(i, i + porPagina));
+  }
+  return paginas;
+}
+
+function nombreSitemap(tipo: TipoSitemap, pagina: number): string {
+  return pagina === 1 ? `sitemap-${tipo}.xml` : `sitemap-${tipo}-${pagina}.xml`;
+}
+
+/**
+ * XML desde la cache de render o generado y guardado en ella
+ */
+async function conCacheSitemap(
+  tenantId: string,
+  nombre: string,
+  generar: () => Promise<string | null>
+): Promise<string | null> {
+  const cacheado = await getPaginaCacheada(tenantId, IDIOMA_CACHE_SITEMAP, nombre);
+  if (cacheado?.xml) return cacheado.xml;
+
+  const xml = await generar();
+  if (xml) await guardarPaginaCacheada(tenantId, IDIOMA_CACHE_SITEMAP, nombre, { xml });
+  return xml;
+}
+
+async function getContextoSitemap(tenantId: string, baseUrl: string): Promise<ContextoSitemap | null> {
+  const result = await query(
+    `SELECT configuracion->'permisos_contenido' as permisos FROM tenants WHERE id = $1 AND activo = true`,
+    [tenantId]
+  );
+  if (result.rows.length === 0) return null;
+
+  const idiomasTenant = await getIdiomasDisponiblesTenant(tenantId);
+  // Español primero: es la versión sin prefijo y el x-default
+  const idiomas = ['es', ...idiomasTenant.filter(i => i !== 'es' && IDIOMAS_SOPORTADOS.includes(i))];
+
+  return {
+    tenantId,
+    baseUrl: baseUrl.replace(/\/+$/, ''),
+    idiomas,
+    rutasConfig: await getRutasConfigTenant(tenantId),
+    permisos: parseJson(result.rows[0].permisos, {}),
+  };
+}
+
+/**
+ * Los tipos de contenido están habilitados salvo que permisos_contenido los desactive
+ */
+function contenidoHabilitado(ctx: ContextoSitemap, permiso: string): boolean {
+  return ctx.permisos[permiso] !== false;
+}
+
+// ==================== RUTAS POR ENTIDAD ====================
+
+function rutasPropiedad(ctx: ContextoSitemap, row: { slug: string; slug_traducciones: any }): Record<string, string> {
+  const traducciones = parseJson(row.slug_traducciones, {});
+  return rutasPorIdioma(ctx, idioma => `/${traducirSlug(row.slug, traducciones, idioma)}`);
+}
+
+/**
+ * Rutas de un artículo, video o testimonio según el nivel de navegación del prefijo.
+ * Retorna null si el prefijo es de nivel 2 y el contenido no tiene categoría.
+ */
+function rutasContenido(
+  ctx: ContextoSitemap,
+  config: RutaConfig,
+  row: { slug: string; slug_traducciones: any; categoria_slug: string | null; categoria_slug_traducciones: any }
+): Record<string, string> | null {
+  const traducciones = parseJson(row.slug_traducciones, {});
+
+  if (config.nivel_navegacion !== 2) {
+    return rutasPorIdioma(ctx, idioma =>
+      `/${prefijoLocalizado(config, idioma)}/${traducirSlug(row.slug, traducciones, idioma)}`
+    );
+  }
+
+  if (!row.categoria_slug) return null;
+  const traduccionesCategoria = parseJson(row.categoria_slug_traducciones, {});
+  return rutasPorIdioma(ctx, idioma =>
+    `/${prefijoLocalizado(config, idioma)}` +
+    `/${traducirSlug(row.categoria_slug!, traduccionesCategoria, idioma)}` +
+    `/${traducirSlug(row.slug, traducciones, idioma)}`
+  );
+}
+
+function rutasAsesor(ctx: ContextoSitemap, config: RutaConfig, row: { slug: string }): Record<string, string> {
+  return rutasPorIdioma(ctx, idioma => `/${prefijoLocalizado(config, idioma)}/${row.slug}`);
+}
+
+// ==================== URLS POR TIPO ====================
+
+async function getUrlsPaginas(ctx: ContextoSitemap): Promise<UrlSitemap[]> {
+  const urls: UrlSitemap[] = [{ rutas: rutasPorIdioma(ctx, () => '/'), lastmod: null }];
+
+  for (const config of ctx.rutasConfig) {
+    const contenido = Object.values(CONTENIDOS_SITEMAP).find(c => c.prefijos.includes(config.prefijo));
+    if (contenido && !contenidoHabilitado(ctx, contenido.permiso)) continue;
+
+    urls.push({
+      rutas: rutasPorIdioma(ctx, idioma => `/${prefijoLocalizado(config, idioma)}`),
+      lastmod: null,
+    });
+  }
+
+  return urls;
+}
+
+async function getUrlsPropiedades(ctx: ContextoSitemap): Promise<UrlSitemap[]> {
+  const result = await query(
+    `SELECT slug, slug_traducciones, updated_at
+     FROM propiedades
+     WHERE tenant_id = $1 AND activo = true AND estado_propiedad = 'disponible'
+       AND slug IS NOT NULL AND slug <> ''
+     ORDER BY updated_at DESC`,
+    [ctx.tenantId]
+  );
+
+  return result.rows.map((row: any) => ({ rutas: rutasPropiedad(ctx, row), lastmod: row.updated_at }));
+}
+
+/**
+ * Listados de un tag y de operación + tipo de propiedad, solo si tienen propiedades disponibles.
+ * Las combinaciones más profundas quedan fuera para no inflar el sitemap con páginas casi vacías.
+ */
+async function getUrlsListados(ctx: ContextoSitemap): Promise<UrlSitemap[]> {
+  const tags = await getTagsPropiedades(ctx.tenantId, 'es');
+
+  // Los tags globales y del tenant pueden repetir slug: el del tenant viene primero.
+  // Sin campo_query el tag no filtra y su listado duplicaría el general.
+  const tagsUnicos = new Map<string, TagPropiedad>();
+  for (const tag of tags) {
+    if (tag.campo_query && !tagsUnicos.has(tag.slug)) tagsUnicos.set(tag.slug, tag);
+  }
+
+  const operaciones = [...tagsUnicos.values()].filter(t => t.tipo === 'operacion');
+  const tiposPropiedad = [...tagsUnicos.values()].filter(t => t.tipo === 'tipo_propiedad');
+
+  const combinaciones: TagPropiedad[][] = [...tagsUnicos.values()].map(tag => [tag]);
+  for (const operacion of operaciones) {
+    for (const tipo of tiposPropiedad) {
+      combinaciones.push([operacion, tipo]);
+    }
+  }
+
+  const conteos = await countPropiedadesByCombinaciones(ctx.tenantId, combinaciones);
+
+  const urls: UrlSitemap[] = [];
+  for (const [i, combinacion] of combinaciones.entries()) {
+    const { total, ultima_actualizacion } = conteos[i];
+    if (total === 0) continue;
+
+    urls.push({
+      rutas: rutasPorIdioma(ctx, idioma =>
+        '/' + combinacion.map(tag => traducirSlug(tag.slug, tag.alias_idiomas || {}, idioma)).join('/')
+      ),
+      lastmod: ultima_actualizacion,
+    });
+  }
+
+  return urls;
+}
+
+async function getUrlsContenido(ctx: ContextoSitemap, tipo: keyof typeof CONTENIDOS_SITEMAP): Promise<UrlSitemap[]> {
+  const contenido = CONTENIDOS_SITEMAP[tipo];
+  if (!contenidoHabilitado(ctx, contenido.permiso)) return [];
+
+  const config = findRutaConfig(ctx, contenido.prefijos);
+  if (!config) return [];
+
+  const conCategoria = config.nivel_navegacion === 2;
+  const result = await query(
+    `SELECT t.slug, t.slug_traducciones, t.updated_at,
+            c.slug as categoria_slug, c.slug_traducciones as categoria_slug_traducciones
+     FROM ${contenido.tabla} t
+     LEFT JOIN categorias_contenido c ON t.categoria_id = c.id
+     WHERE t.tenant_id = $1 AND t.publicado = true AND t.slug IS NOT NULL AND t.slug <> ''
+     ORDER BY t.updated_at DESC`,
+    [ctx.tenantId]
+  );
+
+  const urls: UrlSitemap[] = [];
+  const categorias = new Map<string, UrlSitemap>();
+
+  for (const row of result.rows) {
+    const rutas = rutasContenido(ctx, config, row);
+    if (!rutas) continue;
+    urls.push({ rutas, lastmod: row.updated_at });
+
+    // Filas ordenadas por updated_at DESC: la primera de cada categoría da su lastmod
+    if (conCategoria && !categorias.has(row.categoria_slug)) {
+      const traduccionesCategoria = parseJson(row.categoria_slug_traducciones, {});
+      categorias.set(row.categoria_slug, {
+        rutas: rutasPorIdioma(ctx, idioma =>
+          `/${prefijoLocalizado(config, idioma)}/${traducirSlug(row.categoria_slug, traduccionesCategoria, idioma)}`
+        ),
+        lastmod: row.updated_at,
+      });
+    }
+  }
+
+  return [...categorias.values(), ...urls];
+}
+
+async function getUrlsAsesores(ctx: ContextoSitemap): Promise<UrlSitemap[]> {
+  const config = findRutaConfig(ctx, ['asesores']);
+  if (!config) return [];
+
+  const result = await query(
+    `SELECT pa.slug, GREATEST(pa.updated_at, u.updated_at) as updated_at
+     FROM perfiles_asesor pa
+     INNER JOIN usuarios u ON pa.usuario_id = u.id
+     WHERE pa.tenant_id = $1 AND pa.activo = true AND pa.visible_en_web = true AND u.activo = true
+     ORDER BY pa.orden ASC`,
+    [ctx.tenantId]
+  );
+
+  return result.rows.map((row: any) => ({ rutas: rutasAsesor(ctx, config, row), lastmod: row.updated_at }));
+}
+
+async function getUrlsPorTipo(ctx: ContextoSitemap, tipo: TipoSitemap): Promise<UrlSitemap[]> {
+  switch (tipo) {
+    case 'paginas':
+      return getUrlsPaginas(ctx);
+    case 'propiedades':
+      return getUrlsPropiedades(ctx);
+    case 'listados':
+      return getUrlsListados(ctx);
+    case 'articulos':
+    case 'videos':
+    case 'testimonios':
+      return getUrlsContenido(ctx, tipo);
+    case 'asesores':
+      return getUrlsAsesores(ctx);
+  }
+}
+
+// ==================== API ====================
+
+/**
+ * Rutas públicas actuales de una entidad por idioma, con prefijo de idioma
+ * (ej: { es: '/casa-en-naco', en: '/en/house-in-naco' }). Vacío si no existe o no tiene slug.
+ * Son las mismas URLs que publica el sitemap; las usa redireccionesService para detectar cambios.
+ */
+export async function getRutasEntidad(
+  tenantId: string,
+  tipo: TipoEntidadWeb,
+  entidadId: string
+): Promise<Record<string, string>> {
+  const ctx = await getContextoSitemap(tenantId, '');
+  if (!ctx) return {};
+
+  let rutas: Record<string, string> | null = null;
+
+  if (tipo === 'propiedad') {
+    const result = await query(
+      `SELECT slug, slug_traducciones FROM propiedades WHERE id = $1 AND tenant_id = $2`,
+      [entidadId, tenantId]
+    );
+    const row = result.rows[0];
+    if (row?.slug) rutas = rutasPropiedad(ctx, row);
+  } else if (tipo === 'asesor') {
+    const config = findRutaConfig(ctx, ['asesores']);
+    const result = await query(
+      `SELECT slug FROM perfiles_asesor WHERE id = $1 AND tenant_id = $2`,
+      [entidadId, tenantId]
+    );
+    const row = result.rows[0];
+    if (config && row?.slug) rutas = rutasAsesor(ctx, config, row);
+  } else {
+    const contenido = CONTENIDOS_SITEMAP[`${tipo}s`];
+    const config = findRutaConfig(ctx, contenido.prefijos);
+    const result = await query(
+      `SELECT t.slug, t.slug_traducciones,
+              c.slug as categoria_slug, c.slug_traducciones as categoria_slug_traducciones
+       FROM ${contenido.tabla} t
+       LEFT JOIN categorias_contenido c ON t.categoria_id = c.id
+       WHERE t.id = $1 AND t.tenant_id = $2`,
+      [entidadId, tenantId]
+    );
+    const row = result.rows[0];
+    if (config && row?.slug) rutas = rutasContenido(ctx, config, row);
+  }
+
+  if (!rutas) return {};
+
+  const rutasConIdioma: Record<string, string> = {};
+  for (const [idioma, ruta] of Object.entries(rutas)) {
+    rutasConIdioma[idioma] = urlAbsoluta(ctx, idioma, ruta);
+  }
+  return rutasConIdioma;
+}
+
+/**
+ * Rutas públicas actuales de una categoría de contenido por idioma, con prefijo de idioma.
+ * Vacío si el prefijo de su tipo no navega por categorías (nivel_navegacion distinto de 2).
+ */
+export async function getRutasCategoria(tenantId: string, categoriaId: string): Promise<Record<string, string>> {
+  const ctx = await getContextoSitemap(tenantId, '');
+  if (!ctx) return {};
+
+  const result = await query(
+    `SELECT slug, slug_traducciones, tipo FROM categorias_contenido WHERE id = $1 AND tenant_id = $2`,
+    [categoriaId, tenantId]
+  );
+  const row = result.rows[0];
+  const contenido = row ? CONTENIDOS_SITEMAP[`${row.tipo}s`] : null;
+  const config = contenido ? findRutaConfig(ctx, contenido.prefijos) : null;
+  if (!row?.slug || !config || config.nivel_navegacion !== 2) return {};
+
+  const traducciones = parseJson(row.slug_traducciones, {});
+  const rutas: Record<string, string> = {};
+  for (const idioma of ctx.idiomas) {
+    rutas[idioma] = urlAbsoluta(ctx, idioma, `/${prefijoLocalizado(config, idioma)}/${traducirSlug(row.slug, traducciones, idioma)}`);
+  }
+  return rutas;
+}
+
+/**
+ * Interpreta el nombre de un sitemap hijo ("propiedades", "propiedades-2").
+ * Retorna null si el tipo no existe.
+ */
+export function parseNombreSitemap(nombre: string): { tipo: TipoSitemap; pagina: number } | null {
+  const match = /^([a-z]+)(?:-(\d+))?$/.exec(nombre);
+  if (!match || !TIPOS_SITEMAP.includes(match[1] as TipoSitemap)) return null;
+
+  const pagina = match[2] ? parseInt(match[2], 10) : 1;
+  if (pagina < 1 || (match[2] && pagina === 1)) return null;
+  return { tipo: match[1] as TipoSitemap, pagina };
+}
+
+/**
+ * Sitemap index con los sitemaps de cada tipo que tiene URLs (varios si el tipo supera el límite).
+ * `baseUrl` es el origen público del sitio (ej: https://www.inmobiliaria.com).
+ */
+export async function generarSitemapIndex(tenantId: string, baseUrl: string): Promise<string | null> {
+  return conCacheSitemap(tenantId, 'sitemap.xml', async () => {
+    const ctx = await getContextoSitemap(tenantId, baseUrl);
+    if (!ctx) return null;
+
+    const entradas: string[] = [];
+    for (const tipo of TIPOS_SITEMAP) {
+      const paginas = paginarUrls(ctx, await getUrlsPorTipo(ctx, tipo));
+
+      for (const [i, urls] of paginas.entries()) {
+        const lastmods = urls.map(u => formatLastmod(u.lastmod)).filter((f): f is string => !!f).sort();
+        const lastmod = lastmods[lastmods.length - 1];
+        entradas.push(
+          `<sitemap><loc>${escapeXml(`${ctx.baseUrl}/${nombreSitemap(tipo, i + 1)}`)}</loc>` +
+          (lastmod ? `<lastmod>${lastmod}</lastmod>` : '') +
+          `</sitemap>`
+        );
+      }
+    }
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${entradas.join('\n')}
+</sitemapindex>`;
+  });
+}
+
+/**
+ * Sitemap de un tipo de URL (urlset con alternates hreflang). `pagina` empieza en 1;
+ * retorna null si el tenant no existe o la página no tiene URLs (salvo la primera).
+ */
+export async function generarSitemap(
+  tenantId: string,
+  baseUrl: string,
+  tipo: TipoSitemap,
+  pagina = 1
+): Promise<string | null> {
+  return conCacheSitemap(tenantId, nombreSitemap(tipo, pagina), async () => {
+    const ctx = await getContextoSitemap(tenantId, baseUrl);
+    if (!ctx) return null;
+
+    const paginas = paginarUrls(ctx, await getUrlsPorTipo(ctx, tipo));
+    const urls = paginas[pagina - 1];
+    if (!urls && pagina > 1) return null;
+
+    return renderUrlset(ctx, urls || []);
+  });
+}
+
+export async function getConfigRobots(tenantId: string): Promise<ConfigRobots | null> {
+  const result = await query(
+    `SELECT configuracion->'robots' as robots FROM tenants WHERE id = $1`,
+    [tenantId]
+  );
+  if (result.rows.length === 0) return null;
+
+  return { ...CONFIG_ROBOTS_DEFAULT, ...parseJson(result.rows[0].robots, {}) };
+}
+
+/**
+ * Normaliza la configuración de robots recibida del CRM.
+ * Lanza error si las rutas no empiezan con "/".
+ */
+export function normalizarConfigRobots(data: any): ConfigRobots {
+  const normalizarRutas = (valor: any, campo: string): string[] => {
+    if (valor === undefined || valor === null) return [];
+    if (!Array.isArray(valor)) throw new Error(`${campo} debe ser un array de rutas`);
+
+    return valor.map((ruta: any) => {
+      const limpia = String(ruta).trim();
+      if (!limpia.startsWith('/')) throw new Error(`Ruta inválida en ${campo}: "${limpia}" (debe empezar con /)`);
+      return limpia;
+    });
+  };
+
+  return {
+    bloquear_indexacion: data?.bloquear_indexacion === true,
+    disallow: normalizarRutas(data?.disallow, 'disallow'),
+    allow: normalizarRutas(data?.allow, 'allow'),
+    reglas_extra: typeof data?.reglas_extra === 'string' ? data.reglas_extra.trim() : '',
+  };
+}
+
+/**
+ * robots.txt del sitio con la configuración del tenant y el enlace al sitemap index
+ * (si el tenant tiene dominio verificado)
+ */
+export async function generarRobotsTxt(tenantId: string, baseUrl: string | null): Promise<string | null> {
+  const config = await getConfigRobots(tenantId);
+  if (!config) return null;
+
+  const lineas = ['User-agent: *'];
+  if (config.bloquear_indexacion) {
+    lineas.push('Disallow: /');
+  } else {
+    for (const ruta of config.allow) lineas.push(`Allow: ${ruta}`);
+    for (const ruta of config.disallow) lineas.push(`Disallow: ${ruta}`);
+    if (config.disallow.length === 0) lineas.push('Disallow:');
+  }
+
+  if (config.reglas_extra) {
+    lineas.push('', config.reglas_extra);
+  }
+
+  // Sin dominio verificado no hay sitemap que anunciar
+  if (!config.bloquear_indexacion && baseUrl) {
+    lineas.push('', `Sitemap: ${baseUrl.replace(/\/+$/, '')}/sitemap.xml`);
+  }
+
+  return lineas.join('\n') + '\n';
+}
+
+/**
+ * URL pública del sitio de un tenant según su dominio verificado (dominiosService).
+ * Null si no tiene dominio: los sitemaps necesitan URLs absolutas y no se arman
+ * con cabeceras de la petición.
+ */
+export async function getBaseUrlSitio(tenantId: string): Promise<string | null> {
+  return getUrlSitioTenant(tenantId);
+}
+
+/**
+ * URL del sitemap index para una propiedad de Search Console
+ * ("https://www.ejemplo.com/" o "sc-domain:ejemplo.com")
+ */
+export function getUrlSitemapSearchConsole(siteUrl: string): string {
+  const base = siteUrl.startsWith('sc-domain:')
+    ? `https://${siteUrl.slice('sc-domain:'.length)}`
+    : siteUrl;
+  return `${base.replace(/\/+$/, '')}/sitemap.xml`;
+}
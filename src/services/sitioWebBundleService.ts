@@ -0,0 +1,473 @@
+/**
+ * sitioWebBundleService.ts
+ *
+ * Exporta la definición completa del sitio web de un tenant como un bundle JSON
+ * versionado y la importa en otro tenant (clonar el sitio de una oficina probada
+ * para una franquicia nueva).
+ *
+ * El bundle incluye:
+ * - tema (temas_tenant)
+ * - categorías de contenido (categorias_contenido)
+ * - rutas/páginas custom (tenants_rutas_config_custom)
+ * - páginas: componentes publicados (componentes_web) agrupados por página estándar,
+ *   página custom o globales (header/footer). La variante de cada página queda
+ *   definida por la variante del catálogo de sus componentes (componente_key); las
+ *   tablas de variantes de página anteriores se eliminaron en la migración 076.
+ *
+ * Las referencias globales viajan por código (componente_key del catálogo, código de
+ * tipos_pagina) y los ids propios del tenant se remapean al importar, incluso dentro
+ * de los datos de los componentes. Los borradores y revisiones no se exportan.
+ */
+
+import { randomUUID } from 'crypto';
+import { query, transaction } from '../utils/db.js';
+import { invalidarCacheRender } from './renderCacheService.js';
+
+export const FORMATO_BUNDLE = 'sitio-web';
+export const VERSION_BUNDLE = 1;
+
+export type EstrategiaConflictos = 'omitir' | 'reemplazar';
+
+export interface ComponenteBundle {
+  id: string;
+  componente: string; // componente_key (o tipo si la variante no tiene key)
+  nombre: string | null;
+  datos: any;
+  activo: boolean;
+  orden: number;
+}
+
+export interface PaginaBundle {
+  tipo: 'global' | 'estandar' | 'custom';
+  tipo_pagina: string | null; // código en tipos_pagina (páginas estándar)
+  ruta_custom_id: string | null; // id de la ruta custom dentro del bundle
+  componentes: ComponenteBundle[];
+}
+
+export interface SitioWebBundle {
+  formato: typeof FORMATO_BUNDLE;
+  version: number;
+  exportado_at: string;
+  origen: { tenant_id: string; slug: string; nombre: string };
+  tema: { nombre: string; colores: any; tipografia: any; espaciado: any } | null;
+  categorias_contenido: any[];
+  rutas_custom: Array<{ id: string; tipo_pagina: string | null; fila: Record<string, any> }>;
+  paginas: PaginaBundle[];
+}
+
+export interface ConflictoImportacion {
+  tipo: 'tema' | 'categoria' | 'ruta_custom' | 'pagina';
+  clave: string;
+  accion: EstrategiaConflictos;
+}
+
+export interface ResultadoImportacion {
+  dry_run: boolean;
+  estrategia: EstrategiaConflictos;
+  resumen: {
+    tema: 'crear' | EstrategiaConflictos | null;
+    categorias: { crear: number; reemplazar: number; omitir: number };
+    rutas_custom: { crear: number; existentes: number };
+    paginas: { crear: number; reemplazar: number; omitir: number };
+    componentes: number;
+  };
+  conflictos: ConflictoImportacion[];
+  errores: string[];
+}
+
+// ==================== EXPORTAR ====================
+
+function clavePagina(tipoPaginaId: string | null, customId: string | null): string {
+  return `${tipoPaginaId || ''}|${customId || ''}`;
+}
+
+/**
+ * Exporta el sitio web del tenant como bundle
+ */
+export async function exportarSitioWeb(tenantId: string): Promise<SitioWebBundle | null> {
+  const tenantResult = await query(`SELECT id, slug, nombre FROM tenants WHERE id = $1`, [tenantId]);
+  const tenant = tenantResult.rows[0];
+  if (!tenant) return null;
+
+  const temaResult = await query(
+    `SELECT nombre, colores, tipografia, espaciado
+     FROM temas_tenant
+     WHERE tenant_id = $1 AND activo = true
+     LIMIT 1`,
+    [tenantId]
+  );
+
+  const categoriasResult = await query(
+    `SELECT id, slug, tipo, nombre, descripcion, traducciones, slug_traducciones, icono, color, orden, activa
+     FROM categorias_contenido
+     WHERE tenant_id = $1
+     ORDER BY tipo, orden, nombre`,
+    [tenantId]
+  );
+
+  // La fila completa: las columnas de esta tabla variaron entre versiones (prefijo/slug)
+  const rutasResult = await query(
+    `SELECT r.id, tp.codigo as tipo_pagina,
+            to_jsonb(r) - 'id' - 'tenant_id' - 'tipo_pagina_id' - 'created_at' - 'updated_at' as fila
+     FROM tenants_rutas_config_custom r
+     LEFT JOIN tipos_pagina tp ON tp.id = r.tipo_pagina_id
+     WHERE r.tenant_id = $1
+     ORDER BY r.created_at`,
+    [tenantId]
+  );
+
+  const componentesResult = await query(
+    `SELECT cw.id, COALESCE(cc.componente_key, cc.tipo) as componente, cw.nombre, cw.datos, cw.activo, cw.orden,
+            cw.tipo_pagina_id, cw.tenant_rutas_config_custom_id, tp.codigo as tipo_pagina
+     FROM componentes_web cw
+     JOIN catalogo_componentes cc ON cc.id = cw.componente_catalogo_id
+     LEFT JOIN tipos_pagina tp ON tp.id = cw.tipo_pagina_id
+     WHERE cw.tenant_id = $1
+     ORDER BY tp.codigo NULLS FIRST, cw.orden`,
+    [tenantId]
+  );
+
+  const paginas = new Map<string, PaginaBundle>();
+  for (const row of componentesResult.rows) {
+    const clave = clavePagina(row.tipo_pagina_id, row.tenant_rutas_config_custom_id);
+    if (!paginas.has(clave)) {
+      paginas.set(clave, {
+        tipo: row.tenant_rutas_config_custom_id ? 'custom' : row.tipo_pagina_id ? 'estandar' : 'global',
+        tipo_pagina: row.tipo_pagina || null,
+        ruta_custom_id: row.tenant_rutas_config_custom_id || null,
+        componentes: [],
+      });
+    }
+    paginas.get(clave)!.componentes.push({
+      id: row.id,
+      componente: row.componente,
+      nombre: row.nombre,
+      datos: row.datos || {},
+      activo: row.activo !== false,
+      orden: row.orden ?? 0,
+    });
+  }
+
+  return {
+    formato: FORMATO_BUNDLE,
+    version: VERSION_BUNDLE,
+    exportado_at: new Date().toISOString(),
+    origen: { tenant_id: tenant.id, slug: tenant.slug, nombre: tenant.nombre },
+    tema: temaResult.rows[0] || null,
+    categorias_contenido: categoriasResult.rows,
+    rutas_custom: rutasResult.rows,
+    paginas: Array.from(paginas.values()),
+  };
+}
+
+// ==================== IMPORTAR ====================
+
+/**
+ * Valida la forma del bundle. Retorna un mensaje de error o null.
+ */
+export function validarBundle(bundle: any): string | null {
+  if (!bundle || typeof bundle !== 'object') {
+    return 'El bundle debe ser un objeto JSON';
+  }
+  if (bundle.formato !== FORMATO_BUNDLE) {
+    return `Formato de bundle no soportado (se esperaba "${FORMATO_BUNDLE}")`;
+  }
+  if (!Number.isInteger(bundle.version) || bundle.version < 1 || bundle.version > VERSION_BUNDLE) {
+    return `Versión de bundle no soportada: ${bundle.version} (máxima: ${VERSION_BUNDLE})`;
+  }
+  if (!bundle.origen?.tenant_id) {
+    return 'El bundle no indica el tenant de origen';
+  }
+  for (const clave of ['categorias_contenido', 'rutas_custom', 'paginas']) {
+    if (!Array.isArray(bundle[clave])) {
+      return `El bundle no tiene la lista ${clave}`;
+    }
+  }
+  return null;
+}
+
+function claveRuta(fila: Record<string, any>): string {
+  return String(fila.prefijo ?? fila.slug ?? '');
+}
+
+/**
+ * Reemplaza los ids del tenant origen por los del destino dentro de los datos
+ * de un componente (ej: filtros por categoría o links a páginas custom)
+ */
+function remapearDatos(datos: any, ids: Map<string, string>): any {
+  let json = JSON.stringify(datos ?? {});
+  for (const [origen, destino] of ids) {
+    if (origen !== destino) json = json.split(origen).join(destino);
+  }
+  return JSON.parse(json);
+}
+
+/**
+ * Importa un bundle en el tenant destino. Con dryRun solo calcula la vista previa
+ * (qué se crea, qué entra en conflicto y qué falta en este entorno) sin escribir nada.
+ *
+ * Conflictos (según estrategia):
+ * - tema existente: se reemplaza o se conserva
+ * - categoría con el mismo slug y tipo: se actualiza o se conserva
+ * - ruta custom con el mismo prefijo: siempre se conserva la existente y sus
+ *   componentes se tratan como los de cualquier página
+ * - página con componentes: se reemplazan (descartando su borrador) o se conservan
+ */
+export async function importarSitioWeb(
+  tenantId: string,
+  bundle: SitioWebBundle,
+  opciones: { dryRun?: boolean; estrategia?: EstrategiaConflictos } = {}
+): Promise<ResultadoImportacion> {
+  const dryRun = opciones.dryRun !== false;
+  const estrategia: EstrategiaConflictos = opciones.estrategia === 'reemplazar' ? 'reemplazar' : 'omitir';
+
+  const resultado: ResultadoImportacion = {
+    dry_run: dryRun,
+    estrategia,
+    resumen: {
+      tema: null,
+      categorias: { crear: 0, reemplazar: 0, omitir: 0 },
+      rutas_custom: { crear: 0, existentes: 0 },
+      paginas: { crear: 0, reemplazar: 0, omitir: 0 },
+      componentes: 0,
+    },
+    conflictos: [],
+    errores: [],
+  };
+
+  // Referencias globales del entorno destino
+  const catalogoResult = await query(`SELECT id, tipo, componente_key FROM catalogo_componentes`);
+  const catalogo = new Map<string, string>();
+  for (const row of catalogoResult.rows) {
+    if (!catalogo.has(row.tipo)) catalogo.set(row.tipo, row.id);
+  }
+  for (const row of catalogoResult.rows) {
+    if (row.componente_key) catalogo.set(row.componente_key, row.id);
+  }
+
+  const tiposResult = await query(`SELECT id, codigo FROM tipos_pagina`);
+  const tiposPagina = new Map<string, string>(tiposResult.rows.map((r: any) => [r.codigo, r.id]));
+
+  // Estado actual del tenant destino
+  const [temaActual, categoriasActuales, rutasActuales, paginasActuales] = await Promise.all([
+    query(`SELECT id FROM temas_tenant WHERE tenant_id = $1 LIMIT 1`, [tenantId]),
+    query(`SELECT id, slug, tipo FROM categorias_contenido WHERE tenant_id = $1`, [tenantId]),
+    query(`SELECT id, to_jsonb(r) as fila FROM tenants_rutas_config_custom r WHERE tenant_id = $1`, [tenantId]),
+    query(
+      `SELECT tipo_pagina_id, tenant_rutas_config_custom_id, COUNT(*)::int as total
+       FROM componentes_web WHERE tenant_id = $1
+       GROUP BY tipo_pagina_id, tenant_rutas_config_custom_id`,
+      [tenantId]
+    ),
+  ]);
+
+  // ids del bundle → ids del destino
+  const ids = new Map<string, string>([[bundle.origen.tenant_id, tenantId]]);
+
+  // Tema
+  if (bundle.tema) {
+    if (temaActual.rows[0]) {
+      resultado.resumen.tema = estrategia;
+      resultado.conflictos.push({ tipo: 'tema', clave: bundle.tema.nombre, accion: estrategia });
+    } else {
+      resultado.resumen.tema = 'crear';
+    }
+  }
+
+  // Categorías
+  const categoriasExistentes = new Map<string, string>(
+    categoriasActuales.rows.map((c: any) => [`${c.tipo}/${c.slug}`, c.id])
+  );
+  const categoriasPlan: Array<{ categoria: any; destinoId: string; accion: 'crear' | EstrategiaConflictos }> = [];
+  for (const categoria of bundle.categorias_contenido) {
+    const clave = `${categoria.tipo}/${categoria.slug}`;
+    const existente = categoriasExistentes.get(clave);
+    const accion = existente ? estrategia : 'crear';
+    if (existente) resultado.conflictos.push({ tipo: 'categoria', clave, accion: estrategia });
+    resultado.resumen.categorias[accion]++;
+
+    const destinoId = existente || randomUUID();
+    ids.set(categoria.id, destinoId);
+    categoriasPlan.push({ categoria, destinoId, accion });
+  }
+
+  // Rutas custom
+  const rutasExistentes = new Map<string, string>(
+    rutasActuales.rows.map((r: any) => [claveRuta(r.fila), r.id])
+  );
+  const rutasPlan: Array<{ ruta: SitioWebBundle['rutas_custom'][number]; destinoId: string }> = [];
+  for (const ruta of bundle.rutas_custom) {
+    const clave = claveRuta(ruta.fila || {});
+    if (ruta.tipo_pagina && !tiposPagina.has(ruta.tipo_pagina)) {
+      resultado.errores.push(`La ruta custom "${clave}" usa el tipo de página "${ruta.tipo_pagina}", que no existe`);
+    }
+
+    const existente = rutasExistentes.get(clave);
+    if (existente) {
+      resultado.resumen.rutas_custom.existentes++;
+      resultado.conflictos.push({ tipo: 'ruta_custom', clave, accion: 'omitir' });
+      ids.set(ruta.id, existente);
+    } else {
+      resultado.resumen.rutas_custom.crear++;
+      const destinoId = randomUUID();
+      ids.set(ruta.id, destinoId);
+      rutasPlan.push({ ruta, destinoId });
+    }
+  }
+
+  // Páginas
+  const paginasConComponentes = new Set(
+    paginasActuales.rows.map((p: any) => clavePagina(p.tipo_pagina_id, p.tenant_rutas_config_custom_id))
+  );
+  const paginasPlan: Array<{
+    pagina: PaginaBundle;
+    tipoPaginaId: string | null;
+    customId: string | null;
+    reemplazar: boolean;
+  }> = [];
+  for (const pagina of bundle.paginas) {
+    const nombre = pagina.tipo === 'global' ? 'globales' : pagina.tipo_pagina || `custom:${pagina.ruta_custom_id}`;
+
+    const tipoPaginaId = pagina.tipo_pagina ? tiposPagina.get(pagina.tipo_pagina) ?? null : null;
+    if (pagina.tipo_pagina && !tipoPaginaId) {
+      resultado.errores.push(`El tipo de página "${pagina.tipo_pagina}" no existe`);
+      continue;
+    }
+    const customId = pagina.ruta_custom_id ? ids.get(pagina.ruta_custom_id) ?? null : null;
+    if (pagina.ruta_custom_id && !customId) {
+      resultado.errores.push(`La página ${nombre} referencia una ruta custom que no está en el bundle`);
+      continue;
+    }
+
+    for (const componente of pagina.componentes) {
+      if (!catalogo.has(componente.componente)) {
+        resultado.errores.push(`El componente "${componente.componente}" (página ${nombre}) no existe en el catálogo`);
+      }
+    }
+
+    const existe = paginasConComponentes.has(clavePagina(tipoPaginaId, customId));
+    const accion = existe ? estrategia : 'crear';
+    if (existe) resultado.conflictos.push({ tipo: 'pagina', clave: nombre, accion: estrategia });
+    resultado.resumen.paginas[accion]++;
+    if (accion === 'omitir') continue;
+
+    resultado.resumen.componentes += pagina.componentes.length;
+    paginasPlan.push({ pagina, tipoPaginaId, customId, reemplazar: existe });
+  }
+
+  if (dryRun || resultado.errores.length > 0) {
+    return resultado;
+  }
+
+  await transaction(async (client) => {
+    if (bundle.tema && resultado.resumen.tema === 'crear') {
+      await client.query(
+        `INSERT INTO temas_tenant (tenant_id, nombre, colores, tipografia, espaciado, activo)
+         VALUES ($1, $2, $3, $4, $5, true)`,
+        [
+          tenantId,
+          bundle.tema.nombre,
+          JSON.stringify(bundle.tema.colores || {}),
+          JSON.stringify(bundle.tema.tipografia || {}),
+          JSON.stringify(bundle.tema.espaciado || {}),
+        ]
+      );
+    } else if (bundle.tema && resultado.resumen.tema === 'reemplazar') {
+      await client.query(
+        `UPDATE temas_tenant
+         SET nombre = $2, colores = $3, tipografia = $4, espaciado = $5, activo = true, updated_at = NOW()
+         WHERE tenant_id = $1`,
+        [
+          tenantId,
+          bundle.tema.nombre,
+          JSON.stringify(bundle.tema.colores || {}),
+          JSON.stringify(bundle.tema.tipografia || {}),
+          JSON.stringify(bundle.tema.espaciado || {}),
+        ]
+      );
+    }
+
+    for (const { categoria, destinoId, accion } of categoriasPlan) {
+      if (accion === 'omitir') continue;
+      const valores = [
+        destinoId,
+        tenantId,
+        categoria.slug,
+        categoria.tipo,
+        categoria.nombre,
+        categoria.descripcion ?? null,
+        JSON.stringify(categoria.traducciones || {}),
+        JSON.stringify(categoria.slug_traducciones || {}),
+        categoria.icono ?? null,
+        categoria.color ?? null,
+        categoria.orden ?? 0,
+        categoria.activa !== false,
+      ];
+
+      if (accion === 'crear') {
+        await client.query(
+          `INSERT INTO categorias_contenido
+             (id, tenant_id, slug, tipo, nombre, descripcion, traducciones, slug_traducciones, icono, color, orden, activa)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)`,
+          valores
+        );
+      } else {
+        await client.query(
+          `UPDATE categorias_contenido
+           SET slug = $3, tipo = $4, nombre = $5, descripcion = $6, traducciones = $7, slug_traducciones = $8,
+               icono = $9, color = $10, orden = $11, activa = $12, updated_at = NOW()
+           WHERE id = $1 AND tenant_id = $2`,
+          valores
+        );
+      }
+    }
+
+    for (const { ruta, destinoId } of rutasPlan) {
+      const fila = {
+        ...ruta.fila,
+        id: destinoId,
+        tenant_id: tenantId,
+        tipo_pagina_id: ruta.tipo_pagina ? tiposPagina.get(ruta.tipo_pagina) : null,
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      };
+      await client.query(
+        `INSERT INTO tenants_rutas_config_custom
+         SELECT * FROM jsonb_populate_record(NULL::tenants_rutas_config_custom, $1::jsonb)`,
+        [JSON.stringify(fila)]
+      );
+    }
+
+    for (const { pagina, tipoPaginaId, customId, reemplazar } of paginasPlan) {
+      if (reemplazar) {
+        const filtro = `tenant_id = $1
+          AND tipo_pagina_id IS NOT DISTINCT FROM $2::uuid
+          AND tenant_rutas_config_custom_id IS NOT DISTINCT FROM $3::uuid`;
+        await client.query(`DELETE FROM componentes_web WHERE ${filtro}`, [tenantId, tipoPaginaId, customId]);
+        // El borrador tendría los componentes anteriores y los volvería a publicar
+        await client.query(`DELETE FROM paginas_borradores WHERE ${filtro}`, [tenantId, tipoPaginaId, customId]);
+      }
+
+      for (const componente of pagina.componentes) {
+        await client.query(
+          `INSERT INTO componentes_web (
+             tenant_id, componente_catalogo_id, nombre, datos, activo, orden, tipo_pagina_id, tenant_rutas_config_custom_id
+           ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+          [
+            tenantId,
+            catalogo.get(componente.componente),
+            componente.nombre,
+            JSON.stringify(remapearDatos(componente.datos, ids)),
+            componente.activo !== false,
+            componente.orden ?? 0,
+            tipoPaginaId,
+            customId,
+          ]
+        );
+      }
+    }
+  });
+
+  await invalidarCacheRender(tenantId, 'sitio web importado');
+  return resultado;
+}
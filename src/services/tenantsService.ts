@@ -3,6 +3,7 @@
  */
 
 import { query } from '../utils/db.js';
+import { resolverDominio } from './dominiosService.js';
 
 export interface TenantResponse {
   id: string;
@@ -14,6 +15,11 @@ export interface TenantResponse {
   createdAt: string;
   updatedAt: string;
   dominioPersonalizado?: string; // Dominio personalizado (ej: inmobiliariadeltenant.com)
+  dominio?: {                    // Solo al detectar por dominio personalizado (ver dominiosService)
+    tipo: string;                // principal, alias o idioma
+    idioma: string | null;       // idioma que sirve un dominio por idioma
+    redirigirA: string | null;   // dominio principal al que redirigir (301) un alias
+  };
 }
 
 /**
@@ -85,7 +91,11 @@ export async function getTenantByDomain(domain: string): Promise<TenantResponse
         created_at as "createdAt",
         updated_at as "updatedAt"
       FROM tenants
-      WHERE dominio_personalizado = $1 AND activo = true
+      WHERE activo = true
+        AND (
+          dominio_personalizado = $1
+          OR id = (SELECT tenant_id FROM tenants_dominios WHERE dominio = $1 AND estado = 'verificado')
+        )
       LIMIT 1
     `;
     
@@ -148,9 +158,17 @@ export async function getTenantByHostname(
     }
     
     // Caso 3: Es un dominio personalizado
-    // Ejemplo: inmobiliariadeltenant.com → buscar por dominio_personalizado
+    // Ejemplo: inmobiliariadeltenant.com → buscar por dominio_personalizado o tenants_dominios
     console.log(`   📌 Detectado como dominio personalizado: "${hostname}"`);
-    return await getTenantByDomain(hostname);
+    const tenant = await getTenantByDomain(hostname.toLowerCase());
+    if (!tenant) return null;
+
+    // Alias → redirección al principal; dominio por idioma → idioma del sitio
+    const dominio = await resolverDominio(hostname);
+    if (dominio) {
+      tenant.dominio = { tipo: dominio.tipo, idioma: dominio.idioma, redirigirA: dominio.redirigir_a };
+    }
+    return tenant;
   } catch (error: any) {
     console.error('Error al detectar tenant por hostname:', error);
     throw new Error(`Error al detectar tenant por hostname: ${error.message}`);
@@ -1,10 +1,17 @@
 /**
  * Servicio de Unidades de Proyecto
  *
- * Gestiona el inventario de unidades para proyectos inmobiliarios
+ * Gestiona el inventario de unidades para proyectos inmobiliarios.
+ * Las reservas vencen automáticamente según disponibilidad_config.reservas
+ * del proyecto (ver liberarReservasVencidas, ejecutado por cron).
  */
 
 import { query } from '../utils/db.js';
+import { createActividad } from './actividadesService.js';
+
+// Duración por defecto de una reserva (las desarrolladoras exigen 72 horas)
+export const DURACION_RESERVA_HORAS_DEFAULT = 72;
+export const MAX_EXTENSIONES_RESERVA_DEFAULT = 1;
 
 // Tipos
 export interface UnidadProyecto {
@@ -27,6 +34,9 @@ export interface UnidadProyecto {
   fecha_venta?: Date;
   reservado_por?: string;
   vendido_a?: string;
+  reserva_expira_at?: Date;
+  reservado_por_usuario_id?: string;
+  extensiones_reserva?: number;
   notas?: string;
   orden?: number;
   created_at?: Date;
@@ -38,6 +48,18 @@ export interface DisponibilidadConfig {
   enlace_url?: string;
   archivo_url?: string;
   archivo_nombre?: string;
+  reservas?: ConfigReservas;
+}
+
+export interface ConfigReservas {
+  duracion_horas?: number;    // Horas que dura una reserva antes de liberarse
+  horas_extension?: number;   // Horas que agrega cada extensión (default: duracion_horas)
+  max_extensiones?: number;   // Extensiones permitidas por reserva
+}
+
+export interface ResultadoReserva {
+  unidad: UnidadProyecto | null;
+  error?: 'conflicto' | 'no_reservada' | 'limite_extensiones';
 }
 
 export interface EstadisticasUnidades {
@@ -118,7 +140,8 @@ export async function createUnidad(
     data.torre || null,
     data.piso || null,
     data.nivel || null,
-    data.estado || 'disponible',
+    // Una unidad no nace reservada: la reserva se hace después con reservarUnidad
+    data.estado && data.estado !== 'reservada' ? data.estado : 'disponible',
     data.notas || null,
     data.orden || 0
   ]);
@@ -126,6 +149,11 @@ export async function createUnidad(
   return result.rows[0];
 }
 
+// Campos que solo cambian por cambiarEstadoUnidad / reservarUnidad (PATCH /estado, /reservar)
+export const CAMPOS_ESTADO_UNIDAD = ['estado', 'fecha_reserva', 'reservado_por'] as const;
+
+const ESTADOS_UNIDAD: UnidadProyecto['estado'][] = ['disponible', 'reservada', 'bloqueada', 'vendida'];
+
 /**
  * Actualiza una unidad
  */
@@ -138,11 +166,13 @@ export async function updateUnidad(
   const params: any[] = [];
   let paramIndex = 1;
 
+  // El estado y los datos de reserva solo cambian por cambiarEstadoUnidad / reservarUnidad,
+  // así una unidad no queda reservada sin verificar conflictos ni sin vencimiento
   const allowedFields = [
     'codigo', 'tipologia_id', 'tipologia_nombre',
     'habitaciones', 'banos', 'm2', 'precio', 'moneda',
-    'torre', 'piso', 'nivel', 'estado',
-    'fecha_reserva', 'fecha_venta', 'reservado_por', 'vendido_a',
+    'torre', 'piso', 'nivel',
+    'fecha_venta', 'vendido_a',
     'notas', 'orden'
   ];
 
@@ -209,32 +239,39 @@ export async function deleteUnidadesByPropiedad(
 // ============ Operaciones de Estado ============
 
 /**
- * Cambia el estado de una unidad
+ * Cambia el estado de una unidad.
+ * Las reservas no pasan por aquí: usan reservarUnidad (verificación de conflicto y vencimiento).
  */
 export async function cambiarEstadoUnidad(
   tenantId: string,
   unidadId: string,
-  nuevoEstado: UnidadProyecto['estado'],
+  nuevoEstado: Exclude<UnidadProyecto['estado'], 'reservada'>,
   contactoId?: string
 ): Promise<UnidadProyecto | null> {
-  let updateData: Partial<UnidadProyecto> = { estado: nuevoEstado };
+  const params: any[] = [nuevoEstado, unidadId, tenantId];
 
   // Actualizar campos de tracking según el estado
-  if (nuevoEstado === 'reservada') {
-    updateData.fecha_reserva = new Date();
-    if (contactoId) updateData.reservado_por = contactoId;
-  } else if (nuevoEstado === 'vendida') {
-    updateData.fecha_venta = new Date();
-    if (contactoId) updateData.vendido_a = contactoId;
+  let tracking = '';
+  if (nuevoEstado === 'vendida') {
+    tracking = ', fecha_venta = NOW()';
+    if (contactoId) {
+      params.push(contactoId);
+      tracking += `, vendido_a = $${params.length}`;
+    }
   } else if (nuevoEstado === 'disponible') {
     // Limpiar tracking al volver a disponible
-    updateData.fecha_reserva = undefined;
-    updateData.fecha_venta = undefined;
-    updateData.reservado_por = undefined;
-    updateData.vendido_a = undefined;
+    tracking = ', fecha_reserva = NULL, fecha_venta = NULL, reservado_por = NULL, vendido_a = NULL';
   }
 
-  return updateUnidad(tenantId, unidadId, updateData);
+  const sql = `
+    UPDATE unidades_proyecto
+    SET estado = $1, updated_at = NOW() ${tracking},
+        reserva_expira_at = NULL, reservado_por_usuario_id = NULL, extensiones_reserva = 0
+    WHERE id = $2 AND tenant_id = $3
+    RETURNING *
+  `;
+  const result = await query(sql, params);
+  return result.rows[0] || null;
 }
 
 /**
@@ -243,22 +280,44 @@ export async function cambiarEstadoUnidad(
 export async function cambiarEstadoMasivo(
   tenantId: string,
   unidadIds: string[],
-  nuevoEstado: UnidadProyecto['estado']
+  nuevoEstado: UnidadProyecto['estado'],
+  usuarioId?: string
 ): Promise<number> {
   if (unidadIds.length === 0) return 0;
 
+  // Las reservas solo aplican a unidades libres y siempre llevan vencimiento
+  if (nuevoEstado === 'reservada') {
+    const placeholders = unidadIds.map((_, i) => `$${i + 4}`).join(', ');
+    const sql = `
+      UPDATE unidades_proyecto u
+      SET estado = 'reservada',
+          fecha_reserva = NOW(),
+          reservado_por_usuario_id = $2,
+          reserva_expira_at = NOW() + make_interval(hours => ${SQL_DURACION_RESERVA}),
+          extensiones_reserva = 0,
+          updated_at = NOW()
+      FROM propiedades p
+      WHERE p.id = u.propiedad_id
+        AND u.tenant_id = $1
+        AND u.id IN (${placeholders})
+        AND ${SQL_UNIDAD_LIBRE}
+      RETURNING u.id
+    `;
+    const result = await query(sql, [tenantId, usuarioId || null, DURACION_RESERVA_HORAS_DEFAULT, ...unidadIds]);
+    return result.rows.length;
+  }
+
   const placeholders = unidadIds.map((_, i) => `$${i + 3}`).join(', ');
 
   let fechaField = '';
-  if (nuevoEstado === 'reservada') {
-    fechaField = ', fecha_reserva = NOW()';
-  } else if (nuevoEstado === 'vendida') {
+  if (nuevoEstado === 'vendida') {
     fechaField = ', fecha_venta = NOW()';
   }
 
   const sql = `
     UPDATE unidades_proyecto
-    SET estado = $1, updated_at = NOW() ${fechaField}
+    SET estado = $1, updated_at = NOW() ${fechaField},
+        reserva_expira_at = NULL, reservado_por_usuario_id = NULL, extensiones_reserva = 0
     WHERE tenant_id = $2 AND id IN (${placeholders})
     RETURNING id
   `;
@@ -267,6 +326,194 @@ export async function cambiarEstadoMasivo(
   return result.rows.length;
 }
 
+// ============ Reservas ============
+
+// Fragmentos SQL compartidos (requieren alias u = unidades_proyecto, p = propiedades)
+const SQL_DURACION_RESERVA = `COALESCE((p.disponibilidad_config->'reservas'->>'duracion_horas')::int, $3)`;
+const SQL_UNIDAD_LIBRE = `(u.estado = 'disponible' OR (u.estado = 'reservada' AND u.reserva_expira_at <= NOW()))`;
+
+/**
+ * Obtiene la configuración de reservas del proyecto con sus valores por defecto
+ */
+export async function getConfigReservas(
+  tenantId: string,
+  propiedadId: string
+): Promise<Required<ConfigReservas>> {
+  const config = await getDisponibilidadConfig(tenantId, propiedadId);
+  const reservas = config?.reservas || {};
+  const duracion = reservas.duracion_horas || DURACION_RESERVA_HORAS_DEFAULT;
+
+  return {
+    duracion_horas: duracion,
+    horas_extension: reservas.horas_extension || duracion,
+    max_extensiones: reservas.max_extensiones ?? MAX_EXTENSIONES_RESERVA_DEFAULT,
+  };
+}
+
+/**
+ * Reserva una unidad para un contacto.
+ * La verificación de disponibilidad y el cambio de estado ocurren en un solo UPDATE,
+ * así dos asesores no pueden apartar la misma unidad al mismo tiempo.
+ */
+export async function reservarUnidad(
+  tenantId: string,
+  unidadId: string,
+  contactoId?: string,
+  usuarioId?: string
+): Promise<ResultadoReserva> {
+  const sql = `
+    UPDATE unidades_proyecto u
+    SET estado = 'reservada',
+        fecha_reserva = NOW(),
+        reservado_por = $4,
+        reservado_por_usuario_id = $5,
+        reserva_expira_at = NOW() + make_interval(hours => ${SQL_DURACION_RESERVA}),
+        extensiones_reserva = 0,
+        fecha_venta = NULL,
+        vendido_a = NULL,
+        updated_at = NOW()
+    FROM propiedades p
+    WHERE u.id = $1 AND u.tenant_id = $2
+      AND p.id = u.propiedad_id
+      AND ${SQL_UNIDAD_LIBRE}
+    RETURNING u.*
+  `;
+  const result = await query(sql, [
+    unidadId,
+    tenantId,
+    DURACION_RESERVA_HORAS_DEFAULT,
+    contactoId || null,
+    usuarioId || null,
+  ]);
+
+  if (result.rows.length > 0) {
+    return { unidad: result.rows[0] };
+  }
+
+  const unidad = await getUnidadById(tenantId, unidadId);
+  return unidad ? { unidad, error: 'conflicto' } : { unidad: null };
+}
+
+/**
+ * Extiende una reserva vigente, respetando el máximo de extensiones del proyecto
+ */
+export async function extenderReserva(
+  tenantId: string,
+  unidadId: string
+): Promise<ResultadoReserva> {
+  const sql = `
+    UPDATE unidades_proyecto u
+    SET reserva_expira_at = GREATEST(COALESCE(u.reserva_expira_at, NOW()), NOW()) + make_interval(hours => COALESCE(
+          (p.disponibilidad_config->'reservas'->>'horas_extension')::int,
+          ${SQL_DURACION_RESERVA}
+        )),
+        extensiones_reserva = u.extensiones_reserva + 1,
+        updated_at = NOW()
+    FROM propiedades p
+    WHERE u.id = $1 AND u.tenant_id = $2
+      AND p.id = u.propiedad_id
+      AND u.estado = 'reservada'
+      AND (u.reserva_expira_at IS NULL OR u.reserva_expira_at > NOW())
+      AND u.extensiones_reserva < COALESCE((p.disponibilidad_config->'reservas'->>'max_extensiones')::int, $4)
+    RETURNING u.*
+  `;
+  const result = await query(sql, [unidadId, tenantId, DURACION_RESERVA_HORAS_DEFAULT, MAX_EXTENSIONES_RESERVA_DEFAULT]);
+
+  if (result.rows.length > 0) {
+    return { unidad: result.rows[0] };
+  }
+
+  const unidad = await getUnidadById(tenantId, unidadId);
+  if (!unidad) return { unidad: null };
+
+  const vigente = unidad.estado === 'reservada'
+    && (!unidad.reserva_expira_at || new Date(unidad.reserva_expira_at).getTime() > Date.now());
+  return { unidad, error: vigente ? 'limite_extensiones' : 'no_reservada' };
+}
+
+/**
+ * Libera manualmente una reserva, devolviendo la unidad a 'disponible'
+ */
+export async function liberarReserva(
+  tenantId: string,
+  unidadId: string
+): Promise<ResultadoReserva> {
+  const sql = `
+    UPDATE unidades_proyecto
+    SET estado = 'disponible',
+        fecha_reserva = NULL,
+        reservado_por = NULL,
+        reservado_por_usuario_id = NULL,
+        reserva_expira_at = NULL,
+        extensiones_reserva = 0,
+        updated_at = NOW()
+    WHERE id = $1 AND tenant_id = $2 AND estado = 'reservada'
+    RETURNING *
+  `;
+  const result = await query(sql, [unidadId, tenantId]);
+
+  if (result.rows.length > 0) {
+    return { unidad: result.rows[0] };
+  }
+
+  const unidad = await getUnidadById(tenantId, unidadId);
+  return unidad ? { unidad, error: 'no_reservada' } : { unidad: null };
+}
+
+/**
+ * Libera las reservas vencidas de todos los tenants (cron) y avisa al asesor
+ */
+export async function liberarReservasVencidas(): Promise<number> {
+  const sql = `
+    WITH vencidas AS (
+      SELECT id, reservado_por, reservado_por_usuario_id, reserva_expira_at
+      FROM unidades_proyecto
+      WHERE estado = 'reservada'
+        AND reserva_expira_at IS NOT NULL
+        AND reserva_expira_at <= NOW()
+      FOR UPDATE SKIP LOCKED
+    )
+    UPDATE unidades_proyecto u
+    SET estado = 'disponible',
+        fecha_reserva = NULL,
+        reservado_por = NULL,
+        reservado_por_usuario_id = NULL,
+        reserva_expira_at = NULL,
+        extensiones_reserva = 0,
+        updated_at = NOW()
+    FROM vencidas v, propiedades p
+    WHERE u.id = v.id AND p.id = u.propiedad_id
+    RETURNING u.id, u.tenant_id, u.propiedad_id, u.codigo, p.titulo AS propiedad_titulo,
+              v.reservado_por, v.reservado_por_usuario_id, v.reserva_expira_at
+  `;
+  const result = await query(sql);
+
+  for (const u of result.rows) {
+    if (!u.reservado_por_usuario_id) continue;
+    try {
+      await createActividad(u.tenant_id, {
+        tipo: 'seguimiento',
+        titulo: `Reserva vencida: unidad ${u.codigo} de "${u.propiedad_titulo}"`,
+        descripcion: 'La reserva venció y la unidad volvió a estar disponible.',
+        usuario_id: u.reservado_por_usuario_id,
+        contacto_id: u.reservado_por || undefined,
+        prioridad: 'alta',
+        metadata: {
+          origen: 'cron_reservas',
+          evento: 'reserva_vencida',
+          propiedad_id: u.propiedad_id,
+          unidad_id: u.id,
+          reserva_expira_at: u.reserva_expira_at,
+        },
+      });
+    } catch (error: any) {
+      console.error(`⚠️ Error creando actividad de reserva vencida (unidad ${u.id}):`, error.message);
+    }
+  }
+
+  return result.rows.length;
+}
+
 // ============ Estadísticas ============
 
 /**
@@ -306,7 +553,10 @@ export async function getEstadisticasProyecto(
 // ============ Import/Export ============
 
 /**
- * Importa unidades desde un array (usado para Excel/CSV)
+ * Importa unidades desde un array (usado para Excel/CSV).
+ * Las unidades nuevas entran con su estado salvo 'reservada'; en las existentes un
+ * cambio de estado se aplica con cambiarEstadoUnidad. Las reservas no se importan
+ * (se reportan en errores): se hacen desde el inventario con su vencimiento.
  */
 export async function importarUnidades(
   tenantId: string,
@@ -330,18 +580,35 @@ export async function importarUnidades(
         continue;
       }
 
+      const avisoReserva = `Unidad ${unidad.codigo}: la reserva no se importa, reservarla desde el inventario`;
+
       // Verificar si ya existe
       const existente = await query(
-        `SELECT id FROM unidades_proyecto WHERE propiedad_id = $1 AND codigo = $2 AND tenant_id = $3`,
+        `SELECT id, estado FROM unidades_proyecto WHERE propiedad_id = $1 AND codigo = $2 AND tenant_id = $3`,
         [propiedadId, unidad.codigo, tenantId]
       );
 
       if (existente.rows.length > 0 && modo === 'agregar') {
         // Actualizar existente
-        await updateUnidad(tenantId, existente.rows[0].id, unidad);
+        const actual = existente.rows[0];
+        await updateUnidad(tenantId, actual.id, unidad);
+
+        // Un cambio de estado se aplica como en PATCH /estado; una reserva nueva no
+        if (unidad.estado && unidad.estado !== actual.estado) {
+          if (unidad.estado === 'reservada') {
+            errores.push(avisoReserva);
+          } else if (ESTADOS_UNIDAD.includes(unidad.estado)) {
+            await cambiarEstadoUnidad(tenantId, actual.id, unidad.estado);
+          } else {
+            errores.push(`Unidad ${unidad.codigo}: estado "${unidad.estado}" inválido, se conserva "${actual.estado}"`);
+          }
+        }
         actualizadas++;
       } else {
         // Crear nueva
+        if (unidad.estado === 'reservada' || unidad.reservado_por || unidad.fecha_reserva) {
+          errores.push(avisoReserva);
+        }
         await createUnidad(tenantId, propiedadId, unidad);
         creadas++;
       }
@@ -8,6 +8,8 @@ import { query } from '../utils/db.js';
 import { createClerkUser, createClerkUserWithoutPassword, deactivateClerkUser, reactivateClerkUser, getClerkUserByEmail } from '../middleware/clerkAuth.js';
 import { v4 as uuidv4 } from 'uuid';
 import { registrarUsuarioCreado, registrarUsuarioEliminado } from './usageTrackingService.js';
+import { getRutasEntidad } from './sitemapService.js';
+import { registrarCambiosRuta } from './redireccionesService.js';
 
 export interface Usuario {
   id: string;
@@ -2174,6 +2176,18 @@ export async function getPerfilAsesor(
   };
 }
 
+/**
+ * El slug pedido para el perfil de asesor ya lo usa otro asesor del tenant (se responde como 409)
+ */
+export class SlugAsesorEnUsoError extends Error {
+  statusCode = 409;
+
+  constructor(slug: string) {
+    super(`El slug "${slug}" ya está en uso por otro asesor`);
+    this.name = 'SlugAsesorEnUsoError';
+  }
+}
+
 /**
  * Actualizar o crear perfil de asesor
  */
@@ -2192,6 +2206,7 @@ export async function upsertPerfilAsesor(
     tituloProfesional?: string;
     whatsapp?: string;
     telefonoDirecto?: string;
+    slug?: string;
   }
 ): Promise<any> {
   // Verificar si ya existe el perfil
@@ -2279,6 +2294,22 @@ export async function upsertPerfilAsesor(
       values.push(JSON.stringify(newMetadata));
     }
 
+    // Cambio de slug: la URL pública anterior queda redirigida
+    let rutasAnteriores: Record<string, string> | null = null;
+    const nuevoSlug = data.slug?.toLowerCase().trim().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+    if (nuevoSlug && nuevoSlug !== existingPerfil.slug) {
+      const slugEnUso = await query(
+        `SELECT id FROM perfiles_asesor WHERE tenant_id = $1 AND slug = $2 AND id <> $3`,
+        [tenantId, nuevoSlug, existingPerfil.id]
+      );
+      if (slugEnUso.rows.length > 0) {
+        throw new SlugAsesorEnUsoError(nuevoSlug);
+      }
+      rutasAnteriores = await getRutasEntidad(tenantId, 'asesor', existingPerfil.id);
+      updates.push(`slug = $${paramIndex++}`);
+      values.push(nuevoSlug);
+    }
+
     if (updates.length === 0) {
       return existingPerfil;
     }
@@ -2295,6 +2326,15 @@ export async function upsertPerfilAsesor(
     `;
 
     await query(sql, values);
+
+    if (rutasAnteriores) {
+      try {
+        await registrarCambiosRuta(tenantId, 'asesor', existingPerfil.id, rutasAnteriores);
+      } catch (redireccionError) {
+        console.error('⚠️ Error registrando redirecciones de slug del asesor:', redireccionError);
+      }
+    }
+
     return await getPerfilAsesor(usuarioId, tenantId);
   } else {
     // Crear nuevo perfil de asesor
@@ -0,0 +1,239 @@
+/**
+ * Servicio de cierre de ventas
+ *
+ * Al completar una venta se propaga el cierre a las entidades vinculadas
+ * en una sola transacción:
+ * - propiedades.estado_propiedad → 'vendida' / 'rentada'
+ *   (en proyectos, solo cuando ya no quedan unidades sin vender)
+ * - unidades_proyecto → 'vendida' con vendido_a = contacto de la venta
+ * - solicitudes → etapa 'ganado'
+ * - ventas_historial → registro de todo lo anterior
+ *
+ * Después del commit se actualiza el sistema de fases (si el lead vino del pool)
+ * y el progreso de las metas de ventas. Estos pasos no revierten el cierre si fallan.
+ */
+
+import { transaction } from '../utils/db.js';
+import { registrarCambio } from './ventasHistorialService.js';
+import { procesarVenta } from './sistemaFasesService.js';
+import { recalcularMetasVentas } from './metasService.js';
+
+// ==================== TIPOS ====================
+
+export interface CambioCascada {
+  id: string;
+  estado_anterior: string | null;
+  estado_nuevo: string;
+}
+
+export interface CascadaCierre {
+  propiedad: CambioCascada | null;
+  unidad: CambioCascada | null;
+  solicitud: CambioCascada | null;
+  sistema_fases: boolean;
+  metas_actualizadas: number;
+}
+
+export interface CompletarVentaResultado {
+  venta: any;
+  cascada: CascadaCierre;
+}
+
+// ==================== PASOS DE LA CASCADA ====================
+
+/**
+ * Marca la unidad del proyecto como vendida al contacto de la venta
+ */
+async function venderUnidad(client: any, tenantId: string, venta: any): Promise<CambioCascada | null> {
+  if (!venta.unidad_id) return null;
+
+  const sql = `
+    WITH anterior AS (
+      SELECT id, estado FROM unidades_proyecto
+      WHERE id = $1 AND tenant_id = $2
+      FOR UPDATE
+    )
+    UPDATE unidades_proyecto u
+    SET estado = 'vendida',
+        fecha_venta = COALESCE(u.fecha_venta, NOW()),
+        vendido_a = COALESCE($3, u.vendido_a),
+        reserva_expira_at = NULL,
+        updated_at = NOW()
+    FROM anterior
+    WHERE u.id = anterior.id
+    RETURNING u.id, anterior.estado AS estado_anterior
+  `;
+  const result = await client.query(sql, [venta.unidad_id, tenantId, venta.contacto_id || null]);
+  if (result.rows.length === 0) return null;
+
+  return { id: result.rows[0].id, estado_anterior: result.rows[0].estado_anterior, estado_nuevo: 'vendida' };
+}
+
+/**
+ * Marca la propiedad como vendida/rentada según su operación.
+ * Si es un proyecto, solo se cierra cuando todas sus unidades están vendidas.
+ */
+async function cerrarPropiedad(client: any, tenantId: string, venta: any): Promise<CambioCascada | null> {
+  if (!venta.propiedad_id) return null;
+
+  const propResult = await client.query(
+    `SELECT id, operacion, estado_propiedad, is_project
+     FROM propiedades
+     WHERE id = $1 AND tenant_id = $2
+     FOR UPDATE`,
+    [venta.propiedad_id, tenantId]
+  );
+  if (propResult.rows.length === 0) return null;
+
+  const propiedad = propResult.rows[0];
+  const estadoNuevo = propiedad.operacion === 'renta' ? 'rentada' : 'vendida';
+
+  if (propiedad.estado_propiedad === estadoNuevo) return null;
+
+  if (propiedad.is_project) {
+    const pendientes = await client.query(
+      `SELECT COUNT(*) AS total FROM unidades_proyecto
+       WHERE tenant_id = $1 AND propiedad_id = $2 AND estado <> 'vendida'`,
+      [tenantId, propiedad.id]
+    );
+    if (parseInt(pendientes.rows[0].total) > 0) return null;
+  }
+
+  await client.query(
+    `UPDATE propiedades SET estado_propiedad = $1, updated_at = NOW() WHERE id = $2 AND tenant_id = $3`,
+    [estadoNuevo, propiedad.id, tenantId]
+  );
+
+  return { id: propiedad.id, estado_anterior: propiedad.estado_propiedad, estado_nuevo: estadoNuevo };
+}
+
+/**
+ * Mueve la solicitud vinculada a 'ganado'
+ */
+async function ganarSolicitud(client: any, tenantId: string, venta: any): Promise<CambioCascada | null> {
+  if (!venta.solicitud_id) return null;
+
+  const sql = `
+    WITH anterior AS (
+      SELECT id, etapa FROM solicitudes
+      WHERE id = $1 AND tenant_id = $2 AND etapa <> 'ganado'
+      FOR UPDATE
+    )
+    UPDATE solicitudes s
+    SET etapa = 'ganado',
+        fecha_cierre_real = COALESCE(s.fecha_cierre_real, NOW()),
+        updated_at = NOW()
+    FROM anterior
+    WHERE s.id = anterior.id
+    RETURNING s.id, anterior.etapa AS etapa_anterior
+  `;
+  const result = await client.query(sql, [venta.solicitud_id, tenantId]);
+  if (result.rows.length === 0) return null;
+
+  return { id: result.rows[0].id, estado_anterior: result.rows[0].etapa_anterior, estado_nuevo: 'ganado' };
+}
+
+// ==================== CIERRE ====================
+
+/**
+ * Completa una venta y propaga el cierre.
+ * Retorna null si la venta no existe, ya estaba completada o está cancelada.
+ */
+export async function completarVenta(
+  tenantId: string,
+  ventaId: string,
+  usuarioId?: string
+): Promise<CompletarVentaResultado | null> {
+  const cierre = await transaction(async (client) => {
+    const ventaResult = await client.query(
+      `UPDATE ventas SET
+        completada = true,
+        fecha_cierre = COALESCE(fecha_cierre, NOW()),
+        updated_at = NOW()
+      WHERE tenant_id = $1 AND id = $2 AND activo = true
+        AND COALESCE(completada, false) = false
+        AND COALESCE(cancelada, false) = false
+      RETURNING *`,
+      [tenantId, ventaId]
+    );
+    if (ventaResult.rows.length === 0) return null;
+
+    const venta = ventaResult.rows[0];
+
+    // La unidad va antes que la propiedad para que el conteo de unidades vendidas la incluya
+    const unidad = await venderUnidad(client, tenantId, venta);
+    const propiedad = await cerrarPropiedad(client, tenantId, venta);
+    const solicitud = await ganarSolicitud(client, tenantId, venta);
+
+    let esLeadPool = false;
+    if (venta.contacto_id) {
+      const contactoResult = await client.query(
+        `SELECT es_lead_pool FROM contactos WHERE id = $1 AND tenant_id = $2`,
+        [venta.contacto_id, tenantId]
+      );
+      esLeadPool = contactoResult.rows[0]?.es_lead_pool === true;
+    }
+
+    await registrarCambio({
+      tenantId,
+      ventaId,
+      tipoCambio: 'venta_completada',
+      entidad: 'venta',
+      entidadId: ventaId,
+      datosAnteriores: {
+        completada: false,
+        estado_propiedad: propiedad?.estado_anterior,
+        estado_unidad: unidad?.estado_anterior,
+        etapa_solicitud: solicitud?.estado_anterior,
+      },
+      datosNuevos: {
+        completada: true,
+        fecha_cierre: venta.fecha_cierre,
+        estado_propiedad: propiedad?.estado_nuevo,
+        estado_unidad: unidad?.estado_nuevo,
+        etapa_solicitud: solicitud?.estado_nuevo,
+        es_lead_pool: esLeadPool,
+      },
+      descripcion: `Venta completada: ${venta.nombre_negocio || venta.numero_venta || ventaId}`,
+      usuarioId,
+    }, client);
+
+    return { venta, propiedad, unidad, solicitud, esLeadPool };
+  });
+
+  if (!cierre) return null;
+
+  const { venta, esLeadPool } = cierre;
+
+  // Sistema de fases: la venta cuenta para el asesor solo si el lead vino del pool
+  let sistemaFases = false;
+  if (esLeadPool && venta.usuario_cerrador_id) {
+    try {
+      await procesarVenta(tenantId, venta.usuario_cerrador_id, ventaId, true);
+      sistemaFases = true;
+    } catch (error: any) {
+      console.error(`⚠️ Error procesando venta ${ventaId} en sistema de fases:`, error.message);
+    }
+  }
+
+  let metasActualizadas = 0;
+  try {
+    const metas = await recalcularMetasVentas(tenantId, venta.usuario_cerrador_id);
+    metasActualizadas = metas.length;
+  } catch (error: any) {
+    console.error(`⚠️ Error recalculando metas tras venta ${ventaId}:`, error.message);
+  }
+
+  console.log(`✅ Venta ${ventaId} completada (propiedad: ${cierre.propiedad?.estado_nuevo || '-'}, unidad: ${cierre.unidad?.estado_nuevo || '-'}, solicitud: ${cierre.solicitud?.estado_nuevo || '-'})`);
+
+  return {
+    venta,
+    cascada: {
+      propiedad: cierre.propiedad,
+      unidad: cierre.unidad,
+      solicitud: cierre.solicitud,
+      sistema_fases: sistemaFases,
+      metas_actualizadas: metasActualizadas,
+    },
+  };
+}
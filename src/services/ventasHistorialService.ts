@@ -66,8 +66,11 @@ export interface RegistrarCambioParams {
 
 /**
  * Registrar un cambio en el historial
+ * Acepta un cliente de transacción para que el registro se confirme junto con el cambio.
  */
-export async function registrarCambio(params: RegistrarCambioParams): Promise<void> {
+export async function registrarCambio(params: RegistrarCambioParams, client?: any): Promise<void> {
+  const db = client || { query };
+
   const {
     tenantId,
     ventaId,
@@ -86,7 +89,7 @@ export async function registrarCambio(params: RegistrarCambioParams): Promise<vo
   // Obtener nombre del usuario si no se proporcionó
   let nombreUsuario = usuarioNombre;
   if (!nombreUsuario && usuarioId) {
-    const userResult = await query(
+    const userResult = await db.query(
       `SELECT nombre, apellido FROM usuarios WHERE id = $1`,
       [usuarioId]
     );
@@ -96,7 +99,7 @@ export async function registrarCambio(params: RegistrarCambioParams): Promise<vo
     }
   }
 
-  await query(
+  await db.query(
     `INSERT INTO ventas_historial (
       tenant_id, venta_id, tipo_cambio, entidad, entidad_id,
       datos_anteriores, datos_nuevos, descripcion,
@@ -5,10 +5,13 @@
  * - Config CRUD: widget settings per tenant
  * - Agent management: availability, capacity, assignment
  * - Agent selection: round-robin, least-busy, or manual distribution
+ * - Availability: agents + tenant business hours (mensajeriaHorariosService)
  */
 
 import crypto from 'crypto';
 import { query } from '../utils/db.js';
+import { getEstadoHorario } from './mensajeriaHorariosService.js';
+import type { HorarioSemanal } from './mensajeriaHorariosService.js';
 
 // ==================== TYPES ====================
 
@@ -24,7 +27,7 @@ export interface WebchatConfig {
   offline_message: string;
   widget_title: string;
   widget_subtitle: string | null;
-  business_hours: any | null;
+  business_hours: HorarioSemanal | null; // overrides the tenant's weekly schedule for the widget
   created_at: Date;
   updated_at: Date;
 }
@@ -89,7 +92,7 @@ export async function updateConfig(
     offline_message: string;
     widget_title: string;
     widget_subtitle: string | null;
-    business_hours: any;
+    business_hours: HorarioSemanal | null;
   }>
 ): Promise<WebchatConfig | null> {
   const fields: string[] = [];
@@ -286,3 +289,30 @@ export async function hasAvailableAgents(tenantId: string): Promise<boolean> {
   const result = await query(sql, [tenantId]);
   return result.rows.length > 0;
 }
+
+/**
+ * Widget availability: open per business hours (widget schedule or the tenant's
+ * calendar) and at least one agent with capacity. When unavailable the widget
+ * shows offline_message.
+ */
+export async function getAvailability(tenantId: string): Promise<{
+  available: boolean;
+  within_business_hours: boolean;
+  agents_available: boolean;
+  next_opening: { fecha: string; dia: string; hora: string } | null;
+  offline_message: string;
+}> {
+  const config = await getConfig(tenantId);
+  const [estado, agentsAvailable] = await Promise.all([
+    getEstadoHorario(tenantId, config.business_hours),
+    hasAvailableAgents(tenantId),
+  ]);
+
+  return {
+    available: estado.abierto && agentsAvailable,
+    within_business_hours: estado.abierto,
+    agents_available: agentsAvailable,
+    next_opening: estado.proxima_apertura,
+    offline_message: config.offline_message,
+  };
+}
@@ -0,0 +1,92 @@
+/**
+ * Codificador BlurHash (https://blurha.sh)
+ *
+ * Genera el placeholder compacto que el sitio pinta mientras carga la imagen.
+ * Recibe píxeles RGB o RGBA de una miniatura (32x32 es suficiente).
+ */
+
+const DIGITOS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz#$%*+,-.:;=?@[]^_{|}~';
+
+function base83(valor: number, largo: number): string {
+  let resultado = '';
+  for (let i = 1; i <= largo; i++) {
+    const digito = Math.floor(valor / Math.pow(83, largo - i)) % 83;
+    resultado += DIGITOS[digito];
+  }
+  return resultado;
+}
+
+function srgbALineal(valor: number): number {
+  const v = valor / 255;
+  return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+}
+
+function linealASrgb(valor: number): number {
+  const v = Math.max(0, Math.min(1, valor));
+  return v <= 0.0031308
+    ? Math.round(v * 12.92 * 255 + 0.5)
+    : Math.round((1.055 * Math.pow(v, 1 / 2.4) - 0.055) * 255 + 0.5);
+}
+
+function potenciaConSigno(valor: number, exponente: number): number {
+  return Math.sign(valor) * Math.pow(Math.abs(valor), exponente);
+}
+
+/**
+ * Codifica los píxeles en un BlurHash de componentesX x componentesY (1-9 cada uno)
+ */
+export function codificarBlurhash(
+  pixeles: Uint8Array | Buffer,
+  ancho: number,
+  alto: number,
+  canales: number,
+  componentesX = 4,
+  componentesY = 3
+): string {
+  const factores: Array<[number, number, number]> = [];
+
+  for (let j = 0; j < componentesY; j++) {
+    for (let i = 0; i < componentesX; i++) {
+      const normalizacion = i === 0 && j === 0 ? 1 : 2;
+      let r = 0;
+      let g = 0;
+      let b = 0;
+
+      for (let y = 0; y < alto; y++) {
+        for (let x = 0; x < ancho; x++) {
+          const base = Math.cos((Math.PI * i * x) / ancho) * Math.cos((Math.PI * j * y) / alto);
+          const p = (y * ancho + x) * canales;
+          r += base * srgbALineal(pixeles[p]);
+          g += base * srgbALineal(pixeles[p + 1]);
+          b += base * srgbALineal(pixeles[p + 2]);
+        }
+      }
+
+      const escala = normalizacion / (ancho * alto);
+      factores.push([r * escala, g * escala, b * escala]);
+    }
+  }
+
+  const [dc, ...ac] = factores;
+  let hash = base83(componentesX - 1 + (componentesY - 1) * 9, 1);
+
+  let maximo = 1;
+  if (ac.length > 0) {
+    const maximoReal = Math.max(...ac.flat().map(Math.abs));
+    const maximoCuantizado = Math.max(0, Math.min(82, Math.floor(maximoReal * 166 - 0.5)));
+    maximo = (maximoCuantizado + 1) / 166;
+    hash += base83(maximoCuantizado, 1);
+  } else {
+    hash += base83(0, 1);
+  }
+
+  hash += base83((linealASrgb(dc[0]) << 16) + (linealASrgb(dc[1]) << 8) + linealASrgb(dc[2]), 4);
+
+  for (const [r, g, b] of ac) {
+    const cuantizar = (v: number) =>
+      Math.max(0, Math.min(18, Math.floor(potenciaConSigno(v / maximo, 0.5) * 9 + 9.5)));
+    hash += base83(cuantizar(r) * 19 * 19 + cuantizar(g) * 19 + cuantizar(b), 2);
+  }
+
+  return hash;
+}
@@ -0,0 +1,140 @@
+/**
+ * jsonSchema.ts
+ *
+ * Validador de un subconjunto de JSON Schema (draft-07) para los datos de componentes.
+ * Soporta: type (o lista de tipos), enum, const, properties, required,
+ * additionalProperties, items, minItems, maxItems, minLength, maxLength, pattern,
+ * format (email, uri, color), minimum y maximum. title, description y default se
+ * ignoran al validar (los usa el editor para armar el formulario).
+ */
+
+export type TipoJsonSchema = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+export interface JsonSchema {
+  type?: TipoJsonSchema | TipoJsonSchema[];
+  title?: string;
+  description?: string;
+  default?: any;
+  enum?: any[];
+  const?: any;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  format?: 'email' | 'uri' | 'color' | string;
+  minimum?: number;
+  maximum?: number;
+  [key: string]: any; // Extensiones del editor (ej: x-widget)
+}
+
+const FORMATOS: Record<string, (valor: string) => boolean> = {
+  email: (v) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(v),
+  uri: (v) => /^(https?:\/\/|\/|#|mailto:|tel:)/i.test(v),
+  color: (v) => /^(#[0-9a-f]{3,8}|rgba?\([^)]*\)|hsla?\([^)]*\)|var\(--[\w-]+\)|[a-z]+)$/i.test(v),
+};
+
+function tipoDe(valor: any): TipoJsonSchema {
+  if (valor === null) return 'null';
+  if (Array.isArray(valor)) return 'array';
+  if (typeof valor === 'number') return Number.isInteger(valor) ? 'integer' : 'number';
+  return typeof valor as TipoJsonSchema;
+}
+
+function cumpleTipo(valor: any, tipos: TipoJsonSchema[]): boolean {
+  const tipo = tipoDe(valor);
+  return tipos.includes(tipo) || (tipo === 'integer' && tipos.includes('number'));
+}
+
+function iguales(a: any, b: any): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Valida un valor contra el schema. Retorna la lista de errores (vacía si es válido),
+ * cada uno con la ruta del campo (ej: "static_data.links[2].url").
+ */
+export function validarJsonSchema(schema: JsonSchema, valor: any, ruta = ''): string[] {
+  const errores: string[] = [];
+  const campo = ruta || 'valor';
+
+  if (schema.type) {
+    const tipos = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!cumpleTipo(valor, tipos)) {
+      return [`${campo} debe ser de tipo ${tipos.join(' o ')}`];
+    }
+  }
+
+  if (schema.const !== undefined && !iguales(valor, schema.const)) {
+    errores.push(`${campo} debe ser ${JSON.stringify(schema.const)}`);
+  }
+
+  if (schema.enum && !schema.enum.some((opcion) => iguales(opcion, valor))) {
+    errores.push(`${campo} debe ser uno de: ${schema.enum.map((o) => JSON.stringify(o)).join(', ')}`);
+  }
+
+  if (typeof valor === 'string') {
+    if (schema.minLength !== undefined && valor.length < schema.minLength) {
+      errores.push(`${campo} debe tener al menos ${schema.minLength} caracteres`);
+    }
+    if (schema.maxLength !== undefined && valor.length > schema.maxLength) {
+      errores.push(`${campo} debe tener como máximo ${schema.maxLength} caracteres`);
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(valor)) {
+      errores.push(`${campo} no tiene el formato esperado`);
+    }
+    if (schema.format && FORMATOS[schema.format] && !FORMATOS[schema.format](valor)) {
+      errores.push(`${campo} debe tener formato ${schema.format}`);
+    }
+  }
+
+  if (typeof valor === 'number') {
+    if (schema.minimum !== undefined && valor < schema.minimum) {
+      errores.push(`${campo} debe ser mayor o igual a ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && valor > schema.maximum) {
+      errores.push(`${campo} debe ser menor o igual a ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(valor)) {
+    if (schema.minItems !== undefined && valor.length < schema.minItems) {
+      errores.push(`${campo} debe tener al menos ${schema.minItems} elementos`);
+    }
+    if (schema.maxItems !== undefined && valor.length > schema.maxItems) {
+      errores.push(`${campo} debe tener como máximo ${schema.maxItems} elementos`);
+    }
+    if (schema.items) {
+      valor.forEach((item, i) => errores.push(...validarJsonSchema(schema.items!, item, `${campo}[${i}]`)));
+    }
+  }
+
+  if (tipoDe(valor) === 'object') {
+    for (const requerido of schema.required || []) {
+      if (valor[requerido] === undefined || valor[requerido] === null) {
+        errores.push(`${ruta ? `${ruta}.` : ''}${requerido} es requerido`);
+      }
+    }
+
+    for (const [clave, subvalor] of Object.entries(valor)) {
+      const rutaHijo = ruta ? `${ruta}.${clave}` : clave;
+      const subschema = schema.properties?.[clave];
+
+      if (subschema) {
+        // null en un campo opcional equivale a no enviarlo
+        if (subvalor === null && !(schema.required || []).includes(clave)) continue;
+        errores.push(...validarJsonSchema(subschema, subvalor, rutaHijo));
+      } else if (schema.additionalProperties === false) {
+        errores.push(`${rutaHijo} no es un campo permitido`);
+      } else if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+        errores.push(...validarJsonSchema(schema.additionalProperties, subvalor, rutaHijo));
+      }
+    }
+  }
+
+  return errores;
+}